@@ -0,0 +1,7 @@
+"use client";
+
+import { MoveStockFlow } from "@/components/handheld/move-stock-flow";
+
+export default function Page() {
+  return <MoveStockFlow />;
+}
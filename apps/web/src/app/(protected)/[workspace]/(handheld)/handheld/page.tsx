@@ -0,0 +1,7 @@
+"use client";
+
+import { HandheldTaskList } from "@/components/handheld/handheld-task-list";
+
+export default function Page() {
+  return <HandheldTaskList />;
+}
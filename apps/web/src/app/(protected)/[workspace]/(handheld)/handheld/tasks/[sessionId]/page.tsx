@@ -0,0 +1,12 @@
+"use client";
+
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { useParams } from "next/navigation";
+import { HandheldTaskRunner } from "@/components/handheld/handheld-task";
+
+export default function Page() {
+  const params = useParams();
+  const sessionId = params.sessionId as Id<"work_sessions">;
+
+  return <HandheldTaskRunner sessionId={sessionId} />;
+}
@@ -0,0 +1,14 @@
+import { HandheldHeader } from "@/components/handheld/handheld-header";
+
+export default function Layout({
+  children,
+}: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <div className="flex min-h-screen flex-col bg-muted/40">
+      <HandheldHeader />
+      <main className="mx-auto flex w-full max-w-md flex-1 flex-col gap-4 p-3">
+        {children}
+      </main>
+    </div>
+  );
+}
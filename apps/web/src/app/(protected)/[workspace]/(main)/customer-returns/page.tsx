@@ -0,0 +1,11 @@
+"use client";
+
+import { CustomerReturnsTable } from "@/components/table/customer-returns-table";
+
+export default function Page() {
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <CustomerReturnsTable />
+    </div>
+  );
+}
@@ -1,3 +1,11 @@
+"use client";
+
+import { InventoryBatchesTable } from "@/components/table/inventory-batches-table";
+
 export default function Page() {
-  return <div>Batches</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <InventoryBatchesTable />
+    </div>
+  );
 }
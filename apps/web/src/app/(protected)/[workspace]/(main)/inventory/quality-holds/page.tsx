@@ -0,0 +1,11 @@
+"use client";
+
+import { QualityHoldsTable } from "@/components/table/quality-holds-table";
+
+export default function Page() {
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <QualityHoldsTable />
+    </div>
+  );
+}
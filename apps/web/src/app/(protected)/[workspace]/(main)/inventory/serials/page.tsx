@@ -1,3 +1,11 @@
+"use client";
+
+import { SerialNumbersTable } from "@/components/table/serial-numbers-table";
+
 export default function Page() {
-  return <div>Serials</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <SerialNumbersTable />
+    </div>
+  );
 }
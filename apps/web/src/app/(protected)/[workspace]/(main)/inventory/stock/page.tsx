@@ -1,3 +1,11 @@
+"use client";
+
+import { StockOnHandTable } from "@/components/table/stock-on-hand-table";
+
 export default function Page() {
-  return <div>Stock</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <StockOnHandTable />
+    </div>
+  );
 }
@@ -1,3 +1,11 @@
+"use client";
+
+import { TransfersTable } from "@/components/table/transfers-table";
+
 export default function Page() {
-  return <div>Transfers</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <TransfersTable />
+    </div>
+  );
 }
@@ -0,0 +1,11 @@
+"use client";
+
+import { SupplierTable } from "@/components/table/supplier-table";
+
+export default function Page() {
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <SupplierTable />
+    </div>
+  );
+}
@@ -1,3 +1,11 @@
+"use client";
+
+import { OutboundOrdersTable } from "@/components/table/outbound-orders-table";
+
 export default function Page() {
-  return <div>Orders</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <OutboundOrdersTable />
+    </div>
+  );
 }
@@ -1,3 +1,11 @@
+"use client";
+
+import { PickingSessionsTable } from "@/components/table/picking-sessions-table";
+
 export default function Page() {
-  return <div>Picking Sessions</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <PickingSessionsTable />
+    </div>
+  );
 }
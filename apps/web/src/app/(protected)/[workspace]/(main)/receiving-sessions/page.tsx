@@ -1,3 +1,11 @@
+"use client";
+
+import { ReceiveSessionsTable } from "@/components/table/receive-sessions-table";
+
 export default function Page() {
-  return <div>Receiving Sessions</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <ReceiveSessionsTable />
+    </div>
+  );
 }
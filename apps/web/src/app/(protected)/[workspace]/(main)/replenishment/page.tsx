@@ -0,0 +1,11 @@
+"use client";
+
+import { ReplenishmentTable } from "@/components/table/replenishment-table";
+
+export default function Page() {
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <ReplenishmentTable />
+    </div>
+  );
+}
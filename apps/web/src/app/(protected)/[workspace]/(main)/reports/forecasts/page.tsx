@@ -0,0 +1,11 @@
+"use client";
+
+import { ForecastTable } from "@/components/table/forecast-table";
+
+export default function Page() {
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <ForecastTable />
+    </div>
+  );
+}
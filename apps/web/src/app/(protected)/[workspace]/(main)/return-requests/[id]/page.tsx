@@ -1,5 +1,7 @@
 "use client";
 
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   type ColumnDef,
   flexRender,
@@ -7,9 +9,7 @@ import {
   getPaginationRowModel,
   useReactTable,
 } from "@tanstack/react-table";
-// import { convexQuery } from "@convex-dev/react-query";
-// import { useQuery, useQueryClient } from "@tanstack/react-query";
-// import { api } from "@wms/backend/convex/_generated/api";
+import { api } from "@wms/backend/convex/_generated/api";
 import type { Id } from "@wms/backend/convex/_generated/dataModel";
 import {
   ArrowLeft,
@@ -26,10 +26,19 @@ import {
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import * as React from "react";
-// import { toast } from "sonner";
+import { toast } from "sonner";
+import { ReturnCreditDialog } from "@/components/return-credit-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   InputGroup,
   InputGroupAddon,
@@ -45,21 +54,28 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { ReturnRequestDetailItem } from "@/lib/types";
 import { cn } from "@/lib/utils";
-// import { useConvex } from "convex/react";
-import { getReturnRequestById } from "@/mock/data/return-requests";
 
 const getBadgeStyleByStatus = (status: string) => {
   switch (status.toLowerCase()) {
     case "waiting":
     case "pending":
+    case "requested":
       return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
     case "approved":
     case "accepted":
+    case "picked":
       return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "shipped":
+      return "bg-purple-500/5 text-purple-500 border-purple-500/60";
     case "returned":
     case "completed":
+    case "credit received":
+    case "closed":
       return "bg-blue-500/5 text-blue-500 border-blue-500/60";
     case "rejected":
     case "cancelled":
@@ -69,19 +85,48 @@ const getBadgeStyleByStatus = (status: string) => {
   }
 };
 
-// Define the detail item type based on what the API returns
-type DetailItem = {
-  _id: Id<"return_request_details">;
-  skuCode: string;
-  productName: string | null;
-  quantityToReturn: number;
-  expectedCreditAmount: number;
-  reason: { lookupValue: string } | null;
-  customReasonNotes?: string;
-  batchId: string;
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+
+const formatDateTime = (timestamp: number | null) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+/** Split scanned serials on new lines, commas or spaces */
+const parseSerials = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+type ReturnAction = {
+  code: string;
+  label: string;
+  needsReason?: boolean;
+  reasonRequired?: boolean;
 };
 
-const columns: ColumnDef<DetailItem>[] = [
+// RECORD_CREDIT opens the credit dialog instead
+const LIFECYCLE_ACTIONS: ReturnAction[] = [
+  { code: "APPROVE", label: "Approve" },
+  { code: "REJECT", label: "Reject", needsReason: true, reasonRequired: true },
+  { code: "PICK", label: "Mark as picked" },
+  { code: "SHIP", label: "Ship to supplier" },
+  { code: "CLOSE", label: "Close", needsReason: true },
+  { code: "CANCEL", label: "Cancel", needsReason: true },
+];
+
+const columns: ColumnDef<ReturnRequestDetailItem>[] = [
   {
     accessorKey: "skuCode",
     header: "SKU",
@@ -96,6 +141,20 @@ const columns: ColumnDef<DetailItem>[] = [
       <div className="">{row.getValue("productName") ?? "-"}</div>
     ),
   },
+  {
+    accessorKey: "batchNumber",
+    header: "Batch",
+    cell: ({ row }) => (
+      <div>
+        <div>{row.original.batchNumber ?? "-"}</div>
+        {row.original.batchQuantity !== null && (
+          <div className="text-muted-foreground text-xs">
+            {row.original.batchQuantity} on hand
+          </div>
+        )}
+      </div>
+    ),
+  },
   {
     accessorKey: "quantityToReturn",
     header: "Qty to Return",
@@ -108,11 +167,35 @@ const columns: ColumnDef<DetailItem>[] = [
     header: "Expected Credit",
     cell: ({ row }) => {
       const amount = row.getValue("expectedCreditAmount") as number;
-      const formatted = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-      }).format(amount);
-      return <div className="text-right font-medium">{formatted}</div>;
+      return (
+        <div className="text-right font-medium">{formatCurrency(amount)}</div>
+      );
+    },
+  },
+  {
+    accessorKey: "actualCreditAmount",
+    header: "Credited",
+    cell: ({ row }) => {
+      const amount = row.original.actualCreditAmount;
+      const variance = row.original.creditVariance;
+      return (
+        <div className="text-right">
+          <div className="font-medium">
+            {amount === null ? "-" : formatCurrency(amount)}
+          </div>
+          {variance !== null && variance !== 0 && (
+            <div
+              className={cn(
+                "text-xs",
+                variance < 0 ? "text-red-500" : "text-green-500",
+              )}
+            >
+              {variance > 0 ? "+" : ""}
+              {formatCurrency(variance)}
+            </div>
+          )}
+        </div>
+      );
     },
   },
   {
@@ -139,21 +222,89 @@ const columns: ColumnDef<DetailItem>[] = [
 export default function ReturnRequestDetailPage() {
   const params = useParams();
   const workspace = params.workspace as string;
-  const returnRequestId = params.id as string;
-  // const queryClient = useQueryClient();
-  // const convex = useConvex();
-
-  // COMMENTED OUT: Convex query - using mock data instead
-  // const { data: returnRequest, isPending } = useQuery({
-  //   ...convexQuery(api.returnRequest.getReturnRequestWithDetails, {
-  //     returnRequestId: returnRequestId as Id<"return_requests">,
-  //   }),
-  //   enabled: !!returnRequestId,
-  // });
-
-  // Using mock data instead of Convex
-  const returnRequest = getReturnRequestById(returnRequestId);
-  const isPending = false;
+  const returnRequestId = params.id as Id<"return_requests">;
+  const { userId } = useCurrentUser();
+  const [creditOpen, setCreditOpen] = React.useState(false);
+  const [pendingAction, setPendingAction] = React.useState<ReturnAction | null>(
+    null,
+  );
+  const [reason, setReason] = React.useState("");
+  const [isShipOpen, setIsShipOpen] = React.useState(false);
+  const [shipSerials, setShipSerials] = React.useState<Record<string, string>>(
+    {},
+  );
+
+  const { data: returnRequest, isPending } = useQuery({
+    ...convexQuery(api.returnRequest.getReturnRequestWithDetails, {
+      returnRequestId,
+    }),
+    enabled: !!returnRequestId,
+  });
+
+  const { mutateAsync: approveReturn } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.approveReturnRequest),
+  });
+  const { mutateAsync: rejectReturn } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.rejectReturnRequest),
+  });
+  const { mutateAsync: pickReturn } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.pickReturnRequest),
+  });
+  const { mutateAsync: shipReturn } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.shipReturnRequest),
+  });
+  const { mutateAsync: closeReturn } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.closeReturnRequest),
+  });
+  const { mutateAsync: cancelReturn } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.cancelReturnRequest),
+  });
+  const [isRunning, setIsRunning] = React.useState(false);
+
+  const runAction = async (action: ReturnAction, actionReason?: string) => {
+    if (!userId) return;
+    const args = { returnRequestId, userId };
+    setIsRunning(true);
+    try {
+      switch (action.code) {
+        case "APPROVE":
+          await approveReturn(args);
+          break;
+        case "REJECT":
+          await rejectReturn({ ...args, reason: actionReason ?? "" });
+          break;
+        case "PICK":
+          await pickReturn(args);
+          break;
+        case "SHIP":
+          await shipReturn({
+            ...args,
+            lines: (returnRequest?.details ?? [])
+              .filter((detail) => detail.isSerialTracked)
+              .map((detail) => ({
+                detailId: detail._id,
+                serialNumbers: parseSerials(shipSerials[detail._id] ?? ""),
+              })),
+          });
+          break;
+        case "CLOSE":
+          await closeReturn({ ...args, reason: actionReason || undefined });
+          break;
+        case "CANCEL":
+          await cancelReturn({ ...args, reason: actionReason || undefined });
+          break;
+      }
+      toast.success(`${action.label} done`);
+      setPendingAction(null);
+      setIsShipOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update return",
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
 
   const [setFilterValue, instantFilterValue, debouncedFilterValue] =
     useDebouncedInput("", 300);
@@ -174,7 +325,7 @@ export default function ReturnRequestDetailPage() {
   }, [returnRequest?.details, debouncedFilterValue]);
 
   const table = useReactTable({
-    data: filteredDetails as DetailItem[],
+    data: filteredDetails as ReturnRequestDetailItem[],
     columns,
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
@@ -185,23 +336,6 @@ export default function ReturnRequestDetailPage() {
     },
   });
 
-  // COMMENTED OUT: Convex mutation for status update - using mock data
-  // const handleStatusUpdate = async (newStatus: string) => {
-  //   try {
-  //     await convex.mutation(api.returnRequest.setReturnRequestStatus, {
-  //       returnRequestId: returnRequestId as Id<"return_requests">,
-  //       returnStatusTypeId: newStatus,
-  //     });
-  //     toast.success("Status updated successfully");
-  //     queryClient.invalidateQueries({
-  //       queryKey: ["returnRequest", returnRequestId],
-  //     });
-  //   } catch (error) {
-  //     toast.error("Failed to update status");
-  //     console.error(error);
-  //   }
-  // };
-
   if (isPending) {
     return (
       <div className="flex flex-col gap-4 p-2">
@@ -241,6 +375,11 @@ export default function ReturnRequestDetailPage() {
     minute: "2-digit",
   }).format(new Date(returnRequest.requestedAt));
 
+  // Serial-tracked lines ship the serials scanned at the dock
+  const serialLines = returnRequest.details.filter(
+    (detail) => detail.isSerialTracked,
+  );
+
   return (
     <div className="flex flex-col gap-4 p-2">
       {/* Header */}
@@ -271,6 +410,43 @@ export default function ReturnRequestDetailPage() {
         </Badge>
       </div>
 
+      {/* Lifecycle Actions */}
+      {returnRequest.availableActions.length > 0 && (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {returnRequest.availableActions.includes("RECORD_CREDIT") && (
+            <Button onClick={() => setCreditOpen(true)}>
+              {returnRequest.creditReceivedAt ? "Edit credit" : "Record credit"}
+            </Button>
+          )}
+          {LIFECYCLE_ACTIONS.filter((action) =>
+            returnRequest.availableActions.includes(action.code),
+          ).map((action) => (
+            <Button
+              key={action.code}
+              variant={
+                action.code === "REJECT" || action.code === "CANCEL"
+                  ? "outline"
+                  : "default"
+              }
+              disabled={!userId || isRunning}
+              onClick={() => {
+                if (action.needsReason) {
+                  setReason("");
+                  setPendingAction(action);
+                } else if (action.code === "SHIP" && serialLines.length > 0) {
+                  setShipSerials({});
+                  setIsShipOpen(true);
+                } else {
+                  void runAction(action);
+                }
+              }}
+            >
+              {action.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* Summary Card */}
       <Card>
         <CardHeader className="pb-3">
@@ -322,7 +498,7 @@ export default function ReturnRequestDetailPage() {
 
           <Separator className="my-4" />
 
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-4">
             <div className="rounded-lg border p-4 text-center">
               <p className="font-bold text-2xl">{returnRequest.totalSKUs}</p>
               <p className="text-muted-foreground text-sm">Total SKUs</p>
@@ -335,15 +511,77 @@ export default function ReturnRequestDetailPage() {
             </div>
             <div className="rounded-lg border p-4 text-center">
               <p className="font-bold text-2xl">
-                {new Intl.NumberFormat("en-US", {
-                  style: "currency",
-                  currency: "USD",
-                }).format(returnRequest.totalExpectedCredit)}
+                {formatCurrency(returnRequest.totalExpectedCredit)}
               </p>
               <p className="text-muted-foreground text-sm">
                 Total Expected Credit
               </p>
             </div>
+            <div className="rounded-lg border p-4 text-center">
+              <p className="font-bold text-2xl">
+                {returnRequest.totalActualCredit === null
+                  ? "-"
+                  : formatCurrency(returnRequest.totalActualCredit)}
+              </p>
+              <p className="text-muted-foreground text-sm">
+                Actual Credit
+                {returnRequest.creditVariance !== null && (
+                  <span
+                    className={cn(
+                      "ml-1",
+                      returnRequest.creditVariance < 0 && "text-red-500",
+                    )}
+                  >
+                    ({returnRequest.creditVariance > 0 ? "+" : ""}
+                    {formatCurrency(returnRequest.creditVariance)})
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Lifecycle */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Lifecycle</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-5">
+            {[
+              {
+                label: "Approved",
+                at: returnRequest.approvedAt,
+                note: returnRequest.approvedByUser?.fullName,
+              },
+              { label: "Picked", at: returnRequest.pickedAt },
+              { label: "Shipped", at: returnRequest.shippedAt },
+              {
+                label: "Credit received",
+                at: returnRequest.creditReceivedAt,
+                note: returnRequest.creditNoteReference,
+              },
+              {
+                label: "Closed",
+                at: returnRequest.closedAt,
+                note: returnRequest.closeReason,
+              },
+            ].map((step) => (
+              <div
+                key={step.label}
+                className={cn(
+                  "rounded-lg border p-3",
+                  !step.at && "text-muted-foreground",
+                )}
+              >
+                <p className="font-medium text-sm">{step.label}</p>
+                <p className="text-sm">{formatDateTime(step.at)}</p>
+                {step.at && step.note && (
+                  <p className="text-muted-foreground text-xs">{step.note}</p>
+                )}
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -457,6 +695,123 @@ export default function ReturnRequestDetailPage() {
           </div>
         </CardContent>
       </Card>
+
+      <ReturnCreditDialog
+        returnRequest={returnRequest}
+        open={creditOpen}
+        onOpenChange={setCreditOpen}
+      />
+
+      <Dialog open={isShipOpen} onOpenChange={setIsShipOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ship to supplier</DialogTitle>
+            <DialogDescription>
+              Scan the serials leaving with each serial-tracked line.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-4">
+            {serialLines.map((detail) => {
+              const scanned = parseSerials(shipSerials[detail._id] ?? "");
+              return (
+                <div key={detail._id} className="flex flex-col gap-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {detail.skuCode}
+                      {detail.batchNumber && (
+                        <span className="ml-2 text-muted-foreground">
+                          {detail.batchNumber}
+                        </span>
+                      )}
+                    </span>
+                    <span
+                      className={cn(
+                        "tabular-nums",
+                        scanned.length !== detail.quantityToReturn &&
+                          "text-muted-foreground",
+                      )}
+                    >
+                      {scanned.length}/{detail.quantityToReturn}
+                    </span>
+                  </div>
+                  <Textarea
+                    placeholder="Scan serials"
+                    value={shipSerials[detail._id] ?? ""}
+                    onChange={(e) =>
+                      setShipSerials({
+                        ...shipSerials,
+                        [detail._id]: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsShipOpen(false)}>
+              Back
+            </Button>
+            <Button
+              disabled={
+                isRunning ||
+                serialLines.some(
+                  (detail) =>
+                    parseSerials(shipSerials[detail._id] ?? "").length !==
+                    detail.quantityToReturn,
+                )
+              }
+              onClick={() =>
+                void runAction({ code: "SHIP", label: "Ship to supplier" })
+              }
+            >
+              Ship to supplier
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction?.label}</DialogTitle>
+            <DialogDescription>
+              {pendingAction?.reasonRequired ||
+              (pendingAction?.code === "CLOSE" &&
+                !returnRequest.creditReceivedAt)
+                ? "A reason is required and is kept in the audit log."
+                : "Optionally note why; it is kept in the audit log."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Back
+            </Button>
+            <Button
+              disabled={
+                isRunning ||
+                ((pendingAction?.reasonRequired ||
+                  (pendingAction?.code === "CLOSE" &&
+                    !returnRequest.creditReceivedAt)) &&
+                  !reason.trim())
+              }
+              onClick={() =>
+                pendingAction && void runAction(pendingAction, reason.trim())
+              }
+            >
+              {pendingAction?.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,3 +1,11 @@
+"use client";
+
+import { LotTrace } from "@/components/lot-trace";
+
 export default function Page() {
-  return <div>Traceability</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <LotTrace />
+    </div>
+  );
 }
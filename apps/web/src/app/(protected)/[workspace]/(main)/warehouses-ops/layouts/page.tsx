@@ -0,0 +1,11 @@
+"use client";
+
+import { WarehouseLayoutsTable } from "@/components/table/warehouse-layouts-table";
+
+export default function Page() {
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <WarehouseLayoutsTable />
+    </div>
+  );
+}
@@ -1,3 +1,11 @@
+"use client";
+
+import { StorageZonesTable } from "@/components/table/storage-zones-table";
+
 export default function Page() {
-  return <div>Zones</div>;
+  return (
+    <div className="flex flex-col gap-4 p-2">
+      <StorageZonesTable />
+    </div>
+  );
 }
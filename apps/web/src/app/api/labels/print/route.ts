@@ -0,0 +1,68 @@
+import { connect } from "node:net";
+import { NextResponse } from "next/server";
+import { getToken } from "@/lib/auth/server";
+
+export const runtime = "nodejs";
+
+const PRINTER_TIMEOUT_MS = 10_000;
+
+/**
+ * Send raw data to a network label printer (port 9100 "raw" printing)
+ */
+function sendToPrinter(host: string, port: number, data: string) {
+  return new Promise<void>((resolve, reject) => {
+    const socket = connect({ host, port });
+    socket.setTimeout(PRINTER_TIMEOUT_MS, () => {
+      socket.destroy(new Error(`Printer at ${host}:${port} timed out`));
+    });
+    socket.on("error", reject);
+    socket.on("connect", () => {
+      socket.end(data, "utf8", () => resolve());
+    });
+  });
+}
+
+/**
+ * POST /api/labels/print
+ * Send a ZPL job to the label printer at LABEL_PRINTER_HOST:LABEL_PRINTER_PORT
+ */
+export async function POST(request: Request) {
+  const token = await getToken();
+  if (!token) {
+    return NextResponse.json(
+      { success: false, message: "Not signed in" },
+      { status: 401 },
+    );
+  }
+
+  const host = process.env.LABEL_PRINTER_HOST;
+  const port = Number(process.env.LABEL_PRINTER_PORT || 9100);
+  if (!host) {
+    return NextResponse.json(
+      { success: false, message: "No label printer is configured" },
+      { status: 503 },
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    zpl?: unknown;
+  } | null;
+  const zpl = body?.zpl;
+  if (typeof zpl !== "string" || !zpl.trimStart().startsWith("^XA")) {
+    return NextResponse.json(
+      { success: false, message: "A ZPL label job is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await sendToPrinter(host, port, zpl);
+    return NextResponse.json({ success: true, message: undefined });
+  } catch (error) {
+    console.error("Error sending labels to printer:", error);
+    return NextResponse.json(
+      { success: false, message: "Could not reach the label printer" },
+      { status: 502 },
+    );
+  }
+}
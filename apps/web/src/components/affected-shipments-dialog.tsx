@@ -0,0 +1,182 @@
+"use client";
+
+import type { api } from "@wms/backend/convex/_generated/api";
+import type { FunctionReturnType } from "convex/server";
+import { Copy, Download } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type AffectedShipment = NonNullable<
+  FunctionReturnType<typeof api.traceability.traceLot>
+>["affectedShipments"][number];
+
+interface AffectedShipmentsDialogProps {
+  traceLabel: string;
+  shipments: AffectedShipment[];
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(timestamp));
+
+const toCsv = (shipments: AffectedShipment[]) => {
+  const toCell = (value: string | number | null) => {
+    const text = String(value ?? "");
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = [
+    "Order",
+    "Order date",
+    "Status",
+    "Customer",
+    "Shipping address",
+    "Tracking number",
+    "SKU",
+    "Batches",
+    "Quantity",
+  ];
+  const rows = shipments.map((shipment) => [
+    shipment.orderCode,
+    formatDate(shipment.orderDate),
+    shipment.statusName,
+    shipment.customerName,
+    shipment.shippingAddress,
+    shipment.trackingNumber,
+    shipment.skuCodes.join(" "),
+    shipment.batchNumbers.join(" "),
+    shipment.quantity,
+  ]);
+  return [header, ...rows].map((row) => row.map(toCell).join(",")).join("\n");
+};
+
+/**
+ * Recall list: every outbound order that received stock of a traced lot.
+ */
+export function AffectedShipmentsDialog({
+  traceLabel,
+  shipments,
+  open,
+  onOpenChange,
+}: AffectedShipmentsDialogProps) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(toCsv(shipments));
+    toast.success("Affected shipments copied");
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(
+      new Blob([toCsv(shipments)], { type: "text/csv" }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `affected-shipments-${traceLabel}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const totalQuantity = shipments.reduce((sum, s) => sum + s.quantity, 0);
+  const customerCount = new Set(shipments.map((s) => s.customerName)).size;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-5xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Affected shipments</DialogTitle>
+          <DialogDescription>
+            {traceLabel} · {shipments.length} order(s) · {customerCount}{" "}
+            customer(s) · {totalQuantity} unit(s)
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-hidden rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Tracking</TableHead>
+                <TableHead>Batches</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shipments.length ? (
+                shipments.map((shipment) => (
+                  <TableRow key={shipment.outboundOrderId}>
+                    <TableCell>
+                      <div className="font-medium">{shipment.orderCode}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {formatDate(shipment.orderDate)}
+                        {shipment.branchName && ` · ${shipment.branchName}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {shipment.customerName ?? "-"}
+                      <div className="text-muted-foreground text-xs">
+                        {shipment.shippingAddress}
+                      </div>
+                    </TableCell>
+                    <TableCell>{shipment.trackingNumber ?? "-"}</TableCell>
+                    <TableCell>{shipment.batchNumbers.join(", ")}</TableCell>
+                    <TableCell className="text-right">
+                      {shipment.quantity}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Badge variant={"outline"} className="rounded-sm">
+                        {shipment.statusName}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-16 text-center">
+                    No outbound orders received this stock.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleCopy}
+            disabled={!shipments.length}
+          >
+            <Copy />
+            Copy CSV
+          </Button>
+          <Button onClick={handleDownload} disabled={!shipments.length}>
+            <Download />
+            Download CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -44,6 +44,10 @@ const data = {
           title: "Purchase Orders",
           url: "/purchase-orders",
         },
+        {
+          title: "Replenishment",
+          url: "/replenishment",
+        },
         {
           title: "Receiving Sessions",
           url: "/receiving-sessions",
@@ -67,6 +71,10 @@ const data = {
           title: "Picking Sessions",
           url: "/picking-sessions",
         },
+        {
+          title: "Customer Returns",
+          url: "/customer-returns",
+        },
       ],
     },
     {
@@ -85,6 +93,10 @@ const data = {
           title: "Serials",
           url: "/inventory/serials",
         },
+        {
+          title: "Quality Holds",
+          url: "/inventory/quality-holds",
+        },
         {
           title: "Adjustments",
           url: "/inventory/adjustments",
@@ -107,10 +119,18 @@ const data = {
           title: "Zones",
           url: "/warehouses-ops/zones",
         },
+        {
+          title: "Layouts",
+          url: "/warehouses-ops/layouts",
+        },
         {
           title: "Work Sessions",
           url: "/warehouses-ops/work-sessions",
         },
+        {
+          title: "Handheld",
+          url: "/handheld",
+        },
       ],
     },
     {
@@ -137,6 +157,10 @@ const data = {
           title: "Brands",
           url: "/master-data/brands",
         },
+        {
+          title: "Suppliers",
+          url: "/master-data/suppliers",
+        },
       ],
     },
     {
@@ -155,6 +179,10 @@ const data = {
           title: "Outbound",
           url: "/reports/outbound",
         },
+        {
+          title: "Forecasts",
+          url: "/reports/forecasts",
+        },
       ],
     },
     {
@@ -0,0 +1,254 @@
+"use client";
+
+import { Camera, CameraOff, ScanBarcode } from "lucide-react";
+import * as React from "react";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupButton,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { playScanTone, type ScanFeedback } from "@/lib/scan-feedback";
+import { cn } from "@/lib/utils";
+
+// Minimal typing for the Shape Detection API, not yet in the DOM lib
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> };
+
+const BARCODE_FORMATS = [
+  "ean_13",
+  "ean_8",
+  "upc_a",
+  "upc_e",
+  "code_128",
+  "qr_code",
+];
+
+/** Keyboard-wedge scanners type faster than this between keys */
+const WEDGE_KEY_GAP_MS = 50;
+const WEDGE_MIN_LENGTH = 3;
+/** The camera sees the same code on many frames; ignore repeats */
+const CAMERA_REPEAT_MS = 1500;
+const CAMERA_POLL_MS = 200;
+
+const getBarcodeDetector = () =>
+  typeof window === "undefined"
+    ? undefined
+    : (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+        .BarcodeDetector;
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+interface BarcodeScannerProps {
+  /** Handle a scanned code and report whether it was accepted */
+  onScan: (code: string) => Promise<ScanFeedback> | ScanFeedback;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Scan input for EAN/UPC, Code 128 and QR codes. Reads from the device
+ * camera, from keyboard-wedge scanners anywhere on the page, or from the
+ * code typed into the field. Every scan beeps and flashes with the result
+ * returned by onScan.
+ */
+export function BarcodeScanner({
+  onScan,
+  disabled,
+  placeholder = "Scan or type a barcode",
+  className,
+}: BarcodeScannerProps) {
+  const [value, setValue] = React.useState("");
+  const [cameraOn, setCameraOn] = React.useState(false);
+  const [feedback, setFeedback] = React.useState<ScanFeedback | null>(null);
+  const [flash, setFlash] = React.useState(false);
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+  const onScanRef = React.useRef(onScan);
+  // Scans are handled one at a time so quick bursts don't race each other
+  const queueRef = React.useRef<Promise<void>>(Promise.resolve());
+
+  onScanRef.current = onScan;
+
+  const handleScan = React.useCallback((raw: string) => {
+    const code = raw.trim();
+    if (!code) return;
+
+    queueRef.current = queueRef.current.then(async () => {
+      let result: ScanFeedback;
+      try {
+        result = await onScanRef.current(code);
+      } catch (error) {
+        result = {
+          ok: false,
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+      playScanTone(result.ok);
+      setFeedback(result);
+      setFlash(true);
+    });
+  }, []);
+
+  React.useEffect(() => {
+    if (!flash) return;
+    const timeout = setTimeout(() => setFlash(false), 600);
+    return () => clearTimeout(timeout);
+  }, [flash]);
+
+  // Keyboard wedge: fast keystrokes ending in Enter outside any input field
+  React.useEffect(() => {
+    if (disabled) return;
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const now = Date.now();
+      if (now - lastKeyAt > WEDGE_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= WEDGE_MIN_LENGTH) {
+          event.preventDefault();
+          handleScan(buffer);
+        }
+        buffer = "";
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [disabled, handleScan]);
+
+  // Camera: poll the video stream with the browser's BarcodeDetector
+  React.useEffect(() => {
+    if (!cameraOn || disabled) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) {
+      setFeedback({
+        ok: false,
+        message: "This browser cannot read barcodes from the camera",
+      });
+      setCameraOn(false);
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    let lastCode = "";
+    let lastCodeAt = 0;
+    const detector = new Detector({ formats: BARCODE_FORMATS });
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (cancelled || !video) return;
+        video.srcObject = mediaStream;
+        await video.play();
+
+        interval = setInterval(async () => {
+          if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+          const [barcode] = await detector.detect(video).catch(() => []);
+          if (!barcode) return;
+
+          const now = Date.now();
+          if (
+            barcode.rawValue === lastCode &&
+            now - lastCodeAt < CAMERA_REPEAT_MS
+          ) {
+            lastCodeAt = now;
+            return;
+          }
+          lastCode = barcode.rawValue;
+          lastCodeAt = now;
+          handleScan(barcode.rawValue);
+        }, CAMERA_POLL_MS);
+      })
+      .catch((error: Error) => {
+        setFeedback({
+          ok: false,
+          message: `Camera unavailable: ${error.message}`,
+        });
+        setCameraOn(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      for (const track of stream?.getTracks() ?? []) track.stop();
+    };
+  }, [cameraOn, disabled, handleScan]);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <InputGroup
+        className={cn(
+          "transition-shadow",
+          flash &&
+            (feedback?.ok
+              ? "ring-2 ring-green-500"
+              : "ring-2 ring-destructive"),
+        )}
+      >
+        <InputGroupInput
+          placeholder={placeholder}
+          value={value}
+          disabled={disabled}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              handleScan(value);
+              setValue("");
+            }
+          }}
+        />
+        <InputGroupAddon>
+          <ScanBarcode />
+        </InputGroupAddon>
+        <InputGroupAddon align="inline-end">
+          <InputGroupButton
+            size="icon-xs"
+            disabled={disabled}
+            onClick={() => setCameraOn((on) => !on)}
+          >
+            {cameraOn ? <CameraOff /> : <Camera />}
+            <span className="sr-only">
+              {cameraOn ? "Stop camera" : "Scan with camera"}
+            </span>
+          </InputGroupButton>
+        </InputGroupAddon>
+      </InputGroup>
+
+      {cameraOn && (
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className="aspect-video w-full rounded-md border bg-black object-cover"
+        />
+      )}
+
+      {feedback && (
+        <p
+          className={cn(
+            "text-sm",
+            feedback.ok ? "text-green-600" : "font-medium text-destructive",
+          )}
+        >
+          {feedback.message}
+        </p>
+      )}
+    </div>
+  );
+}
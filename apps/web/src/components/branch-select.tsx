@@ -0,0 +1,60 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Building2 } from "lucide-react";
+import * as React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+/**
+ * Branch picker bound to the global branch store.
+ * Selects the first active branch when nothing is selected yet.
+ */
+export function BranchSelect({ className }: { className?: string }) {
+  const { organizationId } = useCurrentUser();
+  const { branchId, setBranchId } = useBranchStore();
+
+  const { data: branches } = useQuery({
+    ...convexQuery(api.branches.listAll, {
+      organizationId: organizationId as Id<"organizations">,
+      isActive: true,
+    }),
+    enabled: !!organizationId,
+  });
+
+  React.useEffect(() => {
+    if (!branchId && branches && branches.length > 0) {
+      setBranchId(branches[0]._id);
+    }
+  }, [branchId, branches, setBranchId]);
+
+  return (
+    <Select
+      value={branchId ?? undefined}
+      onValueChange={(value) => setBranchId(value as Id<"branches">)}
+    >
+      <SelectTrigger className={cn("w-[200px]", className)}>
+        <Building2 className="size-4" />
+        <SelectValue placeholder="Select branch" />
+      </SelectTrigger>
+      <SelectContent>
+        {branches?.map((branch) => (
+          <SelectItem key={branch._id} value={branch._id}>
+            {branch.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { CreateNewButton } from "@/components/ui/create-new-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useBranchStore } from "@/store/branch";
+
+/**
+ * Authorize a customer return against a shipped outbound order
+ */
+export function CreateCustomerReturnDialog() {
+  const [open, setOpen] = React.useState(false);
+  const [orderId, setOrderId] = React.useState<Id<"outbound_orders"> | null>(
+    null,
+  );
+  const [quantities, setQuantities] = React.useState<Record<string, number>>(
+    {},
+  );
+  const [reason, setReason] = React.useState("");
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+
+  const { data: orders } = useQuery({
+    ...convexQuery(api.outboundOrders.listOutboundOrders, {
+      branchId: branchId as Id<"branches">,
+      statusCode: "SHIPPED",
+    }),
+    enabled: open && !!branchId,
+  });
+
+  const { data: lines, isPending: isLoadingLines } = useQuery({
+    ...convexQuery(api.customerReturns.getReturnableLines, {
+      outboundOrderId: orderId as Id<"outbound_orders">,
+    }),
+    enabled: open && !!orderId,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.customerReturns.createCustomerReturn),
+  });
+
+  const resetForm = () => {
+    setOrderId(null);
+    setQuantities({});
+    setReason("");
+  };
+
+  const handleCreate = () => {
+    if (!orderId || !userId) return;
+    const returnLines = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([detailId, quantity]) => ({
+        outboundOrderDetailId: detailId as Id<"outbound_order_details">,
+        quantity,
+      }));
+    if (returnLines.length === 0) {
+      toast.error("Enter a quantity for at least one line");
+      return;
+    }
+
+    mutate(
+      {
+        outboundOrderId: orderId,
+        userId,
+        reason: reason || undefined,
+        lines: returnLines,
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(`${result.rmaCode} authorized`);
+          resetForm();
+          setOpen(false);
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <CreateNewButton label="New RMA" />
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Authorize customer return</DialogTitle>
+          <DialogDescription>
+            Units can be returned up to the quantity shipped on the order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Shipped order</Label>
+          <Select
+            value={orderId ?? ""}
+            onValueChange={(value) => {
+              setOrderId(value as Id<"outbound_orders">);
+              setQuantities({});
+            }}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select an order" />
+            </SelectTrigger>
+            <SelectContent>
+              {orders?.map((order) => (
+                <SelectItem key={order._id} value={order._id}>
+                  {order.orderCode}
+                  {order.customerName ? ` · ${order.customerName}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {orderId && (
+          <div className="overflow-hidden rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Shipped</TableHead>
+                  <TableHead className="text-right">Returnable</TableHead>
+                  <TableHead className="w-28">Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingLines ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-16 text-center">
+                      <Spinner className="mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  lines?.map((line) => (
+                    <TableRow key={line.outboundOrderDetailId}>
+                      <TableCell className="font-medium">
+                        {line.skuCode}
+                      </TableCell>
+                      <TableCell>{line.productName ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {line.quantityShipped}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.quantityReturnable}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={line.quantityReturnable}
+                          disabled={line.quantityReturnable === 0}
+                          value={quantities[line.outboundOrderDetailId] ?? 0}
+                          onChange={(e) =>
+                            setQuantities({
+                              ...quantities,
+                              [line.outboundOrderDetailId]: Number(
+                                e.target.value,
+                              ),
+                            })
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="rmaReason">Reason</Label>
+          <Textarea
+            id="rmaReason"
+            placeholder="Why the customer is returning the goods"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isPending || !orderId}>
+            {isPending && <Spinner />}
+            Authorize return
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Trash2 } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { CreateNewButton } from "@/components/ui/create-new-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { type VariantOption, VariantSearch } from "@/components/variant-search";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useBranchStore } from "@/store/branch";
+
+interface OrderItem extends VariantOption {
+  quantity: number;
+}
+
+export function CreateOutboundOrderDialog() {
+  const [open, setOpen] = React.useState(false);
+  const [customerName, setCustomerName] = React.useState("");
+  const [shippingAddress, setShippingAddress] = React.useState("");
+  const [requestedShipDate, setRequestedShipDate] = React.useState("");
+  const [items, setItems] = React.useState<OrderItem[]>([]);
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.createOutboundOrder),
+  });
+
+  const resetForm = () => {
+    setCustomerName("");
+    setShippingAddress("");
+    setRequestedShipDate("");
+    setItems([]);
+  };
+
+  const handleAddItem = (variant: VariantOption) => {
+    if (items.some((item) => item.skuId === variant.skuId)) return;
+    setItems([...items, { ...variant, quantity: 1 }]);
+  };
+
+  const handleUpdateQuantity = (
+    skuId: Id<"product_variants">,
+    quantity: number,
+  ) => {
+    setItems(
+      items.map((item) =>
+        item.skuId === skuId ? { ...item, quantity } : item,
+      ),
+    );
+  };
+
+  const handleCreateOrder = () => {
+    if (!branchId || !userId) {
+      toast.error("No branch selected");
+      return;
+    }
+    if (items.length === 0) {
+      toast.error("Add at least one product");
+      return;
+    }
+
+    mutate(
+      {
+        branchId,
+        userId,
+        customerName: customerName || undefined,
+        shippingAddress: shippingAddress || undefined,
+        requestedShipDate: requestedShipDate
+          ? new Date(requestedShipDate).getTime()
+          : undefined,
+        items: items.map((item) => ({
+          skuId: item.skuId,
+          quantity: item.quantity,
+        })),
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(`Order ${result.orderCode} created`);
+          resetForm();
+          setOpen(false);
+        },
+        onError: (error) => {
+          toast.error(
+            error instanceof Error ? error.message : "Failed to create order",
+          );
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <CreateNewButton label="Create order" />
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Create outbound order</DialogTitle>
+          <DialogDescription>
+            Stock is allocated when the order is released for picking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="customerName">Customer</Label>
+            <Input
+              id="customerName"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shippingAddress">Shipping address</Label>
+            <Input
+              id="shippingAddress"
+              value={shippingAddress}
+              onChange={(e) => setShippingAddress(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="requestedShipDate">Requested ship date</Label>
+            <Input
+              id="requestedShipDate"
+              type="date"
+              value={requestedShipDate}
+              onChange={(e) => setRequestedShipDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Products</Label>
+            <VariantSearch onSelect={handleAddItem} />
+          </div>
+          <div className="overflow-hidden rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-28">Quantity</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.length ? (
+                  items.map((item) => (
+                    <TableRow key={item.skuId}>
+                      <TableCell className="font-medium">
+                        {item.skuCode}
+                      </TableCell>
+                      <TableCell>{item.productName}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={item.quantity}
+                          onChange={(e) =>
+                            handleUpdateQuantity(
+                              item.skuId,
+                              Number(e.target.value),
+                            )
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() =>
+                            setItems(
+                              items.filter((i) => i.skuId !== item.skuId),
+                            )
+                          }
+                        >
+                          <Trash2 />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={4}
+                      className="h-16 text-center text-muted-foreground"
+                    >
+                      No products added.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreateOrder} disabled={isPending}>
+            {isPending && <Spinner />}
+            Create order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Trash2 } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { CreateNewButton } from "@/components/ui/create-new-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { type VariantOption, VariantSearch } from "@/components/variant-search";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useBranchStore } from "@/store/branch";
+
+interface TransferItem extends VariantOption {
+  quantity: number;
+}
+
+export function CreateTransferDialog() {
+  const [open, setOpen] = React.useState(false);
+  const { organizationId, userId } = useCurrentUser();
+  const selectedBranchId = useBranchStore((state) => state.branchId);
+  const [sourceBranchId, setSourceBranchId] = React.useState<string>("");
+  const [destinationBranchId, setDestinationBranchId] =
+    React.useState<string>("");
+  const [expectedDeliveryAt, setExpectedDeliveryAt] = React.useState("");
+  const [items, setItems] = React.useState<TransferItem[]>([]);
+
+  const { data: branches } = useQuery({
+    ...convexQuery(api.branches.listAll, {
+      organizationId: organizationId as Id<"organizations">,
+      isActive: true,
+    }),
+    enabled: !!organizationId && open,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.transfers.createTransfer),
+  });
+
+  React.useEffect(() => {
+    if (open && !sourceBranchId && selectedBranchId) {
+      setSourceBranchId(selectedBranchId);
+    }
+  }, [open, sourceBranchId, selectedBranchId]);
+
+  const resetForm = () => {
+    setDestinationBranchId("");
+    setExpectedDeliveryAt("");
+    setItems([]);
+  };
+
+  const handleAddItem = (variant: VariantOption) => {
+    if (items.some((item) => item.skuId === variant.skuId)) return;
+    setItems([...items, { ...variant, quantity: 1 }]);
+  };
+
+  const handleCreateTransfer = () => {
+    if (!userId || !sourceBranchId || !destinationBranchId) {
+      toast.error("Select both source and destination branches");
+      return;
+    }
+    if (items.length === 0) {
+      toast.error("Add at least one product");
+      return;
+    }
+
+    mutate(
+      {
+        sourceBranchId: sourceBranchId as Id<"branches">,
+        destinationBranchId: destinationBranchId as Id<"branches">,
+        userId,
+        expectedDeliveryAt: expectedDeliveryAt
+          ? new Date(expectedDeliveryAt).getTime()
+          : undefined,
+        items: items.map((item) => ({
+          skuId: item.skuId,
+          quantity: item.quantity,
+        })),
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(`Transfer ${result.transferCode} created`);
+          resetForm();
+          setOpen(false);
+        },
+        onError: (error) => {
+          toast.error(
+            error instanceof Error
+              ? error.message
+              : "Failed to create transfer",
+          );
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <CreateNewButton label="Create transfer" />
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Create transfer</DialogTitle>
+          <DialogDescription>
+            Move stock from one branch to another.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Select value={sourceBranchId} onValueChange={setSourceBranchId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Source branch" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches?.map((branch) => (
+                  <SelectItem key={branch._id} value={branch._id}>
+                    {branch.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Select
+              value={destinationBranchId}
+              onValueChange={setDestinationBranchId}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Destination branch" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches
+                  ?.filter((branch) => branch._id !== sourceBranchId)
+                  .map((branch) => (
+                    <SelectItem key={branch._id} value={branch._id}>
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expectedDeliveryAt">Expected delivery</Label>
+            <Input
+              id="expectedDeliveryAt"
+              type="date"
+              value={expectedDeliveryAt}
+              onChange={(e) => setExpectedDeliveryAt(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Products</Label>
+            <VariantSearch onSelect={handleAddItem} />
+          </div>
+          <div className="overflow-hidden rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-28">Quantity</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.length ? (
+                  items.map((item) => (
+                    <TableRow key={item.skuId}>
+                      <TableCell className="font-medium">
+                        {item.skuCode}
+                      </TableCell>
+                      <TableCell>{item.productName}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={item.quantity}
+                          onChange={(e) =>
+                            setItems(
+                              items.map((i) =>
+                                i.skuId === item.skuId
+                                  ? { ...i, quantity: Number(e.target.value) }
+                                  : i,
+                              ),
+                            )
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() =>
+                            setItems(
+                              items.filter((i) => i.skuId !== item.skuId),
+                            )
+                          }
+                        >
+                          <Trash2 />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={4}
+                      className="h-16 text-center text-muted-foreground"
+                    >
+                      No products added.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreateTransfer} disabled={isPending}>
+            {isPending && <Spinner />}
+            Create transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
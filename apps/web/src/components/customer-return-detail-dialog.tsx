@@ -0,0 +1,684 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { cn } from "@/lib/utils";
+
+interface CustomerReturnDetailDialogProps {
+  customerReturnId: Id<"customer_returns"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+type Disposition = "RESTOCK" | "QUARANTINE" | "SCRAP" | "RETURN_TO_VENDOR";
+
+const DISPOSITION_OPTIONS: { value: Disposition; label: string }[] = [
+  { value: "RESTOCK", label: "Restock" },
+  { value: "QUARANTINE", label: "Quarantine" },
+  { value: "SCRAP", label: "Scrap" },
+  { value: "RETURN_TO_VENDOR", label: "Return to vendor" },
+];
+
+const formatDate = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(timestamp));
+
+/** Split scanned serials on new lines, commas or spaces */
+const parseSerials = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * Receive the units of an RMA, inspect them into a disposition and
+ * complete or cancel the return
+ */
+export function CustomerReturnDetailDialog({
+  customerReturnId,
+  open,
+  onOpenChange,
+}: CustomerReturnDetailDialogProps) {
+  const { userId, organizationId } = useCurrentUser();
+
+  // Receiving
+  const [receiveZoneId, setReceiveZoneId] = React.useState("");
+  const [receiveQuantities, setReceiveQuantities] = React.useState<
+    Record<string, number>
+  >({});
+  const [receiveSerials, setReceiveSerials] = React.useState<
+    Record<string, string>
+  >({});
+  const [receiveLots, setReceiveLots] = React.useState<Record<string, string>>(
+    {},
+  );
+
+  // Inspection
+  const [detailId, setDetailId] = React.useState("");
+  const [disposition, setDisposition] = React.useState<Disposition>("RESTOCK");
+  const [quantity, setQuantity] = React.useState(1);
+  const [selectedSerials, setSelectedSerials] = React.useState<string[]>([]);
+  const [zoneId, setZoneId] = React.useState("");
+  const [supplierId, setSupplierId] = React.useState("");
+  const [expectedCredit, setExpectedCredit] = React.useState("");
+  const [condition, setCondition] = React.useState("");
+
+  const [note, setNote] = React.useState("");
+
+  const { data: customerReturn, isPending } = useQuery({
+    ...convexQuery(api.customerReturns.getCustomerReturn, {
+      customerReturnId: customerReturnId as Id<"customer_returns">,
+    }),
+    enabled: open && !!customerReturnId,
+  });
+
+  const { data: zones } = useQuery({
+    ...convexQuery(api.storageZones.listByBranch, {
+      branchId: customerReturn?.branchId as Id<"branches">,
+    }),
+    enabled: open && !!customerReturn,
+  });
+
+  const { data: suppliers } = useQuery({
+    ...convexQuery(api.suppliers.getActive, {
+      organizationId: organizationId as Id<"organizations">,
+    }),
+    enabled: open && !!organizationId && disposition === "RETURN_TO_VENDOR",
+  });
+
+  const { mutate: receiveUnits, isPending: isReceiving } = useMutation({
+    mutationFn: useConvexMutation(api.customerReturns.receiveReturnedUnits),
+  });
+  const { mutate: inspectUnits, isPending: isInspecting } = useMutation({
+    mutationFn: useConvexMutation(api.customerReturns.inspectReturnedUnits),
+  });
+  const { mutate: completeReturn, isPending: isCompleting } = useMutation({
+    mutationFn: useConvexMutation(api.customerReturns.completeCustomerReturn),
+  });
+  const { mutate: cancelReturn, isPending: isCancelling } = useMutation({
+    mutationFn: useConvexMutation(api.customerReturns.cancelCustomerReturn),
+  });
+
+  React.useEffect(() => {
+    if (!open) {
+      setReceiveQuantities({});
+      setReceiveSerials({});
+      setDetailId("");
+      setSelectedSerials([]);
+      setCondition("");
+      setNote("");
+    }
+  }, [open]);
+
+  const actions = customerReturn?.availableActions ?? [];
+  const pendingLines =
+    customerReturn?.lines.filter(
+      (line) => line.quantityPendingInspection > 0,
+    ) ?? [];
+  const inspectLine =
+    pendingLines.find((line) => line._id === detailId) ?? pendingLines[0];
+  const stagingZoneId = customerReturn?.receivingZoneId ?? receiveZoneId;
+
+  const handleReceive = () => {
+    if (!customerReturn || !userId) return;
+    if (!stagingZoneId) {
+      toast.error("Choose the zone the returned units are staged in");
+      return;
+    }
+
+    const lines = customerReturn.lines
+      .map((line) => {
+        const serialNumbers = line.isSerialTracked
+          ? parseSerials(receiveSerials[line._id] ?? "")
+          : undefined;
+        return {
+          detailId: line._id,
+          quantity: serialNumbers
+            ? serialNumbers.length
+            : (receiveQuantities[line._id] ?? 0),
+          serialNumbers,
+          pickedBatchId: receiveLots[line._id] as
+            | Id<"inventory_batches">
+            | undefined,
+        };
+      })
+      .filter((line) => line.quantity > 0);
+
+    receiveUnits(
+      {
+        customerReturnId: customerReturn._id,
+        zoneId: stagingZoneId as Id<"storage_zones">,
+        userId,
+        lines,
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(`Received ${result.received} unit(s)`);
+          setReceiveQuantities({});
+          setReceiveSerials({});
+          setReceiveLots({});
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const handleInspect = () => {
+    if (!inspectLine || !userId) return;
+    const inspectQuantity = inspectLine.isSerialTracked
+      ? selectedSerials.length
+      : quantity;
+
+    inspectUnits(
+      {
+        detailId: inspectLine._id,
+        disposition,
+        quantity: inspectQuantity,
+        serialNumbers: inspectLine.isSerialTracked
+          ? selectedSerials
+          : undefined,
+        zoneId:
+          (disposition === "RESTOCK" || disposition === "QUARANTINE") && zoneId
+            ? (zoneId as Id<"storage_zones">)
+            : undefined,
+        supplierId:
+          disposition === "RETURN_TO_VENDOR" && supplierId
+            ? (supplierId as Id<"suppliers">)
+            : undefined,
+        expectedCreditAmount:
+          disposition === "RETURN_TO_VENDOR" && expectedCredit
+            ? Number(expectedCredit)
+            : undefined,
+        condition: condition || undefined,
+        userId,
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${inspectQuantity} unit(s) inspected`);
+          setSelectedSerials([]);
+          setQuantity(1);
+          setCondition("");
+          setExpectedCredit("");
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const handleComplete = () => {
+    if (!customerReturn || !userId) return;
+    completeReturn(
+      {
+        customerReturnId: customerReturn._id,
+        userId,
+        reason: note || undefined,
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${customerReturn.rmaCode} completed`);
+          onOpenChange?.(false);
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const handleCancel = () => {
+    if (!customerReturn || !userId) return;
+    cancelReturn(
+      {
+        customerReturnId: customerReturn._id,
+        userId,
+        reason: note || undefined,
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${customerReturn.rmaCode} cancelled`);
+          onOpenChange?.(false);
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {customerReturn?.rmaCode ?? "Customer return"}
+            {customerReturn && (
+              <Badge variant="outline" className="rounded-sm">
+                {customerReturn.statusName}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Order {customerReturn?.orderCode ?? "-"}
+            {customerReturn?.customerName
+              ? ` · ${customerReturn.customerName}`
+              : ""}
+            {customerReturn?.reason ? ` · ${customerReturn.reason}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending || !customerReturn ? (
+          <div className="flex h-40 items-center justify-center">
+            <Spinner />
+          </div>
+        ) : (
+          <>
+            {/* Lines and receiving */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Lines</Label>
+                {actions.includes("RECEIVE") && (
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={stagingZoneId}
+                      onValueChange={setReceiveZoneId}
+                      disabled={!!customerReturn.receivingZoneId}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Receiving zone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {zones?.map((zone) => (
+                          <SelectItem key={zone._id} value={zone._id}>
+                            {zone.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      onClick={handleReceive}
+                      disabled={isReceiving || !userId}
+                    >
+                      {isReceiving && <Spinner />}
+                      Receive
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="overflow-hidden rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>SKU</TableHead>
+                      <TableHead className="text-right">Authorized</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Inspected</TableHead>
+                      {actions.includes("RECEIVE") && (
+                        <TableHead className="w-48">Receive now</TableHead>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {customerReturn.lines.map((line) => {
+                      const outstanding =
+                        line.quantityAuthorized - line.quantityReceived;
+                      return (
+                        <TableRow key={line._id}>
+                          <TableCell>
+                            <div className="font-medium">{line.skuCode}</div>
+                            <div className="text-muted-foreground text-xs">
+                              {line.productName ?? "-"}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.quantityAuthorized}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.quantityReceived}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.quantityInspected}
+                          </TableCell>
+                          {actions.includes("RECEIVE") && (
+                            <TableCell>
+                              {outstanding === 0 ? (
+                                <span className="text-green-500 text-sm">
+                                  Received
+                                </span>
+                              ) : line.isSerialTracked ? (
+                                <Textarea
+                                  className="min-h-9"
+                                  placeholder="Scan serials"
+                                  value={receiveSerials[line._id] ?? ""}
+                                  onChange={(e) =>
+                                    setReceiveSerials({
+                                      ...receiveSerials,
+                                      [line._id]: e.target.value,
+                                    })
+                                  }
+                                />
+                              ) : (
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    max={outstanding}
+                                    value={receiveQuantities[line._id] ?? 0}
+                                    onChange={(e) =>
+                                      setReceiveQuantities({
+                                        ...receiveQuantities,
+                                        [line._id]: Number(e.target.value),
+                                      })
+                                    }
+                                  />
+                                  {!line.inspectionBatchId &&
+                                    line.pickedLots.length > 1 && (
+                                      <Select
+                                        value={receiveLots[line._id] ?? ""}
+                                        onValueChange={(value) =>
+                                          setReceiveLots({
+                                            ...receiveLots,
+                                            [line._id]: value,
+                                          })
+                                        }
+                                      >
+                                        <SelectTrigger className="w-36">
+                                          <SelectValue placeholder="Lot" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {line.pickedLots.map((lot) => (
+                                            <SelectItem
+                                              key={lot.batchId}
+                                              value={lot.batchId}
+                                            >
+                                              {lot.internalBatchNumber ?? "-"} (
+                                              {lot.quantity} picked)
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    )}
+                                </div>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              {customerReturn.receivingZoneName && (
+                <p className="text-muted-foreground text-xs">
+                  Received units are held in {customerReturn.receivingZoneName}{" "}
+                  until inspected.
+                </p>
+              )}
+            </div>
+
+            {/* Inspection */}
+            {actions.includes("INSPECT") && inspectLine && (
+              <div className="space-y-3 rounded-md border p-3">
+                <Label>Inspect</Label>
+                <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+                  <Select
+                    value={inspectLine._id}
+                    onValueChange={(value) => {
+                      setDetailId(value);
+                      setSelectedSerials([]);
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pendingLines.map((line) => (
+                        <SelectItem key={line._id} value={line._id}>
+                          {line.skuCode} · {line.quantityPendingInspection}{" "}
+                          pending
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={disposition}
+                    onValueChange={(value) =>
+                      setDisposition(value as Disposition)
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISPOSITION_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!inspectLine.isSerialTracked && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={inspectLine.quantityPendingInspection}
+                      value={quantity}
+                      onChange={(e) => setQuantity(Number(e.target.value))}
+                    />
+                  )}
+                  {(disposition === "RESTOCK" ||
+                    disposition === "QUARANTINE") && (
+                    <Select value={zoneId} onValueChange={setZoneId}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={
+                            disposition === "RESTOCK"
+                              ? "Restock zone"
+                              : "Quarantine zone"
+                          }
+                        />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {zones?.map((zone) => (
+                          <SelectItem key={zone._id} value={zone._id}>
+                            {zone.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {disposition === "RETURN_TO_VENDOR" && (
+                    <>
+                      <Select value={supplierId} onValueChange={setSupplierId}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Supplier" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {suppliers?.map((supplier) => (
+                            <SelectItem key={supplier._id} value={supplier._id}>
+                              {supplier.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="Expected credit (defaults to cost)"
+                        value={expectedCredit}
+                        onChange={(e) => setExpectedCredit(e.target.value)}
+                      />
+                    </>
+                  )}
+                  <Input
+                    placeholder="Condition, e.g. opened, damaged box"
+                    value={condition}
+                    onChange={(e) => setCondition(e.target.value)}
+                  />
+                </div>
+                {inspectLine.isSerialTracked && (
+                  <div className="flex flex-wrap gap-2">
+                    {inspectLine.pendingSerialNumbers.map((serialNumber) => {
+                      const selected = selectedSerials.includes(serialNumber);
+                      return (
+                        <Badge
+                          key={serialNumber}
+                          variant="outline"
+                          className={cn(
+                            "cursor-pointer rounded-sm",
+                            selected && "border-primary bg-primary/10",
+                          )}
+                          onClick={() =>
+                            setSelectedSerials(
+                              selected
+                                ? selectedSerials.filter(
+                                    (s) => s !== serialNumber,
+                                  )
+                                : [...selectedSerials, serialNumber],
+                            )
+                          }
+                        >
+                          {serialNumber}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={handleInspect}
+                    disabled={
+                      isInspecting ||
+                      !userId ||
+                      (inspectLine.isSerialTracked &&
+                        selectedSerials.length === 0)
+                    }
+                  >
+                    {isInspecting && <Spinner />}
+                    Record disposition
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Dispositions */}
+            {customerReturn.dispositions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Dispositions</Label>
+                <div className="overflow-hidden rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Inspected</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Disposition</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead>Destination</TableHead>
+                        <TableHead>Condition</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {customerReturn.dispositions.map((row) => (
+                        <TableRow key={row._id}>
+                          <TableCell>
+                            <div>{formatDate(row.inspectedAt)}</div>
+                            <div className="text-muted-foreground text-xs">
+                              {row.inspectedByName}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{row.skuCode}</div>
+                            {row.serialNumbers && (
+                              <div className="text-muted-foreground text-xs">
+                                {row.serialNumbers.join(", ")}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>{row.dispositionName}</TableCell>
+                          <TableCell className="text-right">
+                            {row.quantity}
+                          </TableCell>
+                          <TableCell>
+                            {row.returnRequestCode ?? row.zoneName ?? "-"}
+                          </TableCell>
+                          <TableCell>{row.condition ?? "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {(actions.includes("COMPLETE") || actions.includes("CANCEL")) && (
+              <div className="space-y-2">
+                <Label htmlFor="rmaNote">Note</Label>
+                <Textarea
+                  id="rmaNote"
+                  placeholder="Kept in the audit log; required to complete a short return"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          {actions.includes("CANCEL") && (
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isCancelling || !userId}
+            >
+              Cancel RMA
+            </Button>
+          )}
+          {actions.includes("COMPLETE") && (
+            <Button onClick={handleComplete} disabled={isCompleting || !userId}>
+              {isCompleting && <Spinner />}
+              Complete
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,12 @@
 "use client";
 
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
 import { X } from "lucide-react";
 import { useState } from "react";
+import { BarcodeScanner } from "@/components/barcode-scanner";
 import { LocationTransferDialog } from "@/components/location-transfer-dialog";
 import { NewAdjustmentRequestDialog } from "@/components/new-adjustment-request-dialog";
 import { QuantityAdjustmentDialog } from "@/components/quantity-adjustment-dialog";
@@ -24,12 +29,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { findCountLines, scanQuantity } from "@/lib/handheld";
+import type { ScanFeedback } from "@/lib/scan-feedback";
 import type { CycleCountLineItem } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { getMockSessionDetails } from "@/mock/data/cycle-count";
 
 interface CycleCountSessionDetailDialogProps {
-  sessionId: string | null;
+  sessionId: Id<"work_sessions"> | null;
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
 }
@@ -39,7 +46,18 @@ export function CycleCountSessionDetailDialog({
   open,
   onOpenChange,
 }: CycleCountSessionDetailDialogProps) {
-  const session = sessionId ? getMockSessionDetails(sessionId) : null;
+  const lookupBarcode = useBarcodeLookup();
+  const { data: session } = useQuery({
+    ...convexQuery(api.cycleCount.getCycleCountSessionDetail, {
+      sessionId: sessionId as Id<"work_sessions">,
+    }),
+    enabled: !!sessionId && open,
+  });
+
+  const { mutateAsync: recordCountScan } = useMutation({
+    mutationFn: useConvexMutation(api.cycleCount.recordCountScan),
+  });
+
   const [activeZoneIndex, setActiveZoneIndex] = useState(0);
   const [adjustmentDialogOpen, setAdjustmentDialogOpen] = useState(false);
   const [quantityAdjustmentDialogOpen, setQuantityAdjustmentDialogOpen] =
@@ -54,6 +72,46 @@ export function CycleCountSessionDetailDialog({
     onOpenChange?.(false);
   };
 
+  /**
+   * Count the scanned item on its line in the open zone tab; batch labels
+   * pick the batch line when the SKU is counted per batch
+   */
+  const handleScan = async (code: string): Promise<ScanFeedback> => {
+    const zone = session?.zones[activeZoneIndex];
+    if (!session || !zone) {
+      return { ok: false, message: "Open a zone to count" };
+    }
+
+    const match = await lookupBarcode(code);
+    const [line, ...others] = findCountLines(code, match, zone.lineItems);
+    if (!line) {
+      return {
+        ok: false,
+        message: match
+          ? `${match.variant.skuCode} is not expected in ${zone.zoneName}`
+          : `Unknown barcode ${code}`,
+      };
+    }
+    if (others.length > 0) {
+      return {
+        ok: false,
+        message: `${line.skuCode} is counted per batch here; scan the batch label`,
+      };
+    }
+
+    const result = await recordCountScan({
+      sessionId: session._id,
+      skuId: line.skuId,
+      zoneId: zone.zoneId,
+      batchId: line.batchId,
+      quantity: scanQuantity(match),
+    });
+    return {
+      ok: true,
+      message: `Counted ${result.actualQuantity} ${line.skuCode}${line.batchNumber ? ` (${line.batchNumber})` : ""}`,
+    };
+  };
+
   const handleCompleteSession = () => {
     // TODO: Implement complete session logic
     console.log("Complete session:", sessionId);
@@ -64,7 +122,7 @@ export function CycleCountSessionDetailDialog({
 
   const handleCreateAdjustment = (
     lineItem: CycleCountLineItem,
-    zoneId: string,
+    zoneId: Id<"storage_zones">,
   ) => {
     setSelectedLineItem(lineItem);
     setSelectedZoneId(zoneId);
@@ -84,6 +142,8 @@ export function CycleCountSessionDetailDialog({
     return null;
   }
 
+  const isClosed =
+    session.statusCode === "COMPLETED" || session.statusCode === "CANCELLED";
   const activeZone = session.zones[activeZoneIndex];
   const formattedDate = new Intl.DateTimeFormat("en-US", {
     year: "numeric",
@@ -117,7 +177,7 @@ export function CycleCountSessionDetailDialog({
         initialData={
           selectedLineItem
             ? {
-                productId: selectedLineItem.productId,
+                productId: selectedLineItem.skuId,
                 zoneId: selectedZoneId ?? activeZone?.zoneId,
                 currentQty: selectedLineItem.expectedQuantity,
                 countedQty: selectedLineItem.actualQuantity,
@@ -150,7 +210,7 @@ export function CycleCountSessionDetailDialog({
               {session.sessionCode} - {session.name}
             </DialogTitle>
             <p className="text-muted-foreground text-sm">
-              Created by {session.createdByUser?.fullName ?? "Unknown"} on{" "}
+              Assigned to {session.assignedUser?.fullName ?? "Unknown"} on{" "}
               {formattedDate}
             </p>
             <button
@@ -163,6 +223,14 @@ export function CycleCountSessionDetailDialog({
             </button>
           </DialogHeader>
 
+          {!isClosed && (
+            <BarcodeScanner
+              onScan={handleScan}
+              disabled={!activeZone}
+              placeholder={`Scan an item in ${activeZone?.zoneName ?? "the zone"}`}
+            />
+          )}
+
           {/* Zone Tabs */}
           <Tabs
             value={String(activeZoneIndex)}
@@ -238,11 +306,14 @@ export function CycleCountSessionDetailDialog({
                     <TableHeader>
                       <TableRow className="bg-muted/50">
                         <TableHead className="w-[100px] font-semibold text-xs uppercase">
-                          Product ID
+                          SKU
                         </TableHead>
                         <TableHead className="font-semibold text-xs uppercase">
                           Product Name
                         </TableHead>
+                        <TableHead className="font-semibold text-xs uppercase">
+                          Batch
+                        </TableHead>
                         <TableHead className="w-[120px] text-center font-semibold text-xs uppercase">
                           Expected Qty
                         </TableHead>
@@ -259,11 +330,12 @@ export function CycleCountSessionDetailDialog({
                     </TableHeader>
                     <TableBody>
                       {zone.lineItems.map((item) => (
-                        <TableRow key={item._id as string}>
+                        <TableRow key={item._id}>
                           <TableCell className="font-medium">
-                            {item.productId}
+                            {item.skuCode}
                           </TableCell>
                           <TableCell>{item.productName}</TableCell>
+                          <TableCell>{item.batchNumber ?? "-"}</TableCell>
                           <TableCell className="text-center">
                             {item.expectedQuantity}
                           </TableCell>
@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(timestamp));
+
+/**
+ * Expiry date badge: red once expired, orange within `warningDays`.
+ */
+export function ExpiryBadge({
+  expiresAt,
+  warningDays = 30,
+}: {
+  expiresAt?: number | null;
+  warningDays?: number;
+}) {
+  if (!expiresAt) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  const daysLeft = Math.ceil((expiresAt - Date.now()) / DAY_MS);
+  const style =
+    daysLeft <= 0
+      ? "bg-red-500/5 text-red-500 border-red-500/60"
+      : daysLeft <= warningDays
+        ? "bg-orange-500/5 text-orange-500 border-orange-500/60"
+        : "bg-muted text-muted-foreground";
+
+  return (
+    <Badge
+      className={cn("rounded-sm", style)}
+      variant={"outline"}
+      title={daysLeft <= 0 ? "Expired" : `${daysLeft} day(s) left`}
+    >
+      {formatDate(expiresAt)}
+    </Badge>
+  );
+}
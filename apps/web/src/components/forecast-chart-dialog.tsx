@@ -0,0 +1,156 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { useMemo } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+
+interface ForecastChartDialogProps {
+  skuId: Id<"product_variants"> | null;
+  periodType: "DAILY" | "WEEKLY";
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const chartConfig: ChartConfig = {
+  actual: {
+    label: "Actual",
+    color: "var(--chart-1)",
+  },
+  forecast: {
+    label: "Forecast",
+    color: "var(--chart-2)",
+  },
+  range: {
+    label: "Interval",
+    color: "var(--chart-2)",
+  },
+};
+
+const formatPeriod = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(timestamp));
+
+/**
+ * Actual demand of a SKU against its stored forecasts, with the forecast
+ * interval shaded
+ */
+export function ForecastChartDialog({
+  skuId,
+  periodType,
+  open,
+  onOpenChange,
+}: ForecastChartDialogProps) {
+  const { data, isPending } = useQuery({
+    ...convexQuery(api.forecasting.getSkuForecastChart, {
+      skuId: skuId as Id<"product_variants">,
+      periodType,
+    }),
+    enabled: open && !!skuId,
+  });
+
+  const chartData = useMemo(
+    () =>
+      (data?.points ?? []).map((point) => ({
+        label: formatPeriod(point.periodStart),
+        actual: point.actual,
+        forecast: point.forecast,
+        range:
+          point.lower !== null && point.upper !== null
+            ? [point.lower, point.upper]
+            : null,
+      })),
+    [data],
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            {data ? `${data.skuCode} · ${data.productName}` : "Forecast"}
+          </DialogTitle>
+          <DialogDescription>
+            {data?.method
+              ? `${periodType === "DAILY" ? "Daily" : "Weekly"} demand · ${data.method} · backtest MAPE ${
+                  data.backtestMape !== null ? `${data.backtestMape}%` : "-"
+                } · ${Math.round(data.confidenceInterval * 100)}% interval`
+              : "No forecast generated yet."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending || !data ? (
+          <div className="flex h-64 items-center justify-center">
+            <Spinner />
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-80 w-full">
+            <ComposedChart data={chartData} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} strokeDasharray="3 3" />
+              <XAxis
+                dataKey="label"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={16}
+                fontSize={10}
+              />
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area
+                dataKey="range"
+                fill="var(--color-range)"
+                fillOpacity={0.15}
+                stroke="none"
+                connectNulls={false}
+              />
+              <Line
+                dataKey="actual"
+                stroke="var(--color-actual)"
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+              />
+              <Line
+                dataKey="forecast"
+                stroke="var(--color-forecast)"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls={false}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { ScanStep } from "@/components/handheld/scan-step";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { useZoneLookup } from "@/hooks/use-zone-lookup";
+import { findCountLines, scanQuantity } from "@/lib/handheld";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import type { HandheldTask, HandheldTaskLine } from "@/lib/types";
+
+type CountZone = {
+  zone: NonNullable<HandheldTaskLine["zone"]>;
+  lines: HandheldTaskLine[];
+};
+
+/**
+ * Blind count: scan a location of the count, then every item in it.
+ * Expected quantities are never shown; unscanned items count as zero when
+ * the zone is closed.
+ */
+export function CountFlow({ task }: { task: HandheldTask }) {
+  const lookupBarcode = useBarcodeLookup();
+  const lookupZone = useZoneLookup();
+  const [zoneId, setZoneId] = React.useState<Id<"storage_zones"> | null>(null);
+
+  const { mutateAsync: recordCountScan } = useMutation({
+    mutationFn: useConvexMutation(api.cycleCount.recordCountScan),
+  });
+  const { mutateAsync: updateLineItem, isPending: isClosingZone } = useMutation(
+    {
+      mutationFn: useConvexMutation(api.cycleCount.updateSessionLineItem),
+    },
+  );
+  const { mutate: submitCount, isPending: isSubmitting } = useMutation({
+    mutationFn: useConvexMutation(api.cycleCount.submitCountSession),
+  });
+
+  const zones = task.lines.reduce<CountZone[]>((groups, line) => {
+    if (!line.zone) return groups;
+    const group = groups.find((entry) => entry.zone._id === line.zone?._id);
+    if (group) {
+      group.lines.push(line);
+    } else {
+      groups.push({ zone: line.zone, lines: [line] });
+    }
+    return groups;
+  }, []);
+  const currentZone = zones.find((entry) => entry.zone._id === zoneId);
+  const allScanned = task.lines.every((line) => line.scannedAt !== undefined);
+
+  const handleZoneScan = async (code: string): Promise<ScanFeedback> => {
+    const zone = await lookupZone(code);
+    if (!zone) {
+      return { ok: false, message: `Unknown location ${code}` };
+    }
+    if (!zones.some((entry) => entry.zone._id === zone._id)) {
+      return { ok: false, message: `${zone.path} is not in this count` };
+    }
+    setZoneId(zone._id);
+    return { ok: true, message: `Counting ${zone.path}` };
+  };
+
+  const handleItemScan = async (code: string): Promise<ScanFeedback> => {
+    if (!currentZone) {
+      return { ok: false, message: "Scan the location first" };
+    }
+    const match = await lookupBarcode(code);
+    const [line, ...others] = findCountLines(code, match, currentZone.lines);
+    if (!line) {
+      return {
+        ok: false,
+        message: match
+          ? `${match.variant.skuCode} is not expected in ${currentZone.zone.path}`
+          : `Unknown barcode ${code}`,
+      };
+    }
+    if (others.length > 0) {
+      return {
+        ok: false,
+        message: `${line.skuCode} is counted per batch here; scan the batch label`,
+      };
+    }
+
+    const quantity = scanQuantity(match);
+    const result = await recordCountScan({
+      sessionId: task._id,
+      skuId: line.skuId,
+      zoneId: currentZone.zone._id,
+      batchId: line.batchId,
+      quantity,
+    });
+    return {
+      ok: true,
+      message: `Counted ${result.actualQuantity} ${line.skuCode}${line.batchNumber ? ` (${line.batchNumber})` : ""}`,
+    };
+  };
+
+  const handleZoneDone = async () => {
+    if (!currentZone) return;
+    try {
+      const scannedAt = Date.now();
+      for (const line of currentZone.lines) {
+        if (line.scannedAt === undefined && line.lineItemId) {
+          await updateLineItem({
+            lineItemId: line.lineItemId,
+            actualQuantity: 0,
+            scannedAt,
+          });
+        }
+      }
+      setZoneId(null);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleSubmit = () => {
+    submitCount(
+      { sessionId: task._id },
+      {
+        onSuccess: (result) =>
+          toast.success(
+            result.adjustmentRequestId
+              ? "Count submitted; variances sent for approval"
+              : "Count submitted with no variances",
+          ),
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  if (currentZone) {
+    return (
+      <>
+        <ScanStep
+          prompt="Scan every item"
+          target={currentZone.zone.path}
+          hint="Scan each unit, or a carton label for its count"
+          onScan={handleItemScan}
+          disabled={isClosingZone}
+        >
+          <Button
+            className="h-14 text-base"
+            onClick={handleZoneDone}
+            disabled={isClosingZone}
+          >
+            {isClosingZone && <Spinner />}
+            Location done
+          </Button>
+        </ScanStep>
+
+        <div className="divide-y rounded-xl border bg-card shadow-sm">
+          {currentZone.lines.map((line) => (
+            <div
+              key={line.lineId}
+              className="flex items-center justify-between gap-2 p-3"
+            >
+              <div className="min-w-0">
+                <div className="font-medium">{line.skuCode}</div>
+                <div className="truncate text-muted-foreground text-sm">
+                  {line.productName}
+                </div>
+              </div>
+              <div className="shrink-0 font-semibold text-lg tabular-nums">
+                {line.scannedAt !== undefined ? line.actualQuantity : "-"}
+              </div>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <ScanStep
+        prompt="Scan a location to count"
+        hint={`${zones.length} location(s) in this count`}
+        onScan={handleZoneScan}
+      />
+
+      <div className="divide-y rounded-xl border bg-card shadow-sm">
+        {zones.map(({ zone, lines }) => {
+          const scanned = lines.filter(
+            (line) => line.scannedAt !== undefined,
+          ).length;
+          return (
+            <div
+              key={zone._id}
+              className="flex items-center justify-between gap-2 p-3"
+            >
+              <div className="min-w-0">
+                <div className="font-medium font-mono">{zone.path}</div>
+                <div className="truncate text-muted-foreground text-sm">
+                  {zone.name}
+                </div>
+              </div>
+              <div className="shrink-0 text-sm tabular-nums">
+                {scanned === lines.length
+                  ? "Done"
+                  : `${scanned}/${lines.length}`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Button
+        className="h-14 text-base"
+        onClick={handleSubmit}
+        disabled={!allScanned || isSubmitting}
+      >
+        {isSubmitting && <Spinner />}
+        Submit count
+      </Button>
+      {!allScanned && (
+        <div className="text-center text-muted-foreground text-sm">
+          Count every location before submitting
+        </div>
+      )}
+    </>
+  );
+}
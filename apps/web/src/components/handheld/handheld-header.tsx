@@ -0,0 +1,36 @@
+"use client";
+
+import { LayoutDashboard, ScanLine } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { BranchSelect } from "@/components/branch-select";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Compact header of the handheld screens: home, branch and a way back to
+ * the desktop app
+ */
+export function HandheldHeader() {
+  const params = useParams();
+  const workspace = params.workspace as string;
+
+  return (
+    <header className="sticky top-0 z-10 border-b bg-background">
+      <div className="mx-auto flex h-14 w-full max-w-md items-center gap-2 px-3">
+        <Button variant="ghost" size="icon" className="size-11" asChild>
+          <Link href={`/${workspace}/handheld`}>
+            <ScanLine className="size-6" />
+            <span className="sr-only">My tasks</span>
+          </Link>
+        </Button>
+        <BranchSelect className="h-11 w-auto flex-1" />
+        <Button variant="ghost" size="icon" className="size-11" asChild>
+          <Link href={`/${workspace}/dashboard`}>
+            <LayoutDashboard className="size-6" />
+            <span className="sr-only">Back to app</span>
+          </Link>
+        </Button>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  ArrowRightLeft,
+  ClipboardCheck,
+  PackageCheck,
+  PackageOpen,
+  PackagePlus,
+  ShoppingCart,
+} from "lucide-react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Spinner } from "@/components/ui/spinner";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { HandheldTaskListItem } from "@/lib/types";
+import { useBranchStore } from "@/store/branch";
+
+const TASK_KINDS: Record<
+  HandheldTaskListItem["kind"],
+  { label: string; icon: typeof PackageOpen }
+> = {
+  RECEIVE: { label: "Receive", icon: PackageOpen },
+  PICK: { label: "Pick", icon: ShoppingCart },
+  COUNT: { label: "Count", icon: ClipboardCheck },
+  PUTAWAY: { label: "Putaway", icon: PackagePlus },
+  MOVE: { label: "Move", icon: ArrowRightLeft },
+};
+
+/**
+ * Home screen of the handheld mode: the operator's open tasks as large
+ * cards, plus putaway and ad-hoc moves
+ */
+export function HandheldTaskList() {
+  const params = useParams();
+  const workspace = params.workspace as string;
+  const router = useRouter();
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+
+  const { data: tasks, isPending } = useQuery({
+    ...convexQuery(api.handheld.getMyTasks, {
+      branchId: branchId as Id<"branches">,
+      userId: userId as Id<"users">,
+    }),
+    enabled: !!branchId && !!userId,
+  });
+
+  const { mutate: createPutaway, isPending: isCreatingPutaway } = useMutation({
+    mutationFn: useConvexMutation(api.handheld.createPutawaySession),
+  });
+
+  const handleStartPutaway = () => {
+    if (!branchId || !userId) return;
+    createPutaway(
+      { branchId: branchId as Id<"branches">, userId },
+      {
+        onSuccess: (result) => {
+          toast.success(
+            `${result.sessionCode} created with ${result.lineCount} line(s)`,
+          );
+          router.push(`/${workspace}/handheld/tasks/${result.sessionId}`);
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <Button
+          variant="outline"
+          className="h-16 text-base"
+          onClick={handleStartPutaway}
+          disabled={!branchId || !userId || isCreatingPutaway}
+        >
+          {isCreatingPutaway ? <Spinner /> : <PackagePlus />}
+          Start putaway
+        </Button>
+        <Button variant="outline" className="h-16 text-base" asChild>
+          <Link href={`/${workspace}/handheld/move`}>
+            <ArrowRightLeft />
+            Move stock
+          </Link>
+        </Button>
+      </div>
+
+      <h1 className="font-semibold text-lg">My tasks</h1>
+
+      {!branchId ? (
+        <div className="py-8 text-center text-muted-foreground">
+          Select a branch to see your tasks
+        </div>
+      ) : isPending ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : !tasks?.length ? (
+        <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+          <PackageCheck className="size-10" />
+          No open tasks
+        </div>
+      ) : (
+        tasks.map((task) => {
+          const { label, icon: Icon } = TASK_KINDS[task.kind];
+          const percent =
+            task.totalLines > 0 ? (task.doneLines / task.totalLines) * 100 : 0;
+
+          return (
+            <Link
+              key={task._id}
+              href={`/${workspace}/handheld/tasks/${task._id}`}
+              className="flex flex-col gap-3 rounded-xl border bg-card p-4 shadow-sm active:bg-accent"
+            >
+              <div className="flex items-start gap-3">
+                <div className="flex size-12 shrink-0 items-center justify-center rounded-lg bg-primary/10 text-primary">
+                  <Icon className="size-6" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">{label}</span>
+                    <span className="text-muted-foreground text-sm">
+                      {task.statusName}
+                    </span>
+                  </div>
+                  <div className="truncate text-sm">{task.name}</div>
+                  {task.reference && (
+                    <div className="truncate text-muted-foreground text-sm">
+                      {task.reference}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <Progress value={percent} className="h-3" />
+                <span className="shrink-0 text-sm tabular-nums">
+                  {task.doneLines}/{task.totalLines}
+                </span>
+              </div>
+            </Link>
+          );
+        })
+      )}
+    </>
+  );
+}
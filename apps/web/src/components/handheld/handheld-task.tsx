@@ -0,0 +1,159 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { CircleCheck } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import * as React from "react";
+import { CountFlow } from "@/components/handheld/count-flow";
+import { MoveStockFlow } from "@/components/handheld/move-stock-flow";
+import { PickLineFlow } from "@/components/handheld/pick-line-flow";
+import { ReceiveFlow } from "@/components/handheld/receive-flow";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Spinner } from "@/components/ui/spinner";
+import type { HandheldTaskLine } from "@/lib/types";
+
+const isLineDone = (line: HandheldTaskLine) =>
+  line.actualQuantity >= line.expectedQuantity;
+
+/**
+ * Runs one task on the handheld: walks the operator through the lines in
+ * zone order, one scan step at a time
+ */
+export function HandheldTaskRunner({
+  sessionId,
+}: {
+  sessionId: Id<"work_sessions">;
+}) {
+  const params = useParams();
+  const workspace = params.workspace as string;
+  const [skippedLineIds, setSkippedLineIds] = React.useState<string[]>([]);
+  // The location last confirmed by scan; lines in the same zone don't ask
+  // for it again
+  const [confirmedZoneId, setConfirmedZoneId] =
+    React.useState<Id<"storage_zones"> | null>(null);
+
+  const { data: task, isPending } = useQuery(
+    convexQuery(api.handheld.getTask, { sessionId }),
+  );
+
+  const { mutate: startTask } = useMutation({
+    mutationFn: useConvexMutation(api.handheld.startTask),
+  });
+
+  const statusCode = task?.statusCode;
+  React.useEffect(() => {
+    if (statusCode === "PENDING") {
+      startTask({ sessionId });
+    }
+  }, [statusCode, sessionId, startTask]);
+
+  if (isPending) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (!task) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        Task not found
+      </div>
+    );
+  }
+
+  const doneCount =
+    task.kind === "COUNT"
+      ? task.lines.filter((line) => line.scannedAt !== undefined).length
+      : task.lines.filter(isLineDone).length;
+  const openLines = task.lines.filter((line) => !isLineDone(line));
+  const currentLine =
+    openLines.find((line) => !skippedLineIds.includes(line.lineId)) ?? null;
+  const isClosed = ["COMPLETED", "VERIFIED", "CANCELLED"].includes(
+    task.statusCode,
+  );
+
+  const handleSkip = (line: HandheldTaskLine) =>
+    setSkippedLineIds((previous) => [...previous, line.lineId]);
+
+  const renderFlow = () => {
+    if (task.kind === "RECEIVE") {
+      return <ReceiveFlow task={task} />;
+    }
+    if (task.kind === "COUNT") {
+      return <CountFlow task={task} />;
+    }
+
+    if (!currentLine) {
+      return openLines.length > 0 ? (
+        <div className="flex flex-col gap-3 rounded-xl border bg-card p-4 text-center shadow-sm">
+          <div>{openLines.length} skipped line(s) left</div>
+          <Button
+            className="h-14 text-base"
+            onClick={() => setSkippedLineIds([])}
+          >
+            Go back to skipped lines
+          </Button>
+        </div>
+      ) : null;
+    }
+
+    const flowProps = {
+      line: currentLine,
+      confirmedZoneId,
+      onZoneConfirmed: setConfirmedZoneId,
+      onSkip: () => handleSkip(currentLine),
+    };
+    return task.kind === "PICK" ? (
+      <PickLineFlow key={currentLine.lineId} {...flowProps} />
+    ) : (
+      <MoveStockFlow key={currentLine.lineId} {...flowProps} />
+    );
+  };
+
+  // Counts stay open until submitted, zero counts included
+  const isComplete =
+    isClosed || (task.kind !== "COUNT" && openLines.length === 0);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h1 className="truncate font-semibold text-lg">{task.name}</h1>
+          <span className="shrink-0 text-muted-foreground text-sm">
+            {task.statusName}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <Progress
+            value={
+              task.lines.length ? (doneCount / task.lines.length) * 100 : 0
+            }
+            className="h-3"
+          />
+          <span className="shrink-0 text-sm tabular-nums">
+            {doneCount}/{task.lines.length}
+          </span>
+        </div>
+      </div>
+
+      {isComplete ? (
+        <div className="flex flex-col items-center gap-4 rounded-xl border bg-card p-6 text-center shadow-sm">
+          <CircleCheck className="size-14 text-green-500" />
+          <div className="font-semibold text-xl">Task complete</div>
+          <Button className="h-14 w-full text-base" asChild>
+            <Link href={`/${workspace}/handheld`}>Back to my tasks</Link>
+          </Button>
+        </div>
+      ) : (
+        renderFlow()
+      )}
+    </>
+  );
+}
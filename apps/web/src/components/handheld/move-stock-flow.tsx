@@ -0,0 +1,386 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
+import * as React from "react";
+import { toast } from "sonner";
+import { ExpiryBadge } from "@/components/expiry-badge";
+import {
+  ItemCard,
+  QuantityStepper,
+  ScanStep,
+} from "@/components/handheld/scan-step";
+import { Button } from "@/components/ui/button";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useZoneLookup } from "@/hooks/use-zone-lookup";
+import { matchesItem, scanQuantity, scanSerial } from "@/lib/handheld";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import type { HandheldTaskLine } from "@/lib/types";
+
+type ZoneStock = FunctionReturnType<typeof api.handheld.getZoneStock>[number];
+type Zone = { _id: Id<"storage_zones">; name: string; path: string };
+
+/** The batch being moved and how much of it can go */
+type MoveItem = {
+  batchId: Id<"inventory_batches">;
+  skuId: Id<"product_variants">;
+  skuCode: string;
+  productName: string;
+  isSerialTracked: boolean;
+  batchNumber: string | null;
+  expiresAt?: number;
+  available: number;
+};
+
+const toMoveItem = (stock: ZoneStock): MoveItem => ({
+  batchId: stock.batchId,
+  skuId: stock.skuId,
+  skuCode: stock.skuCode,
+  productName: stock.productName,
+  isSerialTracked: stock.isSerialTracked,
+  batchNumber: stock.batchNumber,
+  expiresAt: stock.expiresAt,
+  available: stock.quantity,
+});
+
+interface MoveStockFlowProps {
+  /** Putaway or move task line; without one the operator moves any stock */
+  line?: HandheldTaskLine;
+  confirmedZoneId?: Id<"storage_zones"> | null;
+  onZoneConfirmed?: (zoneId: Id<"storage_zones">) => void;
+  onSkip?: () => void;
+}
+
+/**
+ * Move stock between locations: scan the source location, the item (and
+ * serials), then the destination. Runs putaway and move task lines, or
+ * ad-hoc moves recorded as a completed move task.
+ */
+export function MoveStockFlow({
+  line,
+  confirmedZoneId,
+  onZoneConfirmed,
+  onSkip,
+}: MoveStockFlowProps) {
+  const queryClient = useQueryClient();
+  const { userId } = useCurrentUser();
+  const lookupBarcode = useBarcodeLookup();
+  const lookupZone = useZoneLookup();
+
+  const lineItem: MoveItem | null =
+    line?.batchId && line.fromZone
+      ? {
+          batchId: line.batchId,
+          skuId: line.skuId,
+          skuCode: line.skuCode,
+          productName: line.productName,
+          isSerialTracked: line.isSerialTracked,
+          batchNumber: line.batchNumber,
+          expiresAt: line.expiresAt,
+          available: line.expectedQuantity - line.actualQuantity,
+        }
+      : null;
+  const [fromZone, setFromZone] = React.useState<Zone | null>(
+    line?.fromZone?._id === confirmedZoneId ? (line?.fromZone ?? null) : null,
+  );
+  const [zoneStock, setZoneStock] = React.useState<ZoneStock[]>([]);
+  const [candidates, setCandidates] = React.useState<ZoneStock[]>([]);
+  const [item, setItem] = React.useState<MoveItem | null>(null);
+  const [quantity, setQuantity] = React.useState(0);
+  const [serialNumbers, setSerialNumbers] = React.useState<string[]>([]);
+  const [toStep, setToStep] = React.useState(false);
+
+  const { mutateAsync: confirmMove, isPending: isConfirming } = useMutation({
+    mutationFn: useConvexMutation(api.handheld.confirmMove),
+  });
+  const { mutateAsync: moveStock, isPending: isMoving } = useMutation({
+    mutationFn: useConvexMutation(api.handheld.moveStock),
+  });
+  const isPending = isConfirming || isMoving;
+
+  const selectItem = (selected: MoveItem, units: number) => {
+    setItem(selected);
+    setCandidates([]);
+    setQuantity(
+      selected.isSerialTracked ? 0 : Math.min(units, selected.available),
+    );
+    setSerialNumbers([]);
+  };
+
+  const reset = (keepSource: boolean) => {
+    if (!keepSource) {
+      setFromZone(null);
+      setZoneStock([]);
+    }
+    setCandidates([]);
+    setItem(null);
+    setQuantity(0);
+    setSerialNumbers([]);
+    setToStep(false);
+  };
+
+  const handleFromScan = async (code: string): Promise<ScanFeedback> => {
+    const zone = await lookupZone(code);
+    if (!zone) {
+      return { ok: false, message: `Unknown location ${code}` };
+    }
+    if (line?.fromZone && zone._id !== line.fromZone._id) {
+      return {
+        ok: false,
+        message: `Wrong location ${zone.path}, go to ${line.fromZone.path}`,
+      };
+    }
+
+    if (!lineItem) {
+      const stock = await queryClient.fetchQuery(
+        convexQuery(api.handheld.getZoneStock, { zoneId: zone._id }),
+      );
+      if (stock.length === 0) {
+        return { ok: false, message: `No stock in ${zone.path}` };
+      }
+      setZoneStock(stock);
+    }
+    setFromZone(zone);
+    onZoneConfirmed?.(zone._id);
+    return { ok: true, message: `At ${zone.path}` };
+  };
+
+  const handleItemScan = async (code: string): Promise<ScanFeedback> => {
+    const match = await lookupBarcode(code);
+
+    // Further scans of the selected item add units or serials
+    if (item) {
+      if (item.isSerialTracked) {
+        if (match && !matchesItem(code, match, item)) {
+          return { ok: false, message: `Wrong item, scan ${item.skuCode}` };
+        }
+        const serialNumber = scanSerial(code, match);
+        if (!serialNumber) {
+          return { ok: false, message: "Scan the unit's serial number" };
+        }
+        if (serialNumbers.includes(serialNumber)) {
+          return {
+            ok: false,
+            message: `Serial ${serialNumber} was already scanned`,
+          };
+        }
+        if (serialNumbers.length >= item.available) {
+          return { ok: false, message: `Only ${item.available} to move` };
+        }
+        setSerialNumbers([...serialNumbers, serialNumber]);
+        setQuantity(serialNumbers.length + 1);
+        return { ok: true, message: `Added serial ${serialNumber}` };
+      }
+
+      if (!matchesItem(code, match, item)) {
+        return { ok: false, message: `Wrong item, scan ${item.skuCode}` };
+      }
+      const total = quantity + scanQuantity(match);
+      if (total > item.available) {
+        return { ok: false, message: `Only ${item.available} to move` };
+      }
+      setQuantity(total);
+      return { ok: true, message: `${total} ${item.skuCode}` };
+    }
+
+    if (lineItem) {
+      if (!matchesItem(code, match, lineItem)) {
+        return { ok: false, message: `Wrong item, scan ${lineItem.skuCode}` };
+      }
+      selectItem(lineItem, scanQuantity(match));
+      return { ok: true, message: lineItem.skuCode };
+    }
+
+    const matches = zoneStock.filter(
+      (stock) =>
+        code.trim() === stock.batchNumber || stock.skuId === match?.variant._id,
+    );
+    const movable = matches.filter((stock) => !stock.isOnHold);
+    if (movable.length === 0) {
+      return {
+        ok: false,
+        message: matches.length
+          ? "This stock is on quality hold and can't be moved"
+          : `${match?.variant.skuCode ?? code} is not in ${fromZone?.path}`,
+      };
+    }
+    if (movable.length > 1) {
+      setCandidates(movable);
+      return { ok: true, message: "Several batches here, pick one" };
+    }
+    selectItem(toMoveItem(movable[0]), scanQuantity(match));
+    return { ok: true, message: movable[0].skuCode };
+  };
+
+  const handleToScan = async (code: string): Promise<ScanFeedback> => {
+    if (!item || !userId) {
+      return { ok: false, message: "Scan the item first" };
+    }
+    const zone = await lookupZone(code);
+    if (!zone) {
+      return { ok: false, message: `Unknown location ${code}` };
+    }
+    if (zone._id === fromZone?._id) {
+      return { ok: false, message: "Scan a different location to move to" };
+    }
+
+    const move = {
+      quantity,
+      toZoneId: zone._id,
+      userId,
+      serialNumbers: item.isSerialTracked ? serialNumbers : undefined,
+    };
+    if (line?.lineItemId) {
+      await confirmMove({ lineItemId: line.lineItemId, ...move });
+    } else {
+      const result = await moveStock({ batchId: item.batchId, ...move });
+      toast.success(
+        `Moved ${quantity} ${item.skuCode} (${result.sessionCode})`,
+      );
+    }
+    onZoneConfirmed?.(zone._id);
+    // Part of a line may be left: stay at the source for the rest
+    reset(!!line);
+    return { ok: true, message: `Moved ${quantity} to ${zone.path}` };
+  };
+
+  const renderStep = () => {
+    if (!fromZone) {
+      return (
+        <ScanStep
+          prompt={
+            line ? "Go to and scan location" : "Scan location to move from"
+          }
+          target={line?.fromZone?.path}
+          hint={line?.fromZone?.name}
+          onScan={handleFromScan}
+        />
+      );
+    }
+
+    if (toStep && item) {
+      const suggested = line?.zone;
+      return (
+        <ScanStep
+          prompt="Scan location to move to"
+          target={suggested?.path}
+          hint={
+            suggested
+              ? `Suggested ${suggested.name}; any location of the branch works`
+              : `Moving ${quantity} ${item.skuCode} from ${fromZone.path}`
+          }
+          onScan={handleToScan}
+          disabled={isPending}
+        >
+          <Button
+            variant="ghost"
+            className="h-12"
+            onClick={() => setToStep(false)}
+          >
+            Back to quantity
+          </Button>
+        </ScanStep>
+      );
+    }
+
+    if (item) {
+      return (
+        <ScanStep
+          prompt={item.isSerialTracked ? "Scan serials" : "Quantity to move"}
+          hint={
+            item.isSerialTracked
+              ? `${serialNumbers.length} of up to ${item.available} scanned`
+              : `Scan more items or set the quantity; ${item.available} available`
+          }
+          onScan={handleItemScan}
+        >
+          {!item.isSerialTracked && (
+            <QuantityStepper
+              value={quantity}
+              onChange={setQuantity}
+              max={item.available}
+            />
+          )}
+          <Button
+            className="h-14 text-base"
+            disabled={quantity < 1}
+            onClick={() => setToStep(true)}
+          >
+            Next: scan destination
+          </Button>
+        </ScanStep>
+      );
+    }
+
+    return (
+      <ScanStep
+        prompt="Scan item"
+        target={lineItem?.skuCode}
+        hint={
+          lineItem
+            ? `${lineItem.available} to move from ${fromZone.path}`
+            : `Stock in ${fromZone.path}`
+        }
+        onScan={handleItemScan}
+      >
+        {candidates.map((stock) => (
+          <Button
+            key={stock.batchId}
+            variant="outline"
+            className="h-auto justify-between py-3 text-left"
+            onClick={() => selectItem(toMoveItem(stock), 1)}
+          >
+            <span className="min-w-0">
+              <span className="block font-semibold">{stock.skuCode}</span>
+              <span className="block font-mono text-xs">
+                {stock.batchNumber ?? "-"}
+              </span>
+            </span>
+            <span className="flex shrink-0 flex-col items-end gap-1">
+              <span>{stock.quantity}</span>
+              <ExpiryBadge expiresAt={stock.expiresAt} />
+            </span>
+          </Button>
+        ))}
+      </ScanStep>
+    );
+  };
+
+  const shownItem = item ?? lineItem;
+
+  return (
+    <>
+      {shownItem && (
+        <ItemCard
+          skuCode={shownItem.skuCode}
+          productName={shownItem.productName}
+          batchNumber={shownItem.batchNumber}
+          expiresAt={shownItem.expiresAt}
+          progress={
+            line
+              ? `${line.actualQuantity} / ${line.expectedQuantity}`
+              : `${shownItem.available} here`
+          }
+        />
+      )}
+
+      {renderStep()}
+
+      {line && onSkip ? (
+        <Button variant="ghost" className="h-12" onClick={onSkip}>
+          Skip this line
+        </Button>
+      ) : (
+        (fromZone || item) && (
+          <Button variant="ghost" className="h-12" onClick={() => reset(false)}>
+            Start over
+          </Button>
+        )
+      )}
+    </>
+  );
+}
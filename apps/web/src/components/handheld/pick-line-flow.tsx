@@ -0,0 +1,150 @@
+"use client";
+
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { toast } from "sonner";
+import { ItemCard, ScanStep } from "@/components/handheld/scan-step";
+import { Button } from "@/components/ui/button";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useZoneLookup } from "@/hooks/use-zone-lookup";
+import { matchesItem, scanQuantity, scanSerial } from "@/lib/handheld";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import type { HandheldTaskLine } from "@/lib/types";
+
+interface PickLineFlowProps {
+  line: HandheldTaskLine;
+  confirmedZoneId: Id<"storage_zones"> | null;
+  onZoneConfirmed: (zoneId: Id<"storage_zones">) => void;
+  onSkip: () => void;
+}
+
+/**
+ * Pick one line: scan the pick location, then the items. Serial-tracked
+ * items are picked one serial per scan.
+ */
+export function PickLineFlow({
+  line,
+  confirmedZoneId,
+  onZoneConfirmed,
+  onSkip,
+}: PickLineFlowProps) {
+  const { userId } = useCurrentUser();
+  const lookupBarcode = useBarcodeLookup();
+  const lookupZone = useZoneLookup();
+  const remaining = line.expectedQuantity - line.actualQuantity;
+  const atLocation = !line.zone || line.zone._id === confirmedZoneId;
+
+  const { mutateAsync: confirmPick, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.confirmPick),
+  });
+
+  const pick = async (quantity: number, serialNumbers?: string[]) => {
+    if (!line.lineItemId || !userId) {
+      throw new Error("This line can't be picked");
+    }
+    const result = await confirmPick({
+      lineItemId: line.lineItemId,
+      quantityPicked: quantity,
+      userId,
+      serialNumbers,
+    });
+    if (result.orderPicked) {
+      toast.success("All lines picked; order is ready to pack");
+    }
+  };
+
+  const handleLocationScan = async (code: string): Promise<ScanFeedback> => {
+    const zone = await lookupZone(code);
+    if (!zone) {
+      return { ok: false, message: `Unknown location ${code}` };
+    }
+    if (zone._id !== line.zone?._id) {
+      return {
+        ok: false,
+        message: `Wrong location ${zone.path}, go to ${line.zone?.path}`,
+      };
+    }
+    onZoneConfirmed(zone._id);
+    return { ok: true, message: `At ${zone.path}` };
+  };
+
+  const handleItemScan = async (code: string): Promise<ScanFeedback> => {
+    const match = await lookupBarcode(code);
+
+    if (line.isSerialTracked) {
+      if (match && !matchesItem(code, match, line)) {
+        return { ok: false, message: `Wrong item, pick ${line.skuCode}` };
+      }
+      const serialNumber = scanSerial(code, match);
+      if (!serialNumber) {
+        return { ok: false, message: "Scan the unit's serial number" };
+      }
+      await pick(1, [serialNumber]);
+      return { ok: true, message: `Picked serial ${serialNumber}` };
+    }
+
+    if (!matchesItem(code, match, line)) {
+      return { ok: false, message: `Wrong item, pick ${line.skuCode}` };
+    }
+    const quantity = scanQuantity(match);
+    if (quantity > remaining) {
+      return {
+        ok: false,
+        message: `Only ${remaining} more to pick, the scan was ${quantity}`,
+      };
+    }
+    await pick(quantity);
+    return { ok: true, message: `Picked ${quantity} ${line.skuCode}` };
+  };
+
+  const handlePickAll = () => {
+    pick(remaining).catch((error: Error) => toast.error(error.message));
+  };
+
+  return (
+    <>
+      <ItemCard
+        skuCode={line.skuCode}
+        productName={line.productName}
+        batchNumber={line.batchNumber}
+        expiresAt={line.expiresAt}
+        progress={`${line.actualQuantity} / ${line.expectedQuantity}`}
+      />
+
+      {atLocation ? (
+        <ScanStep
+          prompt={line.isSerialTracked ? "Scan serial" : "Scan item"}
+          target={line.skuCode}
+          hint={`${remaining} to pick${line.zone ? ` from ${line.zone.path}` : ""}`}
+          onScan={handleItemScan}
+          disabled={isPending}
+        >
+          {!line.isSerialTracked && (
+            <Button
+              variant="outline"
+              className="h-14 text-base"
+              onClick={handlePickAll}
+              disabled={isPending}
+            >
+              Pick all {remaining}
+            </Button>
+          )}
+        </ScanStep>
+      ) : (
+        <ScanStep
+          prompt="Go to and scan location"
+          target={line.zone?.path}
+          hint={line.zone?.name}
+          onScan={handleLocationScan}
+        />
+      )}
+
+      <Button variant="ghost" className="h-12" onClick={onSkip}>
+        Skip this line
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import * as React from "react";
+import {
+  ItemCard,
+  QuantityStepper,
+  ScanStep,
+} from "@/components/handheld/scan-step";
+import { Button } from "@/components/ui/button";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useZoneLookup } from "@/hooks/use-zone-lookup";
+import { scanQuantity, scanSerial } from "@/lib/handheld";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import type { HandheldTask } from "@/lib/types";
+
+/** Lot details read from GS1 codes; one receipt posts one batch */
+type LotDetails = {
+  supplierBatchNumber?: string;
+  manufacturingDate?: number;
+  expiresAt?: number;
+};
+
+/**
+ * Receive a task item by item: scan the product (GS1 codes fill in lot,
+ * dates, count and serial), scan more units or serials, then scan the
+ * location it is put away to.
+ */
+export function ReceiveFlow({ task }: { task: HandheldTask }) {
+  const { userId } = useCurrentUser();
+  const lookupBarcode = useBarcodeLookup();
+  const lookupZone = useZoneLookup();
+  const [lineId, setLineId] = React.useState<string | null>(null);
+  const [quantity, setQuantity] = React.useState(0);
+  const [serialNumbers, setSerialNumbers] = React.useState<string[]>([]);
+  const [lot, setLot] = React.useState<LotDetails | null>(null);
+  const [toStep, setToStep] = React.useState(false);
+
+  const { mutateAsync: processReceiveItem, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.receiveSessions.processReceiveItem),
+  });
+
+  const openLines = task.lines.filter(
+    (line) => line.actualQuantity < line.expectedQuantity,
+  );
+  const line = task.lines.find((candidate) => candidate.lineId === lineId);
+  const remaining = line ? line.expectedQuantity - line.actualQuantity : 0;
+
+  const reset = () => {
+    setLineId(null);
+    setQuantity(0);
+    setSerialNumbers([]);
+    setLot(null);
+    setToStep(false);
+  };
+
+  const addSerial = (serialNumber: string): ScanFeedback => {
+    if (serialNumbers.includes(serialNumber)) {
+      return {
+        ok: false,
+        message: `Serial ${serialNumber} was already scanned`,
+      };
+    }
+    if (serialNumbers.length >= remaining) {
+      return { ok: false, message: `Only ${remaining} expected` };
+    }
+    setSerialNumbers([...serialNumbers, serialNumber]);
+    setQuantity(serialNumbers.length + 1);
+    return { ok: true, message: `Added serial ${serialNumber}` };
+  };
+
+  const handleItemScan = async (code: string): Promise<ScanFeedback> => {
+    const match = await lookupBarcode(code);
+
+    if (line) {
+      if (line.isSerialTracked) {
+        if (match && match.variant._id !== line.skuId) {
+          return { ok: false, message: `Wrong item, scan ${line.skuCode}` };
+        }
+        const serialNumber = scanSerial(code, match);
+        return serialNumber
+          ? addSerial(serialNumber)
+          : { ok: false, message: "Scan the unit's serial number" };
+      }
+
+      if (match?.variant._id !== line.skuId) {
+        return { ok: false, message: `Wrong item, scan ${line.skuCode}` };
+      }
+      if (
+        match.gs1?.lotNumber &&
+        lot?.supplierBatchNumber &&
+        match.gs1.lotNumber !== lot.supplierBatchNumber
+      ) {
+        return {
+          ok: false,
+          message: `Put away lot ${lot.supplierBatchNumber} before scanning lot ${match.gs1.lotNumber}`,
+        };
+      }
+      const total = quantity + scanQuantity(match);
+      if (total > remaining) {
+        return { ok: false, message: `Only ${remaining} expected` };
+      }
+      setQuantity(total);
+      return { ok: true, message: `${total} ${line.skuCode}` };
+    }
+
+    if (!match) {
+      return { ok: false, message: `Unknown barcode ${code}` };
+    }
+    const scannedLine = openLines.find(
+      (candidate) => candidate.skuId === match.variant._id,
+    );
+    if (!scannedLine) {
+      return {
+        ok: false,
+        message: task.lines.some(
+          (candidate) => candidate.skuId === match.variant._id,
+        )
+          ? `${match.variant.skuCode} is already fully received`
+          : `${match.variant.skuCode} is not on this receipt`,
+      };
+    }
+
+    const { gs1 } = match;
+    const units = scanQuantity(match);
+    const lineRemaining =
+      scannedLine.expectedQuantity - scannedLine.actualQuantity;
+    if (!scannedLine.isSerialTracked && units > lineRemaining) {
+      return {
+        ok: false,
+        message: `Only ${lineRemaining} ${scannedLine.skuCode} expected`,
+      };
+    }
+
+    setLineId(scannedLine.lineId);
+    setLot(
+      gs1
+        ? {
+            supplierBatchNumber: gs1.lotNumber,
+            manufacturingDate: gs1.productionDate,
+            expiresAt: gs1.expiresAt,
+          }
+        : null,
+    );
+    if (scannedLine.isSerialTracked) {
+      const serialNumber = gs1?.serialNumber;
+      setSerialNumbers(serialNumber ? [serialNumber] : []);
+      setQuantity(serialNumber ? 1 : 0);
+      return {
+        ok: true,
+        message: serialNumber
+          ? `Added serial ${serialNumber}`
+          : `${scannedLine.skuCode}: scan the unit's serial`,
+      };
+    }
+    setQuantity(units);
+    return { ok: true, message: `${units} ${scannedLine.skuCode}` };
+  };
+
+  const handleLocationScan = async (code: string): Promise<ScanFeedback> => {
+    if (!line?.receiveSessionDetailId || !userId) {
+      return { ok: false, message: "Scan the item first" };
+    }
+    const zone = await lookupZone(code);
+    if (!zone) {
+      return { ok: false, message: `Unknown location ${code}` };
+    }
+
+    await processReceiveItem({
+      receiveSessionDetailId: line.receiveSessionDetailId,
+      quantityToAdd: quantity,
+      zoneId: zone._id,
+      ...lot,
+      serialNumbers: line.isSerialTracked ? serialNumbers : undefined,
+      userId,
+    });
+    reset();
+    return {
+      ok: true,
+      message: `Received ${quantity} ${line.skuCode} into ${zone.path}`,
+    };
+  };
+
+  if (!line) {
+    return (
+      <>
+        <ScanStep
+          prompt="Scan item to receive"
+          hint={`${openLines.length} item(s) left on this receipt`}
+          onScan={handleItemScan}
+        />
+        {openLines.map((openLine) => (
+          <ItemCard
+            key={openLine.lineId}
+            skuCode={openLine.skuCode}
+            productName={openLine.productName}
+            progress={`${openLine.actualQuantity} / ${openLine.expectedQuantity}`}
+          />
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <ItemCard
+        skuCode={line.skuCode}
+        productName={line.productName}
+        batchNumber={lot?.supplierBatchNumber}
+        expiresAt={lot?.expiresAt}
+        progress={`${line.actualQuantity} / ${line.expectedQuantity}`}
+      />
+
+      {toStep ? (
+        <ScanStep
+          prompt="Scan location to put away"
+          target={line.zone?.path}
+          hint={
+            line.zone
+              ? `Suggested ${line.zone.name}; any location of the branch works`
+              : `Receiving ${quantity} ${line.skuCode}`
+          }
+          onScan={handleLocationScan}
+          disabled={isPending}
+        >
+          <Button
+            variant="ghost"
+            className="h-12"
+            onClick={() => setToStep(false)}
+          >
+            Back to quantity
+          </Button>
+        </ScanStep>
+      ) : (
+        <ScanStep
+          prompt={line.isSerialTracked ? "Scan serials" : "Quantity received"}
+          hint={
+            line.isSerialTracked
+              ? `${serialNumbers.length} of up to ${remaining} scanned`
+              : `Scan more items or set the quantity; ${remaining} expected`
+          }
+          onScan={handleItemScan}
+        >
+          {!line.isSerialTracked && (
+            <QuantityStepper
+              value={quantity}
+              onChange={setQuantity}
+              max={remaining}
+            />
+          )}
+          <Button
+            className="h-14 text-base"
+            disabled={quantity < 1}
+            onClick={() => setToStep(true)}
+          >
+            Next: scan location
+          </Button>
+        </ScanStep>
+      )}
+
+      <Button variant="ghost" className="h-12" onClick={reset}>
+        Start over
+      </Button>
+    </>
+  );
+}
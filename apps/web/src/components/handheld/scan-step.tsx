@@ -0,0 +1,147 @@
+"use client";
+
+import { Minus, Plus } from "lucide-react";
+import type * as React from "react";
+import { BarcodeScanner } from "@/components/barcode-scanner";
+import { ExpiryBadge } from "@/components/expiry-badge";
+import { Button } from "@/components/ui/button";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import { cn } from "@/lib/utils";
+
+interface ScanStepProps {
+  /** What to scan, e.g. "Scan location" */
+  prompt: string;
+  /** What is expected, shown large: a zone path, SKU code... */
+  target?: React.ReactNode;
+  hint?: React.ReactNode;
+  onScan: (code: string) => Promise<ScanFeedback> | ScanFeedback;
+  disabled?: boolean;
+  /** Controls under the scan field, e.g. a quantity stepper */
+  children?: React.ReactNode;
+}
+
+/**
+ * One step of a handheld flow: a large prompt with the single scan field.
+ * Render one per screen; the scanner listens for keyboard wedges globally.
+ */
+export function ScanStep({
+  prompt,
+  target,
+  hint,
+  onScan,
+  disabled,
+  children,
+}: ScanStepProps) {
+  return (
+    <div className="flex flex-col gap-4 rounded-xl border bg-card p-4 shadow-sm">
+      <div className="space-y-1">
+        <div className="font-medium text-muted-foreground text-sm uppercase tracking-wide">
+          {prompt}
+        </div>
+        {target && (
+          <div className="break-all font-mono font-semibold text-2xl">
+            {target}
+          </div>
+        )}
+        {hint && <div className="text-muted-foreground text-sm">{hint}</div>}
+      </div>
+      <BarcodeScanner
+        onScan={onScan}
+        disabled={disabled}
+        placeholder="Scan or type"
+        className="[&_[data-slot=input-group]]:h-12 [&_input]:text-lg"
+      />
+      {children}
+    </div>
+  );
+}
+
+interface QuantityStepperProps {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Quantity with large plus and minus buttons for gloved hands
+ */
+export function QuantityStepper({
+  value,
+  onChange,
+  min = 1,
+  max,
+  disabled,
+}: QuantityStepperProps) {
+  return (
+    <div className="flex items-center gap-3">
+      <Button
+        variant="outline"
+        className="size-14"
+        disabled={disabled || value <= min}
+        onClick={() => onChange(value - 1)}
+      >
+        <Minus className="size-6" />
+        <span className="sr-only">Decrease quantity</span>
+      </Button>
+      <div className="flex-1 text-center font-semibold text-3xl tabular-nums">
+        {value}
+        {max !== undefined && (
+          <span className="text-lg text-muted-foreground"> / {max}</span>
+        )}
+      </div>
+      <Button
+        variant="outline"
+        className="size-14"
+        disabled={disabled || (max !== undefined && value >= max)}
+        onClick={() => onChange(value + 1)}
+      >
+        <Plus className="size-6" />
+        <span className="sr-only">Increase quantity</span>
+      </Button>
+    </div>
+  );
+}
+
+interface ItemCardProps {
+  skuCode: string;
+  productName: string;
+  batchNumber?: string | null;
+  expiresAt?: number;
+  /** e.g. "3 / 10 picked" */
+  progress?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * The item the operator works on, readable at arm's length
+ */
+export function ItemCard({
+  skuCode,
+  productName,
+  batchNumber,
+  expiresAt,
+  progress,
+  className,
+}: ItemCardProps) {
+  return (
+    <div className={cn("rounded-xl border bg-card p-4 shadow-sm", className)}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-semibold text-lg">{skuCode}</div>
+          <div className="truncate text-muted-foreground">{productName}</div>
+        </div>
+        {progress && (
+          <div className="shrink-0 text-right font-medium">{progress}</div>
+        )}
+      </div>
+      {(batchNumber || expiresAt !== undefined) && (
+        <div className="mt-2 flex items-center gap-2 text-sm">
+          {batchNumber && <span className="font-mono">{batchNumber}</span>}
+          {expiresAt !== undefined && <ExpiryBadge expiresAt={expiresAt} />}
+        </div>
+      )}
+    </div>
+  );
+}
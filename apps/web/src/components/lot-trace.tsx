@@ -0,0 +1,398 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Search, Siren } from "lucide-react";
+import * as React from "react";
+import { AffectedShipmentsDialog } from "@/components/affected-shipments-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { cn } from "@/lib/utils";
+
+type TraceSearchType = "SUPPLIER_BATCH" | "INTERNAL_BATCH" | "SERIAL" | "SKU";
+
+const SEARCH_TYPE_OPTIONS: { label: string; value: TraceSearchType }[] = [
+  { label: "Supplier batch", value: "SUPPLIER_BATCH" },
+  { label: "Internal batch", value: "INTERNAL_BATCH" },
+  { label: "Serial number", value: "SERIAL" },
+  { label: "SKU", value: "SKU" },
+];
+
+const formatDate = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(timestamp));
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(timestamp));
+
+/**
+ * Lot traceability: search a lot, serial or SKU and show where it came
+ * from and where it went.
+ */
+export function LotTrace() {
+  const { organizationId } = useCurrentUser();
+  const [searchType, setSearchType] =
+    React.useState<TraceSearchType>("SUPPLIER_BATCH");
+  const [inputValue, setInputValue] = React.useState("");
+  const [search, setSearch] = React.useState<{
+    searchType: TraceSearchType;
+    value: string;
+  } | null>(null);
+  const [showShipments, setShowShipments] = React.useState(false);
+
+  const { data: trace, isPending } = useQuery({
+    ...convexQuery(api.traceability.traceLot, {
+      organizationId: organizationId as Id<"organizations">,
+      searchType: search?.searchType ?? "SUPPLIER_BATCH",
+      value: search?.value ?? "",
+    }),
+    enabled: !!organizationId && !!search,
+  });
+
+  const handleSearch = () => {
+    const value = inputValue.trim();
+    if (value) setSearch({ searchType, value });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-row justify-between">
+        <div className="flex items-center gap-2">
+          <Select
+            value={searchType}
+            onValueChange={(value) => setSearchType(value as TraceSearchType)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEARCH_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <InputGroup className="w-[280px]">
+            <InputGroupInput
+              placeholder="Enter a value to trace..."
+              value={inputValue}
+              onChange={(event) => setInputValue(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && handleSearch()}
+            />
+            <InputGroupAddon>
+              <Search />
+            </InputGroupAddon>
+          </InputGroup>
+          <Button onClick={handleSearch} disabled={!inputValue.trim()}>
+            Trace
+          </Button>
+        </div>
+        {trace && (
+          <Button variant="destructive" onClick={() => setShowShipments(true)}>
+            <Siren />
+            Affected shipments ({trace.affectedShipments.length})
+          </Button>
+        )}
+      </div>
+
+      {!search ? (
+        <div className="py-12 text-center text-muted-foreground">
+          Search a supplier batch, internal batch, serial number or SKU to trace
+          it.
+        </div>
+      ) : isPending ? (
+        <div className="py-12 text-center text-muted-foreground">
+          Tracing...
+        </div>
+      ) : !trace ? (
+        <div className="py-12 text-center text-muted-foreground">
+          Nothing found for "{search.value}".
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-4">
+            <Card>
+              <CardHeader>
+                <CardDescription>Products</CardDescription>
+                <CardTitle>
+                  {trace.skus.map((sku) => sku.skuCode).join(", ")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-muted-foreground text-sm">
+                {trace.skus.map((sku) => sku.productName).join(", ")}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Batches traced</CardDescription>
+                <CardTitle>{trace.batchCount}</CardTitle>
+              </CardHeader>
+              {trace.truncated && (
+                <CardContent className="text-orange-500 text-sm">
+                  Lineage truncated; narrow the search.
+                </CardContent>
+              )}
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Still on hand</CardDescription>
+                <CardTitle>{trace.onHand}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Shipped to customers</CardDescription>
+                <CardTitle>
+                  {trace.affectedShipments.reduce(
+                    (sum, shipment) => sum + shipment.quantity,
+                    0,
+                  )}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Upstream</CardTitle>
+              <CardDescription>
+                Suppliers, purchase orders and receipts
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Purchase order</TableHead>
+                    <TableHead>Receive session</TableHead>
+                    <TableHead>Batches</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trace.upstream.length ? (
+                    trace.upstream.map((receipt) => (
+                      <TableRow
+                        key={`${receipt.purchaseOrderId}-${receipt.receiveSessionCode}`}
+                      >
+                        <TableCell className="font-medium">
+                          {receipt.supplierName}
+                        </TableCell>
+                        <TableCell>
+                          {receipt.purchaseOrderCode}
+                          <div className="text-muted-foreground text-xs">
+                            Ordered {formatDate(receipt.orderedAt)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {receipt.receiveSessionCode ?? "-"}
+                          <div className="text-muted-foreground text-xs">
+                            {formatDate(receipt.receivedAt)}
+                            {receipt.branchName && ` · ${receipt.branchName}`}
+                          </div>
+                        </TableCell>
+                        <TableCell>{receipt.batchNumbers.join(", ")}</TableCell>
+                        <TableCell className="text-right">
+                          {receipt.quantity}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-12 text-center">
+                        No purchase order receipts recorded.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Zones</CardTitle>
+                <CardDescription>
+                  Where the stock has been stored
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zone</TableHead>
+                      <TableHead>Batches</TableHead>
+                      <TableHead className="text-right">On hand</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trace.zones.map((zone) => (
+                      <TableRow key={zone.zoneId}>
+                        <TableCell>
+                          {zone.branchName} · {zone.zoneName}
+                          <div className="text-muted-foreground text-xs">
+                            {zone.zonePath}
+                          </div>
+                        </TableCell>
+                        <TableCell>{zone.batchNumbers.join(", ")}</TableCell>
+                        <TableCell className="text-right">
+                          {zone.onHand}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Adjustments</CardTitle>
+                <CardDescription>
+                  Approved quantity and location changes
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Request</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trace.adjustments.length ? (
+                      trace.adjustments.map((adjustment) => (
+                        <TableRow key={adjustment.detailId}>
+                          <TableCell>
+                            {adjustment.requestCode}
+                            <div className="text-muted-foreground text-xs">
+                              {formatDate(adjustment.requestedAt)}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {adjustment.kind === "LOCATION"
+                              ? `Moved ${adjustment.quantity}: ${adjustment.fromZoneName ?? "-"} → ${adjustment.toZoneName ?? "-"}`
+                              : `${adjustment.quantity > 0 ? "+" : ""}${adjustment.quantity}`}
+                          </TableCell>
+                          <TableCell>{adjustment.reason}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={3} className="h-12 text-center">
+                          No adjustments.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Movement timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Movement</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trace.timeline.map((movement) => (
+                    <TableRow key={movement._id}>
+                      <TableCell>
+                        {formatDateTime(movement.occurredAt)}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={cn(
+                            "font-medium",
+                            movement.quantityChange < 0
+                              ? "text-red-500"
+                              : "text-green-500",
+                          )}
+                        >
+                          {movement.quantityChange > 0 ? "+" : ""}
+                          {movement.quantityChange}
+                        </span>{" "}
+                        {movement.typeName}
+                      </TableCell>
+                      <TableCell>
+                        {movement.branchName ?? "-"}
+                        {movement.zoneName && ` · ${movement.zoneName}`}
+                        <div className="text-muted-foreground text-xs">
+                          {movement.batchNumber}
+                          {movement.supplierBatchNumber &&
+                            ` (${movement.supplierBatchNumber})`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{movement.reference ?? "-"}</TableCell>
+                      <TableCell>{movement.userName}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <AffectedShipmentsDialog
+            traceLabel={trace.value}
+            shipments={trace.affectedShipments}
+            open={showShipments}
+            onOpenChange={setShowShipments}
+          />
+        </>
+      )}
+    </div>
+  );
+}
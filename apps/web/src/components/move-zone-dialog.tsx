@@ -0,0 +1,129 @@
+"use client";
+
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import type { StorageZone, StorageZoneTreeRow } from "@/lib/types";
+
+const ROOT_VALUE = "__root__";
+
+interface MoveZoneDialogProps {
+  zone: StorageZone | null;
+  rows: StorageZoneTreeRow[];
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Move a zone, with everything under it, to a new parent.
+ */
+export function MoveZoneDialog({
+  zone,
+  rows,
+  open,
+  onOpenChange,
+}: MoveZoneDialogProps) {
+  const [parentPath, setParentPath] = React.useState(ROOT_VALUE);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.storageZones.moveZone),
+  });
+
+  React.useEffect(() => {
+    if (open && zone) {
+      const segments = zone.path.split(".");
+      setParentPath(
+        segments.length > 1 ? segments.slice(0, -1).join(".") : ROOT_VALUE,
+      );
+    }
+  }, [open, zone]);
+
+  // A zone cannot go under itself or its own descendants
+  const targets = rows.filter(
+    (row) =>
+      zone && row.path !== zone.path && !row.path.startsWith(`${zone.path}.`),
+  );
+
+  const handleMove = () => {
+    if (!zone) return;
+    mutate(
+      {
+        zoneId: zone._id,
+        newParentPath: parentPath === ROOT_VALUE ? undefined : parentPath,
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(
+            `Moved to ${result.path} (${result.movedCount} zone(s) updated)`,
+          );
+          onOpenChange?.(false);
+        },
+        onError: (error) => {
+          toast.error(
+            error instanceof Error ? error.message : "Failed to move zone",
+          );
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move {zone?.name}</DialogTitle>
+          <DialogDescription>
+            The zone and every zone under it get new paths.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>New parent</Label>
+          <Select value={parentPath} onValueChange={setParentPath}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ROOT_VALUE}>Top level</SelectItem>
+              {targets.map((row) => (
+                <SelectItem key={row.path} value={row.path}>
+                  {row.zone ? `${row.zone.name} (${row.path})` : row.path}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMove} disabled={isPending || !zone}>
+            {isPending && <Spinner />}
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Check } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BarcodeScanner } from "@/components/barcode-scanner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import { cn } from "@/lib/utils";
+
+interface PickingSessionDetailDialogProps {
+  sessionId: Id<"work_sessions"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export function PickingSessionDetailDialog({
+  sessionId,
+  open,
+  onOpenChange,
+}: PickingSessionDetailDialogProps) {
+  const { userId } = useCurrentUser();
+  const [quantities, setQuantities] = React.useState<Record<string, number>>(
+    {},
+  );
+  // Scanned serial per line, for serial-tracked products
+  const [serials, setSerials] = React.useState<Record<string, string>>({});
+  // Serial-tracked line whose product was just scanned; the next unknown
+  // code scanned is taken as the picked unit's serial
+  const [armedLineId, setArmedLineId] =
+    React.useState<Id<"session_line_items"> | null>(null);
+  const lookupBarcode = useBarcodeLookup();
+
+  const { data: session } = useQuery({
+    ...convexQuery(api.outboundOrders.getPickingSessionDetail, {
+      sessionId: sessionId as Id<"work_sessions">,
+    }),
+    enabled: !!sessionId && open,
+  });
+
+  const {
+    mutate: confirmPick,
+    mutateAsync: confirmPickAsync,
+    isPending,
+  } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.confirmPick),
+  });
+
+  React.useEffect(() => {
+    if (!open) setArmedLineId(null);
+  }, [open]);
+
+  const isClosed =
+    session?.statusCode === "COMPLETED" || session?.statusCode === "CANCELLED";
+
+  const sortedItems = [...(session?.items ?? [])].sort((a, b) =>
+    (a.zonePath ?? "").localeCompare(b.zonePath ?? ""),
+  );
+
+  /**
+   * Pick one unit of the scanned SKU from the first open line in location
+   * order. Serial-tracked lines take a second scan for the serial.
+   */
+  const handleScan = async (code: string): Promise<ScanFeedback> => {
+    if (!userId || isClosed) {
+      return { ok: false, message: "This picking session is closed" };
+    }
+
+    const match = await lookupBarcode(code);
+    const armedLine = sortedItems.find((item) => item._id === armedLineId);
+    if (!match && armedLine) {
+      const result = await confirmPickAsync({
+        lineItemId: armedLine._id,
+        quantityPicked: 1,
+        userId,
+        serialNumbers: [code],
+      });
+      setArmedLineId(null);
+      if (result.orderPicked) {
+        toast.success("All lines picked; order is ready to pack");
+      }
+      return {
+        ok: true,
+        message: `Picked ${armedLine.skuCode} serial ${code}`,
+      };
+    }
+    if (!match) {
+      return { ok: false, message: `Unknown barcode ${code}` };
+    }
+
+    const line = sortedItems.find(
+      (item) =>
+        item.skuId === match.variant._id &&
+        item.actualQuantity < item.expectedQuantity,
+    );
+    if (!line) {
+      const onList = sortedItems.some(
+        (item) => item.skuId === match.variant._id,
+      );
+      return {
+        ok: false,
+        message: onList
+          ? `${match.variant.skuCode} is already fully picked`
+          : `${match.variant.skuCode} is not on this pick list`,
+      };
+    }
+
+    const serialNumber = match.gs1?.serialNumber;
+    if (line.isSerialTracked && !serialNumber) {
+      setArmedLineId(line._id);
+      return {
+        ok: true,
+        message: `${line.skuCode} at ${line.zoneName ?? "-"}: scan the unit's serial`,
+      };
+    }
+
+    // GS1 codes carry the unit's serial, or a carton's count (AI 37)
+    const quantityPicked = serialNumber ? 1 : (match.gs1?.count ?? 1);
+    const result = await confirmPickAsync({
+      lineItemId: line._id,
+      quantityPicked,
+      userId,
+      serialNumbers: serialNumber ? [serialNumber] : undefined,
+    });
+    if (result.orderPicked) {
+      toast.success("All lines picked; order is ready to pack");
+    }
+    return {
+      ok: true,
+      message: `Picked ${quantityPicked} ${line.skuCode} from ${line.zoneName ?? "-"} (${line.actualQuantity + quantityPicked}/${line.expectedQuantity})`,
+    };
+  };
+
+  const handleConfirmPick = (
+    lineItemId: Id<"session_line_items">,
+    remaining: number,
+    isSerialTracked: boolean,
+  ) => {
+    if (!userId) return;
+    const serialNumber = serials[lineItemId]?.trim();
+    if (isSerialTracked && !serialNumber) {
+      toast.error("Scan the serial number of the picked unit");
+      return;
+    }
+
+    confirmPick(
+      {
+        lineItemId,
+        quantityPicked: isSerialTracked
+          ? 1
+          : (quantities[lineItemId] ?? remaining),
+        userId,
+        serialNumbers: isSerialTracked ? [serialNumber] : undefined,
+      },
+      {
+        onSuccess: (result) => {
+          setQuantities((prev) => {
+            const { [lineItemId]: _, ...rest } = prev;
+            return rest;
+          });
+          setSerials((prev) => {
+            const { [lineItemId]: _, ...rest } = prev;
+            return rest;
+          });
+          if (result.orderPicked) {
+            toast.success("All lines picked; order is ready to pack");
+          }
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {session?.sessionCode ?? "Picking session"}
+            {session && (
+              <Badge variant="outline" className="rounded-sm">
+                {session.statusName}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Order {session?.orderCode ?? "-"}. Lines are sorted by location.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isClosed && (
+          <BarcodeScanner
+            onScan={handleScan}
+            disabled={!session}
+            placeholder="Scan a product to pick one unit"
+          />
+        )}
+
+        <div className="overflow-hidden rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead className="text-center">Picked</TableHead>
+                <TableHead className="w-40" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedItems.length ? (
+                sortedItems.map((item) => {
+                  const remaining = item.expectedQuantity - item.actualQuantity;
+
+                  return (
+                    <TableRow
+                      key={item._id}
+                      className={cn(
+                        item._id === armedLineId && "bg-blue-500/10",
+                      )}
+                    >
+                      <TableCell>
+                        <div className="font-medium">
+                          {item.zoneName ?? "-"}
+                        </div>
+                        <div className="text-muted-foreground text-xs">
+                          {item.zonePath}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {item.skuCode}
+                      </TableCell>
+                      <TableCell>{item.productName}</TableCell>
+                      <TableCell>{item.batchNumber ?? "-"}</TableCell>
+                      <TableCell className="text-center">
+                        {item.actualQuantity} / {item.expectedQuantity}
+                      </TableCell>
+                      <TableCell>
+                        {remaining > 0 && !isClosed ? (
+                          <div className="flex items-center gap-2">
+                            {item.isSerialTracked ? (
+                              <Input
+                                placeholder="Scan serial"
+                                className="w-32"
+                                value={serials[item._id] ?? ""}
+                                onChange={(e) =>
+                                  setSerials((prev) => ({
+                                    ...prev,
+                                    [item._id]: e.target.value,
+                                  }))
+                                }
+                                onKeyDown={(e) =>
+                                  e.key === "Enter" &&
+                                  handleConfirmPick(item._id, remaining, true)
+                                }
+                              />
+                            ) : (
+                              <Input
+                                type="number"
+                                min={1}
+                                max={remaining}
+                                className="w-20"
+                                value={quantities[item._id] ?? remaining}
+                                onChange={(e) =>
+                                  setQuantities((prev) => ({
+                                    ...prev,
+                                    [item._id]: Number(e.target.value),
+                                  }))
+                                }
+                              />
+                            )}
+                            <Button
+                              size="icon-sm"
+                              disabled={isPending}
+                              onClick={() =>
+                                handleConfirmPick(
+                                  item._id,
+                                  remaining,
+                                  item.isSerialTracked,
+                                )
+                              }
+                            >
+                              <Check />
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-green-500 text-sm">
+                            {remaining > 0 ? "Closed" : "Picked"}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-16 text-center">
+                    No pick lines.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { InventoryBatchListItem } from "@/lib/types";
+
+interface PlaceHoldDialogProps {
+  batch: InventoryBatchListItem | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+/** Split scanned serials on new lines, commas or spaces */
+const parseSerials = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * Place a batch, or serials of it, on a QC hold and optionally move the
+ * held units into a quarantine zone
+ */
+export function PlaceHoldDialog({
+  batch,
+  open,
+  onOpenChange,
+}: PlaceHoldDialogProps) {
+  const { userId } = useCurrentUser();
+  const [quantity, setQuantity] = React.useState(0);
+  const [serials, setSerials] = React.useState("");
+  const [zoneId, setZoneId] = React.useState("in-place");
+  const [reason, setReason] = React.useState("");
+
+  const unreserved = batch ? batch.quantity - batch.reserved : 0;
+
+  React.useEffect(() => {
+    if (open) {
+      setQuantity(unreserved);
+      setSerials("");
+      setZoneId("in-place");
+      setReason("");
+    }
+  }, [open, unreserved]);
+
+  const { data: zones } = useQuery({
+    ...convexQuery(api.storageZones.listByBranch, {
+      branchId: batch?.branchId as Id<"branches">,
+    }),
+    enabled: open && !!batch,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.qualityHolds.placeHold),
+  });
+
+  const serialNumbers = parseSerials(serials);
+
+  const handlePlaceHold = () => {
+    if (!batch || !userId) return;
+    if (!reason.trim()) {
+      toast.error("Enter the reason for the hold");
+      return;
+    }
+
+    mutate(
+      {
+        batchId: batch._id,
+        quantity,
+        serialNumbers: serialNumbers.length ? serialNumbers : undefined,
+        zoneId:
+          zoneId === "in-place" ? undefined : (zoneId as Id<"storage_zones">),
+        reason,
+        userId,
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(`${result.holdCode} placed`);
+          onOpenChange?.(false);
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Place {batch?.internalBatchNumber ?? "batch"} on hold
+          </DialogTitle>
+          <DialogDescription>
+            Held units stay on hand but cannot be allocated or picked until they
+            are released. {unreserved} of {batch?.quantity ?? 0} unit(s) are
+            free of picking reservations.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="holdQuantity">Quantity</Label>
+            <Input
+              id="holdQuantity"
+              type="number"
+              min={1}
+              max={unreserved}
+              disabled={serialNumbers.length > 0}
+              value={serialNumbers.length || quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Quarantine zone</Label>
+            <Select value={zoneId} onValueChange={setZoneId}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="in-place">Hold in place</SelectItem>
+                {zones?.map((zone) => (
+                  <SelectItem key={zone._id} value={zone._id}>
+                    {zone.name} ({zone.path})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="holdSerials">Serial numbers</Label>
+          <Textarea
+            id="holdSerials"
+            placeholder="Serial-tracked products only; leave empty to hold the first serials in stock"
+            value={serials}
+            onChange={(e) => setSerials(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="holdReason">Reason</Label>
+          <Textarea
+            id="holdReason"
+            placeholder="Why the stock is held, e.g. damaged packaging"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePlaceHold} disabled={isPending || !batch}>
+            {isPending && <Spinner />}
+            Place hold
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
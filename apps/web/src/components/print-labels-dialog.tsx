@@ -0,0 +1,243 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { FunctionArgs } from "convex/server";
+import { FileDown, Printer } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { code128Bars } from "@/lib/labels/code128";
+import { renderLabelPdf } from "@/lib/labels/pdf";
+import { encodeQr } from "@/lib/labels/qr";
+import { renderZpl } from "@/lib/labels/zpl";
+import type { LabelData } from "@/lib/types";
+
+export type LabelRequest = FunctionArgs<typeof api.labels.getLabels>;
+
+interface PrintLabelsDialogProps {
+  request: LabelRequest | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+function BarcodePreview({ barcode }: { barcode: LabelData["barcode"] }) {
+  if (barcode.symbology === "QR") {
+    const modules = encodeQr(barcode.data);
+    return (
+      <svg
+        viewBox={`-2 -2 ${modules.length + 4} ${modules.length + 4}`}
+        className="size-20 shrink-0"
+        role="img"
+        aria-label={barcode.text}
+      >
+        <path
+          d={modules
+            .flatMap((row, y) =>
+              row.map((dark, x) => (dark ? `M${x} ${y}h1v1h-1z` : "")),
+            )
+            .join("")}
+        />
+      </svg>
+    );
+  }
+
+  const { bars, width } = code128Bars(
+    barcode.data,
+    barcode.symbology === "GS1_128",
+  );
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`-10 0 ${width + 20} 30`}
+        className="h-12 w-full"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={barcode.text}
+      >
+        {bars.map(([x, barWidth]) => (
+          <rect key={x} x={x} y={0} width={barWidth} height={30} />
+        ))}
+      </svg>
+      <div className="text-center font-mono text-xs">{barcode.text}</div>
+    </div>
+  );
+}
+
+function LabelPreview({ label }: { label: LabelData }) {
+  return (
+    <div className="flex flex-col gap-2 rounded-md border bg-white p-3 text-black">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="truncate font-semibold">{label.title}</div>
+          {label.lines.map((line) => (
+            <div key={line} className="truncate text-xs">
+              {line}
+            </div>
+          ))}
+        </div>
+        {label.barcode.symbology === "QR" && (
+          <BarcodePreview barcode={label.barcode} />
+        )}
+      </div>
+      {label.barcode.symbology !== "QR" && (
+        <BarcodePreview barcode={label.barcode} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Preview labels and print them as ZPL on the label printer or as a PDF
+ * sheet for office printers.
+ */
+export function PrintLabelsDialog({
+  request,
+  open,
+  onOpenChange,
+}: PrintLabelsDialogProps) {
+  const [copies, setCopies] = React.useState(1);
+  const [cartonCount, setCartonCount] = React.useState(1);
+  const hasCartons = !!request?.outboundOrderId;
+
+  React.useEffect(() => {
+    if (open) {
+      setCopies(1);
+      setCartonCount(1);
+    }
+  }, [open]);
+
+  const {
+    data: labels,
+    isPending,
+    error,
+  } = useQuery({
+    ...convexQuery(api.labels.getLabels, {
+      ...request,
+      cartonCount: hasCartons ? cartonCount : undefined,
+    }),
+    enabled: !!open && !!request && cartonCount >= 1,
+  });
+
+  const { mutate: sendToPrinter, isPending: isPrinting } = useMutation({
+    mutationFn: async (zpl: string) => {
+      const response = await fetch("/api/labels/print", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zpl }),
+      });
+      const result = (await response.json()) as { message?: string };
+      if (!response.ok) {
+        throw new Error(result.message ?? "Failed to print labels");
+      }
+    },
+  });
+
+  const handlePrint = () => {
+    if (!labels?.length) return;
+    sendToPrinter(renderZpl(labels, copies), {
+      onSuccess: () =>
+        toast.success(`Sent ${labels.length * copies} label(s) to the printer`),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleDownload = () => {
+    if (!labels?.length) return;
+    const url = URL.createObjectURL(renderLabelPdf(labels, copies));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `labels-${new Date().toISOString().slice(0, 10)}.pdf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Print labels</DialogTitle>
+          <DialogDescription>
+            Send ZPL to the label printer or download a PDF sheet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="label-copies">Copies of each</Label>
+            <Input
+              id="label-copies"
+              type="number"
+              min={1}
+              value={copies}
+              onChange={(event) =>
+                setCopies(Math.max(1, Number(event.target.value) || 1))
+              }
+            />
+          </div>
+          {hasCartons && (
+            <div className="space-y-2">
+              <Label htmlFor="label-cartons">Cartons</Label>
+              <Input
+                id="label-cartons"
+                type="number"
+                min={1}
+                value={cartonCount}
+                onChange={(event) =>
+                  setCartonCount(Math.max(1, Number(event.target.value) || 1))
+                }
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {error ? (
+            <div className="text-destructive text-sm">{error.message}</div>
+          ) : isPending ? (
+            <div className="flex h-24 items-center justify-center">
+              <Spinner />
+            </div>
+          ) : (
+            labels?.map((label) => (
+              <LabelPreview
+                key={[label.kind, label.title, ...label.lines].join("|")}
+                label={label}
+              />
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleDownload}
+            disabled={!labels?.length}
+          >
+            <FileDown />
+            Download PDF
+          </Button>
+          <Button
+            onClick={handlePrint}
+            disabled={isPrinting || !labels?.length}
+          >
+            {isPrinting ? <Spinner /> : <Printer />}
+            Send to printer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface ProductFilterSelectsProps {
+  categoryId: Id<"categories"> | undefined;
+  brandId: Id<"brands"> | undefined;
+  onCategoryChange: (categoryId: Id<"categories"> | undefined) => void;
+  onBrandChange: (brandId: Id<"brands"> | undefined) => void;
+}
+
+/**
+ * Category and brand pickers for stock screens.
+ * Categories are listed in tree order and indented by depth.
+ */
+export function ProductFilterSelects({
+  categoryId,
+  brandId,
+  onCategoryChange,
+  onBrandChange,
+}: ProductFilterSelectsProps) {
+  const { organizationId } = useCurrentUser();
+
+  const { data: categories } = useQuery({
+    ...convexQuery(api.categories.getTree, {
+      organizationId: organizationId as Id<"organizations">,
+    }),
+    enabled: !!organizationId,
+  });
+
+  const { data: brands } = useQuery({
+    ...convexQuery(api.brands.listAll, {
+      organizationId: organizationId as unknown as string,
+      isActive: true,
+    }),
+    enabled: !!organizationId,
+  });
+
+  return (
+    <>
+      <Select
+        value={categoryId ?? "all"}
+        onValueChange={(value) =>
+          onCategoryChange(
+            value === "all" ? undefined : (value as Id<"categories">),
+          )
+        }
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All categories</SelectItem>
+          {categories?.map((category) => (
+            <SelectItem key={category._id} value={category._id}>
+              {"\u00a0".repeat((category.path.split(".").length - 1) * 2)}
+              {category.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={brandId ?? "all"}
+        onValueChange={(value) =>
+          onBrandChange(value === "all" ? undefined : (value as Id<"brands">))
+        }
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Brand" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All brands</SelectItem>
+          {brands?.map((brand) => (
+            <SelectItem key={brand._id} value={brand._id}>
+              {brand.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface PurchaseOrderDetailsDialogProps {
+  purchaseOrderId: Id<"purchase_orders"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+/**
+ * Lines, receipt progress and version history of a purchase order
+ */
+export function PurchaseOrderDetailsDialog({
+  purchaseOrderId,
+  open,
+  onOpenChange,
+}: PurchaseOrderDetailsDialogProps) {
+  const { userId } = useCurrentUser();
+
+  const { data: order, isPending } = useQuery({
+    ...convexQuery(api.purchaseOrders.getPurchaseOrderById, {
+      orderId: purchaseOrderId as Id<"purchase_orders">,
+      userId: userId as Id<"users">,
+    }),
+    enabled: open && !!purchaseOrderId && !!userId,
+  });
+
+  const { data: versions } = useQuery({
+    ...convexQuery(api.purchaseOrders.getPurchaseOrderVersions, {
+      orderId: purchaseOrderId as Id<"purchase_orders">,
+    }),
+    enabled: open && !!purchaseOrderId,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {order?.code ?? "Purchase order"}
+            {order && (
+              <Badge variant={"outline"} className="rounded-sm">
+                {order.statusName}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {order
+              ? `${order.supplierName} → ${order.branchName} · version ${order.version}`
+              : "Loading order..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending || !order ? (
+          <div className="flex h-24 items-center justify-center">
+            <Spinner />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm md:grid-cols-4">
+              <div className="text-muted-foreground">Ordered</div>
+              <div>{formatDate(order.orderedAt)}</div>
+              <div className="text-muted-foreground">Expected</div>
+              <div>{formatDate(order.expectedDeliveryAt)}</div>
+              <div className="text-muted-foreground">Approved</div>
+              <div>
+                {order.approvedAt
+                  ? `${formatDate(order.approvedAt)} · ${order.approvedByName ?? ""}`
+                  : "-"}
+              </div>
+              <div className="text-muted-foreground">Sent</div>
+              <div>{formatDate(order.sentAt)}</div>
+              {order.closeReason && (
+                <>
+                  <div className="text-muted-foreground">Closed</div>
+                  <div className="col-span-3">
+                    {formatDate(order.closedAt)} · {order.closeReason}
+                  </div>
+                </>
+              )}
+              {order.note && (
+                <>
+                  <div className="text-muted-foreground">Note</div>
+                  <div className="col-span-3">{order.note}</div>
+                </>
+              )}
+            </div>
+
+            <div className="overflow-hidden rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Unit cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {order.items.map((item) => (
+                    <TableRow key={item._id}>
+                      <TableCell className="font-medium">
+                        {item.skuCode}
+                      </TableCell>
+                      <TableCell>{item.productName}</TableCell>
+                      <TableCell className="text-right">
+                        {item.quantityOrdered}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.quantityReceived}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.unitCost.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <div className="font-medium text-sm">Version history</div>
+              {versions?.length ? (
+                versions.map((version) => (
+                  <div
+                    key={version._id}
+                    className="rounded-md border p-3 text-sm"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="font-medium">
+                        v{version.version}
+                        {version.reason && (
+                          <span className="font-normal text-muted-foreground">
+                            {" "}
+                            · {version.reason}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-muted-foreground text-xs">
+                        {formatDate(version.changedAt)} ·{" "}
+                        {version.changedByName}
+                      </div>
+                    </div>
+                    <div className="mt-1 text-muted-foreground text-xs">
+                      {version.items
+                        .map(
+                          (item) =>
+                            `${item.skuCode} × ${item.quantityOrdered} @ ${item.unitCost}`,
+                        )
+                        .join(", ")}
+                    </div>
+                    <div className="mt-1 text-xs">
+                      Total {version.totalCost.toLocaleString()}
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <div className="text-muted-foreground text-sm">
+                  No amendments recorded.
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,427 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Trash2 } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useBranchStore } from "@/store/branch";
+
+interface PurchaseOrderDialogProps {
+  /** Order to amend; null creates a new draft */
+  purchaseOrderId: Id<"purchase_orders"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+interface OrderLine {
+  variantId: Id<"product_variants">;
+  skuCode: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+const toDateInput = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toISOString().slice(0, 10) : "";
+
+/**
+ * Create a purchase order as a draft, or amend the lines of an order that
+ * has not started receiving. Amending an approved or sent order sends it
+ * back for approval.
+ */
+export function PurchaseOrderDialog({
+  purchaseOrderId,
+  open,
+  onOpenChange,
+}: PurchaseOrderDialogProps) {
+  const { userId, organizationId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [supplierId, setSupplierId] = React.useState<string>("");
+  const [note, setNote] = React.useState("");
+  const [expectedDelivery, setExpectedDelivery] = React.useState("");
+  const [reason, setReason] = React.useState("");
+  const [lines, setLines] = React.useState<OrderLine[]>([]);
+  const isAmend = !!purchaseOrderId;
+
+  const { data: order } = useQuery({
+    ...convexQuery(api.purchaseOrders.getPurchaseOrderById, {
+      orderId: purchaseOrderId as Id<"purchase_orders">,
+      userId: userId as Id<"users">,
+    }),
+    enabled: open && !!purchaseOrderId && !!userId,
+  });
+
+  const { data: suppliers } = useQuery({
+    ...convexQuery(api.suppliers.getActive, {
+      organizationId: organizationId as Id<"organizations">,
+    }),
+    enabled: open && !!organizationId,
+  });
+
+  const { data: variants } = useQuery({
+    ...convexQuery(api.purchaseOrders.getProductVariantsBySupplier, {
+      supplierId: supplierId as Id<"suppliers">,
+    }),
+    enabled: open && !!supplierId,
+  });
+
+  const { mutate: createOrder, isPending: isCreating } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.createPurchaseOrder),
+  });
+  const { mutate: amendOrder, isPending: isAmending } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.amendPurchaseOrder),
+  });
+
+  React.useEffect(() => {
+    if (!open) return;
+    if (order) {
+      setSupplierId(order.supplierId);
+      setNote(order.note ?? "");
+      setExpectedDelivery(toDateInput(order.expectedDeliveryAt));
+      setLines(
+        order.items.map((item) => ({
+          variantId: item.skuId,
+          skuCode: item.skuCode,
+          productName: item.productName,
+          quantity: item.quantityOrdered,
+          unitPrice: item.unitCost,
+        })),
+      );
+    } else if (!purchaseOrderId) {
+      setSupplierId("");
+      setNote("");
+      setExpectedDelivery("");
+      setLines([]);
+    }
+    setReason("");
+  }, [open, order, purchaseOrderId]);
+
+  const availableVariants = (variants ?? []).filter(
+    (variant) => !lines.some((line) => line.variantId === variant.variantId),
+  );
+
+  const handleAddLine = (variantId: string) => {
+    const variant = variants?.find((v) => v.variantId === variantId);
+    if (!variant) return;
+    setLines([
+      ...lines,
+      {
+        variantId: variant.variantId,
+        skuCode: variant.skuCode,
+        productName: variant.productName,
+        quantity: 1,
+        unitPrice: variant.costPrice,
+      },
+    ]);
+  };
+
+  const handleUpdateLine = (
+    variantId: Id<"product_variants">,
+    patch: Partial<OrderLine>,
+  ) => {
+    setLines(
+      lines.map((line) =>
+        line.variantId === variantId ? { ...line, ...patch } : line,
+      ),
+    );
+  };
+
+  const totalCost = lines.reduce(
+    (sum, line) => sum + line.quantity * line.unitPrice,
+    0,
+  );
+
+  const handleSave = () => {
+    if (!userId) return;
+    if (lines.length === 0) {
+      toast.error("Add at least one product");
+      return;
+    }
+
+    const items = lines.map((line) => ({
+      variantId: line.variantId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+    }));
+    const expectedDeliveryAt = expectedDelivery
+      ? new Date(expectedDelivery).getTime()
+      : undefined;
+    const callbacks = {
+      onError: (error: Error) => {
+        toast.error(error.message || "Failed to save purchase order");
+      },
+    };
+
+    if (purchaseOrderId) {
+      amendOrder(
+        {
+          orderId: purchaseOrderId,
+          userId,
+          items,
+          note: note || undefined,
+          expectedDeliveryAt,
+          reason: reason || undefined,
+        },
+        {
+          ...callbacks,
+          onSuccess: (result) => {
+            toast.success(
+              result.statusCode === "PENDING" && order?.statusCode !== "PENDING"
+                ? `Amended to v${result.version}; approval required again`
+                : `Amended to v${result.version}`,
+            );
+            onOpenChange?.(false);
+          },
+        },
+      );
+      return;
+    }
+
+    if (!branchId || !supplierId) {
+      toast.error("Select a branch and supplier");
+      return;
+    }
+    createOrder(
+      {
+        receivingBranchId: branchId,
+        userId,
+        supplierId: supplierId as Id<"suppliers">,
+        note: note || undefined,
+        expectedDeliveryAt,
+        items,
+      },
+      {
+        ...callbacks,
+        onSuccess: (result) => {
+          toast.success(`Draft ${result.code} created`);
+          onOpenChange?.(false);
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {isAmend && order
+              ? `Amend ${order.code} (v${order.version})`
+              : "New purchase order"}
+          </DialogTitle>
+          <DialogDescription>
+            {isAmend
+              ? "Lines can be changed until receiving starts. Each amendment is kept in the order's version history."
+              : "The order is saved as a draft and submitted for approval from the list."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplier">
+              Supplier <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={supplierId}
+              onValueChange={(value) => {
+                setSupplierId(value);
+                setLines([]);
+              }}
+              disabled={isAmend}
+            >
+              <SelectTrigger id="supplier" className="w-full">
+                <SelectValue placeholder="Supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers?.map((supplier) => (
+                  <SelectItem key={supplier._id} value={supplier._id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expectedDelivery">Expected delivery</Label>
+            <Input
+              id="expectedDelivery"
+              type="date"
+              value={expectedDelivery}
+              onChange={(e) => setExpectedDelivery(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="note">Note</Label>
+            <Input
+              id="note"
+              placeholder="Note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Products</Label>
+            <Select
+              value=""
+              onValueChange={handleAddLine}
+              disabled={!supplierId || availableVariants.length === 0}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Add product" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableVariants.map((variant) => (
+                  <SelectItem key={variant.variantId} value={variant.variantId}>
+                    {variant.skuCode} - {variant.productName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="overflow-hidden rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-28">Quantity</TableHead>
+                  <TableHead className="w-32">Unit cost</TableHead>
+                  <TableHead className="text-right">Line total</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length ? (
+                  lines.map((line) => (
+                    <TableRow key={line.variantId}>
+                      <TableCell className="font-medium">
+                        {line.skuCode}
+                      </TableCell>
+                      <TableCell>{line.productName}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={line.quantity}
+                          onChange={(e) =>
+                            handleUpdateLine(line.variantId, {
+                              quantity: Number(e.target.value),
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unitPrice}
+                          onChange={(e) =>
+                            handleUpdateLine(line.variantId, {
+                              unitPrice: Number(e.target.value),
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(line.quantity * line.unitPrice).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          onClick={() =>
+                            setLines(
+                              lines.filter(
+                                (l) => l.variantId !== line.variantId,
+                              ),
+                            )
+                          }
+                        >
+                          <Trash2 />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="h-16 text-center text-muted-foreground"
+                    >
+                      {supplierId
+                        ? "No products added."
+                        : "Select a supplier to add products."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="text-right text-muted-foreground text-sm">
+            Total: {totalCost.toLocaleString()}
+          </div>
+        </div>
+
+        {isAmend && (
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason for amendment</Label>
+            <Input
+              id="reason"
+              placeholder="e.g. Supplier price change"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isCreating || isAmending || lines.length === 0}
+          >
+            {(isCreating || isAmending) && <Spinner />}
+            {isAmend ? "Save amendment" : "Create draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
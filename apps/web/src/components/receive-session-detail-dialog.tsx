@@ -0,0 +1,391 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
+import { Check } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BarcodeScanner } from "@/components/barcode-scanner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useBarcodeLookup } from "@/hooks/use-barcode-lookup";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { ScanFeedback } from "@/lib/scan-feedback";
+import { cn } from "@/lib/utils";
+
+interface ReceiveSessionDetailDialogProps {
+  sessionId: Id<"receive_sessions"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+type ReceiveDetailId = Id<"receive_sessions_details">;
+
+type ReceiveItem = NonNullable<
+  FunctionReturnType<typeof api.receiveSessions.getReceiveSessionDetailed>
+>["items"][number];
+
+/** Lot fields read from GS1 codes, passed on to the receipt */
+type LotDetails = {
+  supplierBatchNumber?: string;
+  manufacturingDate?: number;
+  expiresAt?: number;
+};
+
+const formatDate = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    timeZone: "UTC",
+  }).format(new Date(timestamp));
+
+/**
+ * Receive the lines of a receive session. Scanning a product counts one
+ * unit on its line (a GS1 carton counts its AI 37 quantity and fills in
+ * the lot and dates); counted units are put away with "Receive".
+ */
+export function ReceiveSessionDetailDialog({
+  sessionId,
+  open,
+  onOpenChange,
+}: ReceiveSessionDetailDialogProps) {
+  const { userId } = useCurrentUser();
+  const lookupBarcode = useBarcodeLookup();
+  // Units counted per line and not yet received
+  const [counted, setCounted] = React.useState<Record<string, number>>({});
+  // Scanned serials per line, for serial-tracked products
+  const [serials, setSerials] = React.useState<Record<string, string[]>>({});
+  // Lot, production and expiry dates scanned from GS1 codes per line
+  const [lots, setLots] = React.useState<Record<string, LotDetails>>({});
+  // Serial-tracked line whose product was just scanned; the next unknown
+  // code scanned is taken as that unit's serial
+  const [armedDetailId, setArmedDetailId] =
+    React.useState<ReceiveDetailId | null>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setCounted({});
+      setSerials({});
+      setLots({});
+      setArmedDetailId(null);
+    }
+  }, [open]);
+
+  const { data: session } = useQuery({
+    ...convexQuery(api.receiveSessions.getReceiveSessionDetailed, {
+      receiveSessionId: sessionId as Id<"receive_sessions">,
+    }),
+    enabled: !!sessionId && open,
+  });
+
+  const { mutateAsync: processReceiveItem, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.receiveSessions.processReceiveItem),
+  });
+
+  const isClosed =
+    session?.statusCode === "COMPLETE" || session?.statusCode === "CANCELLED";
+
+  const clearLine = (detailId: ReceiveDetailId) => {
+    setCounted((prev) => {
+      const { [detailId]: _, ...rest } = prev;
+      return rest;
+    });
+    setSerials((prev) => {
+      const { [detailId]: _, ...rest } = prev;
+      return rest;
+    });
+    setLots((prev) => {
+      const { [detailId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const addSerial = (item: ReceiveItem, serialNumber: string): ScanFeedback => {
+    if (serials[item.detailId]?.includes(serialNumber)) {
+      return {
+        ok: false,
+        message: `Serial ${serialNumber} was already scanned`,
+      };
+    }
+    setSerials((prev) => ({
+      ...prev,
+      [item.detailId]: [...(prev[item.detailId] ?? []), serialNumber],
+    }));
+    setCounted((prev) => ({
+      ...prev,
+      [item.detailId]: (prev[item.detailId] ?? 0) + 1,
+    }));
+    setArmedDetailId(null);
+    return {
+      ok: true,
+      message: `Counted ${item.skuCode} serial ${serialNumber}`,
+    };
+  };
+
+  /**
+   * Count the scanned product on its receive line. GS1 codes carry the
+   * lot, dates, serial and carton count, which fill in the line.
+   */
+  const handleScan = async (code: string): Promise<ScanFeedback> => {
+    if (!session || isClosed) {
+      return { ok: false, message: "This receive session is closed" };
+    }
+
+    const match = await lookupBarcode(code);
+    const armedItem = session.items.find(
+      (item) => item.detailId === armedDetailId,
+    );
+    if (!match && armedItem) {
+      return addSerial(armedItem, code);
+    }
+    if (!match) {
+      return { ok: false, message: `Unknown barcode ${code}` };
+    }
+
+    const item = session.items.find((line) => line.skuId === match.variant._id);
+    if (!item) {
+      return {
+        ok: false,
+        message: `${match.variant.skuCode} is not on this receipt`,
+      };
+    }
+
+    // One receipt posts one batch, so lots can't be mixed on a line
+    const { gs1 } = match;
+    const lot: LotDetails | null = gs1
+      ? {
+          supplierBatchNumber: gs1.lotNumber,
+          manufacturingDate: gs1.productionDate,
+          expiresAt: gs1.expiresAt,
+        }
+      : null;
+    const pendingLot = lots[item.detailId];
+    if (
+      lot &&
+      pendingLot &&
+      counted[item.detailId] &&
+      (lot.supplierBatchNumber !== pendingLot.supplierBatchNumber ||
+        lot.expiresAt !== pendingLot.expiresAt)
+    ) {
+      return {
+        ok: false,
+        message: `Receive the counted ${item.skuCode} of lot ${pendingLot.supplierBatchNumber ?? "-"} before scanning lot ${lot.supplierBatchNumber ?? "-"}`,
+      };
+    }
+
+    const units = gs1?.serialNumber ? 1 : (gs1?.count ?? 1);
+    const total = item.quantityReceived + (counted[item.detailId] ?? 0);
+    if (total + units > item.quantityExpected) {
+      return {
+        ok: false,
+        message: `Only ${item.quantityExpected - total} more ${item.skuCode} expected; type the quantity to over-receive`,
+      };
+    }
+
+    if (lot) {
+      setLots((prev) => ({ ...prev, [item.detailId]: lot }));
+    }
+
+    if (item.isSerialTracked) {
+      if (gs1?.serialNumber) return addSerial(item, gs1.serialNumber);
+      setArmedDetailId(item.detailId);
+      return { ok: true, message: `${item.skuCode}: scan the unit's serial` };
+    }
+
+    setCounted((prev) => ({
+      ...prev,
+      [item.detailId]: (prev[item.detailId] ?? 0) + units,
+    }));
+    return {
+      ok: true,
+      message: `Counted ${units} ${item.skuCode} (${total + units}/${item.quantityExpected})`,
+    };
+  };
+
+  const receiveLine = async (detailId: ReceiveDetailId) => {
+    const quantityToAdd = counted[detailId] ?? 0;
+    if (quantityToAdd <= 0) return;
+
+    const result = await processReceiveItem({
+      receiveSessionDetailId: detailId,
+      quantityToAdd,
+      serialNumbers: serials[detailId],
+      ...lots[detailId],
+      userId: userId ?? undefined,
+    });
+    clearLine(detailId);
+    toast.success(
+      result.holdCode
+        ? `Received ${quantityToAdd} unit(s) on hold ${result.holdCode}`
+        : `Received ${quantityToAdd} unit(s) into ${result.putawayZone ?? "stock"}`,
+    );
+  };
+
+  const handleReceive = async (detailIds: ReceiveDetailId[]) => {
+    try {
+      for (const detailId of detailIds) {
+        await receiveLine(detailId);
+      }
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const countedLineIds = Object.keys(counted).filter(
+    (detailId) => counted[detailId] > 0,
+  ) as ReceiveDetailId[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {session?.receiveSessionCode ?? "Receive session"}
+            {session && (
+              <Badge variant="outline" className="rounded-sm">
+                {session.status}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {session?.purchaseOrderCode ?? "-"} from{" "}
+            {session?.supplierName ?? "-"}.
+            {session?.requiresInspection &&
+              " Receipts from this supplier are held for inspection."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isClosed && (
+          <BarcodeScanner
+            onScan={handleScan}
+            disabled={!session}
+            placeholder="Scan a product to count one unit"
+          />
+        )}
+
+        <div className="overflow-hidden rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Zone</TableHead>
+                <TableHead className="text-center">Received</TableHead>
+                <TableHead className="w-40">Counted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {session?.items.length ? (
+                session.items.map((item) => (
+                  <TableRow
+                    key={item.detailId}
+                    className={cn(
+                      item.detailId === armedDetailId && "bg-blue-500/10",
+                    )}
+                  >
+                    <TableCell className="font-medium">
+                      {item.skuCode}
+                    </TableCell>
+                    <TableCell>
+                      {item.productName}
+                      {lots[item.detailId] && (
+                        <div className="text-muted-foreground text-xs">
+                          Lot {lots[item.detailId].supplierBatchNumber ?? "-"}
+                          {lots[item.detailId].expiresAt !== undefined &&
+                            `, expires ${formatDate(lots[item.detailId].expiresAt as number)}`}
+                        </div>
+                      )}
+                      {serials[item.detailId]?.length ? (
+                        <div className="text-muted-foreground text-xs">
+                          {serials[item.detailId].join(", ")}
+                        </div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell>{item.recommendedZone ?? "-"}</TableCell>
+                    <TableCell className="text-center">
+                      {item.quantityReceived} / {item.quantityExpected}
+                    </TableCell>
+                    <TableCell>
+                      {isClosed ? (
+                        <span className="text-muted-foreground text-sm">
+                          {item.status}
+                        </span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-20"
+                            // Serials are scanned one per unit, not typed
+                            disabled={item.isSerialTracked}
+                            value={counted[item.detailId] ?? 0}
+                            onChange={(e) =>
+                              setCounted((prev) => ({
+                                ...prev,
+                                [item.detailId]: Number(e.target.value),
+                              }))
+                            }
+                          />
+                          <Button
+                            size="icon-sm"
+                            disabled={isPending || !counted[item.detailId]}
+                            onClick={() => handleReceive([item.detailId])}
+                          >
+                            <Check />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-16 text-center">
+                    No receive lines.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!isClosed && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={() => handleReceive(countedLineIds)}
+              disabled={isPending || countedLineIds.length === 0}
+            >
+              {isPending && <Spinner />}
+              Receive counted
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface ReceiveTransferDialogProps {
+  transferOrderId: Id<"transfer_orders"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export function ReceiveTransferDialog({
+  transferOrderId,
+  open,
+  onOpenChange,
+}: ReceiveTransferDialogProps) {
+  const { userId } = useCurrentUser();
+  const [zoneId, setZoneId] = React.useState<string>("");
+  const [quantities, setQuantities] = React.useState<Record<string, number>>(
+    {},
+  );
+  const [closeShort, setCloseShort] = React.useState(false);
+  const [notes, setNotes] = React.useState("");
+
+  const { data: transfer } = useQuery({
+    ...convexQuery(api.transfers.getTransferById, {
+      transferOrderId: transferOrderId as Id<"transfer_orders">,
+    }),
+    enabled: !!transferOrderId && open,
+  });
+
+  const { data: zones } = useQuery({
+    ...convexQuery(api.storageZones.listByBranch, {
+      branchId: transfer?.destinationBranchId as Id<"branches">,
+    }),
+    enabled: !!transfer,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.transfers.receiveTransfer),
+  });
+
+  const handleClose = () => {
+    setZoneId("");
+    setQuantities({});
+    setCloseShort(false);
+    setNotes("");
+    onOpenChange?.(false);
+  };
+
+  const handleReceive = () => {
+    if (!transfer || !userId || !zoneId) {
+      toast.error("Select a receiving zone");
+      return;
+    }
+
+    mutate(
+      {
+        transferOrderId: transfer._id,
+        userId,
+        zoneId: zoneId as Id<"storage_zones">,
+        lines: transfer.items.map((item) => ({
+          detailId: item._id,
+          quantityReceived: quantities[item._id] ?? item.quantityInTransit,
+        })),
+        closeShort,
+        notes: notes || undefined,
+      },
+      {
+        onSuccess: (result) => {
+          if (result.statusCode === "DISCREPANCY") {
+            toast.warning(
+              `Transfer closed with ${result.discrepancies.length} discrepant line(s)`,
+            );
+          } else {
+            toast.success(`Transfer ${transfer.transferCode} received`);
+          }
+          handleClose();
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && handleClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Receive {transfer?.transferCode}</DialogTitle>
+          <DialogDescription>
+            From {transfer?.sourceBranchName} to{" "}
+            {transfer?.destinationBranchName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Receiving zone</Label>
+          <Select value={zoneId} onValueChange={setZoneId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select zone" />
+            </SelectTrigger>
+            <SelectContent>
+              {zones?.map((zone) => (
+                <SelectItem key={zone._id} value={zone._id}>
+                  {zone.name} ({zone.path})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-hidden rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-center">Shipped</TableHead>
+                <TableHead className="text-center">Received</TableHead>
+                <TableHead className="w-28">Receive now</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfer?.items.map((item) => (
+                <TableRow key={item._id}>
+                  <TableCell className="font-medium">{item.skuCode}</TableCell>
+                  <TableCell>{item.productName}</TableCell>
+                  <TableCell className="text-center">
+                    {item.quantityShipped}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {item.quantityReceived}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={item.quantityInTransit}
+                      value={quantities[item._id] ?? item.quantityInTransit}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [item._id]: Number(e.target.value),
+                        }))
+                      }
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="closeShort"
+            checked={closeShort}
+            onCheckedChange={(value) => setCloseShort(!!value)}
+          />
+          <Label htmlFor="closeShort">
+            Close transfer and record any missing quantity as a discrepancy
+          </Label>
+        </div>
+        <Textarea
+          placeholder="Notes (damage, missing cartons...)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleReceive} disabled={isPending || !zoneId}>
+            {isPending && <Spinner />}
+            Receive
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
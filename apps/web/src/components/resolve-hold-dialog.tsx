@@ -0,0 +1,238 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { QualityHoldListItem } from "@/lib/types";
+
+export type HoldResolution = "RELEASE" | "REJECT";
+
+interface ResolveHoldDialogProps {
+  hold: QualityHoldListItem | null;
+  resolution: HoldResolution;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+type Disposition = "SCRAP" | "RETURN_TO_VENDOR";
+
+const DISPOSITION_OPTIONS: { value: Disposition; label: string }[] = [
+  { value: "SCRAP", label: "Scrap" },
+  { value: "RETURN_TO_VENDOR", label: "Return to vendor" },
+];
+
+/**
+ * Release held stock back into a zone, or reject it to scrap or a
+ * supplier return
+ */
+export function ResolveHoldDialog({
+  hold,
+  resolution,
+  open,
+  onOpenChange,
+}: ResolveHoldDialogProps) {
+  const { userId, organizationId } = useCurrentUser();
+  const [zoneId, setZoneId] = React.useState("");
+  const [disposition, setDisposition] = React.useState<Disposition>("SCRAP");
+  const [supplierId, setSupplierId] = React.useState("");
+  const [notes, setNotes] = React.useState("");
+
+  React.useEffect(() => {
+    if (open) {
+      setZoneId(hold?.sourceZoneId ?? "");
+      setDisposition("SCRAP");
+      setSupplierId(hold?.supplierId ?? "");
+      setNotes("");
+    }
+  }, [open, hold]);
+
+  const { data: zones } = useQuery({
+    ...convexQuery(api.storageZones.listByBranch, {
+      branchId: hold?.branchId as Id<"branches">,
+    }),
+    enabled: open && !!hold && resolution === "RELEASE",
+  });
+
+  const { data: suppliers } = useQuery({
+    ...convexQuery(api.suppliers.getActive, {
+      organizationId: organizationId as Id<"organizations">,
+    }),
+    enabled:
+      open &&
+      !!organizationId &&
+      resolution === "REJECT" &&
+      disposition === "RETURN_TO_VENDOR",
+  });
+
+  const { mutate: releaseHold, isPending: isReleasing } = useMutation({
+    mutationFn: useConvexMutation(api.qualityHolds.releaseHold),
+  });
+  const { mutate: rejectHold, isPending: isRejecting } = useMutation({
+    mutationFn: useConvexMutation(api.qualityHolds.rejectHold),
+  });
+
+  const callbacks = (message: string) => ({
+    onSuccess: () => {
+      toast.success(message);
+      onOpenChange?.(false);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleConfirm = () => {
+    if (!hold || !userId) return;
+
+    if (resolution === "RELEASE") {
+      releaseHold(
+        {
+          holdId: hold._id,
+          zoneId: (zoneId || undefined) as Id<"storage_zones"> | undefined,
+          notes: notes || undefined,
+          userId,
+        },
+        callbacks(`${hold.holdCode} released`),
+      );
+      return;
+    }
+
+    if (disposition === "RETURN_TO_VENDOR" && !supplierId) {
+      toast.error("Choose the supplier to return the units to");
+      return;
+    }
+    rejectHold(
+      {
+        holdId: hold._id,
+        disposition,
+        supplierId: (supplierId || undefined) as Id<"suppliers"> | undefined,
+        notes: notes || undefined,
+        userId,
+      },
+      callbacks(
+        disposition === "SCRAP"
+          ? `${hold.holdCode} scrapped`
+          : `${hold.holdCode} sent to a supplier return`,
+      ),
+    );
+  };
+
+  const isPending = isReleasing || isRejecting;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {resolution === "RELEASE" ? "Release" : "Reject"} {hold?.holdCode}
+          </DialogTitle>
+          <DialogDescription>
+            {hold?.heldQuantity ?? 0} unit(s) of {hold?.skuCode} held for:{" "}
+            {hold?.reason}
+          </DialogDescription>
+        </DialogHeader>
+
+        {resolution === "RELEASE" ? (
+          <div className="space-y-2">
+            <Label>Release to zone</Label>
+            <Select value={zoneId} onValueChange={setZoneId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a zone" />
+              </SelectTrigger>
+              <SelectContent>
+                {zones?.map((zone) => (
+                  <SelectItem key={zone._id} value={zone._id}>
+                    {zone.name} ({zone.path})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Disposition</Label>
+              <Select
+                value={disposition}
+                onValueChange={(value) => setDisposition(value as Disposition)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPOSITION_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {disposition === "RETURN_TO_VENDOR" && (
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier._id} value={supplier._id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="holdNotes">Notes</Label>
+          <Textarea
+            id="holdNotes"
+            placeholder="QC findings"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={resolution === "REJECT" ? "destructive" : "default"}
+            onClick={handleConfirm}
+            disabled={isPending || !hold}
+          >
+            {isPending && <Spinner />}
+            {resolution === "RELEASE" ? "Release" : "Reject"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
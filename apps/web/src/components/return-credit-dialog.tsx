@@ -0,0 +1,189 @@
+"use client";
+
+import { useConvexMutation } from "@convex-dev/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { ReturnRequestWithDetails } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ReturnCreditDialogProps {
+  returnRequest: ReturnRequestWithDetails | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+
+/**
+ * Record the credit a supplier issued for each line of a shipped return.
+ * Lines start at their expected credit.
+ */
+export function ReturnCreditDialog({
+  returnRequest,
+  open,
+  onOpenChange,
+}: ReturnCreditDialogProps) {
+  const { userId } = useCurrentUser();
+  const [amounts, setAmounts] = React.useState<Record<string, number>>({});
+  const [reference, setReference] = React.useState("");
+
+  const { mutate: recordCredit, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.returnRequest.recordReturnCredit),
+  });
+
+  React.useEffect(() => {
+    if (!open || !returnRequest) return;
+    setAmounts(
+      Object.fromEntries(
+        returnRequest.details.map((detail) => [
+          detail._id,
+          detail.actualCreditAmount ?? detail.expectedCreditAmount,
+        ]),
+      ),
+    );
+    setReference(returnRequest.creditNoteReference ?? "");
+  }, [open, returnRequest]);
+
+  const totalExpected = returnRequest?.totalExpectedCredit ?? 0;
+  const totalActual = Object.values(amounts).reduce((sum, x) => sum + x, 0);
+  const variance = totalActual - totalExpected;
+
+  const handleSave = () => {
+    if (!returnRequest || !userId) return;
+    recordCredit(
+      {
+        returnRequestId: returnRequest._id,
+        userId,
+        creditNoteReference: reference || undefined,
+        lines: returnRequest.details.map((detail) => ({
+          detailId: detail._id as Id<"return_request_details">,
+          actualCreditAmount: amounts[detail._id] ?? 0,
+        })),
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(
+            `Credit recorded · variance ${formatCurrency(result.creditVariance ?? 0)}`,
+          );
+          onOpenChange?.(false);
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Record supplier credit</DialogTitle>
+          <DialogDescription>
+            Enter the amount credited for each line of{" "}
+            {returnRequest?.requestCode}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="creditNoteReference">Credit note reference</Label>
+          <Input
+            id="creditNoteReference"
+            placeholder="e.g. CN-2024-0012"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </div>
+
+        <div className="overflow-hidden rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="w-36">Credited</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {returnRequest?.details.map((detail) => (
+                <TableRow key={detail._id}>
+                  <TableCell>
+                    <div className="font-medium">{detail.skuCode}</div>
+                    <div className="text-muted-foreground text-xs">
+                      {detail.productName ?? "-"}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {detail.quantityToReturn}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(detail.expectedCreditAmount)}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={amounts[detail._id] ?? 0}
+                      onChange={(e) =>
+                        setAmounts({
+                          ...amounts,
+                          [detail._id]: Number(e.target.value),
+                        })
+                      }
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="text-right text-sm">
+          Credited {formatCurrency(totalActual)} of{" "}
+          {formatCurrency(totalExpected)} · variance{" "}
+          <span className={cn(variance < 0 && "text-red-500")}>
+            {formatCurrency(variance)}
+          </span>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending || !userId}>
+            {isPending && <Spinner />}
+            Save credit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
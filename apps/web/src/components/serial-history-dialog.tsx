@@ -0,0 +1,187 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { cn } from "@/lib/utils";
+
+interface SerialHistoryDialogProps {
+  serialNumber: string | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(timestamp));
+
+/**
+ * Serial lookup: current location, warranty and movement history.
+ */
+export function SerialHistoryDialog({
+  serialNumber,
+  open,
+  onOpenChange,
+}: SerialHistoryDialogProps) {
+  const { organizationId } = useCurrentUser();
+
+  const { data: serial, isPending } = useQuery({
+    ...convexQuery(api.serialNumbers.getSerialHistory, {
+      organizationId: organizationId as Id<"organizations">,
+      serialNumber: serialNumber ?? "",
+    }),
+    enabled: !!organizationId && !!serialNumber && open,
+  });
+
+  const warrantyLabel = !serial
+    ? "-"
+    : serial.warranty.code === "NONE"
+      ? "No warranty"
+      : serial.warranty.code === "ACTIVE"
+        ? `Active, ${serial.warranty.daysLeft} day(s) left`
+        : "Expired";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {serialNumber}
+            {serial && (
+              <Badge variant="outline" className="rounded-sm">
+                {serial.statusName}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {serial
+              ? `${serial.skuCode} · ${serial.productName}`
+              : "Serial number lookup"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Looking up serial...
+          </div>
+        ) : !serial ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Serial number not found.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Location</div>
+                <div>
+                  {serial.zoneName
+                    ? `${serial.branchName} · ${serial.zoneName}`
+                    : "-"}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Batch</div>
+                <div>{serial.batchNumber ?? "-"}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Warranty</div>
+                <div
+                  className={cn(
+                    serial.warranty.code === "EXPIRED" && "text-red-500",
+                    serial.warranty.code === "ACTIVE" && "text-green-500",
+                  )}
+                >
+                  {warrantyLabel}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Purchase order</div>
+                <div>{serial.purchaseOrderCode ?? "-"}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Supplier</div>
+                <div>{serial.supplierName ?? "-"}</div>
+              </div>
+            </div>
+
+            <div className="overflow-hidden rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Movement</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {serial.movements.length ? (
+                    serial.movements.map((movement) => (
+                      <TableRow key={movement._id}>
+                        <TableCell>
+                          {formatDateTime(movement.occurredAt)}
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={cn(
+                              "font-medium",
+                              movement.quantityChange < 0
+                                ? "text-red-500"
+                                : "text-green-500",
+                            )}
+                          >
+                            {movement.quantityChange > 0 ? "IN" : "OUT"}
+                          </span>{" "}
+                          {movement.typeName}
+                        </TableCell>
+                        <TableCell>
+                          {movement.branchName ?? "-"}
+                          {movement.zoneName && ` · ${movement.zoneName}`}
+                          <div className="text-muted-foreground text-xs">
+                            {movement.batchNumber}
+                          </div>
+                        </TableCell>
+                        <TableCell>{movement.reference ?? "-"}</TableCell>
+                        <TableCell>{movement.userName}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-16 text-center">
+                        No movements recorded.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { ChevronRight } from "lucide-react";
+import { ExpiryBadge } from "@/components/expiry-badge";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface StockBreakdownDialogProps {
+  skuId: Id<"product_variants"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Drill-down of a SKU's stock: branch → zone → batch.
+ */
+export function StockBreakdownDialog({
+  skuId,
+  open,
+  onOpenChange,
+}: StockBreakdownDialogProps) {
+  const { data: breakdown, isPending } = useQuery({
+    ...convexQuery(api.stock.getStockBreakdown, {
+      skuId: skuId as Id<"product_variants">,
+    }),
+    enabled: !!skuId && open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{breakdown?.skuCode ?? "Stock breakdown"}</DialogTitle>
+          <DialogDescription>{breakdown?.productName}</DialogDescription>
+        </DialogHeader>
+
+        {isPending ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Loading stock...
+          </div>
+        ) : !breakdown?.branches.length ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No stock in any branch.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {breakdown.branches.map((branch) => (
+              <Collapsible
+                key={branch.branchId}
+                defaultOpen={breakdown.branches.length === 1}
+                className="rounded-md border"
+              >
+                <CollapsibleTrigger className="group flex w-full items-center gap-2 p-3 text-left">
+                  <ChevronRight className="size-4 transition-transform group-data-[state=open]:rotate-90" />
+                  <span className="flex-1 font-medium">
+                    {branch.branchName}
+                  </span>
+                  <span className="text-muted-foreground text-sm">
+                    On hand {branch.onHand} · Held {branch.held} · Reserved{" "}
+                    {branch.reserved} · Available {branch.available} · In
+                    transit {branch.inTransit}
+                  </span>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Zone / Batch</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead className="text-center">Status</TableHead>
+                        <TableHead className="text-right">On hand</TableHead>
+                        <TableHead className="text-right">Held</TableHead>
+                        <TableHead className="text-right">Reserved</TableHead>
+                        <TableHead className="text-right">Available</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {branch.zones.flatMap((zone) => [
+                        <TableRow key={zone.zoneId} className="bg-muted/40">
+                          <TableCell className="font-medium">
+                            {zone.zoneName}{" "}
+                            <span className="text-muted-foreground text-xs">
+                              {zone.path}
+                            </span>
+                          </TableCell>
+                          <TableCell />
+                          <TableCell />
+                          <TableCell className="text-right font-medium">
+                            {zone.onHand}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {zone.held}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {zone.reserved}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {zone.available}
+                          </TableCell>
+                        </TableRow>,
+                        ...zone.batches.map((batch) => (
+                          <TableRow key={batch._id}>
+                            <TableCell className="pl-8">
+                              {batch.internalBatchNumber ?? "-"}
+                              {batch.supplierBatchNumber && (
+                                <span className="text-muted-foreground text-xs">
+                                  {" "}
+                                  ({batch.supplierBatchNumber})
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <ExpiryBadge expiresAt={batch.expiresAt} />
+                            </TableCell>
+                            <TableCell className="text-center">
+                              <Badge variant={"outline"} className="rounded-sm">
+                                {batch.statusName}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {batch.quantity}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {batch.held}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {batch.reserved}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {batch.available}
+                            </TableCell>
+                          </TableRow>
+                        )),
+                      ])}
+                      {branch.zones.length === 0 && (
+                        <TableRow>
+                          <TableCell
+                            colSpan={7}
+                            className="h-12 text-center text-muted-foreground"
+                          >
+                            Only in-transit stock for this branch.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import type { StorageZone } from "@/lib/types";
+
+export const STORAGE_BLOCK_TYPES = [
+  "FLOOR",
+  "RACK",
+  "SECURE_RACK",
+  "FLOW_RACK",
+  "SHELF",
+  "BIN",
+  "COLD_ROOM",
+];
+
+interface StorageZoneDialogProps {
+  branchId: Id<"branches">;
+  /** Zone to edit; null creates a new zone under parentPath */
+  zone: StorageZone | null;
+  parentPath?: string;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Create a storage zone or edit its name, type, block type and attributes.
+ */
+export function StorageZoneDialog({
+  branchId,
+  zone,
+  parentPath,
+  open,
+  onOpenChange,
+}: StorageZoneDialogProps) {
+  const [name, setName] = React.useState("");
+  const [zoneTypeId, setZoneTypeId] = React.useState("");
+  const [storageBlockType, setStorageBlockType] = React.useState("RACK");
+  const [attributes, setAttributes] = React.useState("");
+
+  const { data: zoneTypes } = useQuery({
+    ...convexQuery(api.storageZones.listZoneTypes, {}),
+    enabled: open,
+  });
+
+  const { mutate: createZone, isPending: isCreating } = useMutation({
+    mutationFn: useConvexMutation(api.storageZones.createZone),
+  });
+  const { mutate: updateZone, isPending: isUpdating } = useMutation({
+    mutationFn: useConvexMutation(api.storageZones.updateZone),
+  });
+
+  React.useEffect(() => {
+    if (!open) return;
+    setName(zone?.name ?? "");
+    setZoneTypeId(zone?.zoneTypeId ?? "");
+    setStorageBlockType(zone?.storageBlockType ?? "RACK");
+    setAttributes(
+      zone?.zoneAttributes ? JSON.stringify(zone.zoneAttributes, null, 2) : "",
+    );
+  }, [open, zone]);
+
+  const handleSave = () => {
+    if (!name.trim() || !zoneTypeId) {
+      toast.error("Enter a name and choose a zone type");
+      return;
+    }
+
+    let zoneAttributes: Record<string, unknown> | undefined;
+    if (attributes.trim()) {
+      try {
+        zoneAttributes = JSON.parse(attributes);
+      } catch {
+        toast.error("Attributes must be valid JSON");
+        return;
+      }
+    }
+
+    const callbacks = {
+      onSuccess: () => {
+        toast.success(zone ? "Zone updated" : "Zone created");
+        onOpenChange?.(false);
+      },
+      onError: (error: Error) => {
+        toast.error(error.message || "Failed to save zone");
+      },
+    };
+
+    if (zone) {
+      updateZone(
+        {
+          zoneId: zone._id,
+          name,
+          zoneTypeId: zoneTypeId as Id<"system_lookups">,
+          storageBlockType,
+          zoneAttributes: zoneAttributes ?? {},
+        },
+        callbacks,
+      );
+    } else {
+      createZone(
+        {
+          branchId,
+          name,
+          parentPath,
+          zoneTypeId: zoneTypeId as Id<"system_lookups">,
+          storageBlockType,
+          zoneAttributes,
+        },
+        callbacks,
+      );
+    }
+  };
+
+  const isPending = isCreating || isUpdating;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{zone ? `Edit ${zone.name}` : "New zone"}</DialogTitle>
+          <DialogDescription>
+            {zone
+              ? zone.path
+              : parentPath
+                ? `Under ${parentPath}`
+                : "At the top level of the branch"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="zone-name">Name</Label>
+            <Input
+              id="zone-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Aisle 03"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Zone type</Label>
+              <Select value={zoneTypeId} onValueChange={setZoneTypeId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Zone type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {zoneTypes?.map((zoneType) => (
+                    <SelectItem key={zoneType._id} value={zoneType._id}>
+                      {zoneType.lookupValue}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Storage block</Label>
+              <Select
+                value={storageBlockType}
+                onValueChange={setStorageBlockType}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...STORAGE_BLOCK_TYPES, storageBlockType])].map(
+                    (blockType) => (
+                      <SelectItem key={blockType} value={blockType}>
+                        {blockType}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="zone-attributes">Attributes (JSON)</Label>
+            <Textarea
+              id="zone-attributes"
+              className="font-mono text-xs"
+              rows={6}
+              value={attributes}
+              onChange={(event) => setAttributes(event.target.value)}
+              placeholder={
+                '{ "capacity": 100, "temperatureControlled": false }'
+              }
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending && <Spinner />}
+            {zone ? "Save" : "Create zone"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { useMemo } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+
+interface SupplierScorecardDialogProps {
+  supplierId: Id<"suppliers"> | null;
+  startDate: number;
+  endDate: number;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const leadTimeConfig: ChartConfig = {
+  avgPromisedLeadTimeDays: {
+    label: "Promised (days)",
+    color: "var(--chart-3)",
+  },
+  avgActualLeadTimeDays: {
+    label: "Actual (days)",
+    color: "var(--chart-1)",
+  },
+};
+
+const rateConfig: ChartConfig = {
+  onTimeRate: {
+    label: "On time %",
+    color: "var(--chart-2)",
+  },
+  fillRate: {
+    label: "Fill rate %",
+    color: "var(--chart-4)",
+  },
+  returnRate: {
+    label: "Return rate %",
+    color: "var(--chart-5)",
+  },
+};
+
+const formatPeriod = (timestamp: number, period: "WEEK" | "MONTH") =>
+  new Intl.DateTimeFormat(
+    "en-US",
+    period === "MONTH"
+      ? { month: "short", year: "2-digit" }
+      : { month: "2-digit", day: "2-digit" },
+  ).format(new Date(timestamp));
+
+const formatValue = (value: number | null, suffix = "") =>
+  value === null ? "-" : `${value}${suffix}`;
+
+/**
+ * KPIs and weekly or monthly trends of one supplier over a date range,
+ * with the option to adopt the measured lead time
+ */
+export function SupplierScorecardDialog({
+  supplierId,
+  startDate,
+  endDate,
+  open,
+  onOpenChange,
+}: SupplierScorecardDialogProps) {
+  const { data, isPending } = useQuery({
+    ...convexQuery(api.suppliers.getScorecard, {
+      id: supplierId as Id<"suppliers">,
+      startDate,
+      endDate,
+    }),
+    enabled: open && !!supplierId,
+  });
+
+  const { mutate: updateSupplier, isPending: isUpdating } = useMutation({
+    mutationFn: useConvexMutation(api.suppliers.update),
+  });
+
+  const chartData = useMemo(
+    () =>
+      (data?.trend ?? []).map((point) => ({
+        ...point,
+        label: formatPeriod(point.periodStart, data?.period ?? "WEEK"),
+      })),
+    [data],
+  );
+
+  const handleApplyLeadTime = () => {
+    if (!data || data.summary.suggestedLeadTimeDays === null) return;
+    updateSupplier(
+      {
+        id: data.supplierId,
+        defaultLeadTimeDays: data.summary.suggestedLeadTimeDays,
+      },
+      {
+        onSuccess: () =>
+          toast.success(
+            `Default lead time set to ${data.summary.suggestedLeadTimeDays} days`,
+          ),
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const summary = data?.summary;
+  const kpis = summary
+    ? [
+        { label: "Orders", value: `${summary.orderCount}` },
+        {
+          label: "Lead time (promised / actual)",
+          value: `${formatValue(summary.avgPromisedLeadTimeDays)} / ${formatValue(summary.avgActualLeadTimeDays)} days`,
+        },
+        { label: "On time", value: formatValue(summary.onTimeRate, "%") },
+        { label: "Fill rate", value: formatValue(summary.fillRate, "%") },
+        { label: "Return rate", value: formatValue(summary.returnRate, "%") },
+        {
+          label: "Return value",
+          value: summary.returnValue.toLocaleString(),
+        },
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{data?.name ?? "Supplier scorecard"}</DialogTitle>
+          <DialogDescription>
+            Orders placed from {new Date(startDate).toLocaleDateString()} to{" "}
+            {new Date(endDate).toLocaleDateString()}, trended by{" "}
+            {data?.period === "MONTH" ? "month" : "week"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending || !data || !summary ? (
+          <div className="flex h-64 items-center justify-center">
+            <Spinner />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+              {kpis.map((kpi) => (
+                <div key={kpi.label} className="rounded-md border p-3">
+                  <div className="text-muted-foreground text-xs">
+                    {kpi.label}
+                  </div>
+                  <div className="font-semibold text-lg">{kpi.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+              <div>
+                Default lead time{" "}
+                <span className="font-medium">
+                  {summary.defaultLeadTimeDays} days
+                </span>
+                {summary.suggestedLeadTimeDays !== null && (
+                  <>
+                    {" "}
+                    · suggested{" "}
+                    <span className="font-medium">
+                      {summary.suggestedLeadTimeDays} days
+                    </span>{" "}
+                    <span className="text-muted-foreground">
+                      (median of {summary.receivedOrderCount} received order(s))
+                    </span>
+                  </>
+                )}
+              </div>
+              <Button
+                size="sm"
+                onClick={handleApplyLeadTime}
+                disabled={
+                  isUpdating ||
+                  summary.suggestedLeadTimeDays === null ||
+                  summary.suggestedLeadTimeDays === summary.defaultLeadTimeDays
+                }
+              >
+                {isUpdating && <Spinner />}
+                Apply suggestion
+              </Button>
+            </div>
+
+            {chartData.length === 0 ? (
+              <div className="flex h-24 items-center justify-center text-muted-foreground text-sm">
+                No orders or returns in this range.
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <div className="font-medium text-sm">Lead time</div>
+                  <ChartContainer config={leadTimeConfig} className="h-56">
+                    <LineChart data={chartData}>
+                      <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="label"
+                        tickLine={false}
+                        axisLine={false}
+                        fontSize={10}
+                      />
+                      <YAxis tickLine={false} axisLine={false} width={28} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line
+                        dataKey="avgPromisedLeadTimeDays"
+                        stroke="var(--color-avgPromisedLeadTimeDays)"
+                        strokeDasharray="4 4"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                      <Line
+                        dataKey="avgActualLeadTimeDays"
+                        stroke="var(--color-avgActualLeadTimeDays)"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+                <div className="space-y-2">
+                  <div className="font-medium text-sm">Rates</div>
+                  <ChartContainer config={rateConfig} className="h-56">
+                    <LineChart data={chartData}>
+                      <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="label"
+                        tickLine={false}
+                        axisLine={false}
+                        fontSize={10}
+                      />
+                      <YAxis
+                        tickLine={false}
+                        axisLine={false}
+                        width={28}
+                        domain={[0, 100]}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line
+                        dataKey="onTimeRate"
+                        stroke="var(--color-onTimeRate)"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                      <Line
+                        dataKey="fillRate"
+                        stroke="var(--color-fillRate)"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                      <Line
+                        dataKey="returnRate"
+                        stroke="var(--color-returnRate)"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  type SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Filter,
+  MoreHorizontal,
+} from "lucide-react";
+import * as React from "react";
+import { BranchSelect } from "@/components/branch-select";
+import { CreateCustomerReturnDialog } from "@/components/create-customer-return-dialog";
+import { CustomerReturnDetailDialog } from "@/components/customer-return-detail-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { CustomerReturnListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "authorized":
+      return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
+    case "receiving":
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+    case "completed":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "cancelled":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const STATUS_FILTER_OPTIONS = [
+  { label: "All statuses", value: "all" },
+  { label: "Authorized", value: "AUTHORIZED" },
+  { label: "Receiving", value: "RECEIVING" },
+  { label: "Completed", value: "COMPLETED" },
+  { label: "Cancelled", value: "CANCELLED" },
+];
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+export function CustomerReturnsTable() {
+  const branchId = useBranchStore((state) => state.branchId);
+  const [selectedId, setSelectedId] =
+    React.useState<Id<"customer_returns"> | null>(null);
+
+  const { data: customerReturns, isPending } = useQuery({
+    ...convexQuery(api.customerReturns.listCustomerReturns, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  const columns: ColumnDef<CustomerReturnListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "rmaCode",
+        header: "RMA",
+        cell: ({ row }) => (
+          <div className="font-medium">{row.getValue("rmaCode")}</div>
+        ),
+      },
+      {
+        accessorKey: "orderCode",
+        header: "Order",
+        cell: ({ row }) => <div>{row.original.orderCode}</div>,
+      },
+      {
+        accessorKey: "customerName",
+        header: "Customer",
+        cell: ({ row }) => <div>{row.original.customerName ?? "-"}</div>,
+      },
+      {
+        id: "progress",
+        header: "Received / Inspected",
+        cell: ({ row }) => (
+          <div className="text-center">
+            {row.original.totalReceived} / {row.original.totalInspected} of{" "}
+            {row.original.totalAuthorized}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "authorizedAt",
+        header: "Authorized",
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatDate(row.original.authorizedAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "completedAt",
+        header: "Closed",
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatDate(row.original.completedAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "statusCode",
+        header: () => <div className="text-center">Status</div>,
+        filterFn: (row, id, value) =>
+          !value || value === "all" || row.getValue(id) === value,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-24 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusName),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const customerReturn = row.original;
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() =>
+                    navigator.clipboard.writeText(customerReturn.rmaCode)
+                  }
+                >
+                  Copy RMA
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setSelectedId(customerReturn._id)}
+                >
+                  {customerReturn.statusCode === "AUTHORIZED" ||
+                  customerReturn.statusCode === "RECEIVING"
+                    ? "Receive & inspect"
+                    : "View details"}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [],
+  );
+
+  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: (customerReturns ?? []) as CustomerReturnListItem[],
+    columns,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      sorting,
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("rmaCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[200px]">
+            <InputGroupInput
+              placeholder="Filter RMA..."
+              value={instantFilterValue}
+              onChange={(event) => setFilterValue(event.target.value)}
+            />
+            <InputGroupAddon>
+              <Filter />
+            </InputGroupAddon>
+          </InputGroup>
+          <Select
+            value={
+              (table.getColumn("statusCode")?.getFilterValue() as string) ??
+              "all"
+            }
+            onValueChange={(value) =>
+              table.getColumn("statusCode")?.setFilterValue(value)
+            }
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <BranchSelect />
+          <CreateCustomerReturnDialog />
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {isPending && branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading returns...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedId(row.original._id)}
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell
+                      key={cell.id}
+                      onClick={(e) =>
+                        cell.column.id === "actions" && e.stopPropagation()
+                      }
+                    >
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No customer returns found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} return(s)
+        </div>
+        <div className="space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.firstPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronsLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronRight />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.lastPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronsRight />
+          </Button>
+        </div>
+      </div>
+
+      <CustomerReturnDetailDialog
+        customerReturnId={selectedId}
+        open={!!selectedId}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
 import {
   type ColumnDef,
   type ColumnFiltersState,
@@ -12,6 +14,8 @@ import {
   useReactTable,
   type VisibilityState,
 } from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
 import {
   ArrowUpDown,
   Check,
@@ -69,7 +73,7 @@ import {
 import { useDebouncedInput } from "@/hooks/use-debounced-input";
 import type { CycleCountSessionListItem } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { MOCK_CYCLE_COUNT_SESSIONS } from "@/mock/data/cycle-count";
+import { useBranchStore } from "@/store/branch";
 
 const getBadgeStyleByStatus = (status: string) => {
   switch (status.toLowerCase()) {
@@ -227,25 +231,27 @@ const FilterPopover = ({
 };
 
 export function CycleCountSessionsTable() {
-  // Using mock data instead of Convex
-  const cycleCountSessions = MOCK_CYCLE_COUNT_SESSIONS;
-  const isPending = false;
+  const branchId = useBranchStore((state) => state.branchId);
+
+  const { data: cycleCountSessions, isPending } = useQuery({
+    ...convexQuery(api.cycleCount.listCycleCountSessions, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
 
   // Detail dialog state
   const [detailDialogOpen, setDetailDialogOpen] = React.useState(false);
-  const [selectedSessionId, setSelectedSessionId] = React.useState<
-    string | null
-  >(null);
+  const [selectedSessionId, setSelectedSessionId] =
+    React.useState<Id<"work_sessions"> | null>(null);
 
-  const _handleViewDetails = (sessionId: string) => {
-    setSelectedSessionId(sessionId);
-    setDetailDialogOpen(true);
-  };
-
-  const handleViewDetailsCallback = React.useCallback((sessionId: string) => {
-    setSelectedSessionId(sessionId);
-    setDetailDialogOpen(true);
-  }, []);
+  const handleViewDetailsCallback = React.useCallback(
+    (sessionId: Id<"work_sessions">) => {
+      setSelectedSessionId(sessionId);
+      setDetailDialogOpen(true);
+    },
+    [],
+  );
 
   const columns: ColumnDef<CycleCountSessionListItem>[] = React.useMemo(
     () => [
@@ -279,9 +285,7 @@ export function CycleCountSessionsTable() {
         cell: ({ row }) => (
           <button
             type="button"
-            onClick={() =>
-              handleViewDetailsCallback(row.original._id.toString())
-            }
+            onClick={() => handleViewDetailsCallback(row.original._id)}
             className="font-medium text-primary hover:underline"
           >
             {row.getValue("sessionCode")}
@@ -394,13 +398,11 @@ export function CycleCountSessionsTable() {
         },
       },
       {
-        id: "createdByUser.fullName",
-        accessorFn: (row) => row.createdByUser?.fullName,
-        header: "Created By",
+        id: "assignedUser.fullName",
+        accessorFn: (row) => row.assignedUser?.fullName,
+        header: "Assigned To",
         cell: ({ row }) => (
-          <div className="">
-            {row.getValue("createdByUser.fullName") ?? "-"}
-          </div>
+          <div className="">{row.getValue("assignedUser.fullName") ?? "-"}</div>
         ),
       },
       {
@@ -427,9 +429,7 @@ export function CycleCountSessionsTable() {
                   </DropdownMenuItem>
                 ) : null}
                 <DropdownMenuItem
-                  onClick={() =>
-                    handleViewDetailsCallback(session._id.toString())
-                  }
+                  onClick={() => handleViewDetailsCallback(session._id)}
                 >
                   <Eye className="mr-2 h-4 w-4" />
                   View Details
@@ -491,7 +491,7 @@ export function CycleCountSessionsTable() {
     setFilterValue("");
   };
 
-  if (isPending) {
+  if (isPending && branchId) {
     return (
       <div className="w-full space-y-4">
         <div className="flex flex-row justify-between pb-4">
@@ -0,0 +1,235 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { MoreHorizontal, RefreshCw } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { ForecastChartDialog } from "@/components/forecast-chart-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+type PeriodType = "DAILY" | "WEEKLY";
+
+const formatDate = (timestamp?: number | null) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+/**
+ * Badge color by MAPE: under 20% is good, under 50% is usable
+ */
+const getBadgeStyleByMape = (mape: number | null) => {
+  if (mape === null) return "bg-muted text-muted-foreground";
+  if (mape < 20) return "bg-emerald-500/10 text-emerald-600";
+  if (mape < 50) return "bg-amber-500/10 text-amber-600";
+  return "bg-red-500/10 text-red-600";
+};
+
+const formatMape = (mape: number | null) => (mape === null ? "-" : `${mape}%`);
+
+/**
+ * Demand forecasts per SKU with the chosen method, backtest MAPE and the
+ * realized MAPE of past forecasts
+ */
+export function ForecastTable() {
+  const { organizationId } = useCurrentUser();
+  const [periodType, setPeriodType] = React.useState<PeriodType>("DAILY");
+  const [chartSkuId, setChartSkuId] =
+    React.useState<Id<"product_variants"> | null>(null);
+
+  const { data, isPending } = useQuery({
+    ...convexQuery(api.forecasting.getForecastAccuracy, {
+      organizationId: organizationId as Id<"organizations">,
+      periodType,
+    }),
+    enabled: !!organizationId,
+  });
+
+  const { mutate: runForecast, isPending: isRunning } = useMutation({
+    mutationFn: useConvexMutation(api.forecasting.runDemandForecast),
+  });
+
+  const handleRun = () => {
+    if (!organizationId) return;
+    runForecast(
+      { organizationId, periodType },
+      {
+        onSuccess: (result) =>
+          toast.success(
+            `Forecasted ${result.forecasted} SKU(s); ${result.skipped} skipped for short history`,
+          ),
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const periodLabel = periodType === "DAILY" ? "day" : "week";
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row items-center justify-between pb-4">
+        <Tabs
+          value={periodType}
+          onValueChange={(value) => setPeriodType(value as PeriodType)}
+        >
+          <TabsList>
+            <TabsTrigger value="DAILY">Daily</TabsTrigger>
+            <TabsTrigger value="WEEKLY">Weekly</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button
+          variant="outline"
+          onClick={handleRun}
+          disabled={!organizationId || isRunning}
+        >
+          {isRunning ? <Spinner /> : <RefreshCw />}
+          Run forecast
+        </Button>
+      </div>
+
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            <TableRow>
+              <TableHead>SKU</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead className="text-right">Next {periodLabel}</TableHead>
+              <TableHead className="text-right">Interval</TableHead>
+              <TableHead className="text-right">Horizon total</TableHead>
+              <TableHead>Backtest MAPE</TableHead>
+              <TableHead>Realized MAPE</TableHead>
+              <TableHead>Generated</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isPending ? (
+              <TableRow>
+                <TableCell colSpan={9} className="h-24 text-center">
+                  Loading forecasts...
+                </TableCell>
+              </TableRow>
+            ) : data?.length ? (
+              data.map((row) => (
+                <TableRow
+                  key={row.skuId}
+                  className="cursor-pointer"
+                  onClick={() => setChartSkuId(row.skuId)}
+                >
+                  <TableCell>
+                    <div className="font-medium">{row.skuCode}</div>
+                    <div className="text-muted-foreground text-xs">
+                      {row.productName}
+                    </div>
+                  </TableCell>
+                  <TableCell>{row.method ?? "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {row.nextForecast ?? "-"}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {row.nextLower !== null && row.nextUpper !== null
+                      ? `${row.nextLower} – ${row.nextUpper}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.horizonTotal}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={"outline"}
+                      className={`rounded-sm ${getBadgeStyleByMape(row.backtestMape)}`}
+                    >
+                      {formatMape(row.backtestMape)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={"outline"}
+                      className={`rounded-sm ${getBadgeStyleByMape(row.realizedMape)}`}
+                    >
+                      {formatMape(row.realizedMape)}
+                    </Badge>
+                    {row.realizedPeriods > 0 && (
+                      <span className="ml-2 text-muted-foreground text-xs">
+                        {row.realizedPeriods} {periodLabel}(s)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatDate(row.generatedAt)}</TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size={"icon-sm"}>
+                          <span className="sr-only">Open menu</span>
+                          <MoreHorizontal />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                        <DropdownMenuItem
+                          onClick={() =>
+                            navigator.clipboard.writeText(row.skuCode)
+                          }
+                        >
+                          Copy SKU
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setChartSkuId(row.skuId)}
+                        >
+                          Forecast vs actual
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={9} className="h-24 text-center">
+                  No forecasts yet. SKUs need picks or transfers over more than
+                  one holdout window.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <ForecastChartDialog
+        skuId={chartSkuId}
+        periodType={periodType}
+        open={!!chartSkuId}
+        onOpenChange={(open) => !open && setChartSkuId(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  type SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { usePaginatedQuery } from "convex/react";
+import { Filter, MoreHorizontal } from "lucide-react";
+import * as React from "react";
+import { BranchSelect } from "@/components/branch-select";
+import { ExpiryBadge } from "@/components/expiry-badge";
+import { PlaceHoldDialog } from "@/components/place-hold-dialog";
+import {
+  type LabelRequest,
+  PrintLabelsDialog,
+} from "@/components/print-labels-dialog";
+import { ProductFilterSelects } from "@/components/product-filter-selects";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { InventoryBatchListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const PAGE_SIZE = 50;
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "active":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "reserved":
+      return "bg-blue-500/5 text-blue-500 border-blue-500/60";
+    case "quarantine":
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+    case "expired":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+export function InventoryBatchesTable() {
+  const { organizationId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [zoneId, setZoneId] = React.useState<Id<"storage_zones">>();
+  const [categoryId, setCategoryId] = React.useState<Id<"categories">>();
+  const [brandId, setBrandId] = React.useState<Id<"brands">>();
+  const [holdBatch, setHoldBatch] =
+    React.useState<InventoryBatchListItem | null>(null);
+  const [labelRequest, setLabelRequest] = React.useState<LabelRequest | null>(
+    null,
+  );
+
+  const { data: zones } = useQuery({
+    ...convexQuery(api.storageZones.listByBranch, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  // Zones belong to a branch; drop the zone filter when the branch changes
+  React.useEffect(() => {
+    if (branchId) setZoneId(undefined);
+  }, [branchId]);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.stock.getPaginatedBatches,
+    organizationId && branchId
+      ? {
+          organizationId: organizationId as Id<"organizations">,
+          branchId,
+          zoneId,
+          categoryId,
+          brandId,
+        }
+      : "skip",
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  const columns: ColumnDef<InventoryBatchListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "internalBatchNumber",
+        header: "Batch",
+        cell: ({ row }) => (
+          <div className="font-medium">
+            {row.original.internalBatchNumber ?? "-"}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "supplierBatchNumber",
+        header: "Supplier batch",
+        cell: ({ row }) => <div>{row.original.supplierBatchNumber ?? "-"}</div>,
+      },
+      {
+        accessorKey: "skuCode",
+        header: "SKU",
+        filterFn: (row, _id, value: string) => {
+          const search = value.toLowerCase();
+          return [
+            row.original.skuCode,
+            row.original.internalBatchNumber,
+            row.original.supplierBatchNumber,
+          ].some((field) => field?.toLowerCase().includes(search));
+        },
+      },
+      {
+        accessorKey: "productName",
+        header: "Product",
+      },
+      {
+        accessorKey: "zoneName",
+        header: "Zone",
+        cell: ({ row }) => (
+          <div>
+            {row.original.zoneName}
+            <div className="text-muted-foreground text-xs">
+              {row.original.zonePath}
+            </div>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "quantity",
+        header: () => <div className="text-right">Quantity</div>,
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.quantity}</div>
+        ),
+      },
+      {
+        accessorKey: "reserved",
+        header: () => <div className="text-right">Reserved</div>,
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.reserved}</div>
+        ),
+      },
+      {
+        accessorKey: "available",
+        header: () => <div className="text-right">Available</div>,
+        cell: ({ row }) => (
+          <div className="text-right font-medium">{row.original.available}</div>
+        ),
+      },
+      {
+        accessorKey: "receivedAt",
+        header: () => <div className="text-right">Received</div>,
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatDate(row.original.receivedAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "expiresAt",
+        header: "Expires",
+        cell: ({ row }) => <ExpiryBadge expiresAt={row.original.expiresAt} />,
+      },
+      {
+        accessorKey: "statusCode",
+        header: () => <div className="text-center">Status</div>,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-24 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusName),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const batch = row.original;
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() =>
+                    navigator.clipboard.writeText(
+                      batch.internalBatchNumber ?? batch._id,
+                    )
+                  }
+                >
+                  Copy batch number
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setLabelRequest({ batchIds: [batch._id] })}
+                >
+                  Print label
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  disabled={batch.statusCode === "QUARANTINE"}
+                  onClick={() => setHoldBatch(batch)}
+                >
+                  Place on hold
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [],
+  );
+
+  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: results,
+    columns,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      sorting,
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("skuCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[220px]">
+            <InputGroupInput
+              placeholder="Filter SKU or batch..."
+              value={instantFilterValue}
+              onChange={(event) => setFilterValue(event.target.value)}
+            />
+            <InputGroupAddon>
+              <Filter />
+            </InputGroupAddon>
+          </InputGroup>
+          <Select
+            value={zoneId ?? "all"}
+            onValueChange={(value) =>
+              setZoneId(
+                value === "all" ? undefined : (value as Id<"storage_zones">),
+              )
+            }
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Zone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All zones</SelectItem>
+              {zones?.map((zone) => (
+                <SelectItem key={zone._id} value={zone._id}>
+                  {zone.name} ({zone.path})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ProductFilterSelects
+            categoryId={categoryId}
+            brandId={brandId}
+            onCategoryChange={setCategoryId}
+            onBrandChange={setBrandId}
+          />
+        </div>
+        <BranchSelect />
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {status === "LoadingFirstPage" && branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading batches...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No batches found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} batch(es) loaded
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => loadMore(PAGE_SIZE)}
+          disabled={status !== "CanLoadMore"}
+        >
+          {status === "Exhausted" ? "All loaded" : "Load more"}
+        </Button>
+      </div>
+
+      <PlaceHoldDialog
+        batch={holdBatch}
+        open={!!holdBatch}
+        onOpenChange={(open) => !open && setHoldBatch(null)}
+      />
+      <PrintLabelsDialog
+        request={labelRequest}
+        open={!!labelRequest}
+        onOpenChange={(open) => !open && setLabelRequest(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,524 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  type SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Filter,
+  MoreHorizontal,
+} from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BranchSelect } from "@/components/branch-select";
+import { CreateOutboundOrderDialog } from "@/components/create-outbound-order-dialog";
+import {
+  type LabelRequest,
+  PrintLabelsDialog,
+} from "@/components/print-labels-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { OutboundOrderListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "pending":
+      return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
+    case "processing":
+    case "picked":
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+    case "packed":
+      return "bg-blue-500/5 text-blue-500 border-blue-500/60";
+    case "shipped":
+    case "delivered":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "cancelled":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const STATUS_FILTER_OPTIONS = [
+  { label: "All statuses", value: "all" },
+  { label: "Pending", value: "PENDING" },
+  { label: "Processing", value: "PROCESSING" },
+  { label: "Picked", value: "PICKED" },
+  { label: "Packed", value: "PACKED" },
+  { label: "Shipped", value: "SHIPPED" },
+  { label: "Cancelled", value: "CANCELLED" },
+];
+
+const handleResult = (successMessage: string) => ({
+  onSuccess: () => toast.success(successMessage),
+  onError: (error: Error) => toast.error(error.message),
+});
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+export function OutboundOrdersTable() {
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [shipOrder, setShipOrder] =
+    React.useState<OutboundOrderListItem | null>(null);
+  const [trackingNumber, setTrackingNumber] = React.useState("");
+  const [labelRequest, setLabelRequest] = React.useState<LabelRequest | null>(
+    null,
+  );
+
+  const { data: orders, isPending } = useQuery({
+    ...convexQuery(api.outboundOrders.listOutboundOrders, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  const { mutate: allocateOrder } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.allocateOutboundOrder),
+  });
+  const { mutate: packOrder } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.packOutboundOrder),
+  });
+  const { mutate: shipOrderMutation, isPending: isShipping } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.shipOutboundOrder),
+  });
+  const { mutate: cancelOrder } = useMutation({
+    mutationFn: useConvexMutation(api.outboundOrders.cancelOutboundOrder),
+  });
+
+  const handleShip = () => {
+    if (!shipOrder) return;
+    shipOrderMutation(
+      { outboundOrderId: shipOrder._id, trackingNumber },
+      {
+        onSuccess: () => {
+          toast.success(`Order ${shipOrder.orderCode} shipped`);
+          setShipOrder(null);
+          setTrackingNumber("");
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const columns: ColumnDef<OutboundOrderListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "orderCode",
+        header: "Order ID",
+        cell: ({ row }) => (
+          <div className="font-medium">{row.getValue("orderCode")}</div>
+        ),
+      },
+      {
+        accessorKey: "customerName",
+        header: "Customer",
+        cell: ({ row }) => <div>{row.original.customerName ?? "-"}</div>,
+      },
+      {
+        accessorKey: "totalLines",
+        header: "Lines",
+        cell: ({ row }) => (
+          <div className="text-center">{row.getValue("totalLines")}</div>
+        ),
+      },
+      {
+        id: "progress",
+        header: "Picked / Packed",
+        cell: ({ row }) => (
+          <div className="text-center">
+            {row.original.totalPicked} / {row.original.totalPacked} of{" "}
+            {row.original.totalRequested}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "orderDate",
+        header: "Order date",
+        cell: ({ row }) => (
+          <div className="text-right">{formatDate(row.original.orderDate)}</div>
+        ),
+      },
+      {
+        accessorKey: "requestedShipDate",
+        header: "Ship by",
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatDate(row.original.requestedShipDate)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "trackingNumber",
+        header: "Tracking",
+        cell: ({ row }) => <div>{row.original.trackingNumber ?? "-"}</div>,
+      },
+      {
+        accessorKey: "statusCode",
+        header: () => <div className="text-center">Status</div>,
+        filterFn: (row, id, value) =>
+          !value || value === "all" || row.getValue(id) === value,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-24 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusName),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const order = row.original;
+          const status = order.statusCode;
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() => navigator.clipboard.writeText(order.orderCode)}
+                >
+                  Copy Order ID
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  disabled={status !== "PENDING" || !userId}
+                  onClick={() =>
+                    userId &&
+                    allocateOrder(
+                      { outboundOrderId: order._id, assignedUserId: userId },
+                      handleResult(
+                        `Picking session created for ${order.orderCode}`,
+                      ),
+                    )
+                  }
+                >
+                  Allocate & release for picking
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={status !== "PICKED" && status !== "PROCESSING"}
+                  onClick={() =>
+                    packOrder(
+                      { outboundOrderId: order._id },
+                      handleResult(`Order ${order.orderCode} packed`),
+                    )
+                  }
+                >
+                  Pack picked items
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={status !== "PACKED"}
+                  onClick={() => setShipOrder(order)}
+                >
+                  Ship
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={status === "CANCELLED"}
+                  onClick={() =>
+                    setLabelRequest({ outboundOrderId: order._id })
+                  }
+                >
+                  Print carton labels
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  className="text-destructive"
+                  disabled={status !== "PENDING" && status !== "PROCESSING"}
+                  onClick={() =>
+                    cancelOrder(
+                      { outboundOrderId: order._id },
+                      handleResult(`Order ${order.orderCode} cancelled`),
+                    )
+                  }
+                >
+                  Cancel order
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [userId, allocateOrder, packOrder, cancelOrder],
+  );
+
+  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: orders ?? [],
+    columns,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      sorting,
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("orderCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[200px]">
+            <InputGroupInput
+              placeholder="Filter Order ID..."
+              value={instantFilterValue}
+              onChange={(event) => setFilterValue(event.target.value)}
+            />
+            <InputGroupAddon>
+              <Filter />
+            </InputGroupAddon>
+          </InputGroup>
+          <Select
+            value={
+              (table.getColumn("statusCode")?.getFilterValue() as string) ??
+              "all"
+            }
+            onValueChange={(value) =>
+              table.getColumn("statusCode")?.setFilterValue(value)
+            }
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <BranchSelect />
+          <CreateOutboundOrderDialog />
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {isPending && branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading orders...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No outbound orders found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} order(s)
+        </div>
+        <div className="space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.firstPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronsLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronRight />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.lastPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronsRight />
+          </Button>
+        </div>
+      </div>
+
+      <Dialog
+        open={!!shipOrder}
+        onOpenChange={(open) => !open && setShipOrder(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ship {shipOrder?.orderCode}</DialogTitle>
+            <DialogDescription>
+              Enter the carrier tracking number for this shipment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="trackingNumber">Tracking number</Label>
+            <Input
+              id="trackingNumber"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShipOrder(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleShip}
+              disabled={!trackingNumber.trim() || isShipping}
+            >
+              Confirm shipment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <PrintLabelsDialog
+        request={labelRequest}
+        open={!!labelRequest}
+        onOpenChange={(open) => !open && setLabelRequest(null)}
+      />
+    </div>
+  );
+}
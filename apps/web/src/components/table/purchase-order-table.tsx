@@ -1,5 +1,7 @@
 "use client";
 
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   type ColumnDef,
   type ColumnFiltersState,
@@ -12,6 +14,8 @@ import {
   useReactTable,
   type VisibilityState,
 } from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
 import {
   ArrowUpDown,
   Check,
@@ -25,7 +29,10 @@ import {
   MoreHorizontal,
 } from "lucide-react";
 import * as React from "react";
-import { AddPurchaseOrderDialog } from "@/components/add-purchase-order-dialog";
+import { toast } from "sonner";
+import { BranchSelect } from "@/components/branch-select";
+import { PurchaseOrderDetailsDialog } from "@/components/purchase-order-details-dialog";
+import { PurchaseOrderDialog } from "@/components/purchase-order-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -36,6 +43,15 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
+import { CreateNewButton } from "@/components/ui/create-new-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
@@ -64,20 +80,28 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { useDebouncedInput } from "@/hooks/use-debounced-input";
 import type { PurchaseOrder } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { MOCK_PO } from "@/mock/data/purchase-orders";
+import { useBranchStore } from "@/store/branch";
 
 const getBadgeStyleByStatus = (status: string) => {
   switch (status.toLowerCase()) {
+    case "draft":
+      return "bg-muted text-muted-foreground";
     case "pending":
       return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
     case "approved":
       return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "sent":
+    case "partially_received":
+      return "bg-purple-500/5 text-purple-500 border-purple-500/60";
     case "received":
       return "bg-blue-500/5 text-blue-500 border-blue-500/60";
     case "cancelled":
+    case "closed_short":
       return "bg-gray-500/5 text-gray-500 border-gray-500/60";
     default:
       return "bg-orange-500/5 text-orange-500 border-orange-500/60";
@@ -223,232 +247,45 @@ const FilterPopover = ({
   );
 };
 
-export const columns: ColumnDef<PurchaseOrder>[] = [
-  {
-    id: "select",
-    header: ({ table }) => (
-      <Checkbox
-        checked={
-          table.getIsAllPageRowsSelected() ||
-          (table.getIsSomePageRowsSelected() && "indeterminate")
-        }
-        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
-        aria-label="Select all"
-      />
-    ),
-    cell: ({ row }) => (
-      <Checkbox
-        checked={row.getIsSelected()}
-        onCheckedChange={(value) => row.toggleSelected(!!value)}
-        aria-label="Select row"
-      />
-    ),
-    enableSorting: false,
-    enableHiding: false,
-  },
-  {
-    accessorKey: "code",
-    header: "PO-ID",
-    cell: ({ row }) => <div className="capitalize">{row.getValue("code")}</div>,
-  },
-  {
-    id: "supplier.name",
-    accessorFn: (row) => row.supplier?.name,
-    header: ({ column }) => {
-      const suppliers = Array.from(
-        new Set(MOCK_PO.map((po) => po.supplier?.name).filter(Boolean)),
-      ).map((name) => ({ label: name as string, value: name as string }));
-
-      const currentFilter = column.getFilterValue() as string[] | undefined;
-
-      return (
-        <FilterPopover
-          label="Supplier"
-          options={suppliers}
-          currentValue={currentFilter}
-          onChange={(value) => column.setFilterValue(value)}
-          variant="multi-select"
-        />
-      );
-    },
-    filterFn: (row, id, value) => {
-      if (!value || (Array.isArray(value) && value.length === 0)) return true;
-      const rowValue = row.getValue(id) as string;
-      return Array.isArray(value)
-        ? value.includes(rowValue)
-        : rowValue === value;
-    },
-    cell: ({ row }) => <div className="">{row.getValue("supplier.name")}</div>,
-  },
-  {
-    accessorKey: "orderedAt",
-    header: ({ column }) => {
-      const sortOptions = [
-        { label: "Default", value: "default" },
-        { label: "Ascending", value: "asc" },
-        { label: "Descending", value: "desc" },
-      ];
-
-      const currentSort = column.getIsSorted();
-      const currentValue = currentSort ? String(currentSort) : "default";
-
-      return (
-        <div className="flex items-center justify-end">
-          <FilterPopover
-            label="Ordered at"
-            options={sortOptions}
-            currentValue={currentValue}
-            onChange={(value) => {
-              if (value === "default" || !value) {
-                column.clearSorting();
-              } else {
-                column.toggleSorting(value === "desc", false);
-              }
-            }}
-            isSort
-          />
-        </div>
-      );
-    },
-    cell: ({ row }) => {
-      const timestamp = row.getValue("orderedAt") as number;
-      const formatted = new Intl.DateTimeFormat("en-US", {
-        year: "numeric",
-        month: "2-digit",
-        day: "2-digit",
-      }).format(new Date(timestamp));
+type PurchaseOrderAction = {
+  code: string;
+  label: string;
+  needsReason?: boolean;
+  reasonRequired?: boolean;
+};
 
-      return <div className="text-right font-medium">{formatted}</div>;
-    },
-  },
+const LIFECYCLE_ACTIONS: PurchaseOrderAction[] = [
+  { code: "SUBMIT", label: "Submit for approval" },
+  { code: "APPROVE", label: "Approve" },
+  { code: "REJECT", label: "Reject", needsReason: true, reasonRequired: true },
+  { code: "SEND", label: "Mark as sent" },
   {
-    id: "expectedAt",
-    accessorFn: (row) => {
-      const orderedAt = row.orderedAt;
-      const leadTimeDays = row.supplier?.defaultLeadTimeDays;
-      if (!leadTimeDays) return null;
-      return orderedAt + leadTimeDays * 24 * 60 * 60 * 1000;
-    },
-    header: ({ column }) => {
-      const sortOptions = [
-        { label: "Default", value: "default" },
-        { label: "Ascending", value: "asc" },
-        { label: "Descending", value: "desc" },
-      ];
-
-      const currentSort = column.getIsSorted();
-      const currentValue = currentSort ? String(currentSort) : "default";
-
-      return (
-        <div className="flex items-center justify-end">
-          <FilterPopover
-            label="Expected at"
-            options={sortOptions}
-            currentValue={currentValue}
-            onChange={(value) => {
-              if (value === "default" || !value) {
-                column.clearSorting();
-              } else {
-                column.toggleSorting(value === "desc", false);
-              }
-            }}
-            isSort
-          />
-        </div>
-      );
-    },
-    cell: ({ row }) => {
-      const expectedTimestamp = row.getValue("expectedAt") as number | null;
-
-      if (!expectedTimestamp) {
-        return <div className="text-right font-medium">-</div>;
-      }
+    code: "CLOSE_SHORT",
+    label: "Close short",
+    needsReason: true,
+    reasonRequired: true,
+  },
+  { code: "CANCEL", label: "Cancel order", needsReason: true },
+];
 
-      const formatted = new Intl.DateTimeFormat("en-US", {
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
         year: "numeric",
         month: "2-digit",
         day: "2-digit",
-      }).format(new Date(expectedTimestamp));
+      }).format(new Date(timestamp))
+    : "-";
 
-      return <div className="text-right font-medium">{formatted}</div>;
-    },
-  },
-  {
-    id: "purchaseOrderStatus.lookupValue",
-    accessorFn: (row) => row.purchaseOrderStatus?.lookupValue,
-    header: ({ column }) => {
-      const statusFilterOptions = [
-        { label: "All", value: "all" },
-        { label: "Pending", value: "pending" },
-        { label: "Approved", value: "approved" },
-        { label: "Received", value: "received" },
-        { label: "Cancelled", value: "cancelled" },
-      ];
-
-      const currentFilter = column.getFilterValue() as string | undefined;
-
-      return (
-        <div className="flex items-center justify-center">
-          <FilterPopover
-            label="Status"
-            options={statusFilterOptions}
-            currentValue={currentFilter}
-            onChange={(value) => column.setFilterValue(value)}
-          />
-        </div>
-      );
-    },
-    filterFn: (row, id, value) => {
-      const rowValue = row.getValue(id) as string;
-      return rowValue.toLowerCase() === value.toLowerCase();
-    },
-    cell: ({ row }) => (
-      <div className="text-center">
-        <Badge
-          className={cn(
-            "w-20 rounded-sm text-center",
-            getBadgeStyleByStatus(
-              row.getValue("purchaseOrderStatus.lookupValue"),
-            ),
-          )}
-          variant={"outline"}
-        >
-          {row.getValue("purchaseOrderStatus.lookupValue")}
-        </Badge>
-      </div>
-    ),
-  },
-  {
-    id: "actions",
-    enableHiding: false,
-    cell: ({ row }) => {
-      const purchaseOrder = row.original;
-
-      return (
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size={"icon-sm"}>
-              <span className="sr-only">Open menu</span>
-              <MoreHorizontal />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuLabel>Actions</DropdownMenuLabel>
-            <DropdownMenuItem
-              onClick={() => navigator.clipboard.writeText(purchaseOrder.code)}
-            >
-              Copy PO-ID
-            </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem>View details</DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      );
-    },
-  },
+const sortOptions = [
+  { label: "Default", value: "default" },
+  { label: "Ascending", value: "asc" },
+  { label: "Descending", value: "desc" },
 ];
 
 export function PurchaseOrdersTable() {
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
   const [sorting, setSorting] = React.useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
     [],
@@ -456,12 +293,351 @@ export function PurchaseOrdersTable() {
   const [columnVisibility, setColumnVisibility] =
     React.useState<VisibilityState>({});
   const [rowSelection, setRowSelection] = React.useState({});
+  const [editor, setEditor] = React.useState<{
+    purchaseOrderId: Id<"purchase_orders"> | null;
+  } | null>(null);
+  const [detailsId, setDetailsId] =
+    React.useState<Id<"purchase_orders"> | null>(null);
+  const [pendingAction, setPendingAction] = React.useState<{
+    order: PurchaseOrder;
+    action: PurchaseOrderAction;
+  } | null>(null);
+  const [reason, setReason] = React.useState("");
 
   const [setFilterValue, instantFilterValue, debouncedFilterValue] =
     useDebouncedInput("", 300);
 
+  const { data: purchaseOrders, isPending } = useQuery({
+    ...convexQuery(api.purchaseOrders.listPurchaseOrders, {
+      branchId: branchId as Id<"branches">,
+      userId: userId as Id<"users">,
+    }),
+    enabled: !!branchId && !!userId,
+  });
+
+  const { mutateAsync: submitOrder } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.submitPurchaseOrder),
+  });
+  const { mutateAsync: approveOrder } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.approvePurchaseOrder),
+  });
+  const { mutateAsync: rejectOrder } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.rejectPurchaseOrder),
+  });
+  const { mutateAsync: sendOrder } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.sendPurchaseOrder),
+  });
+  const { mutateAsync: cancelOrder } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.cancelPurchaseOrder),
+  });
+  const { mutateAsync: closeShortOrder } = useMutation({
+    mutationFn: useConvexMutation(api.purchaseOrders.closeShortPurchaseOrder),
+  });
+
+  const runAction = React.useCallback(
+    async (
+      order: PurchaseOrder,
+      action: PurchaseOrderAction,
+      actionReason?: string,
+    ) => {
+      if (!userId) return;
+      const args = { orderId: order._id, userId };
+      try {
+        switch (action.code) {
+          case "SUBMIT":
+            await submitOrder(args);
+            break;
+          case "APPROVE":
+            await approveOrder(args);
+            break;
+          case "REJECT":
+            await rejectOrder({ ...args, reason: actionReason ?? "" });
+            break;
+          case "SEND":
+            await sendOrder(args);
+            break;
+          case "CANCEL":
+            await cancelOrder({ ...args, reason: actionReason || undefined });
+            break;
+          case "CLOSE_SHORT":
+            await closeShortOrder({ ...args, reason: actionReason ?? "" });
+            break;
+        }
+        toast.success(`${order.code}: ${action.label.toLowerCase()} done`);
+        setPendingAction(null);
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to update order",
+        );
+      }
+    },
+    [
+      userId,
+      submitOrder,
+      approveOrder,
+      rejectOrder,
+      sendOrder,
+      cancelOrder,
+      closeShortOrder,
+    ],
+  );
+
+  const columns: ColumnDef<PurchaseOrder>[] = React.useMemo(
+    () => [
+      {
+        id: "select",
+        header: ({ table }) => (
+          <Checkbox
+            checked={
+              table.getIsAllPageRowsSelected() ||
+              (table.getIsSomePageRowsSelected() && "indeterminate")
+            }
+            onCheckedChange={(value) =>
+              table.toggleAllPageRowsSelected(!!value)
+            }
+            aria-label="Select all"
+          />
+        ),
+        cell: ({ row }) => (
+          <Checkbox
+            checked={row.getIsSelected()}
+            onCheckedChange={(value) => row.toggleSelected(!!value)}
+            aria-label="Select row"
+          />
+        ),
+        enableSorting: false,
+        enableHiding: false,
+      },
+      {
+        accessorKey: "code",
+        header: "PO-ID",
+        cell: ({ row }) => (
+          <div>
+            <div className="font-medium">{row.original.code}</div>
+            <div className="text-muted-foreground text-xs">
+              v{row.original.version} · {row.original.createdByName}
+            </div>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "supplierName",
+        header: ({ column }) => {
+          const suppliers = Array.from(
+            new Set((purchaseOrders ?? []).map((po) => po.supplierName)),
+          ).map((name) => ({ label: name, value: name }));
+
+          const currentFilter = column.getFilterValue() as string[] | undefined;
+
+          return (
+            <FilterPopover
+              label="Supplier"
+              options={suppliers}
+              currentValue={currentFilter}
+              onChange={(value) => column.setFilterValue(value)}
+              variant="multi-select"
+            />
+          );
+        },
+        filterFn: (row, id, value) => {
+          if (!value || (Array.isArray(value) && value.length === 0))
+            return true;
+          const rowValue = row.getValue(id) as string;
+          return Array.isArray(value)
+            ? value.includes(rowValue)
+            : rowValue === value;
+        },
+        cell: ({ row }) => <div>{row.original.supplierName}</div>,
+      },
+      {
+        id: "lines",
+        accessorFn: (row) => row.totalCost,
+        header: () => <div className="text-right">Lines</div>,
+        cell: ({ row }) => (
+          <div className="text-right">
+            <div>
+              {row.original.quantityReceived}/{row.original.quantityOrdered}{" "}
+              received
+            </div>
+            <div className="text-muted-foreground text-xs">
+              {row.original.lineCount} line(s) ·{" "}
+              {row.original.totalCost.toLocaleString()}
+            </div>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "orderedAt",
+        header: ({ column }) => {
+          const currentSort = column.getIsSorted();
+          const currentValue = currentSort ? String(currentSort) : "default";
+
+          return (
+            <div className="flex items-center justify-end">
+              <FilterPopover
+                label="Ordered at"
+                options={sortOptions}
+                currentValue={currentValue}
+                onChange={(value) => {
+                  if (value === "default" || !value) {
+                    column.clearSorting();
+                  } else {
+                    column.toggleSorting(value === "desc", false);
+                  }
+                }}
+                isSort
+              />
+            </div>
+          );
+        },
+        cell: ({ row }) => (
+          <div className="text-right font-medium">
+            {formatDate(row.original.orderedAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "expectedDeliveryAt",
+        header: ({ column }) => {
+          const currentSort = column.getIsSorted();
+          const currentValue = currentSort ? String(currentSort) : "default";
+
+          return (
+            <div className="flex items-center justify-end">
+              <FilterPopover
+                label="Expected at"
+                options={sortOptions}
+                currentValue={currentValue}
+                onChange={(value) => {
+                  if (value === "default" || !value) {
+                    column.clearSorting();
+                  } else {
+                    column.toggleSorting(value === "desc", false);
+                  }
+                }}
+                isSort
+              />
+            </div>
+          );
+        },
+        cell: ({ row }) => (
+          <div className="text-right font-medium">
+            {formatDate(row.original.expectedDeliveryAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "statusName",
+        header: ({ column }) => {
+          const statusFilterOptions = [
+            { label: "All", value: "all" },
+            ...Array.from(
+              new Set((purchaseOrders ?? []).map((po) => po.statusName)),
+            ).map((name) => ({ label: name, value: name })),
+          ];
+
+          const currentFilter = column.getFilterValue() as string | undefined;
+
+          return (
+            <div className="flex items-center justify-center">
+              <FilterPopover
+                label="Status"
+                options={statusFilterOptions}
+                currentValue={currentFilter}
+                onChange={(value) => column.setFilterValue(value)}
+              />
+            </div>
+          );
+        },
+        filterFn: (row, id, value) => {
+          const rowValue = row.getValue(id) as string;
+          return rowValue.toLowerCase() === value.toLowerCase();
+        },
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-32 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusCode),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const purchaseOrder = row.original;
+          const actions = LIFECYCLE_ACTIONS.filter((action) =>
+            purchaseOrder.availableActions.includes(action.code),
+          );
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() =>
+                    navigator.clipboard.writeText(purchaseOrder.code)
+                  }
+                >
+                  Copy PO-ID
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setDetailsId(purchaseOrder._id)}
+                >
+                  View details
+                </DropdownMenuItem>
+                {purchaseOrder.availableActions.includes("AMEND") && (
+                  <DropdownMenuItem
+                    onClick={() =>
+                      setEditor({ purchaseOrderId: purchaseOrder._id })
+                    }
+                  >
+                    Amend lines
+                  </DropdownMenuItem>
+                )}
+                {actions.length > 0 && <DropdownMenuSeparator />}
+                {actions.map((action) => (
+                  <DropdownMenuItem
+                    key={action.code}
+                    variant={
+                      action.code === "CANCEL" ? "destructive" : "default"
+                    }
+                    onClick={() => {
+                      if (action.needsReason) {
+                        setReason("");
+                        setPendingAction({ order: purchaseOrder, action });
+                      } else {
+                        runAction(purchaseOrder, action);
+                      }
+                    }}
+                  >
+                    {action.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [purchaseOrders, runAction],
+  );
+
   const table = useReactTable({
-    data: MOCK_PO,
+    data: purchaseOrders ?? [],
     columns,
     onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
@@ -541,7 +717,13 @@ export function PurchaseOrdersTable() {
                 })}
             </DropdownMenuContent>
           </DropdownMenu>
-          <AddPurchaseOrderDialog />
+          <BranchSelect />
+          {branchId && (
+            <CreateNewButton
+              label="New purchase order"
+              onClick={() => setEditor({ purchaseOrderId: null })}
+            />
+          )}
         </div>
       </div>
       <div className="overflow-hidden rounded-md border">
@@ -565,7 +747,25 @@ export function PurchaseOrdersTable() {
             ))}
           </TableHeader>
           <TableBody>
-            {table.getRowModel().rows?.length ? (
+            {!branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Select a branch to view its purchase orders.
+                </TableCell>
+              </TableRow>
+            ) : isPending ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading purchase orders...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
               table.getRowModel().rows.map((row) => (
                 <TableRow
                   key={row.id}
@@ -634,6 +834,55 @@ export function PurchaseOrdersTable() {
           </Button>
         </div>
       </div>
+
+      <PurchaseOrderDialog
+        purchaseOrderId={editor?.purchaseOrderId ?? null}
+        open={!!editor}
+        onOpenChange={(open) => !open && setEditor(null)}
+      />
+      <PurchaseOrderDetailsDialog
+        purchaseOrderId={detailsId}
+        open={!!detailsId}
+        onOpenChange={(open) => !open && setDetailsId(null)}
+      />
+      <Dialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction?.action.label} {pendingAction?.order.code}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction?.action.reasonRequired
+                ? "A reason is required and is kept in the audit log."
+                : "Optionally note why; it is kept in the audit log."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Back
+            </Button>
+            <Button
+              disabled={
+                !!pendingAction?.action.reasonRequired && !reason.trim()
+              }
+              onClick={() =>
+                pendingAction &&
+                runAction(pendingAction.order, pendingAction.action, reason)
+              }
+            >
+              {pendingAction?.action.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
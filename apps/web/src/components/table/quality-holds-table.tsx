@@ -0,0 +1,442 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  type SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Filter,
+  MoreHorizontal,
+} from "lucide-react";
+import * as React from "react";
+import { BranchSelect } from "@/components/branch-select";
+import {
+  type HoldResolution,
+  ResolveHoldDialog,
+} from "@/components/resolve-hold-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { QualityHoldListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "held":
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+    case "released":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "rejected":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const STATUS_FILTER_OPTIONS = [
+  { label: "All statuses", value: "all" },
+  { label: "Held", value: "HELD" },
+  { label: "Released", value: "RELEASED" },
+  { label: "Rejected", value: "REJECTED" },
+];
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+/**
+ * QC holds of the selected branch with release and reject actions
+ */
+export function QualityHoldsTable() {
+  const branchId = useBranchStore((state) => state.branchId);
+  const [selected, setSelected] = React.useState<{
+    hold: QualityHoldListItem;
+    resolution: HoldResolution;
+  } | null>(null);
+
+  const { data: holds, isPending } = useQuery({
+    ...convexQuery(api.qualityHolds.listHolds, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  const columns: ColumnDef<QualityHoldListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "holdCode",
+        header: "Hold",
+        filterFn: (row, _id, value: string) => {
+          const search = value.toLowerCase();
+          return [
+            row.original.holdCode,
+            row.original.skuCode,
+            row.original.internalBatchNumber,
+            row.original.supplierBatchNumber,
+          ].some((field) => field?.toLowerCase().includes(search));
+        },
+        cell: ({ row }) => (
+          <div className="font-medium">{row.getValue("holdCode")}</div>
+        ),
+      },
+      {
+        accessorKey: "skuCode",
+        header: "SKU",
+        cell: ({ row }) => (
+          <div>
+            {row.original.skuCode}
+            <div className="text-muted-foreground text-xs">
+              {row.original.productName}
+            </div>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "internalBatchNumber",
+        header: "Batch",
+        cell: ({ row }) => (
+          <div>
+            {row.original.internalBatchNumber ?? "-"}
+            {row.original.serialNumbers?.length ? (
+              <div className="text-muted-foreground text-xs">
+                {row.original.serialNumbers.join(", ")}
+              </div>
+            ) : null}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "zoneName",
+        header: "Zone",
+        cell: ({ row }) => (
+          <div>
+            {row.original.zoneName}
+            {row.original.zoneName !== row.original.sourceZoneName && (
+              <div className="text-muted-foreground text-xs">
+                from {row.original.sourceZoneName}
+              </div>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "quantity",
+        header: () => <div className="text-right">Quantity</div>,
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.quantity}</div>
+        ),
+      },
+      {
+        accessorKey: "reason",
+        header: "Reason",
+        cell: ({ row }) => (
+          <div className="max-w-[240px] truncate" title={row.original.reason}>
+            {row.original.reason}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "placedAt",
+        header: () => <div className="text-right">Placed</div>,
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatDate(row.original.placedAt)}
+            <div className="text-muted-foreground text-xs">
+              {row.original.placedByName}
+            </div>
+          </div>
+        ),
+      },
+      {
+        id: "outcome",
+        header: "Outcome",
+        cell: ({ row }) => (
+          <div>
+            {row.original.dispositionName ??
+              (row.original.statusCode === "RELEASED" ? "Back in stock" : "-")}
+            {row.original.returnRequestCode && (
+              <div className="text-muted-foreground text-xs">
+                {row.original.returnRequestCode}
+              </div>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "statusCode",
+        header: () => <div className="text-center">Status</div>,
+        filterFn: (row, id, value) =>
+          !value || value === "all" || row.getValue(id) === value,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-24 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusName),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const hold = row.original;
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() => navigator.clipboard.writeText(hold.holdCode)}
+                >
+                  Copy hold code
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  disabled={hold.statusCode !== "HELD"}
+                  onClick={() => setSelected({ hold, resolution: "RELEASE" })}
+                >
+                  Release
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={hold.statusCode !== "HELD"}
+                  onClick={() => setSelected({ hold, resolution: "REJECT" })}
+                >
+                  Reject
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [],
+  );
+
+  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: (holds ?? []) as QualityHoldListItem[],
+    columns,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      sorting,
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("holdCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[240px]">
+            <InputGroupInput
+              placeholder="Filter hold, SKU or batch..."
+              value={instantFilterValue}
+              onChange={(event) => setFilterValue(event.target.value)}
+            />
+            <InputGroupAddon>
+              <Filter />
+            </InputGroupAddon>
+          </InputGroup>
+          <Select
+            value={
+              (table.getColumn("statusCode")?.getFilterValue() as string) ??
+              "all"
+            }
+            onValueChange={(value) =>
+              table.getColumn("statusCode")?.setFilterValue(value)
+            }
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <BranchSelect />
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {isPending && branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading holds...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No holds found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} hold(s)
+        </div>
+        <div className="space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.firstPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronsLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronRight />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.lastPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronsRight />
+          </Button>
+        </div>
+      </div>
+
+      <ResolveHoldDialog
+        hold={selected?.hold ?? null}
+        resolution={selected?.resolution ?? "RELEASE"}
+        open={!!selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Eye,
+  Filter,
+} from "lucide-react";
+import * as React from "react";
+import { BranchSelect } from "@/components/branch-select";
+import { ReceiveSessionDetailDialog } from "@/components/receive-session-detail-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { ReceiveSessionListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "pending":
+      return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
+    case "in_progress":
+    case "partial":
+      return "bg-blue-500/5 text-blue-500 border-blue-500/60";
+    case "complete":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "cancelled":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+  }
+};
+
+export function ReceiveSessionsTable() {
+  const branchId = useBranchStore((state) => state.branchId);
+  const [selectedSessionId, setSelectedSessionId] =
+    React.useState<Id<"receive_sessions"> | null>(null);
+
+  const { data: sessions, isPending } = useQuery({
+    ...convexQuery(api.receiveSessions.listReceiveSessions, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  const columns: ColumnDef<ReceiveSessionListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "receiveSessionCode",
+        header: "Session ID",
+        cell: ({ row }) => (
+          <div className="font-medium">
+            {row.getValue("receiveSessionCode")}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "purchaseOrderCode",
+        header: "Purchase Order",
+      },
+      {
+        accessorKey: "supplierName",
+        header: "Supplier",
+      },
+      {
+        id: "progress",
+        header: "Progress",
+        cell: ({ row }) => {
+          const { totalReceived, totalExpected, progressPercentage } =
+            row.original;
+          return (
+            <div className="flex items-center gap-2">
+              <Progress value={progressPercentage} className="w-24" />
+              <span className="text-muted-foreground text-xs">
+                {totalReceived}/{totalExpected}
+              </span>
+            </div>
+          );
+        },
+      },
+      {
+        accessorKey: "status",
+        header: () => <div className="text-center">Status</div>,
+        cell: ({ row }) => {
+          const status = row.getValue("status") as string;
+          return (
+            <div className="text-center">
+              <Badge
+                className={cn(
+                  "w-24 rounded-sm text-center",
+                  getBadgeStyleByStatus(row.original.statusCode),
+                )}
+                variant={"outline"}
+              >
+                {status}
+              </Badge>
+            </div>
+          );
+        },
+      },
+      {
+        id: "actions",
+        cell: ({ row }) => (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setSelectedSessionId(row.original.receiveSessionId)}
+          >
+            <Eye />
+          </Button>
+        ),
+      },
+    ],
+    [],
+  );
+
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: sessions ?? [],
+    columns,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("purchaseOrderCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <InputGroup className="max-w-[200px]">
+          <InputGroupInput
+            placeholder="Filter PO ID..."
+            value={instantFilterValue}
+            onChange={(event) => setFilterValue(event.target.value)}
+          />
+          <InputGroupAddon>
+            <Filter />
+          </InputGroupAddon>
+        </InputGroup>
+        <BranchSelect />
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {isPending && branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading receiving sessions...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No receiving sessions found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} session(s)
+        </div>
+        <div className="space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.firstPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronsLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronRight />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.lastPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronsRight />
+          </Button>
+        </div>
+      </div>
+
+      <ReceiveSessionDetailDialog
+        sessionId={selectedSessionId}
+        open={!!selectedSessionId}
+        onOpenChange={(open) => !open && setSelectedSessionId(null)}
+      />
+    </div>
+  );
+}
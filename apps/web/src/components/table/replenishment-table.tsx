@@ -0,0 +1,368 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
+import { MoreHorizontal, RefreshCw } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BranchSelect } from "@/components/branch-select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useBranchStore } from "@/store/branch";
+
+type SuggestionGroup = FunctionReturnType<
+  typeof api.replenishment.getReplenishmentSuggestions
+>["groups"][number];
+
+const formatDate = (timestamp?: number | null) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+/**
+ * SKUs below reorder point for the selected branch, grouped by supplier.
+ * Selected suggestions become one draft purchase order per supplier.
+ */
+export function ReplenishmentTable() {
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [showDismissed, setShowDismissed] = React.useState(false);
+  const [selected, setSelected] = React.useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = React.useState<Record<string, number>>(
+    {},
+  );
+
+  const { data, isPending } = useQuery({
+    ...convexQuery(api.replenishment.getReplenishmentSuggestions, {
+      branchId: branchId as Id<"branches">,
+      includeDismissed: showDismissed,
+    }),
+    enabled: !!branchId,
+  });
+
+  const { mutate: refresh, isPending: isRefreshing } = useMutation({
+    mutationFn: useConvexMutation(
+      api.replenishment.refreshReplenishmentSuggestions,
+    ),
+  });
+  const { mutate: setDismissed } = useMutation({
+    mutationFn: useConvexMutation(api.replenishment.setSuggestionDismissed),
+  });
+  const { mutate: createOrders, isPending: isCreating } = useMutation({
+    mutationFn: useConvexMutation(
+      api.replenishment.createPurchaseOrdersFromSuggestions,
+    ),
+  });
+
+  const groups = data?.groups ?? [];
+  const selectedIds = Object.keys(selected).filter((id) => selected[id]);
+
+  const getQuantity = (item: SuggestionGroup["items"][number]) =>
+    quantities[item._id] ?? item.suggestedQuantity;
+
+  const toggleGroup = (group: SuggestionGroup, checked: boolean) => {
+    const next = { ...selected };
+    for (const item of group.items) {
+      if (item.statusCode === "OPEN" && group.supplierId) {
+        next[item._id] = checked;
+      }
+    }
+    setSelected(next);
+  };
+
+  const handleRefresh = () => {
+    if (!branchId) return;
+    refresh(
+      { branchId },
+      {
+        onSuccess: (result) =>
+          toast.success(
+            `Suggestions refreshed: ${result.created} new, ${result.updated} updated, ${result.removed} cleared`,
+          ),
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const handleCreateOrders = () => {
+    if (!branchId || !userId || selectedIds.length === 0) return;
+
+    const items = groups
+      .flatMap((group) => group.items)
+      .filter((item) => selected[item._id])
+      .map((item) => ({ suggestionId: item._id, quantity: getQuantity(item) }));
+
+    createOrders(
+      { branchId, userId, items },
+      {
+        onSuccess: (result) => {
+          toast.success(
+            `Created ${result.orders.length} draft purchase order(s): ${result.orders
+              .map((order) => order.code)
+              .join(", ")}`,
+          );
+          setSelected({});
+          setQuantities({});
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row items-center justify-between pb-4">
+        <div className="flex items-center gap-4 text-muted-foreground text-sm">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="show-dismissed"
+              checked={showDismissed}
+              onCheckedChange={setShowDismissed}
+            />
+            <Label htmlFor="show-dismissed">Show dismissed</Label>
+          </div>
+          <span>Last computed {formatDate(data?.computedAt)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={handleRefresh}
+            disabled={!branchId || isRefreshing}
+          >
+            {isRefreshing ? <Spinner /> : <RefreshCw />}
+            Refresh
+          </Button>
+          <Button
+            onClick={handleCreateOrders}
+            disabled={selectedIds.length === 0 || isCreating}
+          >
+            {isCreating && <Spinner />}
+            Create draft POs ({selectedIds.length})
+          </Button>
+          <BranchSelect />
+        </div>
+      </div>
+
+      {!branchId ? (
+        <div className="flex h-24 items-center justify-center rounded-md border bg-card text-sm">
+          Select a branch to review replenishment.
+        </div>
+      ) : isPending ? (
+        <div className="flex h-24 items-center justify-center rounded-md border bg-card text-sm">
+          Loading suggestions...
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="flex h-24 items-center justify-center rounded-md border bg-card text-sm">
+          Every SKU is at or above its reorder point.
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {groups.map((group) => {
+            const selectable = group.items.filter(
+              (item) => item.statusCode === "OPEN" && !!group.supplierId,
+            );
+            const allSelected =
+              selectable.length > 0 &&
+              selectable.every((item) => selected[item._id]);
+
+            return (
+              <div
+                key={group.supplierId ?? "none"}
+                className="overflow-hidden rounded-md border"
+              >
+                <div className="flex items-center justify-between border-b bg-muted/40 px-4 py-2 text-sm">
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      checked={allSelected}
+                      disabled={selectable.length === 0}
+                      onCheckedChange={(value) => toggleGroup(group, !!value)}
+                      aria-label="Select supplier"
+                    />
+                    <span className="font-medium">{group.supplierName}</span>
+                    {group.leadTimeDays !== null && (
+                      <span className="text-muted-foreground">
+                        {group.leadTimeDays} day lead time · arrives{" "}
+                        {formatDate(group.expectedArrivalAt)}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-muted-foreground">
+                    Est. {group.totalCost.toLocaleString()}
+                  </span>
+                </div>
+                <Table className="bg-card">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>SKU</TableHead>
+                      <TableHead className="text-right">Reorder pt</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">In transit</TableHead>
+                      <TableHead className="text-right">On order</TableHead>
+                      <TableHead className="text-right">Usage/day</TableHead>
+                      <TableHead className="w-28">Order qty</TableHead>
+                      <TableHead className="text-right">Line total</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.items.map((item) => {
+                      const isOpen = item.statusCode === "OPEN";
+                      return (
+                        <TableRow
+                          key={item._id}
+                          data-state={selected[item._id] && "selected"}
+                          className={isOpen ? undefined : "opacity-60"}
+                        >
+                          <TableCell>
+                            <Checkbox
+                              checked={!!selected[item._id]}
+                              disabled={!isOpen || !group.supplierId}
+                              onCheckedChange={(value) =>
+                                setSelected({
+                                  ...selected,
+                                  [item._id]: !!value,
+                                })
+                              }
+                              aria-label="Select suggestion"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">
+                              {item.skuCode}
+                              {!isOpen && (
+                                <Badge
+                                  variant={"outline"}
+                                  className="ml-2 rounded-sm"
+                                >
+                                  Dismissed
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="text-muted-foreground text-xs">
+                              {item.productName}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.reorderPoint}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.available}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.inTransit}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.onOrder}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.dailyUsage}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={getQuantity(item)}
+                              disabled={!isOpen}
+                              onChange={(e) =>
+                                setQuantities({
+                                  ...quantities,
+                                  [item._id]: Number(e.target.value),
+                                })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(
+                              getQuantity(item) * item.unitCost
+                            ).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size={"icon-sm"}>
+                                  <span className="sr-only">Open menu</span>
+                                  <MoreHorizontal />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    navigator.clipboard.writeText(item.skuCode)
+                                  }
+                                >
+                                  Copy SKU
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  disabled={!userId}
+                                  onClick={() =>
+                                    userId &&
+                                    setDismissed(
+                                      {
+                                        suggestionId: item._id,
+                                        userId,
+                                        dismissed: isOpen,
+                                      },
+                                      {
+                                        onSuccess: () =>
+                                          setSelected({
+                                            ...selected,
+                                            [item._id]: false,
+                                          }),
+                                        onError: (error) =>
+                                          toast.error(error.message),
+                                      },
+                                    )
+                                  }
+                                >
+                                  {isOpen ? "Dismiss" : "Reopen"}
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
 import {
   type ColumnDef,
   type ColumnFiltersState,
@@ -12,9 +14,7 @@ import {
   useReactTable,
   type VisibilityState,
 } from "@tanstack/react-table";
-// import { convexQuery } from "@convex-dev/react-query";
-// import { useQuery } from "@tanstack/react-query";
-// import { api } from "@wms/backend/convex/_generated/api";
+import { api } from "@wms/backend/convex/_generated/api";
 import {
   ArrowUpDown,
   Check,
@@ -31,6 +31,7 @@ import {
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import * as React from "react";
+import { BranchSelect } from "@/components/branch-select";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -70,22 +71,28 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-// import { useCurrentUser } from "@/hooks/use-current-user";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { useDebouncedInput } from "@/hooks/use-debounced-input";
 import type { ReturnRequestListItem } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { MOCK_RETURN_REQUESTS } from "@/mock/data/return-requests";
+import { useBranchStore } from "@/store/branch";
 
 const getBadgeStyleByStatus = (status: string) => {
   switch (status.toLowerCase()) {
     case "waiting":
     case "pending":
+    case "requested":
       return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
     case "approved":
     case "accepted":
+    case "picked":
       return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "shipped":
+      return "bg-purple-500/5 text-purple-500 border-purple-500/60";
     case "returned":
     case "completed":
+    case "credit received":
+    case "closed":
       return "bg-blue-500/5 text-blue-500 border-blue-500/60";
     case "rejected":
     case "cancelled":
@@ -95,6 +102,12 @@ const getBadgeStyleByStatus = (status: string) => {
   }
 };
 
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+
 interface FilterPopoverProps {
   label: string;
   options: { label: string; value: string }[];
@@ -233,24 +246,16 @@ const FilterPopover = ({
 export function ReturnRequestsTable() {
   const params = useParams();
   const workspace = params.workspace as string;
-  // const { organizationId } = useCurrentUser();
-
-  // TODO: Get actual branchId from user's selected branch
-  // For now, we'll use a placeholder - in a real app, this would come from user context
-  // const branchId = organizationId; // Placeholder - should be actual branch ID
-
-  // COMMENTED OUT: Convex query - using mock data instead
-  // const { data: returnRequests, isPending } = useQuery({
-  //   ...convexQuery(api.returnRequest.listWithDetails, {
-  //     organizationId: organizationId ?? "",
-  //     branchId: branchId ?? "",
-  //   }),
-  //   enabled: !!organizationId && !!branchId,
-  // });
+  const { organizationId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
 
-  // Using mock data instead of Convex
-  const returnRequests = MOCK_RETURN_REQUESTS;
-  const isPending = false;
+  const { data: returnRequests, isPending } = useQuery({
+    ...convexQuery(api.returnRequest.listWithDetails, {
+      organizationId: organizationId ?? "",
+      branchId: branchId ?? "",
+    }),
+    enabled: !!organizationId && !!branchId,
+  });
 
   const columns: ColumnDef<ReturnRequestListItem>[] = React.useMemo(
     () => [
@@ -338,6 +343,32 @@ export function ReturnRequestsTable() {
           <div className="text-center">{row.getValue("totalItems")}</div>
         ),
       },
+      {
+        accessorKey: "totalExpectedCredit",
+        header: () => <div className="text-right">Expected credit</div>,
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatCurrency(row.original.totalExpectedCredit)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "creditVariance",
+        header: () => <div className="text-right">Credit variance</div>,
+        cell: ({ row }) => {
+          const variance = row.original.creditVariance;
+          return (
+            <div
+              className={cn(
+                "text-right",
+                variance !== null && variance < 0 && "text-red-500",
+              )}
+            >
+              {variance === null ? "-" : formatCurrency(variance)}
+            </div>
+          );
+        },
+      },
       {
         accessorKey: "requestedAt",
         header: ({ column }) => {
@@ -385,10 +416,14 @@ export function ReturnRequestsTable() {
         header: ({ column }) => {
           const statusFilterOptions = [
             { label: "All", value: "all" },
-            { label: "Waiting", value: "waiting" },
+            { label: "Requested", value: "requested" },
             { label: "Approved", value: "approved" },
-            { label: "Returned", value: "returned" },
+            { label: "Picked", value: "picked" },
+            { label: "Shipped", value: "shipped" },
+            { label: "Credit Received", value: "credit received" },
+            { label: "Closed", value: "closed" },
             { label: "Rejected", value: "rejected" },
+            { label: "Cancelled", value: "cancelled" },
           ];
 
           const currentFilter = column.getFilterValue() as string | undefined;
@@ -414,7 +449,7 @@ export function ReturnRequestsTable() {
             <div className="text-center">
               <Badge
                 className={cn(
-                  "w-20 rounded-sm text-center",
+                  "min-w-20 rounded-sm text-center",
                   getBadgeStyleByStatus(status ?? ""),
                 )}
                 variant={"outline"}
@@ -500,6 +535,17 @@ export function ReturnRequestsTable() {
     table.getColumn("requestCode")?.setFilterValue(debouncedFilterValue);
   }, [debouncedFilterValue, table]);
 
+  // Credit variance across the filtered returns with a recorded credit
+  const credited = table
+    .getFilteredRowModel()
+    .rows.map((row) => row.original)
+    .filter((request) => request.totalActualCredit !== null);
+  const creditSummary = {
+    count: credited.length,
+    expected: credited.reduce((sum, r) => sum + r.totalExpectedCredit, 0),
+    actual: credited.reduce((sum, r) => sum + (r.totalActualCredit ?? 0), 0),
+  };
+
   const activeFiltersCount =
     sorting.length + columnFilters.length + (instantFilterValue ? 1 : 0);
 
@@ -579,6 +625,7 @@ export function ReturnRequestsTable() {
                 })}
             </DropdownMenuContent>
           </DropdownMenu>
+          <BranchSelect />
         </div>
       </div>
       <div className="overflow-hidden rounded-md border">
@@ -635,6 +682,21 @@ export function ReturnRequestsTable() {
         <div className="flex-1 text-muted-foreground text-sm">
           {table.getFilteredSelectedRowModel().rows.length} of{" "}
           {table.getFilteredRowModel().rows.length} row(s) selected.
+          {creditSummary.count > 0 && (
+            <span className="ml-4">
+              Credited {formatCurrency(creditSummary.actual)} of{" "}
+              {formatCurrency(creditSummary.expected)} expected on{" "}
+              {creditSummary.count} return(s) · variance{" "}
+              <span
+                className={cn(
+                  creditSummary.actual < creditSummary.expected &&
+                    "text-red-500",
+                )}
+              >
+                {formatCurrency(creditSummary.actual - creditSummary.expected)}
+              </span>
+            </span>
+          )}
         </div>
         <div className="space-x-2">
           <Button
@@ -0,0 +1,283 @@
+"use client";
+
+import {
+  type ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { usePaginatedQuery } from "convex/react";
+import { Search } from "lucide-react";
+import * as React from "react";
+import { SerialHistoryDialog } from "@/components/serial-history-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { SerialNumberListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "available":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "in transit":
+      return "bg-blue-500/5 text-blue-500 border-blue-500/60";
+    case "sold":
+      return "bg-muted text-muted-foreground";
+    case "returned":
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+    case "missing":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const STATUS_FILTER_OPTIONS = [
+  { label: "All statuses", value: "all" },
+  { label: "Available", value: "AVAILABLE" },
+  { label: "In Transit", value: "IN_TRANSIT" },
+  { label: "Sold", value: "SOLD" },
+  { label: "Returned", value: "RETURNED" },
+  { label: "Missing", value: "MISSING" },
+];
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+export function SerialNumbersTable() {
+  const { organizationId } = useCurrentUser();
+  const [statusCode, setStatusCode] = React.useState("all");
+  const [lookupValue, setLookupValue] = React.useState("");
+  const [selectedSerial, setSelectedSerial] = React.useState<string | null>(
+    null,
+  );
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.serialNumbers.listSerialNumbers,
+    organizationId
+      ? {
+          organizationId: organizationId as Id<"organizations">,
+          statusCode: statusCode === "all" ? undefined : statusCode,
+        }
+      : "skip",
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  const columns: ColumnDef<SerialNumberListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "serialNumber",
+        header: "Serial",
+        cell: ({ row }) => (
+          <Button
+            variant="link"
+            className="h-auto p-0 font-medium"
+            onClick={() => setSelectedSerial(row.original.serialNumber)}
+          >
+            {row.original.serialNumber}
+          </Button>
+        ),
+      },
+      {
+        accessorKey: "skuCode",
+        header: "SKU",
+      },
+      {
+        accessorKey: "productName",
+        header: "Product",
+      },
+      {
+        id: "location",
+        header: "Location",
+        cell: ({ row }) =>
+          row.original.zoneName ? (
+            <div>
+              {row.original.branchName} · {row.original.zoneName}
+              <div className="text-muted-foreground text-xs">
+                {row.original.batchNumber}
+              </div>
+            </div>
+          ) : (
+            <span className="text-muted-foreground">-</span>
+          ),
+      },
+      {
+        accessorKey: "warrantyExpiresAt",
+        header: "Warranty until",
+        cell: ({ row }) => (
+          <div
+            className={cn(
+              row.original.warrantyStatus === "EXPIRED" && "text-red-500",
+            )}
+          >
+            {formatDate(row.original.warrantyExpiresAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "statusCode",
+        header: () => <div className="text-center">Status</div>,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-24 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusName),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+    ],
+    [],
+  );
+
+  const table = useReactTable({
+    data: results,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  const handleLookup = () => {
+    const serialNumber = lookupValue.trim();
+    if (serialNumber) setSelectedSerial(serialNumber);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[240px]">
+            <InputGroupInput
+              placeholder="Look up serial number..."
+              value={lookupValue}
+              onChange={(event) => setLookupValue(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && handleLookup()}
+            />
+            <InputGroupAddon>
+              <Search />
+            </InputGroupAddon>
+          </InputGroup>
+          <Select value={statusCode} onValueChange={setStatusCode}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {status === "LoadingFirstPage" && organizationId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading serial numbers...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No serial numbers found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {results.length} serial(s) loaded
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => loadMore(PAGE_SIZE)}
+          disabled={status !== "CanLoadMore"}
+        >
+          {status === "Exhausted" ? "All loaded" : "Load more"}
+        </Button>
+      </div>
+
+      <SerialHistoryDialog
+        serialNumber={selectedSerial}
+        open={!!selectedSerial}
+        onOpenChange={(open) => !open && setSelectedSerial(null)}
+      />
+    </div>
+  );
+}
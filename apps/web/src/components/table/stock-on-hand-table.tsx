@@ -0,0 +1,337 @@
+"use client";
+
+import {
+  type Column,
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  type SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { usePaginatedQuery } from "convex/react";
+import { ArrowUpDown, Filter, MoreHorizontal } from "lucide-react";
+import * as React from "react";
+import { BranchSelect } from "@/components/branch-select";
+import { ExpiryBadge } from "@/components/expiry-badge";
+import {
+  type LabelRequest,
+  PrintLabelsDialog,
+} from "@/components/print-labels-dialog";
+import { ProductFilterSelects } from "@/components/product-filter-selects";
+import { StockBreakdownDialog } from "@/components/stock-breakdown-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { StockOnHandItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const PAGE_SIZE = 25;
+
+const sortableHeader =
+  (label: string) =>
+  ({ column }: { column: Column<StockOnHandItem> }) => (
+    <Button
+      variant="ghost"
+      className="w-full justify-end"
+      onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+    >
+      {label}
+      <ArrowUpDown />
+    </Button>
+  );
+
+export function StockOnHandTable() {
+  const { organizationId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [categoryId, setCategoryId] = React.useState<Id<"categories">>();
+  const [brandId, setBrandId] = React.useState<Id<"brands">>();
+  const [breakdownSkuId, setBreakdownSkuId] =
+    React.useState<Id<"product_variants"> | null>(null);
+  const [labelRequest, setLabelRequest] = React.useState<LabelRequest | null>(
+    null,
+  );
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.stock.getStockOnHand,
+    organizationId && branchId
+      ? {
+          organizationId: organizationId as Id<"organizations">,
+          branchId,
+          categoryId,
+          brandId,
+        }
+      : "skip",
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  const columns: ColumnDef<StockOnHandItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "skuCode",
+        header: "SKU",
+        cell: ({ row }) => (
+          <Button
+            variant="link"
+            className="h-auto p-0 font-medium"
+            onClick={() => setBreakdownSkuId(row.original.skuId)}
+          >
+            {row.original.skuCode}
+          </Button>
+        ),
+      },
+      {
+        accessorKey: "productName",
+        header: "Product",
+      },
+      {
+        accessorKey: "categoryName",
+        header: "Category",
+      },
+      {
+        accessorKey: "brandName",
+        header: "Brand",
+      },
+      {
+        accessorKey: "onHand",
+        header: sortableHeader("On hand"),
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.onHand}</div>
+        ),
+      },
+      {
+        accessorKey: "held",
+        header: sortableHeader("Held"),
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.held}</div>
+        ),
+      },
+      {
+        accessorKey: "reserved",
+        header: sortableHeader("Reserved"),
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.reserved}</div>
+        ),
+      },
+      {
+        accessorKey: "available",
+        header: sortableHeader("Available"),
+        cell: ({ row }) => (
+          <div
+            className={cn(
+              "text-right font-medium",
+              row.original.available === 0 && "text-red-500",
+            )}
+          >
+            {row.original.available}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "inTransit",
+        header: sortableHeader("In transit"),
+        cell: ({ row }) => (
+          <div className="text-right">{row.original.inTransit}</div>
+        ),
+      },
+      {
+        accessorKey: "nearestExpiry",
+        header: "Nearest expiry",
+        cell: ({ row }) => (
+          <ExpiryBadge expiresAt={row.original.nearestExpiry} />
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size={"icon-sm"}>
+                <span className="sr-only">Open menu</span>
+                <MoreHorizontal />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Actions</DropdownMenuLabel>
+              <DropdownMenuItem
+                onClick={() => setBreakdownSkuId(row.original.skuId)}
+              >
+                View by branch, zone & batch
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() =>
+                  navigator.clipboard.writeText(row.original.skuCode)
+                }
+              >
+                Copy SKU
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() =>
+                  setLabelRequest({ skuIds: [row.original.skuId] })
+                }
+              >
+                Print shelf tag
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ),
+      },
+    ],
+    [],
+  );
+
+  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: results,
+    columns,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      sorting,
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("skuCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[200px]">
+            <InputGroupInput
+              placeholder="Filter SKU..."
+              value={instantFilterValue}
+              onChange={(event) => setFilterValue(event.target.value)}
+            />
+            <InputGroupAddon>
+              <Filter />
+            </InputGroupAddon>
+          </InputGroup>
+          <ProductFilterSelects
+            categoryId={categoryId}
+            brandId={brandId}
+            onCategoryChange={setCategoryId}
+            onBrandChange={setBrandId}
+          />
+        </div>
+        <BranchSelect />
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {status === "LoadingFirstPage" && branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading stock...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No stock found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} SKU(s) loaded
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => loadMore(PAGE_SIZE)}
+          disabled={status !== "CanLoadMore"}
+        >
+          {status === "Exhausted" ? "All loaded" : "Load more"}
+        </Button>
+      </div>
+
+      <StockBreakdownDialog
+        skuId={breakdownSkuId}
+        open={!!breakdownSkuId}
+        onOpenChange={(open) => !open && setBreakdownSkuId(null)}
+      />
+      <PrintLabelsDialog
+        request={labelRequest}
+        open={!!labelRequest}
+        onOpenChange={(open) => !open && setLabelRequest(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Filter, Folder, MoreHorizontal } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BranchSelect } from "@/components/branch-select";
+import { MoveZoneDialog } from "@/components/move-zone-dialog";
+import {
+  type LabelRequest,
+  PrintLabelsDialog,
+} from "@/components/print-labels-dialog";
+import { StorageZoneDialog } from "@/components/storage-zone-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CreateNewButton } from "@/components/ui/create-new-button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { StorageZone, StorageZoneTreeRow } from "@/lib/types";
+import { useBranchStore } from "@/store/branch";
+
+// Level names by path depth: branch → area → aisle → rack → bin
+const ZONE_LEVELS = ["Area", "Aisle", "Rack", "Bin"];
+
+const getLevelName = (depth: number) =>
+  ZONE_LEVELS[depth - 1] ?? `Level ${depth}`;
+
+const formatAttributes = (attributes: unknown) =>
+  attributes && typeof attributes === "object"
+    ? Object.entries(attributes as Record<string, unknown>)
+        .map(([key, value]) => `${key}: ${String(value)}`)
+        .join(", ")
+    : "";
+
+export function StorageZonesTable() {
+  const branchId = useBranchStore((state) => state.branchId);
+  const [editor, setEditor] = React.useState<{
+    zone: StorageZone | null;
+    parentPath?: string;
+  } | null>(null);
+  const [movingZone, setMovingZone] = React.useState<StorageZone | null>(null);
+  const [labelRequest, setLabelRequest] = React.useState<LabelRequest | null>(
+    null,
+  );
+
+  const { data: rows, isPending } = useQuery({
+    ...convexQuery(api.storageZones.getTree, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  const { mutate: removeZone } = useMutation({
+    mutationFn: useConvexMutation(api.storageZones.removeZone),
+  });
+
+  const columns: ColumnDef<StorageZoneTreeRow>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "path",
+        header: "Zone",
+        filterFn: (row, _id, value: string) => {
+          const search = value.toLowerCase();
+          return [row.original.path, row.original.zone?.name].some((field) =>
+            field?.toLowerCase().includes(search),
+          );
+        },
+        cell: ({ row }) => (
+          <div
+            className="flex items-center gap-2"
+            style={{ paddingLeft: `${(row.original.depth - 1) * 1.25}rem` }}
+          >
+            {row.original.zone ? (
+              <div>
+                <div className="font-medium">{row.original.zone.name}</div>
+                <div className="text-muted-foreground text-xs">
+                  {row.original.path}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Folder className="size-4" />
+                {row.original.path.split(".").pop()}
+              </div>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: "level",
+        header: "Level",
+        cell: ({ row }) => (
+          <div className="text-muted-foreground">
+            {getLevelName(row.original.depth)}
+          </div>
+        ),
+      },
+      {
+        id: "zoneType",
+        header: "Type",
+        cell: ({ row }) =>
+          row.original.zone && (
+            <Badge variant={"outline"} className="rounded-sm">
+              {row.original.zone.zoneTypeName}
+            </Badge>
+          ),
+      },
+      {
+        id: "storageBlockType",
+        header: "Block",
+        cell: ({ row }) => row.original.zone?.storageBlockType,
+      },
+      {
+        id: "attributes",
+        header: "Attributes",
+        cell: ({ row }) => (
+          <div className="max-w-[280px] truncate text-muted-foreground text-xs">
+            {formatAttributes(row.original.zone?.zoneAttributes)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "onHand",
+        header: () => <div className="text-right">On hand</div>,
+        cell: ({ row }) =>
+          row.original.zone && (
+            <div className="text-right">
+              {row.original.onHand}
+              <div className="text-muted-foreground text-xs">
+                {row.original.batchCount} batch(es)
+              </div>
+            </div>
+          ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const { zone, path } = row.original;
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() => navigator.clipboard.writeText(path)}
+                >
+                  Copy path
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setEditor({ zone: null, parentPath: path })}
+                >
+                  Add {getLevelName(row.original.depth + 1).toLowerCase()}
+                </DropdownMenuItem>
+                {zone && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setEditor({ zone })}>
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setMovingZone(zone)}>
+                      Move
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setLabelRequest({ zoneIds: [zone._id] })}
+                    >
+                      Print bin label
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      disabled={
+                        row.original.batchCount > 0 ||
+                        row.original.childCount > 0
+                      }
+                      onClick={() =>
+                        removeZone(
+                          { zoneId: zone._id },
+                          {
+                            onSuccess: () =>
+                              toast.success(`Zone ${zone.name} deleted`),
+                            onError: (error) => toast.error(error.message),
+                          },
+                        )
+                      }
+                    >
+                      Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [removeZone],
+  );
+
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: rows ?? [],
+    columns,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("path")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <div className="flex items-center gap-2">
+          <InputGroup className="max-w-[220px]">
+            <InputGroupInput
+              placeholder="Filter zones..."
+              value={instantFilterValue}
+              onChange={(event) => setFilterValue(event.target.value)}
+            />
+            <InputGroupAddon>
+              <Filter />
+            </InputGroupAddon>
+          </InputGroup>
+        </div>
+        <div className="flex items-center gap-2">
+          <BranchSelect />
+          {branchId && (
+            <CreateNewButton
+              label="New area"
+              onClick={() => setEditor({ zone: null })}
+            />
+          )}
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {!branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Select a branch to manage its zones.
+                </TableCell>
+              </TableRow>
+            ) : isPending ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading zones...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No zones found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {branchId && (
+        <StorageZoneDialog
+          branchId={branchId}
+          zone={editor?.zone ?? null}
+          parentPath={editor?.parentPath}
+          open={!!editor}
+          onOpenChange={(open) => !open && setEditor(null)}
+        />
+      )}
+      <MoveZoneDialog
+        zone={movingZone}
+        rows={rows ?? []}
+        open={!!movingZone}
+        onOpenChange={(open) => !open && setMovingZone(null)}
+      />
+      <PrintLabelsDialog
+        request={labelRequest}
+        open={!!labelRequest}
+        onOpenChange={(open) => !open && setLabelRequest(null)}
+      />
+    </div>
+  );
+}
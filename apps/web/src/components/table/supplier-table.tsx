@@ -0,0 +1,307 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { MoreHorizontal } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { SupplierScorecardDialog } from "@/components/supplier-scorecard-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DateRangePicker } from "@/components/ui/date-range-picker";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useDateFilterStore } from "@/store/date-filter";
+
+/**
+ * Badge color by a percentage where higher is better
+ */
+const getBadgeStyleByRate = (rate: number | null) => {
+  if (rate === null) return "bg-muted text-muted-foreground";
+  if (rate >= 95) return "bg-emerald-500/10 text-emerald-600";
+  if (rate >= 80) return "bg-amber-500/10 text-amber-600";
+  return "bg-red-500/10 text-red-600";
+};
+
+const formatValue = (value: number | null, suffix = "") =>
+  value === null ? "-" : `${value}${suffix}`;
+
+/**
+ * Supplier directory and performance scorecards for the selected range
+ */
+export function SupplierTable() {
+  const { organizationId } = useCurrentUser();
+  const dateRange = useDateFilterStore((state) => state.dateRange);
+  const updateFromPicker = useDateFilterStore(
+    (state) => state.updateFromPicker,
+  );
+  const [scorecardId, setScorecardId] = React.useState<Id<"suppliers"> | null>(
+    null,
+  );
+
+  const startDate = dateRange.from.getTime();
+  const endDate = React.useMemo(() => {
+    const end = new Date(dateRange.to ?? dateRange.from);
+    end.setHours(23, 59, 59, 999);
+    return end.getTime();
+  }, [dateRange]);
+
+  const { data: suppliers, isPending: isLoadingSuppliers } = useQuery({
+    ...convexQuery(api.suppliers.getActive, {
+      organizationId: organizationId as Id<"organizations">,
+    }),
+    enabled: !!organizationId,
+  });
+
+  const { data: scorecards, isPending: isLoadingScorecards } = useQuery({
+    ...convexQuery(api.suppliers.getScorecards, {
+      organizationId: organizationId as Id<"organizations">,
+      startDate,
+      endDate,
+    }),
+    enabled: !!organizationId,
+  });
+
+  const { mutate: updateSupplier } = useMutation({
+    mutationFn: useConvexMutation(api.suppliers.update),
+  });
+
+  // Receipts from suppliers requiring inspection are placed on a QC hold
+  const setRequiresInspection = (
+    supplierId: Id<"suppliers">,
+    requiresInspection: boolean,
+  ) =>
+    updateSupplier(
+      { id: supplierId, requiresInspection },
+      {
+        onSuccess: () =>
+          toast.success(
+            requiresInspection
+              ? "Receipts will be held for inspection"
+              : "Receipts will no longer be held",
+          ),
+        onError: (error) => toast.error(error.message),
+      },
+    );
+
+  const renderActions = (supplierId: Id<"suppliers">, email?: string) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size={"icon-sm"}>
+          <span className="sr-only">Open menu</span>
+          <MoreHorizontal />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Actions</DropdownMenuLabel>
+        {email && (
+          <DropdownMenuItem
+            onClick={() => navigator.clipboard.writeText(email)}
+          >
+            Copy email
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => setScorecardId(supplierId)}>
+          View scorecard
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  return (
+    <div className="w-full">
+      <Tabs defaultValue="suppliers">
+        <div className="flex flex-row items-center justify-between pb-4">
+          <TabsList>
+            <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+            <TabsTrigger value="scorecard">Scorecard</TabsTrigger>
+          </TabsList>
+          <DateRangePicker
+            align="end"
+            showCompare={false}
+            onUpdate={(data) =>
+              updateFromPicker({
+                range: data.range,
+                preset: data.preset,
+                periodLabel: data.periodLabel,
+              })
+            }
+          />
+        </div>
+
+        <TabsContent value="suppliers">
+          <div className="overflow-hidden rounded-md border">
+            <Table className="bg-card">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead className="text-right">Lead time</TableHead>
+                  <TableHead className="text-center">
+                    Inspect receipts
+                  </TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingSuppliers ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      Loading suppliers...
+                    </TableCell>
+                  </TableRow>
+                ) : suppliers?.length ? (
+                  suppliers.map((supplier) => (
+                    <TableRow key={supplier._id}>
+                      <TableCell className="font-medium">
+                        {supplier.name}
+                      </TableCell>
+                      <TableCell>{supplier.contactPerson}</TableCell>
+                      <TableCell>{supplier.email}</TableCell>
+                      <TableCell>{supplier.phone}</TableCell>
+                      <TableCell className="text-right">
+                        {supplier.defaultLeadTimeDays} days
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Switch
+                          checked={supplier.requiresInspection ?? false}
+                          onCheckedChange={(checked) =>
+                            setRequiresInspection(supplier._id, checked)
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {renderActions(supplier._id, supplier.email)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      No suppliers.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="scorecard">
+          <div className="overflow-hidden rounded-md border">
+            <Table className="bg-card">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Orders</TableHead>
+                  <TableHead className="text-right">
+                    Lead time (promised / actual)
+                  </TableHead>
+                  <TableHead>On time</TableHead>
+                  <TableHead>Fill rate</TableHead>
+                  <TableHead className="text-right">Return rate</TableHead>
+                  <TableHead className="text-right">Return value</TableHead>
+                  <TableHead className="text-right">
+                    Lead time (default / suggested)
+                  </TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingScorecards ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="h-24 text-center">
+                      Loading scorecards...
+                    </TableCell>
+                  </TableRow>
+                ) : scorecards?.length ? (
+                  scorecards.map((row) => (
+                    <TableRow
+                      key={row.supplierId}
+                      className="cursor-pointer"
+                      onClick={() => setScorecardId(row.supplierId)}
+                    >
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">
+                        {row.orderCount}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatValue(row.avgPromisedLeadTimeDays)} /{" "}
+                        {formatValue(row.avgActualLeadTimeDays)} days
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={"outline"}
+                          className={`rounded-sm ${getBadgeStyleByRate(row.onTimeRate)}`}
+                        >
+                          {formatValue(row.onTimeRate, "%")}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={"outline"}
+                          className={`rounded-sm ${getBadgeStyleByRate(row.fillRate)}`}
+                        >
+                          {formatValue(row.fillRate, "%")}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatValue(row.returnRate, "%")}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.returnValue.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.defaultLeadTimeDays} /{" "}
+                        {formatValue(row.suggestedLeadTimeDays)} days
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {renderActions(row.supplierId)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={9} className="h-24 text-center">
+                      No suppliers.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <SupplierScorecardDialog
+        supplierId={scorecardId}
+        startDate={startDate}
+        endDate={endDate}
+        open={!!scorecardId}
+        onOpenChange={(open) => !open && setScorecardId(null)}
+      />
+    </div>
+  );
+}
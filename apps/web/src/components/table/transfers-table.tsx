@@ -0,0 +1,455 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import {
+  ArrowRight,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Filter,
+  MoreHorizontal,
+} from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BranchSelect } from "@/components/branch-select";
+import { CreateTransferDialog } from "@/components/create-transfer-dialog";
+import { ReceiveTransferDialog } from "@/components/receive-transfer-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+import type { TransferListItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "pending":
+      return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
+    case "in transit":
+      return "bg-blue-500/5 text-blue-500 border-blue-500/60";
+    case "completed":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "discrepancy":
+      return "bg-orange-500/5 text-orange-500 border-orange-500/60";
+    case "cancelled":
+      return "bg-red-500/5 text-red-500 border-red-500/60";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+export function TransfersTable() {
+  const { organizationId, userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [shipTransfer, setShipTransfer] =
+    React.useState<TransferListItem | null>(null);
+  const [trackingNumber, setTrackingNumber] = React.useState("");
+  const [receiveTransferId, setReceiveTransferId] =
+    React.useState<Id<"transfer_orders"> | null>(null);
+
+  const { data: transfers, isPending } = useQuery({
+    ...convexQuery(api.transfers.listTransfers, {
+      organizationId: organizationId as Id<"organizations">,
+      branchId: branchId ?? undefined,
+    }),
+    enabled: !!organizationId,
+  });
+
+  const { mutate: shipTransferMutation, isPending: isShipping } = useMutation({
+    mutationFn: useConvexMutation(api.transfers.shipTransfer),
+  });
+  const { mutate: cancelTransfer } = useMutation({
+    mutationFn: useConvexMutation(api.transfers.cancelTransfer),
+  });
+
+  const handleShip = () => {
+    if (!shipTransfer || !userId) return;
+    shipTransferMutation(
+      {
+        transferOrderId: shipTransfer._id,
+        userId,
+        trackingNumber: trackingNumber || undefined,
+      },
+      {
+        onSuccess: (result) => {
+          toast.success(
+            `${result.totalShipped} unit(s) shipped on ${shipTransfer.transferCode}`,
+          );
+          setShipTransfer(null);
+          setTrackingNumber("");
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    );
+  };
+
+  const columns: ColumnDef<TransferListItem>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "transferCode",
+        header: "Transfer ID",
+        cell: ({ row }) => (
+          <div className="font-medium">{row.getValue("transferCode")}</div>
+        ),
+      },
+      {
+        id: "route",
+        header: "Route",
+        cell: ({ row }) => (
+          <div className="flex items-center gap-1">
+            {row.original.sourceBranchName}
+            <ArrowRight className="size-3 text-muted-foreground" />
+            {row.original.destinationBranchName}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "totalRequested",
+        header: () => <div className="text-center">Requested</div>,
+        cell: ({ row }) => (
+          <div className="text-center">{row.original.totalRequested}</div>
+        ),
+      },
+      {
+        accessorKey: "totalShipped",
+        header: () => <div className="text-center">Shipped</div>,
+        cell: ({ row }) => (
+          <div className="text-center">{row.original.totalShipped}</div>
+        ),
+      },
+      {
+        accessorKey: "totalInTransit",
+        header: () => <div className="text-center">In transit</div>,
+        cell: ({ row }) => (
+          <div className="text-center font-medium">
+            {row.original.totalInTransit}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "totalReceived",
+        header: () => <div className="text-center">Received</div>,
+        cell: ({ row }) => (
+          <div className="text-center">{row.original.totalReceived}</div>
+        ),
+      },
+      {
+        accessorKey: "expectedDeliveryAt",
+        header: () => <div className="text-right">Expected</div>,
+        cell: ({ row }) => (
+          <div className="text-right">
+            {formatDate(row.original.expectedDeliveryAt)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "statusName",
+        header: () => <div className="text-center">Status</div>,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <Badge
+              className={cn(
+                "w-24 rounded-sm text-center",
+                getBadgeStyleByStatus(row.original.statusName),
+              )}
+              variant={"outline"}
+            >
+              {row.original.statusName}
+            </Badge>
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const transfer = row.original;
+          const status = transfer.statusCode;
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() =>
+                    navigator.clipboard.writeText(transfer.transferCode)
+                  }
+                >
+                  Copy Transfer ID
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  disabled={status !== "PENDING"}
+                  onClick={() => setShipTransfer(transfer)}
+                >
+                  Ship
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={status !== "IN_TRANSIT"}
+                  onClick={() => setReceiveTransferId(transfer._id)}
+                >
+                  Receive
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  className="text-destructive"
+                  disabled={status !== "PENDING"}
+                  onClick={() =>
+                    cancelTransfer(
+                      { transferOrderId: transfer._id },
+                      {
+                        onSuccess: () =>
+                          toast.success(
+                            `Transfer ${transfer.transferCode} cancelled`,
+                          ),
+                        onError: (error) => toast.error(error.message),
+                      },
+                    )
+                  }
+                >
+                  Cancel transfer
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [cancelTransfer],
+  );
+
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    [],
+  );
+  const [setFilterValue, instantFilterValue, debouncedFilterValue] =
+    useDebouncedInput("", 300);
+
+  const table = useReactTable({
+    data: transfers ?? [],
+    columns,
+    onColumnFiltersChange: setColumnFilters,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    state: {
+      columnFilters,
+    },
+  });
+
+  React.useEffect(() => {
+    table.getColumn("transferCode")?.setFilterValue(debouncedFilterValue);
+  }, [debouncedFilterValue, table]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-between pb-4">
+        <InputGroup className="max-w-[200px]">
+          <InputGroupInput
+            placeholder="Filter Transfer ID..."
+            value={instantFilterValue}
+            onChange={(event) => setFilterValue(event.target.value)}
+          />
+          <InputGroupAddon>
+            <Filter />
+          </InputGroupAddon>
+        </InputGroup>
+        <div className="flex items-center gap-2">
+          <BranchSelect />
+          <CreateTransferDialog />
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {isPending && organizationId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading transfers...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No transfers found.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end space-x-2 py-4">
+        <div className="flex-1 text-muted-foreground text-sm">
+          {table.getFilteredRowModel().rows.length} transfer(s)
+        </div>
+        <div className="space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.firstPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronsLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronRight />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => table.lastPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            <ChevronsRight />
+          </Button>
+        </div>
+      </div>
+
+      <Dialog
+        open={!!shipTransfer}
+        onOpenChange={(open) => !open && setShipTransfer(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ship {shipTransfer?.transferCode}</DialogTitle>
+            <DialogDescription>
+              Source stock is deducted now and held in transit until the
+              destination receives it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transferTrackingNumber">
+              Tracking number (optional)
+            </Label>
+            <Input
+              id="transferTrackingNumber"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShipTransfer(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleShip} disabled={isShipping}>
+              Confirm shipment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ReceiveTransferDialog
+        transferOrderId={receiveTransferId}
+        open={!!receiveTransferId}
+        onOpenChange={(open) => !open && setReceiveTransferId(null)}
+      />
+    </div>
+  );
+}
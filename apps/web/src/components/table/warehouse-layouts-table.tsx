@@ -0,0 +1,318 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  type ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { MoreHorizontal } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { BranchSelect } from "@/components/branch-select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CreateNewButton } from "@/components/ui/create-new-button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WarehouseLayoutDialog } from "@/components/warehouse-layout-dialog";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { WarehouseLayoutVersion } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useBranchStore } from "@/store/branch";
+
+const getBadgeStyleByStatus = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "draft":
+      return "bg-yellow-500/5 text-yellow-500 border-yellow-500/60";
+    case "published":
+      return "bg-green-500/5 text-green-500 border-green-500/60";
+    case "archived":
+      return "bg-muted text-muted-foreground";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const formatDate = (timestamp?: number) =>
+  timestamp
+    ? new Intl.DateTimeFormat("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      }).format(new Date(timestamp))
+    : "-";
+
+export function WarehouseLayoutsTable() {
+  const { userId } = useCurrentUser();
+  const branchId = useBranchStore((state) => state.branchId);
+  const [editor, setEditor] = React.useState<{
+    layoutId: Id<"warehouse_layouts"> | null;
+  } | null>(null);
+
+  const { data: versions, isPending } = useQuery({
+    ...convexQuery(api.warehouseLayouts.listVersions, {
+      branchId: branchId as Id<"branches">,
+    }),
+    enabled: !!branchId,
+  });
+
+  const { mutate: publishLayout } = useMutation({
+    mutationFn: useConvexMutation(api.warehouseLayouts.publishLayout),
+  });
+
+  const columns: ColumnDef<WarehouseLayoutVersion>[] = React.useMemo(
+    () => [
+      {
+        accessorKey: "version",
+        header: "Version",
+        cell: ({ row }) => (
+          <div>
+            <div className="font-medium">v{row.original.version}</div>
+            {row.original.name && (
+              <div className="text-muted-foreground text-xs">
+                {row.original.name}
+              </div>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "statusName",
+        header: "Status",
+        cell: ({ row }) => (
+          <Badge
+            className={cn(
+              "w-24 rounded-sm text-center",
+              getBadgeStyleByStatus(row.original.statusName),
+            )}
+            variant={"outline"}
+          >
+            {row.original.statusName}
+          </Badge>
+        ),
+      },
+      {
+        id: "contents",
+        header: "Contents",
+        cell: ({ row }) => (
+          <div className="text-muted-foreground">
+            {row.original.counts.zones} zone(s), {row.original.counts.racks}{" "}
+            rack(s), {row.original.counts.bins} bin(s)
+          </div>
+        ),
+      },
+      {
+        id: "validation",
+        header: "Validation",
+        cell: ({ row }) =>
+          row.original.validationErrors.length > 0 ? (
+            <div
+              className="text-destructive"
+              title={row.original.validationErrors
+                .map((issue) => `${issue.path} ${issue.message}`)
+                .join("\n")}
+            >
+              {row.original.validationErrors.length} issue(s)
+            </div>
+          ) : (
+            <div className="text-muted-foreground">Valid</div>
+          ),
+      },
+      {
+        accessorKey: "updatedAt",
+        header: "Last saved",
+        cell: ({ row }) => (
+          <div>
+            {formatDate(row.original.updatedAt)}
+            <div className="text-muted-foreground text-xs">
+              {row.original.updatedByName}
+            </div>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "publishedAt",
+        header: "Published",
+        cell: ({ row }) => (
+          <div>
+            {formatDate(row.original.publishedAt)}
+            {row.original.publishedByName && (
+              <div className="text-muted-foreground text-xs">
+                {row.original.publishedByName}
+              </div>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        enableHiding: false,
+        cell: ({ row }) => {
+          const version = row.original;
+          const isDraft = version.statusCode === "DRAFT";
+
+          return (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={"icon-sm"}>
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={() => navigator.clipboard.writeText(version._id)}
+                >
+                  Copy version ID
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setEditor({ layoutId: version._id })}
+                >
+                  {isDraft ? "Edit draft" : "Copy to draft"}
+                </DropdownMenuItem>
+                {isDraft && (
+                  <DropdownMenuItem
+                    disabled={!userId || version.validationErrors.length > 0}
+                    onClick={() =>
+                      userId &&
+                      publishLayout(
+                        { layoutId: version._id, userId },
+                        {
+                          onSuccess: (result) =>
+                            toast.success(
+                              `Layout v${result.version} published: ${result.created} zone(s) created, ${result.updated} updated, ${result.removed} removed`,
+                            ),
+                          onError: (error) => toast.error(error.message),
+                        },
+                      )
+                    }
+                  >
+                    Publish
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          );
+        },
+      },
+    ],
+    [publishLayout, userId],
+  );
+
+  const table = useReactTable({
+    data: versions ?? [],
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-row justify-end pb-4">
+        <div className="flex items-center gap-2">
+          <BranchSelect />
+          {branchId && (
+            <CreateNewButton
+              label="Import layout"
+              onClick={() => setEditor({ layoutId: null })}
+            />
+          )}
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-md border">
+        <Table className="bg-card">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {!branchId ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Select a branch to manage its layouts.
+                </TableCell>
+              </TableRow>
+            ) : isPending ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  Loading layouts...
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  No layouts yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {branchId && (
+        <WarehouseLayoutDialog
+          branchId={branchId}
+          layoutId={editor?.layoutId ?? null}
+          open={!!editor}
+          onOpenChange={(open) => !open && setEditor(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Plus } from "lucide-react";
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useDebouncedInput } from "@/hooks/use-debounced-input";
+
+export interface VariantOption {
+  skuId: Id<"product_variants">;
+  skuCode: string;
+  productName: string;
+}
+
+interface VariantSearchProps {
+  label?: string;
+  onSelect: (variant: VariantOption) => void;
+}
+
+/**
+ * Popover search over SKUs of the current organization.
+ * Used by forms that build up a list of line items.
+ */
+export function VariantSearch({
+  label = "Add product",
+  onSelect,
+}: VariantSearchProps) {
+  const [open, setOpen] = React.useState(false);
+  const { organizationId } = useCurrentUser();
+  const [setSearchTerm, instantSearchTerm, debouncedSearchTerm] =
+    useDebouncedInput("", 300);
+
+  const { data: variants, isPending } = useQuery({
+    ...convexQuery(api.products.searchVariants, {
+      organizationId: organizationId as Id<"organizations">,
+      searchTerm: debouncedSearchTerm,
+    }),
+    enabled: !!organizationId && open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" type="button">
+          <Plus />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search SKU or product..."
+            value={instantSearchTerm}
+            onValueChange={setSearchTerm}
+            className="h-9"
+          />
+          <CommandList>
+            <CommandEmpty>
+              {isPending ? "Searching..." : "No products found."}
+            </CommandEmpty>
+            <CommandGroup>
+              {variants?.map((variant) => (
+                <CommandItem
+                  key={variant.skuId}
+                  value={variant.skuId}
+                  onSelect={() => {
+                    onSelect(variant);
+                    setOpen(false);
+                  }}
+                  className="flex flex-col items-start"
+                >
+                  <span className="font-medium">{variant.skuCode}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {variant.productName}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { convexQuery, useConvexMutation } from "@convex-dev/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { Lock, TriangleAlert, Upload } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface WarehouseLayoutDialogProps {
+  branchId: Id<"branches">;
+  /** Version to start from; null starts from an empty document */
+  layoutId: Id<"warehouse_layouts"> | null;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+type LayoutIssue = {
+  path: string;
+  message: string;
+  elementId?: string;
+  rule?: string;
+};
+
+const RULE_LABELS: Record<string, string> = {
+  LOCKED: "Locked",
+  INACCESSIBLE: "Unreachable",
+};
+
+/**
+ * Import or edit a WarehouseLayout JSON document and save it as the
+ * branch's draft. Validation issues are listed in place, with racks that
+ * are locked by stock or unreachable called out.
+ */
+export function WarehouseLayoutDialog({
+  branchId,
+  layoutId,
+  open,
+  onOpenChange,
+}: WarehouseLayoutDialogProps) {
+  const { userId } = useCurrentUser();
+  const [json, setJson] = React.useState("");
+  const [issues, setIssues] = React.useState<LayoutIssue[]>([]);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const { data: version } = useQuery({
+    ...convexQuery(api.warehouseLayouts.getVersion, {
+      layoutId: layoutId as Id<"warehouse_layouts">,
+    }),
+    enabled: open && !!layoutId,
+  });
+
+  // Re-checked live: stock moving in or out changes which racks are locked
+  const { data: check } = useQuery({
+    ...convexQuery(api.warehouseLayouts.checkLayout, {
+      layoutId: layoutId as Id<"warehouse_layouts">,
+    }),
+    enabled: open && !!layoutId,
+  });
+
+  const { data: inventory } = useQuery({
+    ...convexQuery(api.warehouseLayouts.getLayoutInventory, { branchId }),
+    enabled: open,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: useConvexMutation(api.warehouseLayouts.saveDraft),
+  });
+
+  React.useEffect(() => {
+    if (!open) return;
+    setJson(version ? JSON.stringify(version.layout, null, 2) : "");
+  }, [open, version]);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setIssues(check?.issues ?? []);
+  }, [open, check]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setJson(await file.text());
+    setIssues([]);
+    event.target.value = "";
+  };
+
+  const handleSave = () => {
+    if (!userId) return;
+
+    let layout: unknown;
+    try {
+      layout = JSON.parse(json);
+    } catch {
+      toast.error("Layout must be valid JSON");
+      return;
+    }
+
+    mutate(
+      { branchId, userId, layout },
+      {
+        onSuccess: (result) => {
+          setIssues(result.validationErrors);
+          if (result.validationErrors.length > 0) {
+            toast.warning(
+              `Draft v${result.version} saved with ${result.validationErrors.length} issue(s)`,
+            );
+          } else {
+            toast.success(`Draft v${result.version} saved`);
+            onOpenChange?.(false);
+          }
+        },
+        onError: (error) => {
+          toast.error(error.message || "Failed to save layout");
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {version ? `Edit layout v${version.version}` : "Import layout"}
+          </DialogTitle>
+          <DialogDescription>
+            Saving replaces the branch's current draft. Publish the draft to
+            update storage zones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="layout-json">Layout (JSON)</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload />
+              Load file
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </div>
+          <Textarea
+            id="layout-json"
+            className="h-80 font-mono text-xs"
+            value={json}
+            onChange={(event) => setJson(event.target.value)}
+            placeholder={'{ "version": "1.0", "meta": { ... }, "zones": [] }'}
+          />
+        </div>
+
+        {!!inventory?.lockedRackIds.length && (
+          <div className="flex items-start gap-2 text-muted-foreground text-sm">
+            <Lock className="mt-0.5 size-4 shrink-0" />
+            <span>
+              Racks holding stock must stay where they are:{" "}
+              <span className="font-mono text-xs">
+                {inventory.lockedRackIds.join(", ")}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <div className="max-h-40 space-y-1 overflow-y-auto rounded-md border border-destructive/40 bg-destructive/5 p-3 text-sm">
+            <div className="flex items-center gap-2 font-medium text-destructive">
+              <TriangleAlert className="size-4" />
+              {issues.length} validation issue(s)
+            </div>
+            {issues.map((issue) => (
+              <div
+                key={`${issue.path}-${issue.message}`}
+                className="flex items-center gap-2"
+              >
+                {issue.rule && (
+                  <Badge variant={"destructive"} className="rounded-sm">
+                    {RULE_LABELS[issue.rule] ?? issue.rule}
+                  </Badge>
+                )}
+                <span className="font-mono text-muted-foreground text-xs">
+                  {issue.elementId ?? (issue.path || "layout")}
+                </span>
+                {issue.message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange?.(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending || !json.trim()}>
+            {isPending && <Spinner />}
+            Save draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
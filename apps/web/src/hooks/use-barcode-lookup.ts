@@ -0,0 +1,33 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { useCallback } from "react";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+/**
+ * Resolve scanned codes to product variants through product_barcodes,
+ * falling back to SKU codes. Resolves to null for unknown codes.
+ *
+ * @example
+ * ```tsx
+ * const lookupBarcode = useBarcodeLookup();
+ * const match = await lookupBarcode("8934563123456");
+ * if (match) console.log(match.variant.skuCode);
+ * ```
+ */
+export function useBarcodeLookup() {
+  const queryClient = useQueryClient();
+  const { organizationId } = useCurrentUser();
+
+  return useCallback(
+    (code: string) =>
+      queryClient.fetchQuery(
+        convexQuery(api.products.searchByBarcode, {
+          barcodeValue: code,
+          organizationId: organizationId as Id<"organizations"> | undefined,
+        }),
+      ),
+    [queryClient, organizationId],
+  );
+}
@@ -0,0 +1,35 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { useCallback } from "react";
+import { useBranchStore } from "@/store/branch";
+
+/**
+ * Resolve scanned bin labels (zone paths) or typed zone names to a zone of
+ * the selected branch. Resolves to null for unknown locations.
+ *
+ * @example
+ * ```tsx
+ * const lookupZone = useZoneLookup();
+ * const zone = await lookupZone("WH1.A.01.03");
+ * if (zone) console.log(zone.name);
+ * ```
+ */
+export function useZoneLookup() {
+  const queryClient = useQueryClient();
+  const branchId = useBranchStore((state) => state.branchId);
+
+  return useCallback(
+    async (code: string) =>
+      branchId
+        ? await queryClient.fetchQuery(
+            convexQuery(api.handheld.getZoneByCode, {
+              branchId: branchId as Id<"branches">,
+              code,
+            }),
+          )
+        : null,
+    [queryClient, branchId],
+  );
+}
@@ -0,0 +1,50 @@
+import type { api } from "@wms/backend/convex/_generated/api";
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
+
+/** Product a scanned code resolved to, with its GS1 data, or null */
+export type BarcodeMatch = FunctionReturnType<
+  typeof api.products.searchByBarcode
+>;
+
+/**
+ * Whether a scanned code is the expected item: a barcode or SKU code of
+ * the SKU, or the label of the expected batch
+ */
+export function matchesItem(
+  code: string,
+  match: BarcodeMatch,
+  expected: { skuId: Id<"product_variants">; batchNumber?: string | null },
+): boolean {
+  if (expected.batchNumber && code.trim() === expected.batchNumber) {
+    return true;
+  }
+  return match?.variant._id === expected.skuId;
+}
+
+/**
+ * Units a scan stands for: the GS1 count (AI 37) of a case, otherwise one
+ */
+export const scanQuantity = (match: BarcodeMatch) => match?.gs1?.count ?? 1;
+
+/**
+ * Serial number carried by a scan: the GS1 serial (AI 21), or the raw code
+ * when it is not a product barcode
+ */
+export const scanSerial = (code: string, match: BarcodeMatch) =>
+  match?.gs1?.serialNumber ?? (match ? null : code.trim());
+
+/**
+ * Count lines a scan can be for: the line whose batch label was scanned,
+ * otherwise every line of the scanned SKU. More than one line means the
+ * SKU is counted per batch and its batch label must be scanned.
+ */
+export function findCountLines<
+  Line extends { skuId: Id<"product_variants">; batchNumber?: string | null },
+>(code: string, match: BarcodeMatch, lines: Line[]): Line[] {
+  const batchLine = lines.find(
+    (line) => line.batchNumber && line.batchNumber === code.trim(),
+  );
+  if (batchLine) return [batchLine];
+  return match ? lines.filter((line) => line.skuId === match.variant._id) : [];
+}
@@ -0,0 +1,208 @@
+/**
+ * Code 128 encoder for bin, batch and SKU labels
+ *
+ * Encodes printable ASCII in code set B and runs of four or more digits in
+ * code set C. GS characters in the data become FNC1, and GS1-128 data is
+ * started with FNC1.
+ */
+
+// Bar/space widths of symbol values 0-105, then the stop pattern
+const PATTERNS = [
+  "212222",
+  "222122",
+  "222221",
+  "121223",
+  "121322",
+  "131222",
+  "122213",
+  "122312",
+  "132212",
+  "221213",
+  "221312",
+  "231212",
+  "112232",
+  "122132",
+  "122231",
+  "113222",
+  "123122",
+  "123221",
+  "223211",
+  "221132",
+  "221231",
+  "213212",
+  "223112",
+  "312131",
+  "311222",
+  "321122",
+  "321221",
+  "312212",
+  "322112",
+  "322211",
+  "212123",
+  "212321",
+  "232121",
+  "111323",
+  "131123",
+  "131321",
+  "112313",
+  "132113",
+  "132311",
+  "211313",
+  "231113",
+  "231311",
+  "112133",
+  "112331",
+  "132131",
+  "113123",
+  "113321",
+  "133121",
+  "313121",
+  "211331",
+  "231131",
+  "213113",
+  "213311",
+  "213131",
+  "311123",
+  "311321",
+  "331121",
+  "312113",
+  "312311",
+  "332111",
+  "314111",
+  "221411",
+  "431111",
+  "111224",
+  "111422",
+  "121124",
+  "121421",
+  "141122",
+  "141221",
+  "112214",
+  "112412",
+  "122114",
+  "122411",
+  "142112",
+  "142211",
+  "241211",
+  "221114",
+  "413111",
+  "241112",
+  "134111",
+  "111242",
+  "121142",
+  "121241",
+  "114212",
+  "124112",
+  "124211",
+  "411212",
+  "421112",
+  "421211",
+  "212141",
+  "214121",
+  "412121",
+  "111143",
+  "111341",
+  "131141",
+  "114113",
+  "114311",
+  "411113",
+  "411311",
+  "113141",
+  "114131",
+  "311141",
+  "411131",
+  "211412",
+  "211214",
+  "211232",
+  "2331112",
+];
+
+const FNC1 = 102;
+const CODE_B = 100;
+const CODE_C = 99;
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+const GROUP_SEPARATOR = "\u001d";
+
+/** Number of digits starting at the given position */
+const digitRun = (data: string, start: number) => {
+  let end = start;
+  while (end < data.length && data[end] >= "0" && data[end] <= "9") end++;
+  return end - start;
+};
+
+/**
+ * Encode data as Code 128 symbol values, including start, check and stop
+ */
+export function encodeCode128(data: string, gs1 = false): number[] {
+  if (!data) {
+    throw new Error("Nothing to encode in the barcode");
+  }
+
+  const values: number[] = [];
+  let codeSet: "B" | "C" = digitRun(data, 0) >= 4 ? "C" : "B";
+  values.push(codeSet === "C" ? START_C : START_B);
+  if (gs1) values.push(FNC1);
+
+  let position = 0;
+  while (position < data.length) {
+    const char = data[position];
+    if (char === GROUP_SEPARATOR) {
+      values.push(FNC1);
+      position++;
+      continue;
+    }
+
+    const run = digitRun(data, position);
+    if (codeSet === "C") {
+      if (run >= 2) {
+        values.push(Number(data.slice(position, position + 2)));
+        position += 2;
+        continue;
+      }
+      values.push(CODE_B);
+      codeSet = "B";
+    } else if (run >= 4 && (run % 2 === 0 || position === 0)) {
+      // Odd runs are started with one digit in code set B
+      values.push(CODE_C);
+      codeSet = "C";
+      continue;
+    }
+
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new Error(`Code 128 cannot encode the character "${char}"`);
+    }
+    values.push(code - 32);
+    position++;
+  }
+
+  const checksum =
+    values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) %
+    103;
+  values.push(checksum, STOP);
+  return values;
+}
+
+/**
+ * Bars of a Code 128 barcode as [start, width] pairs in module units,
+ * with the total width of the symbol (without quiet zones)
+ */
+export function code128Bars(data: string, gs1 = false) {
+  const bars: [number, number][] = [];
+  let x = 0;
+
+  for (const value of encodeCode128(data, gs1)) {
+    const pattern = PATTERNS[value];
+    for (let i = 0; i < pattern.length; i++) {
+      const width = Number(pattern[i]);
+      // Patterns alternate bar, space, bar...
+      if (i % 2 === 0) bars.push([x, width]);
+      x += width;
+    }
+  }
+
+  return { bars, width: x };
+}
@@ -0,0 +1,206 @@
+import type { LabelData } from "@/lib/types";
+import { code128Bars } from "./code128";
+import { encodeQr } from "./qr";
+
+/**
+ * PDF label sheets for office printers
+ *
+ * A4 sheets of 2 x 7 labels of 99.1 x 38.1 mm (the common L7163 layout);
+ * carton labels take a 99.1 x 139.9 mm half of a 2-up sheet. Text is set in
+ * the standard Helvetica font, so no fonts are embedded.
+ */
+
+const MM = 72 / 25.4;
+const PAGE = { width: 210 * MM, height: 297 * MM };
+
+type SheetLayout = {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  gap: number;
+};
+
+const SHEETS: Record<"small" | "carton", SheetLayout> = {
+  small: {
+    columns: 2,
+    rows: 7,
+    width: 99.1 * MM,
+    height: 38.1 * MM,
+    left: 4.65 * MM,
+    top: 15.15 * MM,
+    gap: 2.5 * MM,
+  },
+  carton: {
+    columns: 2,
+    rows: 2,
+    width: 99.1 * MM,
+    height: 139.9 * MM,
+    left: 4.65 * MM,
+    top: 8.5 * MM,
+    gap: 2.5 * MM,
+  },
+};
+
+const PADDING = 3 * MM;
+
+/** Escape a string for a PDF literal; Helvetica is WinAnsi encoded */
+const pdfString = (value: string) =>
+  `(${value
+    .normalize("NFC")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`)})`;
+
+const n = (value: number) => Number(value.toFixed(2)).toString();
+
+/** Truncate text to fit, approximating Helvetica's average glyph width */
+const fit = (value: string, size: number, width: number) => {
+  const maxChars = Math.floor(width / (size * 0.5));
+  return value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+};
+
+/**
+ * Content stream operators drawing one label with its top-left corner at
+ * (x, y) in PDF points (origin bottom-left)
+ */
+function drawLabel(
+  label: LabelData,
+  x: number,
+  y: number,
+  sheet: SheetLayout,
+): string[] {
+  const ops: string[] = [];
+  const innerWidth = sheet.width - PADDING * 2;
+  const text = (value: string, size: number, top: number) => {
+    ops.push(
+      `BT /F1 ${n(size)} Tf ${n(x + PADDING)} ${n(y - top - size)} Td ${pdfString(fit(value, size, innerWidth))} Tj ET`,
+    );
+  };
+
+  const isCarton = label.kind === "CARTON";
+  const titleSize = isCarton ? 18 : 11;
+  const lineSize = isCarton ? 12 : 7;
+  text(label.title, titleSize, PADDING);
+  label.lines.forEach((line, index) => {
+    text(line, lineSize, PADDING + titleSize + 2 + index * (lineSize + 1.5));
+  });
+
+  const { symbology, data, text: humanReadable } = label.barcode;
+  if (symbology === "QR") {
+    const modules = encodeQr(data);
+    const size = Math.min(innerWidth, sheet.height / 2) * 0.8;
+    const moduleSize = size / modules.length;
+    const left = x + sheet.width - PADDING - size;
+    const bottom = y - sheet.height + PADDING;
+    modules.forEach((row, rowIndex) => {
+      row.forEach((dark, column) => {
+        if (!dark) return;
+        ops.push(
+          `${n(left + column * moduleSize)} ${n(bottom + size - (rowIndex + 1) * moduleSize)} ${n(moduleSize)} ${n(moduleSize)} re`,
+        );
+      });
+    });
+    ops.push("f");
+  } else {
+    const { bars, width } = code128Bars(data, symbology === "GS1_128");
+    const moduleWidth = Math.min(innerWidth / width, 0.33 * MM);
+    const barHeight = 10 * MM;
+    const bottom = y - sheet.height + PADDING + 8;
+    for (const [start, barWidth] of bars) {
+      ops.push(
+        `${n(x + PADDING + start * moduleWidth)} ${n(bottom)} ${n(barWidth * moduleWidth)} ${n(barHeight)} re`,
+      );
+    }
+    ops.push("f");
+    ops.push(
+      `BT /F1 7 Tf ${n(x + PADDING)} ${n(bottom - 7)} Td ${pdfString(fit(humanReadable, 7, innerWidth))} Tj ET`,
+    );
+  }
+
+  return ops;
+}
+
+/**
+ * Lay labels out on A4 sheets, starting carton labels on their own sheets
+ */
+function buildPages(labels: LabelData[], copies: number): string[] {
+  const pages: string[] = [];
+  const copiesPerLabel = Math.max(1, Math.floor(copies));
+
+  for (const [kind, sheet] of Object.entries(SHEETS)) {
+    const perPage = sheet.columns * sheet.rows;
+    const sheetLabels = labels
+      .filter((label) => (label.kind === "CARTON") === (kind === "carton"))
+      .flatMap((label) => Array<LabelData>(copiesPerLabel).fill(label));
+
+    for (let start = 0; start < sheetLabels.length; start += perPage) {
+      const ops = sheetLabels
+        .slice(start, start + perPage)
+        .flatMap((label, index) => {
+          const column = index % sheet.columns;
+          const row = Math.floor(index / sheet.columns);
+          return drawLabel(
+            label,
+            sheet.left + column * (sheet.width + sheet.gap),
+            PAGE.height - sheet.top - row * sheet.height,
+            sheet,
+          );
+        });
+      pages.push(ops.join("\n"));
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Render labels as a PDF document of A4 label sheets
+ */
+export function renderLabelPdf(labels: LabelData[], copies = 1): Blob {
+  const pages = buildPages(labels, copies);
+  if (pages.length === 0) {
+    throw new Error("No labels to print");
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then a page and its content
+  // stream for each page. Every character is single-byte after pdfString,
+  // so string lengths are byte offsets.
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  ];
+  for (const [index, content] of pages.entries()) {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(PAGE.width)} ${n(PAGE.height)}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  }
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    output += `${offset.toString().padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([latin1(output)], { type: "application/pdf" });
+}
+
+/** Bytes of a string in the PDF's single-byte (Latin-1) encoding */
+function latin1(value: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[i] = code > 0xff ? 0x3f : code;
+  }
+  return bytes;
+}
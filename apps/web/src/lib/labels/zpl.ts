@@ -0,0 +1,63 @@
+import type { LabelData } from "@/lib/types";
+
+/** Thermal label stock in dots at 203 dpi: 4 x 2 in, cartons 4 x 6 in */
+const LABEL_SIZES: Record<
+  LabelData["kind"],
+  { width: number; height: number }
+> = {
+  BATCH: { width: 812, height: 406 },
+  BIN: { width: 812, height: 406 },
+  SKU: { width: 812, height: 406 },
+  CARTON: { width: 812, height: 1218 },
+};
+
+const MARGIN = 30;
+
+/** Escape field data for ^FH; the printer renders it as UTF-8 (^CI28) */
+const escapeField = (value: string) =>
+  value.replace(
+    /[\\^~]/g,
+    (char) => `\\${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+const field = (x: number, y: number, font: string, value: string) =>
+  `^FO${x},${y}${font}^FH\\^FD${escapeField(value)}^FS`;
+
+/**
+ * Render one label as ZPL II, printing the given number of copies
+ */
+export function renderZplLabel(label: LabelData, copies = 1): string {
+  const { width, height } = LABEL_SIZES[label.kind];
+  const commands = ["^XA", "^CI28", `^PW${width}`, `^LL${height}`];
+
+  commands.push(field(MARGIN, MARGIN, "^A0N,44,44", label.title));
+  label.lines.forEach((line, index) => {
+    commands.push(field(MARGIN, MARGIN + 56 + index * 34, "^A0N,28,28", line));
+  });
+
+  const { symbology, data, text } = label.barcode;
+  if (symbology === "QR") {
+    // Magnification 8 puts a version 1-3 code at about 1.2 in
+    commands.push(
+      `^FO${width - MARGIN - 260},${height - MARGIN - 260}^BQN,2,8^FH\\^FDMA,${escapeField(data)}^FS`,
+    );
+  } else {
+    const barcodeTop = height - MARGIN - 130;
+    // Mode D inserts FNC1 from the bracketed AIs; mode A picks code sets
+    const content =
+      symbology === "GS1_128"
+        ? `^BCN,100,Y,N,N,D^FD${text}`
+        : `^BCN,100,Y,N,N,A^FH\\^FD${escapeField(data)}`;
+    commands.push(`^FO${MARGIN},${barcodeTop}^BY2,3,100${content}^FS`);
+  }
+
+  commands.push(`^PQ${Math.max(1, Math.floor(copies))}`, "^XZ");
+  return commands.join("\n");
+}
+
+/**
+ * Render labels as one ZPL job
+ */
+export function renderZpl(labels: LabelData[], copies = 1): string {
+  return labels.map((label) => renderZplLabel(label, copies)).join("\n");
+}
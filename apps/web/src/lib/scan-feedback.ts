@@ -0,0 +1,38 @@
+/** Outcome of handling a scan, shown and sounded by the barcode scanner */
+export type ScanFeedback = {
+  ok: boolean;
+  message: string;
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short beep: a single high tone for an accepted scan, two low
+ * buzzes for an unknown or unexpected code
+ */
+export function playScanTone(ok: boolean) {
+  if (typeof window === "undefined" || !window.AudioContext) return;
+  audioContext ??= new AudioContext();
+
+  const tones = ok
+    ? [{ frequency: 1760, at: 0 }]
+    : [
+        { frequency: 220, at: 0 },
+        { frequency: 220, at: 0.2 },
+      ];
+
+  for (const tone of tones) {
+    const start = audioContext.currentTime + tone.at;
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = ok ? "sine" : "square";
+    oscillator.frequency.value = tone.frequency;
+    gain.gain.setValueAtTime(0.15, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.15);
+  }
+}
@@ -1,4 +1,6 @@
+import type { api } from "@wms/backend/convex/_generated/api";
 import type { Doc, Id } from "@wms/backend/convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
 
 export type SystemLookups = Doc<"system_lookups">;
 
@@ -11,18 +13,26 @@ export type NotificationItem = Doc<"notifications"> & {
   priority: SystemLookups | null;
 };
 
-export type PurchaseOrder = Omit<
-  Doc<"purchase_orders">,
-  | "_id"
-  | "supplierId"
-  | "createdByUserId"
-  | "purchaseOrderStatusTypeId"
-  | "organizationId"
-  | "branchId"
-> & {
-  purchaseOrderStatus: Pick<SystemLookups, "lookupValue"> | null;
-  supplier: Pick<Supplier, "name" | "defaultLeadTimeDays"> | null;
-  createdByUser: Pick<User, "fullName"> | null;
+// ============================================================================
+// PURCHASE ORDER TYPES
+// ============================================================================
+
+/**
+ * Purchase order list item - used in the purchase orders table
+ */
+export type PurchaseOrder = Doc<"purchase_orders"> & {
+  version: number;
+  supplierName: string;
+  branchName: string;
+  statusName: string;
+  statusCode: string;
+  createdByName: string;
+  lineCount: number;
+  quantityOrdered: number;
+  quantityReceived: number;
+  totalCost: number;
+  /** AMEND | SUBMIT | APPROVE | REJECT | SEND | CANCEL | CLOSE_SHORT */
+  availableActions: string[];
 };
 
 // ============================================================================
@@ -39,8 +49,12 @@ export type ReturnRequestListItem = {
   supplier: Pick<Supplier, "name"> | null;
   requestedByUser: Pick<User, "fullName"> | null;
   returnStatus: Pick<SystemLookups, "lookupValue"> | null;
+  statusCode: string | null;
   totalSKUs: number;
   totalItems: number;
+  totalExpectedCredit: number;
+  totalActualCredit: number | null;
+  creditVariance: number | null;
 };
 
 /**
@@ -52,9 +66,14 @@ export type ReturnRequestDetailItem = {
   productName: string | null;
   quantityToReturn: number;
   expectedCreditAmount: number;
+  actualCreditAmount: number | null;
+  creditVariance: number | null;
   reason: Pick<SystemLookups, "lookupValue"> | null;
   customReasonNotes?: string;
   batchId: string;
+  batchNumber: string | null;
+  batchQuantity: number | null;
+  isSerialTracked: boolean;
 };
 
 /**
@@ -67,9 +86,21 @@ export type ReturnRequestWithDetails = {
   supplier: Pick<Supplier, "name"> | null;
   requestedByUser: Pick<User, "fullName"> | null;
   returnStatus: Pick<SystemLookups, "lookupValue"> | null;
+  statusCode: string;
+  availableActions: string[];
+  approvedByUser: Pick<User, "fullName"> | null;
+  approvedAt: number | null;
+  pickedAt: number | null;
+  shippedAt: number | null;
+  creditReceivedAt: number | null;
+  creditNoteReference: string | null;
+  closedAt: number | null;
+  closeReason: string | null;
   totalSKUs: number;
   totalExpectedQuantity: number;
   totalExpectedCredit: number;
+  totalActualCredit: number | null;
+  creditVariance: number | null;
   details: ReturnRequestDetailItem[];
 };
 
@@ -86,7 +117,7 @@ export type CycleCountSessionListItem = {
   name: string;
   cycleCountType: Pick<SystemLookups, "lookupValue"> | null;
   sessionStatus: Pick<SystemLookups, "lookupValue"> | null;
-  createdByUser: Pick<User, "fullName"> | null;
+  assignedUser: Pick<User, "fullName"> | null;
   zonesCount: number;
   createdAt: number;
 };
@@ -106,18 +137,23 @@ export type CycleCountStats = {
  */
 export type CycleCountLineItem = {
   _id: Id<"session_line_items">;
-  productId: string;
+  skuId: Id<"product_variants">;
+  skuCode: string;
   productName: string;
+  zoneId?: Id<"storage_zones">;
+  batchId?: Id<"inventory_batches">;
+  batchNumber: string | null;
   expectedQuantity: number;
   actualQuantity: number;
   variance: number;
+  scannedAt?: number;
 };
 
 /**
  * Cycle count zone detail - zone information with assigned worker and line items
  */
 export type CycleCountZoneDetail = {
-  zoneId: string;
+  zoneId: Id<"storage_zones">;
   zoneName: string;
   assignedWorker: Pick<User, "fullName"> | null;
   lineItems: CycleCountLineItem[];
@@ -134,10 +170,265 @@ export type CycleCountSessionWithDetails = {
   name: string;
   cycleCountType: Pick<SystemLookups, "lookupValue"> | null;
   sessionStatus: Pick<SystemLookups, "lookupValue"> | null;
-  createdByUser: Pick<User, "fullName"> | null;
+  statusCode: string;
+  assignedUser: Pick<User, "fullName"> | null;
   createdAt: number;
   zones: CycleCountZoneDetail[];
 };
+// ============================================================================
+// OUTBOUND ORDER TYPES
+// ============================================================================
+
+/**
+ * Outbound order list item - used in the outbound orders table
+ */
+export type OutboundOrderListItem = {
+  _id: Id<"outbound_orders">;
+  orderCode: string;
+  orderDate: number;
+  requestedShipDate?: number;
+  customerName?: string;
+  trackingNumber?: string;
+  statusName: string;
+  statusCode: string;
+  createdByName: string;
+  totalLines: number;
+  totalRequested: number;
+  totalPicked: number;
+  totalPacked: number;
+};
+
+/**
+ * Customer return (RMA) list item - used in the customer returns table
+ */
+export type CustomerReturnListItem = {
+  _id: Id<"customer_returns">;
+  rmaCode: string;
+  orderCode: string;
+  customerName?: string;
+  reason?: string;
+  authorizedAt: number;
+  receivedAt?: number;
+  completedAt?: number;
+  statusName: string;
+  statusCode: string;
+  createdByName: string;
+  totalLines: number;
+  totalAuthorized: number;
+  totalReceived: number;
+  totalInspected: number;
+};
+
+/**
+ * Receive session list item - used in the receiving sessions table
+ */
+export type ReceiveSessionListItem = {
+  receiveSessionId: Id<"receive_sessions">;
+  receiveSessionCode: string;
+  purchaseOrderCode: string;
+  supplierName: string;
+  receivedAt: number;
+  status: string;
+  statusCode: string;
+  totalItems: number;
+  totalExpected: number;
+  totalReceived: number;
+  progressPercentage: number;
+};
+
+/**
+ * Picking session list item - used in the picking sessions table
+ */
+export type PickingSessionListItem = {
+  _id: Id<"work_sessions">;
+  sessionCode: string;
+  orderCode: string;
+  assignedUserName: string;
+  statusName: string;
+  statusCode: string;
+  startedAt?: number;
+  completedAt?: number;
+  totalLines: number;
+  totalExpected: number;
+  totalPicked: number;
+};
+
+// ============================================================================
+// TRANSFER TYPES
+// ============================================================================
+
+/**
+ * Transfer list item - used in the transfers table
+ */
+export type TransferListItem = {
+  _id: Id<"transfer_orders">;
+  transferCode: string;
+  sourceBranchId: Id<"branches">;
+  destinationBranchId: Id<"branches">;
+  sourceBranchName: string;
+  destinationBranchName: string;
+  expectedDeliveryAt?: number;
+  actualDeliveryAt?: number;
+  trackingNumber?: string;
+  statusName: string;
+  statusCode: string;
+  totalLines: number;
+  totalRequested: number;
+  totalShipped: number;
+  totalReceived: number;
+  totalInTransit: number;
+};
+
+// ============================================================================
+// STOCK TYPES
+// ============================================================================
+
+/**
+ * Stock on hand row - used in the stock on hand table
+ */
+export type StockOnHandItem = {
+  skuId: Id<"product_variants">;
+  skuCode: string;
+  productId: Id<"products">;
+  productName: string;
+  categoryName: string;
+  brandName: string;
+  onHand: number;
+  held: number;
+  reserved: number;
+  available: number;
+  inTransit: number;
+  batchCount: number;
+  nearestExpiry: number | null;
+};
+
+/**
+ * Inventory batch list item - used in the batches table
+ */
+export type InventoryBatchListItem = Doc<"inventory_batches"> & {
+  skuCode: string;
+  productName: string;
+  zoneName: string;
+  zonePath: string;
+  branchName: string;
+  statusName: string;
+  statusCode: string;
+  held: number;
+  reserved: number;
+  available: number;
+};
+
+/**
+ * Quality hold list item - used in the quality holds table
+ */
+export type QualityHoldListItem = Doc<"inventory_holds"> & {
+  statusName: string;
+  statusCode: string;
+  skuCode: string;
+  productName: string;
+  internalBatchNumber: string | null;
+  supplierBatchNumber: string | null;
+  heldQuantity: number;
+  zoneName: string;
+  sourceZoneName: string;
+  dispositionCode: string | null;
+  dispositionName: string | null;
+  supplierName: string | null;
+  returnRequestCode: string | null;
+  placedByName: string;
+  resolvedByName: string | null;
+};
+
+// ============================================================================
+// SERIAL NUMBER TYPES
+// ============================================================================
+
+/**
+ * Serial number list item - used in the serial numbers table
+ */
+export type SerialNumberListItem = Doc<"serial_numbers"> & {
+  skuCode: string;
+  productName: string;
+  statusName: string;
+  statusCode: string;
+  zoneName: string | null;
+  batchNumber: string | null;
+  branchName: string | null;
+  warrantyStatus: "NONE" | "ACTIVE" | "EXPIRED";
+};
+
+// ============================================================================
+// STORAGE ZONE TYPES
+// ============================================================================
+
+export type StorageZone = Doc<"storage_zones"> & {
+  zoneTypeName: string;
+  zoneTypeCode: string;
+};
+
+/**
+ * Storage zone tree row - a zone, or a group for a path segment without
+ * a zone of its own
+ */
+export type StorageZoneTreeRow = {
+  kind: "ZONE" | "GROUP";
+  path: string;
+  depth: number;
+  zone: StorageZone | null;
+  batchCount: number;
+  onHand: number;
+  childCount: number;
+};
+
+// ============================================================================
+// WAREHOUSE LAYOUT TYPES
+// ============================================================================
+
+/**
+ * Layout version summary - the stored layout document is left out
+ */
+export type WarehouseLayoutVersion = Omit<
+  Doc<"warehouse_layouts">,
+  "layout"
+> & {
+  statusCode: string;
+  statusName: string;
+  updatedByName: string;
+  publishedByName: string | null;
+  name: string | null;
+  counts: { zones: number; racks: number; bins: number };
+};
+
+// ============================================================================
+// LABEL TYPES
+// ============================================================================
+
+/**
+ * Label content - a batch, bin, SKU shelf tag or carton label to print
+ */
+export type LabelData = FunctionReturnType<typeof api.labels.getLabels>[number];
+
+// ============================================================================
+// HANDHELD TYPES
+// ============================================================================
+
+/**
+ * Open task assigned to the operator - a receive, pick, count, putaway or
+ * move work session
+ */
+export type HandheldTaskListItem = FunctionReturnType<
+  typeof api.handheld.getMyTasks
+>[number];
+
+/**
+ * Task with its lines in walking order
+ */
+export type HandheldTask = NonNullable<
+  FunctionReturnType<typeof api.handheld.getTask>
+>;
+
+export type HandheldTaskLine = HandheldTask["lines"][number];
+
 export type Product = Omit<Doc<"products">, "_id" | "organizationId"> & {
   storageRequirementType: Pick<SystemLookups, "lookupValue"> | null;
   trackingMethodType: Pick<SystemLookups, "lookupValue"> | null;
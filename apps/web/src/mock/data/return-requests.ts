@@ -1,422 +0,0 @@
-import type { Id } from "@wms/backend/convex/_generated/dataModel";
-import type {
-  ReturnRequestListItem,
-  ReturnRequestWithDetails,
-} from "@/lib/types";
-
-// Mock data for return requests list
-export const MOCK_RETURN_REQUESTS: ReturnRequestListItem[] = [
-  {
-    _id: "rr_001" as Id<"return_requests">,
-    requestCode: "RR-001",
-    requestedAt: 1685577600000,
-    supplier: { name: "Acme Supplies" },
-    requestedByUser: { fullName: "John Doe" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 3,
-    totalItems: 15,
-  },
-  {
-    _id: "rr_002" as Id<"return_requests">,
-    requestCode: "RR-002",
-    requestedAt: 1685664000000,
-    supplier: { name: "Global Parts Inc" },
-    requestedByUser: { fullName: "Jane Smith" },
-    returnStatus: { lookupValue: "Approved" },
-    totalSKUs: 5,
-    totalItems: 25,
-  },
-  {
-    _id: "rr_003" as Id<"return_requests">,
-    requestCode: "RR-003",
-    requestedAt: 1685750400000,
-    supplier: { name: "Tech Distributors" },
-    requestedByUser: { fullName: "Bob Johnson" },
-    returnStatus: { lookupValue: "Returned" },
-    totalSKUs: 2,
-    totalItems: 8,
-  },
-  {
-    _id: "rr_004" as Id<"return_requests">,
-    requestCode: "RR-004",
-    requestedAt: 1685836800000,
-    supplier: { name: "Quality Materials" },
-    requestedByUser: { fullName: "Alice Brown" },
-    returnStatus: { lookupValue: "Rejected" },
-    totalSKUs: 4,
-    totalItems: 20,
-  },
-  {
-    _id: "rr_005" as Id<"return_requests">,
-    requestCode: "RR-005",
-    requestedAt: 1685923200000,
-    supplier: { name: "Premier Wholesale" },
-    requestedByUser: { fullName: "Charlie Davis" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 6,
-    totalItems: 30,
-  },
-  {
-    _id: "rr_006" as Id<"return_requests">,
-    requestCode: "RR-006",
-    requestedAt: 1686009600000,
-    supplier: { name: "Eastern Imports" },
-    requestedByUser: { fullName: "Diana Wilson" },
-    returnStatus: { lookupValue: "Approved" },
-    totalSKUs: 3,
-    totalItems: 12,
-  },
-  {
-    _id: "rr_007" as Id<"return_requests">,
-    requestCode: "RR-007",
-    requestedAt: 1686096000000,
-    supplier: { name: "Western Supply Co" },
-    requestedByUser: { fullName: "Edward Martinez" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 7,
-    totalItems: 35,
-  },
-  {
-    _id: "rr_008" as Id<"return_requests">,
-    requestCode: "RR-008",
-    requestedAt: 1686182400000,
-    supplier: { name: "Northern Trading" },
-    requestedByUser: { fullName: "Fiona Garcia" },
-    returnStatus: { lookupValue: "Returned" },
-    totalSKUs: 4,
-    totalItems: 18,
-  },
-  {
-    _id: "rr_009" as Id<"return_requests">,
-    requestCode: "RR-009",
-    requestedAt: 1686268800000,
-    supplier: { name: "Southern Vendors" },
-    requestedByUser: { fullName: "George Lee" },
-    returnStatus: { lookupValue: "Approved" },
-    totalSKUs: 5,
-    totalItems: 22,
-  },
-  {
-    _id: "rr_010" as Id<"return_requests">,
-    requestCode: "RR-010",
-    requestedAt: 1686355200000,
-    supplier: { name: "Central Supplies Ltd" },
-    requestedByUser: { fullName: "Hannah White" },
-    returnStatus: { lookupValue: "Rejected" },
-    totalSKUs: 2,
-    totalItems: 10,
-  },
-  {
-    _id: "rr_011" as Id<"return_requests">,
-    requestCode: "RR-011",
-    requestedAt: 1686441600000,
-    supplier: { name: "Metro Parts" },
-    requestedByUser: { fullName: "Ian Taylor" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 8,
-    totalItems: 40,
-  },
-  {
-    _id: "rr_012" as Id<"return_requests">,
-    requestCode: "RR-012",
-    requestedAt: 1686528000000,
-    supplier: { name: "City Wholesale" },
-    requestedByUser: { fullName: "Julia Anderson" },
-    returnStatus: { lookupValue: "Approved" },
-    totalSKUs: 3,
-    totalItems: 14,
-  },
-  {
-    _id: "rr_013" as Id<"return_requests">,
-    requestCode: "RR-013",
-    requestedAt: 1686614400000,
-    supplier: { name: "Industrial Suppliers" },
-    requestedByUser: { fullName: "Kevin Thomas" },
-    returnStatus: { lookupValue: "Returned" },
-    totalSKUs: 6,
-    totalItems: 28,
-  },
-  {
-    _id: "rr_014" as Id<"return_requests">,
-    requestCode: "RR-014",
-    requestedAt: 1686700800000,
-    supplier: { name: "Retail Components" },
-    requestedByUser: { fullName: "Laura Jackson" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 4,
-    totalItems: 16,
-  },
-  {
-    _id: "rr_015" as Id<"return_requests">,
-    requestCode: "RR-015",
-    requestedAt: 1686787200000,
-    supplier: { name: "Express Materials" },
-    requestedByUser: { fullName: "Michael Harris" },
-    returnStatus: { lookupValue: "Approved" },
-    totalSKUs: 5,
-    totalItems: 24,
-  },
-];
-
-// Mock data for return request details (keyed by request ID)
-export const MOCK_RETURN_REQUEST_DETAILS: Record<
-  string,
-  ReturnRequestWithDetails
-> = {
-  rr_001: {
-    _id: "rr_001" as Id<"return_requests">,
-    requestCode: "RR-001",
-    requestedAt: 1685577600000,
-    supplier: { name: "Acme Supplies" },
-    requestedByUser: { fullName: "John Doe" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 3,
-    totalExpectedQuantity: 15,
-    totalExpectedCredit: 450.0,
-    details: [
-      {
-        _id: "rrd_001_1" as Id<"return_request_details">,
-        skuCode: "SKU-A001",
-        productName: "Widget Pro X",
-        quantityToReturn: 5,
-        expectedCreditAmount: 150.0,
-        reason: { lookupValue: "Defective" },
-        customReasonNotes: "Multiple units have scratches on surface",
-        batchId: "BATCH-001",
-      },
-      {
-        _id: "rrd_001_2" as Id<"return_request_details">,
-        skuCode: "SKU-A002",
-        productName: "Widget Pro Y",
-        quantityToReturn: 7,
-        expectedCreditAmount: 210.0,
-        reason: { lookupValue: "Wrong Item" },
-        batchId: "BATCH-002",
-      },
-      {
-        _id: "rrd_001_3" as Id<"return_request_details">,
-        skuCode: "SKU-A003",
-        productName: "Widget Pro Z",
-        quantityToReturn: 3,
-        expectedCreditAmount: 90.0,
-        reason: { lookupValue: "Damaged in Transit" },
-        customReasonNotes: "Packaging was crushed",
-        batchId: "BATCH-003",
-      },
-    ],
-  },
-  rr_002: {
-    _id: "rr_002" as Id<"return_requests">,
-    requestCode: "RR-002",
-    requestedAt: 1685664000000,
-    supplier: { name: "Global Parts Inc" },
-    requestedByUser: { fullName: "Jane Smith" },
-    returnStatus: { lookupValue: "Approved" },
-    totalSKUs: 5,
-    totalExpectedQuantity: 25,
-    totalExpectedCredit: 875.5,
-    details: [
-      {
-        _id: "rrd_002_1" as Id<"return_request_details">,
-        skuCode: "SKU-B001",
-        productName: "Gear Assembly A",
-        quantityToReturn: 5,
-        expectedCreditAmount: 175.0,
-        reason: { lookupValue: "Quality Issue" },
-        batchId: "BATCH-004",
-      },
-      {
-        _id: "rrd_002_2" as Id<"return_request_details">,
-        skuCode: "SKU-B002",
-        productName: "Gear Assembly B",
-        quantityToReturn: 5,
-        expectedCreditAmount: 175.0,
-        reason: { lookupValue: "Quality Issue" },
-        batchId: "BATCH-005",
-      },
-      {
-        _id: "rrd_002_3" as Id<"return_request_details">,
-        skuCode: "SKU-B003",
-        productName: "Motor Unit C",
-        quantityToReturn: 8,
-        expectedCreditAmount: 320.0,
-        reason: { lookupValue: "Defective" },
-        customReasonNotes: "Units not powering on",
-        batchId: "BATCH-006",
-      },
-      {
-        _id: "rrd_002_4" as Id<"return_request_details">,
-        skuCode: "SKU-B004",
-        productName: "Control Board D",
-        quantityToReturn: 4,
-        expectedCreditAmount: 140.5,
-        reason: { lookupValue: "Wrong Specification" },
-        batchId: "BATCH-007",
-      },
-      {
-        _id: "rrd_002_5" as Id<"return_request_details">,
-        skuCode: "SKU-B005",
-        productName: "Sensor Module E",
-        quantityToReturn: 3,
-        expectedCreditAmount: 65.0,
-        reason: { lookupValue: "Expired" },
-        batchId: "BATCH-008",
-      },
-    ],
-  },
-  rr_003: {
-    _id: "rr_003" as Id<"return_requests">,
-    requestCode: "RR-003",
-    requestedAt: 1685750400000,
-    supplier: { name: "Tech Distributors" },
-    requestedByUser: { fullName: "Bob Johnson" },
-    returnStatus: { lookupValue: "Returned" },
-    totalSKUs: 2,
-    totalExpectedQuantity: 8,
-    totalExpectedCredit: 240.0,
-    details: [
-      {
-        _id: "rrd_003_1" as Id<"return_request_details">,
-        skuCode: "SKU-C001",
-        productName: "Cable Set Premium",
-        quantityToReturn: 5,
-        expectedCreditAmount: 150.0,
-        reason: { lookupValue: "Overstock" },
-        batchId: "BATCH-009",
-      },
-      {
-        _id: "rrd_003_2" as Id<"return_request_details">,
-        skuCode: "SKU-C002",
-        productName: "Connector Kit Pro",
-        quantityToReturn: 3,
-        expectedCreditAmount: 90.0,
-        reason: { lookupValue: "Overstock" },
-        batchId: "BATCH-010",
-      },
-    ],
-  },
-  rr_004: {
-    _id: "rr_004" as Id<"return_requests">,
-    requestCode: "RR-004",
-    requestedAt: 1685836800000,
-    supplier: { name: "Quality Materials" },
-    requestedByUser: { fullName: "Alice Brown" },
-    returnStatus: { lookupValue: "Rejected" },
-    totalSKUs: 4,
-    totalExpectedQuantity: 20,
-    totalExpectedCredit: 600.0,
-    details: [
-      {
-        _id: "rrd_004_1" as Id<"return_request_details">,
-        skuCode: "SKU-D001",
-        productName: "Steel Plate A",
-        quantityToReturn: 5,
-        expectedCreditAmount: 150.0,
-        reason: { lookupValue: "Wrong Item" },
-        batchId: "BATCH-011",
-      },
-      {
-        _id: "rrd_004_2" as Id<"return_request_details">,
-        skuCode: "SKU-D002",
-        productName: "Steel Plate B",
-        quantityToReturn: 5,
-        expectedCreditAmount: 150.0,
-        reason: { lookupValue: "Wrong Item" },
-        batchId: "BATCH-012",
-      },
-      {
-        _id: "rrd_004_3" as Id<"return_request_details">,
-        skuCode: "SKU-D003",
-        productName: "Aluminum Sheet C",
-        quantityToReturn: 5,
-        expectedCreditAmount: 150.0,
-        reason: { lookupValue: "Damaged in Transit" },
-        customReasonNotes: "Bent corners on multiple sheets",
-        batchId: "BATCH-013",
-      },
-      {
-        _id: "rrd_004_4" as Id<"return_request_details">,
-        skuCode: "SKU-D004",
-        productName: "Copper Wire D",
-        quantityToReturn: 5,
-        expectedCreditAmount: 150.0,
-        reason: { lookupValue: "Quality Issue" },
-        batchId: "BATCH-014",
-      },
-    ],
-  },
-  rr_005: {
-    _id: "rr_005" as Id<"return_requests">,
-    requestCode: "RR-005",
-    requestedAt: 1685923200000,
-    supplier: { name: "Premier Wholesale" },
-    requestedByUser: { fullName: "Charlie Davis" },
-    returnStatus: { lookupValue: "Waiting" },
-    totalSKUs: 6,
-    totalExpectedQuantity: 30,
-    totalExpectedCredit: 1200.0,
-    details: [
-      {
-        _id: "rrd_005_1" as Id<"return_request_details">,
-        skuCode: "SKU-E001",
-        productName: "Electronic Component A",
-        quantityToReturn: 5,
-        expectedCreditAmount: 200.0,
-        reason: { lookupValue: "Defective" },
-        batchId: "BATCH-015",
-      },
-      {
-        _id: "rrd_005_2" as Id<"return_request_details">,
-        skuCode: "SKU-E002",
-        productName: "Electronic Component B",
-        quantityToReturn: 5,
-        expectedCreditAmount: 200.0,
-        reason: { lookupValue: "Defective" },
-        batchId: "BATCH-016",
-      },
-      {
-        _id: "rrd_005_3" as Id<"return_request_details">,
-        skuCode: "SKU-E003",
-        productName: "Electronic Component C",
-        quantityToReturn: 5,
-        expectedCreditAmount: 200.0,
-        reason: { lookupValue: "Wrong Specification" },
-        batchId: "BATCH-017",
-      },
-      {
-        _id: "rrd_005_4" as Id<"return_request_details">,
-        skuCode: "SKU-E004",
-        productName: "Electronic Component D",
-        quantityToReturn: 5,
-        expectedCreditAmount: 200.0,
-        reason: { lookupValue: "Quality Issue" },
-        batchId: "BATCH-018",
-      },
-      {
-        _id: "rrd_005_5" as Id<"return_request_details">,
-        skuCode: "SKU-E005",
-        productName: "Electronic Component E",
-        quantityToReturn: 5,
-        expectedCreditAmount: 200.0,
-        reason: { lookupValue: "Expired" },
-        batchId: "BATCH-019",
-      },
-      {
-        _id: "rrd_005_6" as Id<"return_request_details">,
-        skuCode: "SKU-E006",
-        productName: "Electronic Component F",
-        quantityToReturn: 5,
-        expectedCreditAmount: 200.0,
-        reason: { lookupValue: "Overstock" },
-        batchId: "BATCH-020",
-      },
-    ],
-  },
-};
-
-// Helper function to get return request details by ID
-export function getReturnRequestById(
-  id: string,
-): ReturnRequestWithDetails | null {
-  return MOCK_RETURN_REQUEST_DETAILS[id] ?? null;
-}
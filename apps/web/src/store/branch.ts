@@ -0,0 +1,17 @@
+import type { Id } from "@wms/backend/convex/_generated/dataModel";
+import { create } from "zustand";
+
+interface BranchState {
+  // Branch that branch-scoped pages (orders, picking, stock...) operate on
+  branchId: Id<"branches"> | null;
+  setBranchId: (branchId: Id<"branches"> | null) => void;
+}
+
+/**
+ * Global branch selection store.
+ * Shared by all pages whose data is scoped to a single branch.
+ */
+export const useBranchStore = create<BranchState>((set) => ({
+  branchId: null,
+  setBranchId: (branchId) => set({ branchId }),
+}));
@@ -0,0 +1,218 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Id } from "./_generated/dataModel";
+import { type AllocationCandidate, planAllocation } from "./allocation";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+function candidate(
+  batchId: string,
+  fields: Partial<Omit<AllocationCandidate, "batchId">> = {},
+): AllocationCandidate {
+  return {
+    batchId: batchId as Id<"inventory_batches">,
+    zoneId: "zone-a" as Id<"storage_zones">,
+    zonePath: "A.01",
+    statusCode: "ACTIVE",
+    available: 10,
+    ...fields,
+  };
+}
+
+function picked(result: ReturnType<typeof planAllocation>) {
+  return result.allocations.map((a) => [a.batchId, a.quantity]);
+}
+
+describe("planAllocation", () => {
+  describe("FEFO", () => {
+    it("takes the earliest expiry first", () => {
+      const result = planAllocation(
+        [
+          candidate("b1", { expiresAt: NOW + 30 * DAY, receivedAt: NOW - DAY }),
+          candidate("b2", { expiresAt: NOW + 10 * DAY, receivedAt: NOW }),
+        ],
+        15,
+        "FEFO",
+        { now: NOW },
+      );
+
+      assert.deepEqual(picked(result), [
+        ["b2", 10],
+        ["b1", 5],
+      ]);
+      assert.equal(result.shortfall, 0);
+    });
+
+    it("breaks expiry ties on receipt, then on batch ID", () => {
+      const expiresAt = NOW + 20 * DAY;
+      const result = planAllocation(
+        [
+          candidate("b3", { expiresAt, receivedAt: NOW - DAY }),
+          candidate("b2", { expiresAt, receivedAt: NOW - 5 * DAY }),
+          candidate("b1", { expiresAt, receivedAt: NOW - DAY }),
+        ],
+        25,
+        "FEFO",
+        { now: NOW },
+      );
+
+      assert.deepEqual(picked(result), [
+        ["b2", 10],
+        ["b1", 10],
+        ["b3", 5],
+      ]);
+    });
+
+    it("takes batches without an expiry date last", () => {
+      const result = planAllocation(
+        [
+          candidate("b1", { receivedAt: NOW - 10 * DAY }),
+          candidate("b2", { expiresAt: NOW + 90 * DAY, receivedAt: NOW }),
+        ],
+        12,
+        "FEFO",
+        { now: NOW },
+      );
+
+      assert.deepEqual(picked(result), [
+        ["b2", 10],
+        ["b1", 2],
+      ]);
+    });
+
+    it("gives the same plan whatever the candidate order", () => {
+      const candidates = [
+        candidate("b1", { expiresAt: NOW + DAY, receivedAt: NOW }),
+        candidate("b2", { expiresAt: NOW + DAY, receivedAt: NOW }),
+        candidate("b3", { expiresAt: NOW + 2 * DAY }),
+      ];
+
+      assert.deepEqual(
+        planAllocation(candidates, 25, "FEFO", { now: NOW }),
+        planAllocation([...candidates].reverse(), 25, "FEFO", { now: NOW }),
+      );
+    });
+  });
+
+  describe("FIFO", () => {
+    it("takes the earliest receipt first, whatever the expiry", () => {
+      const result = planAllocation(
+        [
+          candidate("b1", {
+            receivedAt: NOW - DAY,
+            expiresAt: NOW + 5 * DAY,
+          }),
+          candidate("b2", {
+            receivedAt: NOW - 10 * DAY,
+            expiresAt: NOW + 60 * DAY,
+          }),
+        ],
+        15,
+        "FIFO",
+        { now: NOW },
+      );
+
+      assert.deepEqual(picked(result), [
+        ["b2", 10],
+        ["b1", 5],
+      ]);
+    });
+
+    it("breaks receipt ties on expiry", () => {
+      const receivedAt = NOW - 3 * DAY;
+      const result = planAllocation(
+        [
+          candidate("b1", { receivedAt, expiresAt: NOW + 40 * DAY }),
+          candidate("b2", { receivedAt, expiresAt: NOW + 20 * DAY }),
+        ],
+        5,
+        "FIFO",
+        { now: NOW },
+      );
+
+      assert.deepEqual(picked(result), [["b2", 5]]);
+    });
+  });
+
+  describe("short allocation", () => {
+    it("takes everything available and reports the shortfall", () => {
+      const result = planAllocation(
+        [
+          candidate("b1", { available: 4, receivedAt: NOW - DAY }),
+          candidate("b2", { available: 3, receivedAt: NOW }),
+        ],
+        10,
+        "FIFO",
+        { now: NOW },
+      );
+
+      assert.deepEqual(picked(result), [
+        ["b1", 4],
+        ["b2", 3],
+      ]);
+      assert.equal(result.shortfall, 3);
+    });
+
+    it("skips held, expired and empty batches", () => {
+      const candidates = [
+        candidate("b1", { statusCode: "QUARANTINE" }),
+        candidate("b2", { available: 3, expiresAt: NOW - DAY }),
+        candidate("b3", { available: 0 }),
+        candidate("b4", { available: 2, expiresAt: NOW + DAY }),
+      ];
+
+      const result = planAllocation(candidates, 5, "FEFO", { now: NOW });
+      assert.deepEqual(picked(result), [["b4", 2]]);
+      assert.equal(result.shortfall, 3);
+
+      const withExpired = planAllocation(candidates, 5, "FEFO", {
+        now: NOW,
+        includeExpired: true,
+      });
+      assert.deepEqual(picked(withExpired), [
+        ["b2", 3],
+        ["b4", 2],
+      ]);
+      assert.equal(withExpired.shortfall, 0);
+    });
+
+    it("returns nothing and the full shortfall when no batch qualifies", () => {
+      const result = planAllocation([], 6, "FEFO", { now: NOW });
+
+      assert.deepEqual(result.allocations, []);
+      assert.equal(result.shortfall, 6);
+    });
+  });
+
+  it("orders the pick list by zone path, keeping consumption order", () => {
+    const result = planAllocation(
+      [
+        candidate("b1", {
+          zonePath: "B.02",
+          expiresAt: NOW + DAY,
+          available: 3,
+        }),
+        candidate("b2", {
+          zonePath: "A.01",
+          expiresAt: NOW + 2 * DAY,
+          available: 3,
+        }),
+        candidate("b3", {
+          zonePath: "A.01",
+          expiresAt: NOW + 3 * DAY,
+          available: 3,
+        }),
+      ],
+      8,
+      "FEFO",
+      { now: NOW },
+    );
+
+    assert.deepEqual(picked(result), [
+      ["b2", 3],
+      ["b3", 2],
+      ["b1", 3],
+    ]);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * ALLOCATION API - Batch allocation rules for picking
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - read and change category overrides
+ * ✅ Admin - read and change category overrides
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - Decides which batches outbound picking, transfers and supplier
+ *   returns consume
+ * - FEFO (first expired, first out) for products with shelfLifeDays,
+ *   FIFO (first received, first out) otherwise
+ * - A category can override the strategy through category_settings
+ *   (key "allocation_strategy", value { strategy: "FEFO" | "FIFO" });
+ *   the nearest category up the path wins
+ * - Only ACTIVE batches are allocated by default, so batches on a QC hold
+ *   (Quarantine) are never picked; batches past their expiry date are
+ *   skipped even while still marked active
+ * - Quantities soft-reserved by open picking sessions are not allocated
+ * - The pick list is ordered by zone path so pickers walk each aisle once
+ * - planAllocation is a pure function: the same candidates always give the
+ *   same allocations, with batch ID as the final tie-breaker
+ */
+
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { mutation, type QueryCtx, query } from "./_generated/server";
+import { getReservedBatchQuantity } from "./inventory";
+import { getLookupCode } from "./lookups";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+export const ALLOCATION_SETTING_KEY = "allocation_strategy";
+
+export type AllocationStrategy = "FEFO" | "FIFO";
+
+export type AllocationCandidate = {
+  batchId: Id<"inventory_batches">;
+  zoneId: Id<"storage_zones">;
+  zonePath: string;
+  statusCode: string;
+  available: number;
+  receivedAt?: number;
+  expiresAt?: number;
+};
+
+export type BatchAllocation = {
+  batchId: Id<"inventory_batches">;
+  zoneId: Id<"storage_zones">;
+  zonePath: string;
+  quantity: number;
+  expiresAt?: number;
+  receivedAt?: number;
+};
+
+const strategyValidator = v.union(v.literal("FEFO"), v.literal("FIFO"));
+
+/**
+ * Compare strings by code unit, independent of the runtime locale
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare optional timestamps, missing values last
+ */
+function compareOptional(a?: number, b?: number): number {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a - b;
+}
+
+/**
+ * Choose batches for a quantity from a set of candidates
+ *
+ * Process:
+ * 1. Drops candidates that are not allocatable: wrong status, expired on
+ *    `now`, or nothing available
+ * 2. Orders the rest by the strategy (FEFO: expiry, then receipt;
+ *    FIFO: receipt, then expiry), batch ID breaking ties
+ * 3. Takes from each batch in turn until the quantity is met
+ * 4. Orders the resulting pick list by zone path, keeping consumption
+ *    order within a zone
+ */
+export function planAllocation(
+  candidates: AllocationCandidate[],
+  quantity: number,
+  strategy: AllocationStrategy,
+  options: { now: number; statusCodes?: string[]; includeExpired?: boolean },
+): { allocations: BatchAllocation[]; shortfall: number } {
+  const statusCodes = options.statusCodes ?? ["ACTIVE"];
+
+  const eligible = candidates.filter(
+    (c) =>
+      c.available > 0 &&
+      statusCodes.includes(c.statusCode) &&
+      (options.includeExpired ||
+        c.expiresAt === undefined ||
+        c.expiresAt > options.now),
+  );
+
+  eligible.sort((a, b) => {
+    const primary =
+      strategy === "FEFO"
+        ? compareOptional(a.expiresAt, b.expiresAt) ||
+          compareOptional(a.receivedAt, b.receivedAt)
+        : compareOptional(a.receivedAt, b.receivedAt) ||
+          compareOptional(a.expiresAt, b.expiresAt);
+    return primary || compareText(a.batchId, b.batchId);
+  });
+
+  const consumed: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const candidate of eligible) {
+    if (remaining <= 0) break;
+    const take = Math.min(candidate.available, remaining);
+    consumed.push({
+      batchId: candidate.batchId,
+      zoneId: candidate.zoneId,
+      zonePath: candidate.zonePath,
+      quantity: take,
+      expiresAt: candidate.expiresAt,
+      receivedAt: candidate.receivedAt,
+    });
+    remaining -= take;
+  }
+
+  const allocations = consumed
+    .map((allocation, sequence) => ({ allocation, sequence }))
+    .sort(
+      (a, b) =>
+        compareText(a.allocation.zonePath, b.allocation.zonePath) ||
+        a.sequence - b.sequence,
+    )
+    .map(({ allocation }) => allocation);
+
+  return { allocations, shortfall: Math.max(remaining, 0) };
+}
+
+/**
+ * Get the strategy override of a category or its nearest ancestor
+ */
+async function getCategoryStrategyOverride(
+  ctx: QueryCtx,
+  categoryId: Id<"categories">,
+): Promise<AllocationStrategy | null> {
+  const category = await ctx.db.get(categoryId);
+  if (!category) return null;
+
+  // Walk from the category itself up to the root
+  const segments = category.path.split(".");
+  const categories = await ctx.db
+    .query("categories")
+    .withIndex("organizationId", (q) =>
+      q.eq("organizationId", category.organizationId),
+    )
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+
+  for (let depth = segments.length; depth > 0; depth--) {
+    const path = segments.slice(0, depth).join(".");
+    const ancestor =
+      path === category.path
+        ? category
+        : categories.find((c) => c.path === path);
+    if (!ancestor) continue;
+
+    const setting = await ctx.db
+      .query("category_settings")
+      .withIndex("categoryId_settingKey", (q) =>
+        q
+          .eq("categoryId", ancestor._id)
+          .eq("settingKey", ALLOCATION_SETTING_KEY),
+      )
+      .first();
+    const strategy = setting?.settingValue?.strategy;
+    if (strategy === "FEFO" || strategy === "FIFO") return strategy;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the allocation strategy of a SKU: category override first, then
+ * FEFO for products with a shelf life, FIFO otherwise
+ */
+export async function getAllocationStrategy(
+  ctx: QueryCtx,
+  skuId: Id<"product_variants">,
+): Promise<AllocationStrategy> {
+  const variant = await ctx.db.get(skuId);
+  const product = variant ? await ctx.db.get(variant.productId) : null;
+  if (!product) return "FIFO";
+
+  const override = await getCategoryStrategyOverride(ctx, product.categoryId);
+  if (override) return override;
+
+  return product.shelfLifeDays ? "FEFO" : "FIFO";
+}
+
+/**
+ * Internal helper to choose batches to take a SKU from in a branch.
+ * Applies the SKU's strategy to its live batches, net of quantities already
+ * reserved by open picking sessions. Returns the pick list ordered by zone
+ * path and any unmet quantity.
+ */
+export async function allocateBatches(
+  ctx: QueryCtx,
+  branchId: Id<"branches">,
+  skuId: Id<"product_variants">,
+  quantity: number,
+  options: { statusCodes?: string[]; includeExpired?: boolean } = {},
+) {
+  const strategy = await getAllocationStrategy(ctx, skuId);
+
+  const batches = await ctx.db
+    .query("inventory_batches")
+    .withIndex("skuId", (q) => q.eq("skuId", skuId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("branchId"), branchId),
+        q.eq(q.field("isDeleted"), false),
+        q.gt(q.field("quantity"), 0),
+      ),
+    )
+    .collect();
+
+  const candidates: AllocationCandidate[] = [];
+  for (const batch of batches) {
+    const zone = await ctx.db.get(batch.zoneId);
+    const reserved = await getReservedBatchQuantity(ctx, batch._id);
+    candidates.push({
+      batchId: batch._id,
+      zoneId: batch.zoneId,
+      zonePath: zone?.path ?? "",
+      statusCode: (await getLookupCode(ctx, batch.batchStatusTypeId)) ?? "",
+      available: batch.quantity - reserved,
+      receivedAt: batch.receivedAt,
+      expiresAt: batch.expiresAt,
+    });
+  }
+
+  return {
+    strategy,
+    ...planAllocation(candidates, quantity, strategy, {
+      now: Date.now(),
+      ...options,
+    }),
+  };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Preview which batches would be picked for a SKU, without reserving them
+ */
+export const previewAllocation = query({
+  args: {
+    branchId: v.id("branches"),
+    skuId: v.id("product_variants"),
+    quantity: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { strategy, allocations, shortfall } = await allocateBatches(
+      ctx,
+      args.branchId,
+      args.skuId,
+      args.quantity,
+    );
+
+    const lines = await Promise.all(
+      allocations.map(async (allocation) => {
+        const batch = await ctx.db.get(allocation.batchId);
+        const zone = await ctx.db.get(allocation.zoneId);
+        return {
+          ...allocation,
+          internalBatchNumber: batch?.internalBatchNumber ?? null,
+          supplierBatchNumber: batch?.supplierBatchNumber ?? null,
+          zoneName: zone?.name ?? "Unknown",
+        };
+      }),
+    );
+
+    return { strategy, allocations: lines, shortfall };
+  },
+});
+
+/**
+ * Get the allocation strategy override set directly on a category
+ */
+export const getCategoryStrategy = query({
+  args: {
+    categoryId: v.id("categories"),
+  },
+  handler: async (ctx, args) => {
+    const setting = await ctx.db
+      .query("category_settings")
+      .withIndex("categoryId_settingKey", (q) =>
+        q
+          .eq("categoryId", args.categoryId)
+          .eq("settingKey", ALLOCATION_SETTING_KEY),
+      )
+      .first();
+
+    return {
+      strategy: (setting?.settingValue?.strategy ??
+        null) as AllocationStrategy | null,
+      effective: await getCategoryStrategyOverride(ctx, args.categoryId),
+    };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Set or clear the allocation strategy override of a category
+ * Clearing falls back to the parent category, then to the product default
+ */
+export const setCategoryStrategy = mutation({
+  args: {
+    categoryId: v.id("categories"),
+    strategy: v.union(strategyValidator, v.null()),
+  },
+  handler: async (ctx, args) => {
+    const category = await ctx.db.get(args.categoryId);
+    if (!category || category.isDeleted) {
+      throw new Error("Category not found");
+    }
+
+    const setting = await ctx.db
+      .query("category_settings")
+      .withIndex("categoryId_settingKey", (q) =>
+        q
+          .eq("categoryId", args.categoryId)
+          .eq("settingKey", ALLOCATION_SETTING_KEY),
+      )
+      .first();
+
+    if (args.strategy === null) {
+      if (setting) await ctx.db.delete(setting._id);
+      return { success: true };
+    }
+
+    if (setting) {
+      await ctx.db.patch(setting._id, {
+        settingValue: { strategy: args.strategy },
+      });
+    } else {
+      await ctx.db.insert("category_settings", {
+        categoryId: args.categoryId,
+        settingKey: ALLOCATION_SETTING_KEY,
+        settingValue: { strategy: args.strategy },
+      });
+    }
+
+    return { success: true };
+  },
+});
@@ -11,4 +11,28 @@ crons.cron(
   internal.inventory.checkInventoryExpiration,
 );
 
+// Run every day at 5:00 AM UTC+7 (Vietnam Time), before the first shift
+// 5:00 AM VN = 22:00 PM UTC (previous day)
+crons.cron(
+  "generate-scheduled-cycle-counts",
+  "0 22 * * *",
+  internal.cycleCountSchedule.generateScheduledCycleCounts,
+);
+
+// Run every day at 5:30 AM UTC+7 (Vietnam Time), after the night's movements
+// 5:30 AM VN = 22:30 PM UTC (previous day)
+crons.cron(
+  "refresh-replenishment-suggestions",
+  "30 22 * * *",
+  internal.replenishment.refreshAllReplenishmentSuggestions,
+);
+
+// Run every day at 1:00 AM UTC+7 (Vietnam Time), once the previous day has closed
+// 1:00 AM VN = 18:00 PM UTC (previous day)
+crons.cron(
+  "generate-demand-forecasts",
+  "0 18 * * *",
+  internal.forecasting.generateDemandForecasts,
+);
+
 export default crons;
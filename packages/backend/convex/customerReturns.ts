@@ -0,0 +1,1255 @@
+/**
+ * CUSTOMER RETURNS API - RMAs against shipped outbound orders
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full lifecycle
+ * ✅ Admin - full lifecycle
+ * ⚠️ Staff - receive and inspect returned units
+ *
+ * NOTES:
+ * - Lifecycle: Authorized → Receiving → Completed; an RMA can be cancelled
+ *   until the first units arrive
+ * - Lines are authorized against outbound order lines, up to the packed
+ *   quantity not already authorized on another RMA
+ * - Received units are staged in a held (Quarantine) batch per line in the
+ *   RMA's receiving zone, carrying the lot of the picked stock; serials must
+ *   have been picked for the same order line
+ * - Inspection disposes of received units:
+ *   - RESTOCK: moved into an active batch in a zone
+ *   - QUARANTINE: moved into a held batch in a zone
+ *   - SCRAP: written off
+ *   - RETURN_TO_VENDOR: set aside in a held batch and requested back from
+ *     the supplier through a new return_requests record
+ * - Every movement is an inventory transaction with customerReturnDetailId
+ * - Every status change is written to the audit log
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { logAudit } from "./audit";
+import {
+  applyInventoryChange,
+  ensureBatchStatus,
+  generateInternalBatchNumber,
+  moveBatchQuantity,
+} from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import { createSupplierReturnRequest } from "./returnRequest";
+import {
+  findSerial,
+  isSerialTracked,
+  setSerialLocation,
+} from "./serialNumbers";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const CUSTOMER_RETURN_STATUSES = {
+  AUTHORIZED: {
+    value: "Authorized",
+    description: "Return is authorized and awaiting the goods",
+  },
+  RECEIVING: {
+    value: "Receiving",
+    description: "Returned goods are being received and inspected",
+  },
+  COMPLETED: {
+    value: "Completed",
+    description: "Every received unit has been inspected",
+  },
+  CANCELLED: { value: "Cancelled", description: "Return has been cancelled" },
+} as const;
+
+type CustomerReturnStatusCode = keyof typeof CUSTOMER_RETURN_STATUSES;
+
+const DISPOSITIONS = {
+  RESTOCK: { value: "Restock", description: "Put back into sellable stock" },
+  QUARANTINE: { value: "Quarantine", description: "Held in a quarantine zone" },
+  SCRAP: { value: "Scrap", description: "Written off as scrap" },
+  RETURN_TO_VENDOR: {
+    value: "Return to Vendor",
+    description: "Sent back to the supplier",
+  },
+} as const;
+
+const dispositionValidator = v.union(
+  v.literal("RESTOCK"),
+  v.literal("QUARANTINE"),
+  v.literal("SCRAP"),
+  v.literal("RETURN_TO_VENDOR"),
+);
+
+/**
+ * Get the lookup ID for a customer return status, creating it if missing
+ */
+async function ensureCustomerReturnStatus(
+  ctx: MutationCtx,
+  statusCode: CustomerReturnStatusCode,
+): Promise<Id<"system_lookups">> {
+  const status = CUSTOMER_RETURN_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "CustomerReturnStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Load an RMA and assert it is in one of the allowed statuses
+ */
+async function getReturnInStatus(
+  ctx: MutationCtx,
+  customerReturnId: Id<"customer_returns">,
+  allowedStatuses: CustomerReturnStatusCode[],
+) {
+  const customerReturn = await ctx.db.get(customerReturnId);
+  if (!customerReturn || customerReturn.isDeleted) {
+    throw new Error("Customer return not found");
+  }
+
+  const statusCode = await getLookupCode(ctx, customerReturn.rmaStatusTypeId);
+  if (!allowedStatuses.includes(statusCode as CustomerReturnStatusCode)) {
+    throw new Error(
+      `RMA ${customerReturn.rmaCode} is ${statusCode ?? "in an unknown status"}; expected ${allowedStatuses.join(" or ")}`,
+    );
+  }
+
+  return { customerReturn, statusCode: statusCode as CustomerReturnStatusCode };
+}
+
+/**
+ * Move an RMA to a new status and record the change in the audit log
+ */
+async function setReturnStatus(
+  ctx: MutationCtx,
+  args: {
+    customerReturn: Doc<"customer_returns">;
+    fromCode: CustomerReturnStatusCode;
+    toCode: CustomerReturnStatusCode;
+    userId: Id<"users">;
+    patch?: Partial<Doc<"customer_returns">>;
+    notes?: string;
+  },
+) {
+  await ctx.db.patch(args.customerReturn._id, {
+    ...args.patch,
+    rmaStatusTypeId: await ensureCustomerReturnStatus(ctx, args.toCode),
+  });
+
+  await logAudit(ctx, {
+    organizationId: args.customerReturn.organizationId,
+    userId: args.userId,
+    actionTypeId: await ensureSystemLookup(
+      ctx,
+      "AuditAction",
+      "STATUS_CHANGE",
+      "Status Change",
+      "Record status changed",
+    ),
+    entityType: "customer_returns",
+    entityId: args.customerReturn._id,
+    fieldName: "rmaStatusTypeId",
+    oldValue: args.fromCode,
+    newValue: args.toCode,
+    notes: args.notes,
+  });
+}
+
+/**
+ * Generate a unique RMA code
+ * Format: RMA-YYYYMMDD-XXXX
+ */
+async function generateRmaCode(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+  const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
+
+  const todayReturns = await ctx.db
+    .query("customer_returns")
+    .withIndex("organizationId", (q) => q.eq("organizationId", organizationId))
+    .filter((q) =>
+      q.and(
+        q.gte(q.field("authorizedAt"), startOfDay),
+        q.lte(q.field("authorizedAt"), endOfDay),
+      ),
+    )
+    .collect();
+
+  const sequence = (todayReturns.length + 1).toString().padStart(4, "0");
+  return `RMA-${dateStr}-${sequence}`;
+}
+
+/**
+ * Get the lines of an RMA
+ */
+async function getReturnDetails(
+  ctx: QueryCtx,
+  customerReturnId: Id<"customer_returns">,
+) {
+  return await ctx.db
+    .query("customer_return_details")
+    .withIndex("customerReturnId", (q) =>
+      q.eq("customerReturnId", customerReturnId),
+    )
+    .collect();
+}
+
+/**
+ * Quantity of an outbound order line already claimed by RMAs
+ * Cancelled RMAs claim nothing; completed ones only what was received
+ */
+async function getClaimedQuantity(
+  ctx: QueryCtx,
+  outboundOrderDetailId: Id<"outbound_order_details">,
+): Promise<number> {
+  const details = await ctx.db
+    .query("customer_return_details")
+    .withIndex("outboundOrderDetailId", (q) =>
+      q.eq("outboundOrderDetailId", outboundOrderDetailId),
+    )
+    .collect();
+
+  let claimed = 0;
+  for (const detail of details) {
+    const customerReturn = await ctx.db.get(detail.customerReturnId);
+    if (!customerReturn || customerReturn.isDeleted) continue;
+    const statusCode = await getLookupCode(ctx, customerReturn.rmaStatusTypeId);
+    if (statusCode === "CANCELLED") continue;
+    claimed +=
+      statusCode === "COMPLETED"
+        ? detail.quantityReceived
+        : detail.quantityAuthorized;
+  }
+  return claimed;
+}
+
+/**
+ * The batch a shipped serial was picked from, which carries its lot
+ */
+async function getPickedBatch(
+  ctx: QueryCtx,
+  outboundOrderDetailId: Id<"outbound_order_details">,
+  serialNumberId: Id<"serial_numbers">,
+) {
+  const pick = await ctx.db
+    .query("inventory_transactions")
+    .withIndex("serialNumberId", (q) => q.eq("serialNumberId", serialNumberId))
+    .order("desc")
+    .first();
+
+  if (!pick || pick.outboundOrderDetailId !== outboundOrderDetailId) {
+    return null;
+  }
+  return pick.batchId ? await ctx.db.get(pick.batchId) : null;
+}
+
+/**
+ * The lots an order line was picked from, with the quantity picked from
+ * each. Batches of the same lot in different zones count as one lot.
+ */
+async function getPickedLots(
+  ctx: QueryCtx,
+  outboundOrderDetailId: Id<"outbound_order_details">,
+) {
+  const picks = await ctx.db
+    .query("inventory_transactions")
+    .withIndex("outboundOrderDetailId", (q) =>
+      q.eq("outboundOrderDetailId", outboundOrderDetailId),
+    )
+    .collect();
+
+  const lots: {
+    batch: Doc<"inventory_batches">;
+    batchIds: Id<"inventory_batches">[];
+    quantity: number;
+  }[] = [];
+  for (const pick of picks) {
+    if (!pick.batchId || pick.quantityChange >= 0) continue;
+    const batch = await ctx.db.get(pick.batchId);
+    if (!batch) continue;
+
+    const lot = lots.find((l) => isSameLot(l.batch, batch));
+    if (lot) {
+      if (!lot.batchIds.includes(batch._id)) lot.batchIds.push(batch._id);
+      lot.quantity -= pick.quantityChange;
+    } else {
+      lots.push({
+        batch,
+        batchIds: [batch._id],
+        quantity: -pick.quantityChange,
+      });
+    }
+  }
+  return lots;
+}
+
+/**
+ * Whether two batches hold the same lot
+ */
+function isSameLot(a: Doc<"inventory_batches">, b: Doc<"inventory_batches">) {
+  return (
+    a.internalBatchNumber === b.internalBatchNumber &&
+    a.supplierBatchNumber === b.supplierBatchNumber &&
+    a.expiresAt === b.expiresAt
+  );
+}
+
+/**
+ * Get the held batch staging a line's received units, creating it in the
+ * receiving zone with the lot of the picked stock when there is none
+ */
+async function getInspectionBatch(
+  ctx: MutationCtx,
+  customerReturn: Doc<"customer_returns">,
+  detail: Doc<"customer_return_details">,
+  zoneId: Id<"storage_zones">,
+  pickedBatch: Doc<"inventory_batches"> | null,
+): Promise<Id<"inventory_batches">> {
+  if (detail.inspectionBatchId) {
+    const batch = await ctx.db.get(detail.inspectionBatchId);
+    if (batch && !batch.isDeleted) return batch._id;
+  }
+
+  const batchId = await ctx.db.insert("inventory_batches", {
+    organizationId: customerReturn.organizationId,
+    skuId: detail.skuId,
+    zoneId,
+    quantity: 0,
+    branchId: customerReturn.branchId,
+    supplierBatchNumber: pickedBatch?.supplierBatchNumber,
+    internalBatchNumber:
+      pickedBatch?.internalBatchNumber ??
+      (await generateInternalBatchNumber(ctx, customerReturn.branchId)),
+    receivedAt: Date.now(),
+    manufacturingDate: pickedBatch?.manufacturingDate,
+    expiresAt: pickedBatch?.expiresAt,
+    batchStatusTypeId: await ensureBatchStatus(ctx, "QUARANTINE"),
+    isDeleted: false,
+  });
+  await ctx.db.patch(detail._id, { inspectionBatchId: batchId });
+  return batchId;
+}
+
+/**
+ * Actions the UI can offer for an RMA in a status
+ */
+function getAvailableActions(
+  statusCode: string,
+  details: Doc<"customer_return_details">[],
+) {
+  const actions: string[] = [];
+  if (statusCode === "AUTHORIZED" || statusCode === "RECEIVING") {
+    if (details.some((d) => d.quantityReceived < d.quantityAuthorized)) {
+      actions.push("RECEIVE");
+    }
+  }
+  if (statusCode === "RECEIVING") {
+    if (details.some((d) => d.quantityInspected < d.quantityReceived)) {
+      actions.push("INSPECT");
+    } else {
+      actions.push("COMPLETE");
+    }
+  }
+  if (statusCode === "AUTHORIZED") actions.push("CANCEL");
+  return actions;
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * List the RMAs of a branch
+ * Includes line totals for the returns table
+ */
+export const listCustomerReturns = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const customerReturns = await ctx.db
+      .query("customer_returns")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      customerReturns.map(async (customerReturn) => {
+        const status = await ctx.db.get(customerReturn.rmaStatusTypeId);
+        const order = await ctx.db.get(customerReturn.outboundOrderId);
+        const createdBy = await ctx.db.get(customerReturn.createdByUserId);
+        const details = await getReturnDetails(ctx, customerReturn._id);
+
+        return {
+          ...customerReturn,
+          orderCode: order?.orderCode ?? "Unknown",
+          statusName: status?.lookupValue ?? "Unknown",
+          statusCode: status?.lookupCode ?? "UNKNOWN",
+          createdByName: createdBy?.fullName ?? "Unknown",
+          totalLines: details.length,
+          totalAuthorized: details.reduce(
+            (s, d) => s + d.quantityAuthorized,
+            0,
+          ),
+          totalReceived: details.reduce((s, d) => s + d.quantityReceived, 0),
+          totalInspected: details.reduce((s, d) => s + d.quantityInspected, 0),
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Get an RMA with its lines, units awaiting inspection and dispositions
+ */
+export const getCustomerReturn = query({
+  args: {
+    customerReturnId: v.id("customer_returns"),
+  },
+  handler: async (ctx, args) => {
+    const customerReturn = await ctx.db.get(args.customerReturnId);
+    if (!customerReturn || customerReturn.isDeleted) {
+      return null;
+    }
+
+    const status = await ctx.db.get(customerReturn.rmaStatusTypeId);
+    const order = await ctx.db.get(customerReturn.outboundOrderId);
+    const receivingZone = customerReturn.receivingZoneId
+      ? await ctx.db.get(customerReturn.receivingZoneId)
+      : null;
+    const details = await getReturnDetails(ctx, customerReturn._id);
+    const quarantinedStatus = await ctx.db
+      .query("system_lookups")
+      .withIndex("lookupType_lookupCode", (q) =>
+        q.eq("lookupType", "SerialStatus").eq("lookupCode", "QUARANTINED"),
+      )
+      .first();
+
+    const lines = await Promise.all(
+      details.map(async (detail) => {
+        const variant = await ctx.db.get(detail.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+        const serialTracked = await isSerialTracked(ctx, detail.skuId);
+        const pendingSerials =
+          serialTracked && detail.inspectionBatchId && quarantinedStatus
+            ? await ctx.db
+                .query("serial_numbers")
+                .withIndex("batchId", (q) =>
+                  q.eq("batchId", detail.inspectionBatchId),
+                )
+                .filter((q) =>
+                  q.eq(q.field("serialStatusTypeId"), quarantinedStatus._id),
+                )
+                .collect()
+            : [];
+
+        return {
+          ...detail,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? null,
+          isSerialTracked: serialTracked,
+          pickedLots: serialTracked
+            ? []
+            : (await getPickedLots(ctx, detail.outboundOrderDetailId)).map(
+                (lot) => ({
+                  batchId: lot.batch._id,
+                  internalBatchNumber: lot.batch.internalBatchNumber ?? null,
+                  supplierBatchNumber: lot.batch.supplierBatchNumber ?? null,
+                  expiresAt: lot.batch.expiresAt ?? null,
+                  quantity: lot.quantity,
+                }),
+              ),
+          quantityPendingInspection:
+            detail.quantityReceived - detail.quantityInspected,
+          pendingSerialNumbers: pendingSerials.map((s) => s.serialNumber),
+        };
+      }),
+    );
+
+    const dispositionRows = await ctx.db
+      .query("customer_return_dispositions")
+      .withIndex("customerReturnId", (q) =>
+        q.eq("customerReturnId", customerReturn._id),
+      )
+      .collect();
+    const dispositions = await Promise.all(
+      dispositionRows.map(async (row) => {
+        const type = await ctx.db.get(row.dispositionTypeId);
+        const zone = row.zoneId ? await ctx.db.get(row.zoneId) : null;
+        const returnRequest = row.returnRequestId
+          ? await ctx.db.get(row.returnRequestId)
+          : null;
+        const inspectedBy = await ctx.db.get(row.inspectedByUserId);
+        return {
+          ...row,
+          skuCode:
+            lines.find((l) => l._id === row.customerReturnDetailId)?.skuCode ??
+            "Unknown",
+          dispositionCode: type?.lookupCode ?? "UNKNOWN",
+          dispositionName: type?.lookupValue ?? "Unknown",
+          zoneName: zone?.name ?? null,
+          returnRequestCode: returnRequest?.requestCode ?? null,
+          inspectedByName: inspectedBy?.fullName ?? "Unknown",
+        };
+      }),
+    );
+
+    const statusCode = status?.lookupCode ?? "UNKNOWN";
+    return {
+      ...customerReturn,
+      orderCode: order?.orderCode ?? "Unknown",
+      statusName: status?.lookupValue ?? "Unknown",
+      statusCode,
+      receivingZoneName: receivingZone?.name ?? null,
+      availableActions: getAvailableActions(statusCode, details),
+      lines,
+      dispositions: dispositions.sort((a, b) => b.inspectedAt - a.inspectedAt),
+    };
+  },
+});
+
+/**
+ * Lines of a shipped outbound order with the quantity still returnable
+ */
+export const getReturnableLines = query({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+  },
+  handler: async (ctx, args) => {
+    const details = await ctx.db
+      .query("outbound_order_details")
+      .withIndex("outboundOrderId", (q) =>
+        q.eq("outboundOrderId", args.outboundOrderId),
+      )
+      .collect();
+
+    return await Promise.all(
+      details.map(async (detail) => {
+        const variant = await ctx.db.get(detail.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+        const claimed = await getClaimedQuantity(ctx, detail._id);
+        return {
+          outboundOrderDetailId: detail._id,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? null,
+          quantityShipped: detail.quantityPacked,
+          quantityReturnable: Math.max(0, detail.quantityPacked - claimed),
+        };
+      }),
+    );
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * createCustomerReturn
+ *
+ * Purpose: Authorizes a customer return against a shipped outbound order
+ *
+ * Process:
+ * 1. Validates the order has shipped
+ * 2. Caps each line at the shipped quantity not already claimed by an RMA
+ * 3. Creates the RMA as Authorized with its lines
+ */
+export const createCustomerReturn = mutation({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+    lines: v.array(
+      v.object({
+        outboundOrderDetailId: v.id("outbound_order_details"),
+        quantity: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the order
+    const order = await ctx.db.get(args.outboundOrderId);
+    if (!order || order.isDeleted) {
+      throw new Error("Outbound order not found");
+    }
+    if ((await getLookupCode(ctx, order.outboundStatusTypeId)) !== "SHIPPED") {
+      throw new Error(
+        `Outbound order ${order.orderCode} has not shipped; only shipped orders can be returned`,
+      );
+    }
+
+    const lines = args.lines.filter((line) => line.quantity !== 0);
+    if (lines.length === 0) {
+      throw new Error("Add at least one line to return");
+    }
+
+    // Step 2: Validate each line against what is still returnable
+    const validated: {
+      detail: Doc<"outbound_order_details">;
+      quantity: number;
+    }[] = [];
+    for (const line of lines) {
+      const detail = await ctx.db.get(line.outboundOrderDetailId);
+      if (!detail || detail.outboundOrderId !== order._id) {
+        throw new Error(`Line does not belong to order ${order.orderCode}`);
+      }
+      if (line.quantity < 0 || !Number.isInteger(line.quantity)) {
+        throw new Error("Return quantities must be positive whole numbers");
+      }
+      if (validated.some((entry) => entry.detail._id === detail._id)) {
+        throw new Error("Each order line can be returned only once per RMA");
+      }
+
+      const returnable =
+        detail.quantityPacked -
+        (await getClaimedQuantity(ctx, line.outboundOrderDetailId));
+      if (line.quantity > returnable) {
+        const variant = await ctx.db.get(detail.skuId);
+        throw new Error(
+          `Only ${Math.max(0, returnable)} of ${variant?.skuCode ?? "this SKU"} can still be returned on ${order.orderCode}`,
+        );
+      }
+      validated.push({ detail, quantity: line.quantity });
+    }
+
+    // Step 3: Create the RMA
+    const rmaCode = await generateRmaCode(ctx, order.organizationId);
+    const customerReturnId = await ctx.db.insert("customer_returns", {
+      organizationId: order.organizationId,
+      branchId: order.branchId,
+      rmaCode,
+      outboundOrderId: order._id,
+      customerName: order.customerName,
+      reason: args.reason,
+      createdByUserId: args.userId,
+      rmaStatusTypeId: await ensureCustomerReturnStatus(ctx, "AUTHORIZED"),
+      authorizedAt: Date.now(),
+      isDeleted: false,
+    });
+
+    for (const { detail, quantity } of validated) {
+      await ctx.db.insert("customer_return_details", {
+        customerReturnId,
+        outboundOrderDetailId: detail._id,
+        skuId: detail.skuId,
+        quantityAuthorized: quantity,
+        quantityReceived: 0,
+        quantityInspected: 0,
+      });
+    }
+
+    return { customerReturnId, rmaCode };
+  },
+});
+
+/**
+ * receiveReturnedUnits
+ *
+ * Purpose: Receives returned units into the RMA's receiving zone, held
+ * until inspection
+ *
+ * Process:
+ * 1. Validates the RMA and fixes the receiving zone on the first receipt
+ * 2. Checks quantities against what is authorized and that the units come
+ *    from the lot the line already stages: for serial-tracked lines each
+ *    serial's pick, otherwise the chosen lot (required when the order line
+ *    was picked from several) within what was picked from it
+ * 3. Adds the units to the line's held inspection batch with a
+ *    CUSTOMER_RETURN transaction per line or per serial
+ * 4. Moves the RMA to Receiving
+ */
+export const receiveReturnedUnits = mutation({
+  args: {
+    customerReturnId: v.id("customer_returns"),
+    zoneId: v.id("storage_zones"),
+    userId: v.id("users"),
+    lines: v.array(
+      v.object({
+        detailId: v.id("customer_return_details"),
+        quantity: v.number(),
+        serialNumbers: v.optional(v.array(v.string())),
+        // Lot being returned on lines picked from several lots
+        pickedBatchId: v.optional(v.id("inventory_batches")),
+      }),
+    ),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the RMA and the receiving zone
+    const { customerReturn, statusCode } = await getReturnInStatus(
+      ctx,
+      args.customerReturnId,
+      ["AUTHORIZED", "RECEIVING"],
+    );
+    const zone = await ctx.db.get(args.zoneId);
+    if (!zone || zone.isDeleted || zone.branchId !== customerReturn.branchId) {
+      throw new Error("Receiving zone not found in this branch");
+    }
+    if (
+      customerReturn.receivingZoneId &&
+      customerReturn.receivingZoneId !== args.zoneId
+    ) {
+      const stagingZone = await ctx.db.get(customerReturn.receivingZoneId);
+      throw new Error(
+        `Units of ${customerReturn.rmaCode} are staged in ${stagingZone?.name ?? "another zone"}`,
+      );
+    }
+
+    const order = await ctx.db.get(customerReturn.outboundOrderId);
+    const customerReturnTypeId = await ensureSystemLookup(
+      ctx,
+      "InventoryTransactionType",
+      "CUSTOMER_RETURN",
+      "Customer Return",
+      "Stock returned by a customer",
+    );
+    const notes = args.notes ?? `RMA ${customerReturn.rmaCode}`;
+
+    let received = 0;
+    for (const line of args.lines) {
+      if (line.quantity === 0) continue;
+
+      // Step 2: Validate the line
+      const detail = await ctx.db.get(line.detailId);
+      if (!detail || detail.customerReturnId !== customerReturn._id) {
+        throw new Error(`Line does not belong to ${customerReturn.rmaCode}`);
+      }
+      const variant = await ctx.db.get(detail.skuId);
+      const skuCode = variant?.skuCode ?? "this SKU";
+      if (line.quantity < 0 || !Number.isInteger(line.quantity)) {
+        throw new Error("Received quantities must be positive whole numbers");
+      }
+      if (detail.quantityReceived + line.quantity > detail.quantityAuthorized) {
+        throw new Error(
+          `Only ${detail.quantityAuthorized - detail.quantityReceived} of ${skuCode} are still expected on ${customerReturn.rmaCode}`,
+        );
+      }
+
+      // Step 3: Stage the units in the inspection batch
+      if (await isSerialTracked(ctx, detail.skuId)) {
+        const serialNumbers = (line.serialNumbers ?? []).map((s) => s.trim());
+        if (
+          serialNumbers.length !== line.quantity ||
+          new Set(serialNumbers).size !== serialNumbers.length ||
+          serialNumbers.some((s) => s === "")
+        ) {
+          throw new Error(
+            `Scan ${line.quantity} distinct serial number(s) for ${skuCode}`,
+          );
+        }
+
+        const returned: {
+          serial: Doc<"serial_numbers">;
+          pickedBatch: Doc<"inventory_batches">;
+        }[] = [];
+        for (const serialNumber of serialNumbers) {
+          const serial = await findSerial(
+            ctx,
+            customerReturn.organizationId,
+            serialNumber,
+          );
+          if (!serial || serial.skuId !== detail.skuId) {
+            throw new Error(`Serial ${serialNumber} is not a ${skuCode}`);
+          }
+          if (
+            (await getLookupCode(ctx, serial.serialStatusTypeId)) !== "SOLD"
+          ) {
+            throw new Error(`Serial ${serialNumber} has not been sold`);
+          }
+          const pickedBatch = await getPickedBatch(
+            ctx,
+            detail.outboundOrderDetailId,
+            serial._id,
+          );
+          if (!pickedBatch) {
+            throw new Error(
+              `Serial ${serialNumber} was not shipped on order ${order?.orderCode ?? ""}`,
+            );
+          }
+          returned.push({ serial, pickedBatch });
+        }
+
+        // The line stages one lot; serials picked from another lot go on
+        // their own RMA so the lot isn't lost at inspection
+        const staged = detail.inspectionBatchId
+          ? await ctx.db.get(detail.inspectionBatchId)
+          : null;
+        const lot =
+          staged && !staged.isDeleted ? staged : returned[0].pickedBatch;
+        const mixed = returned.find(
+          ({ pickedBatch }) => !isSameLot(pickedBatch, lot),
+        );
+        if (mixed) {
+          throw new Error(
+            `Serial ${mixed.serial.serialNumber} is from lot ${mixed.pickedBatch.internalBatchNumber ?? "-"}, not ${lot.internalBatchNumber ?? "-"}; receive it on a separate RMA`,
+          );
+        }
+
+        const batchId = await getInspectionBatch(
+          ctx,
+          customerReturn,
+          detail,
+          args.zoneId,
+          returned[0].pickedBatch,
+        );
+        for (const { serial } of returned) {
+          await applyInventoryChange(ctx, {
+            batchId,
+            quantityChange: 1,
+            inventoryTransactionTypeId: customerReturnTypeId,
+            createdByUserId: args.userId,
+            notes,
+            serialNumberId: serial._id,
+            customerReturnDetailId: detail._id,
+          });
+          await setSerialLocation(ctx, serial._id, "QUARANTINED", {
+            batchId,
+            zoneId: args.zoneId,
+          });
+        }
+      } else {
+        // The line stages one lot, chosen from the lots it was picked from
+        const lots = await getPickedLots(ctx, detail.outboundOrderDetailId);
+        const staged = detail.inspectionBatchId
+          ? await ctx.db.get(detail.inspectionBatchId)
+          : null;
+        const chosen = line.pickedBatchId
+          ? lots.find((l) => l.batchIds.includes(line.pickedBatchId!))
+          : undefined;
+        if (line.pickedBatchId && !chosen) {
+          throw new Error(
+            `${skuCode} was not picked from that lot on order ${order?.orderCode ?? ""}`,
+          );
+        }
+
+        let lot = chosen;
+        if (staged && !staged.isDeleted) {
+          lot = lots.find((l) => isSameLot(l.batch, staged));
+          if (chosen && chosen !== lot) {
+            throw new Error(
+              `Units of ${skuCode} on ${customerReturn.rmaCode} are from lot ${staged.internalBatchNumber ?? "-"}; receive other lots on a separate RMA`,
+            );
+          }
+        } else if (!lot && lots.length > 1) {
+          throw new Error(
+            `${skuCode} was picked from ${lots.length} lots; choose the lot being returned`,
+          );
+        } else if (!lot) {
+          lot = lots[0];
+        }
+        if (lot && detail.quantityReceived + line.quantity > lot.quantity) {
+          throw new Error(
+            `Only ${lot.quantity} of ${skuCode} were picked from lot ${lot.batch.internalBatchNumber ?? "-"}`,
+          );
+        }
+
+        const batchId = await getInspectionBatch(
+          ctx,
+          customerReturn,
+          detail,
+          args.zoneId,
+          lot?.batch ?? null,
+        );
+        await applyInventoryChange(ctx, {
+          batchId,
+          quantityChange: line.quantity,
+          inventoryTransactionTypeId: customerReturnTypeId,
+          createdByUserId: args.userId,
+          notes,
+          customerReturnDetailId: detail._id,
+        });
+      }
+
+      await ctx.db.patch(detail._id, {
+        quantityReceived: detail.quantityReceived + line.quantity,
+      });
+      received += line.quantity;
+    }
+
+    if (received === 0) {
+      throw new Error("Enter at least one received unit");
+    }
+
+    // Step 4: Move the RMA to Receiving
+    const now = Date.now();
+    if (statusCode === "AUTHORIZED") {
+      await setReturnStatus(ctx, {
+        customerReturn,
+        fromCode: "AUTHORIZED",
+        toCode: "RECEIVING",
+        userId: args.userId,
+        patch: { receivingZoneId: args.zoneId, receivedAt: now },
+      });
+    }
+
+    return { received };
+  },
+});
+
+/**
+ * inspectReturnedUnits
+ *
+ * Purpose: Records the disposition of inspected units on an RMA line
+ *
+ * Process:
+ * 1. Validates the quantity against the units awaiting inspection and,
+ *    for serial-tracked lines, that each serial is staged on the line
+ * 2. Posts the disposition's inventory movement:
+ *    - RESTOCK: move into an active batch in the chosen zone
+ *    - QUARANTINE: move into a new held batch in the chosen zone
+ *    - SCRAP: write off with a SCRAP transaction
+ *    - RETURN_TO_VENDOR: move into a new held batch and request the
+ *      units back from the supplier
+ * 3. Records the disposition and the inspected quantity
+ */
+export const inspectReturnedUnits = mutation({
+  args: {
+    detailId: v.id("customer_return_details"),
+    disposition: dispositionValidator,
+    quantity: v.number(),
+    serialNumbers: v.optional(v.array(v.string())),
+    zoneId: v.optional(v.id("storage_zones")), // RESTOCK and QUARANTINE
+    supplierId: v.optional(v.id("suppliers")), // RETURN_TO_VENDOR
+    reasonTypeId: v.optional(v.id("system_lookups")), // RETURN_TO_VENDOR, defaults to Defective
+    expectedCreditAmount: v.optional(v.number()), // RETURN_TO_VENDOR, defaults to cost
+    condition: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the line and the units
+    const detail = await ctx.db.get(args.detailId);
+    if (!detail) {
+      throw new Error("Customer return line not found");
+    }
+    const { customerReturn } = await getReturnInStatus(
+      ctx,
+      detail.customerReturnId,
+      ["RECEIVING"],
+    );
+
+    const pending = detail.quantityReceived - detail.quantityInspected;
+    if (args.quantity <= 0 || !Number.isInteger(args.quantity)) {
+      throw new Error("Inspected quantity must be a positive whole number");
+    }
+    if (args.quantity > pending) {
+      throw new Error(`Only ${pending} unit(s) are awaiting inspection`);
+    }
+
+    const inspectionBatch = detail.inspectionBatchId
+      ? await ctx.db.get(detail.inspectionBatchId)
+      : null;
+    if (!inspectionBatch || inspectionBatch.isDeleted) {
+      throw new Error("The units awaiting inspection could not be found");
+    }
+
+    const serials: Doc<"serial_numbers">[] = [];
+    if (await isSerialTracked(ctx, detail.skuId)) {
+      const serialNumbers = (args.serialNumbers ?? []).map((s) => s.trim());
+      if (
+        serialNumbers.length !== args.quantity ||
+        new Set(serialNumbers).size !== serialNumbers.length
+      ) {
+        throw new Error(
+          `Select ${args.quantity} distinct serial number(s) to inspect`,
+        );
+      }
+      for (const serialNumber of serialNumbers) {
+        const serial = await findSerial(
+          ctx,
+          customerReturn.organizationId,
+          serialNumber,
+        );
+        if (!serial || serial.batchId !== inspectionBatch._id) {
+          throw new Error(
+            `Serial ${serialNumber} is not awaiting inspection on ${customerReturn.rmaCode}`,
+          );
+        }
+        serials.push(serial);
+      }
+    }
+
+    const zone = args.zoneId ? await ctx.db.get(args.zoneId) : null;
+    if (args.disposition === "RESTOCK" || args.disposition === "QUARANTINE") {
+      if (!zone || zone.isDeleted) {
+        throw new Error("Choose the zone the units go to");
+      }
+      if (zone.branchId !== customerReturn.branchId) {
+        throw new Error("The zone must be in the RMA's branch");
+      }
+    }
+    if (args.disposition === "RETURN_TO_VENDOR" && !args.supplierId) {
+      throw new Error("Choose the supplier to return the units to");
+    }
+
+    // Step 2: Post the movement, one unit at a time for serials
+    const notes = `RMA ${customerReturn.rmaCode}${args.condition ? ` - ${args.condition}` : ""}`;
+    const units = serials.length
+      ? serials.map((serial) => ({ serial, quantity: 1 }))
+      : [{ serial: null, quantity: args.quantity }];
+    let batchId: Id<"inventory_batches"> | undefined;
+    let returnRequestId: Id<"return_requests"> | undefined;
+
+    switch (args.disposition) {
+      case "RESTOCK":
+      case "QUARANTINE": {
+        const restock = args.disposition === "RESTOCK";
+        const transactionTypeId = restock
+          ? await ensureSystemLookup(
+              ctx,
+              "InventoryTransactionType",
+              "RESTOCK",
+              "Restock",
+              "Returned stock put back into sellable inventory",
+            )
+          : await ensureSystemLookup(
+              ctx,
+              "InventoryTransactionType",
+              "QUARANTINE",
+              "Quarantine",
+              "Stock moved into quarantine",
+            );
+        const batchStatusTypeId = await ensureBatchStatus(
+          ctx,
+          restock ? "ACTIVE" : "QUARANTINE",
+        );
+        for (const unit of units) {
+          batchId = await moveBatchQuantity(ctx, {
+            batchId: inspectionBatch._id,
+            toZoneId: zone!._id,
+            quantity: unit.quantity,
+            batchStatusTypeId,
+            split: !restock && !batchId,
+            targetBatchId: batchId,
+            inventoryTransactionTypeId: transactionTypeId,
+            createdByUserId: args.userId,
+            notes,
+            serialNumberId: unit.serial?._id,
+            customerReturnDetailId: detail._id,
+          });
+          if (unit.serial) {
+            await setSerialLocation(
+              ctx,
+              unit.serial._id,
+              restock ? "AVAILABLE" : "QUARANTINED",
+              { batchId, zoneId: zone!._id },
+            );
+          }
+        }
+        break;
+      }
+      case "SCRAP": {
+        const scrapTypeId = await ensureSystemLookup(
+          ctx,
+          "InventoryTransactionType",
+          "SCRAP",
+          "Scrap",
+          "Stock written off as scrap",
+        );
+        for (const unit of units) {
+          const { quantityAfter } = await applyInventoryChange(ctx, {
+            batchId: inspectionBatch._id,
+            quantityChange: -unit.quantity,
+            inventoryTransactionTypeId: scrapTypeId,
+            createdByUserId: args.userId,
+            notes,
+            serialNumberId: unit.serial?._id,
+            customerReturnDetailId: detail._id,
+          });
+          if (quantityAfter === 0) {
+            await ctx.db.patch(inspectionBatch._id, {
+              isDeleted: true,
+              deletedAt: Date.now(),
+            });
+          }
+          if (unit.serial) {
+            await setSerialLocation(ctx, unit.serial._id, "SCRAPPED");
+          }
+        }
+        break;
+      }
+      case "RETURN_TO_VENDOR": {
+        const moveTypeId = await ensureSystemLookup(
+          ctx,
+          "InventoryTransactionType",
+          "MOVE",
+          "Location Move",
+          "Stock moved between zones",
+        );
+        for (const unit of units) {
+          batchId = await moveBatchQuantity(ctx, {
+            batchId: inspectionBatch._id,
+            toZoneId: inspectionBatch.zoneId,
+            quantity: unit.quantity,
+            split: !batchId,
+            targetBatchId: batchId,
+            inventoryTransactionTypeId: moveTypeId,
+            createdByUserId: args.userId,
+            notes: `${notes} - set aside for the supplier`,
+            serialNumberId: unit.serial?._id,
+            customerReturnDetailId: detail._id,
+          });
+          if (unit.serial) {
+            await setSerialLocation(ctx, unit.serial._id, "QUARANTINED", {
+              batchId,
+              zoneId: inspectionBatch.zoneId,
+            });
+          }
+        }
+
+        const variant = await ctx.db.get(detail.skuId);
+        const supplierReturn = await createSupplierReturnRequest(ctx, {
+          organizationId: customerReturn.organizationId,
+          branchId: customerReturn.branchId,
+          supplierId: args.supplierId!,
+          userId: args.userId,
+          details: [
+            {
+              batchId: batchId!,
+              skuId: detail.skuId,
+              quantityToReturn: args.quantity,
+              reasonTypeId:
+                args.reasonTypeId ??
+                (await ensureSystemLookup(
+                  ctx,
+                  "ReturnReason",
+                  "DEFECTIVE",
+                  "Defective",
+                  "Product is defective",
+                )),
+              customReasonNotes: args.notes ?? notes,
+              expectedCreditAmount:
+                args.expectedCreditAmount ??
+                (variant?.costPrice ?? 0) * args.quantity,
+            },
+          ],
+        });
+        returnRequestId = supplierReturn.returnRequestId;
+        break;
+      }
+    }
+
+    // Step 3: Record the disposition
+    await ctx.db.insert("customer_return_dispositions", {
+      customerReturnId: customerReturn._id,
+      customerReturnDetailId: detail._id,
+      dispositionTypeId: await ensureSystemLookup(
+        ctx,
+        "ReturnDisposition",
+        args.disposition,
+        DISPOSITIONS[args.disposition].value,
+        DISPOSITIONS[args.disposition].description,
+      ),
+      quantity: args.quantity,
+      serialNumbers: serials.length
+        ? serials.map((serial) => serial.serialNumber)
+        : undefined,
+      zoneId: zone?._id ?? (batchId ? inspectionBatch.zoneId : undefined),
+      batchId,
+      returnRequestId,
+      condition: args.condition,
+      notes: args.notes,
+      inspectedByUserId: args.userId,
+      inspectedAt: Date.now(),
+    });
+    await ctx.db.patch(detail._id, {
+      quantityInspected: detail.quantityInspected + args.quantity,
+    });
+
+    return {
+      success: true,
+      batchId: batchId ?? null,
+      returnRequestId: returnRequestId ?? null,
+    };
+  },
+});
+
+/**
+ * Complete an RMA once every received unit has been inspected
+ * A reason is required when fewer units arrived than were authorized
+ */
+export const completeCustomerReturn = mutation({
+  args: {
+    customerReturnId: v.id("customer_returns"),
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { customerReturn } = await getReturnInStatus(
+      ctx,
+      args.customerReturnId,
+      ["RECEIVING"],
+    );
+    const details = await getReturnDetails(ctx, customerReturn._id);
+
+    if (details.some((d) => d.quantityInspected < d.quantityReceived)) {
+      throw new Error(
+        `Inspect every received unit before completing ${customerReturn.rmaCode}`,
+      );
+    }
+    const short = details.some(
+      (d) => d.quantityReceived < d.quantityAuthorized,
+    );
+    if (short && !args.reason?.trim()) {
+      throw new Error(
+        "A reason is required when fewer units arrived than were authorized",
+      );
+    }
+
+    await setReturnStatus(ctx, {
+      customerReturn,
+      fromCode: "RECEIVING",
+      toCode: "COMPLETED",
+      userId: args.userId,
+      patch: { completedAt: Date.now(), closeReason: args.reason },
+      notes: args.reason,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Cancel an RMA before any units have been received
+ */
+export const cancelCustomerReturn = mutation({
+  args: {
+    customerReturnId: v.id("customer_returns"),
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { customerReturn } = await getReturnInStatus(
+      ctx,
+      args.customerReturnId,
+      ["AUTHORIZED"],
+    );
+
+    await setReturnStatus(ctx, {
+      customerReturn,
+      fromCode: "AUTHORIZED",
+      toCode: "CANCELLED",
+      userId: args.userId,
+      patch: { completedAt: Date.now(), closeReason: args.reason },
+      notes: args.reason,
+    });
+
+    return { success: true };
+  },
+});
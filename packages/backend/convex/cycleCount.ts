@@ -1,5 +1,13 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import {
+  ensureBatchStatus,
+  generateInternalBatchNumber,
+  moveBatchQuantity,
+  postInventoryAdjustment,
+} from "./inventory";
+import { ensureSystemLookup, resolveLookupCode } from "./lookups";
 
 // ================================================================
 // SESSION QUERIES & MUTATIONS
@@ -232,15 +240,436 @@ export const viewCycleCountSessionDetail = query({
   },
 });
 
+/**
+ * listCycleCountSessions
+ *
+ * Purpose: Lists the cycle count sessions of a branch for the sessions table
+ *
+ * Process:
+ * 1. Queries the branch's work sessions, newest first, keeping cycle counts
+ * 2. Resolves the count type, status and assigned user of each session
+ * 3. Returns the sessions with the number of zones they count
+ *
+ * Access: Available to all authenticated users within the organization
+ * Typical users: Warehouse managers, inventory staff, supervisors, admins
+ */
+export const listCycleCountSessions = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Query the branch's cycle count sessions
+    const sessions = await ctx.db
+      .query("work_sessions")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .order("desc")
+      .filter((q) => q.neq(q.field("cycleCountTypeId"), undefined))
+      .collect();
+
+    // Step 2-3: Enrich each session
+    return await Promise.all(
+      sessions.map(async (session) => {
+        const cycleCountType = session.cycleCountTypeId
+          ? await ctx.db.get(session.cycleCountTypeId)
+          : null;
+        const status = await ctx.db.get(session.sessionStatusTypeId);
+        const assignedUser = await ctx.db.get(session.assignedUserId);
+        const zoneAssignments = await ctx.db
+          .query("session_zone_assignments")
+          .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+          .collect();
+
+        return {
+          _id: session._id,
+          sessionCode: session.sessionCode,
+          name: session.name ?? session.sessionCode,
+          cycleCountType: cycleCountType
+            ? { lookupValue: cycleCountType.lookupValue }
+            : null,
+          sessionStatus: status ? { lookupValue: status.lookupValue } : null,
+          assignedUser: assignedUser
+            ? { fullName: assignedUser.fullName }
+            : null,
+          zonesCount: zoneAssignments.length,
+          createdAt: session._creationTime,
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * getCycleCountSessionDetail
+ *
+ * Purpose: Retrieves a cycle count session with its lines grouped by zone,
+ * for the desktop session view and its scanner
+ *
+ * Process:
+ * 1. Fetches the cycle count session
+ * 2. Loads its line items with SKU and batch details
+ * 3. Groups the lines by zone with the zone's assigned worker
+ * 4. Returns the session header and the zones
+ *
+ * Access: Available to all authenticated users within the organization
+ * Typical users: Warehouse managers, supervisors
+ */
+export const getCycleCountSessionDetail = query({
+  args: {
+    sessionId: v.id("work_sessions"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Fetch the session
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || !session.cycleCountTypeId) {
+      return null;
+    }
+    const cycleCountType = await ctx.db.get(session.cycleCountTypeId);
+    const status = await ctx.db.get(session.sessionStatusTypeId);
+    const assignedUser = await ctx.db.get(session.assignedUserId);
+
+    // Step 2: Load the line items
+    const lineItems = await ctx.db
+      .query("session_line_items")
+      .withIndex("sessionId", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const lines = await Promise.all(
+      lineItems.map(async (item) => {
+        const variant = await ctx.db.get(item.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+        const batch = item.batchId ? await ctx.db.get(item.batchId) : null;
+        return {
+          _id: item._id,
+          skuId: item.skuId,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? "Unknown",
+          zoneId: item.zoneId,
+          batchId: item.batchId,
+          batchNumber: batch?.internalBatchNumber ?? null,
+          expectedQuantity: item.expectedQuantity,
+          actualQuantity: item.actualQuantity,
+          variance: item.actualQuantity - item.expectedQuantity,
+          scannedAt: item.scannedAt,
+        };
+      }),
+    );
+
+    // Step 3: Group the lines by zone
+    const zoneAssignments = await ctx.db
+      .query("session_zone_assignments")
+      .withIndex("sessionId", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const zones = await Promise.all(
+      zoneAssignments.map(async (assignment) => {
+        const zone = await ctx.db.get(assignment.zoneId);
+        const worker = await ctx.db.get(assignment.assignedUserId);
+        const zoneLines = lines.filter(
+          (line) => line.zoneId === assignment.zoneId,
+        );
+        return {
+          zoneId: assignment.zoneId,
+          zoneName: zone?.name ?? "Unknown zone",
+          assignedWorker: worker ? { fullName: worker.fullName } : null,
+          lineItems: zoneLines,
+          matchedCount: zoneLines.filter(
+            (line) => line.scannedAt !== undefined && line.variance === 0,
+          ).length,
+          totalCount: zoneLines.length,
+        };
+      }),
+    );
+
+    // Step 4: Return the session with its zones
+    return {
+      _id: session._id,
+      sessionCode: session.sessionCode,
+      name: session.name ?? session.sessionCode,
+      cycleCountType: cycleCountType
+        ? { lookupValue: cycleCountType.lookupValue }
+        : null,
+      sessionStatus: status ? { lookupValue: status.lookupValue } : null,
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      assignedUser: assignedUser ? { fullName: assignedUser.fullName } : null,
+      createdAt: session._creationTime,
+      zones,
+    };
+  },
+});
+
+/**
+ * generateAdjustmentRequestCode
+ *
+ * Purpose: Generates a unique adjustment request code
+ * Format: ADJ-YYYYMMDD-XXXX (sequence of requests created today in the organization)
+ */
+async function generateAdjustmentRequestCode(
+  ctx: MutationCtx,
+  organizationId: string,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+
+  const todayRequests = await ctx.db
+    .query("adjustment_requests")
+    .withIndex("organizationId", (q) => q.eq("organizationId", organizationId))
+    .filter((q) => q.gte(q.field("requestedAt"), startOfDay))
+    .collect();
+
+  const sequence = (todayRequests.length + 1).toString().padStart(4, "0");
+  return `ADJ-${dateStr}-${sequence}`;
+}
+
+/**
+ * Check a cycle count can be completed: it must still be open and every
+ * line must have been counted, since an unscanned line would post its
+ * whole expected quantity as lost
+ */
+async function ensureCountCanComplete(
+  ctx: MutationCtx,
+  session: Doc<"work_sessions">,
+) {
+  const statusCode = await resolveLookupCode(ctx, session.sessionStatusTypeId);
+  if (statusCode === "COMPLETED" || statusCode === "CANCELLED") {
+    throw new Error("Session is already closed");
+  }
+
+  const lineItems = await ctx.db
+    .query("session_line_items")
+    .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+    .collect();
+  const uncounted = lineItems.filter((item) => item.scannedAt === undefined);
+  if (uncounted.length > 0) {
+    throw new Error(
+      `${uncounted.length} line(s) have not been counted; count every location before submitting`,
+    );
+  }
+}
+
+/**
+ * finalizeCycleCountSession
+ *
+ * Purpose: Turns the counted variances of a completed cycle count into work
+ *
+ * Process:
+ * 1. Loads the session line items and computes each line's variance
+ * 2. Creates a pending quantity adjustment request with a detail for every
+ *    non-zero variance, costed from product_variants.costPrice
+ * 3. Writes a session_metrics row (total time, items processed, accuracy)
+ * 4. Returns the created adjustment request ID, if any
+ *
+ * A session is finalized once: completing it again after a reopen returns
+ * the adjustment request of the first completion.
+ *
+ * Lines without a batch are spread over the SKU's live batches in the
+ * counted zone: a shortfall is taken from them earliest expiry first, and
+ * found stock is recorded against the zone; approval creates its batch.
+ */
+async function finalizeCycleCountSession(
+  ctx: MutationCtx,
+  session: Doc<"work_sessions">,
+  completedAt: number,
+): Promise<Id<"adjustment_requests"> | null> {
+  const existingRequest = await ctx.db
+    .query("adjustment_requests")
+    .withIndex("workSessionId", (q) => q.eq("workSessionId", session._id))
+    .first();
+  if (existingRequest) {
+    return existingRequest._id;
+  }
+  const existingMetrics = await ctx.db
+    .query("session_metrics")
+    .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+    .first();
+  if (existingMetrics) {
+    return null;
+  }
+
+  // Step 1: Load line items and compute variances
+  const lineItems = await ctx.db
+    .query("session_line_items")
+    .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+    .collect();
+
+  const varianceLines: {
+    item: Doc<"session_line_items">;
+    batchId: string;
+    zoneId?: Id<"storage_zones">;
+    expectedQuantity: number;
+    actualQuantity: number;
+    variance: number;
+    costImpact: number;
+  }[] = [];
+  for (const item of lineItems) {
+    const variance = item.actualQuantity - item.expectedQuantity;
+    if (variance === 0) continue;
+
+    const variant = await ctx.db.get(item.skuId);
+    const costPrice = variant?.costPrice ?? 0;
+
+    if (item.batchId) {
+      varianceLines.push({
+        item,
+        batchId: item.batchId,
+        expectedQuantity: item.expectedQuantity,
+        actualQuantity: item.actualQuantity,
+        variance,
+        costImpact: variance * costPrice,
+      });
+      continue;
+    }
+
+    if (!item.zoneId) {
+      throw new Error(
+        `Count line for ${variant?.skuCode ?? item.skuId} has no batch or zone to adjust`,
+      );
+    }
+    const zoneId = item.zoneId;
+
+    if (variance > 0) {
+      varianceLines.push({
+        item,
+        batchId: "",
+        zoneId,
+        expectedQuantity: 0,
+        actualQuantity: variance,
+        variance,
+        costImpact: variance * costPrice,
+      });
+      continue;
+    }
+
+    const batches = (
+      await ctx.db
+        .query("inventory_batches")
+        .withIndex("zoneId", (q) => q.eq("zoneId", zoneId))
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("skuId"), item.skuId),
+            q.eq(q.field("isDeleted"), false),
+            q.gt(q.field("quantity"), 0),
+          ),
+        )
+        .collect()
+    ).sort(
+      (a, b) =>
+        (a.expiresAt ?? Number.MAX_SAFE_INTEGER) -
+        (b.expiresAt ?? Number.MAX_SAFE_INTEGER),
+    );
+
+    let shortfall = -variance;
+    for (const batch of batches) {
+      if (shortfall === 0) break;
+      const taken = Math.min(shortfall, batch.quantity);
+      shortfall -= taken;
+      varianceLines.push({
+        item,
+        batchId: batch._id,
+        expectedQuantity: batch.quantity,
+        actualQuantity: batch.quantity - taken,
+        variance: -taken,
+        costImpact: -taken * costPrice,
+      });
+    }
+    if (shortfall > 0) {
+      throw new Error(
+        `Count of ${variant?.skuCode ?? item.skuId} is ${shortfall} short of what its zone holds; recount the zone`,
+      );
+    }
+  }
+
+  // Step 2: Create the adjustment request for supervisors to approve
+  let adjustmentRequestId: Id<"adjustment_requests"> | null = null;
+  if (varianceLines.length > 0) {
+    const quantityTypeId = await ensureSystemLookup(
+      ctx,
+      "AdjustmentType",
+      "QUANTITY",
+      "Quantity Adjustment",
+      "Quantity adjustment type",
+    );
+    const pendingStatusId = await ensureSystemLookup(
+      ctx,
+      "AdjustmentStatus",
+      "PENDING",
+      "Pending",
+      "Adjustment is pending approval",
+    );
+    const countDiscrepancyReasonId = await ensureSystemLookup(
+      ctx,
+      "AdjustmentReason",
+      "COUNT_DISCREPANCY",
+      "Count Discrepancy",
+      "Counted quantity differs from system quantity",
+    );
+
+    adjustmentRequestId = await ctx.db.insert("adjustment_requests", {
+      organizationId: session.organizationId,
+      branchId: session.branchId,
+      requestCode: await generateAdjustmentRequestCode(
+        ctx,
+        session.organizationId,
+      ),
+      adjustmentTypeId: quantityTypeId,
+      requestedByUserId: session.assignedUserId,
+      requestedAt: completedAt,
+      adjustmentStatusTypeId: pendingStatusId,
+      workSessionId: session._id,
+    });
+
+    for (const line of varianceLines) {
+      await ctx.db.insert("adjustment_request_details", {
+        adjustmentRequestId,
+        batchId: line.batchId,
+        zoneId: line.zoneId,
+        skuId: line.item.skuId,
+        expectedQuantity: line.expectedQuantity,
+        actualQuantity: line.actualQuantity,
+        varianceQuantity: line.variance,
+        costImpact: line.costImpact,
+        reasonTypeId: countDiscrepancyReasonId,
+        customReasonNotes: `Cycle count ${session.sessionCode}${line.item.notes ? `: ${line.item.notes}` : ""}`,
+      });
+    }
+  }
+
+  // Step 3: Record session metrics
+  const startedAt = session.startedAt ?? session._creationTime;
+  const matchedLines = lineItems.filter(
+    (item) => item.actualQuantity === item.expectedQuantity,
+  ).length;
+
+  await ctx.db.insert("session_metrics", {
+    sessionId: session._id,
+    totalTimeSeconds: Math.max(0, Math.round((completedAt - startedAt) / 1000)),
+    totalItemsProcessed: lineItems.reduce(
+      (sum, item) => sum + item.actualQuantity,
+      0,
+    ),
+    accuracyRate:
+      lineItems.length > 0
+        ? Math.round((matchedLines / lineItems.length) * 10000) / 100
+        : 100,
+    calculatedAt: completedAt,
+  });
+
+  // Step 4: Return the created adjustment request ID
+  return adjustmentRequestId;
+}
+
 /**
  * updateSessionStatus
  *
  * Purpose: Updates the status of a cycle count session
  *
  * Process:
- * 1. Fetches the session to validate it exists
+ * 1. Fetches the session to validate it exists; completing a cycle count
+ *    requires an open session with every line counted
  * 2. Updates the session status and optional timestamp fields
- * 3. Returns the updated session ID
+ * 3. On completion, creates an adjustment request from the counted
+ *    variances and records session metrics
+ * 4. Returns the updated session ID
  *
  * Access: Restricted to authorized users with permission to manage sessions
  * Typical users: Warehouse managers, supervisors, admins
@@ -262,6 +691,15 @@ export const updateSessionStatus = mutation({
     if (!session) {
       throw new Error("Session not found");
     }
+    const newStatusCode = await resolveLookupCode(
+      ctx,
+      args.sessionStatusTypeId,
+    );
+    const completesCount =
+      newStatusCode === "COMPLETED" && !!session.cycleCountTypeId;
+    if (completesCount) {
+      await ensureCountCanComplete(ctx, session);
+    }
 
     // Step 2: Build update object with provided fields
     const updateData: Record<string, unknown> = {
@@ -280,7 +718,19 @@ export const updateSessionStatus = mutation({
     // Step 3: Update the session
     await ctx.db.patch(args.sessionId, updateData);
 
-    // Step 4: Return the updated session ID
+    // Step 4: Turn variances into an adjustment request on completion
+    if (completesCount) {
+      await finalizeCycleCountSession(
+        ctx,
+        session,
+        args.completedAt ?? Date.now(),
+      );
+      if (args.completedAt === undefined) {
+        await ctx.db.patch(args.sessionId, { completedAt: Date.now() });
+      }
+    }
+
+    // Step 5: Return the updated session ID
     return args.sessionId;
   },
 });
@@ -325,6 +775,147 @@ export const updateSessionLineItem = mutation({
   },
 });
 
+/**
+ * recordCountScan
+ *
+ * Purpose: Counts one scanned unit (or a scanned case quantity) against the
+ * matching line of a cycle count session
+ *
+ * Process:
+ * 1. Fetches the session and rejects closed sessions
+ * 2. Finds the session line for the scanned SKU, in the given zone and
+ *    batch if any; a SKU counted on several batch lines needs the batch
+ * 3. Increments the line's actual quantity and stamps the scan time
+ * 4. Returns the updated counts so the scanner can show progress
+ *
+ * SKUs without a line in the session are rejected so the counter gets an
+ * "unexpected SKU" alert instead of silently growing the count.
+ *
+ * Access: Available to assigned workers and supervisors
+ * Typical users: Warehouse staff performing counts
+ */
+export const recordCountScan = mutation({
+  args: {
+    sessionId: v.id("work_sessions"),
+    skuId: v.id("product_variants"),
+    zoneId: v.optional(v.id("storage_zones")),
+    batchId: v.optional(v.id("inventory_batches")), // From a scanned batch label
+    quantity: v.optional(v.number()), // Defaults to one unit per scan
+  },
+  handler: async (ctx, args) => {
+    const quantity = args.quantity ?? 1;
+    if (quantity <= 0) {
+      throw new Error("Scanned quantity must be greater than 0");
+    }
+
+    // Step 1: Fetch the session and make sure it is still open
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    const statusCode = await resolveLookupCode(
+      ctx,
+      session.sessionStatusTypeId,
+    );
+    if (statusCode === "COMPLETED" || statusCode === "CANCELLED") {
+      throw new Error("Session is closed and cannot be counted");
+    }
+
+    // Step 2: Find the line for the scanned SKU
+    const lineItems = await ctx.db
+      .query("session_line_items")
+      .withIndex("sessionId", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    const matches = lineItems.filter(
+      (item) =>
+        item.skuId === args.skuId &&
+        (!args.zoneId || item.zoneId === args.zoneId) &&
+        (!args.batchId || item.batchId === args.batchId),
+    );
+    const [lineItem] = matches;
+    if (!lineItem) {
+      const variant = await ctx.db.get(args.skuId);
+      throw new Error(
+        `${variant?.skuCode ?? "This SKU"} is not expected in this count`,
+      );
+    }
+    if (matches.length > 1) {
+      const variant = await ctx.db.get(args.skuId);
+      throw new Error(
+        `${variant?.skuCode ?? "This SKU"} is on several lines of this count; scan its batch label`,
+      );
+    }
+
+    // Step 3: Increment the counted quantity
+    const actualQuantity = lineItem.actualQuantity + quantity;
+    await ctx.db.patch(lineItem._id, {
+      actualQuantity,
+      scannedAt: Date.now(),
+    });
+
+    // Step 4: Return the line's progress
+    return {
+      lineItemId: lineItem._id,
+      expectedQuantity: lineItem.expectedQuantity,
+      actualQuantity,
+    };
+  },
+});
+
+/**
+ * submitCountSession
+ *
+ * Purpose: Closes a cycle count from the counter's scanner once every zone
+ * has been counted
+ *
+ * Process:
+ * 1. Fetches the session and rejects closed sessions, and sessions with
+ *    lines not counted yet
+ * 2. Marks the session completed
+ * 3. Turns the counted variances into an adjustment request for review
+ * 4. Returns the created adjustment request ID, if any
+ *
+ * Access: Available to assigned workers and supervisors
+ * Typical users: Warehouse staff performing counts
+ */
+export const submitCountSession = mutation({
+  args: {
+    sessionId: v.id("work_sessions"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Fetch the session and make sure it is still open
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || !session.cycleCountTypeId) {
+      throw new Error("Cycle count session not found");
+    }
+    await ensureCountCanComplete(ctx, session);
+
+    // Step 2: Mark the session completed
+    const completedAt = Date.now();
+    await ctx.db.patch(args.sessionId, {
+      sessionStatusTypeId: await ensureSystemLookup(
+        ctx,
+        "SessionStatus",
+        "COMPLETED",
+        "Completed",
+        "Session has been completed",
+      ),
+      startedAt: session.startedAt ?? completedAt,
+      completedAt,
+    });
+
+    // Step 3: Turn variances into an adjustment request
+    const adjustmentRequestId = await finalizeCycleCountSession(
+      ctx,
+      session,
+      completedAt,
+    );
+
+    // Step 4: Return the adjustment request for the supervisor
+    return { success: true, adjustmentRequestId };
+  },
+});
+
 // ================================================================
 // ADJUSTMENT QUERIES & MUTATIONS
 // ================================================================
@@ -527,6 +1118,172 @@ export const createNewAdjustmentRequest = mutation({
   },
 });
 
+/**
+ * applyApprovedAdjustment
+ *
+ * Purpose: Posts every line of an approved adjustment request to stock
+ *
+ * Process:
+ * 1. Resolves each line to a quantity change or a location move
+ * 2. Validates all lines up front; any batch that would go negative rejects
+ *    the whole approval before anything is written
+ * 3. Posts quantity lines through the same path as inventory.adjustInventory;
+ *    found stock counted against a zone first gets a new batch there
+ * 4. Moves stock for location lines through inventory.moveBatchQuantity
+ *
+ * Every transaction records the adjustmentRequestDetailId of its line.
+ */
+async function applyApprovedAdjustment(
+  ctx: MutationCtx,
+  adjustmentRequest: Doc<"adjustment_requests">,
+  approverId: Id<"users">,
+) {
+  // Step 1: Load the lines with their batches
+  const details = await ctx.db
+    .query("adjustment_request_details")
+    .withIndex("adjustmentRequestId", (q) =>
+      q.eq("adjustmentRequestId", adjustmentRequest._id),
+    )
+    .collect();
+
+  const lines = [];
+  for (const detail of details) {
+    // Found stock without a batch; its batch is created when posting
+    if (!detail.batchId && detail.zoneId) {
+      const zone = await ctx.db.get(detail.zoneId);
+      if (!zone || zone.isDeleted) {
+        throw new Error(`Counted zone ${detail.zoneId} not found`);
+      }
+      lines.push({ kind: "found" as const, detail, zone });
+      continue;
+    }
+
+    const batchId = ctx.db.normalizeId("inventory_batches", detail.batchId);
+    const batch = batchId ? await ctx.db.get(batchId) : null;
+    if (!batch || batch.isDeleted) {
+      throw new Error(
+        `Batch ${detail.batchId} of adjustment ${adjustmentRequest.requestCode} not found`,
+      );
+    }
+
+    if (detail.toZoneId) {
+      const toZoneId = ctx.db.normalizeId("storage_zones", detail.toZoneId);
+      const toZone = toZoneId ? await ctx.db.get(toZoneId) : null;
+      if (!toZone || toZone.isDeleted || toZone.branchId !== batch.branchId) {
+        throw new Error(`Destination zone ${detail.toZoneId} not found`);
+      }
+      if (detail.fromZoneId && detail.fromZoneId !== batch.zoneId) {
+        throw new Error(
+          `Batch ${batch.internalBatchNumber ?? batch._id} is not in the source zone`,
+        );
+      }
+
+      const quantity = detail.quantity ?? batch.quantity;
+      if (quantity <= 0) {
+        throw new Error("Location adjustment quantity must be greater than 0");
+      }
+      lines.push({ kind: "location" as const, detail, batch, toZone, quantity });
+    } else {
+      const quantityChange =
+        detail.varianceQuantity ||
+        detail.actualQuantity - detail.expectedQuantity;
+      lines.push({ kind: "quantity" as const, detail, batch, quantityChange });
+    }
+  }
+
+  // Step 2: Check the net effect per batch before writing anything
+  const netChanges = new Map<Id<"inventory_batches">, number>();
+  for (const line of lines) {
+    if (line.kind === "found") continue;
+    const change =
+      line.kind === "quantity" ? line.quantityChange : -line.quantity;
+    netChanges.set(
+      line.batch._id,
+      (netChanges.get(line.batch._id) ?? 0) + change,
+    );
+  }
+  for (const line of lines) {
+    if (line.kind === "found") continue;
+    const net = netChanges.get(line.batch._id) ?? 0;
+    if (line.batch.quantity + net < 0) {
+      throw new Error(
+        `Adjustment would drive batch ${line.batch.internalBatchNumber ?? line.batch._id} negative (${line.batch.quantity} on hand, ${net} requested); approval rejected`,
+      );
+    }
+  }
+
+  const adjustTypeId = await ensureSystemLookup(
+    ctx,
+    "InventoryTransactionType",
+    "ADJUST",
+    "Adjust",
+    "Stock adjustment",
+  );
+  const moveTypeId = await ensureSystemLookup(
+    ctx,
+    "InventoryTransactionType",
+    "MOVE",
+    "Location Move",
+    "Stock moved between zones",
+  );
+
+  for (const line of lines) {
+    const notes = `Adjustment ${adjustmentRequest.requestCode}${line.detail.customReasonNotes ? `: ${line.detail.customReasonNotes}` : ""}`;
+
+    // Step 3: Quantity lines
+    if (line.kind === "found") {
+      const batchId = await ctx.db.insert("inventory_batches", {
+        organizationId:
+          adjustmentRequest.organizationId as Id<"organizations">,
+        skuId: line.detail.skuId as Id<"product_variants">,
+        zoneId: line.zone._id,
+        quantity: 0,
+        branchId: line.zone.branchId,
+        internalBatchNumber: await generateInternalBatchNumber(
+          ctx,
+          line.zone.branchId,
+        ),
+        receivedAt: Date.now(),
+        batchStatusTypeId: await ensureBatchStatus(ctx, "ACTIVE"),
+        isDeleted: false,
+      });
+      await ctx.db.patch(line.detail._id, { batchId });
+      await postInventoryAdjustment(ctx, {
+        batchId,
+        quantityChange: line.detail.varianceQuantity,
+        inventoryTransactionTypeId: adjustTypeId,
+        userId: approverId,
+        notes,
+        adjustmentRequestDetailId: line.detail._id,
+      });
+      continue;
+    }
+    if (line.kind === "quantity") {
+      if (line.quantityChange === 0) continue;
+      await postInventoryAdjustment(ctx, {
+        batchId: line.batch._id,
+        quantityChange: line.quantityChange,
+        inventoryTransactionTypeId: adjustTypeId,
+        userId: approverId,
+        notes,
+        adjustmentRequestDetailId: line.detail._id,
+      });
+      continue;
+    }
+
+    // Step 4: Location lines
+    await moveBatchQuantity(ctx, {
+      batchId: line.batch._id,
+      toZoneId: line.toZone._id,
+      quantity: line.quantity,
+      inventoryTransactionTypeId: moveTypeId,
+      createdByUserId: approverId,
+      notes,
+      adjustmentRequestDetailId: line.detail._id,
+    });
+  }
+}
+
 /**
  * setAdjustmentRequestStatus
  *
@@ -534,8 +1291,11 @@ export const createNewAdjustmentRequest = mutation({
  *
  * Process:
  * 1. Fetches the adjustment request by ID to validate it exists
- * 2. Updates the status and optional approval fields
- * 3. Returns the updated adjustment request ID
+ * 2. Refuses any change to an approved request, since its stock is posted;
+ *    when moving to Approved, posts every line to stock; the mutation fails
+ *    as a whole if any line would drive a batch negative
+ * 3. Updates the status and optional approval fields
+ * 4. Returns the updated adjustment request ID
  *
  * Access: Restricted to authorized users with permission to manage adjustment requests
  * Typical users: Warehouse managers, supervisors, admins
@@ -555,7 +1315,34 @@ export const setAdjustmentRequestStatus = mutation({
       throw new Error("Adjustment request not found");
     }
 
-    // Step 2: Build update object
+    // Step 2: Apply the adjustment to stock when it is approved. Stock is
+    // posted exactly once, so an approved request can't change status again
+    const currentStatusCode = await resolveLookupCode(
+      ctx,
+      adjustmentRequest.adjustmentStatusTypeId,
+    );
+    if (currentStatusCode === "APPROVED") {
+      throw new Error(
+        "Adjustment request is already approved and its stock posted",
+      );
+    }
+
+    const newStatusCode = await resolveLookupCode(
+      ctx,
+      args.adjustmentStatusTypeId,
+    );
+    if (newStatusCode === "APPROVED") {
+      const approverId = args.approvedByUserId
+        ? ctx.db.normalizeId("users", args.approvedByUserId)
+        : null;
+      if (!approverId) {
+        throw new Error("An approver is required to approve an adjustment");
+      }
+
+      await applyApprovedAdjustment(ctx, adjustmentRequest, approverId);
+    }
+
+    // Step 3: Build update object
     const updateData: Record<string, unknown> = {
       adjustmentStatusTypeId: args.adjustmentStatusTypeId,
     };
@@ -569,10 +1356,10 @@ export const setAdjustmentRequestStatus = mutation({
       updateData.resolutionNotes = args.resolutionNotes;
     }
 
-    // Step 3: Update the adjustment request
+    // Step 4: Update the adjustment request
     await ctx.db.patch(args.adjustmentRequestId, updateData);
 
-    // Step 4: Return the updated request ID
+    // Step 5: Return the updated request ID
     return args.adjustmentRequestId;
   },
 });
@@ -0,0 +1,391 @@
+/**
+ * CYCLE COUNT SCHEDULE API
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - configure schedules
+ * ✅ Admin - configure schedules
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - The schedule of each branch lives in branch_settings under
+ *   the "cycle_count_schedule" key
+ * - A daily cron generates sessions for every enabled branch that is due
+ * - Line items are snapshotted from live inventory_batches per zone
+ * - SKUs are picked by ABC velocity class from the last 90 days of
+ *   outbound transactions; zones and counters rotate between runs
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { getOutboundUnitsBySku } from "./inventory";
+import { ensureSystemLookup } from "./lookups";
+import { generateWorkSessionCode } from "./workSessions";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const SCHEDULE_SETTING_KEY = "cycle_count_schedule";
+const VELOCITY_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+// Schedules are evaluated in Vietnam time (UTC+7), like the other crons
+const SCHEDULE_TZ_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+type AbcClass = "A" | "B" | "C";
+
+const scheduleValidator = v.object({
+  enabled: v.boolean(),
+  cadence: v.union(v.literal("DAILY"), v.literal("WEEKLY")),
+  weekDay: v.optional(v.number()), // 0 = Sunday, used by weekly schedules
+  zonesPerSession: v.number(),
+  includeClasses: v.array(
+    v.union(v.literal("A"), v.literal("B"), v.literal("C")),
+  ),
+  counterUserIds: v.array(v.id("users")),
+});
+
+type CycleCountSchedule = typeof scheduleValidator.type & {
+  nextZoneIndex?: number;
+  nextCounterIndex?: number;
+  lastRunAt?: number;
+};
+
+const DEFAULT_SCHEDULE: CycleCountSchedule = {
+  enabled: false,
+  cadence: "DAILY",
+  zonesPerSession: 2,
+  includeClasses: ["A"],
+  counterUserIds: [],
+};
+
+/**
+ * Get the schedule setting row of a branch
+ */
+async function getScheduleSetting(
+  ctx: QueryCtx,
+  branchId: Id<"branches">,
+): Promise<Doc<"branch_settings"> | null> {
+  return await ctx.db
+    .query("branch_settings")
+    .withIndex("branchId_settingKey", (q) =>
+      q.eq("branchId", branchId).eq("settingKey", SCHEDULE_SETTING_KEY),
+    )
+    .first();
+}
+
+/**
+ * Check whether a schedule should run today
+ */
+function isScheduleDue(schedule: CycleCountSchedule, now: number): boolean {
+  if (!schedule.enabled || schedule.counterUserIds.length === 0) {
+    return false;
+  }
+
+  const localNow = new Date(now + SCHEDULE_TZ_OFFSET_MS);
+  if (schedule.lastRunAt) {
+    const localLastRun = new Date(schedule.lastRunAt + SCHEDULE_TZ_OFFSET_MS);
+    if (
+      localLastRun.toISOString().slice(0, 10) ===
+      localNow.toISOString().slice(0, 10)
+    ) {
+      return false; // Already ran today
+    }
+  }
+
+  if (schedule.cadence === "WEEKLY") {
+    return localNow.getUTCDay() === (schedule.weekDay ?? 1);
+  }
+  return true;
+}
+
+/**
+ * Classify SKUs of a branch by velocity (units moved out over the last
+ * 90 days). A = top 80% of movement, B = next 15%, C = the rest,
+ * including SKUs that did not move at all.
+ */
+async function classifySkusByVelocity(
+  ctx: MutationCtx,
+  branch: Doc<"branches">,
+  batches: Doc<"inventory_batches">[],
+  now: number,
+): Promise<Map<Id<"product_variants">, AbcClass>> {
+  const velocity = await getOutboundUnitsBySku(ctx, {
+    organizationId: branch.organizationId,
+    branchId: branch._id,
+    since: now - VELOCITY_WINDOW_MS,
+  });
+  for (const batch of batches) {
+    if (!velocity.has(batch.skuId)) velocity.set(batch.skuId, 0);
+  }
+
+  const ranked = [...velocity.entries()].sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0]),
+  );
+  const total = ranked.reduce((sum, [, units]) => sum + units, 0);
+
+  const classes = new Map<Id<"product_variants">, AbcClass>();
+  let cumulative = 0;
+  for (const [skuId, units] of ranked) {
+    if (units === 0 || total === 0) {
+      classes.set(skuId, "C");
+      continue;
+    }
+    const share = cumulative / total;
+    classes.set(skuId, share < 0.8 ? "A" : share < 0.95 ? "B" : "C");
+    cumulative += units;
+  }
+
+  return classes;
+}
+
+/**
+ * Generate one scheduled cycle count session for a branch
+ * Returns the session ID, or null when the rotated zones hold no stock
+ * of the selected classes
+ */
+async function generateSessionForBranch(
+  ctx: MutationCtx,
+  branch: Doc<"branches">,
+  setting: Doc<"branch_settings">,
+  now: number,
+): Promise<Id<"work_sessions"> | null> {
+  const schedule = setting.settingValue as CycleCountSchedule;
+
+  // 1. Rotate through the branch's zones in path order
+  const zones = (
+    await ctx.db
+      .query("storage_zones")
+      .withIndex("branchId", (q) => q.eq("branchId", branch._id))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .collect()
+  ).sort((a, b) => a.path.localeCompare(b.path));
+  if (zones.length === 0) return null;
+
+  const zoneCount = Math.min(
+    Math.max(1, schedule.zonesPerSession),
+    zones.length,
+  );
+  const startZone = (schedule.nextZoneIndex ?? 0) % zones.length;
+  const selectedZones = Array.from(
+    { length: zoneCount },
+    (_, i) => zones[(startZone + i) % zones.length],
+  );
+
+  // 2. Snapshot live batches and classify SKUs by velocity
+  const branchBatches = await ctx.db
+    .query("inventory_batches")
+    .withIndex("branchId", (q) => q.eq("branchId", branch._id))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+  const classes = await classifySkusByVelocity(ctx, branch, branchBatches, now);
+  const includeClasses = new Set(schedule.includeClasses);
+
+  const zoneIds = new Set(selectedZones.map((z) => z._id));
+  const lineBatches = branchBatches.filter(
+    (batch) =>
+      zoneIds.has(batch.zoneId) &&
+      includeClasses.has(classes.get(batch.skuId) ?? "C"),
+  );
+
+  // Advance the rotation even when nothing is counted so empty zones are skipped
+  const nextZoneIndex = (startZone + zoneCount) % zones.length;
+  const startCounter =
+    (schedule.nextCounterIndex ?? 0) % schedule.counterUserIds.length;
+
+  if (lineBatches.length === 0) {
+    await ctx.db.patch(setting._id, {
+      settingValue: { ...schedule, nextZoneIndex, lastRunAt: now },
+    });
+    return null;
+  }
+
+  // 3. Create the session with zones rotated across counters
+  const cycleCountTypeId = await ensureSystemLookup(
+    ctx,
+    "CycleCountType",
+    schedule.cadence,
+    schedule.cadence === "DAILY" ? "Daily" : "Weekly",
+    schedule.cadence === "DAILY" ? "Daily cycle count" : "Weekly cycle count",
+  );
+  const sessionTypeId = await ensureSystemLookup(
+    ctx,
+    "SessionType",
+    "CYCLE_COUNT",
+    "Cycle Count",
+    "Cycle count session",
+  );
+  const pendingStatusId = await ensureSystemLookup(
+    ctx,
+    "SessionStatus",
+    "PENDING",
+    "Pending",
+    "Session has not started yet",
+  );
+
+  const dateLabel = new Date(now + SCHEDULE_TZ_OFFSET_MS)
+    .toISOString()
+    .slice(0, 10);
+  const sessionId = await ctx.db.insert("work_sessions", {
+    organizationId: branch.organizationId,
+    branchId: branch._id,
+    sessionTypeId,
+    sessionCode: await generateWorkSessionCode(ctx, branch._id, "CC"),
+    name: `${schedule.cadence === "DAILY" ? "Daily" : "Weekly"} count ${dateLabel}`,
+    description: `Scheduled count of ${[...includeClasses].sort().join("/")}-class SKUs in ${selectedZones.map((z) => z.name).join(", ")}`,
+    cycleCountTypeId,
+    assignedUserId: schedule.counterUserIds[startCounter],
+    sessionStatusTypeId: pendingStatusId,
+  });
+
+  for (const [i, zone] of selectedZones.entries()) {
+    await ctx.db.insert("session_zone_assignments", {
+      sessionId,
+      zoneId: zone._id,
+      assignedUserId:
+        schedule.counterUserIds[
+          (startCounter + i) % schedule.counterUserIds.length
+        ],
+    });
+  }
+
+  for (const batch of lineBatches) {
+    await ctx.db.insert("session_line_items", {
+      sessionId,
+      skuId: batch.skuId,
+      expectedQuantity: batch.quantity,
+      actualQuantity: 0,
+      zoneId: batch.zoneId,
+      batchId: batch._id,
+    });
+  }
+
+  // 4. Persist the rotation state
+  await ctx.db.patch(setting._id, {
+    settingValue: {
+      ...schedule,
+      nextZoneIndex,
+      nextCounterIndex:
+        (startCounter + zoneCount) % schedule.counterUserIds.length,
+      lastRunAt: now,
+    },
+  });
+
+  return sessionId;
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Get the cycle count schedule of a branch (defaults when not configured)
+ */
+export const getSchedule = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const setting = await getScheduleSetting(ctx, args.branchId);
+    return (setting?.settingValue as CycleCountSchedule) ?? DEFAULT_SCHEDULE;
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Create or update the cycle count schedule of a branch
+ * Rotation state is kept when the schedule is edited
+ */
+export const updateSchedule = mutation({
+  args: {
+    branchId: v.id("branches"),
+    schedule: scheduleValidator,
+  },
+  handler: async (ctx, args) => {
+    const { schedule } = args;
+    if (schedule.zonesPerSession < 1) {
+      throw new Error("At least one zone must be counted per session");
+    }
+    if (
+      schedule.cadence === "WEEKLY" &&
+      (schedule.weekDay === undefined ||
+        schedule.weekDay < 0 ||
+        schedule.weekDay > 6)
+    ) {
+      throw new Error("Weekly schedules need a week day between 0 and 6");
+    }
+    if (schedule.includeClasses.length === 0) {
+      throw new Error("Select at least one ABC class to count");
+    }
+    if (schedule.enabled && schedule.counterUserIds.length === 0) {
+      throw new Error("Assign at least one counter to enable the schedule");
+    }
+
+    const existing = await getScheduleSetting(ctx, args.branchId);
+    if (existing) {
+      const current = existing.settingValue as CycleCountSchedule;
+      await ctx.db.patch(existing._id, {
+        settingValue: {
+          ...schedule,
+          nextZoneIndex: current.nextZoneIndex,
+          nextCounterIndex: current.nextCounterIndex,
+          lastRunAt: current.lastRunAt,
+        },
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("branch_settings", {
+      branchId: args.branchId,
+      settingKey: SCHEDULE_SETTING_KEY,
+      settingValue: schedule,
+    });
+  },
+});
+
+/**
+ * Generate the scheduled cycle count sessions of every due branch
+ * Called by the daily cron
+ */
+export const generateScheduledCycleCounts = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const branches = await ctx.db
+      .query("branches")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("isDeleted"), false),
+          q.eq(q.field("isActive"), true),
+        ),
+      )
+      .collect();
+
+    let generated = 0;
+    for (const branch of branches) {
+      const setting = await getScheduleSetting(ctx, branch._id);
+      if (!setting) continue;
+
+      const schedule = setting.settingValue as CycleCountSchedule;
+      if (!isScheduleDue(schedule, now)) continue;
+
+      const sessionId = await generateSessionForBranch(
+        ctx,
+        branch,
+        setting,
+        now,
+      );
+      if (sessionId) generated++;
+    }
+
+    console.log(`Generated ${generated} scheduled cycle count session(s).`);
+  },
+});
@@ -0,0 +1,660 @@
+/**
+ * FORECASTING API - Demand forecasts per SKU
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - run and review forecasts
+ * ✅ Admin - run and review forecasts
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - Demand is the units leaving stock through PICK and TRANSFER_OUT
+ *   inventory_transactions, bucketed per day or per ISO week (Monday) in
+ *   Vietnam time (UTC+7), like the crons
+ * - A SKU's series starts at its first period with demand; the current,
+ *   incomplete period is left out and is the first forecast period
+ * - Candidate methods: moving average, simple exponential smoothing (alpha
+ *   fitted on one-step-ahead error) and seasonal naive (7 days / 52 weeks)
+ * - Each method is backtested on the last holdout periods; the lowest MAPE
+ *   wins (MAE when the holdout has no demand), and the winner is refit on
+ *   the whole series
+ * - Bounds are ±1.28 × the backtest RMSE (about 80%), floored at 0;
+ *   confidenceInterval holds that level
+ * - Each run replaces the SKU's forecasts from the current period on, so
+ *   forecasts of completed periods stay for forecast-vs-actual and
+ *   realized MAPE
+ */
+
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { ensureSystemLookup, getSystemLookup } from "./lookups";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_TZ_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DEMAND_TRANSACTION_TYPES = ["PICK", "TRANSFER_OUT"];
+const CONFIDENCE_LEVEL = 0.8;
+const CONFIDENCE_Z = 1.2816;
+
+type PeriodType = "DAILY" | "WEEKLY";
+
+const PERIOD_CONFIG: Record<
+  PeriodType,
+  {
+    periodMs: number;
+    historyPeriods: number;
+    horizon: number;
+    holdout: number;
+    season: number;
+    movingAverageWindow: number;
+    chartPeriods: number;
+    forecastTypeCode: string;
+    forecastTypeValue: string;
+  }
+> = {
+  DAILY: {
+    periodMs: DAY_MS,
+    historyPeriods: 182,
+    horizon: 28,
+    holdout: 28,
+    season: 7,
+    movingAverageWindow: 7,
+    chartPeriods: 56,
+    forecastTypeCode: "DAILY_DEMAND",
+    forecastTypeValue: "Daily Demand Forecast",
+  },
+  WEEKLY: {
+    periodMs: 7 * DAY_MS,
+    historyPeriods: 104,
+    horizon: 12,
+    holdout: 12,
+    season: 52,
+    movingAverageWindow: 4,
+    chartPeriods: 26,
+    forecastTypeCode: "WEEKLY_DEMAND",
+    forecastTypeValue: "Weekly Demand Forecast",
+  },
+};
+
+const periodTypeValidator = v.union(v.literal("DAILY"), v.literal("WEEKLY"));
+
+type ForecastMethod = {
+  name: string;
+  minHistory: number;
+  forecast: (history: number[], horizon: number) => number[];
+};
+
+export type MethodScore = {
+  name: string;
+  mape: number | null;
+  mae: number;
+  rmse: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Start of the period holding a timestamp
+ */
+export function getPeriodStart(timestamp: number, periodType: PeriodType) {
+  const day = Math.floor((timestamp + FORECAST_TZ_OFFSET_MS) / DAY_MS);
+  // 1970-01-01 was a Thursday; weeks start on Monday
+  const startDay = periodType === "WEEKLY" ? day - ((day + 3) % 7) : day;
+  return startDay * DAY_MS - FORECAST_TZ_OFFSET_MS;
+}
+
+function movingAverage(window: number): ForecastMethod {
+  return {
+    name: `Moving Average (${window})`,
+    minHistory: window,
+    forecast: (history, horizon) => {
+      const recent = history.slice(-window);
+      const mean = recent.reduce((sum, x) => sum + x, 0) / recent.length;
+      return Array(horizon).fill(mean);
+    },
+  };
+}
+
+function smoothLevel(history: number[], alpha: number) {
+  let level = history[0];
+  let squaredError = 0;
+  for (let i = 1; i < history.length; i++) {
+    squaredError += (history[i] - level) ** 2;
+    level = alpha * history[i] + (1 - alpha) * level;
+  }
+  return { level, squaredError };
+}
+
+/**
+ * Alpha with the lowest one-step-ahead squared error on the history
+ */
+export function fitSmoothingAlpha(history: number[]) {
+  let best = { alpha: 0.5, error: Number.POSITIVE_INFINITY };
+  for (let step = 1; step <= 9; step++) {
+    const alpha = step / 10;
+    const { squaredError } = smoothLevel(history, alpha);
+    if (squaredError < best.error) best = { alpha, error: squaredError };
+  }
+  return best.alpha;
+}
+
+function exponentialSmoothing(): ForecastMethod {
+  return {
+    name: "Exponential Smoothing",
+    minHistory: 2,
+    forecast: (history, horizon) => {
+      const { level } = smoothLevel(history, fitSmoothingAlpha(history));
+      return Array(horizon).fill(level);
+    },
+  };
+}
+
+function seasonalNaive(season: number): ForecastMethod {
+  return {
+    name: `Seasonal Naive (${season})`,
+    minHistory: season,
+    forecast: (history, horizon) =>
+      Array.from(
+        { length: horizon },
+        (_, h) => history[history.length - season + (h % season)],
+      ),
+  };
+}
+
+/**
+ * Error of a forecast against actuals. MAPE only counts periods with demand
+ */
+function scoreForecast(actual: number[], predicted: number[]) {
+  let absolute = 0;
+  let squared = 0;
+  let percentage = 0;
+  let percentagePoints = 0;
+  for (let i = 0; i < actual.length; i++) {
+    const error = actual[i] - predicted[i];
+    absolute += Math.abs(error);
+    squared += error ** 2;
+    if (actual[i] > 0) {
+      percentage += Math.abs(error) / actual[i];
+      percentagePoints++;
+    }
+  }
+  return {
+    mape: percentagePoints > 0 ? (percentage / percentagePoints) * 100 : null,
+    mae: absolute / actual.length,
+    rmse: Math.sqrt(squared / actual.length),
+  };
+}
+
+/**
+ * Backtest the candidate methods on a series and forecast with the best
+ *
+ * Process:
+ * 1. Holds out the last periods and forecasts them from the rest with
+ *    every method that has enough history
+ * 2. Picks the lowest MAPE, or the lowest MAE when MAPE is undefined
+ * 3. Refits the winner on the whole series and forecasts the horizon
+ *    with bounds from its backtest RMSE
+ */
+export function forecastSeries(
+  series: number[],
+  config: { horizon: number; holdout: number; season: number; window: number },
+) {
+  const methods = [
+    movingAverage(config.window),
+    exponentialSmoothing(),
+    seasonalNaive(config.season),
+  ];
+
+  // Step 1: Backtest
+  const train = series.slice(0, series.length - config.holdout);
+  const test = series.slice(series.length - config.holdout);
+  const scores: Array<MethodScore & { method: ForecastMethod }> = [];
+  for (const method of methods) {
+    if (train.length < method.minHistory) continue;
+    scores.push({
+      method,
+      name: method.name,
+      ...scoreForecast(test, method.forecast(train, test.length)),
+    });
+  }
+  if (scores.length === 0) return null;
+
+  // Step 2: Best method
+  const useMape = scores.every((score) => score.mape !== null);
+  const best = scores.reduce((a, b) =>
+    (useMape ? (b.mape ?? 0) < (a.mape ?? 0) : b.mae < a.mae) ? b : a,
+  );
+
+  // Step 3: Refit and forecast
+  const halfWidth = CONFIDENCE_Z * best.rmse;
+  let methodName = best.name;
+  if (best.method.name === "Exponential Smoothing") {
+    methodName = `Exponential Smoothing (α=${fitSmoothingAlpha(series)})`;
+  }
+  const predictions = best.method
+    .forecast(series, config.horizon)
+    .map((value) => Math.max(0, value));
+
+  return {
+    methodName,
+    backtestMape: best.mape === null ? null : round2(best.mape),
+    scores: scores.map(({ method: _, ...score }) => ({
+      ...score,
+      mape: score.mape === null ? null : round2(score.mape),
+      mae: round2(score.mae),
+      rmse: round2(score.rmse),
+    })),
+    predictions: predictions.map((value) => ({
+      predicted: round2(value),
+      lower: round2(Math.max(0, value - halfWidth)),
+      upper: round2(value + halfWidth),
+    })),
+  };
+}
+
+/**
+ * Demand per SKU and period start for an organization since a timestamp
+ */
+async function getDemandByPeriod(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  periodType: PeriodType,
+  since: number,
+) {
+  const demand = new Map<Id<"product_variants">, Map<number, number>>();
+  const skuByBatch = new Map<Id<"inventory_batches">, Id<"product_variants">>();
+
+  for (const code of DEMAND_TRANSACTION_TYPES) {
+    const lookup = await getSystemLookup(ctx, "InventoryTransactionType", code);
+    if (!lookup) continue;
+
+    const transactions = await ctx.db
+      .query("inventory_transactions")
+      .withIndex("inventoryTransactionTypeId", (q) =>
+        q.eq("inventoryTransactionTypeId", lookup._id),
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("organizationId"), organizationId),
+          q.gte(q.field("_creationTime"), since),
+        ),
+      )
+      .collect();
+
+    for (const transaction of transactions) {
+      if (!transaction.batchId) continue;
+      let skuId = skuByBatch.get(transaction.batchId);
+      if (!skuId) {
+        const batch = await ctx.db.get(transaction.batchId);
+        if (!batch) continue;
+        skuId = batch.skuId;
+        skuByBatch.set(transaction.batchId, skuId);
+      }
+
+      const period = getPeriodStart(transaction._creationTime, periodType);
+      const periods = demand.get(skuId) ?? new Map<number, number>();
+      periods.set(
+        period,
+        (periods.get(period) ?? 0) + Math.abs(transaction.quantityChange),
+      );
+      demand.set(skuId, periods);
+    }
+  }
+
+  return demand;
+}
+
+/**
+ * Dense series from the first period with demand up to (not including)
+ * the current period
+ */
+function toSeries(
+  periods: Map<number, number>,
+  currentPeriod: number,
+  periodType: PeriodType,
+) {
+  const first = Math.min(...periods.keys());
+  const series: number[] = [];
+  for (
+    let start = first;
+    start < currentPeriod;
+    start = getPeriodStart(
+      start + PERIOD_CONFIG[periodType].periodMs + DAY_MS / 2,
+      periodType,
+    )
+  ) {
+    series.push(periods.get(start) ?? 0);
+  }
+  return series;
+}
+
+async function ensureForecastType(ctx: MutationCtx, periodType: PeriodType) {
+  const config = PERIOD_CONFIG[periodType];
+  return await ensureSystemLookup(
+    ctx,
+    "ForecastType",
+    config.forecastTypeCode,
+    config.forecastTypeValue,
+    `${config.forecastTypeValue} per SKU`,
+  );
+}
+
+/**
+ * Forecast every SKU with demand in an organization and store the results
+ *
+ * Process:
+ * 1. Builds the demand series of each SKU over the history window
+ * 2. Forecasts the SKUs with enough history for a backtest
+ * 3. Replaces each SKU's forecasts from the current period on
+ */
+async function runForecastsForOrganization(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  periodType: PeriodType,
+) {
+  const config = PERIOD_CONFIG[periodType];
+  const now = Date.now();
+  const currentPeriod = getPeriodStart(now, periodType);
+  const forecastTypeId = await ensureForecastType(ctx, periodType);
+
+  // Step 1: Demand series
+  const demand = await getDemandByPeriod(
+    ctx,
+    organizationId,
+    periodType,
+    currentPeriod - config.historyPeriods * config.periodMs,
+  );
+
+  let forecasted = 0;
+  let skipped = 0;
+  for (const [skuId, periods] of demand) {
+    const variant = await ctx.db.get(skuId);
+    if (!variant || variant.isDeleted) continue;
+
+    // Step 2: Forecast
+    const series = toSeries(periods, currentPeriod, periodType);
+    const result =
+      series.length > config.holdout
+        ? forecastSeries(series, {
+            horizon: config.horizon,
+            holdout: config.holdout,
+            season: config.season,
+            window: config.movingAverageWindow,
+          })
+        : null;
+    if (!result) {
+      skipped++;
+      continue;
+    }
+
+    // Step 3: Replace future forecasts
+    const existing = await ctx.db
+      .query("demand_forecasts")
+      .withIndex("skuId_forecastDate", (q) =>
+        q.eq("skuId", skuId).gte("forecastDate", currentPeriod),
+      )
+      .filter((q) => q.eq(q.field("forecastTypeId"), forecastTypeId))
+      .collect();
+    for (const forecast of existing) {
+      await ctx.db.delete(forecast._id);
+    }
+
+    let periodStart = currentPeriod;
+    for (const prediction of result.predictions) {
+      await ctx.db.insert("demand_forecasts", {
+        organizationId,
+        skuId,
+        forecastDate: periodStart,
+        forecastTypeId,
+        predictedDemand: prediction.predicted,
+        confidenceInterval: CONFIDENCE_LEVEL,
+        calculationMethod: result.methodName,
+        lowerBound: prediction.lower,
+        upperBound: prediction.upper,
+        backtestMape: result.backtestMape ?? undefined,
+        generatedAt: now,
+      });
+      periodStart = getPeriodStart(
+        periodStart + config.periodMs + DAY_MS / 2,
+        periodType,
+      );
+    }
+    forecasted++;
+  }
+
+  return { forecasted, skipped };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Forecast summary and accuracy per SKU for an organization
+ * Realized MAPE compares stored forecasts of completed periods with the
+ * demand that actually happened
+ */
+export const getForecastAccuracy = query({
+  args: {
+    organizationId: v.id("organizations"),
+    periodType: periodTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    const config = PERIOD_CONFIG[args.periodType];
+    const forecastType = await getSystemLookup(
+      ctx,
+      "ForecastType",
+      config.forecastTypeCode,
+    );
+    if (!forecastType) return [];
+
+    const currentPeriod = getPeriodStart(Date.now(), args.periodType);
+    const windowStart = currentPeriod - config.chartPeriods * config.periodMs;
+
+    const forecasts = await ctx.db
+      .query("demand_forecasts")
+      .withIndex("organizationId", (q) =>
+        q.eq("organizationId", args.organizationId),
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("forecastTypeId"), forecastType._id),
+          q.gte(q.field("forecastDate"), windowStart),
+        ),
+      )
+      .collect();
+    const demand = await getDemandByPeriod(
+      ctx,
+      args.organizationId,
+      args.periodType,
+      windowStart,
+    );
+
+    const bySku = new Map<Id<"product_variants">, typeof forecasts>();
+    for (const forecast of forecasts) {
+      const list = bySku.get(forecast.skuId) ?? [];
+      list.push(forecast);
+      bySku.set(forecast.skuId, list);
+    }
+
+    const rows = [];
+    for (const [skuId, skuForecasts] of bySku) {
+      const variant = await ctx.db.get(skuId);
+      const product = variant ? await ctx.db.get(variant.productId) : null;
+      const actuals = demand.get(skuId);
+
+      const past = skuForecasts.filter((f) => f.forecastDate < currentPeriod);
+      const future = skuForecasts
+        .filter((f) => f.forecastDate >= currentPeriod)
+        .sort((a, b) => a.forecastDate - b.forecastDate);
+      const realized = scoreForecast(
+        past.map((f) => actuals?.get(f.forecastDate) ?? 0),
+        past.map((f) => f.predictedDemand),
+      );
+      const latest = future[0];
+
+      rows.push({
+        skuId,
+        skuCode: variant?.skuCode ?? "Unknown",
+        productName: product?.name ?? "Unknown",
+        method: latest?.calculationMethod ?? null,
+        generatedAt: latest?.generatedAt ?? null,
+        backtestMape: latest?.backtestMape ?? null,
+        realizedMape:
+          past.length > 0 && realized.mape !== null
+            ? round2(realized.mape)
+            : null,
+        realizedPeriods: past.length,
+        nextForecast: latest?.predictedDemand ?? null,
+        nextLower: latest?.lowerBound ?? null,
+        nextUpper: latest?.upperBound ?? null,
+        horizonTotal: round2(
+          future.reduce((sum, f) => sum + f.predictedDemand, 0),
+        ),
+      });
+    }
+
+    rows.sort((a, b) => b.horizonTotal - a.horizonTotal);
+    return rows;
+  },
+});
+
+/**
+ * Forecast-vs-actual series of one SKU: recent completed periods with
+ * their actual demand and stored forecast, then the forecast horizon
+ */
+export const getSkuForecastChart = query({
+  args: {
+    skuId: v.id("product_variants"),
+    periodType: periodTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    const config = PERIOD_CONFIG[args.periodType];
+    const variant = await ctx.db.get(args.skuId);
+    if (!variant) {
+      throw new Error("Product variant not found");
+    }
+    const product = await ctx.db.get(variant.productId);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const forecastType = await getSystemLookup(
+      ctx,
+      "ForecastType",
+      config.forecastTypeCode,
+    );
+    const currentPeriod = getPeriodStart(Date.now(), args.periodType);
+    const windowStart = currentPeriod - config.chartPeriods * config.periodMs;
+
+    const forecasts = forecastType
+      ? await ctx.db
+          .query("demand_forecasts")
+          .withIndex("skuId_forecastDate", (q) =>
+            q.eq("skuId", args.skuId).gte("forecastDate", windowStart),
+          )
+          .filter((q) => q.eq(q.field("forecastTypeId"), forecastType._id))
+          .collect()
+      : [];
+    const forecastByPeriod = new Map(forecasts.map((f) => [f.forecastDate, f]));
+
+    const demand = await getDemandByPeriod(
+      ctx,
+      product.organizationId,
+      args.periodType,
+      windowStart,
+    );
+    const actuals = demand.get(args.skuId) ?? new Map<number, number>();
+
+    const lastForecast = Math.max(
+      currentPeriod,
+      ...forecasts.map((f) => f.forecastDate),
+    );
+    const points = [];
+    for (
+      let start = getPeriodStart(windowStart, args.periodType);
+      start <= lastForecast;
+      start = getPeriodStart(
+        start + config.periodMs + DAY_MS / 2,
+        args.periodType,
+      )
+    ) {
+      const forecast = forecastByPeriod.get(start);
+      points.push({
+        periodStart: start,
+        actual: start < currentPeriod ? (actuals.get(start) ?? 0) : null,
+        forecast: forecast?.predictedDemand ?? null,
+        lower: forecast?.lowerBound ?? null,
+        upper: forecast?.upperBound ?? null,
+      });
+    }
+
+    const latest = forecasts
+      .filter((f) => f.forecastDate >= currentPeriod)
+      .sort((a, b) => a.forecastDate - b.forecastDate)[0];
+
+    return {
+      skuCode: variant.skuCode,
+      productName: product.name,
+      method: latest?.calculationMethod ?? null,
+      backtestMape: latest?.backtestMape ?? null,
+      confidenceInterval: latest?.confidenceInterval ?? CONFIDENCE_LEVEL,
+      points,
+    };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Run the forecasts of an organization now
+ */
+export const runDemandForecast = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    periodType: periodTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    return await runForecastsForOrganization(
+      ctx,
+      args.organizationId,
+      args.periodType,
+    );
+  },
+});
+
+/**
+ * Run the daily and weekly forecasts of every organization
+ * Called by the daily cron
+ */
+export const generateDemandForecasts = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const organizations = await ctx.db.query("organizations").collect();
+
+    let forecasted = 0;
+    for (const organization of organizations) {
+      for (const periodType of ["DAILY", "WEEKLY"] as const) {
+        const result = await runForecastsForOrganization(
+          ctx,
+          organization._id,
+          periodType,
+        );
+        forecasted += result.forecasted;
+      }
+    }
+
+    console.log(`Generated ${forecasted} SKU demand forecast(s).`);
+  },
+});
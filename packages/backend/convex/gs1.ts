@@ -0,0 +1,339 @@
+/**
+ * GS1 PARSER - element strings from GS1-128 and GS1 DataMatrix codes
+ *
+ * NOTES:
+ * - Supplier cartons carry application identifiers (AIs) after the GTIN:
+ *   00 SSCC, 01 GTIN, 02 GTIN of contained items, 10 lot, 11 production
+ *   date, 17 expiry date, 21 serial and 37 count of contained items
+ * - Accepts raw scanner output (optional ]C1, ]d2, ]Q3 or ]e0 symbology
+ *   prefix, FNC1 sent as the GS character) and the bracketed human
+ *   readable form, e.g. (01)09501101530003(17)271231(10)L42
+ * - GTINs and SSCCs are check-digit validated; malformed codes throw with
+ *   the offending AI and position
+ * - Dates are YYMMDD in UTC; day 00 means the last day of the month
+ * - buildGs1ElementString goes the other way, for GS1-128 labels
+ */
+
+/** FNC1 separator that ends variable-length fields */
+const GROUP_SEPARATOR = "\u001d";
+
+const SYMBOLOGY_PREFIX = /^\](C1|d2|Q3|e0)/;
+
+type AiDefinition = {
+  name: string;
+  /** Fixed field length, or the maximum for variable-length fields */
+  length: number;
+  fixed: boolean;
+  numeric: boolean;
+};
+
+const APPLICATION_IDENTIFIERS: Record<string, AiDefinition> = {
+  "00": { name: "SSCC", length: 18, fixed: true, numeric: true },
+  "01": { name: "GTIN", length: 14, fixed: true, numeric: true },
+  "02": { name: "Content GTIN", length: 14, fixed: true, numeric: true },
+  "10": { name: "Batch/lot", length: 20, fixed: false, numeric: false },
+  "11": { name: "Production date", length: 6, fixed: true, numeric: true },
+  "17": { name: "Expiration date", length: 6, fixed: true, numeric: true },
+  "21": { name: "Serial number", length: 20, fixed: false, numeric: false },
+  "37": { name: "Count", length: 8, fixed: false, numeric: true },
+};
+
+export type Gs1Element = {
+  ai: string;
+  name: string;
+  value: string;
+};
+
+export type Gs1Data = {
+  elements: Gs1Element[];
+  sscc?: string;
+  /** GTIN of the trade item (AI 01), or of its contents (AI 02) */
+  gtin?: string;
+  lotNumber?: string;
+  productionDate?: number;
+  expiresAt?: number;
+  serialNumber?: string;
+  /** Units of the content GTIN in the logistic unit (AI 37) */
+  count?: number;
+};
+
+/**
+ * Whether a scanned value is a GS1 element string rather than a plain
+ * EAN/UPC or internal code
+ */
+export function isGs1ElementString(raw: string): boolean {
+  const value = raw.trim();
+  if (SYMBOLOGY_PREFIX.test(value) || value.includes(GROUP_SEPARATOR)) {
+    return true;
+  }
+  if (/^\(\d{2,4}\)/.test(value)) return true;
+  // Without a symbology prefix, AI 00/01/02 and its digits are longer than
+  // any plain GTIN
+  return /^(00\d{18}|0[12]\d{14})/.test(value);
+}
+
+/**
+ * Validate the GS1 mod-10 check digit of a GTIN-8/12/13/14 or SSCC
+ */
+export function hasValidCheckDigit(digits: string): boolean {
+  if (!/^\d{8,18}$/.test(digits)) return false;
+
+  let sum = 0;
+  const body = digits.slice(0, -1);
+  for (let i = 0; i < body.length; i++) {
+    // Weights alternate 3, 1, 3, ... from the rightmost body digit
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * GTIN-14 and the shorter GTINs it may be stored as in product_barcodes
+ * (a GTIN-13 is the GTIN-14 without its leading zero, and so on)
+ */
+export function gtinCandidates(gtin: string): string[] {
+  const candidates = [gtin];
+  if (gtin.startsWith("0")) candidates.push(gtin.slice(1));
+  if (gtin.startsWith("00")) candidates.push(gtin.slice(2));
+  if (gtin.startsWith("000000")) candidates.push(gtin.slice(6));
+  return candidates;
+}
+
+/**
+ * Parse a GS1 YYMMDD date to a UTC timestamp. The century is the one that
+ * puts the year within 49 years back and 50 years ahead of today.
+ */
+function parseGs1Date(ai: string, value: string): number {
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+
+  const currentYear = new Date().getUTCFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  if (currentYear - year > 49) year += 100;
+
+  if (month < 1 || month > 12) {
+    throw new Error(
+      `Invalid GS1 code: AI ${ai} has an invalid month in ${value}`,
+    );
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > lastDay) {
+    throw new Error(
+      `Invalid GS1 code: AI ${ai} has an invalid day in ${value}`,
+    );
+  }
+
+  return Date.UTC(year, month - 1, day === 0 ? lastDay : day);
+}
+
+/**
+ * Split a raw or bracketed element string into its AIs
+ */
+function splitElements(raw: string): Gs1Element[] {
+  const value = raw.trim().replace(SYMBOLOGY_PREFIX, "");
+  const elements: Gs1Element[] = [];
+
+  // Human readable form: (AI)value(AI)value...
+  if (value.startsWith("(")) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let consumed = 0;
+    for (const match of value.matchAll(pattern)) {
+      if (match.index !== consumed) break;
+      consumed += match[0].length;
+      elements.push(readElement(match[1], match[2], match.index + 1));
+    }
+    if (consumed !== value.length) {
+      throw new Error(
+        `Invalid GS1 code: cannot read the element string at position ${consumed + 1}`,
+      );
+    }
+    return elements;
+  }
+
+  // Raw form: fixed fields run into the next AI, variable fields end at
+  // FNC1 or at the end of the data
+  let position = 0;
+  while (position < value.length) {
+    if (value[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const ai = value.slice(position, position + 2);
+    const definition = APPLICATION_IDENTIFIERS[ai];
+    if (ai.length < 2) {
+      throw new Error(
+        `Invalid GS1 code: truncated data at position ${position + 1}`,
+      );
+    }
+    if (!definition) {
+      throw new Error(
+        `Invalid GS1 code: unsupported application identifier ${ai} at position ${position + 1}`,
+      );
+    }
+
+    const start = position + 2;
+    let end: number;
+    if (definition.fixed) {
+      end = start + definition.length;
+    } else {
+      const separator = value.indexOf(GROUP_SEPARATOR, start);
+      end = separator === -1 ? value.length : separator;
+    }
+
+    elements.push(readElement(ai, value.slice(start, end), start + 1));
+    position = end;
+  }
+
+  return elements;
+}
+
+/**
+ * Validate one AI's value against its definition
+ */
+function readElement(ai: string, value: string, position: number): Gs1Element {
+  const definition = APPLICATION_IDENTIFIERS[ai];
+  if (!definition) {
+    throw new Error(
+      `Invalid GS1 code: unsupported application identifier ${ai} at position ${position}`,
+    );
+  }
+
+  if (definition.fixed && value.length !== definition.length) {
+    throw new Error(
+      `Invalid GS1 code: AI ${ai} (${definition.name}) must be ${definition.length} characters, got ${value.length}`,
+    );
+  }
+  if (
+    !definition.fixed &&
+    (value.length === 0 || value.length > definition.length)
+  ) {
+    throw new Error(
+      `Invalid GS1 code: AI ${ai} (${definition.name}) must be 1 to ${definition.length} characters`,
+    );
+  }
+  if (definition.numeric && !/^\d+$/.test(value)) {
+    throw new Error(
+      `Invalid GS1 code: AI ${ai} (${definition.name}) must be numeric, got ${value}`,
+    );
+  }
+
+  return { ai, name: definition.name, value };
+}
+
+/**
+ * Parse a GS1 element string into its AIs and the receiving fields they
+ * carry
+ *
+ * Process:
+ * 1. Splits the code into AIs, validating lengths and numeric fields
+ * 2. Rejects repeated AIs with conflicting values
+ * 3. Validates GTIN and SSCC check digits
+ * 4. Converts dates and counts and returns the mapped fields
+ */
+export function parseGs1ElementString(raw: string): Gs1Data {
+  // Step 1: Split into elements
+  const elements = splitElements(raw);
+  if (elements.length === 0) {
+    throw new Error("Invalid GS1 code: no application identifiers found");
+  }
+
+  // Step 2: The same AI twice must carry the same value
+  const values = new Map<string, string>();
+  for (const element of elements) {
+    const existing = values.get(element.ai);
+    if (existing !== undefined && existing !== element.value) {
+      throw new Error(
+        `Invalid GS1 code: AI ${element.ai} appears twice with different values`,
+      );
+    }
+    values.set(element.ai, element.value);
+  }
+
+  // Step 3: Check digits
+  for (const ai of ["00", "01", "02"]) {
+    const value = values.get(ai);
+    if (value && !hasValidCheckDigit(value)) {
+      throw new Error(
+        `Invalid GS1 code: ${APPLICATION_IDENTIFIERS[ai].name} ${value} has an invalid check digit`,
+      );
+    }
+  }
+
+  // Step 4: Map to receiving fields
+  const production = values.get("11");
+  const expiry = values.get("17");
+  const count = values.get("37");
+  const data: Gs1Data = {
+    elements,
+    sscc: values.get("00"),
+    gtin: values.get("01") ?? values.get("02"),
+    lotNumber: values.get("10"),
+    productionDate: production ? parseGs1Date("11", production) : undefined,
+    expiresAt: expiry ? parseGs1Date("17", expiry) : undefined,
+    serialNumber: values.get("21"),
+    count: count ? Number(count) : undefined,
+  };
+
+  if (data.count === 0) {
+    throw new Error("Invalid GS1 code: AI 37 (Count) must be greater than 0");
+  }
+  if (
+    data.productionDate !== undefined &&
+    data.expiresAt !== undefined &&
+    data.expiresAt <= data.productionDate
+  ) {
+    throw new Error(
+      "Invalid GS1 code: expiration date is not after the production date",
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Format a timestamp as a GS1 YYMMDD date (UTC)
+ */
+export function formatGs1Date(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(2, 10).replace(/-/g, "");
+}
+
+/**
+ * Build a GS1 element string for printing
+ * Returns the bracketed human readable text and the encoded data, where
+ * variable-length fields that are not last are ended with FNC1 (GS)
+ */
+export function buildGs1ElementString(
+  elements: { ai: string; value: string }[],
+): { text: string; data: string } {
+  const validated = elements.map((element, index) =>
+    readElement(element.ai, element.value, index + 1),
+  );
+
+  for (const element of validated) {
+    if (["00", "01", "02"].includes(element.ai)) {
+      if (!hasValidCheckDigit(element.value)) {
+        throw new Error(
+          `${element.name} ${element.value} has an invalid check digit`,
+        );
+      }
+    }
+  }
+
+  return {
+    text: validated
+      .map((element) => `(${element.ai})${element.value}`)
+      .join(""),
+    data: validated
+      .map((element, index) =>
+        !APPLICATION_IDENTIFIERS[element.ai].fixed &&
+        index < validated.length - 1
+          ? `${element.ai}${element.value}${GROUP_SEPARATOR}`
+          : `${element.ai}${element.value}`,
+      )
+      .join(""),
+  };
+}
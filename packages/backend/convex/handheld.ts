@@ -0,0 +1,810 @@
+/**
+ * HANDHELD API - Floor tasks for handheld and RF scanners
+ *
+ * WHO CAN USE:
+ * ✅ Staff - work their assigned tasks, start putaways and move stock
+ * ✅ Warehouse Manager - same as staff
+ * ✅ Admin - same as staff
+ *
+ * NOTES:
+ * - Tasks are the open work sessions assigned to the operator: receiving
+ *   (INBOUND), picking (PICK), cycle counts (CYCLE_COUNT), putaway (PUTAWAY)
+ *   and moves (MOVE)
+ * - Receiving lines come from receive_sessions_details; every other task
+ *   works through its session_line_items
+ * - A line's zoneId is where the operator confirms it: the pick face, the
+ *   counted zone, or the destination of a putaway or move. Putaway and move
+ *   lines take stock from their batch's zone.
+ * - Locations are scanned from bin labels, which carry the zone path
+ * - Putaway sessions collect stock waiting in RECEIVING zones and suggest
+ *   destinations with the putaway ranking
+ * - Putaways and moves are MOVE transactions linked to the work session;
+ *   serial-tracked stock needs one scanned serial per unit
+ * - Picks, receipts and counts are confirmed through confirmPick,
+ *   processReceiveItem and recordCountScan
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import {
+  getReservedBatchQuantity,
+  isBatchOnHold,
+  moveBatchQuantity,
+} from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import { rankPutawayZones } from "./putaway";
+import {
+  getSerialsInStock,
+  isSerialTracked,
+  setSerialLocation,
+} from "./serialNumbers";
+import { generateWorkSessionCode } from "./workSessions";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const CLOSED_SESSION_STATUSES = ["COMPLETED", "VERIFIED", "CANCELLED"];
+
+const SESSION_STATUSES = {
+  PENDING: { value: "Pending", description: "Session has not started yet" },
+  IN_PROGRESS: {
+    value: "In Progress",
+    description: "Session is currently in progress",
+  },
+  COMPLETED: { value: "Completed", description: "Session has been completed" },
+} as const;
+
+type TaskKind = "RECEIVE" | "PICK" | "COUNT" | "PUTAWAY" | "MOVE";
+
+/**
+ * Get the lookup ID for a work session status, creating it if missing
+ */
+async function ensureSessionStatus(
+  ctx: MutationCtx,
+  statusCode: keyof typeof SESSION_STATUSES,
+): Promise<Id<"system_lookups">> {
+  const status = SESSION_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "SessionStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * What the operator does in a work session, or null for sessions the
+ * handheld cannot work
+ */
+async function getTaskKind(
+  ctx: QueryCtx,
+  session: Doc<"work_sessions">,
+): Promise<TaskKind | null> {
+  const typeCode = await getLookupCode(ctx, session.sessionTypeId);
+  if (session.receiveSessionId) return "RECEIVE";
+  if (session.outboundOrderId) return "PICK";
+  if (typeCode === "CYCLE_COUNT") return "COUNT";
+  if (typeCode === "PUTAWAY") return "PUTAWAY";
+  if (typeCode === "MOVE") return "MOVE";
+  return null;
+}
+
+async function getSkuDetails(ctx: QueryCtx, skuId: Id<"product_variants">) {
+  const variant = await ctx.db.get(skuId);
+  const product = variant ? await ctx.db.get(variant.productId) : null;
+  return {
+    skuCode: variant?.skuCode ?? "Unknown",
+    productName: product?.name ?? "Unknown",
+    isSerialTracked: await isSerialTracked(ctx, skuId),
+  };
+}
+
+async function getZoneDetails(
+  ctx: QueryCtx,
+  zoneId: Id<"storage_zones"> | undefined,
+) {
+  const zone = zoneId ? await ctx.db.get(zoneId) : null;
+  return zone ? { _id: zone._id, name: zone.name, path: zone.path } : null;
+}
+
+const comparePaths = (a?: string, b?: string) =>
+  (a ?? "") < (b ?? "") ? -1 : (a ?? "") > (b ?? "") ? 1 : 0;
+
+/**
+ * Move quantity of a batch into a zone for a putaway or move line
+ *
+ * Process:
+ * 1. Validates the batch, its unreserved quantity, the destination and
+ *    the serials
+ * 2. Moves the stock with MOVE transactions linked to the work session
+ * 3. Relocates the moved serials
+ */
+async function moveLineStock(
+  ctx: MutationCtx,
+  args: {
+    session: Doc<"work_sessions">;
+    batchId: Id<"inventory_batches">;
+    toZoneId: Id<"storage_zones">;
+    quantity: number;
+    serialNumbers?: string[];
+    userId: Id<"users">;
+  },
+): Promise<Id<"inventory_batches">> {
+  // Step 1: Validate
+  const batch = await ctx.db.get(args.batchId);
+  if (!batch || batch.isDeleted) {
+    throw new Error("Batch not found");
+  }
+  const batchNumber = batch.internalBatchNumber ?? batch._id;
+  if (await isBatchOnHold(ctx, batch)) {
+    throw new Error(`Batch ${batchNumber} is on hold and cannot be moved`);
+  }
+  // Units reserved by open picks or picked returns stay where they are
+  const unreserved =
+    batch.quantity - (await getReservedBatchQuantity(ctx, batch._id));
+  if (unreserved < args.quantity) {
+    throw new Error(
+      `Batch ${batchNumber} only has ${unreserved} unreserved unit(s) left`,
+    );
+  }
+
+  const zone = await ctx.db.get(args.toZoneId);
+  if (!zone || zone.isDeleted || zone.branchId !== args.session.branchId) {
+    throw new Error("Storage zone not found in this branch");
+  }
+  if (zone._id === batch.zoneId) {
+    throw new Error(`The stock is already in ${zone.name}`);
+  }
+
+  const serialTracked = await isSerialTracked(ctx, batch.skuId);
+  if (serialTracked && args.serialNumbers?.length !== args.quantity) {
+    throw new Error(
+      `Scan ${args.quantity} serial number(s) for this serial-tracked product`,
+    );
+  }
+  if (!serialTracked && args.serialNumbers?.length) {
+    throw new Error("This product is not serial-tracked");
+  }
+  const serials = serialTracked
+    ? await getSerialsInStock(ctx, {
+        organizationId: batch.organizationId,
+        skuId: batch.skuId,
+        serialNumbers: args.serialNumbers ?? [],
+        zoneId: batch.zoneId,
+      })
+    : [];
+  const foreign = serials.find((serial) => serial.batchId !== batch._id);
+  if (foreign) {
+    throw new Error(
+      `Serial ${foreign.serialNumber} is not in batch ${batchNumber}`,
+    );
+  }
+
+  // Step 2: Move the stock, one unit per serial
+  const moveTypeId = await ensureSystemLookup(
+    ctx,
+    "InventoryTransactionType",
+    "MOVE",
+    "Location Move",
+    "Stock moved between zones",
+  );
+  const units = serials.length
+    ? serials.map((serial) => ({ serial, quantity: 1 }))
+    : [{ serial: null, quantity: args.quantity }];
+
+  let targetBatchId: Id<"inventory_batches"> | undefined;
+  for (const unit of units) {
+    targetBatchId = await moveBatchQuantity(ctx, {
+      batchId: batch._id,
+      toZoneId: zone._id,
+      quantity: unit.quantity,
+      targetBatchId,
+      inventoryTransactionTypeId: moveTypeId,
+      createdByUserId: args.userId,
+      notes: `${args.session.sessionCode}: moved to ${zone.path}`,
+      serialNumberId: unit.serial?._id,
+      workSessionId: args.session._id,
+    });
+  }
+
+  // Step 3: Relocate the serials
+  for (const serial of serials) {
+    await setSerialLocation(ctx, serial._id, "AVAILABLE", {
+      batchId: targetBatchId,
+      zoneId: zone._id,
+    });
+  }
+
+  return targetBatchId!;
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Open tasks assigned to an operator in a branch, in-progress tasks first
+ */
+export const getMyTasks = query({
+  args: {
+    branchId: v.id("branches"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const sessions = await ctx.db
+      .query("work_sessions")
+      .withIndex("assignedUserId", (q) => q.eq("assignedUserId", args.userId))
+      .filter((q) => q.eq(q.field("branchId"), args.branchId))
+      .collect();
+
+    const tasks = [];
+    for (const session of sessions) {
+      const status = await ctx.db.get(session.sessionStatusTypeId);
+      const statusCode = status?.lookupCode ?? "UNKNOWN";
+      const kind = await getTaskKind(ctx, session);
+      if (!kind || CLOSED_SESSION_STATUSES.includes(statusCode)) continue;
+
+      let reference: string | null = null;
+      let totalLines = 0;
+      let doneLines = 0;
+      if (kind === "RECEIVE") {
+        const receiveSession = await ctx.db.get(session.receiveSessionId!);
+        if (receiveSession) {
+          const receiveStatus = await getLookupCode(
+            ctx,
+            receiveSession.receiveSessionStatusTypeId,
+          );
+          if (receiveStatus === "COMPLETE") continue;
+        }
+        const purchaseOrder = session.purchaseOrderId
+          ? await ctx.db.get(session.purchaseOrderId)
+          : receiveSession
+            ? await ctx.db.get(receiveSession.purchaseOrderId)
+            : null;
+        reference = purchaseOrder?.code ?? null;
+
+        const details = await ctx.db
+          .query("receive_sessions_details")
+          .withIndex("receiveSessionId", (q) =>
+            q.eq("receiveSessionId", session.receiveSessionId!),
+          )
+          .collect();
+        totalLines = details.length;
+        doneLines = details.filter(
+          (detail) => detail.quantityReceived >= detail.quantityExpected,
+        ).length;
+      } else {
+        if (session.outboundOrderId) {
+          const order = await ctx.db.get(session.outboundOrderId);
+          reference = order?.orderCode ?? null;
+        }
+        const lineItems = await ctx.db
+          .query("session_line_items")
+          .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+          .collect();
+        totalLines = lineItems.length;
+        // Count lines are done once scanned, whatever the count
+        doneLines = lineItems.filter((item) =>
+          kind === "COUNT"
+            ? item.scannedAt !== undefined
+            : item.actualQuantity >= item.expectedQuantity,
+        ).length;
+      }
+
+      tasks.push({
+        _id: session._id,
+        _creationTime: session._creationTime,
+        sessionCode: session.sessionCode,
+        name: session.name ?? session.sessionCode,
+        kind,
+        reference,
+        statusCode,
+        statusName: status?.lookupValue ?? "Unknown",
+        totalLines,
+        doneLines,
+      });
+    }
+
+    return tasks.sort(
+      (a, b) =>
+        Number(b.statusCode === "IN_PROGRESS") -
+          Number(a.statusCode === "IN_PROGRESS") ||
+        a._creationTime - b._creationTime,
+    );
+  },
+});
+
+/**
+ * A task with its lines in walking order (zone path); receiving lines
+ * carry the recommended putaway zone
+ */
+export const getTask = query({
+  args: {
+    sessionId: v.id("work_sessions"),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      return null;
+    }
+    const kind = await getTaskKind(ctx, session);
+    if (!kind) {
+      return null;
+    }
+    const status = await ctx.db.get(session.sessionStatusTypeId);
+
+    const lines = [];
+    if (kind === "RECEIVE") {
+      const details = await ctx.db
+        .query("receive_sessions_details")
+        .withIndex("receiveSessionId", (q) =>
+          q.eq("receiveSessionId", session.receiveSessionId!),
+        )
+        .collect();
+
+      for (const detail of details) {
+        const remaining = detail.quantityExpected - detail.quantityReceived;
+        const zoneId =
+          detail.recommendedZoneId ??
+          (remaining > 0
+            ? (
+                await rankPutawayZones(ctx, {
+                  branchId: session.branchId,
+                  skuId: detail.skuId,
+                  quantity: remaining,
+                })
+              ).suggestions[0]?.zoneId
+            : undefined);
+
+        lines.push({
+          lineId: detail._id as string,
+          receiveSessionDetailId: detail._id,
+          lineItemId: undefined,
+          skuId: detail.skuId,
+          ...(await getSkuDetails(ctx, detail.skuId)),
+          expectedQuantity: detail.quantityExpected,
+          actualQuantity: detail.quantityReceived,
+          zone: await getZoneDetails(ctx, zoneId),
+          fromZone: null,
+          batchId: undefined,
+          batchNumber: null,
+          expiresAt: undefined,
+          scannedAt: undefined,
+        });
+      }
+    } else {
+      const lineItems = await ctx.db
+        .query("session_line_items")
+        .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+        .collect();
+
+      for (const item of lineItems) {
+        const batch = item.batchId ? await ctx.db.get(item.batchId) : null;
+        const takesFromBatchZone = kind === "PUTAWAY" || kind === "MOVE";
+
+        lines.push({
+          lineId: item._id as string,
+          receiveSessionDetailId: undefined,
+          lineItemId: item._id,
+          skuId: item.skuId,
+          ...(await getSkuDetails(ctx, item.skuId)),
+          expectedQuantity: item.expectedQuantity,
+          actualQuantity: item.actualQuantity,
+          zone: await getZoneDetails(ctx, item.zoneId),
+          fromZone:
+            takesFromBatchZone && batch
+              ? await getZoneDetails(ctx, batch.zoneId)
+              : null,
+          batchId: item.batchId,
+          batchNumber: batch?.internalBatchNumber ?? null,
+          expiresAt: batch?.expiresAt,
+          scannedAt: item.scannedAt,
+        });
+      }
+
+      lines.sort((a, b) =>
+        comparePaths(
+          (a.fromZone ?? a.zone)?.path,
+          (b.fromZone ?? b.zone)?.path,
+        ),
+      );
+    }
+
+    return {
+      _id: session._id,
+      sessionCode: session.sessionCode,
+      name: session.name ?? session.sessionCode,
+      kind,
+      branchId: session.branchId,
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      statusName: status?.lookupValue ?? "Unknown",
+      lines,
+    };
+  },
+});
+
+/**
+ * Find a zone of a branch from a scanned bin label (zone path) or a typed
+ * zone name
+ */
+export const getZoneByCode = query({
+  args: {
+    branchId: v.id("branches"),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const code = args.code.trim();
+    const zones = await ctx.db
+      .query("storage_zones")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .collect();
+
+    const zone =
+      zones.find((candidate) => candidate.path === code) ??
+      zones.find(
+        (candidate) => candidate.name.toLowerCase() === code.toLowerCase(),
+      );
+    return zone ? { _id: zone._id, name: zone.name, path: zone.path } : null;
+  },
+});
+
+/**
+ * Live batches in a zone, for picking the stock to move
+ */
+export const getZoneStock = query({
+  args: {
+    zoneId: v.id("storage_zones"),
+  },
+  handler: async (ctx, args) => {
+    const batches = await ctx.db
+      .query("inventory_batches")
+      .withIndex("zoneId", (q) => q.eq("zoneId", args.zoneId))
+      .filter((q) =>
+        q.and(q.eq(q.field("isDeleted"), false), q.gt(q.field("quantity"), 0)),
+      )
+      .collect();
+
+    return await Promise.all(
+      batches.map(async (batch) => ({
+        batchId: batch._id,
+        skuId: batch.skuId,
+        ...(await getSkuDetails(ctx, batch.skuId)),
+        batchNumber: batch.internalBatchNumber ?? null,
+        supplierBatchNumber: batch.supplierBatchNumber ?? null,
+        expiresAt: batch.expiresAt,
+        quantity: batch.quantity,
+        isOnHold: await isBatchOnHold(ctx, batch),
+      })),
+    );
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Mark a pending task as started when the operator opens it
+ */
+export const startTask = mutation({
+  args: {
+    sessionId: v.id("work_sessions"),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    const statusCode = await getLookupCode(ctx, session.sessionStatusTypeId);
+    if (statusCode === "PENDING") {
+      await ctx.db.patch(session._id, {
+        sessionStatusTypeId: await ensureSessionStatus(ctx, "IN_PROGRESS"),
+        startedAt: session.startedAt ?? Date.now(),
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Create a putaway task for stock waiting in the branch's receiving zones
+ *
+ * Process:
+ * 1. Collects live, unheld batches in RECEIVING zones that are not already
+ *    on an open putaway task
+ * 2. Creates a PUTAWAY work session assigned to the operator
+ * 3. Adds one line per batch with the best ranked destination zone
+ */
+export const createPutawaySession = mutation({
+  args: {
+    branchId: v.id("branches"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const branch = await ctx.db.get(args.branchId);
+    if (!branch) {
+      throw new Error("Branch not found");
+    }
+
+    // Step 1: Stock on the receiving docks
+    const zones = await ctx.db
+      .query("storage_zones")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .collect();
+
+    const batches: Doc<"inventory_batches">[] = [];
+    for (const zone of zones) {
+      if ((await getLookupCode(ctx, zone.zoneTypeId)) !== "RECEIVING") continue;
+
+      const zoneBatches = await ctx.db
+        .query("inventory_batches")
+        .withIndex("zoneId", (q) => q.eq("zoneId", zone._id))
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("isDeleted"), false),
+            q.gt(q.field("quantity"), 0),
+          ),
+        )
+        .collect();
+
+      for (const batch of zoneBatches) {
+        if (await isBatchOnHold(ctx, batch)) continue;
+
+        const openLines = await ctx.db
+          .query("session_line_items")
+          .withIndex("batchId", (q) => q.eq("batchId", batch._id))
+          .collect();
+        let alreadyTasked = false;
+        for (const line of openLines) {
+          const lineSession = await ctx.db.get(line.sessionId);
+          if (
+            lineSession &&
+            (await getTaskKind(ctx, lineSession)) === "PUTAWAY" &&
+            !CLOSED_SESSION_STATUSES.includes(
+              (await getLookupCode(ctx, lineSession.sessionStatusTypeId)) ?? "",
+            )
+          ) {
+            alreadyTasked = true;
+          }
+        }
+        if (!alreadyTasked) batches.push(batch);
+      }
+    }
+
+    if (batches.length === 0) {
+      throw new Error("No stock is waiting in the receiving zones");
+    }
+
+    // Step 2: The putaway session
+    const sessionTypeId = await ensureSystemLookup(
+      ctx,
+      "SessionType",
+      "PUTAWAY",
+      "Putaway",
+      "Work session for putting received stock away",
+    );
+    const sessionCode = await generateWorkSessionCode(
+      ctx,
+      args.branchId,
+      "PUT",
+    );
+    const sessionId = await ctx.db.insert("work_sessions", {
+      organizationId: branch.organizationId,
+      branchId: args.branchId,
+      sessionTypeId,
+      sessionCode,
+      name: `Putaway ${sessionCode}`,
+      description: "Stock waiting in the receiving zones",
+      assignedUserId: args.userId,
+      sessionStatusTypeId: await ensureSessionStatus(ctx, "PENDING"),
+    });
+
+    // Step 3: One line per batch, to the best ranked zone
+    for (const batch of batches) {
+      const { suggestions } = await rankPutawayZones(ctx, {
+        branchId: args.branchId,
+        skuId: batch.skuId,
+        quantity: batch.quantity,
+      });
+      await ctx.db.insert("session_line_items", {
+        sessionId,
+        skuId: batch.skuId,
+        expectedQuantity: batch.quantity,
+        actualQuantity: 0,
+        zoneId: suggestions[0]?.zoneId,
+        batchId: batch._id,
+      });
+    }
+
+    return {
+      success: true,
+      sessionId,
+      sessionCode,
+      lineCount: batches.length,
+    };
+  },
+});
+
+/**
+ * Confirm a putaway or move line: move the quantity to the scanned zone
+ *
+ * Process:
+ * 1. Validates the line, its open session and the quantity left
+ * 2. Moves the stock into the scanned zone, which may differ from the
+ *    suggested one
+ * 3. Updates the line and completes the session once every line is done
+ */
+export const confirmMove = mutation({
+  args: {
+    lineItemId: v.id("session_line_items"),
+    quantity: v.number(),
+    toZoneId: v.id("storage_zones"),
+    userId: v.id("users"),
+    serialNumbers: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    if (args.quantity <= 0) {
+      throw new Error("Quantity must be greater than 0");
+    }
+
+    // Step 1: Validate the line
+    const lineItem = await ctx.db.get(args.lineItemId);
+    if (!lineItem || !lineItem.batchId) {
+      throw new Error("Move line not found");
+    }
+    const session = await ctx.db.get(lineItem.sessionId);
+    const kind = session ? await getTaskKind(ctx, session) : null;
+    if (!session || (kind !== "PUTAWAY" && kind !== "MOVE")) {
+      throw new Error("Putaway or move session not found");
+    }
+    const statusCode = await getLookupCode(ctx, session.sessionStatusTypeId);
+    if (CLOSED_SESSION_STATUSES.includes(statusCode ?? "")) {
+      throw new Error("Session is already closed");
+    }
+
+    const remaining = lineItem.expectedQuantity - lineItem.actualQuantity;
+    if (args.quantity > remaining) {
+      throw new Error(`Cannot move more than ${remaining} unit(s)`);
+    }
+
+    // Step 2: Move the stock
+    const batchId = await moveLineStock(ctx, {
+      session,
+      batchId: lineItem.batchId,
+      toZoneId: args.toZoneId,
+      quantity: args.quantity,
+      serialNumbers: args.serialNumbers,
+      userId: args.userId,
+    });
+
+    // Step 3: Update the line, following the stock to its new batch
+    const now = Date.now();
+    const actualQuantity = lineItem.actualQuantity + args.quantity;
+    const source = await ctx.db.get(lineItem.batchId);
+    await ctx.db.patch(lineItem._id, {
+      actualQuantity,
+      scannedAt: now,
+      // A fully moved source batch is gone; keep the line on live stock
+      batchId: source && !source.isDeleted ? lineItem.batchId : batchId,
+    });
+
+    const lineItems = await ctx.db
+      .query("session_line_items")
+      .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+      .collect();
+    const sessionComplete = lineItems.every((item) =>
+      item._id === lineItem._id
+        ? actualQuantity >= item.expectedQuantity
+        : item.actualQuantity >= item.expectedQuantity,
+    );
+
+    await ctx.db.patch(session._id, {
+      startedAt: session.startedAt ?? now,
+      sessionStatusTypeId: await ensureSessionStatus(
+        ctx,
+        sessionComplete ? "COMPLETED" : "IN_PROGRESS",
+      ),
+      completedAt: sessionComplete ? now : undefined,
+    });
+
+    return {
+      success: true,
+      actualQuantity,
+      sessionComplete,
+    };
+  },
+});
+
+/**
+ * Move stock between zones on the spot, without an assigned task
+ *
+ * Process:
+ * 1. Validates the batch and quantity
+ * 2. Records a completed MOVE work session with one line for the move
+ * 3. Moves the stock into the scanned zone
+ */
+export const moveStock = mutation({
+  args: {
+    batchId: v.id("inventory_batches"),
+    quantity: v.number(),
+    toZoneId: v.id("storage_zones"),
+    userId: v.id("users"),
+    serialNumbers: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate
+    if (args.quantity <= 0) {
+      throw new Error("Quantity must be greater than 0");
+    }
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch || batch.isDeleted) {
+      throw new Error("Batch not found");
+    }
+
+    // Step 2: The move session
+    const now = Date.now();
+    const sessionTypeId = await ensureSystemLookup(
+      ctx,
+      "SessionType",
+      "MOVE",
+      "Move",
+      "Work session for moving stock between zones",
+    );
+    const sessionCode = await generateWorkSessionCode(
+      ctx,
+      batch.branchId,
+      "MOVE",
+    );
+    const sessionId = await ctx.db.insert("work_sessions", {
+      organizationId: batch.organizationId,
+      branchId: batch.branchId,
+      sessionTypeId,
+      sessionCode,
+      name: `Move ${sessionCode}`,
+      description: "Stock moved from a handheld",
+      assignedUserId: args.userId,
+      sessionStatusTypeId: await ensureSessionStatus(ctx, "COMPLETED"),
+      startedAt: now,
+      completedAt: now,
+    });
+    const session = (await ctx.db.get(sessionId))!;
+
+    // Step 3: Move the stock
+    const batchId = await moveLineStock(ctx, {
+      session,
+      batchId: batch._id,
+      toZoneId: args.toZoneId,
+      quantity: args.quantity,
+      serialNumbers: args.serialNumbers,
+      userId: args.userId,
+    });
+    await ctx.db.insert("session_line_items", {
+      sessionId,
+      skuId: batch.skuId,
+      expectedQuantity: args.quantity,
+      actualQuantity: args.quantity,
+      zoneId: args.toZoneId,
+      batchId,
+      scannedAt: now,
+    });
+
+    return {
+      success: true,
+      sessionId,
+      sessionCode,
+      batchId,
+    };
+  },
+});
@@ -1,9 +1,466 @@
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
-import { internalMutation, mutation } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+} from "./_generated/server";
 import { logAudit } from "./audit";
+import { ensureSystemLookup, getLookupCode, getSystemLookup } from "./lookups";
 import { createNotification } from "./notifications";
 
+const BATCH_STATUSES = {
+  ACTIVE: { value: "Active", description: "Batch is available for use" },
+  QUARANTINE: {
+    value: "Quarantine",
+    description: "Batch is held and not available for use",
+  },
+} as const;
+
+export type BatchStatusCode = keyof typeof BATCH_STATUSES;
+
+/**
+ * Internal helper to get the lookup ID for a batch status, creating it if
+ * missing.
+ */
+export async function ensureBatchStatus(
+  ctx: MutationCtx,
+  statusCode: BatchStatusCode,
+): Promise<Id<"system_lookups">> {
+  const status = BATCH_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "BatchStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Internal helper to check whether a batch is on hold. Held stock stays on
+ * hand but is neither available nor pickable.
+ */
+export async function isBatchOnHold(
+  ctx: QueryCtx,
+  batch: { batchStatusTypeId: Id<"system_lookups"> },
+): Promise<boolean> {
+  return (await getLookupCode(ctx, batch.batchStatusTypeId)) === "QUARANTINE";
+}
+
+/**
+ * Internal helper to generate an internal batch number.
+ * Format: BT-YYYYMMDD-XXXX (sequence of batches received today in the branch)
+ */
+export async function generateInternalBatchNumber(
+  ctx: MutationCtx,
+  branchId: Id<"branches">,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+  const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
+
+  const todayBatches = await ctx.db
+    .query("inventory_batches")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) =>
+      q.and(
+        q.gte(q.field("receivedAt"), startOfDay),
+        q.lte(q.field("receivedAt"), endOfDay),
+      ),
+    )
+    .collect();
+
+  const sequence = (todayBatches.length + 1).toString().padStart(4, "0");
+  return `BT-${dateStr}-${sequence}`;
+}
+
+/**
+ * Internal helper to record an inventory transaction.
+ * The caller is responsible for patching the batch quantity itself.
+ */
+export async function recordInventoryTransaction(
+  ctx: MutationCtx,
+  args: {
+    organizationId: Id<"organizations">;
+    batchId?: Id<"inventory_batches">;
+    serialNumberId?: Id<"serial_numbers">;
+    quantityBefore: number;
+    quantityChange: number;
+    quantityAfter: number;
+    inventoryTransactionTypeId: Id<"system_lookups">;
+    createdByUserId: Id<"users">;
+    notes?: string;
+    purchaseOrderDetailId?: Id<"purchase_order_details">;
+    transferOrderDetailId?: Id<"transfer_order_details">;
+    workSessionId?: Id<"work_sessions">;
+    adjustmentRequestDetailId?: Id<"adjustment_request_details">;
+    outboundOrderDetailId?: Id<"outbound_order_details">;
+    returnRequestDetailId?: Id<"return_request_details">;
+    customerReturnDetailId?: Id<"customer_return_details">;
+    inventoryHoldId?: Id<"inventory_holds">;
+  },
+): Promise<Id<"inventory_transactions">> {
+  return await ctx.db.insert("inventory_transactions", {
+    organizationId: args.organizationId,
+    batchId: args.batchId,
+    serialNumberId: args.serialNumberId,
+    quantityBefore: args.quantityBefore,
+    quantityChange: args.quantityChange,
+    quantityAfter: args.quantityAfter,
+    inventoryTransactionTypeId: args.inventoryTransactionTypeId,
+    createdByUserId: args.createdByUserId,
+    notes: args.notes,
+    purchaseOrderDetailId: args.purchaseOrderDetailId,
+    transferOrderDetailId: args.transferOrderDetailId,
+    workSessionId: args.workSessionId,
+    adjustmentRequestDetailId: args.adjustmentRequestDetailId,
+    outboundOrderDetailId: args.outboundOrderDetailId,
+    returnRequestDetailId: args.returnRequestDetailId,
+    customerReturnDetailId: args.customerReturnDetailId,
+    inventoryHoldId: args.inventoryHoldId,
+  });
+}
+
+/**
+ * Internal helper to change a batch quantity and record the transaction.
+ * Throws when the change would drive the batch negative.
+ */
+export async function applyInventoryChange(
+  ctx: MutationCtx,
+  args: {
+    batchId: Id<"inventory_batches">;
+    quantityChange: number;
+    inventoryTransactionTypeId: Id<"system_lookups">;
+    createdByUserId: Id<"users">;
+    notes?: string;
+    serialNumberId?: Id<"serial_numbers">;
+    purchaseOrderDetailId?: Id<"purchase_order_details">;
+    transferOrderDetailId?: Id<"transfer_order_details">;
+    workSessionId?: Id<"work_sessions">;
+    adjustmentRequestDetailId?: Id<"adjustment_request_details">;
+    outboundOrderDetailId?: Id<"outbound_order_details">;
+    returnRequestDetailId?: Id<"return_request_details">;
+    customerReturnDetailId?: Id<"customer_return_details">;
+    inventoryHoldId?: Id<"inventory_holds">;
+  },
+) {
+  const batch = await ctx.db.get(args.batchId);
+  if (!batch || batch.isDeleted) {
+    throw new Error("Inventory batch not found");
+  }
+
+  const quantityBefore = batch.quantity;
+  const quantityAfter = quantityBefore + args.quantityChange;
+
+  if (quantityAfter < 0) {
+    throw new Error("Insufficient inventory quantity");
+  }
+
+  await ctx.db.patch(args.batchId, {
+    quantity: quantityAfter,
+  });
+
+  const transactionId = await recordInventoryTransaction(ctx, {
+    ...args,
+    organizationId: batch.organizationId,
+    quantityBefore,
+    quantityAfter,
+  });
+
+  return { batch, quantityBefore, quantityAfter, transactionId };
+}
+
+/**
+ * Internal helper to get the quantity of a batch held by open work sessions
+ * and picked supplier returns. Unfinished picking lines of outbound and
+ * transfer sessions, and lines of returns waiting to ship, act as soft
+ * reservations against the batch.
+ */
+export async function getReservedBatchQuantity(
+  ctx: QueryCtx,
+  batchId: Id<"inventory_batches">,
+): Promise<number> {
+  const lineItems = await ctx.db
+    .query("session_line_items")
+    .withIndex("batchId", (q) => q.eq("batchId", batchId))
+    .collect();
+
+  let reserved = 0;
+  for (const item of lineItems) {
+    const remaining = item.expectedQuantity - item.actualQuantity;
+    if (remaining <= 0) continue;
+
+    const session = await ctx.db.get(item.sessionId);
+    if (!session || (!session.outboundOrderId && !session.transferOrderId)) {
+      continue;
+    }
+
+    const statusCode = await getLookupCode(ctx, session.sessionStatusTypeId);
+    if (
+      statusCode === "COMPLETED" ||
+      statusCode === "VERIFIED" ||
+      statusCode === "CANCELLED"
+    ) {
+      continue;
+    }
+
+    reserved += remaining;
+  }
+
+  for (const { detail } of await getReservingReturnDetails(ctx, { batchId })) {
+    reserved += detail.quantityToReturn;
+  }
+
+  return reserved;
+}
+
+/**
+ * Internal helper to get the supplier return lines that reserve stock, by
+ * batch or by SKU. Lines of returns that were picked and are waiting to
+ * ship still sit in their batch but are no longer available.
+ */
+export async function getReservingReturnDetails(
+  ctx: QueryCtx,
+  filter:
+    | { batchId: Id<"inventory_batches"> }
+    | { skuId: Id<"product_variants"> },
+): Promise<
+  {
+    detail: Doc<"return_request_details">;
+    returnRequest: Doc<"return_requests">;
+  }[]
+> {
+  const details =
+    "batchId" in filter
+      ? await ctx.db
+          .query("return_request_details")
+          .withIndex("batchId", (q) => q.eq("batchId", filter.batchId))
+          .collect()
+      : await ctx.db
+          .query("return_request_details")
+          .withIndex("skuId", (q) => q.eq("skuId", filter.skuId))
+          .collect();
+
+  const reserving = [];
+  for (const detail of details) {
+    const returnRequest = await ctx.db.get(detail.returnRequestId);
+    if (!returnRequest || returnRequest.isDeleted) continue;
+
+    const statusCode = await getLookupCode(
+      ctx,
+      returnRequest.returnStatusTypeId as Id<"system_lookups">,
+    );
+    if (statusCode === "PICKED") {
+      reserving.push({ detail, returnRequest });
+    }
+  }
+
+  return reserving;
+}
+
+/**
+ * Internal helper to total the units moved out of a branch per SKU since a
+ * point in time, from pick and transfer-out transactions. Reads only the
+ * organization's outbound transactions inside the window, so the cost
+ * doesn't grow with the branch's batch history.
+ */
+export async function getOutboundUnitsBySku(
+  ctx: QueryCtx,
+  params: {
+    organizationId: Id<"organizations">;
+    branchId: Id<"branches">;
+    since: number;
+  },
+): Promise<Map<Id<"product_variants">, number>> {
+  const units = new Map<Id<"product_variants">, number>();
+  const batches = new Map<
+    Id<"inventory_batches">,
+    { branchId: Id<"branches">; skuId: Id<"product_variants"> } | null
+  >();
+
+  for (const code of ["PICK", "TRANSFER_OUT"]) {
+    const lookup = await getSystemLookup(ctx, "InventoryTransactionType", code);
+    if (!lookup) continue;
+
+    const transactions = await ctx.db
+      .query("inventory_transactions")
+      .withIndex("organizationId_inventoryTransactionTypeId", (q) =>
+        q
+          .eq("organizationId", params.organizationId)
+          .eq("inventoryTransactionTypeId", lookup._id)
+          .gte("_creationTime", params.since),
+      )
+      .collect();
+
+    for (const transaction of transactions) {
+      if (!transaction.batchId) continue;
+      // Emptied batches are soft-deleted but still tell the branch and SKU
+      if (!batches.has(transaction.batchId)) {
+        batches.set(transaction.batchId, await ctx.db.get(transaction.batchId));
+      }
+      const batch = batches.get(transaction.batchId);
+      if (!batch || batch.branchId !== params.branchId) continue;
+
+      units.set(
+        batch.skuId,
+        (units.get(batch.skuId) ?? 0) + Math.abs(transaction.quantityChange),
+      );
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Internal helper to post an inventory adjustment against a batch.
+ * Updates the quantity, records the transaction and an audit log.
+ * Shared by adjustInventory and approved adjustment requests.
+ */
+export async function postInventoryAdjustment(
+  ctx: MutationCtx,
+  args: {
+    batchId: Id<"inventory_batches">;
+    quantityChange: number;
+    inventoryTransactionTypeId: Id<"system_lookups">;
+    userId: Id<"users">;
+    notes?: string;
+    adjustmentRequestDetailId?: Id<"adjustment_request_details">;
+  },
+) {
+  const result = await applyInventoryChange(ctx, {
+    batchId: args.batchId,
+    quantityChange: args.quantityChange,
+    inventoryTransactionTypeId: args.inventoryTransactionTypeId,
+    createdByUserId: args.userId,
+    notes: args.notes,
+    adjustmentRequestDetailId: args.adjustmentRequestDetailId,
+  });
+
+  await logAudit(ctx, {
+    organizationId: result.batch.organizationId,
+    userId: args.userId,
+    actionTypeId: args.inventoryTransactionTypeId, // Using the same reason as action type for simplicity
+    entityType: "inventory_batches",
+    entityId: args.batchId,
+    fieldName: "quantity",
+    oldValue: result.quantityBefore,
+    newValue: result.quantityAfter,
+    notes: `Inventory adjustment: ${args.quantityChange > 0 ? "+" : ""}${args.quantityChange}. Reason: ${args.notes ?? "N/A"}`,
+  });
+
+  return result;
+}
+
+/**
+ * Internal helper to move quantity of a batch into a zone, optionally under
+ * another batch status. Merges into a live batch of the same lot, zone and
+ * status, or splits off a new one; an emptied source batch is soft deleted.
+ * Both legs are recorded with the given transaction type.
+ */
+export async function moveBatchQuantity(
+  ctx: MutationCtx,
+  args: {
+    batchId: Id<"inventory_batches">;
+    toZoneId: Id<"storage_zones">;
+    quantity: number;
+    batchStatusTypeId?: Id<"system_lookups">; // Defaults to the source status
+    split?: boolean; // Always split off a new batch
+    targetBatchId?: Id<"inventory_batches">; // Merge into this batch instead
+    inventoryTransactionTypeId: Id<"system_lookups">;
+    createdByUserId: Id<"users">;
+    notes?: string;
+    serialNumberId?: Id<"serial_numbers">;
+    customerReturnDetailId?: Id<"customer_return_details">;
+    inventoryHoldId?: Id<"inventory_holds">;
+    workSessionId?: Id<"work_sessions">;
+    adjustmentRequestDetailId?: Id<"adjustment_request_details">;
+  },
+): Promise<Id<"inventory_batches">> {
+  const {
+    batchId,
+    toZoneId,
+    quantity,
+    batchStatusTypeId,
+    split,
+    targetBatchId,
+    ...links
+  } = args;
+
+  const { batch: source, quantityAfter } = await applyInventoryChange(ctx, {
+    ...links,
+    batchId,
+    quantityChange: -quantity,
+  });
+  if (quantityAfter === 0) {
+    await ctx.db.patch(source._id, { isDeleted: true, deletedAt: Date.now() });
+  }
+
+  const statusId = batchStatusTypeId ?? source.batchStatusTypeId;
+  const target = targetBatchId
+    ? await ctx.db.get(targetBatchId)
+    : split
+      ? null
+      : await ctx.db
+          .query("inventory_batches")
+          .withIndex("zoneId", (q) => q.eq("zoneId", toZoneId))
+          .filter((q) =>
+            q.and(
+              q.neq(q.field("_id"), source._id),
+              q.eq(q.field("skuId"), source.skuId),
+              q.eq(q.field("internalBatchNumber"), source.internalBatchNumber),
+              q.eq(q.field("supplierBatchNumber"), source.supplierBatchNumber),
+              q.eq(q.field("expiresAt"), source.expiresAt),
+              q.eq(q.field("batchStatusTypeId"), statusId),
+              q.eq(q.field("isDeleted"), false),
+            ),
+          )
+          .first();
+
+  if (target) {
+    await applyInventoryChange(ctx, {
+      ...links,
+      batchId: target._id,
+      quantityChange: quantity,
+    });
+    return target._id;
+  }
+
+  const zone = await ctx.db.get(toZoneId);
+  if (!zone || zone.isDeleted) {
+    throw new Error("Storage zone not found");
+  }
+  const newBatchId = await ctx.db.insert("inventory_batches", {
+    organizationId: source.organizationId,
+    skuId: source.skuId,
+    zoneId: toZoneId,
+    quantity,
+    branchId: zone.branchId,
+    supplierBatchNumber: source.supplierBatchNumber,
+    internalBatchNumber:
+      source.internalBatchNumber ??
+      (await generateInternalBatchNumber(ctx, zone.branchId)),
+    receivedAt: source.receivedAt,
+    manufacturingDate: source.manufacturingDate,
+    expiresAt: source.expiresAt,
+    batchStatusTypeId: statusId,
+    isDeleted: false,
+  });
+  await recordInventoryTransaction(ctx, {
+    ...links,
+    organizationId: source.organizationId,
+    batchId: newBatchId,
+    quantityBefore: 0,
+    quantityChange: quantity,
+    quantityAfter: quantity,
+  });
+  return newBatchId;
+}
+
 /**
  * Adjust inventory quantity (increase or decrease).
  * Records the transaction and an audit log.
@@ -16,24 +473,7 @@ export const adjustInventory = mutation({
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const batch = await ctx.db.get(args.batchId);
-    if (!batch) {
-      throw new Error("Inventory batch not found");
-    }
-
-    const quantityBefore = batch.quantity;
-    const quantityAfter = quantityBefore + args.quantityChange;
-
-    if (quantityAfter < 0) {
-      throw new Error("Insufficient inventory quantity");
-    }
-
-    // 1. Update the batch quantity
-    await ctx.db.patch(args.batchId, {
-      quantity: quantityAfter,
-    });
-
-    // 2. Get current user (who is performing the action)
+    // 1. Get current user (who is performing the action)
     const identity = await ctx.auth.getUserIdentity();
     let userId: Id<"users"> | undefined;
     if (identity) {
@@ -50,31 +490,15 @@ export const adjustInventory = mutation({
       // throw new Error("Unauthenticated");
     }
 
-    // 3. Record the inventory transaction
-    await ctx.db.insert("inventory_transactions", {
-      organizationId: batch.organizationId,
-      batchId: batch._id,
-      quantityBefore: quantityBefore,
+    // 2. Update the batch, record the transaction and the audit log
+    const { quantityAfter } = await postInventoryAdjustment(ctx, {
+      batchId: args.batchId,
       quantityChange: args.quantityChange,
-      quantityAfter: quantityAfter,
       inventoryTransactionTypeId: args.reasonTypeId,
-      createdByUserId: userId!, // We assume user is found, or schema allows null (schema says v.id("users"))
+      userId: userId!, // We assume user is found, or schema allows null (schema says v.id("users"))
       notes: args.notes,
     });
 
-    // 4. Log Audit (System level log)
-    await logAudit(ctx, {
-      organizationId: batch.organizationId,
-      userId: userId,
-      actionTypeId: args.reasonTypeId, // Using the same reason as action type for simplicity
-      entityType: "inventory_batches",
-      entityId: batch._id,
-      fieldName: "quantity",
-      oldValue: quantityBefore,
-      newValue: quantityAfter,
-      notes: `Inventory adjustment: ${args.quantityChange > 0 ? "+" : ""}${args.quantityChange}. Reason: ${args.notes ?? "N/A"}`,
-    });
-
     return {
       success: true,
       newQuantity: quantityAfter,
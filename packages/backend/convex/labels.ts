@@ -0,0 +1,241 @@
+/**
+ * LABELS API - Label content for batches, bins, SKU shelf tags and cartons
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - print any label
+ * ✅ Inventory Manager - print any label
+ * ✅ Admin - print any label
+ * ✅ Staff - print and reprint labels
+ *
+ * NOTES:
+ * - Returns what goes on each label; the web app renders it as ZPL for
+ *   thermal printers or as a PDF sheet for office printers
+ * - Batch labels and SKU tags are GS1-128 when the SKU has a GTIN barcode,
+ *   otherwise Code 128 of the batch number or SKU code
+ * - Bin labels are Code 128 of the zone path, which scanners resolve back
+ *   to the zone
+ * - Carton labels are QR codes of the order code, one per carton
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type QueryCtx, query } from "./_generated/server";
+import {
+  buildGs1ElementString,
+  formatGs1Date,
+  hasValidCheckDigit,
+} from "./gs1";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+type LabelSymbology = "CODE128" | "GS1_128" | "QR";
+
+type LabelData = {
+  kind: "BATCH" | "BIN" | "SKU" | "CARTON";
+  title: string;
+  lines: string[];
+  barcode: {
+    symbology: LabelSymbology;
+    /** Human readable text printed under the barcode */
+    text: string;
+    /** Encoded data; GS1 data separates variable fields with GS */
+    data: string;
+  };
+};
+
+/** GS1 AI 10 allows up to 20 characters from this set */
+const GS1_LOT_PATTERN = /^[!-"%-/0-9:-?A-Z_a-z]{1,20}$/;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+const code128 = (value: string): LabelData["barcode"] => ({
+  symbology: "CODE128",
+  text: value,
+  data: value,
+});
+
+/**
+ * The SKU's GTIN as 14 digits, from its first barcode that is a valid
+ * GTIN-8/12/13/14
+ */
+async function getSkuGtin(
+  ctx: QueryCtx,
+  skuId: Id<"product_variants">,
+): Promise<string | null> {
+  const barcodes = await ctx.db
+    .query("product_barcodes")
+    .withIndex("skuId", (q) => q.eq("skuId", skuId))
+    .collect();
+
+  const gtin = barcodes.find(
+    (barcode) =>
+      /^(\d{8}|\d{12,14})$/.test(barcode.barcodeValue) &&
+      hasValidCheckDigit(barcode.barcodeValue),
+  );
+  return gtin ? gtin.barcodeValue.padStart(14, "0") : null;
+}
+
+async function getSkuDetails(ctx: QueryCtx, skuId: Id<"product_variants">) {
+  const variant = await ctx.db.get(skuId);
+  if (!variant) {
+    throw new Error("Product variant not found");
+  }
+  const product = await ctx.db.get(variant.productId);
+  return { variant, productName: product?.name ?? "Unknown" };
+}
+
+async function buildBatchLabel(
+  ctx: QueryCtx,
+  batch: Doc<"inventory_batches">,
+): Promise<LabelData> {
+  const { variant, productName } = await getSkuDetails(ctx, batch.skuId);
+  const batchNumber = batch.internalBatchNumber ?? batch._id;
+  const gtin = await getSkuGtin(ctx, batch.skuId);
+
+  // Fixed-length AIs first so only the lot needs an FNC1 separator
+  let barcode = code128(batchNumber);
+  if (gtin && GS1_LOT_PATTERN.test(batchNumber)) {
+    const elements = [{ ai: "01", value: gtin }];
+    if (batch.expiresAt !== undefined) {
+      elements.push({ ai: "17", value: formatGs1Date(batch.expiresAt) });
+    }
+    elements.push({ ai: "10", value: batchNumber });
+    const { text, data } = buildGs1ElementString(elements);
+    barcode = { symbology: "GS1_128", text, data };
+  }
+
+  return {
+    kind: "BATCH",
+    title: variant.skuCode,
+    lines: [
+      productName,
+      `Batch ${batchNumber}`,
+      ...(batch.supplierBatchNumber
+        ? [`Supplier lot ${batch.supplierBatchNumber}`]
+        : []),
+      batch.expiresAt !== undefined
+        ? `Expires ${formatDate(batch.expiresAt)}`
+        : "No expiry",
+    ],
+    barcode,
+  };
+}
+
+async function buildSkuLabel(
+  ctx: QueryCtx,
+  skuId: Id<"product_variants">,
+): Promise<LabelData> {
+  const { variant, productName } = await getSkuDetails(ctx, skuId);
+  const gtin = await getSkuGtin(ctx, skuId);
+
+  let barcode = code128(variant.skuCode);
+  if (gtin) {
+    const { text, data } = buildGs1ElementString([{ ai: "01", value: gtin }]);
+    barcode = { symbology: "GS1_128", text, data };
+  }
+
+  return {
+    kind: "SKU",
+    title: variant.skuCode,
+    lines: [
+      productName,
+      ...(variant.description ? [variant.description] : []),
+      variant.sellingPrice.toFixed(2),
+    ],
+    barcode,
+  };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Get the content of labels to print
+ *
+ * Process:
+ * 1. Builds one label per batch, using GS1-128 with GTIN, expiry and lot
+ *    when the SKU has a GTIN
+ * 2. Builds one bin label per storage zone from its path
+ * 3. Builds one shelf tag per SKU
+ * 4. Builds cartonCount carton labels for the outbound order
+ *
+ * Pass any combination of the ID lists; labels come back in that order.
+ */
+export const getLabels = query({
+  args: {
+    batchIds: v.optional(v.array(v.id("inventory_batches"))),
+    zoneIds: v.optional(v.array(v.id("storage_zones"))),
+    skuIds: v.optional(v.array(v.id("product_variants"))),
+    outboundOrderId: v.optional(v.id("outbound_orders")),
+    cartonCount: v.optional(v.number()), // Defaults to one carton
+  },
+  handler: async (ctx, args) => {
+    const labels: LabelData[] = [];
+
+    // Step 1: Batch labels
+    for (const batchId of args.batchIds ?? []) {
+      const batch = await ctx.db.get(batchId);
+      if (!batch || batch.isDeleted) {
+        throw new Error("Batch not found");
+      }
+      labels.push(await buildBatchLabel(ctx, batch));
+    }
+
+    // Step 2: Bin labels
+    for (const zoneId of args.zoneIds ?? []) {
+      const zone = await ctx.db.get(zoneId);
+      if (!zone || zone.isDeleted) {
+        throw new Error("Storage zone not found");
+      }
+      labels.push({
+        kind: "BIN",
+        title: zone.name,
+        lines: [zone.path],
+        barcode: code128(zone.path),
+      });
+    }
+
+    // Step 3: SKU shelf tags
+    for (const skuId of args.skuIds ?? []) {
+      labels.push(await buildSkuLabel(ctx, skuId));
+    }
+
+    // Step 4: Carton labels
+    if (args.outboundOrderId) {
+      const order = await ctx.db.get(args.outboundOrderId);
+      if (!order || order.isDeleted) {
+        throw new Error("Outbound order not found");
+      }
+      const cartonCount = args.cartonCount ?? 1;
+      if (!Number.isInteger(cartonCount) || cartonCount < 1) {
+        throw new Error("Carton count must be a whole number of at least 1");
+      }
+
+      for (let carton = 1; carton <= cartonCount; carton++) {
+        labels.push({
+          kind: "CARTON",
+          title: order.customerName ?? "Customer",
+          lines: [
+            ...(order.shippingAddress ? [order.shippingAddress] : []),
+            `Order ${order.orderCode}`,
+            ...(order.trackingNumber
+              ? [`Tracking ${order.trackingNumber}`]
+              : []),
+            `Carton ${carton} of ${cartonCount}`,
+          ],
+          barcode: {
+            symbology: "QR",
+            text: order.orderCode,
+            data: order.orderCode,
+          },
+        });
+      }
+    }
+
+    return labels;
+  },
+});
@@ -0,0 +1,75 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+
+/**
+ * Internal helper to find a system lookup by type and code.
+ * Returns null when the lookup has not been seeded.
+ */
+export async function getSystemLookup(
+  ctx: QueryCtx,
+  lookupType: string,
+  lookupCode: string,
+): Promise<Doc<"system_lookups"> | null> {
+  return await ctx.db
+    .query("system_lookups")
+    .withIndex("lookupType_lookupCode", (q) =>
+      q.eq("lookupType", lookupType).eq("lookupCode", lookupCode),
+    )
+    .first();
+}
+
+/**
+ * Internal helper to get a system lookup ID, creating the lookup if missing.
+ * Can be called from other mutations.
+ */
+export async function ensureSystemLookup(
+  ctx: MutationCtx,
+  lookupType: string,
+  lookupCode: string,
+  lookupValue: string,
+  description: string,
+): Promise<Id<"system_lookups">> {
+  const existingLookup = await getSystemLookup(ctx, lookupType, lookupCode);
+
+  if (existingLookup) {
+    return existingLookup._id;
+  }
+
+  return await ctx.db.insert("system_lookups", {
+    lookupType,
+    lookupCode,
+    lookupValue,
+    description,
+    sortOrder: 1,
+  });
+}
+
+/**
+ * Internal helper to resolve a lookup ID back to its code.
+ */
+export async function getLookupCode(
+  ctx: QueryCtx,
+  lookupId: Id<"system_lookups"> | undefined,
+): Promise<string | null> {
+  if (!lookupId) {
+    return null;
+  }
+  const lookup = await ctx.db.get(lookupId);
+  return lookup?.lookupCode ?? null;
+}
+
+/**
+ * Internal helper to resolve a lookup reference stored as a plain string.
+ * Older tables keep either a system_lookups ID or a bare code
+ * (e.g. "quantity"); both resolve to an upper-case lookup code.
+ */
+export async function resolveLookupCode(
+  ctx: QueryCtx,
+  value: string,
+): Promise<string> {
+  const lookupId = ctx.db.normalizeId("system_lookups", value);
+  if (lookupId) {
+    return (await getLookupCode(ctx, lookupId)) ?? value.toUpperCase();
+  }
+  return value.toUpperCase();
+}
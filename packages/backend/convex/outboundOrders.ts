@@ -0,0 +1,901 @@
+/**
+ * OUTBOUND ORDERS API
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full lifecycle
+ * ✅ Admin - full lifecycle
+ * ⚠️ Staff - confirm picks and pack
+ *
+ * NOTES:
+ * - Lifecycle: Pending → Processing (allocated, picking) → Picked → Packed → Shipped
+ * - Allocation soft-reserves batches through the line items of a PICK work session;
+ *   batches are chosen by the FEFO/FIFO rules in allocation.ts
+ * - Confirmed picks decrement batches through inventory_transactions
+ *   with outboundOrderDetailId set
+ * - Serial-tracked lines are picked by scanning serials in the line's zone
+ * - Soft delete supported (isDeleted flag)
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { allocateBatches } from "./allocation";
+import { applyInventoryChange, isBatchOnHold } from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import {
+  getSerialsInStock,
+  isSerialTracked,
+  setSerialLocation,
+} from "./serialNumbers";
+import { generateWorkSessionCode } from "./workSessions";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const OUTBOUND_STATUSES = {
+  PENDING: { value: "Pending", description: "Order is waiting for allocation" },
+  PROCESSING: {
+    value: "Processing",
+    description: "Stock is allocated and being picked",
+  },
+  PICKED: { value: "Picked", description: "All lines have been picked" },
+  PACKED: { value: "Packed", description: "Order is packed and ready to ship" },
+  SHIPPED: { value: "Shipped", description: "Order has left the warehouse" },
+  CANCELLED: { value: "Cancelled", description: "Order has been cancelled" },
+} as const;
+
+type OutboundStatusCode = keyof typeof OUTBOUND_STATUSES;
+
+/**
+ * Get the lookup ID for an outbound order status, creating it if missing
+ */
+async function ensureOutboundStatus(
+  ctx: MutationCtx,
+  statusCode: OutboundStatusCode,
+): Promise<Id<"system_lookups">> {
+  const status = OUTBOUND_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "OutboundOrderStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Load an outbound order and assert it is in one of the allowed statuses
+ */
+async function getOrderInStatus(
+  ctx: MutationCtx,
+  outboundOrderId: Id<"outbound_orders">,
+  allowedStatuses: OutboundStatusCode[],
+): Promise<Doc<"outbound_orders">> {
+  const order = await ctx.db.get(outboundOrderId);
+  if (!order || order.isDeleted) {
+    throw new Error("Outbound order not found");
+  }
+
+  const statusCode = await getLookupCode(ctx, order.outboundStatusTypeId);
+  if (!allowedStatuses.includes(statusCode as OutboundStatusCode)) {
+    throw new Error(
+      `Outbound order ${order.orderCode} is ${statusCode ?? "in an unknown status"}; expected ${allowedStatuses.join(" or ")}`,
+    );
+  }
+
+  return order;
+}
+
+/**
+ * Close the picking sessions of an order that are still open, which
+ * releases the soft reservations of their unpicked lines
+ */
+async function closePickingSessions(
+  ctx: MutationCtx,
+  outboundOrderId: Id<"outbound_orders">,
+) {
+  const completedStatusId = await ensureSystemLookup(
+    ctx,
+    "SessionStatus",
+    "COMPLETED",
+    "Completed",
+    "Session has been completed",
+  );
+  const sessions = await ctx.db
+    .query("work_sessions")
+    .withIndex("outboundOrderId", (q) =>
+      q.eq("outboundOrderId", outboundOrderId),
+    )
+    .collect();
+  for (const session of sessions) {
+    const statusCode = await getLookupCode(ctx, session.sessionStatusTypeId);
+    if (statusCode !== "COMPLETED" && statusCode !== "CANCELLED") {
+      await ctx.db.patch(session._id, {
+        sessionStatusTypeId: completedStatusId,
+        completedAt: Date.now(),
+      });
+    }
+  }
+}
+
+/**
+ * Generate a unique outbound order code
+ * Format: OUT-YYYYMMDD-XXXX
+ */
+async function generateOutboundOrderCode(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+  const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
+
+  const todayOrders = await ctx.db
+    .query("outbound_orders")
+    .withIndex("organizationId", (q) => q.eq("organizationId", organizationId))
+    .filter((q) =>
+      q.and(
+        q.gte(q.field("orderDate"), startOfDay),
+        q.lte(q.field("orderDate"), endOfDay),
+      ),
+    )
+    .collect();
+
+  const sequence = (todayOrders.length + 1).toString().padStart(4, "0");
+  return `OUT-${dateStr}-${sequence}`;
+}
+
+/**
+ * Get the details of an outbound order
+ */
+async function getOrderDetails(
+  ctx: MutationCtx,
+  outboundOrderId: Id<"outbound_orders">,
+) {
+  return await ctx.db
+    .query("outbound_order_details")
+    .withIndex("outboundOrderId", (q) =>
+      q.eq("outboundOrderId", outboundOrderId),
+    )
+    .collect();
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * List outbound orders for a branch
+ * Includes line totals for the orders table
+ */
+export const listOutboundOrders = query({
+  args: {
+    branchId: v.id("branches"),
+    statusCode: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const orders = await ctx.db
+      .query("outbound_orders")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .order("desc")
+      .collect();
+
+    const enrichedOrders = await Promise.all(
+      orders.map(async (order) => {
+        const status = await ctx.db.get(order.outboundStatusTypeId);
+        const createdBy = await ctx.db.get(order.createdByUserId);
+        const details = await ctx.db
+          .query("outbound_order_details")
+          .withIndex("outboundOrderId", (q) =>
+            q.eq("outboundOrderId", order._id),
+          )
+          .collect();
+
+        return {
+          ...order,
+          statusName: status?.lookupValue ?? "Unknown",
+          statusCode: status?.lookupCode ?? "UNKNOWN",
+          createdByName: createdBy?.fullName ?? "Unknown",
+          totalLines: details.length,
+          totalRequested: details.reduce((s, d) => s + d.quantityRequested, 0),
+          totalPicked: details.reduce((s, d) => s + d.quantityPicked, 0),
+          totalPacked: details.reduce((s, d) => s + d.quantityPacked, 0),
+        };
+      }),
+    );
+
+    if (args.statusCode) {
+      return enrichedOrders.filter((o) => o.statusCode === args.statusCode);
+    }
+
+    return enrichedOrders;
+  },
+});
+
+/**
+ * Get an outbound order with its lines and picking sessions
+ */
+export const getOutboundOrderById = query({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+  },
+  handler: async (ctx, args) => {
+    const order = await ctx.db.get(args.outboundOrderId);
+    if (!order || order.isDeleted) {
+      return null;
+    }
+
+    const status = await ctx.db.get(order.outboundStatusTypeId);
+    const details = await ctx.db
+      .query("outbound_order_details")
+      .withIndex("outboundOrderId", (q) =>
+        q.eq("outboundOrderId", args.outboundOrderId),
+      )
+      .collect();
+
+    const items = await Promise.all(
+      details.map(async (detail) => {
+        const variant = await ctx.db.get(detail.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+
+        return {
+          ...detail,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? "Unknown",
+        };
+      }),
+    );
+
+    const sessions = await ctx.db
+      .query("work_sessions")
+      .withIndex("outboundOrderId", (q) =>
+        q.eq("outboundOrderId", args.outboundOrderId),
+      )
+      .collect();
+
+    const pickingSessions = await Promise.all(
+      sessions.map(async (session) => {
+        const sessionStatus = await ctx.db.get(session.sessionStatusTypeId);
+        return {
+          _id: session._id,
+          sessionCode: session.sessionCode,
+          statusName: sessionStatus?.lookupValue ?? "Unknown",
+          statusCode: sessionStatus?.lookupCode ?? "UNKNOWN",
+        };
+      }),
+    );
+
+    return {
+      ...order,
+      statusName: status?.lookupValue ?? "Unknown",
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      items,
+      pickingSessions,
+    };
+  },
+});
+
+/**
+ * List picking work sessions for a branch
+ */
+export const listPickingSessions = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const sessions = await ctx.db
+      .query("work_sessions")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .filter((q) => q.neq(q.field("outboundOrderId"), undefined))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      sessions.map(async (session) => {
+        const status = await ctx.db.get(session.sessionStatusTypeId);
+        const assignee = await ctx.db.get(session.assignedUserId);
+        const order = session.outboundOrderId
+          ? await ctx.db.get(session.outboundOrderId)
+          : null;
+        const lineItems = await ctx.db
+          .query("session_line_items")
+          .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+          .collect();
+
+        return {
+          _id: session._id,
+          sessionCode: session.sessionCode,
+          orderCode: order?.orderCode ?? "Unknown",
+          outboundOrderId: session.outboundOrderId,
+          assignedUserName: assignee?.fullName ?? "Unknown",
+          statusName: status?.lookupValue ?? "Unknown",
+          statusCode: status?.lookupCode ?? "UNKNOWN",
+          startedAt: session.startedAt,
+          completedAt: session.completedAt,
+          totalLines: lineItems.length,
+          totalExpected: lineItems.reduce((s, i) => s + i.expectedQuantity, 0),
+          totalPicked: lineItems.reduce((s, i) => s + i.actualQuantity, 0),
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Get the pick list of a picking session
+ * Line items are enriched with SKU, zone and batch information
+ */
+export const getPickingSessionDetail = query({
+  args: {
+    sessionId: v.id("work_sessions"),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || !session.outboundOrderId) {
+      return null;
+    }
+
+    const status = await ctx.db.get(session.sessionStatusTypeId);
+    const order = await ctx.db.get(session.outboundOrderId);
+    const lineItems = await ctx.db
+      .query("session_line_items")
+      .withIndex("sessionId", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+
+    const items = await Promise.all(
+      lineItems.map(async (item) => {
+        const variant = await ctx.db.get(item.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+        const zone = item.zoneId ? await ctx.db.get(item.zoneId) : null;
+        const batch = item.batchId ? await ctx.db.get(item.batchId) : null;
+
+        return {
+          _id: item._id,
+          skuId: item.skuId,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? "Unknown",
+          zoneName: zone?.name ?? null,
+          zonePath: zone?.path ?? null,
+          batchNumber: batch?.internalBatchNumber ?? null,
+          expiresAt: batch?.expiresAt,
+          isSerialTracked: await isSerialTracked(ctx, item.skuId),
+          expectedQuantity: item.expectedQuantity,
+          actualQuantity: item.actualQuantity,
+          scannedAt: item.scannedAt,
+          notes: item.notes,
+        };
+      }),
+    );
+
+    return {
+      _id: session._id,
+      sessionCode: session.sessionCode,
+      orderCode: order?.orderCode ?? "Unknown",
+      statusName: status?.lookupValue ?? "Unknown",
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      items,
+    };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Create a new outbound order in Pending status
+ */
+export const createOutboundOrder = mutation({
+  args: {
+    branchId: v.id("branches"),
+    userId: v.id("users"),
+    requestedShipDate: v.optional(v.number()),
+    customerName: v.optional(v.string()),
+    shippingAddress: v.optional(v.string()),
+    items: v.array(
+      v.object({
+        skuId: v.id("product_variants"),
+        quantity: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    if (args.items.length === 0) {
+      throw new Error("Outbound order must contain at least one item");
+    }
+
+    const skuIds = new Set<string>();
+    for (const item of args.items) {
+      if (item.quantity <= 0) {
+        throw new Error("Item quantity must be greater than 0");
+      }
+      const variant = await ctx.db.get(item.skuId);
+      if (!variant || variant.isDeleted) {
+        throw new Error("Product variant not found");
+      }
+      // Picks are matched to order lines by SKU, so each SKU gets one line
+      if (skuIds.has(item.skuId)) {
+        throw new Error(
+          `${variant.skuCode} is on the order twice; combine it into one line`,
+        );
+      }
+      skuIds.add(item.skuId);
+    }
+
+    const branch = await ctx.db.get(args.branchId);
+    if (!branch) {
+      throw new Error("Branch not found");
+    }
+
+    const pendingStatusId = await ensureOutboundStatus(ctx, "PENDING");
+    const orderCode = await generateOutboundOrderCode(
+      ctx,
+      branch.organizationId,
+    );
+
+    const outboundOrderId = await ctx.db.insert("outbound_orders", {
+      organizationId: branch.organizationId,
+      branchId: args.branchId,
+      orderCode,
+      orderDate: Date.now(),
+      requestedShipDate: args.requestedShipDate,
+      customerName: args.customerName,
+      shippingAddress: args.shippingAddress,
+      createdByUserId: args.userId,
+      outboundStatusTypeId: pendingStatusId,
+      isDeleted: false,
+    });
+
+    for (const item of args.items) {
+      await ctx.db.insert("outbound_order_details", {
+        outboundOrderId,
+        skuId: item.skuId,
+        quantityRequested: item.quantity,
+        quantityPicked: 0,
+        quantityPacked: 0,
+      });
+    }
+
+    return {
+      success: true,
+      outboundOrderId,
+      orderCode,
+    };
+  },
+});
+
+/**
+ * Allocate stock to an order and generate its picking work session
+ * Each allocated batch becomes a session line item, which soft-reserves
+ * the quantity until the pick is confirmed or the session is closed
+ */
+export const allocateOutboundOrder = mutation({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+    assignedUserId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const order = await getOrderInStatus(ctx, args.outboundOrderId, [
+      "PENDING",
+    ]);
+    const details = await getOrderDetails(ctx, args.outboundOrderId);
+
+    // Allocate every line before writing anything so a shortage fails cleanly
+    const lineAllocations = [];
+    for (const detail of details) {
+      const { allocations, shortfall } = await allocateBatches(
+        ctx,
+        order.branchId,
+        detail.skuId,
+        detail.quantityRequested - detail.quantityPicked,
+      );
+
+      if (shortfall > 0) {
+        const variant = await ctx.db.get(detail.skuId);
+        throw new Error(
+          `Insufficient available stock for ${variant?.skuCode ?? "SKU"}: short by ${shortfall}`,
+        );
+      }
+
+      lineAllocations.push({ detail, allocations });
+    }
+
+    const pickTypeId = await ensureSystemLookup(
+      ctx,
+      "SessionType",
+      "PICK",
+      "Pick",
+      "Work session for picking outbound orders",
+    );
+    const pendingSessionStatusId = await ensureSystemLookup(
+      ctx,
+      "SessionStatus",
+      "PENDING",
+      "Pending",
+      "Session has not started yet",
+    );
+
+    const sessionCode = await generateWorkSessionCode(
+      ctx,
+      order.branchId,
+      "PICK",
+    );
+
+    const sessionId = await ctx.db.insert("work_sessions", {
+      organizationId: order.organizationId,
+      branchId: order.branchId,
+      sessionTypeId: pickTypeId,
+      sessionCode,
+      name: `Picking ${order.orderCode}`,
+      description: "Auto-generated picking session for outbound order",
+      assignedUserId: args.assignedUserId,
+      sessionStatusTypeId: pendingSessionStatusId,
+      outboundOrderId: order._id,
+    });
+
+    // One pick list for the whole order, walked in zone path order
+    const pickList = lineAllocations
+      .flatMap(({ detail, allocations }) =>
+        allocations.map((allocation) => ({ skuId: detail.skuId, allocation })),
+      )
+      .sort((a, b) =>
+        a.allocation.zonePath < b.allocation.zonePath
+          ? -1
+          : a.allocation.zonePath > b.allocation.zonePath
+            ? 1
+            : 0,
+      );
+    for (const { skuId, allocation } of pickList) {
+      await ctx.db.insert("session_line_items", {
+        sessionId,
+        skuId,
+        expectedQuantity: allocation.quantity,
+        actualQuantity: 0,
+        zoneId: allocation.zoneId,
+        batchId: allocation.batchId,
+      });
+    }
+
+    await ctx.db.patch(order._id, {
+      outboundStatusTypeId: await ensureOutboundStatus(ctx, "PROCESSING"),
+    });
+
+    return {
+      success: true,
+      sessionId,
+      sessionCode,
+    };
+  },
+});
+
+/**
+ * Confirm a pick against a picking session line item
+ * Decrements the batch through a PICK inventory transaction
+ * Serial-tracked products need one scanned serial per unit, each in stock
+ * in the line's zone; held batches and quarantined serials cannot be picked
+ * Only orders still being picked accept picks; the order moves to Picked
+ * once every pick line of its sessions is done
+ */
+export const confirmPick = mutation({
+  args: {
+    lineItemId: v.id("session_line_items"),
+    quantityPicked: v.number(),
+    userId: v.id("users"),
+    serialNumbers: v.optional(v.array(v.string())),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (args.quantityPicked <= 0) {
+      throw new Error("Picked quantity must be greater than 0");
+    }
+
+    const lineItem = await ctx.db.get(args.lineItemId);
+    if (!lineItem || !lineItem.batchId) {
+      throw new Error("Pick line not found");
+    }
+
+    const batch = await ctx.db.get(lineItem.batchId);
+    if (batch && (await isBatchOnHold(ctx, batch))) {
+      throw new Error(
+        `Batch ${batch.internalBatchNumber ?? batch._id} is on hold and cannot be picked`,
+      );
+    }
+
+    const session = await ctx.db.get(lineItem.sessionId);
+    if (!session || !session.outboundOrderId) {
+      throw new Error("Picking session not found");
+    }
+    await getOrderInStatus(ctx, session.outboundOrderId, ["PROCESSING"]);
+
+    const sessionStatusCode = await getLookupCode(
+      ctx,
+      session.sessionStatusTypeId,
+    );
+    if (
+      sessionStatusCode === "COMPLETED" ||
+      sessionStatusCode === "CANCELLED"
+    ) {
+      throw new Error("Picking session is already closed");
+    }
+
+    const newActual = lineItem.actualQuantity + args.quantityPicked;
+    if (newActual > lineItem.expectedQuantity) {
+      throw new Error(
+        `Cannot pick more than allocated (${lineItem.expectedQuantity - lineItem.actualQuantity} remaining)`,
+      );
+    }
+
+    const detail = await ctx.db
+      .query("outbound_order_details")
+      .withIndex("outboundOrderId", (q) =>
+        q.eq("outboundOrderId", session.outboundOrderId!),
+      )
+      .filter((q) => q.eq(q.field("skuId"), lineItem.skuId))
+      .first();
+    if (!detail) {
+      throw new Error("Outbound order line not found");
+    }
+
+    const pickTypeId = await ensureSystemLookup(
+      ctx,
+      "InventoryTransactionType",
+      "PICK",
+      "Pick",
+      "Stock picked for an outbound order",
+    );
+
+    if (await isSerialTracked(ctx, lineItem.skuId)) {
+      if (args.serialNumbers?.length !== args.quantityPicked) {
+        throw new Error(
+          `Scan ${args.quantityPicked} serial number(s) for this serial-tracked product`,
+        );
+      }
+      const serials = await getSerialsInStock(ctx, {
+        organizationId: session.organizationId,
+        skuId: lineItem.skuId,
+        serialNumbers: args.serialNumbers,
+        zoneId: lineItem.zoneId,
+        // Only the allocated batch carries this line's reservation
+        batchId: lineItem.batchId,
+      });
+
+      for (const serial of serials) {
+        await applyInventoryChange(ctx, {
+          batchId: lineItem.batchId,
+          quantityChange: -1,
+          inventoryTransactionTypeId: pickTypeId,
+          createdByUserId: args.userId,
+          notes: args.notes,
+          serialNumberId: serial._id,
+          workSessionId: session._id,
+          outboundOrderDetailId: detail._id,
+        });
+        await setSerialLocation(ctx, serial._id, "SOLD");
+      }
+    } else {
+      await applyInventoryChange(ctx, {
+        batchId: lineItem.batchId,
+        quantityChange: -args.quantityPicked,
+        inventoryTransactionTypeId: pickTypeId,
+        createdByUserId: args.userId,
+        notes: args.notes,
+        workSessionId: session._id,
+        outboundOrderDetailId: detail._id,
+      });
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.lineItemId, {
+      actualQuantity: newActual,
+      scannedAt: now,
+      notes: args.notes ?? lineItem.notes,
+    });
+    await ctx.db.patch(detail._id, {
+      quantityPicked: detail.quantityPicked + args.quantityPicked,
+    });
+
+    // Close the session once every line is fully picked
+    const lineItems = await ctx.db
+      .query("session_line_items")
+      .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+      .collect();
+    const sessionComplete = lineItems.every((item) =>
+      item._id === args.lineItemId
+        ? newActual >= item.expectedQuantity
+        : item.actualQuantity >= item.expectedQuantity,
+    );
+
+    await ctx.db.patch(session._id, {
+      startedAt: session.startedAt ?? now,
+      sessionStatusTypeId: sessionComplete
+        ? await ensureSystemLookup(
+            ctx,
+            "SessionStatus",
+            "COMPLETED",
+            "Completed",
+            "Session has been completed",
+          )
+        : await ensureSystemLookup(
+            ctx,
+            "SessionStatus",
+            "IN_PROGRESS",
+            "In Progress",
+            "Session is currently in progress",
+          ),
+      completedAt: sessionComplete ? now : undefined,
+    });
+
+    // Move the order to Picked once every pick line is done
+    const orderSessions = await ctx.db
+      .query("work_sessions")
+      .withIndex("outboundOrderId", (q) =>
+        q.eq("outboundOrderId", session.outboundOrderId!),
+      )
+      .collect();
+    let orderPicked = true;
+    for (const orderSession of orderSessions) {
+      const statusCode =
+        orderSession._id === session._id
+          ? sessionComplete
+            ? "COMPLETED"
+            : "IN_PROGRESS"
+          : await getLookupCode(ctx, orderSession.sessionStatusTypeId);
+      if (statusCode !== "COMPLETED" && statusCode !== "CANCELLED") {
+        orderPicked = false;
+      }
+    }
+    if (orderPicked) {
+      await ctx.db.patch(session.outboundOrderId, {
+        outboundStatusTypeId: await ensureOutboundStatus(ctx, "PICKED"),
+      });
+    }
+
+    return {
+      success: true,
+      actualQuantity: newActual,
+      sessionComplete,
+      orderPicked,
+    };
+  },
+});
+
+/**
+ * Record packed quantities for an order
+ * Packed quantity of a line can never exceed its picked quantity
+ * Packing an order still being picked closes its open picking sessions, so
+ * no pick lands after the order is packed
+ */
+export const packOutboundOrder = mutation({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+    lines: v.optional(
+      v.array(
+        v.object({
+          detailId: v.id("outbound_order_details"),
+          quantityPacked: v.number(),
+        }),
+      ),
+    ), // Defaults to packing everything that was picked
+  },
+  handler: async (ctx, args) => {
+    const order = await getOrderInStatus(ctx, args.outboundOrderId, [
+      "PROCESSING",
+      "PICKED",
+    ]);
+    const details = await getOrderDetails(ctx, order._id);
+
+    const packedByDetail = new Map<Id<"outbound_order_details">, number>(
+      args.lines
+        ? args.lines.map((l) => [l.detailId, l.quantityPacked])
+        : details.map((d) => [d._id, d.quantityPicked]),
+    );
+
+    for (const [detailId, quantityPacked] of packedByDetail) {
+      const detail = details.find((d) => d._id === detailId);
+      if (!detail) {
+        throw new Error("Line does not belong to this outbound order");
+      }
+      if (quantityPacked < 0 || quantityPacked > detail.quantityPicked) {
+        throw new Error(
+          "Packed quantity must be between 0 and the picked quantity",
+        );
+      }
+      await ctx.db.patch(detailId, { quantityPacked });
+    }
+
+    const totalPacked = details.reduce(
+      (sum, d) => sum + (packedByDetail.get(d._id) ?? d.quantityPacked),
+      0,
+    );
+    if (totalPacked === 0) {
+      throw new Error("Nothing has been packed for this order");
+    }
+
+    await closePickingSessions(ctx, order._id);
+    await ctx.db.patch(order._id, {
+      outboundStatusTypeId: await ensureOutboundStatus(ctx, "PACKED"),
+    });
+
+    return { success: true, totalPacked };
+  },
+});
+
+/**
+ * Ship a packed order with a carrier tracking number
+ * Any picking sessions still open are closed; unpicked allocations are released
+ */
+export const shipOutboundOrder = mutation({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+    trackingNumber: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const trackingNumber = args.trackingNumber.trim();
+    if (!trackingNumber) {
+      throw new Error("Tracking number is required");
+    }
+
+    const order = await getOrderInStatus(ctx, args.outboundOrderId, ["PACKED"]);
+    await closePickingSessions(ctx, order._id);
+
+    await ctx.db.patch(order._id, {
+      trackingNumber,
+      outboundStatusTypeId: await ensureOutboundStatus(ctx, "SHIPPED"),
+    });
+
+    return { success: true, trackingNumber };
+  },
+});
+
+/**
+ * Cancel an order that has not been picked yet
+ * Cancels its picking sessions, which releases the soft reservations
+ */
+export const cancelOutboundOrder = mutation({
+  args: {
+    outboundOrderId: v.id("outbound_orders"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const order = await getOrderInStatus(ctx, args.outboundOrderId, [
+      "PENDING",
+      "PROCESSING",
+    ]);
+
+    const details = await getOrderDetails(ctx, order._id);
+    if (details.some((d) => d.quantityPicked > 0)) {
+      throw new Error(
+        "Cannot cancel an order with picked stock; return the picked stock first",
+      );
+    }
+
+    const cancelledSessionStatusId = await ensureSystemLookup(
+      ctx,
+      "SessionStatus",
+      "CANCELLED",
+      "Cancelled",
+      "Session has been cancelled",
+    );
+    const sessions = await ctx.db
+      .query("work_sessions")
+      .withIndex("outboundOrderId", (q) => q.eq("outboundOrderId", order._id))
+      .collect();
+    for (const session of sessions) {
+      await ctx.db.patch(session._id, {
+        sessionStatusTypeId: cancelledSessionStatusId,
+        rejectionReason: args.reason,
+      });
+    }
+
+    await ctx.db.patch(order._id, {
+      outboundStatusTypeId: await ensureOutboundStatus(ctx, "CANCELLED"),
+    });
+
+    return { success: true };
+  },
+});
@@ -10,6 +10,8 @@
  * NOTES:
  * - Products have variants (SKU level)
  * - Each variant can have multiple barcodes
+ * - Barcode lookups fall back to SKU codes so printed SKU labels scan too
+ * - GS1-128 / DataMatrix codes are parsed (see gs1.ts) and matched on GTIN
  * - Product belongs to a category and brand
  * - Soft delete supported
  *
@@ -23,7 +25,86 @@
 import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
-import { mutation, query } from "./_generated/server";
+import { mutation, type QueryCtx, query } from "./_generated/server";
+import {
+  gtinCandidates,
+  hasValidCheckDigit,
+  isGs1ElementString,
+  parseGs1ElementString,
+} from "./gs1";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolve a scanned value to its variant and product
+ * GS1 element strings are parsed and matched on their GTIN; other values
+ * match product_barcodes, then variant SKU codes. Numeric GTINs also match
+ * barcodes stored at another GTIN length (UPC-A stored as EAN-13, etc).
+ * Deleted variants and products, and those of other organizations, are
+ * skipped.
+ */
+export async function resolveBarcode(
+  ctx: QueryCtx,
+  value: string,
+  organizationId?: Id<"organizations">,
+) {
+  const code = value.trim();
+  if (!code) return null;
+
+  const gs1 = isGs1ElementString(code) ? parseGs1ElementString(code) : null;
+  if (gs1 && !gs1.gtin) {
+    throw new Error(
+      "Invalid GS1 code: no GTIN (AI 01 or 02) to identify the product",
+    );
+  }
+
+  const loadVariant = async (skuId: Id<"product_variants">) => {
+    const variant = await ctx.db.get(skuId);
+    if (!variant || variant.isDeleted) return null;
+
+    const product = await ctx.db.get(variant.productId);
+    if (!product || product.isDeleted) return null;
+    if (organizationId && product.organizationId !== organizationId) {
+      return null;
+    }
+    return { product, variant };
+  };
+
+  const lookupValue = gs1?.gtin ?? code;
+  const barcodeValues =
+    /^\d{8,14}$/.test(lookupValue) && hasValidCheckDigit(lookupValue)
+      ? [
+          ...new Set([
+            lookupValue,
+            ...gtinCandidates(lookupValue.padStart(14, "0")),
+          ]),
+        ]
+      : [lookupValue];
+
+  for (const barcodeValue of barcodeValues) {
+    const barcodes = await ctx.db
+      .query("product_barcodes")
+      .withIndex("barcodeValue", (q) => q.eq("barcodeValue", barcodeValue))
+      .collect();
+    for (const barcode of barcodes) {
+      const match = await loadVariant(barcode.skuId);
+      if (match) return { ...match, barcode, gs1 };
+    }
+  }
+
+  const variants = await ctx.db
+    .query("product_variants")
+    .withIndex("skuCode", (q) => q.eq("skuCode", lookupValue))
+    .collect();
+  for (const variant of variants) {
+    const match = await loadVariant(variant._id);
+    if (match) return { ...match, barcode: null, gs1 };
+  }
+
+  return null;
+}
 
 // ============================================================================
 // PRODUCT QUERIES
@@ -216,39 +297,74 @@ export const search = query({
 });
 
 /**
- * SEARCH BY BARCODE - Find product by barcode value
+ * SEARCH VARIANTS - Search SKUs by code or product name
+ * Used by order and transfer forms to pick line items
  */
-export const searchByBarcode = query({
+export const searchVariants = query({
   args: {
-    barcodeValue: v.string(),
+    organizationId: v.id("organizations"),
+    searchTerm: v.string(),
+    limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const barcode = await ctx.db
-      .query("product_barcodes")
-      .withIndex("barcodeValue", (q) => q.eq("barcodeValue", args.barcodeValue))
-      .first();
+    const { organizationId, searchTerm, limit = 20 } = args;
 
-    if (!barcode) {
-      return null;
-    }
+    const products = await ctx.db
+      .query("products")
+      .withIndex("organizationId", (q) =>
+        q.eq("organizationId", organizationId),
+      )
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .collect();
 
-    // Get variant
-    const variant = await ctx.db.get(barcode.skuId);
-    if (!variant || variant.isDeleted) {
-      return null;
-    }
+    const searchLower = searchTerm.toLowerCase();
+    const results: {
+      skuId: Id<"product_variants">;
+      skuCode: string;
+      productName: string;
+    }[] = [];
+
+    for (const product of products) {
+      const variants = await ctx.db
+        .query("product_variants")
+        .withIndex("productId", (q) => q.eq("productId", product._id))
+        .filter((q) => q.eq(q.field("isDeleted"), false))
+        .collect();
+
+      for (const variant of variants) {
+        if (
+          variant.skuCode.toLowerCase().includes(searchLower) ||
+          product.name.toLowerCase().includes(searchLower)
+        ) {
+          results.push({
+            skuId: variant._id,
+            skuCode: variant.skuCode,
+            productName: product.name,
+          });
+        }
+      }
 
-    // Get product
-    const product = await ctx.db.get(variant.productId);
-    if (!product || product.isDeleted) {
-      return null;
+      if (results.length >= limit) break;
     }
 
-    return {
-      product,
-      variant,
-      barcode,
-    };
+    return results.slice(0, limit);
+  },
+});
+
+/**
+ * SEARCH BY BARCODE - Find product by barcode value
+ * Scanners also read printed SKU codes, so a value with no barcode falls
+ * back to a SKU code match. GS1 element strings resolve on their GTIN and
+ * return the parsed lot, dates, serial and count in gs1. Pass
+ * organizationId to ignore other tenants' codes.
+ */
+export const searchByBarcode = query({
+  args: {
+    barcodeValue: v.string(),
+    organizationId: v.optional(v.id("organizations")),
+  },
+  handler: async (ctx, args) => {
+    return await resolveBarcode(ctx, args.barcodeValue, args.organizationId);
   },
 });
 
@@ -1,5 +1,440 @@
+/**
+ * PURCHASE ORDERS API - Ordering stock from suppliers
+ *
+ * WHO CAN USE:
+ * ✅ Purchasing / Warehouse Manager - create, amend, submit, send, close
+ * ✅ Admin - approve, reject, cancel
+ * ⚠️ Staff - read only (receiving uses receiveSessions)
+ *
+ * NOTES:
+ * - Lifecycle (PurchaseOrderStatus lookup codes):
+ *   DRAFT → PENDING (approval) → APPROVED → SENT → PARTIALLY_RECEIVED
+ *   → RECEIVED, with CLOSED_SHORT and CANCELLED as the other end states
+ * - Transitions are checked here; the receive flow moves SENT orders to
+ *   PARTIALLY_RECEIVED / RECEIVED through syncPurchaseOrderReceipt
+ * - Lines can be amended until receiving starts (no receive session and
+ *   nothing received). Each amendment bumps the version and stores a
+ *   snapshot in purchase_order_versions; amending an approved or sent
+ *   order sends it back for approval
+ * - Cancelling is only possible before anything is received; a partially
+ *   received order is closed short instead
+ * - Every status change is written to audit_logs
+ */
+
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { logAudit } from "./audit";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const PURCHASE_ORDER_STATUSES: Record<
+  string,
+  { value: string; description: string }
+> = {
+  DRAFT: { value: "Draft", description: "Purchase order is being prepared" },
+  PENDING: {
+    value: "Pending",
+    description: "Purchase order is pending approval",
+  },
+  APPROVED: {
+    value: "Approved",
+    description: "Purchase order has been approved",
+  },
+  SENT: { value: "Sent", description: "Purchase order sent to the supplier" },
+  PARTIALLY_RECEIVED: {
+    value: "Partially Received",
+    description: "Part of the purchase order has been received",
+  },
+  RECEIVED: {
+    value: "Received",
+    description: "Purchase order has been received",
+  },
+  CLOSED_SHORT: {
+    value: "Closed Short",
+    description: "Purchase order closed without receiving every line in full",
+  },
+  CANCELLED: {
+    value: "Cancelled",
+    description: "Purchase order has been cancelled",
+  },
+};
+
+const PURCHASE_ORDER_TRANSITIONS: Record<string, string[]> = {
+  DRAFT: ["PENDING", "CANCELLED"],
+  PENDING: ["APPROVED", "DRAFT", "CANCELLED"],
+  APPROVED: ["SENT", "CANCELLED"],
+  SENT: ["PARTIALLY_RECEIVED", "RECEIVED", "CANCELLED"],
+  PARTIALLY_RECEIVED: ["RECEIVED", "CLOSED_SHORT"],
+  RECEIVED: [],
+  CLOSED_SHORT: [],
+  CANCELLED: [],
+};
+
+/** Statuses a receive session can be opened against */
+export const RECEIVABLE_PURCHASE_ORDER_STATUSES = [
+  "SENT",
+  "PARTIALLY_RECEIVED",
+];
+
+const AMENDABLE_STATUSES = ["DRAFT", "PENDING", "APPROVED", "SENT"];
+
+/** Statuses whose outstanding lines count as stock on order */
+export const OPEN_PURCHASE_ORDER_STATUSES = [
+  "DRAFT",
+  "PENDING",
+  "APPROVED",
+  "SENT",
+  "PARTIALLY_RECEIVED",
+];
+
+type PurchaseOrderItemInput = {
+  variantId: Id<"product_variants">;
+  quantity: number;
+  unitPrice: number;
+};
+
+/**
+ * Internal helper to get the lookup ID of a purchase order status code
+ */
+export async function ensurePurchaseOrderStatus(
+  ctx: MutationCtx,
+  code: string,
+): Promise<Id<"system_lookups">> {
+  const status = PURCHASE_ORDER_STATUSES[code];
+  if (!status) {
+    throw new Error(`Unknown purchase order status: ${code}`);
+  }
+  return await ensureSystemLookup(
+    ctx,
+    "PurchaseOrderStatus",
+    code,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Actions the UI may offer for an order in the given state
+ */
+function getAvailableActions(statusCode: string, receivingStarted: boolean) {
+  const next = PURCHASE_ORDER_TRANSITIONS[statusCode] ?? [];
+  const actions: string[] = [];
+  if (AMENDABLE_STATUSES.includes(statusCode) && !receivingStarted) {
+    actions.push("AMEND");
+  }
+  if (statusCode === "DRAFT") actions.push("SUBMIT");
+  if (statusCode === "PENDING") actions.push("APPROVE", "REJECT");
+  if (next.includes("SENT")) actions.push("SEND");
+  if (next.includes("CANCELLED") && !receivingStarted) actions.push("CANCEL");
+  if (next.includes("CLOSED_SHORT")) actions.push("CLOSE_SHORT");
+  return actions;
+}
+
+/**
+ * Whether receiving has started: a receive session exists or a line has
+ * received stock
+ */
+async function hasReceivingStarted(
+  ctx: MutationCtx,
+  purchaseOrderId: Id<"purchase_orders">,
+  details: Doc<"purchase_order_details">[],
+) {
+  if (details.some((detail) => detail.quantityReceived > 0)) {
+    return true;
+  }
+  const session = await ctx.db
+    .query("receive_sessions")
+    .withIndex("purchaseOrderId", (q) =>
+      q.eq("purchaseOrderId", purchaseOrderId),
+    )
+    .first();
+  return !!session;
+}
+
+async function getOrderDetails(
+  ctx: MutationCtx,
+  purchaseOrderId: Id<"purchase_orders">,
+) {
+  return await ctx.db
+    .query("purchase_order_details")
+    .withIndex("purchaseOrderId", (q) =>
+      q.eq("purchaseOrderId", purchaseOrderId),
+    )
+    .collect();
+}
+
+function validateItems(items: PurchaseOrderItemInput[]) {
+  if (!items || items.length === 0) {
+    throw new Error("Purchase order must contain at least one item");
+  }
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (item.quantity <= 0) {
+      throw new Error("Item quantity must be greater than 0");
+    }
+    if (item.unitPrice < 0) {
+      throw new Error("Unit price cannot be negative");
+    }
+    if (seen.has(item.variantId)) {
+      throw new Error("Each product variant can only appear once per order");
+    }
+    seen.add(item.variantId);
+  }
+}
+
+/**
+ * Store a snapshot of the order's current lines as the given version
+ */
+async function recordVersion(
+  ctx: MutationCtx,
+  order: Doc<"purchase_orders">,
+  version: number,
+  userId: Id<"users">,
+  reason?: string,
+) {
+  const details = await getOrderDetails(ctx, order._id);
+  await ctx.db.insert("purchase_order_versions", {
+    purchaseOrderId: order._id,
+    version,
+    items: details.map((detail) => ({
+      skuId: detail.skuId,
+      quantityOrdered: detail.quantityOrdered,
+      unitCost: detail.unitCost,
+    })),
+    expectedDeliveryAt: order.expectedDeliveryAt,
+    note: order.note,
+    reason,
+    changedByUserId: userId,
+    changedAt: Date.now(),
+  });
+}
+
+/**
+ * Record a purchase order status change in the audit log
+ */
+async function logStatusChange(
+  ctx: MutationCtx,
+  order: Doc<"purchase_orders">,
+  fromCode: string,
+  toCode: string,
+  args: { userId?: Id<"users">; notes?: string },
+) {
+  const actionTypeId = await ensureSystemLookup(
+    ctx,
+    "AuditAction",
+    "STATUS_CHANGE",
+    "Status Change",
+    "Record status changed",
+  );
+  await logAudit(ctx, {
+    organizationId: order.organizationId,
+    userId: args.userId,
+    actionTypeId,
+    entityType: "purchase_orders",
+    entityId: order._id,
+    fieldName: "purchaseOrderStatusTypeId",
+    oldValue: fromCode,
+    newValue: toCode,
+    notes: args.notes,
+  });
+}
+
+/**
+ * Move an order to a new status after checking the transition is allowed,
+ * and record the change in the audit log
+ */
+async function transitionPurchaseOrder(
+  ctx: MutationCtx,
+  args: {
+    order: Doc<"purchase_orders">;
+    toCode: string;
+    userId?: Id<"users">;
+    patch?: Partial<Doc<"purchase_orders">>;
+    notes?: string;
+  },
+) {
+  const fromCode =
+    (await getLookupCode(ctx, args.order.purchaseOrderStatusTypeId)) ??
+    "UNKNOWN";
+  if (!(PURCHASE_ORDER_TRANSITIONS[fromCode] ?? []).includes(args.toCode)) {
+    throw new Error(
+      `Cannot move purchase order ${args.order.code} from ${fromCode} to ${args.toCode}`,
+    );
+  }
+
+  const statusId = await ensurePurchaseOrderStatus(ctx, args.toCode);
+  await ctx.db.patch(args.order._id, {
+    ...args.patch,
+    purchaseOrderStatusTypeId: statusId,
+  });
+  await logStatusChange(ctx, args.order, fromCode, args.toCode, {
+    userId: args.userId,
+    notes: args.notes,
+  });
+
+  return { orderId: args.order._id, fromCode, statusCode: args.toCode };
+}
+
+async function getActiveOrder(
+  ctx: MutationCtx,
+  orderId: Id<"purchase_orders">,
+) {
+  const order = await ctx.db.get(orderId);
+  if (!order || order.isDeleted) {
+    throw new Error("Purchase order not found");
+  }
+  return order;
+}
+
+/**
+ * Internal helper to bring a purchase order's status in line with what has
+ * been received. Called by the receive flow after quantities change.
+ *
+ * Process:
+ * 1. Skips orders that are not open for receiving
+ * 2. RECEIVED when every line is received in full, otherwise
+ *    PARTIALLY_RECEIVED once anything has been received
+ */
+export async function syncPurchaseOrderReceipt(
+  ctx: MutationCtx,
+  purchaseOrderId: Id<"purchase_orders">,
+  userId?: Id<"users">,
+) {
+  // Step 1: Only orders open for receiving
+  const order = await ctx.db.get(purchaseOrderId);
+  if (!order) return null;
+  const statusCode = await getLookupCode(ctx, order.purchaseOrderStatusTypeId);
+  if (!statusCode || !RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(statusCode)) {
+    return statusCode;
+  }
+
+  // Step 2: Derive the status from the lines
+  const details = await getOrderDetails(ctx, purchaseOrderId);
+  const fullyReceived = details.every(
+    (detail) => detail.quantityReceived >= detail.quantityOrdered,
+  );
+  const anyReceived = details.some((detail) => detail.quantityReceived > 0);
+
+  const toCode = fullyReceived
+    ? "RECEIVED"
+    : anyReceived
+      ? "PARTIALLY_RECEIVED"
+      : statusCode;
+  if (toCode === statusCode) return statusCode;
+
+  await transitionPurchaseOrder(ctx, {
+    order,
+    toCode,
+    userId,
+    patch: toCode === "RECEIVED" ? { closedAt: Date.now() } : undefined,
+    notes: "Updated from receiving",
+  });
+  return toCode;
+}
+
+/**
+ * Internal helper to create a draft purchase order (version 1).
+ * Shared by createPurchaseOrder and replenishment.
+ */
+export async function createDraftPurchaseOrder(
+  ctx: MutationCtx,
+  args: {
+    receivingBranchId: Id<"branches">;
+    userId: Id<"users">;
+    supplierId: Id<"suppliers">;
+    note?: string;
+    expectedDeliveryAt?: number;
+    items: PurchaseOrderItemInput[];
+  },
+) {
+  validateItems(args.items);
+
+  // Get branch to verify it exists and get organizationId
+  const branch = await ctx.db.get(args.receivingBranchId);
+  if (!branch) {
+    throw new Error("Branch not found");
+  }
+
+  // Verify supplier exists
+  const supplier = await ctx.db.get(args.supplierId);
+  if (!supplier) {
+    throw new Error("Supplier not found");
+  }
+
+  const draftStatusId = await ensurePurchaseOrderStatus(ctx, "DRAFT");
+
+  // Generate purchase order code (format: PO-YYYYMMDD-XXXX)
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  // Get count of orders today to generate sequence number
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+  const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
+
+  const todayOrders = await ctx.db
+    .query("purchase_orders")
+    .withIndex("organizationId", (q) =>
+      q.eq("organizationId", branch.organizationId),
+    )
+    .filter((q) =>
+      q.and(
+        q.gte(q.field("orderedAt"), startOfDay),
+        q.lte(q.field("orderedAt"), endOfDay),
+      ),
+    )
+    .collect();
+
+  const sequence = (todayOrders.length + 1).toString().padStart(4, "0");
+  const code = `PO-${dateStr}-${sequence}`;
+
+  // Calculate expected delivery date (use supplier's default lead time)
+  const expectedDeliveryAt =
+    args.expectedDeliveryAt ??
+    now + supplier.defaultLeadTimeDays * 24 * 60 * 60 * 1000;
+
+  // Insert purchase order
+  const orderId = await ctx.db.insert("purchase_orders", {
+    organizationId: branch.organizationId,
+    branchId: args.receivingBranchId,
+    code,
+    supplierId: args.supplierId,
+    orderedAt: now,
+    expectedDeliveryAt,
+    createdByUserId: args.userId,
+    purchaseOrderStatusTypeId: draftStatusId,
+    note: args.note,
+    version: 1,
+    isDeleted: false,
+  });
+
+  // Insert purchase order details for each item
+  for (const item of args.items) {
+    await ctx.db.insert("purchase_order_details", {
+      purchaseOrderId: orderId,
+      skuId: item.variantId,
+      quantityOrdered: item.quantity,
+      unitCost: item.unitPrice,
+      quantityReceived: 0,
+    });
+  }
+
+  const order = await ctx.db.get(orderId);
+  if (order) {
+    await recordVersion(ctx, order, 1, args.userId, "Created");
+  }
+
+  return { orderId, code };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
 
 /**
  * Get product variants by supplier (brand)
@@ -57,130 +492,9 @@ export const getProductVariantsBySupplier = query({
 });
 
 /**
- * Create a new purchase order
- */
-export const createPurchaseOrder = mutation({
-  args: {
-    receivingBranchId: v.id("branches"),
-    userId: v.id("users"),
-    supplierId: v.id("suppliers"),
-    note: v.optional(v.string()),
-    items: v.array(
-      v.object({
-        variantId: v.id("product_variants"),
-        quantity: v.number(),
-        unitPrice: v.number(),
-      }),
-    ),
-  },
-  handler: async (ctx, args) => {
-    // Authenticate user
-
-    // Validate items array is not empty
-    if (!args.items || args.items.length === 0) {
-      throw new Error("Purchase order must contain at least one item");
-    }
-
-    // Validate quantities are positive
-    for (const item of args.items) {
-      if (item.quantity <= 0) {
-        throw new Error("Item quantity must be greater than 0");
-      }
-      if (item.unitPrice < 0) {
-        throw new Error("Unit price cannot be negative");
-      }
-    }
-
-    // Get branch to verify it exists and get organizationId
-    const branch = await ctx.db.get(args.receivingBranchId);
-    if (!branch) {
-      throw new Error("Branch not found");
-    }
-
-    // Verify supplier exists
-    const supplier = await ctx.db.get(args.supplierId);
-    if (!supplier) {
-      throw new Error("Supplier not found");
-    }
-
-    // Get the "Pending" status from system_lookups
-    const pendingStatus = await ctx.db
-      .query("system_lookups")
-      .filter((q) =>
-        q.and(
-          q.eq(q.field("lookupType"), "PurchaseOrderStatus"),
-          q.eq(q.field("lookupValue"), "Pending"),
-        ),
-      )
-      .first();
-
-    if (!pendingStatus) {
-      throw new Error("Pending status not found in system lookups");
-    }
-
-    // Generate purchase order code (format: PO-YYYYMMDD-XXXX)
-    const now = Date.now();
-    const date = new Date(now);
-    const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
-
-    // Get count of orders today to generate sequence number
-    const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
-    const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
-
-    const todayOrders = await ctx.db
-      .query("purchase_orders")
-      .withIndex("organizationId", (q) =>
-        q.eq("organizationId", branch.organizationId),
-      )
-      .filter((q) =>
-        q.and(
-          q.gte(q.field("orderedAt"), startOfDay),
-          q.lte(q.field("orderedAt"), endOfDay),
-        ),
-      )
-      .collect();
-
-    const sequence = (todayOrders.length + 1).toString().padStart(4, "0");
-    const code = `PO-${dateStr}-${sequence}`;
-
-    // Calculate expected delivery date (use supplier's default lead time)
-    const expectedDeliveryAt =
-      now + supplier.defaultLeadTimeDays * 24 * 60 * 60 * 1000;
-
-    // Insert purchase order
-    const orderId = await ctx.db.insert("purchase_orders", {
-      organizationId: branch.organizationId,
-      branchId: args.receivingBranchId,
-      code,
-      supplierId: args.supplierId,
-      orderedAt: now,
-      expectedDeliveryAt,
-      createdByUserId: args.userId,
-      purchaseOrderStatusTypeId: pendingStatus._id,
-      isDeleted: false,
-    });
-
-    // Insert purchase order details for each item
-    for (const item of args.items) {
-      await ctx.db.insert("purchase_order_details", {
-        purchaseOrderId: orderId,
-        skuId: item.variantId,
-        quantityOrdered: item.quantity,
-        unitCost: item.unitPrice,
-        quantityReceived: 0,
-      });
-    }
-
-    return {
-      success: true,
-      orderId,
-      code,
-    };
-  },
-});
-
-/**
- * Get all purchase orders for an organization
+ * Get all purchase orders for a branch
+ * Includes status code, line totals and the actions allowed in the
+ * current state
  */
 export const listPurchaseOrders = query({
   args: {
@@ -195,18 +509,52 @@ export const listPurchaseOrders = query({
       .order("desc")
       .collect();
 
-    // Enrich with supplier and branch names
+    // Enrich with supplier, status and line totals
     const enrichedOrders = await Promise.all(
       orders.map(async (order) => {
         const supplier = await ctx.db.get(order.supplierId);
         const branch = await ctx.db.get(order.branchId);
         const status = await ctx.db.get(order.purchaseOrderStatusTypeId);
+        const createdBy = await ctx.db.get(order.createdByUserId);
+        const details = await ctx.db
+          .query("purchase_order_details")
+          .withIndex("purchaseOrderId", (q) =>
+            q.eq("purchaseOrderId", order._id),
+          )
+          .collect();
+        const session = await ctx.db
+          .query("receive_sessions")
+          .withIndex("purchaseOrderId", (q) =>
+            q.eq("purchaseOrderId", order._id),
+          )
+          .first();
+
+        const statusCode = status?.lookupCode ?? "UNKNOWN";
+        const receivingStarted =
+          !!session || details.some((d) => d.quantityReceived > 0);
 
         return {
           ...order,
+          version: order.version ?? 1,
           supplierName: supplier?.name ?? "Unknown",
           branchName: branch?.name ?? "Unknown",
           statusName: status?.lookupValue ?? "Unknown",
+          statusCode,
+          createdByName: createdBy?.fullName ?? "Unknown",
+          lineCount: details.length,
+          quantityOrdered: details.reduce(
+            (sum, d) => sum + d.quantityOrdered,
+            0,
+          ),
+          quantityReceived: details.reduce(
+            (sum, d) => sum + d.quantityReceived,
+            0,
+          ),
+          totalCost: details.reduce(
+            (sum, d) => sum + d.quantityOrdered * d.unitCost,
+            0,
+          ),
+          availableActions: getAvailableActions(statusCode, receivingStarted),
         };
       }),
     );
@@ -264,13 +612,362 @@ export const getPurchaseOrderById = query({
     const supplier = await ctx.db.get(order.supplierId);
     const branch = await ctx.db.get(order.branchId);
     const status = await ctx.db.get(order.purchaseOrderStatusTypeId);
+    const approvedBy = order.approvedByUserId
+      ? await ctx.db.get(order.approvedByUserId)
+      : null;
 
     return {
       ...order,
+      version: order.version ?? 1,
       supplierName: supplier?.name ?? "Unknown",
       branchName: branch?.name ?? "Unknown",
       statusName: status?.lookupValue ?? "Unknown",
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      approvedByName: approvedBy?.fullName,
       items: enrichedDetails,
     };
   },
 });
+
+/**
+ * Version history of a purchase order, newest first, with SKU details
+ */
+export const getPurchaseOrderVersions = query({
+  args: {
+    orderId: v.id("purchase_orders"),
+  },
+  handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("purchase_order_versions")
+      .withIndex("purchaseOrderId_version", (q) =>
+        q.eq("purchaseOrderId", args.orderId),
+      )
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      versions.map(async (version) => {
+        const changedBy = await ctx.db.get(version.changedByUserId);
+        const items = await Promise.all(
+          version.items.map(async (item) => {
+            const variant = await ctx.db.get(item.skuId);
+            const product = variant
+              ? await ctx.db.get(variant.productId)
+              : null;
+            return {
+              ...item,
+              skuCode: variant?.skuCode ?? "Unknown",
+              productName: product?.name ?? "Unknown",
+            };
+          }),
+        );
+
+        return {
+          ...version,
+          items,
+          changedByName: changedBy?.fullName ?? "Unknown",
+          totalCost: version.items.reduce(
+            (sum, item) => sum + item.quantityOrdered * item.unitCost,
+            0,
+          ),
+        };
+      }),
+    );
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Create a new purchase order as a draft (version 1)
+ */
+export const createPurchaseOrder = mutation({
+  args: {
+    receivingBranchId: v.id("branches"),
+    userId: v.id("users"),
+    supplierId: v.id("suppliers"),
+    note: v.optional(v.string()),
+    expectedDeliveryAt: v.optional(v.number()),
+    items: v.array(
+      v.object({
+        variantId: v.id("product_variants"),
+        quantity: v.number(),
+        unitPrice: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { orderId, code } = await createDraftPurchaseOrder(ctx, args);
+
+    return {
+      success: true,
+      orderId,
+      code,
+    };
+  },
+});
+
+/**
+ * Replace the lines of a purchase order before receiving starts
+ *
+ * Process:
+ * 1. Checks the order can still be amended
+ * 2. Snapshots the original lines when the order predates versioning
+ * 3. Updates, adds and removes lines to match the new item list
+ * 4. Bumps the version and records the new snapshot
+ * 5. Approved or sent orders go back to pending approval
+ */
+export const amendPurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+    note: v.optional(v.string()),
+    expectedDeliveryAt: v.optional(v.number()),
+    reason: v.optional(v.string()),
+    items: v.array(
+      v.object({
+        variantId: v.id("product_variants"),
+        quantity: v.number(),
+        unitPrice: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    validateItems(args.items);
+
+    // Step 1: Check the order is still amendable
+    const order = await getActiveOrder(ctx, args.orderId);
+    const statusCode =
+      (await getLookupCode(ctx, order.purchaseOrderStatusTypeId)) ?? "UNKNOWN";
+    if (!AMENDABLE_STATUSES.includes(statusCode)) {
+      throw new Error(
+        `Purchase order ${order.code} cannot be amended while ${statusCode}`,
+      );
+    }
+
+    const details = await getOrderDetails(ctx, order._id);
+    if (await hasReceivingStarted(ctx, order._id, details)) {
+      throw new Error(
+        `Receiving has started for ${order.code}; lines can no longer be changed`,
+      );
+    }
+
+    // Step 2: Keep the pre-versioning lines as version 1
+    const currentVersion = order.version ?? 1;
+    if (order.version === undefined) {
+      await recordVersion(ctx, order, 1, order.createdByUserId, "Original");
+    }
+
+    // Step 3: Sync lines by SKU
+    const bySku = new Map(details.map((detail) => [detail.skuId, detail]));
+    for (const item of args.items) {
+      const existing = bySku.get(item.variantId);
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          quantityOrdered: item.quantity,
+          unitCost: item.unitPrice,
+        });
+        bySku.delete(item.variantId);
+      } else {
+        await ctx.db.insert("purchase_order_details", {
+          purchaseOrderId: order._id,
+          skuId: item.variantId,
+          quantityOrdered: item.quantity,
+          unitCost: item.unitPrice,
+          quantityReceived: 0,
+        });
+      }
+    }
+    for (const removed of bySku.values()) {
+      await ctx.db.delete(removed._id);
+    }
+
+    // Step 4: New version
+    const version = currentVersion + 1;
+    await ctx.db.patch(order._id, {
+      version,
+      note: args.note ?? order.note,
+      expectedDeliveryAt: args.expectedDeliveryAt ?? order.expectedDeliveryAt,
+    });
+    const updated = await ctx.db.get(order._id);
+    if (updated) {
+      await recordVersion(ctx, updated, version, args.userId, args.reason);
+    }
+
+    // Step 5: Changes to an approved order need approving again
+    let newStatusCode = statusCode;
+    if (statusCode === "APPROVED" || statusCode === "SENT") {
+      const pendingStatusId = await ensurePurchaseOrderStatus(ctx, "PENDING");
+      await ctx.db.patch(order._id, {
+        purchaseOrderStatusTypeId: pendingStatusId,
+        approvedByUserId: undefined,
+        approvedAt: undefined,
+        sentAt: undefined,
+      });
+      await logStatusChange(ctx, order, statusCode, "PENDING", {
+        userId: args.userId,
+        notes: `Amended to version ${version}; approval required again`,
+      });
+      newStatusCode = "PENDING";
+    }
+
+    return {
+      success: true,
+      orderId: order._id,
+      version,
+      statusCode: newStatusCode,
+    };
+  },
+});
+
+/**
+ * Submit a draft purchase order for approval
+ */
+export const submitPurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const order = await getActiveOrder(ctx, args.orderId);
+    const details = await getOrderDetails(ctx, order._id);
+    if (details.length === 0) {
+      throw new Error("Purchase order has no items");
+    }
+
+    return await transitionPurchaseOrder(ctx, {
+      order,
+      toCode: "PENDING",
+      userId: args.userId,
+      patch: { submittedAt: Date.now() },
+      notes: "Submitted for approval",
+    });
+  },
+});
+
+/**
+ * Approve a purchase order that is pending approval
+ */
+export const approvePurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const order = await getActiveOrder(ctx, args.orderId);
+    return await transitionPurchaseOrder(ctx, {
+      order,
+      toCode: "APPROVED",
+      userId: args.userId,
+      patch: { approvedByUserId: args.userId, approvedAt: Date.now() },
+      notes: "Approved",
+    });
+  },
+});
+
+/**
+ * Send a pending purchase order back to draft
+ */
+export const rejectPurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!args.reason.trim()) {
+      throw new Error("A reason is required to reject a purchase order");
+    }
+
+    const order = await getActiveOrder(ctx, args.orderId);
+    return await transitionPurchaseOrder(ctx, {
+      order,
+      toCode: "DRAFT",
+      userId: args.userId,
+      notes: `Rejected: ${args.reason}`,
+    });
+  },
+});
+
+/**
+ * Mark an approved purchase order as sent to the supplier.
+ * Sent orders are open for receiving.
+ */
+export const sendPurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const order = await getActiveOrder(ctx, args.orderId);
+    return await transitionPurchaseOrder(ctx, {
+      order,
+      toCode: "SENT",
+      userId: args.userId,
+      patch: { sentAt: Date.now() },
+      notes: "Sent to supplier",
+    });
+  },
+});
+
+/**
+ * Cancel a purchase order before anything has been received
+ */
+export const cancelPurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const order = await getActiveOrder(ctx, args.orderId);
+    const details = await getOrderDetails(ctx, order._id);
+    if (await hasReceivingStarted(ctx, order._id, details)) {
+      throw new Error(
+        `Receiving has started for ${order.code}; close it short instead`,
+      );
+    }
+
+    return await transitionPurchaseOrder(ctx, {
+      order,
+      toCode: "CANCELLED",
+      userId: args.userId,
+      patch: { closedAt: Date.now(), closeReason: args.reason },
+      notes: args.reason ? `Cancelled: ${args.reason}` : "Cancelled",
+    });
+  },
+});
+
+/**
+ * Close a partially received purchase order without waiting for the rest
+ */
+export const closeShortPurchaseOrder = mutation({
+  args: {
+    orderId: v.id("purchase_orders"),
+    userId: v.id("users"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!args.reason.trim()) {
+      throw new Error("A reason is required to close a purchase order short");
+    }
+
+    const order = await getActiveOrder(ctx, args.orderId);
+    const details = await getOrderDetails(ctx, order._id);
+    const outstanding = details.reduce(
+      (sum, detail) =>
+        sum + Math.max(detail.quantityOrdered - detail.quantityReceived, 0),
+      0,
+    );
+
+    return await transitionPurchaseOrder(ctx, {
+      order,
+      toCode: "CLOSED_SHORT",
+      userId: args.userId,
+      patch: { closedAt: Date.now(), closeReason: args.reason },
+      notes: `Closed short with ${outstanding} unit(s) outstanding: ${args.reason}`,
+    });
+  },
+});
@@ -0,0 +1,364 @@
+/**
+ * PUTAWAY API - Zone recommendations for received stock
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - read
+ * ✅ Admin - read
+ * ✅ Staff - read (receiving)
+ *
+ * NOTES:
+ * - Candidates are the leaf zones of the branch (zones without child
+ *   zones), excluding receiving and shipping docks
+ * - Hard constraints reject a zone outright:
+ *   - remaining unit, weight (maxWeightKg) or volume (maxVolumeM3)
+ *     capacity from zoneAttributes is too small for the quantity
+ *   - floor zones hold floorPositions × the SKU's stackingLimit units
+ *   - temperature sensitive, COLD or FREEZER products need a
+ *     temperatureControlled zone, and a zone that declares a
+ *     storageRequirement only takes products with that requirement
+ * - Soft factors add up to the score (0-100):
+ *   - consolidation with live batches of the same SKU (40)
+ *   - distance from the dock, zoneAttributes.dockDistance in metres (25)
+ *   - capacity left after putaway (20)
+ *   - zone type: storage over picking (15)
+ *   - normal products in a temperature controlled zone lose 20
+ * - Suggestions are ordered by score, then path, so the ranking is stable
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type QueryCtx, query } from "./_generated/server";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const EXCLUDED_ZONE_TYPES = ["RECEIVING", "SHIPPING"];
+const TEMPERATURE_REQUIREMENTS = ["COLD", "FREEZER"];
+
+const WEIGHTS = {
+  CONSOLIDATION: 40,
+  DOCK_DISTANCE: 25,
+  CAPACITY: 20,
+  ZONE_TYPE: 15,
+  WASTED_TEMPERATURE_CONTROL: 20,
+};
+
+type ZoneAttributes = {
+  capacity?: number;
+  maxWeightKg?: number;
+  maxVolumeM3?: number;
+  floorPositions?: number;
+  temperatureControlled?: boolean;
+  storageRequirement?: string;
+  dockDistance?: number;
+};
+
+export type PutawaySuggestion = {
+  zoneId: Id<"storage_zones">;
+  zoneName: string;
+  zonePath: string;
+  zoneTypeCode: string;
+  score: number;
+  reasons: string[];
+};
+
+export type RejectedZone = {
+  zoneId: Id<"storage_zones">;
+  zoneName: string;
+  zonePath: string;
+  reasons: string[];
+};
+
+/**
+ * Read the numeric and flag attributes putaway cares about
+ */
+function readZoneAttributes(zone: Doc<"storage_zones">): ZoneAttributes {
+  const raw = (zone.zoneAttributes ?? {}) as Record<string, unknown>;
+  const num = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+  return {
+    capacity: num(raw.capacity),
+    maxWeightKg: num(raw.maxWeightKg),
+    maxVolumeM3: num(raw.maxVolumeM3),
+    floorPositions: num(raw.floorPositions),
+    temperatureControlled: raw.temperatureControlled === true,
+    storageRequirement:
+      typeof raw.storageRequirement === "string"
+        ? raw.storageRequirement.toUpperCase()
+        : undefined,
+    dockDistance: num(raw.dockDistance),
+  };
+}
+
+/**
+ * Current load of a zone from its live batches
+ */
+async function getZoneLoad(
+  ctx: QueryCtx,
+  zoneId: Id<"storage_zones">,
+  skuId: Id<"product_variants">,
+) {
+  const batches = await ctx.db
+    .query("inventory_batches")
+    .withIndex("zoneId", (q) => q.eq("zoneId", zoneId))
+    .filter((q) =>
+      q.and(q.eq(q.field("isDeleted"), false), q.gt(q.field("quantity"), 0)),
+    )
+    .collect();
+
+  let units = 0;
+  let weightKg = 0;
+  let volumeM3 = 0;
+  let sameSkuBatches = 0;
+  for (const batch of batches) {
+    const variant = await ctx.db.get(batch.skuId);
+    units += batch.quantity;
+    weightKg += batch.quantity * (variant?.weightKg ?? 0);
+    volumeM3 += batch.quantity * (variant?.volumeM3 ?? 0);
+    if (batch.skuId === skuId) sameSkuBatches++;
+  }
+
+  return { units, weightKg, volumeM3, sameSkuBatches };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rank the zones of a branch for putting away a quantity of a SKU
+ *
+ * Process:
+ * 1. Loads the SKU's physical and storage attributes
+ * 2. Collects the leaf zones of the branch, excluding docks
+ * 3. Rejects zones that break a hard constraint, with the reasons
+ * 4. Scores the remaining zones and orders them best first
+ */
+export async function rankPutawayZones(
+  ctx: QueryCtx,
+  args: {
+    branchId: Id<"branches">;
+    skuId: Id<"product_variants">;
+    quantity: number;
+  },
+): Promise<{ suggestions: PutawaySuggestion[]; rejected: RejectedZone[] }> {
+  // Step 1: SKU attributes
+  const variant = await ctx.db.get(args.skuId);
+  if (!variant) {
+    throw new Error("SKU not found");
+  }
+  const product = await ctx.db.get(variant.productId);
+  const requirement = product
+    ? await ctx.db.get(product.storageRequirementTypeId)
+    : null;
+  const requirementCode = requirement?.lookupCode ?? "NORMAL";
+  const needsTemperatureControl =
+    variant.temperatureSensitive ||
+    TEMPERATURE_REQUIREMENTS.includes(requirementCode);
+
+  // Step 2: Leaf zones of the branch
+  const zones = await ctx.db
+    .query("storage_zones")
+    .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+  const leaves = zones.filter(
+    (zone) => !zones.some((other) => other.path.startsWith(`${zone.path}.`)),
+  );
+
+  const candidates = [];
+  for (const zone of leaves) {
+    const zoneType = await ctx.db.get(zone.zoneTypeId);
+    const zoneTypeCode = zoneType?.lookupCode ?? "UNKNOWN";
+    if (EXCLUDED_ZONE_TYPES.includes(zoneTypeCode)) continue;
+    candidates.push({
+      zone,
+      zoneTypeCode,
+      attributes: readZoneAttributes(zone),
+    });
+  }
+
+  const distances = candidates
+    .map((c) => c.attributes.dockDistance)
+    .filter((d): d is number => d !== undefined);
+  const maxDistance = distances.length ? Math.max(...distances) : 0;
+
+  const suggestions: PutawaySuggestion[] = [];
+  const rejected: RejectedZone[] = [];
+
+  for (const { zone, zoneTypeCode, attributes } of candidates) {
+    const load = await getZoneLoad(ctx, zone._id, args.skuId);
+    const reasons: string[] = [];
+    const violations: string[] = [];
+
+    // Step 3: Hard constraints
+    let unitCapacity = attributes.capacity;
+    if (
+      zone.storageBlockType === "FLOOR" &&
+      attributes.floorPositions !== undefined &&
+      variant.stackingLimit
+    ) {
+      const stacked = attributes.floorPositions * variant.stackingLimit;
+      unitCapacity =
+        unitCapacity === undefined ? stacked : Math.min(unitCapacity, stacked);
+    }
+
+    const unitsLeft =
+      unitCapacity === undefined ? undefined : unitCapacity - load.units;
+    if (unitsLeft !== undefined && unitsLeft < args.quantity) {
+      violations.push(
+        `Only ${Math.max(unitsLeft, 0)} unit(s) of capacity left`,
+      );
+    }
+
+    const weightNeeded = args.quantity * (variant.weightKg ?? 0);
+    const weightLeft =
+      attributes.maxWeightKg === undefined
+        ? undefined
+        : attributes.maxWeightKg - load.weightKg;
+    if (weightLeft !== undefined && weightLeft < weightNeeded) {
+      violations.push(
+        `Needs ${round(weightNeeded)} kg, ${round(Math.max(weightLeft, 0))} kg left`,
+      );
+    }
+
+    const volumeNeeded = args.quantity * (variant.volumeM3 ?? 0);
+    const volumeLeft =
+      attributes.maxVolumeM3 === undefined
+        ? undefined
+        : attributes.maxVolumeM3 - load.volumeM3;
+    if (volumeLeft !== undefined && volumeLeft < volumeNeeded) {
+      violations.push(
+        `Needs ${round(volumeNeeded)} m³, ${round(Math.max(volumeLeft, 0))} m³ left`,
+      );
+    }
+
+    if (needsTemperatureControl && !attributes.temperatureControlled) {
+      violations.push(
+        `Not temperature controlled (${requirement?.lookupValue ?? "temperature sensitive"})`,
+      );
+    }
+    if (
+      attributes.storageRequirement &&
+      attributes.storageRequirement !== requirementCode
+    ) {
+      violations.push(
+        `Reserved for ${attributes.storageRequirement} storage, product is ${requirementCode}`,
+      );
+    }
+
+    if (violations.length > 0) {
+      rejected.push({
+        zoneId: zone._id,
+        zoneName: zone.name,
+        zonePath: zone.path,
+        reasons: violations,
+      });
+      continue;
+    }
+
+    // Step 4: Soft factors
+    let score = 0;
+
+    if (load.sameSkuBatches > 0) {
+      score += WEIGHTS.CONSOLIDATION;
+      reasons.push(
+        `Consolidates with ${load.sameSkuBatches} batch(es) of this SKU`,
+      );
+    }
+
+    if (attributes.dockDistance !== undefined) {
+      const closeness =
+        maxDistance > 0 ? 1 - attributes.dockDistance / maxDistance : 1;
+      score += WEIGHTS.DOCK_DISTANCE * closeness;
+      reasons.push(`${attributes.dockDistance} m from the dock`);
+    } else {
+      score += WEIGHTS.DOCK_DISTANCE / 2;
+    }
+
+    // Tightest of the known capacities decides how full the zone gets
+    const ratios = [
+      unitCapacity && unitsLeft !== undefined
+        ? (unitsLeft - args.quantity) / unitCapacity
+        : undefined,
+      attributes.maxWeightKg && weightLeft !== undefined && weightNeeded > 0
+        ? (weightLeft - weightNeeded) / attributes.maxWeightKg
+        : undefined,
+      attributes.maxVolumeM3 && volumeLeft !== undefined && volumeNeeded > 0
+        ? (volumeLeft - volumeNeeded) / attributes.maxVolumeM3
+        : undefined,
+    ].filter((r): r is number => r !== undefined);
+    if (ratios.length > 0) {
+      const freeAfter = Math.min(...ratios);
+      score += WEIGHTS.CAPACITY * freeAfter;
+      reasons.push(
+        `${Math.round(freeAfter * 100)}% capacity free after putaway`,
+      );
+    } else {
+      score += WEIGHTS.CAPACITY / 2;
+      reasons.push("No capacity limits set");
+    }
+
+    if (zoneTypeCode === "STORAGE") {
+      score += WEIGHTS.ZONE_TYPE;
+    } else if (zoneTypeCode === "PICKING") {
+      score += WEIGHTS.ZONE_TYPE / 3;
+      reasons.push("Pick face");
+    }
+
+    if (needsTemperatureControl) {
+      reasons.push(
+        `Temperature controlled for ${requirement?.lookupValue ?? "temperature sensitive stock"}`,
+      );
+    } else if (attributes.temperatureControlled) {
+      score -= WEIGHTS.WASTED_TEMPERATURE_CONTROL;
+      reasons.push("Uses temperature controlled space for normal stock");
+    }
+
+    suggestions.push({
+      zoneId: zone._id,
+      zoneName: zone.name,
+      zonePath: zone.path,
+      zoneTypeCode,
+      score: Math.round(Math.max(score, 0)),
+      reasons,
+    });
+  }
+
+  suggestions.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (a.zonePath < b.zonePath ? -1 : a.zonePath > b.zonePath ? 1 : 0),
+  );
+
+  return { suggestions, rejected };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Ranked putaway zones for a quantity of a SKU, with the reasons for each
+ * suggestion and for every rejected zone
+ */
+export const getPutawaySuggestions = query({
+  args: {
+    branchId: v.id("branches"),
+    skuId: v.id("product_variants"),
+    quantity: v.number(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    if (args.quantity <= 0) {
+      throw new Error("Quantity must be greater than 0");
+    }
+
+    const { suggestions, rejected } = await rankPutawayZones(ctx, args);
+
+    return {
+      suggestions: suggestions.slice(0, args.limit ?? 5),
+      rejected,
+    };
+  },
+});
@@ -0,0 +1,772 @@
+/**
+ * QUALITY HOLDS API - Quarantine and QC holds on batches and serials
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - place, release and reject holds
+ * ✅ Admin - place, release and reject holds
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - Lifecycle: Held → Released (back into stock) or Rejected (scrapped or
+ *   returned to the supplier through a new return_requests record)
+ * - Placing a hold splits the held quantity off into its own Quarantine
+ *   batch, in a quarantine zone or in place; held serials are Quarantined
+ * - Held batches stay on hand but are excluded from available stock,
+ *   allocation and picking
+ * - Only unreserved quantity can be held, so open picks are never stranded
+ * - Receipts from suppliers flagged requiresInspection are held on arrival
+ * - A hold rejected to a supplier return goes back to Held when that return
+ *   is cancelled or rejected before shipping
+ * - Every movement is an inventory transaction with inventoryHoldId
+ * - Every status change of a hold or serial is written to the audit log
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { logAudit } from "./audit";
+import {
+  applyInventoryChange,
+  ensureBatchStatus,
+  getReservedBatchQuantity,
+  isBatchOnHold,
+  moveBatchQuantity,
+} from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import { createSupplierReturnRequest } from "./returnRequest";
+import {
+  getSerialsInStock,
+  isSerialTracked,
+  type SerialStatusCode,
+  setSerialLocation,
+  takeSerialsFromBatch,
+} from "./serialNumbers";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const HOLD_STATUSES = {
+  HELD: { value: "Held", description: "Stock is on hold awaiting QC" },
+  RELEASED: {
+    value: "Released",
+    description: "Stock passed QC and is back in stock",
+  },
+  REJECTED: {
+    value: "Rejected",
+    description: "Stock failed QC and was scrapped or returned",
+  },
+} as const;
+
+type HoldStatusCode = keyof typeof HOLD_STATUSES;
+
+const HOLD_DISPOSITIONS = {
+  SCRAP: { value: "Scrap", description: "Written off as scrap" },
+  RETURN_TO_VENDOR: {
+    value: "Return to Vendor",
+    description: "Sent back to the supplier",
+  },
+} as const;
+
+const dispositionValidator = v.union(
+  v.literal("SCRAP"),
+  v.literal("RETURN_TO_VENDOR"),
+);
+
+/**
+ * Get the lookup ID for a hold status, creating it if missing
+ */
+async function ensureHoldStatus(
+  ctx: MutationCtx,
+  statusCode: HoldStatusCode,
+): Promise<Id<"system_lookups">> {
+  const status = HOLD_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "HoldStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Write a status change of a hold or serial to the audit log
+ */
+async function logStatusChange(
+  ctx: MutationCtx,
+  args: {
+    organizationId: Id<"organizations">;
+    userId?: Id<"users">;
+    entityType: "inventory_holds" | "serial_numbers";
+    entityId: string;
+    fieldName: string;
+    oldValue: string | null;
+    newValue: string;
+    notes?: string;
+  },
+) {
+  await logAudit(ctx, {
+    ...args,
+    actionTypeId: await ensureSystemLookup(
+      ctx,
+      "AuditAction",
+      "STATUS_CHANGE",
+      "Status Change",
+      "Record status changed",
+    ),
+  });
+}
+
+/**
+ * Move serials to a new status and location, auditing each change
+ */
+async function setSerialsStatus(
+  ctx: MutationCtx,
+  args: {
+    serials: Doc<"serial_numbers">[];
+    toCode: SerialStatusCode;
+    location?: {
+      batchId?: Id<"inventory_batches">;
+      zoneId?: Id<"storage_zones">;
+    };
+    userId: Id<"users">;
+    notes: string;
+  },
+) {
+  for (const serial of args.serials) {
+    const fromCode = await getLookupCode(ctx, serial.serialStatusTypeId);
+    await setSerialLocation(ctx, serial._id, args.toCode, args.location);
+    await logStatusChange(ctx, {
+      organizationId: serial.organizationId,
+      userId: args.userId,
+      entityType: "serial_numbers",
+      entityId: serial._id,
+      fieldName: "serialStatusTypeId",
+      oldValue: fromCode,
+      newValue: args.toCode,
+      notes: args.notes,
+    });
+  }
+}
+
+/**
+ * Load a hold and assert it is still held
+ */
+async function getOpenHold(ctx: MutationCtx, holdId: Id<"inventory_holds">) {
+  const hold = await ctx.db.get(holdId);
+  if (!hold) {
+    throw new Error("Hold not found");
+  }
+
+  const statusCode = await getLookupCode(ctx, hold.holdStatusTypeId);
+  if (statusCode !== "HELD") {
+    throw new Error(
+      `Hold ${hold.holdCode} is ${statusCode ?? "in an unknown status"}; expected HELD`,
+    );
+  }
+
+  return hold;
+}
+
+/**
+ * Move a hold to a new status and record the change in the audit log
+ */
+async function setHoldStatus(
+  ctx: MutationCtx,
+  args: {
+    hold: Doc<"inventory_holds">;
+    toCode: HoldStatusCode;
+    userId: Id<"users">;
+    patch?: Partial<Doc<"inventory_holds">>;
+    notes?: string;
+  },
+) {
+  await ctx.db.patch(args.hold._id, {
+    ...args.patch,
+    holdStatusTypeId: await ensureHoldStatus(ctx, args.toCode),
+    resolvedByUserId: args.userId,
+    resolvedAt: Date.now(),
+    resolutionNotes: args.notes,
+  });
+
+  await logStatusChange(ctx, {
+    organizationId: args.hold.organizationId,
+    userId: args.userId,
+    entityType: "inventory_holds",
+    entityId: args.hold._id,
+    fieldName: "holdStatusTypeId",
+    oldValue: "HELD",
+    newValue: args.toCode,
+    notes: args.notes,
+  });
+}
+
+/**
+ * Internal helper to reopen the holds rejected to a supplier return that
+ * was cancelled or rejected before it shipped. The units never left the
+ * held batch, so each hold goes back to Held for a new disposition.
+ */
+export async function reopenHoldsForReturn(
+  ctx: MutationCtx,
+  args: {
+    returnRequestId: Id<"return_requests">;
+    returnStatusCode: string;
+    userId?: Id<"users">;
+  },
+) {
+  const holds = await ctx.db
+    .query("inventory_holds")
+    .withIndex("returnRequestId", (q) =>
+      q.eq("returnRequestId", args.returnRequestId),
+    )
+    .collect();
+
+  for (const hold of holds) {
+    const fromCode = await getLookupCode(ctx, hold.holdStatusTypeId);
+    if (fromCode !== "REJECTED") continue;
+
+    await ctx.db.patch(hold._id, {
+      holdStatusTypeId: await ensureHoldStatus(ctx, "HELD"),
+      dispositionTypeId: undefined,
+      returnRequestId: undefined,
+      resolvedByUserId: undefined,
+      resolvedAt: undefined,
+      resolutionNotes: undefined,
+    });
+    await logStatusChange(ctx, {
+      organizationId: hold.organizationId,
+      userId: args.userId,
+      entityType: "inventory_holds",
+      entityId: hold._id,
+      fieldName: "holdStatusTypeId",
+      oldValue: fromCode,
+      newValue: "HELD",
+      notes: `Supplier return ${args.returnStatusCode.toLowerCase()}`,
+    });
+  }
+}
+
+/**
+ * Generate a unique hold code
+ * Format: QH-YYYYMMDD-XXXX
+ */
+async function generateHoldCode(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+  const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
+
+  const todayHolds = await ctx.db
+    .query("inventory_holds")
+    .withIndex("organizationId", (q) => q.eq("organizationId", organizationId))
+    .filter((q) =>
+      q.and(
+        q.gte(q.field("placedAt"), startOfDay),
+        q.lte(q.field("placedAt"), endOfDay),
+      ),
+    )
+    .collect();
+
+  const sequence = (todayHolds.length + 1).toString().padStart(4, "0");
+  return `QH-${dateStr}-${sequence}`;
+}
+
+/**
+ * Get the serials of a held batch that are still quarantined
+ */
+async function getHeldSerials(
+  ctx: QueryCtx,
+  batchId: Id<"inventory_batches">,
+): Promise<Doc<"serial_numbers">[]> {
+  const serials = await ctx.db
+    .query("serial_numbers")
+    .withIndex("batchId", (q) => q.eq("batchId", batchId))
+    .collect();
+
+  const held: Doc<"serial_numbers">[] = [];
+  for (const serial of serials) {
+    if (
+      (await getLookupCode(ctx, serial.serialStatusTypeId)) === "QUARANTINED"
+    ) {
+      held.push(serial);
+    }
+  }
+  return held;
+}
+
+/**
+ * Internal helper to place part of a batch on hold
+ *
+ * Process:
+ * 1. Validates the batch is live, not already held, and has the quantity
+ *    free of picking reservations
+ * 2. Records the hold
+ * 3. Splits the quantity off into a new Quarantine batch in the quarantine
+ *    zone (or the batch's own zone), one unit at a time for serials
+ * 4. Quarantines the serials and audits the new hold
+ *
+ * Serial-tracked batches hold the given serials, or the first serials in
+ * stock when none are given.
+ */
+export async function placeInventoryHold(
+  ctx: MutationCtx,
+  args: {
+    batchId: Id<"inventory_batches">;
+    quantity: number;
+    serials?: Doc<"serial_numbers">[];
+    zoneId?: Id<"storage_zones">; // Quarantine zone, defaults to in place
+    reason: string;
+    userId: Id<"users">;
+    supplierId?: Id<"suppliers">;
+    receiveSessionId?: Id<"receive_sessions">;
+  },
+) {
+  // Step 1: Validate the batch and quantity
+  const batch = await ctx.db.get(args.batchId);
+  if (!batch || batch.isDeleted) {
+    throw new Error("Inventory batch not found");
+  }
+  const batchLabel = batch.internalBatchNumber ?? batch._id;
+  if (await isBatchOnHold(ctx, batch)) {
+    throw new Error(`Batch ${batchLabel} is already on hold`);
+  }
+  if (!args.reason.trim()) {
+    throw new Error("A reason is required to place a hold");
+  }
+  if (args.quantity <= 0 || !Number.isInteger(args.quantity)) {
+    throw new Error("Held quantity must be a positive whole number");
+  }
+
+  const reserved = await getReservedBatchQuantity(ctx, batch._id);
+  const unreserved = batch.quantity - reserved;
+  if (args.quantity > unreserved) {
+    throw new Error(
+      `Only ${unreserved} unit(s) of batch ${batchLabel} are free of picking reservations`,
+    );
+  }
+
+  const zoneId = args.zoneId ?? batch.zoneId;
+  const zone = await ctx.db.get(zoneId);
+  if (!zone || zone.isDeleted || zone.branchId !== batch.branchId) {
+    throw new Error("The quarantine zone must be in the batch's branch");
+  }
+
+  const serials = (await isSerialTracked(ctx, batch.skuId))
+    ? (args.serials ??
+      (await takeSerialsFromBatch(ctx, batch._id, args.quantity)))
+    : [];
+  if (serials.length && serials.length !== args.quantity) {
+    throw new Error(`Select ${args.quantity} serial number(s) to hold`);
+  }
+  if (serials.some((serial) => serial.batchId !== batch._id)) {
+    throw new Error(`Every serial must be in batch ${batchLabel}`);
+  }
+
+  // Step 2: Record the hold
+  const holdCode = await generateHoldCode(ctx, batch.organizationId);
+  const holdStatusTypeId = await ensureHoldStatus(ctx, "HELD");
+  const holdId = await ctx.db.insert("inventory_holds", {
+    organizationId: batch.organizationId,
+    branchId: batch.branchId,
+    holdCode,
+    skuId: batch.skuId,
+    batchId: batch._id,
+    sourceBatchId: batch._id,
+    sourceZoneId: batch.zoneId,
+    quantity: args.quantity,
+    serialNumbers: serials.length
+      ? serials.map((serial) => serial.serialNumber)
+      : undefined,
+    reason: args.reason.trim(),
+    holdStatusTypeId,
+    supplierId: args.supplierId,
+    receiveSessionId: args.receiveSessionId,
+    placedByUserId: args.userId,
+    placedAt: Date.now(),
+  });
+
+  // Step 3: Split the held units off into a Quarantine batch
+  const quarantineTypeId = await ensureSystemLookup(
+    ctx,
+    "InventoryTransactionType",
+    "QUARANTINE",
+    "Quarantine",
+    "Stock moved into quarantine",
+  );
+  const batchStatusTypeId = await ensureBatchStatus(ctx, "QUARANTINE");
+  const notes = `Hold ${holdCode} - ${args.reason.trim()}`;
+  const units = serials.length
+    ? serials.map((serial) => ({ serial, quantity: 1 }))
+    : [{ serial: null, quantity: args.quantity }];
+
+  let heldBatchId: Id<"inventory_batches"> | undefined;
+  for (const unit of units) {
+    heldBatchId = await moveBatchQuantity(ctx, {
+      batchId: batch._id,
+      toZoneId: zoneId,
+      quantity: unit.quantity,
+      batchStatusTypeId,
+      split: !heldBatchId,
+      targetBatchId: heldBatchId,
+      inventoryTransactionTypeId: quarantineTypeId,
+      createdByUserId: args.userId,
+      notes,
+      serialNumberId: unit.serial?._id,
+      inventoryHoldId: holdId,
+    });
+  }
+  await ctx.db.patch(holdId, { batchId: heldBatchId! });
+
+  // Step 4: Quarantine the serials and audit the hold
+  await setSerialsStatus(ctx, {
+    serials,
+    toCode: "QUARANTINED",
+    location: { batchId: heldBatchId, zoneId },
+    userId: args.userId,
+    notes,
+  });
+  await logStatusChange(ctx, {
+    organizationId: batch.organizationId,
+    userId: args.userId,
+    entityType: "inventory_holds",
+    entityId: holdId,
+    fieldName: "holdStatusTypeId",
+    oldValue: null,
+    newValue: "HELD",
+    notes: args.reason.trim(),
+  });
+
+  return { holdId, holdCode, batchId: heldBatchId! };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * List the holds of a branch, newest first
+ */
+export const listHolds = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const holds = await ctx.db
+      .query("inventory_holds")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      holds.map(async (hold) => {
+        const status = await ctx.db.get(hold.holdStatusTypeId);
+        const variant = await ctx.db.get(hold.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+        const batch = await ctx.db.get(hold.batchId);
+        const zone = batch ? await ctx.db.get(batch.zoneId) : null;
+        const sourceZone = await ctx.db.get(hold.sourceZoneId);
+        const disposition = hold.dispositionTypeId
+          ? await ctx.db.get(hold.dispositionTypeId)
+          : null;
+        const supplier = hold.supplierId
+          ? await ctx.db.get(hold.supplierId)
+          : null;
+        const returnRequest = hold.returnRequestId
+          ? await ctx.db.get(hold.returnRequestId)
+          : null;
+        const placedBy = await ctx.db.get(hold.placedByUserId);
+        const resolvedBy = hold.resolvedByUserId
+          ? await ctx.db.get(hold.resolvedByUserId)
+          : null;
+
+        return {
+          ...hold,
+          statusName: status?.lookupValue ?? "Unknown",
+          statusCode: status?.lookupCode ?? "UNKNOWN",
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? "Unknown",
+          internalBatchNumber: batch?.internalBatchNumber ?? null,
+          supplierBatchNumber: batch?.supplierBatchNumber ?? null,
+          heldQuantity: batch && !batch.isDeleted ? batch.quantity : 0,
+          zoneName: zone?.name ?? "Unknown",
+          sourceZoneName: sourceZone?.name ?? "Unknown",
+          dispositionCode: disposition?.lookupCode ?? null,
+          dispositionName: disposition?.lookupValue ?? null,
+          supplierName: supplier?.name ?? null,
+          returnRequestCode: returnRequest?.requestCode ?? null,
+          placedByName: placedBy?.fullName ?? "Unknown",
+          resolvedByName: resolvedBy?.fullName ?? null,
+        };
+      }),
+    );
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Place a batch, or serials of it, on hold with a reason
+ * Serial-tracked batches take the scanned serials; the quantity follows
+ * their count
+ */
+export const placeHold = mutation({
+  args: {
+    batchId: v.id("inventory_batches"),
+    quantity: v.number(),
+    serialNumbers: v.optional(v.array(v.string())),
+    zoneId: v.optional(v.id("storage_zones")), // Quarantine zone
+    reason: v.string(),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch || batch.isDeleted) {
+      throw new Error("Inventory batch not found");
+    }
+
+    const serials = args.serialNumbers?.length
+      ? await getSerialsInStock(ctx, {
+          organizationId: batch.organizationId,
+          skuId: batch.skuId,
+          serialNumbers: args.serialNumbers,
+        })
+      : undefined;
+
+    return await placeInventoryHold(ctx, {
+      batchId: batch._id,
+      quantity: serials?.length ?? args.quantity,
+      serials,
+      zoneId: args.zoneId,
+      reason: args.reason,
+      userId: args.userId,
+    });
+  },
+});
+
+/**
+ * Release a hold: the units pass QC and go back into stock
+ *
+ * Process:
+ * 1. Validates the hold is still held and the target zone
+ * 2. Moves the held batch into an active batch in the target zone (the
+ *    zone the units were held from by default), one unit at a time for
+ *    serials
+ * 3. Makes the serials available again and audits the release
+ */
+export const releaseHold = mutation({
+  args: {
+    holdId: v.id("inventory_holds"),
+    zoneId: v.optional(v.id("storage_zones")),
+    notes: v.optional(v.string()),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the hold and the zone
+    const hold = await getOpenHold(ctx, args.holdId);
+    const zoneId = args.zoneId ?? hold.sourceZoneId;
+    const zone = await ctx.db.get(zoneId);
+    if (!zone || zone.isDeleted || zone.branchId !== hold.branchId) {
+      throw new Error("The release zone must be in the hold's branch");
+    }
+
+    // Step 2: Move the held units back into stock
+    const heldBatch = await ctx.db.get(hold.batchId);
+    const serials = heldBatch ? await getHeldSerials(ctx, heldBatch._id) : [];
+    const notes = `Hold ${hold.holdCode} released${args.notes ? ` - ${args.notes}` : ""}`;
+
+    if (heldBatch && !heldBatch.isDeleted && heldBatch.quantity > 0) {
+      const releaseTypeId = await ensureSystemLookup(
+        ctx,
+        "InventoryTransactionType",
+        "RELEASE",
+        "Release",
+        "Stock released from a QC hold",
+      );
+      const batchStatusTypeId = await ensureBatchStatus(ctx, "ACTIVE");
+      const units = serials.length
+        ? serials.map((serial) => ({ serial, quantity: 1 }))
+        : [{ serial: null, quantity: heldBatch.quantity }];
+
+      let batchId: Id<"inventory_batches"> | undefined;
+      for (const unit of units) {
+        batchId = await moveBatchQuantity(ctx, {
+          batchId: heldBatch._id,
+          toZoneId: zoneId,
+          quantity: unit.quantity,
+          batchStatusTypeId,
+          targetBatchId: batchId,
+          inventoryTransactionTypeId: releaseTypeId,
+          createdByUserId: args.userId,
+          notes,
+          serialNumberId: unit.serial?._id,
+          inventoryHoldId: hold._id,
+        });
+      }
+
+      // Step 3: Make the serials available again
+      await setSerialsStatus(ctx, {
+        serials,
+        toCode: "AVAILABLE",
+        location: { batchId, zoneId },
+        userId: args.userId,
+        notes,
+      });
+    }
+
+    await setHoldStatus(ctx, {
+      hold,
+      toCode: "RELEASED",
+      userId: args.userId,
+      notes: args.notes,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Reject a hold: the units failed QC
+ *
+ * Process:
+ * 1. Validates the hold is still held
+ * 2. Disposes of the held batch:
+ *    - SCRAP: write off with a SCRAP transaction and scrap the serials
+ *    - RETURN_TO_VENDOR: request the held batch back from the supplier;
+ *      the units stay on hold until the return ships
+ * 3. Records the disposition and audits the rejection
+ */
+export const rejectHold = mutation({
+  args: {
+    holdId: v.id("inventory_holds"),
+    disposition: dispositionValidator,
+    supplierId: v.optional(v.id("suppliers")), // RETURN_TO_VENDOR, defaults to the receipt's supplier
+    reasonTypeId: v.optional(v.id("system_lookups")), // RETURN_TO_VENDOR, defaults to Defective
+    expectedCreditAmount: v.optional(v.number()), // RETURN_TO_VENDOR, defaults to cost
+    notes: v.optional(v.string()),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the hold
+    const hold = await getOpenHold(ctx, args.holdId);
+    const heldBatch = await ctx.db.get(hold.batchId);
+    if (!heldBatch || heldBatch.isDeleted || heldBatch.quantity === 0) {
+      throw new Error(`Hold ${hold.holdCode} has no units left to reject`);
+    }
+    const serials = await getHeldSerials(ctx, heldBatch._id);
+    const notes = `Hold ${hold.holdCode} rejected${args.notes ? ` - ${args.notes}` : ""}`;
+
+    // Step 2: Dispose of the held units
+    let returnRequestId: Id<"return_requests"> | undefined;
+    switch (args.disposition) {
+      case "SCRAP": {
+        const scrapTypeId = await ensureSystemLookup(
+          ctx,
+          "InventoryTransactionType",
+          "SCRAP",
+          "Scrap",
+          "Stock written off as scrap",
+        );
+        const units = serials.length
+          ? serials.map((serial) => ({ serial, quantity: 1 }))
+          : [{ serial: null, quantity: heldBatch.quantity }];
+        for (const unit of units) {
+          const { quantityAfter } = await applyInventoryChange(ctx, {
+            batchId: heldBatch._id,
+            quantityChange: -unit.quantity,
+            inventoryTransactionTypeId: scrapTypeId,
+            createdByUserId: args.userId,
+            notes,
+            serialNumberId: unit.serial?._id,
+            inventoryHoldId: hold._id,
+          });
+          if (quantityAfter === 0) {
+            await ctx.db.patch(heldBatch._id, {
+              isDeleted: true,
+              deletedAt: Date.now(),
+            });
+          }
+        }
+        await setSerialsStatus(ctx, {
+          serials,
+          toCode: "SCRAPPED",
+          userId: args.userId,
+          notes,
+        });
+        break;
+      }
+      case "RETURN_TO_VENDOR": {
+        const supplierId = args.supplierId ?? hold.supplierId;
+        if (!supplierId) {
+          throw new Error("Choose the supplier to return the units to");
+        }
+
+        const variant = await ctx.db.get(hold.skuId);
+        const supplierReturn = await createSupplierReturnRequest(ctx, {
+          organizationId: hold.organizationId,
+          branchId: hold.branchId,
+          supplierId,
+          userId: args.userId,
+          details: [
+            {
+              batchId: heldBatch._id,
+              skuId: hold.skuId,
+              quantityToReturn: heldBatch.quantity,
+              reasonTypeId:
+                args.reasonTypeId ??
+                (await ensureSystemLookup(
+                  ctx,
+                  "ReturnReason",
+                  "DEFECTIVE",
+                  "Defective",
+                  "Product is defective",
+                )),
+              customReasonNotes: args.notes ?? `${notes} - ${hold.reason}`,
+              expectedCreditAmount:
+                args.expectedCreditAmount ??
+                (variant?.costPrice ?? 0) * heldBatch.quantity,
+            },
+          ],
+        });
+        returnRequestId = supplierReturn.returnRequestId;
+        break;
+      }
+    }
+
+    // Step 3: Record the disposition
+    await setHoldStatus(ctx, {
+      hold,
+      toCode: "REJECTED",
+      userId: args.userId,
+      patch: {
+        dispositionTypeId: await ensureSystemLookup(
+          ctx,
+          "HoldDisposition",
+          args.disposition,
+          HOLD_DISPOSITIONS[args.disposition].value,
+          HOLD_DISPOSITIONS[args.disposition].description,
+        ),
+        returnRequestId,
+        supplierId:
+          args.disposition === "RETURN_TO_VENDOR"
+            ? (args.supplierId ?? hold.supplierId)
+            : hold.supplierId,
+      },
+      notes: args.notes,
+    });
+
+    return { success: true, returnRequestId: returnRequestId ?? null };
+  },
+});
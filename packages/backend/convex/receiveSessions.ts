@@ -1,6 +1,21 @@
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
+import type { Doc, Id } from "./_generated/dataModel";
 import { mutation, query } from "./_generated/server";
+import {
+  generateInternalBatchNumber,
+  recordInventoryTransaction,
+} from "./inventory";
+import { rankPutawayZones } from "./putaway";
+import {
+  RECEIVABLE_PURCHASE_ORDER_STATUSES,
+  syncPurchaseOrderReceipt,
+} from "./purchaseOrders";
+import { placeInventoryHold } from "./qualityHolds";
+import {
+  findSerial,
+  isSerialTracked,
+  registerSerialNumbers,
+} from "./serialNumbers";
 
 // ================================================================
 // HELPER FUNCTIONS
@@ -113,35 +128,129 @@ async function ensureSystemLookup(
 }
 
 /**
- * Get a random storage zone from the branch for zone recommendation
- * Filters by branch and optionally by zone type
+ * Put received stock away into an inventory batch and record a RECEIVE transaction
+ * Merges into an existing active batch when the same supplier lot is already in the zone
  */
-async function getRandomStorageZone(
+async function putAwayReceivedStock(
   ctx: any,
-  branchId: Id<"branches">,
-  zoneTypeCode?: string,
-): Promise<Id<"storage_zones"> | null> {
-  let zones = await ctx.db
-    .query("storage_zones")
-    .withIndex("branchId", (q: any) => q.eq("branchId", branchId))
-    .filter((q: any) => q.eq(q.field("isDeleted"), false))
-    .collect();
+  params: {
+    organizationId: Id<"organizations">;
+    branchId: Id<"branches">;
+    skuId: Id<"product_variants">;
+    zoneId: Id<"storage_zones">;
+    quantity: number;
+    supplierBatchNumber?: string;
+    manufacturingDate?: number;
+    expiresAt?: number;
+    createdByUserId: Id<"users">;
+    workSessionId?: Id<"work_sessions">;
+    purchaseOrderDetailId?: Id<"purchase_order_details">;
+    purchaseOrderId?: Id<"purchase_orders">;
+    serialNumbers?: string[];
+    warrantyExpiresAt?: number;
+    notes?: string;
+  },
+): Promise<{ batchId: Id<"inventory_batches">; internalBatchNumber?: string }> {
+  const activeBatchStatusId = await ensureSystemLookup(
+    ctx,
+    "BatchStatus",
+    "ACTIVE",
+    "Active",
+    "Batch is available for use",
+  );
 
-  // Filter by zone type if specified
-  if (zoneTypeCode && zones.length > 0) {
-    const zoneType = await getSystemLookup(ctx, "ZoneType", zoneTypeCode);
-    if (zoneType) {
-      zones = zones.filter((z: any) => z.zoneTypeId === zoneType);
-    }
+  const receiptTypeId = await ensureSystemLookup(
+    ctx,
+    "InventoryTransactionType",
+    "RECEIVE",
+    "Receive",
+    "Inventory received from purchase order",
+  );
+
+  // Look for the same supplier lot already stored in this zone
+  const existingBatch = params.supplierBatchNumber
+    ? await ctx.db
+        .query("inventory_batches")
+        .withIndex("zoneId", (q: any) => q.eq("zoneId", params.zoneId))
+        .filter((q: any) =>
+          q.and(
+            q.eq(q.field("skuId"), params.skuId),
+            q.eq(q.field("supplierBatchNumber"), params.supplierBatchNumber),
+            q.eq(q.field("expiresAt"), params.expiresAt),
+            q.eq(q.field("batchStatusTypeId"), activeBatchStatusId),
+            q.eq(q.field("isDeleted"), false),
+          ),
+        )
+        .first()
+    : null;
+
+  let batchId: Id<"inventory_batches">;
+  let internalBatchNumber: string | undefined;
+  let quantityBefore = 0;
+
+  if (existingBatch) {
+    batchId = existingBatch._id;
+    internalBatchNumber = existingBatch.internalBatchNumber;
+    quantityBefore = existingBatch.quantity;
+
+    await ctx.db.patch(batchId, {
+      quantity: quantityBefore + params.quantity,
+    });
+  } else {
+    internalBatchNumber = await generateInternalBatchNumber(
+      ctx,
+      params.branchId,
+    );
+
+    batchId = await ctx.db.insert("inventory_batches", {
+      organizationId: params.organizationId,
+      skuId: params.skuId,
+      zoneId: params.zoneId,
+      quantity: params.quantity,
+      branchId: params.branchId,
+      supplierBatchNumber: params.supplierBatchNumber,
+      internalBatchNumber,
+      receivedAt: Date.now(),
+      manufacturingDate: params.manufacturingDate,
+      expiresAt: params.expiresAt,
+      batchStatusTypeId: activeBatchStatusId,
+      isDeleted: false,
+    });
   }
 
-  if (zones.length === 0) {
-    return null;
+  // Serial-tracked stock gets one receipt per serial so each has a history
+  const serialNumberIds: (Id<"serial_numbers"> | undefined)[] =
+    params.serialNumbers
+      ? await registerSerialNumbers(ctx, {
+          organizationId: params.organizationId,
+          skuId: params.skuId,
+          batchId,
+          zoneId: params.zoneId,
+          serialNumbers: params.serialNumbers,
+          warrantyExpiresAt: params.warrantyExpiresAt,
+          purchaseOrderId: params.purchaseOrderId,
+        })
+      : [undefined];
+  const quantityPerTransaction = params.serialNumbers ? 1 : params.quantity;
+
+  for (const [i, serialNumberId] of serialNumberIds.entries()) {
+    const before = quantityBefore + i * quantityPerTransaction;
+    await recordInventoryTransaction(ctx, {
+      organizationId: params.organizationId,
+      batchId,
+      serialNumberId,
+      quantityBefore: before,
+      quantityChange: quantityPerTransaction,
+      quantityAfter: before + quantityPerTransaction,
+      inventoryTransactionTypeId: receiptTypeId,
+      createdByUserId: params.createdByUserId,
+      notes: params.notes,
+      purchaseOrderDetailId: params.purchaseOrderDetailId,
+      workSessionId: params.workSessionId,
+    });
   }
 
-  // Return random zone
-  const randomIndex = Math.floor(Math.random() * zones.length);
-  return zones[randomIndex]._id;
+  return { batchId, internalBatchNumber };
 }
 
 /**
@@ -216,23 +325,6 @@ export const getPurchaseOrdersByBranch = query({
     branchId: v.id("branches"),
   },
   handler: async (ctx, args) => {
-    // Get pending/partial status to filter active POs
-    const pendingStatus = await ctx.db
-      .query("system_lookups")
-      .withIndex("lookupType_lookupCode", (q) =>
-        q.eq("lookupType", "PurchaseOrderStatus").eq("lookupCode", "Pending"),
-      )
-      .first();
-
-    const partialStatus = await ctx.db
-      .query("system_lookups")
-      .withIndex("lookupType_lookupCode", (q) =>
-        q.eq("lookupType", "PurchaseOrderStatus").eq("lookupCode", "Partial"),
-      )
-      .first();
-
-    const statusIds = [pendingStatus?._id, partialStatus?._id].filter(Boolean);
-
     const purchaseOrders = await ctx.db
       .query("purchase_orders")
       .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
@@ -242,13 +334,13 @@ export const getPurchaseOrdersByBranch = query({
     // Filter by status and enrich with supplier name
     const filteredOrders = [];
     for (const order of purchaseOrders) {
-      // Include orders that are pending or partial
+      // Only orders sent to the supplier or partially received
+      const status = await ctx.db.get(order.purchaseOrderStatusTypeId);
       if (
-        statusIds.length === 0 ||
-        statusIds.includes(order.purchaseOrderStatusTypeId)
+        status &&
+        RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(status.lookupCode)
       ) {
         const supplier = await ctx.db.get(order.supplierId);
-        const status = await ctx.db.get(order.purchaseOrderStatusTypeId);
 
         filteredOrders.push({
           purchaseOrderId: order._id,
@@ -335,6 +427,7 @@ export const getReceiveSessionDetailed = query({
           statusCode: itemStatus?.lookupCode ?? "UNKNOWN",
           recommendedZone: zone?.name ?? null,
           recommendedZoneId: detail.recommendedZoneId,
+          isSerialTracked: await isSerialTracked(ctx, detail.skuId),
         };
       }),
     );
@@ -387,6 +480,7 @@ export const getReceiveSessionDetailed = query({
       purchaseOrderId: session.purchaseOrderId,
       purchaseOrderCode: purchaseOrder?.code ?? "Unknown",
       supplierName: supplier?.name ?? "Unknown",
+      requiresInspection: supplier?.requiresInspection ?? false,
       receivedAt: session.receivedAt,
       status: sessionStatus?.lookupValue ?? "Unknown",
       statusCode: sessionStatus?.lookupCode ?? "UNKNOWN",
@@ -582,19 +676,40 @@ export const createReceiveSession = mutation({
       throw new Error("Purchase order has been deleted");
     }
 
+    const poStatus = await ctx.db.get(purchaseOrder.purchaseOrderStatusTypeId);
+    if (
+      !poStatus ||
+      !RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(poStatus.lookupCode)
+    ) {
+      throw new Error(
+        `Purchase order ${purchaseOrder.code} is ${poStatus?.lookupValue ?? "not sent"} and cannot be received`,
+      );
+    }
+
     // Get branch info
     const branch = await ctx.db.get(purchaseOrder.branchId);
     if (!branch) {
       throw new Error("Branch not found");
     }
 
-    // Check if a receive session already exists for this PO
-    const existingSession = await ctx.db
+    // Check if an open receive session already exists for this PO
+    // (a partially received PO can get another session for the next delivery)
+    const poSessions = await ctx.db
       .query("receive_sessions")
       .withIndex("purchaseOrderId", (q) =>
         q.eq("purchaseOrderId", args.purchaseOrderId),
       )
-      .first();
+      .collect();
+    let existingSession = null;
+    for (const poSession of poSessions) {
+      const sessionStatus = await ctx.db.get(
+        poSession.receiveSessionStatusTypeId,
+      );
+      if (sessionStatus?.lookupCode !== "COMPLETE") {
+        existingSession = poSession;
+        break;
+      }
+    }
 
     if (existingSession) {
       throw new Error(
@@ -602,16 +717,18 @@ export const createReceiveSession = mutation({
       );
     }
 
-    // Get purchase order details
-    const poDetails = await ctx.db
-      .query("purchase_order_details")
-      .withIndex("purchaseOrderId", (q) =>
-        q.eq("purchaseOrderId", args.purchaseOrderId),
-      )
-      .collect();
+    // Get purchase order details still outstanding
+    const poDetails = (
+      await ctx.db
+        .query("purchase_order_details")
+        .withIndex("purchaseOrderId", (q) =>
+          q.eq("purchaseOrderId", args.purchaseOrderId),
+        )
+        .collect()
+    ).filter((detail) => detail.quantityReceived < detail.quantityOrdered);
 
     if (poDetails.length === 0) {
-      throw new Error("Purchase order has no items");
+      throw new Error("Purchase order has no items left to receive");
     }
 
     // Ensure required system lookups exist
@@ -651,7 +768,7 @@ export const createReceiveSession = mutation({
       await ctx.db.insert("receive_sessions_details", {
         receiveSessionId,
         skuId: poDetail.skuId,
-        quantityExpected: poDetail.quantityOrdered,
+        quantityExpected: poDetail.quantityOrdered - poDetail.quantityReceived,
         quantityReceived: 0,
         receiveSessionItemStatusTypeId: pendingItemStatusId,
       });
@@ -678,13 +795,25 @@ export const createReceiveSession = mutation({
 
 /**
  * Process a received item - update quantity and optionally add notes
- * Automatically recommends a storage zone
+ * Automatically recommends a storage zone and puts the quantity away
+ * into an inventory batch in the chosen (or recommended) zone
+ * Receipts from suppliers flagged for inspection are placed on a QC hold
  */
 export const processReceiveItem = mutation({
   args: {
     receiveSessionDetailId: v.id("receive_sessions_details"),
     quantityToAdd: v.number(),
     notes: v.optional(v.string()),
+    zoneId: v.optional(v.id("storage_zones")), // Overrides the recommended zone
+    supplierBatchNumber: v.optional(v.string()),
+    manufacturingDate: v.optional(v.number()),
+    expiresAt: v.optional(v.number()),
+    // One per received unit for serial-tracked products
+    serialNumbers: v.optional(v.array(v.string())),
+    warrantyExpiresAt: v.optional(v.number()),
+    userId: v.optional(v.id("users")), // Defaults to the work session assignee
+    holdForInspection: v.optional(v.boolean()), // Defaults to the supplier's requiresInspection flag
+    quarantineZoneId: v.optional(v.id("storage_zones")), // Where held receipts go, defaults to the putaway zone
   },
   handler: async (ctx, args) => {
     if (args.quantityToAdd <= 0) {
@@ -703,6 +832,55 @@ export const processReceiveItem = mutation({
       throw new Error("Receive session not found");
     }
 
+    const branch = await ctx.db.get(session.branchId);
+    if (!branch) {
+      throw new Error("Branch not found");
+    }
+
+    // Validate the chosen putaway zone
+    if (args.zoneId) {
+      const chosenZone = await ctx.db.get(args.zoneId);
+      if (
+        !chosenZone ||
+        chosenZone.isDeleted ||
+        chosenZone.branchId !== session.branchId
+      ) {
+        throw new Error("Storage zone not found in this branch");
+      }
+    }
+
+    if (
+      args.manufacturingDate !== undefined &&
+      args.expiresAt !== undefined &&
+      args.expiresAt <= args.manufacturingDate
+    ) {
+      throw new Error("Expiry date must be after the manufacturing date");
+    }
+
+    // Serial-tracked products need one serial per received unit
+    const serialTracked = await isSerialTracked(ctx, detail.skuId);
+    if (serialTracked && args.serialNumbers?.length !== args.quantityToAdd) {
+      throw new Error(
+        `Scan ${args.quantityToAdd} serial number(s) for this serial-tracked product`,
+      );
+    }
+    if (!serialTracked && args.serialNumbers?.length) {
+      throw new Error("This product is not serial-tracked");
+    }
+
+    // Work session links the receipt transactions to this receiving job
+    const workSession = await ctx.db
+      .query("work_sessions")
+      .withIndex("receiveSessionId", (q) =>
+        q.eq("receiveSessionId", detail.receiveSessionId),
+      )
+      .first();
+
+    const createdByUserId = args.userId ?? workSession?.assignedUserId;
+    if (!createdByUserId) {
+      throw new Error("A user is required to record the receipt");
+    }
+
     // Calculate new quantity
     const newQuantityReceived = detail.quantityReceived + args.quantityToAdd;
 
@@ -728,12 +906,13 @@ export const processReceiveItem = mutation({
       `Item receiving is ${newStatusCode.toLowerCase()}`,
     );
 
-    // Get a random storage zone recommendation from the same branch
-    const recommendedZoneId = await getRandomStorageZone(
-      ctx,
-      session.branchId,
-      "STORAGE", // Filter for storage type zones
-    );
+    // Best ranked putaway zone for this quantity of the SKU
+    const { suggestions } = await rankPutawayZones(ctx, {
+      branchId: session.branchId,
+      skuId: detail.skuId,
+      quantity: args.quantityToAdd,
+    });
+    const recommendedZoneId = suggestions[0]?.zoneId ?? null;
 
     // Update the detail record
     await ctx.db.patch(args.receiveSessionDetailId, {
@@ -793,8 +972,9 @@ export const processReceiveItem = mutation({
 
     // Update purchase order detail quantity received
     const purchaseOrder = await ctx.db.get(session.purchaseOrderId);
+    let poDetails = null;
     if (purchaseOrder) {
-      const poDetails = await ctx.db
+      poDetails = await ctx.db
         .query("purchase_order_details")
         .withIndex("purchaseOrderId", (q) =>
           q.eq("purchaseOrderId", session.purchaseOrderId),
@@ -806,11 +986,77 @@ export const processReceiveItem = mutation({
         await ctx.db.patch(poDetails._id, {
           quantityReceived: poDetails.quantityReceived + args.quantityToAdd,
         });
+        await syncPurchaseOrderReceipt(
+          ctx,
+          session.purchaseOrderId,
+          createdByUserId,
+        );
       }
     }
 
-    // Get zone name for response
+    // Put the received quantity away into a batch
+    const putawayZoneId =
+      args.zoneId ?? recommendedZoneId ?? detail.recommendedZoneId;
+    if (!putawayZoneId) {
+      throw new Error("No storage zone available for putaway");
+    }
+
+    const { batchId, internalBatchNumber } = await putAwayReceivedStock(ctx, {
+      organizationId: branch.organizationId,
+      branchId: session.branchId,
+      skuId: detail.skuId,
+      zoneId: putawayZoneId,
+      quantity: args.quantityToAdd,
+      supplierBatchNumber: args.supplierBatchNumber,
+      manufacturingDate: args.manufacturingDate,
+      expiresAt: args.expiresAt,
+      createdByUserId,
+      workSessionId: workSession?._id,
+      purchaseOrderDetailId: poDetails?._id,
+      purchaseOrderId: session.purchaseOrderId,
+      serialNumbers: serialTracked ? args.serialNumbers : undefined,
+      warrantyExpiresAt: args.warrantyExpiresAt,
+      notes: args.notes,
+    });
+
+    // Hold the receipt for QC when the supplier requires inspection
+    const supplier = purchaseOrder
+      ? await ctx.db.get(purchaseOrder.supplierId)
+      : null;
+    const holdForInspection =
+      args.holdForInspection ?? supplier?.requiresInspection;
+    const heldSerials: Doc<"serial_numbers">[] = [];
+    if (holdForInspection && serialTracked) {
+      for (const serialNumber of args.serialNumbers ?? []) {
+        const serial = await findSerial(
+          ctx,
+          branch.organizationId,
+          serialNumber,
+        );
+        if (!serial) {
+          throw new Error(
+            `Serial number ${serialNumber} was not registered on receipt`,
+          );
+        }
+        heldSerials.push(serial);
+      }
+    }
+    const hold = holdForInspection
+      ? await placeInventoryHold(ctx, {
+          batchId,
+          quantity: args.quantityToAdd,
+          serials: serialTracked ? heldSerials : undefined,
+          zoneId: args.quarantineZoneId,
+          reason: `Incoming inspection for ${supplier?.name ?? "supplier"} receipt`,
+          userId: createdByUserId,
+          supplierId: supplier?._id,
+          receiveSessionId: session._id,
+        })
+      : null;
+
+    // Get zone names for response
     const zone = recommendedZoneId ? await ctx.db.get(recommendedZoneId) : null;
+    const putawayZone = await ctx.db.get(putawayZoneId);
 
     return {
       success: true,
@@ -820,6 +1066,12 @@ export const processReceiveItem = mutation({
       status: sessionStatusCode,
       recommendedZone: zone?.name ?? null,
       recommendedZoneId,
+      recommendationReasons: suggestions[0]?.reasons ?? [],
+      putawayZone: putawayZone?.name ?? null,
+      putawayZoneId,
+      batchId: hold?.batchId ?? batchId,
+      internalBatchNumber,
+      holdCode: hold?.holdCode ?? null,
     };
   },
 });
@@ -1063,20 +1315,11 @@ export const completeReceiveSession = mutation({
     }
 
     // Update purchase order status to Received if all items received
-    const purchaseOrder = await ctx.db.get(session.purchaseOrderId);
-    if (purchaseOrder) {
-      const receivedStatusId = await ensureSystemLookup(
-        ctx,
-        "PurchaseOrderStatus",
-        "Received",
-        "Received",
-        "Purchase order has been received",
-      );
-
-      await ctx.db.patch(session.purchaseOrderId, {
-        purchaseOrderStatusTypeId: receivedStatusId,
-      });
-    }
+    await syncPurchaseOrderReceipt(
+      ctx,
+      session.purchaseOrderId,
+      args.verifiedByUserId,
+    );
 
     return {
       success: true,
@@ -0,0 +1,624 @@
+/**
+ * REPLENISHMENT API - Reorder point checks and draft purchase orders
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - review suggestions, draft purchase orders
+ * ✅ Admin - review suggestions, draft purchase orders
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - The reorder point is products.reorderPointOverride when set, otherwise
+ *   products.reorderPoint, and applies to each variant in each branch
+ * - Stock position = available (on hand - held - reserved) + in transit +
+ *   on order, where on order is the outstanding quantity of open purchase
+ *   orders (draft through partially received) for the branch
+ * - A SKU is flagged when its position is below the reorder point. The
+ *   suggested quantity brings the position up to the larger of twice the
+ *   reorder point and the reorder point plus usage over the lead time
+ * - Each product's supplier comes from suppliers.brandId; with several
+ *   suppliers for a brand the one with the shortest defaultLeadTimeDays wins
+ * - A daily cron refreshes the stored suggestions of every branch; the
+ *   screen can refresh one branch on demand
+ * - Dismissed suggestions stay dismissed until the SKU recovers, so a later
+ *   dip is flagged again
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { getOutboundUnitsBySku } from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import {
+  createDraftPurchaseOrder,
+  OPEN_PURCHASE_ORDER_STATUSES,
+} from "./purchaseOrders";
+import { getHeldQuantity, getSkuBatches, getSkuDemandByBranch } from "./stock";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USAGE_WINDOW_DAYS = 90;
+const ORDER_UP_TO_MULTIPLIER = 2;
+
+const REPLENISHMENT_STATUSES: Record<
+  string,
+  { value: string; description: string }
+> = {
+  OPEN: { value: "Open", description: "SKU is below its reorder point" },
+  ORDERED: {
+    value: "Ordered",
+    description: "A draft purchase order was created for the suggestion",
+  },
+  DISMISSED: {
+    value: "Dismissed",
+    description: "Suggestion dismissed until the SKU recovers",
+  },
+};
+
+type ReplenishmentNeed = {
+  skuId: Id<"product_variants">;
+  supplierId?: Id<"suppliers">;
+  reorderPoint: number;
+  onHand: number;
+  available: number;
+  inTransit: number;
+  onOrder: number;
+  dailyUsage: number;
+  suggestedQuantity: number;
+  unitCost: number;
+};
+
+async function ensureReplenishmentStatus(ctx: MutationCtx, code: string) {
+  const status = REPLENISHMENT_STATUSES[code];
+  return await ensureSystemLookup(
+    ctx,
+    "ReplenishmentStatus",
+    code,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Effective reorder point of a product; the override wins
+ */
+function getReorderPoint(product: Doc<"products">): number | undefined {
+  return product.reorderPointOverride ?? product.reorderPoint;
+}
+
+/**
+ * Quantity that brings the stock position up to the order-up-to level
+ */
+function getSuggestedQuantity(
+  reorderPoint: number,
+  position: number,
+  dailyUsage: number,
+  leadTimeDays: number,
+) {
+  const orderUpTo = Math.max(
+    reorderPoint * ORDER_UP_TO_MULTIPLIER,
+    reorderPoint + Math.ceil(dailyUsage * leadTimeDays),
+  );
+  return Math.max(0, Math.ceil(orderUpTo - position));
+}
+
+/**
+ * Outstanding purchase order quantity per SKU for a branch
+ */
+async function getOnOrderBySku(ctx: QueryCtx, branchId: Id<"branches">) {
+  const onOrder = new Map<Id<"product_variants">, number>();
+  const orders = await ctx.db
+    .query("purchase_orders")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+
+  for (const order of orders) {
+    const statusCode = await getLookupCode(
+      ctx,
+      order.purchaseOrderStatusTypeId,
+    );
+    if (!statusCode || !OPEN_PURCHASE_ORDER_STATUSES.includes(statusCode)) {
+      continue;
+    }
+
+    const details = await ctx.db
+      .query("purchase_order_details")
+      .withIndex("purchaseOrderId", (q) => q.eq("purchaseOrderId", order._id))
+      .collect();
+    for (const detail of details) {
+      const outstanding = detail.quantityOrdered - detail.quantityReceived;
+      if (outstanding <= 0) continue;
+      onOrder.set(detail.skuId, (onOrder.get(detail.skuId) ?? 0) + outstanding);
+    }
+  }
+
+  return onOrder;
+}
+
+/**
+ * Average outbound units per day per SKU over the usage window
+ */
+async function getDailyUsageBySku(
+  ctx: QueryCtx,
+  branch: Doc<"branches">,
+  now: number,
+) {
+  const usage = await getOutboundUnitsBySku(ctx, {
+    organizationId: branch.organizationId,
+    branchId: branch._id,
+    since: now - USAGE_WINDOW_DAYS * DAY_MS,
+  });
+  for (const [skuId, units] of usage) {
+    usage.set(skuId, units / USAGE_WINDOW_DAYS);
+  }
+  return usage;
+}
+
+/**
+ * Supplier of a brand with the shortest lead time
+ */
+async function getBrandSupplier(ctx: QueryCtx, brandId: Id<"brands">) {
+  const suppliers = await ctx.db
+    .query("suppliers")
+    .withIndex("brandId", (q) => q.eq("brandId", brandId))
+    .filter((q) =>
+      q.and(q.eq(q.field("isActive"), true), q.eq(q.field("isDeleted"), false)),
+    )
+    .collect();
+
+  suppliers.sort((a, b) => a.defaultLeadTimeDays - b.defaultLeadTimeDays);
+  return suppliers[0] ?? null;
+}
+
+/**
+ * Find the SKUs of a branch whose stock position is below reorder point
+ *
+ * Process:
+ * 1. Loads the organization's active products that have a reorder point
+ * 2. Collects on-order quantities and daily usage for the branch
+ * 3. Computes the stock position of each variant
+ * 4. Sizes an order for every variant below its reorder point
+ */
+async function computeBranchNeeds(
+  ctx: QueryCtx,
+  branch: Doc<"branches">,
+  now: number,
+): Promise<ReplenishmentNeed[]> {
+  // Step 1: Products with a reorder point
+  const products = (
+    await ctx.db
+      .query("products")
+      .withIndex("organizationId", (q) =>
+        q.eq("organizationId", branch.organizationId),
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("isActive"), true),
+          q.eq(q.field("isDeleted"), false),
+        ),
+      )
+      .collect()
+  ).filter((product) => getReorderPoint(product) !== undefined);
+
+  // Step 2: On order and usage
+  const onOrderBySku = await getOnOrderBySku(ctx, branch._id);
+  const usageBySku = await getDailyUsageBySku(ctx, branch, now);
+  const suppliers = new Map<Id<"brands">, Doc<"suppliers"> | null>();
+
+  const needs: ReplenishmentNeed[] = [];
+  for (const product of products) {
+    const reorderPoint = getReorderPoint(product) ?? 0;
+    if (!suppliers.has(product.brandId)) {
+      suppliers.set(
+        product.brandId,
+        await getBrandSupplier(ctx, product.brandId),
+      );
+    }
+    const supplier = suppliers.get(product.brandId) ?? null;
+
+    const variants = await ctx.db
+      .query("product_variants")
+      .withIndex("productId", (q) => q.eq("productId", product._id))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("isActive"), true),
+          q.eq(q.field("isDeleted"), false),
+        ),
+      )
+      .collect();
+
+    for (const variant of variants) {
+      // Step 3: Stock position
+      const batches = await getSkuBatches(ctx, variant._id, branch._id);
+      const { reserved, inTransit } = await getSkuDemandByBranch(
+        ctx,
+        variant._id,
+      );
+      const onHand = batches.reduce((sum, b) => sum + b.quantity, 0);
+      const held = await getHeldQuantity(ctx, batches);
+      const available = Math.max(
+        0,
+        onHand - held - (reserved.get(branch._id) ?? 0),
+      );
+      const transit = inTransit.get(branch._id) ?? 0;
+      const onOrder = onOrderBySku.get(variant._id) ?? 0;
+      const position = available + transit + onOrder;
+      if (position >= reorderPoint) continue;
+
+      // Step 4: Order size
+      const dailyUsage = usageBySku.get(variant._id) ?? 0;
+      needs.push({
+        skuId: variant._id,
+        supplierId: supplier?._id,
+        reorderPoint,
+        onHand,
+        available,
+        inTransit: transit,
+        onOrder,
+        dailyUsage: Math.round(dailyUsage * 100) / 100,
+        suggestedQuantity: getSuggestedQuantity(
+          reorderPoint,
+          position,
+          dailyUsage,
+          supplier?.defaultLeadTimeDays ?? 0,
+        ),
+        unitCost: variant.costPrice,
+      });
+    }
+  }
+
+  return needs;
+}
+
+/**
+ * Bring a branch's stored suggestions in line with its current needs
+ *
+ * Process:
+ * 1. Computes the SKUs below reorder point
+ * 2. Updates or creates an open suggestion for each, unless dismissed
+ * 3. Removes open and dismissed suggestions of SKUs that recovered
+ */
+async function refreshBranchSuggestions(
+  ctx: MutationCtx,
+  branch: Doc<"branches">,
+) {
+  const now = Date.now();
+  const openStatusId = await ensureReplenishmentStatus(ctx, "OPEN");
+  const dismissedStatusId = await ensureReplenishmentStatus(ctx, "DISMISSED");
+
+  // Step 1: Current needs
+  const needs = await computeBranchNeeds(ctx, branch, now);
+  const needBySku = new Map(needs.map((need) => [need.skuId, need]));
+
+  const existing = (
+    await ctx.db
+      .query("replenishment_suggestions")
+      .withIndex("branchId_skuId", (q) => q.eq("branchId", branch._id))
+      .collect()
+  ).filter(
+    (suggestion) =>
+      suggestion.replenishmentStatusTypeId === openStatusId ||
+      suggestion.replenishmentStatusTypeId === dismissedStatusId,
+  );
+
+  // Step 2: Upsert open suggestions
+  let updated = 0;
+  let created = 0;
+  for (const need of needs) {
+    const current = existing.find((s) => s.skuId === need.skuId);
+    if (current) {
+      await ctx.db.patch(current._id, { ...need, computedAt: now });
+      updated++;
+    } else {
+      await ctx.db.insert("replenishment_suggestions", {
+        ...need,
+        organizationId: branch.organizationId,
+        branchId: branch._id,
+        replenishmentStatusTypeId: openStatusId,
+        computedAt: now,
+      });
+      created++;
+    }
+  }
+
+  // Step 3: Drop suggestions of recovered SKUs
+  let removed = 0;
+  for (const suggestion of existing) {
+    if (needBySku.has(suggestion.skuId)) continue;
+    await ctx.db.delete(suggestion._id);
+    removed++;
+  }
+
+  return { created, updated, removed };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Get a branch's replenishment suggestions grouped by supplier
+ */
+export const getReplenishmentSuggestions = query({
+  args: {
+    branchId: v.id("branches"),
+    includeDismissed: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const statusCodes = args.includeDismissed
+      ? ["OPEN", "DISMISSED"]
+      : ["OPEN"];
+
+    const suggestions = await ctx.db
+      .query("replenishment_suggestions")
+      .withIndex("branchId_skuId", (q) => q.eq("branchId", args.branchId))
+      .collect();
+
+    const groups = new Map<
+      string,
+      {
+        supplierId: Id<"suppliers"> | null;
+        supplierName: string;
+        leadTimeDays: number | null;
+        expectedArrivalAt: number | null;
+        totalCost: number;
+        items: Array<
+          Doc<"replenishment_suggestions"> & {
+            skuCode: string;
+            productName: string;
+            statusCode: string;
+            position: number;
+          }
+        >;
+      }
+    >();
+    let computedAt: number | null = null;
+
+    for (const suggestion of suggestions) {
+      const statusCode = await getLookupCode(
+        ctx,
+        suggestion.replenishmentStatusTypeId,
+      );
+      if (!statusCode || !statusCodes.includes(statusCode)) continue;
+      computedAt = Math.max(computedAt ?? 0, suggestion.computedAt);
+
+      const key = suggestion.supplierId ?? "none";
+      let group = groups.get(key);
+      if (!group) {
+        const supplier = suggestion.supplierId
+          ? await ctx.db.get(suggestion.supplierId)
+          : null;
+        group = {
+          supplierId: supplier?._id ?? null,
+          supplierName: supplier?.name ?? "No supplier for brand",
+          leadTimeDays: supplier?.defaultLeadTimeDays ?? null,
+          expectedArrivalAt: supplier
+            ? Date.now() + supplier.defaultLeadTimeDays * DAY_MS
+            : null,
+          totalCost: 0,
+          items: [],
+        };
+        groups.set(key, group);
+      }
+
+      const variant = await ctx.db.get(suggestion.skuId);
+      const product = variant ? await ctx.db.get(variant.productId) : null;
+      group.items.push({
+        ...suggestion,
+        skuCode: variant?.skuCode ?? "Unknown",
+        productName: product?.name ?? "Unknown",
+        statusCode,
+        position:
+          suggestion.available + suggestion.inTransit + suggestion.onOrder,
+      });
+      if (statusCode === "OPEN") {
+        group.totalCost += suggestion.suggestedQuantity * suggestion.unitCost;
+      }
+    }
+
+    const result = [...groups.values()];
+    for (const group of result) {
+      // Largest shortfall first
+      group.items.sort(
+        (a, b) => b.reorderPoint - b.position - (a.reorderPoint - a.position),
+      );
+    }
+    result.sort((a, b) => a.supplierName.localeCompare(b.supplierName));
+
+    return { computedAt, groups: result };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Recompute the suggestions of one branch now
+ */
+export const refreshReplenishmentSuggestions = mutation({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const branch = await ctx.db.get(args.branchId);
+    if (!branch || branch.isDeleted) {
+      throw new Error("Branch not found");
+    }
+
+    return await refreshBranchSuggestions(ctx, branch);
+  },
+});
+
+/**
+ * Dismiss an open suggestion, or reopen a dismissed one
+ */
+export const setSuggestionDismissed = mutation({
+  args: {
+    suggestionId: v.id("replenishment_suggestions"),
+    userId: v.id("users"),
+    dismissed: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const suggestion = await ctx.db.get(args.suggestionId);
+    if (!suggestion) {
+      throw new Error("Suggestion not found");
+    }
+
+    const statusCode = await getLookupCode(
+      ctx,
+      suggestion.replenishmentStatusTypeId,
+    );
+    const expected = args.dismissed ? "OPEN" : "DISMISSED";
+    if (statusCode !== expected) {
+      throw new Error(
+        `Only ${expected.toLowerCase()} suggestions can be changed`,
+      );
+    }
+
+    await ctx.db.patch(args.suggestionId, {
+      replenishmentStatusTypeId: await ensureReplenishmentStatus(
+        ctx,
+        args.dismissed ? "DISMISSED" : "OPEN",
+      ),
+      updatedByUserId: args.userId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Turn accepted suggestions into one draft purchase order per supplier
+ *
+ * Process:
+ * 1. Validates the suggestions are open, belong to the branch and have a
+ *    supplier
+ * 2. Groups them by supplier
+ * 3. Creates a draft purchase order for each group
+ * 4. Marks the suggestions as ordered
+ */
+export const createPurchaseOrdersFromSuggestions = mutation({
+  args: {
+    branchId: v.id("branches"),
+    userId: v.id("users"),
+    items: v.array(
+      v.object({
+        suggestionId: v.id("replenishment_suggestions"),
+        quantity: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    if (args.items.length === 0) {
+      throw new Error("Select at least one suggestion");
+    }
+
+    // Step 1: Validate
+    const bySupplier = new Map<
+      Id<"suppliers">,
+      Array<{ suggestion: Doc<"replenishment_suggestions">; quantity: number }>
+    >();
+    for (const item of args.items) {
+      const suggestion = await ctx.db.get(item.suggestionId);
+      if (!suggestion || suggestion.branchId !== args.branchId) {
+        throw new Error("Suggestion not found for this branch");
+      }
+      const statusCode = await getLookupCode(
+        ctx,
+        suggestion.replenishmentStatusTypeId,
+      );
+      if (statusCode !== "OPEN") {
+        throw new Error("Only open suggestions can be ordered");
+      }
+      if (!suggestion.supplierId) {
+        const variant = await ctx.db.get(suggestion.skuId);
+        throw new Error(
+          `No supplier is set up for the brand of ${variant?.skuCode ?? "this SKU"}`,
+        );
+      }
+      if (item.quantity <= 0) {
+        throw new Error("Order quantity must be greater than 0");
+      }
+
+      // Step 2: Group by supplier
+      const group = bySupplier.get(suggestion.supplierId) ?? [];
+      group.push({ suggestion, quantity: item.quantity });
+      bySupplier.set(suggestion.supplierId, group);
+    }
+
+    const orderedStatusId = await ensureReplenishmentStatus(ctx, "ORDERED");
+    const orders = [];
+    for (const [supplierId, group] of bySupplier) {
+      // Step 3: Draft purchase order
+      const { orderId, code } = await createDraftPurchaseOrder(ctx, {
+        receivingBranchId: args.branchId,
+        userId: args.userId,
+        supplierId,
+        note: `Replenishment: ${group.length} SKU(s) below reorder point`,
+        items: group.map(({ suggestion, quantity }) => ({
+          variantId: suggestion.skuId,
+          quantity,
+          unitPrice: suggestion.unitCost,
+        })),
+      });
+
+      // Step 4: Mark ordered
+      for (const { suggestion } of group) {
+        await ctx.db.patch(suggestion._id, {
+          replenishmentStatusTypeId: orderedStatusId,
+          purchaseOrderId: orderId,
+          updatedByUserId: args.userId,
+        });
+      }
+
+      const supplier = await ctx.db.get(supplierId);
+      orders.push({
+        orderId,
+        code,
+        supplierName: supplier?.name ?? "Unknown",
+        lineCount: group.length,
+      });
+    }
+
+    return { success: true, orders };
+  },
+});
+
+/**
+ * Refresh the suggestions of every active branch
+ * Called by the daily cron
+ */
+export const refreshAllReplenishmentSuggestions = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const branches = await ctx.db
+      .query("branches")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("isDeleted"), false),
+          q.eq(q.field("isActive"), true),
+        ),
+      )
+      .collect();
+
+    let open = 0;
+    for (const branch of branches) {
+      const result = await refreshBranchSuggestions(ctx, branch);
+      open += result.created + result.updated;
+    }
+
+    console.log(
+      `Refreshed replenishment for ${branches.length} branch(es): ${open} SKU(s) below reorder point.`,
+    );
+  },
+});
@@ -1,6 +1,38 @@
+/**
+ * RETURN REQUEST API - Supplier returns
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full lifecycle
+ * ✅ Purchasing Manager - approve, record credit, close
+ * ⚠️ Staff - pick and ship approved returns
+ *
+ * NOTES:
+ * - Lifecycle: REQUESTED → APPROVED → PICKED → SHIPPED → CREDIT_RECEIVED
+ *   → CLOSED; requests can be rejected or cancelled until shipped
+ * - Legacy PENDING requests follow the REQUESTED transitions
+ * - Picking reserves each line's units on its batch until the return ships
+ * - Cancelling or rejecting a return raised from a QC hold reopens the hold
+ * - Shipping deducts each line's batch through a RETURN_TO_VENDOR
+ *   inventory transaction linked to the line, one per serial for
+ *   serial-tracked SKUs
+ * - The credit the supplier actually issues is recorded per line next to
+ *   expectedCreditAmount; the difference is the credit variance
+ * - Every status change is written to the audit log
+ */
+
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
-import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { allocateBatches } from "./allocation";
+import { logAudit } from "./audit";
+import { applyInventoryChange, getReservedBatchQuantity } from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import { reopenHoldsForReturn } from "./qualityHolds";
+import {
+  findSerial,
+  isSerialTracked,
+  setSerialLocation,
+} from "./serialNumbers";
 
 // ================================================================
 // HELPER FUNCTIONS
@@ -42,6 +74,18 @@ async function getSystemLookup(ctx: any, lookupId: string) {
   }
 }
 
+/**
+ * Get inventory batch by ID (handles string ID from return_request_details)
+ */
+async function getBatchById(ctx: any, batchId: string) {
+  try {
+    const batch = await ctx.db.get(batchId as Id<"inventory_batches">);
+    return batch;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get product variant by ID
  */
@@ -54,6 +98,269 @@ async function getProductVariant(ctx: any, skuId: string) {
   }
 }
 
+const RETURN_STATUSES: Record<string, { value: string; description: string }> =
+  {
+    REQUESTED: {
+      value: "Requested",
+      description: "Return request is waiting for approval",
+    },
+    APPROVED: {
+      value: "Approved",
+      description: "Return request has been approved",
+    },
+    PICKED: {
+      value: "Picked",
+      description: "Return stock has been picked and staged",
+    },
+    SHIPPED: {
+      value: "Shipped",
+      description: "Return stock has been shipped to the supplier",
+    },
+    CREDIT_RECEIVED: {
+      value: "Credit Received",
+      description: "Supplier credit has been recorded",
+    },
+    CLOSED: { value: "Closed", description: "Return request is closed" },
+    REJECTED: {
+      value: "Rejected",
+      description: "Return request has been rejected",
+    },
+    CANCELLED: {
+      value: "Cancelled",
+      description: "Return request has been cancelled",
+    },
+  };
+
+const RETURN_TRANSITIONS: Record<string, string[]> = {
+  REQUESTED: ["APPROVED", "REJECTED", "CANCELLED"],
+  PENDING: ["APPROVED", "REJECTED", "CANCELLED"],
+  APPROVED: ["PICKED", "CANCELLED"],
+  PICKED: ["SHIPPED", "CANCELLED"],
+  SHIPPED: ["CREDIT_RECEIVED", "CLOSED"],
+  CREDIT_RECEIVED: ["CLOSED"],
+};
+
+/** Statuses reached only through their own mutation */
+const GUARDED_RETURN_STATUSES = ["PICKED", "SHIPPED", "CREDIT_RECEIVED"];
+
+async function ensureReturnStatus(ctx: MutationCtx, code: string) {
+  const status = RETURN_STATUSES[code];
+  if (!status) {
+    throw new Error(`Unknown return status ${code}`);
+  }
+  return await ensureSystemLookup(
+    ctx,
+    "ReturnStatus",
+    code,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Actions the UI can offer for a return request in a status
+ */
+function getAvailableActions(statusCode: string) {
+  const next = RETURN_TRANSITIONS[statusCode] ?? [];
+  const actions: string[] = [];
+  if (next.includes("APPROVED")) actions.push("APPROVE", "REJECT");
+  if (next.includes("PICKED")) actions.push("PICK");
+  if (next.includes("SHIPPED")) actions.push("SHIP");
+  if (next.includes("CREDIT_RECEIVED") || statusCode === "CREDIT_RECEIVED") {
+    actions.push("RECORD_CREDIT");
+  }
+  if (next.includes("CLOSED")) actions.push("CLOSE");
+  if (next.includes("CANCELLED")) actions.push("CANCEL");
+  return actions;
+}
+
+/**
+ * Expected and actual credit totals of a set of lines
+ */
+function summarizeCredit(details: Doc<"return_request_details">[]) {
+  const totalExpectedCredit = details.reduce(
+    (sum, detail) => sum + detail.expectedCreditAmount,
+    0,
+  );
+  const credited = details.filter(
+    (detail) => detail.actualCreditAmount !== undefined,
+  );
+  const totalActualCredit = credited.length
+    ? credited.reduce(
+        (sum, detail) => sum + (detail.actualCreditAmount ?? 0),
+        0,
+      )
+    : null;
+
+  return {
+    totalExpectedCredit,
+    totalActualCredit,
+    creditVariance:
+      totalActualCredit !== null
+        ? totalActualCredit - totalExpectedCredit
+        : null,
+  };
+}
+
+async function getActiveReturnRequest(
+  ctx: MutationCtx,
+  returnRequestId: Id<"return_requests">,
+) {
+  const returnRequest = await ctx.db.get(returnRequestId);
+  if (!returnRequest || returnRequest.isDeleted) {
+    throw new Error("Return request not found or has been deleted");
+  }
+  return returnRequest;
+}
+
+async function getReturnDetails(
+  ctx: MutationCtx,
+  returnRequestId: Id<"return_requests">,
+) {
+  return await ctx.db
+    .query("return_request_details")
+    .withIndex("returnRequestId", (q) =>
+      q.eq("returnRequestId", returnRequestId),
+    )
+    .collect();
+}
+
+/**
+ * Generate a unique return request code
+ * Format: RR-YYYYMMDD-XXXX
+ */
+async function generateReturnRequestCode(ctx: MutationCtx, branchId: string) {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+  const endOfDay = new Date(date.setHours(23, 59, 59, 999)).getTime();
+
+  const todayReturns = await ctx.db
+    .query("return_requests")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) =>
+      q.and(
+        q.gte(q.field("requestedAt"), startOfDay),
+        q.lte(q.field("requestedAt"), endOfDay),
+      ),
+    )
+    .collect();
+
+  const sequence = (todayReturns.length + 1).toString().padStart(4, "0");
+  return `RR-${dateStr}-${sequence}`;
+}
+
+/**
+ * Create a Requested supplier return for stock already set aside in batches
+ * Used by flows that decide on a return themselves, like customer RMAs
+ */
+export async function createSupplierReturnRequest(
+  ctx: MutationCtx,
+  args: {
+    organizationId: Id<"organizations">;
+    branchId: Id<"branches">;
+    supplierId: Id<"suppliers">;
+    userId: Id<"users">;
+    details: {
+      batchId: Id<"inventory_batches">;
+      skuId: Id<"product_variants">;
+      quantityToReturn: number;
+      reasonTypeId: Id<"system_lookups">;
+      customReasonNotes?: string;
+      expectedCreditAmount: number;
+    }[];
+  },
+) {
+  const requestCode = await generateReturnRequestCode(ctx, args.branchId);
+  const returnRequestId = await ctx.db.insert("return_requests", {
+    organizationId: args.organizationId,
+    branchId: args.branchId,
+    requestCode,
+    supplierId: args.supplierId,
+    requestedByUserId: args.userId,
+    requestedAt: Date.now(),
+    returnStatusTypeId: await ensureReturnStatus(ctx, "REQUESTED"),
+    isDeleted: false,
+  });
+
+  for (const detail of args.details) {
+    await ctx.db.insert("return_request_details", {
+      returnRequestId,
+      ...detail,
+    });
+  }
+
+  return { returnRequestId, requestCode };
+}
+
+/**
+ * Move a return request to a new status after checking the transition is
+ * allowed, and record the change in the audit log
+ */
+async function transitionReturnRequest(
+  ctx: MutationCtx,
+  args: {
+    returnRequest: Doc<"return_requests">;
+    toCode: string;
+    userId?: Id<"users">;
+    patch?: Partial<Doc<"return_requests">>;
+    notes?: string;
+  },
+) {
+  const fromCode =
+    (await getLookupCode(
+      ctx,
+      args.returnRequest.returnStatusTypeId as Id<"system_lookups">,
+    )) ?? "UNKNOWN";
+  if (!(RETURN_TRANSITIONS[fromCode] ?? []).includes(args.toCode)) {
+    throw new Error(
+      `Cannot move return request ${args.returnRequest.requestCode} from ${fromCode} to ${args.toCode}`,
+    );
+  }
+
+  const statusId = await ensureReturnStatus(ctx, args.toCode);
+  await ctx.db.patch(args.returnRequest._id, {
+    ...args.patch,
+    returnStatusTypeId: statusId,
+  });
+
+  const actionTypeId = await ensureSystemLookup(
+    ctx,
+    "AuditAction",
+    "STATUS_CHANGE",
+    "Status Change",
+    "Record status changed",
+  );
+  await logAudit(ctx, {
+    organizationId: args.returnRequest.organizationId as Id<"organizations">,
+    userId: args.userId,
+    actionTypeId,
+    entityType: "return_requests",
+    entityId: args.returnRequest._id,
+    fieldName: "returnStatusTypeId",
+    oldValue: fromCode,
+    newValue: args.toCode,
+    notes: args.notes,
+  });
+
+  // Units of a QC hold only leave with the return; without it they stay held
+  if (args.toCode === "CANCELLED" || args.toCode === "REJECTED") {
+    await reopenHoldsForReturn(ctx, {
+      returnRequestId: args.returnRequest._id,
+      returnStatusCode: args.toCode,
+      userId: args.userId,
+    });
+  }
+
+  return {
+    returnRequestId: args.returnRequest._id,
+    fromCode,
+    statusCode: args.toCode,
+  };
+}
+
 // ================================================================
 // QUERIES
 // ================================================================
@@ -106,7 +413,8 @@ export const getAllReturnRequest = query({
  * 1. Queries the return_requests table using the organizationId index
  * 2. Filters results to only include non-deleted records
  * 3. Enriches each request with supplier name, user name, and status
- * 4. Counts total SKUs and items for each request
+ * 4. Counts total SKUs and items for each request, and totals the
+ *    expected and actual credit
  *
  * Access: Available to all authenticated users within the organization
  */
@@ -166,8 +474,10 @@ export const listWithDetails = query({
             ? { fullName: requestedByUser.fullName }
             : null,
           returnStatus: status ? { lookupValue: status.lookupValue } : null,
+          statusCode: status?.lookupCode ?? null,
           totalSKUs,
           totalItems,
+          ...summarizeCredit(details),
         };
       }),
     );
@@ -269,8 +579,10 @@ export const getReturnRequestById = query({
  * Process:
  * 1. Fetches the return request from the database
  * 2. Enriches with supplier, user, and status information
- * 3. Enriches each detail line with SKU/product info and reason
- * 4. Returns the complete return request with all related data
+ * 3. Enriches each detail line with SKU/product info, batch, reason and
+ *    credit variance
+ * 4. Returns the complete return request with its lifecycle dates, the
+ *    actions available in its status and the credit totals
  *
  * Access: Available to all authenticated users within the organization
  */
@@ -313,15 +625,28 @@ export const getReturnRequestWithDetails = query({
           productName = (product as { name?: string } | null)?.name ?? null;
         }
 
+        const batch = await getBatchById(ctx, detail.batchId);
+
         return {
           _id: detail._id,
           skuCode: productVariant?.skuCode ?? "Unknown SKU",
           productName,
           quantityToReturn: detail.quantityToReturn,
           expectedCreditAmount: detail.expectedCreditAmount,
+          actualCreditAmount: detail.actualCreditAmount ?? null,
+          creditVariance:
+            detail.actualCreditAmount !== undefined
+              ? detail.actualCreditAmount - detail.expectedCreditAmount
+              : null,
           reason: reason ? { lookupValue: reason.lookupValue } : null,
           customReasonNotes: detail.customReasonNotes,
           batchId: detail.batchId,
+          batchNumber: batch?.internalBatchNumber ?? null,
+          batchQuantity: batch?.quantity ?? null,
+          isSerialTracked: await isSerialTracked(
+            ctx,
+            detail.skuId as Id<"product_variants">,
+          ),
         };
       }),
     );
@@ -332,10 +657,11 @@ export const getReturnRequestWithDetails = query({
       (sum, detail) => sum + detail.quantityToReturn,
       0,
     );
-    const totalExpectedCredit = returnDetails.reduce(
-      (sum, detail) => sum + detail.expectedCreditAmount,
-      0,
-    );
+    const credit = summarizeCredit(returnDetails);
+    const approvedByUser = returnRequest.approvedByUserId
+      ? await getUserById(ctx, returnRequest.approvedByUserId)
+      : null;
+    const statusCode = status?.lookupCode ?? "UNKNOWN";
 
     // Step 6: Return the complete return request with enriched details
     return {
@@ -347,9 +673,21 @@ export const getReturnRequestWithDetails = query({
         ? { fullName: requestedByUser.fullName }
         : null,
       returnStatus: status ? { lookupValue: status.lookupValue } : null,
+      statusCode,
+      availableActions: getAvailableActions(statusCode),
+      approvedByUser: approvedByUser
+        ? { fullName: approvedByUser.fullName }
+        : null,
+      approvedAt: returnRequest.approvedAt ?? null,
+      pickedAt: returnRequest.pickedAt ?? null,
+      shippedAt: returnRequest.shippedAt ?? null,
+      creditReceivedAt: returnRequest.creditReceivedAt ?? null,
+      creditNoteReference: returnRequest.creditNoteReference ?? null,
+      closedAt: returnRequest.closedAt ?? null,
+      closeReason: returnRequest.closeReason ?? null,
       totalSKUs,
       totalExpectedQuantity,
-      totalExpectedCredit,
+      ...credit,
       details: enrichedDetails,
     };
   },
@@ -358,13 +696,14 @@ export const getReturnRequestWithDetails = query({
 /**
  * setReturnRequestStatus
  *
- * Purpose: Updates the status of a specific return request
+ * Purpose: Moves a return request to another status of its lifecycle
  *
  * Process:
  * 1. Fetches the return request by ID to validate it exists
  * 2. Verifies the request is not deleted
- * 3. Updates the returnStatusTypeId to the new status
- * 4. Returns the updated return request ID
+ * 3. Refuses statuses that move stock or money; those go through
+ *    pickReturnRequest, shipReturnRequest and recordReturnCredit
+ * 4. Checks the transition is allowed, updates the status and audits it
  *
  * Access: Restricted to authorized users with permission to manage return requests
  * Typical users: Warehouse managers, supervisors, admins
@@ -373,23 +712,439 @@ export const setReturnRequestStatus = mutation({
   args: {
     returnRequestId: v.id("return_requests"),
     returnStatusTypeId: v.string(),
+    userId: v.optional(v.id("users")),
+    reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    // Step 1: Fetch the return request to validate it exists
-    const returnRequest = await ctx.db.get(args.returnRequestId);
+    // Step 1-2: Fetch and validate the return request
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
 
-    // Step 2: Validate request exists and is not deleted
-    if (!returnRequest || returnRequest.isDeleted) {
-      throw new Error("Return request not found or has been deleted");
+    // Step 3: Resolve the target status
+    const toCode = await getLookupCode(
+      ctx,
+      args.returnStatusTypeId as Id<"system_lookups">,
+    );
+    if (!toCode) {
+      throw new Error("Return status not found");
     }
+    if (GUARDED_RETURN_STATUSES.includes(toCode)) {
+      throw new Error(
+        `Use the ${toCode.toLowerCase().replace("_", " ")} action to move a return request to ${toCode}`,
+      );
+    }
+
+    // Step 4: Transition with audit
+    const now = Date.now();
+    const isClosing = ["CLOSED", "REJECTED", "CANCELLED"].includes(toCode);
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode,
+      userId: args.userId,
+      notes: args.reason,
+      patch: {
+        ...(toCode === "APPROVED"
+          ? { approvedByUserId: args.userId, approvedAt: now }
+          : {}),
+        ...(isClosing ? { closedAt: now, closeReason: args.reason } : {}),
+      },
+    });
+  },
+});
+
+/**
+ * approveReturnRequest
+ *
+ * Purpose: Approves a requested return so it can be picked
+ */
+export const approveReturnRequest = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
 
-    // Step 3: Update the status
-    await ctx.db.patch(args.returnRequestId, {
-      returnStatusTypeId: args.returnStatusTypeId,
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode: "APPROVED",
+      userId: args.userId,
+      patch: { approvedByUserId: args.userId, approvedAt: Date.now() },
     });
+  },
+});
 
-    // Step 4: Return the updated request ID
-    return args.returnRequestId;
+/**
+ * rejectReturnRequest
+ *
+ * Purpose: Rejects a requested return. A reason is required
+ */
+export const rejectReturnRequest = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!args.reason.trim()) {
+      throw new Error("A reason is required to reject a return request");
+    }
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
+
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode: "REJECTED",
+      userId: args.userId,
+      notes: args.reason,
+      patch: { closedAt: Date.now(), closeReason: args.reason },
+    });
+  },
+});
+
+/**
+ * pickReturnRequest
+ *
+ * Purpose: Confirms the return stock has been picked and staged
+ *
+ * Process:
+ * 1. Validates the request is approved
+ * 2. Checks every batch still holds the quantity its lines return, net of
+ *    units other work already reserves
+ * 3. Moves the request to PICKED, which reserves the lines' units
+ */
+export const pickReturnRequest = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the request
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
+    const details = await getReturnDetails(ctx, args.returnRequestId);
+
+    // Step 2: Check batch quantities, summing lines on the same batch
+    const quantityByBatch = new Map<string, number>();
+    for (const detail of details) {
+      quantityByBatch.set(
+        detail.batchId,
+        (quantityByBatch.get(detail.batchId) ?? 0) + detail.quantityToReturn,
+      );
+    }
+    for (const [batchId, quantity] of quantityByBatch) {
+      const batch = await getBatchById(ctx, batchId);
+      if (!batch || batch.isDeleted) {
+        throw new Error(`Batch ${batchId} on the return no longer exists`);
+      }
+      const available =
+        batch.quantity - (await getReservedBatchQuantity(ctx, batch._id));
+      if (available < quantity) {
+        throw new Error(
+          `Batch ${batch.internalBatchNumber ?? batchId} has ${available} unreserved, return needs ${quantity}`,
+        );
+      }
+    }
+
+    // Step 3: Move to PICKED
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode: "PICKED",
+      userId: args.userId,
+      patch: { pickedAt: Date.now() },
+    });
+  },
+});
+
+/**
+ * shipReturnRequest
+ *
+ * Purpose: Ships picked stock back to the supplier
+ *
+ * Process:
+ * 1. Validates the request is picked
+ * 2. Requires the shipped serials of every serial-tracked line; each must
+ *    sit in the line's batch
+ * 3. Deducts each line from its batch with a RETURN_TO_VENDOR inventory
+ *    transaction linked to the line, one unit per serial, and marks the
+ *    serials Returned; emptied batches are soft-deleted
+ * 4. Moves the request to SHIPPED
+ */
+export const shipReturnRequest = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+    notes: v.optional(v.string()),
+    lines: v.optional(
+      v.array(
+        v.object({
+          detailId: v.id("return_request_details"),
+          serialNumbers: v.array(v.string()),
+        }),
+      ),
+    ),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the request
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
+    const details = await getReturnDetails(ctx, args.returnRequestId);
+
+    // Step 2: Resolve the serials of serial-tracked lines
+    const serialsByDetail = new Map<string, Doc<"serial_numbers">[]>();
+    const seen = new Set<string>();
+    for (const detail of details) {
+      if (
+        !(await isSerialTracked(ctx, detail.skuId as Id<"product_variants">))
+      ) {
+        continue;
+      }
+      const batch = await getBatchById(ctx, detail.batchId);
+      const batchLabel = batch?.internalBatchNumber ?? detail.batchId;
+      const serialNumbers =
+        args.lines?.find((line) => line.detailId === detail._id)
+          ?.serialNumbers ?? [];
+      if (serialNumbers.length !== detail.quantityToReturn) {
+        throw new Error(
+          `Scan ${detail.quantityToReturn} serial(s) for batch ${batchLabel}; got ${serialNumbers.length}`,
+        );
+      }
+
+      const serials: Doc<"serial_numbers">[] = [];
+      for (const serialNumber of serialNumbers) {
+        const serial = await findSerial(
+          ctx,
+          returnRequest.organizationId as Id<"organizations">,
+          serialNumber,
+        );
+        if (!serial || serial.skuId !== detail.skuId) {
+          throw new Error(`Serial ${serialNumber} is not on this return`);
+        }
+        if (seen.has(serial._id)) {
+          throw new Error(
+            `Serial ${serial.serialNumber} was entered more than once`,
+          );
+        }
+        seen.add(serial._id);
+        if (serial.batchId !== detail.batchId) {
+          throw new Error(
+            `Serial ${serial.serialNumber} is not in batch ${batchLabel}`,
+          );
+        }
+        // Serials bound for the supplier from a hold or an RMA are quarantined
+        const statusCode = await getLookupCode(ctx, serial.serialStatusTypeId);
+        if (statusCode !== "AVAILABLE" && statusCode !== "QUARANTINED") {
+          throw new Error(
+            `Serial ${serial.serialNumber} is not in stock (${statusCode ?? "unknown status"})`,
+          );
+        }
+        serials.push(serial);
+      }
+      serialsByDetail.set(detail._id, serials);
+    }
+
+    // Step 3: Deduct the batches
+    const returnTypeId = await ensureSystemLookup(
+      ctx,
+      "InventoryTransactionType",
+      "RETURN_TO_VENDOR",
+      "Return to Vendor",
+      "Stock shipped back to a supplier",
+    );
+    for (const detail of details) {
+      const serials = serialsByDetail.get(detail._id);
+      const units = serials
+        ? serials.map((serial) => ({ serial, quantity: 1 }))
+        : [{ serial: null, quantity: detail.quantityToReturn }];
+      for (const unit of units) {
+        const { quantityAfter } = await applyInventoryChange(ctx, {
+          batchId: detail.batchId as Id<"inventory_batches">,
+          quantityChange: -unit.quantity,
+          inventoryTransactionTypeId: returnTypeId,
+          createdByUserId: args.userId,
+          notes: args.notes ?? `Return ${returnRequest.requestCode}`,
+          returnRequestDetailId: detail._id,
+          serialNumberId: unit.serial?._id,
+        });
+        if (unit.serial) {
+          await setSerialLocation(ctx, unit.serial._id, "RETURNED");
+        }
+        if (quantityAfter === 0) {
+          await ctx.db.patch(detail.batchId as Id<"inventory_batches">, {
+            isDeleted: true,
+            deletedAt: Date.now(),
+          });
+        }
+      }
+    }
+
+    // Step 4: Move to SHIPPED
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode: "SHIPPED",
+      userId: args.userId,
+      notes: args.notes,
+      patch: { shippedAt: Date.now() },
+    });
+  },
+});
+
+/**
+ * recordReturnCredit
+ *
+ * Purpose: Records the credit the supplier issued for each line
+ *
+ * Process:
+ * 1. Validates the request is shipped, or already credited when correcting
+ * 2. Requires an amount for every line and stores it next to the expected
+ *    credit
+ * 3. Moves a shipped request to CREDIT_RECEIVED and returns the variance
+ */
+export const recordReturnCredit = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+    creditNoteReference: v.optional(v.string()),
+    lines: v.array(
+      v.object({
+        detailId: v.id("return_request_details"),
+        actualCreditAmount: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    // Step 1: Validate the request
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
+    const statusCode = await getLookupCode(
+      ctx,
+      returnRequest.returnStatusTypeId as Id<"system_lookups">,
+    );
+    if (statusCode !== "SHIPPED" && statusCode !== "CREDIT_RECEIVED") {
+      throw new Error(
+        "Credit can only be recorded once the return has shipped",
+      );
+    }
+
+    // Step 2: Validate and store the amounts
+    const details = await getReturnDetails(ctx, args.returnRequestId);
+    const amounts = new Map(
+      args.lines.map((line) => [line.detailId, line.actualCreditAmount]),
+    );
+    for (const detail of details) {
+      const amount = amounts.get(detail._id);
+      if (amount === undefined) {
+        throw new Error("Enter the credited amount for every return line");
+      }
+      if (amount < 0) {
+        throw new Error("Credited amount cannot be negative");
+      }
+    }
+    for (const detail of details) {
+      await ctx.db.patch(detail._id, {
+        actualCreditAmount: amounts.get(detail._id),
+      });
+    }
+
+    // Step 3: Move to CREDIT_RECEIVED
+    const now = Date.now();
+    const credit = summarizeCredit(
+      details.map((detail) => ({
+        ...detail,
+        actualCreditAmount: amounts.get(detail._id),
+      })),
+    );
+    const notes = `Credit ${credit.totalActualCredit} against expected ${credit.totalExpectedCredit}`;
+    if (statusCode === "SHIPPED") {
+      await transitionReturnRequest(ctx, {
+        returnRequest,
+        toCode: "CREDIT_RECEIVED",
+        userId: args.userId,
+        notes,
+        patch: {
+          creditReceivedAt: now,
+          creditNoteReference: args.creditNoteReference,
+        },
+      });
+    } else {
+      await ctx.db.patch(returnRequest._id, {
+        creditNoteReference:
+          args.creditNoteReference ?? returnRequest.creditNoteReference,
+      });
+    }
+
+    return { returnRequestId: returnRequest._id, ...credit };
+  },
+});
+
+/**
+ * closeReturnRequest
+ *
+ * Purpose: Closes a shipped return. Closing without a recorded credit
+ * needs a reason, e.g. the supplier refused the return
+ */
+export const closeReturnRequest = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
+    if (!returnRequest.creditReceivedAt && !args.reason?.trim()) {
+      throw new Error("A reason is required to close a return without credit");
+    }
+
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode: "CLOSED",
+      userId: args.userId,
+      notes: args.reason,
+      patch: { closedAt: Date.now(), closeReason: args.reason },
+    });
+  },
+});
+
+/**
+ * cancelReturnRequest
+ *
+ * Purpose: Cancels a return that has not shipped yet
+ */
+export const cancelReturnRequest = mutation({
+  args: {
+    returnRequestId: v.id("return_requests"),
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const returnRequest = await getActiveReturnRequest(
+      ctx,
+      args.returnRequestId,
+    );
+
+    return await transitionReturnRequest(ctx, {
+      returnRequest,
+      toCode: "CANCELLED",
+      userId: args.userId,
+      notes: args.reason,
+      patch: { closedAt: Date.now(), closeReason: args.reason },
+    });
   },
 });
 
@@ -400,8 +1155,10 @@ export const setReturnRequestStatus = mutation({
  *
  * Process:
  * 1. Validates that at least one detail line item is provided
- * 2. Creates the return request header with initial status
- * 3. Creates all associated return request detail records
+ * 2. Creates the return request header as REQUESTED (or legacy PENDING)
+ * 3. Creates all associated return request detail records; lines without a
+ *    batch are allocated by the FEFO/FIFO rules, expired stock included,
+ *    and split into one detail per batch with the credit pro rata
  * 4. Returns the newly created return request ID
  *
  * Access: Restricted to authorized users with permission to create return requests
@@ -414,10 +1171,10 @@ export const createReturnRequest = mutation({
     requestCode: v.string(),
     supplierId: v.string(),
     requestedByUserId: v.string(),
-    returnStatusTypeId: v.string(),
+    returnStatusTypeId: v.optional(v.string()), // Defaults to REQUESTED
     details: v.array(
       v.object({
-        batchId: v.string(),
+        batchId: v.optional(v.string()),
         skuId: v.string(),
         quantityToReturn: v.number(),
         reasonTypeId: v.string(),
@@ -432,7 +1189,17 @@ export const createReturnRequest = mutation({
       throw new Error("Return request must have at least one detail line item");
     }
 
-    // Step 2: Create the return request header
+    // Step 2: Create the return request header at the start of the lifecycle
+    const requestedStatusId = await ensureReturnStatus(ctx, "REQUESTED");
+    if (args.returnStatusTypeId) {
+      const statusCode = await getLookupCode(
+        ctx,
+        args.returnStatusTypeId as Id<"system_lookups">,
+      );
+      if (statusCode !== "REQUESTED" && statusCode !== "PENDING") {
+        throw new Error("New return requests start as Requested");
+      }
+    }
     const returnRequestId = await ctx.db.insert("return_requests", {
       organizationId: args.organizationId,
       branchId: args.branchId,
@@ -440,12 +1207,48 @@ export const createReturnRequest = mutation({
       supplierId: args.supplierId,
       requestedByUserId: args.requestedByUserId,
       requestedAt: Date.now(),
-      returnStatusTypeId: args.returnStatusTypeId,
+      returnStatusTypeId: args.returnStatusTypeId ?? requestedStatusId,
       isDeleted: false,
     });
 
     // Step 3: Create all return request detail records
     for (const detail of args.details) {
+      if (!detail.batchId) {
+        const branchId = ctx.db.normalizeId("branches", args.branchId);
+        const skuId = ctx.db.normalizeId("product_variants", detail.skuId);
+        if (!branchId || !skuId) {
+          throw new Error("Invalid branch or SKU on return request line");
+        }
+
+        const { allocations, shortfall } = await allocateBatches(
+          ctx,
+          branchId,
+          skuId,
+          detail.quantityToReturn,
+          { statusCodes: ["ACTIVE", "EXPIRED"], includeExpired: true },
+        );
+        if (shortfall > 0) {
+          throw new Error(
+            `Insufficient stock to return for SKU ${detail.skuId}: short by ${shortfall}`,
+          );
+        }
+
+        for (const allocation of allocations) {
+          await ctx.db.insert("return_request_details", {
+            returnRequestId,
+            batchId: allocation.batchId,
+            skuId: detail.skuId,
+            quantityToReturn: allocation.quantity,
+            reasonTypeId: detail.reasonTypeId,
+            customReasonNotes: detail.customReasonNotes,
+            expectedCreditAmount:
+              (detail.expectedCreditAmount * allocation.quantity) /
+              detail.quantityToReturn,
+          });
+        }
+        continue;
+      }
+
       await ctx.db.insert("return_request_details", {
         returnRequestId,
         batchId: detail.batchId,
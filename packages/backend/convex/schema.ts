@@ -239,6 +239,7 @@ export default defineSchema({
     email: v.string(),
     phone: v.string(),
     defaultLeadTimeDays: v.number(),
+    requiresInspection: v.optional(v.boolean()), // Hold receipts for QC
     isActive: v.boolean(),
     isDeleted: v.boolean(),
     deletedAt: v.optional(v.number()),
@@ -266,6 +267,30 @@ export default defineSchema({
     .index("zoneTypeId", ["zoneTypeId"])
     .index("isDeleted", ["isDeleted"]),
 
+  warehouse_layouts: defineTable({
+    organizationId: v.id("organizations"),
+    branchId: v.id("branches"),
+    version: v.number(),
+    layoutStatusTypeId: v.id("system_lookups"),
+    layout: v.any(), // WarehouseLayout JSON (specs/layout-editor)
+    validationErrors: v.array(
+      v.object({
+        path: v.string(),
+        message: v.string(),
+        elementId: v.optional(v.string()),
+        rule: v.optional(v.string()), // LOCKED | INACCESSIBLE
+      }),
+    ),
+    createdByUserId: v.id("users"),
+    updatedByUserId: v.id("users"),
+    updatedAt: v.number(),
+    publishedByUserId: v.optional(v.id("users")),
+    publishedAt: v.optional(v.number()),
+  })
+    .index("organizationId", ["organizationId"])
+    .index("branchId_version", ["branchId", "version"])
+    .index("layoutStatusTypeId", ["layoutStatusTypeId"]),
+
   // ================================================================
   // PURCHASE ORDER MANAGEMENT
   // ================================================================
@@ -279,6 +304,14 @@ export default defineSchema({
     expectedDeliveryAt: v.optional(v.number()),
     createdByUserId: v.id("users"),
     purchaseOrderStatusTypeId: v.id("system_lookups"),
+    note: v.optional(v.string()),
+    version: v.optional(v.number()), // Bumped on every line amendment
+    submittedAt: v.optional(v.number()),
+    approvedByUserId: v.optional(v.id("users")),
+    approvedAt: v.optional(v.number()),
+    sentAt: v.optional(v.number()),
+    closedAt: v.optional(v.number()), // Received in full, closed short or cancelled
+    closeReason: v.optional(v.string()),
     isDeleted: v.boolean(),
     deletedAt: v.optional(v.number()),
   })
@@ -299,6 +332,47 @@ export default defineSchema({
     .index("purchaseOrderId", ["purchaseOrderId"])
     .index("skuId", ["skuId"]),
 
+  // Snapshot of the lines each time a purchase order is created or amended
+  purchase_order_versions: defineTable({
+    purchaseOrderId: v.id("purchase_orders"),
+    version: v.number(),
+    items: v.array(
+      v.object({
+        skuId: v.id("product_variants"),
+        quantityOrdered: v.number(),
+        unitCost: v.number(),
+      }),
+    ),
+    expectedDeliveryAt: v.optional(v.number()),
+    note: v.optional(v.string()),
+    reason: v.optional(v.string()),
+    changedByUserId: v.id("users"),
+    changedAt: v.number(),
+  }).index("purchaseOrderId_version", ["purchaseOrderId", "version"]),
+
+  // Reorder point checks per SKU and branch, refreshed by a daily cron
+  replenishment_suggestions: defineTable({
+    organizationId: v.id("organizations"),
+    branchId: v.id("branches"),
+    skuId: v.id("product_variants"),
+    supplierId: v.optional(v.id("suppliers")), // Supplier of the product's brand
+    reorderPoint: v.number(),
+    onHand: v.number(),
+    available: v.number(),
+    inTransit: v.number(),
+    onOrder: v.number(),
+    dailyUsage: v.number(), // Average outbound units per day, last 90 days
+    suggestedQuantity: v.number(),
+    unitCost: v.number(),
+    replenishmentStatusTypeId: v.id("system_lookups"), // OPEN | ORDERED | DISMISSED
+    purchaseOrderId: v.optional(v.id("purchase_orders")),
+    computedAt: v.number(),
+    updatedByUserId: v.optional(v.id("users")),
+  })
+    .index("organizationId", ["organizationId"])
+    .index("branchId_skuId", ["branchId", "skuId"])
+    .index("replenishmentStatusTypeId", ["replenishmentStatusTypeId"]),
+
   // ================================================================
   // Receive SESSIONS
   // ================================================================
@@ -451,12 +525,52 @@ export default defineSchema({
     workSessionId: v.optional(v.id("work_sessions")),
     adjustmentRequestDetailId: v.optional(v.id("adjustment_request_details")),
     outboundOrderDetailId: v.optional(v.id("outbound_order_details")),
+    returnRequestDetailId: v.optional(v.id("return_request_details")),
+    customerReturnDetailId: v.optional(v.id("customer_return_details")),
+    inventoryHoldId: v.optional(v.id("inventory_holds")),
   })
     .index("organizationId", ["organizationId"])
+    .index("organizationId_inventoryTransactionTypeId", [
+      "organizationId",
+      "inventoryTransactionTypeId",
+    ])
     .index("batchId", ["batchId"])
     .index("serialNumberId", ["serialNumberId"])
     .index("inventoryTransactionTypeId", ["inventoryTransactionTypeId"])
-    .index("createdByUserId", ["createdByUserId"]),
+    .index("createdByUserId", ["createdByUserId"])
+    .index("transferOrderDetailId", ["transferOrderDetailId"])
+    .index("adjustmentRequestDetailId", ["adjustmentRequestDetailId"])
+    .index("outboundOrderDetailId", ["outboundOrderDetailId"])
+    .index("customerReturnDetailId", ["customerReturnDetailId"])
+    .index("inventoryHoldId", ["inventoryHoldId"]),
+
+  inventory_holds: defineTable({
+    organizationId: v.id("organizations"),
+    branchId: v.id("branches"),
+    holdCode: v.string(),
+    skuId: v.id("product_variants"),
+    batchId: v.id("inventory_batches"), // Held (Quarantine) batch
+    sourceBatchId: v.id("inventory_batches"),
+    sourceZoneId: v.id("storage_zones"),
+    quantity: v.number(),
+    serialNumbers: v.optional(v.array(v.string())),
+    reason: v.string(),
+    holdStatusTypeId: v.id("system_lookups"), // HELD | RELEASED | REJECTED
+    supplierId: v.optional(v.id("suppliers")),
+    receiveSessionId: v.optional(v.id("receive_sessions")),
+    placedByUserId: v.id("users"),
+    placedAt: v.number(),
+    dispositionTypeId: v.optional(v.id("system_lookups")), // SCRAP | RETURN_TO_VENDOR
+    returnRequestId: v.optional(v.id("return_requests")),
+    resolvedByUserId: v.optional(v.id("users")),
+    resolvedAt: v.optional(v.number()),
+    resolutionNotes: v.optional(v.string()),
+  })
+    .index("organizationId", ["organizationId"])
+    .index("branchId", ["branchId"])
+    .index("batchId", ["batchId"])
+    .index("holdStatusTypeId", ["holdStatusTypeId"])
+    .index("returnRequestId", ["returnRequestId"]),
 
   // ================================================================
   // OUTBOUND OPERATIONS
@@ -469,6 +583,8 @@ export default defineSchema({
     orderDate: v.number(),
     requestedShipDate: v.optional(v.number()),
     trackingNumber: v.optional(v.string()),
+    customerName: v.optional(v.string()),
+    shippingAddress: v.optional(v.string()),
     createdByUserId: v.id("users"),
     outboundStatusTypeId: v.id("system_lookups"),
     isDeleted: v.boolean(),
@@ -490,6 +606,63 @@ export default defineSchema({
     .index("outboundOrderId", ["outboundOrderId"])
     .index("skuId", ["skuId"]),
 
+  // ================================================================
+  // CUSTOMER RETURNS (RMA)
+  // ================================================================
+
+  customer_returns: defineTable({
+    organizationId: v.id("organizations"),
+    branchId: v.id("branches"),
+    rmaCode: v.string(),
+    outboundOrderId: v.id("outbound_orders"),
+    customerName: v.optional(v.string()),
+    reason: v.optional(v.string()),
+    createdByUserId: v.id("users"),
+    rmaStatusTypeId: v.id("system_lookups"),
+    authorizedAt: v.number(),
+    receivingZoneId: v.optional(v.id("storage_zones")), // Set at first receipt
+    receivedAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()), // Completed or cancelled
+    closeReason: v.optional(v.string()),
+    isDeleted: v.boolean(),
+    deletedAt: v.optional(v.number()),
+  })
+    .index("organizationId", ["organizationId"])
+    .index("branchId", ["branchId"])
+    .index("rmaCode", ["rmaCode"])
+    .index("outboundOrderId", ["outboundOrderId"])
+    .index("rmaStatusTypeId", ["rmaStatusTypeId"])
+    .index("isDeleted", ["isDeleted"]),
+
+  customer_return_details: defineTable({
+    customerReturnId: v.id("customer_returns"),
+    outboundOrderDetailId: v.id("outbound_order_details"),
+    skuId: v.id("product_variants"),
+    quantityAuthorized: v.number(),
+    quantityReceived: v.number(),
+    quantityInspected: v.number(),
+    inspectionBatchId: v.optional(v.id("inventory_batches")), // Received units awaiting inspection
+  })
+    .index("customerReturnId", ["customerReturnId"])
+    .index("outboundOrderDetailId", ["outboundOrderDetailId"]),
+
+  customer_return_dispositions: defineTable({
+    customerReturnId: v.id("customer_returns"),
+    customerReturnDetailId: v.id("customer_return_details"),
+    dispositionTypeId: v.id("system_lookups"), // RESTOCK | QUARANTINE | SCRAP | RETURN_TO_VENDOR
+    quantity: v.number(),
+    serialNumbers: v.optional(v.array(v.string())),
+    zoneId: v.optional(v.id("storage_zones")),
+    batchId: v.optional(v.id("inventory_batches")), // Where the units went
+    returnRequestId: v.optional(v.id("return_requests")),
+    condition: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    inspectedByUserId: v.id("users"),
+    inspectedAt: v.number(),
+  })
+    .index("customerReturnId", ["customerReturnId"])
+    .index("customerReturnDetailId", ["customerReturnDetailId"]),
+
   // ================================================================
   // INVENTORY ADJUSTMENTS
   // ================================================================
@@ -505,13 +678,15 @@ export default defineSchema({
     approvedAt: v.optional(v.number()),
     adjustmentStatusTypeId: v.string(),
     resolutionNotes: v.optional(v.string()),
+    workSessionId: v.optional(v.id("work_sessions")), // Cycle count the variances came from
   })
     .index("organizationId", ["organizationId"])
     .index("branchId", ["branchId"])
     .index("requestCode", ["requestCode"])
     .index("adjustmentTypeId", ["adjustmentTypeId"])
     .index("requestedByUserId", ["requestedByUserId"])
-    .index("adjustmentStatusTypeId", ["adjustmentStatusTypeId"]),
+    .index("adjustmentStatusTypeId", ["adjustmentStatusTypeId"])
+    .index("workSessionId", ["workSessionId"]),
 
   adjustment_request_details: defineTable({
     adjustmentRequestId: v.id("adjustment_requests"),
@@ -527,6 +702,7 @@ export default defineSchema({
     fromZoneId: v.optional(v.string()), // Source zone for location adjustments
     toZoneId: v.optional(v.string()), // Destination zone for location adjustments
     quantity: v.optional(v.number()), // Quantity to move for location adjustments
+    zoneId: v.optional(v.id("storage_zones")), // Counted zone of found stock; approval creates its batch
   })
     .index("adjustmentRequestId", ["adjustmentRequestId"])
     .index("batchId", ["batchId"])
@@ -545,6 +721,14 @@ export default defineSchema({
     requestedByUserId: v.string(),
     requestedAt: v.number(),
     returnStatusTypeId: v.string(),
+    approvedByUserId: v.optional(v.string()),
+    approvedAt: v.optional(v.number()),
+    pickedAt: v.optional(v.number()),
+    shippedAt: v.optional(v.number()),
+    creditReceivedAt: v.optional(v.number()),
+    creditNoteReference: v.optional(v.string()),
+    closedAt: v.optional(v.number()), // Closed, rejected or cancelled
+    closeReason: v.optional(v.string()),
     isDeleted: v.boolean(),
     deletedAt: v.optional(v.number()),
   })
@@ -564,6 +748,7 @@ export default defineSchema({
     reasonTypeId: v.string(),
     customReasonNotes: v.optional(v.string()),
     expectedCreditAmount: v.number(),
+    actualCreditAmount: v.optional(v.number()), // Credited by the supplier
   })
     .index("returnRequestId", ["returnRequestId"])
     .index("batchId", ["batchId"])
@@ -635,11 +820,16 @@ export default defineSchema({
     forecastDate: v.number(),
     forecastTypeId: v.id("system_lookups"),
     predictedDemand: v.number(),
-    confidenceInterval: v.number(),
+    confidenceInterval: v.number(), // Confidence level of the bounds, e.g. 0.8
     calculationMethod: v.string(),
+    lowerBound: v.optional(v.number()),
+    upperBound: v.optional(v.number()),
+    backtestMape: v.optional(v.number()), // % error of the method on held-out periods
+    generatedAt: v.optional(v.number()),
   })
     .index("organizationId", ["organizationId"])
     .index("skuId", ["skuId"])
+    .index("skuId_forecastDate", ["skuId", "forecastDate"])
     .index("forecastDate", ["forecastDate"]),
 
   report_templates: defineTable({
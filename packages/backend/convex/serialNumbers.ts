@@ -0,0 +1,648 @@
+/**
+ * SERIAL NUMBERS API - Serial lifecycle tracking
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full lifecycle
+ * ✅ Admin - full lifecycle
+ * ✅ Staff - lookup, pick and return
+ *
+ * NOTES:
+ * - Applies to products whose tracking method is SERIAL
+ * - Lifecycle: Available → Sold (picked) → Available (customer return)
+ *              Available → In Transit (transfer) → Available / Missing
+ *              Available → Returned (to supplier)
+ *              Sold → Quarantined (customer RMA) → Available / Scrapped /
+ *              Returned
+ * - Every movement writes one inventory_transactions row per serial
+ *   (serialNumberId set), which is the serial's movement history
+ * - Serial numbers are unique per organization
+ */
+
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { applyInventoryChange } from "./inventory";
+import { ensureSystemLookup, getLookupCode, getSystemLookup } from "./lookups";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const SERIAL_STATUSES = {
+  AVAILABLE: { value: "Available", description: "Serial number is in stock" },
+  SOLD: {
+    value: "Sold",
+    description: "Serial number has been picked for an order",
+  },
+  IN_TRANSIT: {
+    value: "In Transit",
+    description: "Serial number is on an inter-branch transfer",
+  },
+  RETURNED: {
+    value: "Returned",
+    description: "Serial number was returned to the supplier",
+  },
+  MISSING: {
+    value: "Missing",
+    description: "Serial number was not received at the transfer destination",
+  },
+  QUARANTINED: {
+    value: "Quarantined",
+    description: "Serial number is held and cannot be picked",
+  },
+  SCRAPPED: {
+    value: "Scrapped",
+    description: "Serial number was written off as scrap",
+  },
+} as const;
+
+export type SerialStatusCode = keyof typeof SERIAL_STATUSES;
+
+/**
+ * Get the lookup ID for a serial status, creating it if missing
+ */
+export async function ensureSerialStatus(
+  ctx: MutationCtx,
+  statusCode: SerialStatusCode,
+): Promise<Id<"system_lookups">> {
+  const status = SERIAL_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "SerialStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Check whether a SKU belongs to a serial-tracked product
+ */
+export async function isSerialTracked(
+  ctx: QueryCtx,
+  skuId: Id<"product_variants">,
+): Promise<boolean> {
+  const variant = await ctx.db.get(skuId);
+  if (!variant) return false;
+  const product = await ctx.db.get(variant.productId);
+  if (!product) return false;
+  return (await getLookupCode(ctx, product.trackingMethodTypeId)) === "SERIAL";
+}
+
+/**
+ * Find a serial number of an organization
+ */
+export async function findSerial(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  serialNumber: string,
+): Promise<Doc<"serial_numbers"> | null> {
+  return await ctx.db
+    .query("serial_numbers")
+    .withIndex("serialNumber", (q) => q.eq("serialNumber", serialNumber.trim()))
+    .filter((q) => q.eq(q.field("organizationId"), organizationId))
+    .first();
+}
+
+/**
+ * Trim serial numbers and reject blanks and duplicates in the same request
+ */
+function normalizeSerialNumbers(serialNumbers: string[]): string[] {
+  const normalized = serialNumbers.map((s) => s.trim());
+  if (normalized.some((s) => s === "")) {
+    throw new Error("Serial numbers cannot be blank");
+  }
+  const duplicate = normalized.find((s, i) => normalized.indexOf(s) !== i);
+  if (duplicate) {
+    throw new Error(`Serial ${duplicate} was entered more than once`);
+  }
+  return normalized;
+}
+
+/**
+ * Validate serial numbers captured at receiving and create them in stock
+ * Throws when a serial already exists in the organization
+ */
+export async function registerSerialNumbers(
+  ctx: MutationCtx,
+  params: {
+    organizationId: Id<"organizations">;
+    skuId: Id<"product_variants">;
+    batchId: Id<"inventory_batches">;
+    zoneId: Id<"storage_zones">;
+    serialNumbers: string[];
+    warrantyExpiresAt?: number;
+    purchaseOrderId?: Id<"purchase_orders">;
+  },
+): Promise<Id<"serial_numbers">[]> {
+  const serialNumbers = normalizeSerialNumbers(params.serialNumbers);
+  for (const serialNumber of serialNumbers) {
+    if (await findSerial(ctx, params.organizationId, serialNumber)) {
+      throw new Error(`Serial ${serialNumber} is already registered`);
+    }
+  }
+
+  const availableStatusId = await ensureSerialStatus(ctx, "AVAILABLE");
+  const serialIds: Id<"serial_numbers">[] = [];
+  for (const serialNumber of serialNumbers) {
+    serialIds.push(
+      await ctx.db.insert("serial_numbers", {
+        organizationId: params.organizationId,
+        serialNumber,
+        skuId: params.skuId,
+        batchId: params.batchId,
+        zoneId: params.zoneId,
+        serialStatusTypeId: availableStatusId,
+        warrantyExpiresAt: params.warrantyExpiresAt,
+        purchaseOrderId: params.purchaseOrderId,
+      }),
+    );
+  }
+
+  return serialIds;
+}
+
+/**
+ * Resolve serial numbers that must be in stock for a SKU
+ * Optionally requires them to sit in a zone or a branch
+ */
+export async function getSerialsInStock(
+  ctx: QueryCtx,
+  params: {
+    organizationId: Id<"organizations">;
+    skuId: Id<"product_variants">;
+    serialNumbers: string[];
+    zoneId?: Id<"storage_zones">;
+    branchId?: Id<"branches">;
+    batchId?: Id<"inventory_batches">;
+  },
+): Promise<Doc<"serial_numbers">[]> {
+  const serials: Doc<"serial_numbers">[] = [];
+  for (const serialNumber of normalizeSerialNumbers(params.serialNumbers)) {
+    const serial = await findSerial(ctx, params.organizationId, serialNumber);
+    if (!serial) {
+      throw new Error(`Serial ${serialNumber} not found`);
+    }
+    if (serial.skuId !== params.skuId) {
+      throw new Error(`Serial ${serialNumber} belongs to a different SKU`);
+    }
+
+    const statusCode = await getLookupCode(ctx, serial.serialStatusTypeId);
+    if (statusCode !== "AVAILABLE" || !serial.batchId || !serial.zoneId) {
+      throw new Error(
+        `Serial ${serialNumber} is not in stock (${statusCode ?? "unknown status"})`,
+      );
+    }
+
+    if (params.zoneId && serial.zoneId !== params.zoneId) {
+      const zone = await ctx.db.get(params.zoneId);
+      throw new Error(
+        `Serial ${serialNumber} is not in zone ${zone?.name ?? params.zoneId}`,
+      );
+    }
+    if (params.batchId && serial.batchId !== params.batchId) {
+      const batch = await ctx.db.get(params.batchId);
+      throw new Error(
+        `Serial ${serialNumber} is not in batch ${batch?.internalBatchNumber ?? params.batchId}`,
+      );
+    }
+    if (params.branchId) {
+      const batch = await ctx.db.get(serial.batchId);
+      if (batch?.branchId !== params.branchId) {
+        throw new Error(`Serial ${serialNumber} is not in this branch`);
+      }
+    }
+
+    serials.push(serial);
+  }
+
+  return serials;
+}
+
+/**
+ * Take the first in-stock serials of a batch, for flows that move
+ * serial-tracked stock without scanning
+ */
+export async function takeSerialsFromBatch(
+  ctx: QueryCtx,
+  batchId: Id<"inventory_batches">,
+  quantity: number,
+): Promise<Doc<"serial_numbers">[]> {
+  const availableStatus = await getSystemLookup(
+    ctx,
+    "SerialStatus",
+    "AVAILABLE",
+  );
+  const serials = availableStatus
+    ? await ctx.db
+        .query("serial_numbers")
+        .withIndex("batchId", (q) => q.eq("batchId", batchId))
+        .filter((q) => q.eq(q.field("serialStatusTypeId"), availableStatus._id))
+        .take(quantity)
+    : [];
+
+  if (serials.length < quantity) {
+    const batch = await ctx.db.get(batchId);
+    throw new Error(
+      `Batch ${batch?.internalBatchNumber ?? batchId} has only ${serials.length} serial(s) in stock; ${quantity} needed`,
+    );
+  }
+  return serials;
+}
+
+/**
+ * Move a serial to a new status and location
+ */
+export async function setSerialLocation(
+  ctx: MutationCtx,
+  serialId: Id<"serial_numbers">,
+  statusCode: SerialStatusCode,
+  location: {
+    batchId?: Id<"inventory_batches">;
+    zoneId?: Id<"storage_zones">;
+  } = {},
+) {
+  await ctx.db.patch(serialId, {
+    serialStatusTypeId: await ensureSerialStatus(ctx, statusCode),
+    batchId: location.batchId,
+    zoneId: location.zoneId,
+  });
+}
+
+/**
+ * Describe the warranty of a serial relative to now
+ */
+function getWarrantyStatus(warrantyExpiresAt: number | undefined) {
+  if (!warrantyExpiresAt) {
+    return { code: "NONE" as const, daysLeft: null };
+  }
+  const daysLeft = Math.ceil(
+    (warrantyExpiresAt - Date.now()) / (24 * 60 * 60 * 1000),
+  );
+  return {
+    code: daysLeft > 0 ? ("ACTIVE" as const) : ("EXPIRED" as const),
+    daysLeft,
+  };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * List serial numbers with pagination
+ */
+export const listSerialNumbers = query({
+  args: {
+    organizationId: v.id("organizations"),
+    paginationOpts: paginationOptsValidator,
+    skuId: v.optional(v.id("product_variants")),
+    statusCode: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId, paginationOpts, skuId, statusCode } = args;
+
+    let serialQuery = skuId
+      ? ctx.db
+          .query("serial_numbers")
+          .withIndex("skuId", (q) => q.eq("skuId", skuId))
+          .filter((q) => q.eq(q.field("organizationId"), organizationId))
+      : ctx.db
+          .query("serial_numbers")
+          .withIndex("organizationId", (q) =>
+            q.eq("organizationId", organizationId),
+          );
+
+    if (statusCode) {
+      const status = await getSystemLookup(ctx, "SerialStatus", statusCode);
+      if (!status) {
+        return { page: [], isDone: true, continueCursor: "" };
+      }
+      serialQuery = serialQuery.filter((q) =>
+        q.eq(q.field("serialStatusTypeId"), status._id),
+      );
+    }
+
+    const serials = await serialQuery.order("desc").paginate(paginationOpts);
+
+    const page = await Promise.all(
+      serials.page.map(async (serial) => {
+        const variant = await ctx.db.get(serial.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+        const status = await ctx.db.get(serial.serialStatusTypeId);
+        const zone = serial.zoneId ? await ctx.db.get(serial.zoneId) : null;
+        const batch = serial.batchId ? await ctx.db.get(serial.batchId) : null;
+        const branch = batch ? await ctx.db.get(batch.branchId) : null;
+
+        return {
+          ...serial,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? "Unknown",
+          statusName: status?.lookupValue ?? "Unknown",
+          statusCode: status?.lookupCode ?? "UNKNOWN",
+          zoneName: zone?.name ?? null,
+          batchNumber: batch?.internalBatchNumber ?? null,
+          branchName: branch?.name ?? null,
+          warrantyStatus: getWarrantyStatus(serial.warrantyExpiresAt).code,
+        };
+      }),
+    );
+
+    return { ...serials, page };
+  },
+});
+
+/**
+ * List the in-stock serials of a SKU in a zone (for pick screens)
+ */
+export const listInStockSerials = query({
+  args: {
+    skuId: v.id("product_variants"),
+    zoneId: v.id("storage_zones"),
+  },
+  handler: async (ctx, args) => {
+    const availableStatus = await getSystemLookup(
+      ctx,
+      "SerialStatus",
+      "AVAILABLE",
+    );
+    if (!availableStatus) return [];
+
+    const serials = await ctx.db
+      .query("serial_numbers")
+      .withIndex("skuId", (q) => q.eq("skuId", args.skuId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("zoneId"), args.zoneId),
+          q.eq(q.field("serialStatusTypeId"), availableStatus._id),
+        ),
+      )
+      .collect();
+
+    return serials.map((s) => ({ _id: s._id, serialNumber: s.serialNumber }));
+  },
+});
+
+/**
+ * Look up a serial number with its warranty and full movement history
+ */
+export const getSerialHistory = query({
+  args: {
+    organizationId: v.id("organizations"),
+    serialNumber: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const serial = await findSerial(
+      ctx,
+      args.organizationId,
+      args.serialNumber,
+    );
+    if (!serial) {
+      return null;
+    }
+
+    const variant = await ctx.db.get(serial.skuId);
+    const product = variant ? await ctx.db.get(variant.productId) : null;
+    const status = await ctx.db.get(serial.serialStatusTypeId);
+    const zone = serial.zoneId ? await ctx.db.get(serial.zoneId) : null;
+    const batch = serial.batchId ? await ctx.db.get(serial.batchId) : null;
+    const branch = batch ? await ctx.db.get(batch.branchId) : null;
+    const purchaseOrder = serial.purchaseOrderId
+      ? await ctx.db.get(serial.purchaseOrderId)
+      : null;
+    const supplier = purchaseOrder
+      ? await ctx.db.get(purchaseOrder.supplierId)
+      : null;
+
+    const transactions = await ctx.db
+      .query("inventory_transactions")
+      .withIndex("serialNumberId", (q) => q.eq("serialNumberId", serial._id))
+      .collect();
+
+    const movements = await Promise.all(
+      transactions.map(async (transaction) => {
+        const type = await ctx.db.get(transaction.inventoryTransactionTypeId);
+        const user = await ctx.db.get(transaction.createdByUserId);
+        const movementBatch = transaction.batchId
+          ? await ctx.db.get(transaction.batchId)
+          : null;
+        const movementZone = movementBatch
+          ? await ctx.db.get(movementBatch.zoneId)
+          : null;
+        const movementBranch = movementBatch
+          ? await ctx.db.get(movementBatch.branchId)
+          : null;
+
+        // Reference document of the movement
+        let reference: string | null = null;
+        if (transaction.outboundOrderDetailId) {
+          const detail = await ctx.db.get(transaction.outboundOrderDetailId);
+          const order = detail
+            ? await ctx.db.get(detail.outboundOrderId)
+            : null;
+          reference = order
+            ? `${order.orderCode}${order.customerName ? ` · ${order.customerName}` : ""}`
+            : null;
+        } else if (transaction.transferOrderDetailId) {
+          const detail = await ctx.db.get(transaction.transferOrderDetailId);
+          const transfer = detail
+            ? await ctx.db.get(detail.transferOrderId)
+            : null;
+          reference = transfer?.transferCode ?? null;
+        } else if (transaction.purchaseOrderDetailId) {
+          const detail = await ctx.db.get(transaction.purchaseOrderDetailId);
+          const order = detail
+            ? await ctx.db.get(detail.purchaseOrderId)
+            : null;
+          reference = order?.code ?? null;
+        }
+
+        return {
+          _id: transaction._id,
+          occurredAt: transaction._creationTime,
+          typeName: type?.lookupValue ?? "Unknown",
+          typeCode: type?.lookupCode ?? "UNKNOWN",
+          quantityChange: transaction.quantityChange,
+          batchNumber: movementBatch?.internalBatchNumber ?? null,
+          zoneName: movementZone?.name ?? null,
+          branchName: movementBranch?.name ?? null,
+          userName: user?.fullName ?? "Unknown",
+          reference,
+          notes: transaction.notes,
+        };
+      }),
+    );
+
+    return {
+      ...serial,
+      skuCode: variant?.skuCode ?? "Unknown",
+      productName: product?.name ?? "Unknown",
+      statusName: status?.lookupValue ?? "Unknown",
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      zoneName: zone?.name ?? null,
+      zonePath: zone?.path ?? null,
+      batchNumber: batch?.internalBatchNumber ?? null,
+      branchName: branch?.name ?? null,
+      purchaseOrderCode: purchaseOrder?.code ?? null,
+      supplierName: supplier?.name ?? null,
+      warranty: getWarrantyStatus(serial.warrantyExpiresAt),
+      movements: movements.sort((a, b) => a.occurredAt - b.occurredAt),
+    };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Take a sold serial back from a customer into a zone
+ * Goes back into a live batch of the same lot in that zone, or a new one
+ */
+export const receiveCustomerReturn = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    serialNumber: v.string(),
+    zoneId: v.id("storage_zones"),
+    userId: v.id("users"),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const serial = await findSerial(
+      ctx,
+      args.organizationId,
+      args.serialNumber,
+    );
+    if (!serial) {
+      throw new Error(`Serial ${args.serialNumber} not found`);
+    }
+    if ((await getLookupCode(ctx, serial.serialStatusTypeId)) !== "SOLD") {
+      throw new Error(`Serial ${serial.serialNumber} has not been sold`);
+    }
+
+    const zone = await ctx.db.get(args.zoneId);
+    if (!zone || zone.isDeleted) {
+      throw new Error("Storage zone not found");
+    }
+
+    // The batch the serial was picked from carries its lot attributes
+    const lastTransaction = await ctx.db
+      .query("inventory_transactions")
+      .withIndex("serialNumberId", (q) => q.eq("serialNumberId", serial._id))
+      .order("desc")
+      .first();
+    const sourceBatch = lastTransaction?.batchId
+      ? await ctx.db.get(lastTransaction.batchId)
+      : null;
+
+    const existingBatch = await ctx.db
+      .query("inventory_batches")
+      .withIndex("zoneId", (q) => q.eq("zoneId", args.zoneId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("skuId"), serial.skuId),
+          q.eq(q.field("isDeleted"), false),
+          q.eq(
+            q.field("internalBatchNumber"),
+            sourceBatch?.internalBatchNumber,
+          ),
+        ),
+      )
+      .first();
+
+    const batchId =
+      existingBatch?._id ??
+      (await ctx.db.insert("inventory_batches", {
+        organizationId: args.organizationId,
+        skuId: serial.skuId,
+        zoneId: args.zoneId,
+        quantity: 0,
+        branchId: zone.branchId,
+        supplierBatchNumber: sourceBatch?.supplierBatchNumber,
+        internalBatchNumber: sourceBatch?.internalBatchNumber,
+        receivedAt: Date.now(),
+        manufacturingDate: sourceBatch?.manufacturingDate,
+        expiresAt: sourceBatch?.expiresAt,
+        batchStatusTypeId: await ensureSystemLookup(
+          ctx,
+          "BatchStatus",
+          "ACTIVE",
+          "Active",
+          "Batch is available for use",
+        ),
+        isDeleted: false,
+      }));
+
+    await applyInventoryChange(ctx, {
+      batchId,
+      quantityChange: 1,
+      inventoryTransactionTypeId: await ensureSystemLookup(
+        ctx,
+        "InventoryTransactionType",
+        "CUSTOMER_RETURN",
+        "Customer Return",
+        "Stock returned by a customer",
+      ),
+      createdByUserId: args.userId,
+      notes: args.notes,
+      serialNumberId: serial._id,
+    });
+    await setSerialLocation(ctx, serial._id, "AVAILABLE", {
+      batchId,
+      zoneId: args.zoneId,
+    });
+
+    return { success: true, batchId };
+  },
+});
+
+/**
+ * Send an in-stock serial back to its supplier
+ */
+export const returnSerialToSupplier = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    serialNumber: v.string(),
+    userId: v.id("users"),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const serial = await findSerial(
+      ctx,
+      args.organizationId,
+      args.serialNumber,
+    );
+    if (!serial) {
+      throw new Error(`Serial ${args.serialNumber} not found`);
+    }
+    const [inStock] = await getSerialsInStock(ctx, {
+      organizationId: args.organizationId,
+      skuId: serial.skuId,
+      serialNumbers: [serial.serialNumber],
+    });
+
+    await applyInventoryChange(ctx, {
+      batchId: inStock.batchId!,
+      quantityChange: -1,
+      inventoryTransactionTypeId: await ensureSystemLookup(
+        ctx,
+        "InventoryTransactionType",
+        "RETURN_TO_VENDOR",
+        "Return to Vendor",
+        "Stock returned to the supplier",
+      ),
+      createdByUserId: args.userId,
+      notes: args.notes,
+      serialNumberId: serial._id,
+    });
+    await setSerialLocation(ctx, serial._id, "RETURNED");
+
+    return { success: true };
+  },
+});
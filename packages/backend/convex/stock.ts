@@ -0,0 +1,437 @@
+/**
+ * STOCK API - Stock on hand rollups
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - all branches
+ * ✅ Admin - all branches
+ * ✅ Staff - read only
+ *
+ * NOTES:
+ * - On hand: sum of live inventory_batches
+ * - Reserved: open outbound lines not yet picked plus pending transfer
+ *   lines not yet shipped from the branch
+ * - Held: on hand in batches placed on a QC hold (Quarantine status)
+ * - Available: on hand - held - reserved
+ * - In transit: shipped but not yet received transfer lines bound for
+ *   the branch
+ * - Zone and batch rows only count reservations already allocated to a
+ *   batch by a picking session
+ */
+
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type QueryCtx, query } from "./_generated/server";
+import {
+  getReservedBatchQuantity,
+  getReservingReturnDetails,
+  isBatchOnHold,
+} from "./inventory";
+import { getLookupCode } from "./lookups";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+/**
+ * Get the IDs of a category and all of its descendants
+ */
+async function getCategorySubtreeIds(
+  ctx: QueryCtx,
+  categoryId: Id<"categories">,
+): Promise<Set<Id<"categories">>> {
+  const category = await ctx.db.get(categoryId);
+  if (!category) return new Set([categoryId]);
+
+  const categories = await ctx.db
+    .query("categories")
+    .withIndex("organizationId", (q) =>
+      q.eq("organizationId", category.organizationId),
+    )
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+
+  return new Set(
+    categories
+      .filter(
+        (c) =>
+          c.path === category.path || c.path.startsWith(`${category.path}.`),
+      )
+      .map((c) => c._id),
+  );
+}
+
+/**
+ * Get the live batches of a SKU, optionally limited to one branch
+ */
+export async function getSkuBatches(
+  ctx: QueryCtx,
+  skuId: Id<"product_variants">,
+  branchId?: Id<"branches">,
+): Promise<Doc<"inventory_batches">[]> {
+  const batches = await ctx.db
+    .query("inventory_batches")
+    .withIndex("skuId", (q) => q.eq("skuId", skuId))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+
+  return branchId ? batches.filter((b) => b.branchId === branchId) : batches;
+}
+
+/**
+ * Sum the quantity of the batches that are on hold
+ */
+export async function getHeldQuantity(
+  ctx: QueryCtx,
+  batches: Doc<"inventory_batches">[],
+): Promise<number> {
+  let held = 0;
+  for (const batch of batches) {
+    if (await isBatchOnHold(ctx, batch)) held += batch.quantity;
+  }
+  return held;
+}
+
+/**
+ * Get the reserved and in-transit quantities of a SKU per branch
+ * Reserved covers open outbound orders, pending transfers and picked
+ * supplier returns
+ */
+export async function getSkuDemandByBranch(
+  ctx: QueryCtx,
+  skuId: Id<"product_variants">,
+) {
+  const reserved = new Map<Id<"branches">, number>();
+  const inTransit = new Map<Id<"branches">, number>();
+  const add = (
+    map: Map<Id<"branches">, number>,
+    branchId: Id<"branches">,
+    quantity: number,
+  ) => map.set(branchId, (map.get(branchId) ?? 0) + quantity);
+
+  const outboundLines = await ctx.db
+    .query("outbound_order_details")
+    .withIndex("skuId", (q) => q.eq("skuId", skuId))
+    .collect();
+
+  for (const line of outboundLines) {
+    const remaining = line.quantityRequested - line.quantityPicked;
+    if (remaining <= 0) continue;
+
+    const order = await ctx.db.get(line.outboundOrderId);
+    if (!order || order.isDeleted) continue;
+
+    const statusCode = await getLookupCode(ctx, order.outboundStatusTypeId);
+    if (statusCode === "SHIPPED" || statusCode === "CANCELLED") continue;
+
+    add(reserved, order.branchId, remaining);
+  }
+
+  const transferLines = await ctx.db
+    .query("transfer_order_details")
+    .withIndex("skuId", (q) => q.eq("skuId", skuId))
+    .collect();
+
+  for (const line of transferLines) {
+    const transfer = await ctx.db.get(line.transferOrderId);
+    if (!transfer || transfer.isDeleted) continue;
+
+    const statusCode = await getLookupCode(ctx, transfer.transferStatusTypeId);
+    if (statusCode === "PENDING") {
+      add(
+        reserved,
+        transfer.sourceBranchId,
+        Math.max(0, line.quantityRequested - line.quantityShipped),
+      );
+    } else if (statusCode === "IN_TRANSIT") {
+      add(
+        inTransit,
+        transfer.destinationBranchId,
+        Math.max(0, line.quantityShipped - line.quantityReceived),
+      );
+    }
+  }
+
+  // Picked supplier returns hold stock until they ship, as they do per batch
+  for (const { detail, returnRequest } of await getReservingReturnDetails(ctx, {
+    skuId,
+  })) {
+    add(
+      reserved,
+      returnRequest.branchId as Id<"branches">,
+      detail.quantityToReturn,
+    );
+  }
+
+  return { reserved, inTransit };
+}
+
+/**
+ * Sum the values of a per-branch map, optionally for one branch only
+ */
+function sumForBranch(
+  map: Map<Id<"branches">, number>,
+  branchId?: Id<"branches">,
+): number {
+  if (branchId) return map.get(branchId) ?? 0;
+  return [...map.values()].reduce((sum, n) => sum + n, 0);
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Get stock on hand per SKU with pagination
+ * Pages over products; each product expands into one row per variant
+ */
+export const getStockOnHand = query({
+  args: {
+    organizationId: v.id("organizations"),
+    paginationOpts: paginationOptsValidator,
+    branchId: v.optional(v.id("branches")),
+    categoryId: v.optional(v.id("categories")),
+    brandId: v.optional(v.id("brands")),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId, paginationOpts, branchId, categoryId, brandId } =
+      args;
+
+    const categoryIds = categoryId
+      ? await getCategorySubtreeIds(ctx, categoryId)
+      : null;
+
+    let productQuery = ctx.db
+      .query("products")
+      .withIndex("organizationId", (q) =>
+        q.eq("organizationId", organizationId),
+      )
+      .filter((q) => q.eq(q.field("isDeleted"), false));
+
+    if (brandId) {
+      productQuery = productQuery.filter((q) =>
+        q.eq(q.field("brandId"), brandId),
+      );
+    }
+    if (categoryIds) {
+      productQuery = productQuery.filter((q) =>
+        q.or(...[...categoryIds].map((id) => q.eq(q.field("categoryId"), id))),
+      );
+    }
+
+    const products = await productQuery.order("asc").paginate(paginationOpts);
+
+    const rows = [];
+    for (const product of products.page) {
+      const category = await ctx.db.get(product.categoryId);
+      const brand = await ctx.db.get(product.brandId);
+      const variants = await ctx.db
+        .query("product_variants")
+        .withIndex("productId", (q) => q.eq("productId", product._id))
+        .filter((q) => q.eq(q.field("isDeleted"), false))
+        .collect();
+
+      for (const variant of variants) {
+        const batches = await getSkuBatches(ctx, variant._id, branchId);
+        const { reserved, inTransit } = await getSkuDemandByBranch(
+          ctx,
+          variant._id,
+        );
+
+        const onHand = batches.reduce((sum, b) => sum + b.quantity, 0);
+        const held = await getHeldQuantity(ctx, batches);
+        const reservedQuantity = sumForBranch(reserved, branchId);
+        const expiries = batches
+          .map((b) => b.expiresAt)
+          .filter((e): e is number => e !== undefined);
+
+        rows.push({
+          skuId: variant._id,
+          skuCode: variant.skuCode,
+          productId: product._id,
+          productName: product.name,
+          categoryName: category?.name ?? "Unknown",
+          brandName: brand?.name ?? "Unknown",
+          onHand,
+          held,
+          reserved: reservedQuantity,
+          available: Math.max(0, onHand - held - reservedQuantity),
+          inTransit: sumForBranch(inTransit, branchId),
+          batchCount: batches.length,
+          nearestExpiry: expiries.length ? Math.min(...expiries) : null,
+        });
+      }
+    }
+
+    return { ...products, page: rows };
+  },
+});
+
+/**
+ * Get the stock of a SKU broken down branch → zone → batch
+ */
+export const getStockBreakdown = query({
+  args: {
+    skuId: v.id("product_variants"),
+    branchId: v.optional(v.id("branches")),
+  },
+  handler: async (ctx, args) => {
+    const variant = await ctx.db.get(args.skuId);
+    if (!variant) {
+      throw new Error("Product variant not found");
+    }
+    const product = await ctx.db.get(variant.productId);
+
+    const batches = await getSkuBatches(ctx, args.skuId, args.branchId);
+    const { reserved, inTransit } = await getSkuDemandByBranch(ctx, args.skuId);
+
+    const branchIds = new Set<Id<"branches">>(batches.map((b) => b.branchId));
+    for (const branchId of inTransit.keys()) {
+      if (!args.branchId || branchId === args.branchId) branchIds.add(branchId);
+    }
+
+    const branches = [];
+    for (const branchId of branchIds) {
+      const branch = await ctx.db.get(branchId);
+      const branchBatches = batches.filter((b) => b.branchId === branchId);
+
+      const zoneIds = [...new Set(branchBatches.map((b) => b.zoneId))];
+      const zones = [];
+      for (const zoneId of zoneIds) {
+        const zone = await ctx.db.get(zoneId);
+        const zoneBatches = [];
+        for (const batch of branchBatches.filter((b) => b.zoneId === zoneId)) {
+          const status = await ctx.db.get(batch.batchStatusTypeId);
+          const batchReserved = await getReservedBatchQuantity(ctx, batch._id);
+          const batchHeld =
+            status?.lookupCode === "QUARANTINE" ? batch.quantity : 0;
+          zoneBatches.push({
+            ...batch,
+            statusName: status?.lookupValue ?? "Unknown",
+            statusCode: status?.lookupCode ?? "UNKNOWN",
+            held: batchHeld,
+            reserved: batchReserved,
+            available: Math.max(0, batch.quantity - batchHeld - batchReserved),
+          });
+        }
+        zoneBatches.sort(
+          (a, b) => (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity),
+        );
+
+        const zoneOnHand = zoneBatches.reduce((s, b) => s + b.quantity, 0);
+        const zoneHeld = zoneBatches.reduce((s, b) => s + b.held, 0);
+        const zoneReserved = zoneBatches.reduce((s, b) => s + b.reserved, 0);
+        zones.push({
+          zoneId,
+          zoneName: zone?.name ?? "Unknown",
+          path: zone?.path ?? "",
+          onHand: zoneOnHand,
+          held: zoneHeld,
+          reserved: zoneReserved,
+          available: Math.max(0, zoneOnHand - zoneHeld - zoneReserved),
+          batches: zoneBatches,
+        });
+      }
+      zones.sort((a, b) => a.path.localeCompare(b.path));
+
+      const onHand = branchBatches.reduce((s, b) => s + b.quantity, 0);
+      const branchHeld = zones.reduce((s, z) => s + z.held, 0);
+      const branchReserved = reserved.get(branchId) ?? 0;
+      branches.push({
+        branchId,
+        branchName: branch?.name ?? "Unknown",
+        onHand,
+        held: branchHeld,
+        reserved: branchReserved,
+        available: Math.max(0, onHand - branchHeld - branchReserved),
+        inTransit: inTransit.get(branchId) ?? 0,
+        zones,
+      });
+    }
+    branches.sort((a, b) => a.branchName.localeCompare(b.branchName));
+
+    return {
+      skuId: variant._id,
+      skuCode: variant.skuCode,
+      productName: product?.name ?? "Unknown",
+      branches,
+    };
+  },
+});
+
+/**
+ * Get inventory batches with pagination
+ * Category and brand filters are applied to each page, so pages can hold
+ * fewer rows than requested
+ */
+export const getPaginatedBatches = query({
+  args: {
+    organizationId: v.id("organizations"),
+    paginationOpts: paginationOptsValidator,
+    branchId: v.optional(v.id("branches")),
+    zoneId: v.optional(v.id("storage_zones")),
+    categoryId: v.optional(v.id("categories")),
+    brandId: v.optional(v.id("brands")),
+    includeEmpty: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { organizationId, paginationOpts, branchId, zoneId, brandId } = args;
+
+    const categoryIds = args.categoryId
+      ? await getCategorySubtreeIds(ctx, args.categoryId)
+      : null;
+
+    let batchQuery = zoneId
+      ? ctx.db
+          .query("inventory_batches")
+          .withIndex("zoneId", (q) => q.eq("zoneId", zoneId))
+      : branchId
+        ? ctx.db
+            .query("inventory_batches")
+            .withIndex("branchId", (q) => q.eq("branchId", branchId))
+        : ctx.db
+            .query("inventory_batches")
+            .withIndex("organizationId", (q) =>
+              q.eq("organizationId", organizationId),
+            );
+
+    batchQuery = batchQuery.filter((q) => q.eq(q.field("isDeleted"), false));
+    if (!args.includeEmpty) {
+      batchQuery = batchQuery.filter((q) => q.gt(q.field("quantity"), 0));
+    }
+
+    const batches = await batchQuery.order("desc").paginate(paginationOpts);
+
+    const rows = [];
+    for (const batch of batches.page) {
+      const variant = await ctx.db.get(batch.skuId);
+      const product = variant ? await ctx.db.get(variant.productId) : null;
+      if (brandId && product?.brandId !== brandId) continue;
+      if (categoryIds && (!product || !categoryIds.has(product.categoryId))) {
+        continue;
+      }
+
+      const zone = await ctx.db.get(batch.zoneId);
+      const branch = await ctx.db.get(batch.branchId);
+      const status = await ctx.db.get(batch.batchStatusTypeId);
+      const reserved = await getReservedBatchQuantity(ctx, batch._id);
+      const held = status?.lookupCode === "QUARANTINE" ? batch.quantity : 0;
+
+      rows.push({
+        ...batch,
+        skuCode: variant?.skuCode ?? "Unknown",
+        productName: product?.name ?? "Unknown",
+        zoneName: zone?.name ?? "Unknown",
+        zonePath: zone?.path ?? "",
+        branchName: branch?.name ?? "Unknown",
+        statusName: status?.lookupValue ?? "Unknown",
+        statusCode: status?.lookupCode ?? "UNKNOWN",
+        held,
+        reserved,
+        available: Math.max(0, batch.quantity - held - reserved),
+      });
+    }
+
+    return { ...batches, page: rows };
+  },
+});
@@ -0,0 +1,401 @@
+/**
+ * STORAGE ZONES API
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full access
+ * ✅ Admin - full access
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - Zones form a path tree per branch (e.g. "storage.general_a"):
+ *   area → aisle → rack → bin, one path segment per level
+ * - A path segment may have no zone of its own (e.g. "storage" above
+ *   "storage.general_a"); the tree shows it as a group
+ * - Moving a zone rewrites the paths of its whole subtree
+ * - A zone can only be deleted once it has no child zones and no
+ *   non-deleted inventory_batches reference it
+ * - Soft delete supported (isDeleted flag)
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, type QueryCtx, query } from "./_generated/server";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+/**
+ * Turn a zone name into a path segment
+ */
+export function toPathSegment(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Whether a path is the given path or lies underneath it
+ */
+function isInSubtree(path: string, rootPath: string): boolean {
+  return path === rootPath || path.startsWith(`${rootPath}.`);
+}
+
+/**
+ * Get the non-deleted zones of a branch
+ */
+async function getBranchZones(
+  ctx: QueryCtx,
+  branchId: Id<"branches">,
+): Promise<Doc<"storage_zones">[]> {
+  return await ctx.db
+    .query("storage_zones")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+}
+
+/**
+ * Check that a parent path is usable in a branch: either a zone or a
+ * group segment above existing zones
+ */
+function assertParentPath(zones: Doc<"storage_zones">[], parentPath: string) {
+  if (!zones.some((zone) => isInSubtree(zone.path, parentPath))) {
+    throw new Error(`Parent zone ${parentPath} not found`);
+  }
+}
+
+/**
+ * Zone attributes are a flat JSON object
+ */
+function assertZoneAttributes(zoneAttributes: unknown) {
+  if (
+    zoneAttributes !== undefined &&
+    (zoneAttributes === null ||
+      typeof zoneAttributes !== "object" ||
+      Array.isArray(zoneAttributes))
+  ) {
+    throw new Error("Zone attributes must be an object");
+  }
+}
+
+/**
+ * Check that a lookup is a zone type
+ */
+async function assertZoneType(ctx: QueryCtx, zoneTypeId: Id<"system_lookups">) {
+  const zoneType = await ctx.db.get(zoneTypeId);
+  if (!zoneType || zoneType.lookupType !== "ZoneType") {
+    throw new Error("Invalid zone type");
+  }
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * List the active zones of a branch, ordered by path
+ */
+export const listByBranch = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const zones = await ctx.db
+      .query("storage_zones")
+      .withIndex("branchId", (q) => q.eq("branchId", args.branchId))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .collect();
+
+    const enrichedZones = await Promise.all(
+      zones.map(async (zone) => {
+        const zoneType = await ctx.db.get(zone.zoneTypeId);
+        return {
+          ...zone,
+          zoneTypeName: zoneType?.lookupValue ?? "Unknown",
+          zoneTypeCode: zoneType?.lookupCode ?? "UNKNOWN",
+        };
+      }),
+    );
+
+    return enrichedZones.sort((a, b) => a.path.localeCompare(b.path));
+  },
+});
+
+/**
+ * Get the zone tree of a branch
+ * Rows are ordered by path; group rows stand in for path segments without
+ * a zone of their own. Every zone carries its live batch count and stock.
+ */
+export const getTree = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const zones = await getBranchZones(ctx, args.branchId);
+    const zonePaths = new Set(zones.map((zone) => zone.path));
+
+    const rows = await Promise.all(
+      zones.map(async (zone) => {
+        const zoneType = await ctx.db.get(zone.zoneTypeId);
+        const batches = await ctx.db
+          .query("inventory_batches")
+          .withIndex("zoneId", (q) => q.eq("zoneId", zone._id))
+          .filter((q) => q.eq(q.field("isDeleted"), false))
+          .collect();
+
+        return {
+          kind: "ZONE" as const,
+          path: zone.path,
+          depth: zone.path.split(".").length,
+          zone: {
+            ...zone,
+            zoneTypeName: zoneType?.lookupValue ?? "Unknown",
+            zoneTypeCode: zoneType?.lookupCode ?? "UNKNOWN",
+          },
+          batchCount: batches.length,
+          onHand: batches.reduce((sum, batch) => sum + batch.quantity, 0),
+          childCount: zones.filter(
+            (other) =>
+              other.path.startsWith(`${zone.path}.`) &&
+              other.path.split(".").length === zone.path.split(".").length + 1,
+          ).length,
+        };
+      }),
+    );
+
+    // Group rows for path segments that have no zone
+    const groupPaths = new Set<string>();
+    for (const zone of zones) {
+      const segments = zone.path.split(".");
+      for (let depth = 1; depth < segments.length; depth++) {
+        const path = segments.slice(0, depth).join(".");
+        if (!zonePaths.has(path)) groupPaths.add(path);
+      }
+    }
+    const groups = [...groupPaths].map((path) => ({
+      kind: "GROUP" as const,
+      path,
+      depth: path.split(".").length,
+      zone: null,
+      batchCount: 0,
+      onHand: 0,
+      childCount: 0,
+    }));
+
+    return [...rows, ...groups].sort((a, b) =>
+      a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+    );
+  },
+});
+
+/**
+ * List the zone types zones can be given
+ */
+export const listZoneTypes = query({
+  args: {},
+  handler: async (ctx) => {
+    const zoneTypes = await ctx.db
+      .query("system_lookups")
+      .withIndex("lookupType", (q) => q.eq("lookupType", "ZoneType"))
+      .collect();
+
+    return zoneTypes.sort((a, b) => a.sortOrder - b.sortOrder);
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Create a zone under a parent path (or at the root of the branch)
+ */
+export const createZone = mutation({
+  args: {
+    branchId: v.id("branches"),
+    name: v.string(),
+    parentPath: v.optional(v.string()),
+    zoneTypeId: v.id("system_lookups"),
+    storageBlockType: v.string(),
+    zoneAttributes: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    const branch = await ctx.db.get(args.branchId);
+    if (!branch || branch.isDeleted) {
+      throw new Error("Branch not found");
+    }
+
+    const segment = toPathSegment(args.name);
+    if (!segment) {
+      throw new Error("Zone name must contain letters or digits");
+    }
+    await assertZoneType(ctx, args.zoneTypeId);
+    assertZoneAttributes(args.zoneAttributes);
+
+    const zones = await getBranchZones(ctx, args.branchId);
+    if (args.parentPath) {
+      assertParentPath(zones, args.parentPath);
+    }
+
+    const path = args.parentPath ? `${args.parentPath}.${segment}` : segment;
+    if (zones.some((zone) => zone.path === path)) {
+      throw new Error(`A zone with path ${path} already exists`);
+    }
+
+    const zoneId = await ctx.db.insert("storage_zones", {
+      branchId: args.branchId,
+      name: args.name.trim(),
+      path,
+      zoneTypeId: args.zoneTypeId,
+      storageBlockType: args.storageBlockType.trim().toUpperCase(),
+      zoneAttributes: args.zoneAttributes,
+      isDeleted: false,
+    });
+
+    return { success: true, zoneId, path };
+  },
+});
+
+/**
+ * Update a zone's name, type, storage block type or attributes
+ * The path is left alone; use moveZone to change where a zone sits
+ */
+export const updateZone = mutation({
+  args: {
+    zoneId: v.id("storage_zones"),
+    name: v.optional(v.string()),
+    zoneTypeId: v.optional(v.id("system_lookups")),
+    storageBlockType: v.optional(v.string()),
+    zoneAttributes: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    const zone = await ctx.db.get(args.zoneId);
+    if (!zone || zone.isDeleted) {
+      throw new Error("Storage zone not found");
+    }
+
+    const updates: Partial<Doc<"storage_zones">> = {};
+    if (args.name !== undefined) {
+      if (!args.name.trim()) {
+        throw new Error("Zone name is required");
+      }
+      updates.name = args.name.trim();
+    }
+    if (args.zoneTypeId !== undefined) {
+      await assertZoneType(ctx, args.zoneTypeId);
+      updates.zoneTypeId = args.zoneTypeId;
+    }
+    if (args.storageBlockType !== undefined) {
+      updates.storageBlockType = args.storageBlockType.trim().toUpperCase();
+    }
+    if (args.zoneAttributes !== undefined) {
+      assertZoneAttributes(args.zoneAttributes);
+      updates.zoneAttributes = args.zoneAttributes;
+    }
+
+    await ctx.db.patch(zone._id, updates);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Move a zone and its whole subtree under a new parent path
+ *
+ * Process:
+ * 1. Builds the new path from the new parent and the zone's own segment
+ * 2. Rejects moves into the zone's own subtree and paths already taken
+ * 3. Rewrites the path of the zone and every descendant
+ */
+export const moveZone = mutation({
+  args: {
+    zoneId: v.id("storage_zones"),
+    newParentPath: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const zone = await ctx.db.get(args.zoneId);
+    if (!zone || zone.isDeleted) {
+      throw new Error("Storage zone not found");
+    }
+
+    // Step 1: New path of the zone
+    const segment = zone.path.split(".").pop() as string;
+    const newPath = args.newParentPath
+      ? `${args.newParentPath}.${segment}`
+      : segment;
+    if (newPath === zone.path) {
+      return { success: true, path: zone.path, movedCount: 0 };
+    }
+
+    // Step 2: Validate the destination
+    const zones = await getBranchZones(ctx, zone.branchId);
+    if (args.newParentPath) {
+      if (isInSubtree(args.newParentPath, zone.path)) {
+        throw new Error("A zone cannot be moved into its own subtree");
+      }
+      assertParentPath(zones, args.newParentPath);
+    }
+
+    const subtree = zones.filter((z) => isInSubtree(z.path, zone.path));
+    const subtreeIds = new Set(subtree.map((z) => z._id));
+    const rewrite = (path: string) => newPath + path.slice(zone.path.length);
+
+    for (const z of subtree) {
+      const target = rewrite(z.path);
+      const clash = zones.find(
+        (other) => other.path === target && !subtreeIds.has(other._id),
+      );
+      if (clash) {
+        throw new Error(`A zone with path ${target} already exists`);
+      }
+    }
+
+    // Step 3: Rewrite the subtree
+    for (const z of subtree) {
+      await ctx.db.patch(z._id, { path: rewrite(z.path) });
+    }
+
+    return { success: true, path: newPath, movedCount: subtree.length };
+  },
+});
+
+/**
+ * Soft delete a zone
+ * Blocked while the zone has child zones or stock in it
+ */
+export const removeZone = mutation({
+  args: {
+    zoneId: v.id("storage_zones"),
+  },
+  handler: async (ctx, args) => {
+    const zone = await ctx.db.get(args.zoneId);
+    if (!zone || zone.isDeleted) {
+      throw new Error("Storage zone not found");
+    }
+
+    const batch = await ctx.db
+      .query("inventory_batches")
+      .withIndex("zoneId", (q) => q.eq("zoneId", zone._id))
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .first();
+    if (batch) {
+      throw new Error(
+        `Cannot delete ${zone.name}: batch ${batch.internalBatchNumber ?? batch._id} is still stored in it`,
+      );
+    }
+
+    const zones = await getBranchZones(ctx, zone.branchId);
+    if (zones.some((z) => z.path.startsWith(`${zone.path}.`))) {
+      throw new Error(
+        `Cannot delete ${zone.name}: move or delete its child zones first`,
+      );
+    }
+
+    await ctx.db.patch(zone._id, { isDeleted: true, deletedAt: Date.now() });
+
+    return { success: true };
+  },
+});
@@ -11,6 +11,11 @@
  * - Suppliers provide products to the warehouse
  * - Track lead time for purchase order planning
  * - Soft delete supported (isDeleted flag)
+ * - Scorecards measure lead time, fill rate, on-time delivery and returns
+ *   for orders placed in a date range; the median actual lead time is
+ *   suggested as defaultLeadTimeDays
+ * - Receipts from suppliers flagged requiresInspection are placed on a QC
+ *   hold until released (see qualityHolds)
  *
  * BEST PRACTICES:
  * - Email validation on create/update
@@ -21,7 +26,256 @@
 
 import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, type QueryCtx, query } from "./_generated/server";
+import { getLookupCode } from "./lookups";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCORECARD_TZ_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/** Orders whose receipt is final, used for the fill rate */
+const FILLED_PURCHASE_ORDER_STATUSES = ["RECEIVED", "CLOSED_SHORT"];
+const EXCLUDED_RETURN_STATUSES = ["REJECTED", "CANCELLED"];
+
+type ScorecardOrder = {
+  orderedAt: number;
+  promisedLeadTimeDays: number | null;
+  actualLeadTimeDays: number | null;
+  onTime: boolean | null;
+  quantityOrdered: number;
+  quantityReceived: number;
+  filled: boolean;
+};
+
+type ScorecardReturn = {
+  requestedAt: number;
+  quantity: number;
+  value: number;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Purchase orders of a supplier placed in a range, with their lead time
+ * measured to the first receive session
+ */
+async function getScorecardOrders(
+  ctx: QueryCtx,
+  supplierId: Id<"suppliers">,
+  startDate: number,
+  endDate: number,
+) {
+  const purchaseOrders = await ctx.db
+    .query("purchase_orders")
+    .withIndex("supplierId", (q) => q.eq("supplierId", supplierId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("isDeleted"), false),
+        q.gte(q.field("orderedAt"), startDate),
+        q.lte(q.field("orderedAt"), endDate),
+      ),
+    )
+    .collect();
+
+  const orders: ScorecardOrder[] = [];
+  for (const order of purchaseOrders) {
+    const statusCode = await getLookupCode(
+      ctx,
+      order.purchaseOrderStatusTypeId,
+    );
+    if (statusCode === "CANCELLED") continue;
+
+    const details = await ctx.db
+      .query("purchase_order_details")
+      .withIndex("purchaseOrderId", (q) => q.eq("purchaseOrderId", order._id))
+      .collect();
+    const sessions = await ctx.db
+      .query("receive_sessions")
+      .withIndex("purchaseOrderId", (q) => q.eq("purchaseOrderId", order._id))
+      .collect();
+    const firstReceivedAt = sessions.length
+      ? Math.min(...sessions.map((session) => session.receivedAt))
+      : null;
+
+    orders.push({
+      orderedAt: order.orderedAt,
+      promisedLeadTimeDays:
+        order.expectedDeliveryAt !== undefined
+          ? (order.expectedDeliveryAt - order.orderedAt) / DAY_MS
+          : null,
+      actualLeadTimeDays:
+        firstReceivedAt !== null
+          ? (firstReceivedAt - order.orderedAt) / DAY_MS
+          : null,
+      // Delivered any time on the promised day counts as on time
+      onTime:
+        firstReceivedAt !== null && order.expectedDeliveryAt !== undefined
+          ? firstReceivedAt < order.expectedDeliveryAt + DAY_MS
+          : null,
+      quantityOrdered: details.reduce((sum, d) => sum + d.quantityOrdered, 0),
+      quantityReceived: details.reduce((sum, d) => sum + d.quantityReceived, 0),
+      filled: FILLED_PURCHASE_ORDER_STATUSES.includes(statusCode ?? ""),
+    });
+  }
+
+  return orders;
+}
+
+/**
+ * Return requests raised against a supplier in a range
+ */
+async function getScorecardReturns(
+  ctx: QueryCtx,
+  supplierId: Id<"suppliers">,
+  startDate: number,
+  endDate: number,
+) {
+  const requests = await ctx.db
+    .query("return_requests")
+    .withIndex("supplierId", (q) => q.eq("supplierId", supplierId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("isDeleted"), false),
+        q.gte(q.field("requestedAt"), startDate),
+        q.lte(q.field("requestedAt"), endDate),
+      ),
+    )
+    .collect();
+
+  const returns: ScorecardReturn[] = [];
+  for (const request of requests) {
+    const statusCode = await getLookupCode(
+      ctx,
+      request.returnStatusTypeId as Id<"system_lookups">,
+    );
+    if (EXCLUDED_RETURN_STATUSES.includes(statusCode ?? "")) continue;
+
+    const details = await ctx.db
+      .query("return_request_details")
+      .withIndex("returnRequestId", (q) => q.eq("returnRequestId", request._id))
+      .collect();
+    returns.push({
+      requestedAt: request.requestedAt,
+      quantity: details.reduce((sum, d) => sum + d.quantityToReturn, 0),
+      value: details.reduce((sum, d) => sum + d.expectedCreditAmount, 0),
+    });
+  }
+
+  return returns;
+}
+
+/**
+ * KPIs over a set of orders and returns
+ */
+function summarizeScorecard(
+  orders: ScorecardOrder[],
+  returns: ScorecardReturn[],
+) {
+  const received = orders.filter((o) => o.actualLeadTimeDays !== null);
+  const promised = orders.filter((o) => o.promisedLeadTimeDays !== null);
+  const judged = orders.filter((o) => o.onTime !== null);
+  const filled = orders.filter((o) => o.filled);
+
+  const average = (values: number[]) =>
+    values.length
+      ? round1(values.reduce((sum, x) => sum + x, 0) / values.length)
+      : null;
+  const quantityOrdered = filled.reduce((sum, o) => sum + o.quantityOrdered, 0);
+  const quantityFilled = filled.reduce((sum, o) => sum + o.quantityReceived, 0);
+  const quantityReceived = orders.reduce(
+    (sum, o) => sum + o.quantityReceived,
+    0,
+  );
+  const quantityReturned = returns.reduce((sum, r) => sum + r.quantity, 0);
+
+  return {
+    orderCount: orders.length,
+    receivedOrderCount: received.length,
+    avgPromisedLeadTimeDays: average(
+      promised.map((o) => o.promisedLeadTimeDays as number),
+    ),
+    avgActualLeadTimeDays: average(
+      received.map((o) => o.actualLeadTimeDays as number),
+    ),
+    medianActualLeadTimeDays: median(
+      received.map((o) => o.actualLeadTimeDays as number),
+    ),
+    onTimeRate: judged.length
+      ? round1((judged.filter((o) => o.onTime).length / judged.length) * 100)
+      : null,
+    fillRate: quantityOrdered
+      ? round1((quantityFilled / quantityOrdered) * 100)
+      : null,
+    returnCount: returns.length,
+    quantityReturned,
+    returnRate: quantityReceived
+      ? round1((quantityReturned / quantityReceived) * 100)
+      : null,
+    returnValue: returns.reduce((sum, r) => sum + r.value, 0),
+  };
+}
+
+/**
+ * Start of the week (Monday) or month holding a timestamp, in Vietnam time
+ */
+function getTrendPeriodStart(timestamp: number, period: "WEEK" | "MONTH") {
+  const local = new Date(timestamp + SCORECARD_TZ_OFFSET_MS);
+  if (period === "MONTH") {
+    return (
+      Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1) -
+      SCORECARD_TZ_OFFSET_MS
+    );
+  }
+  const day = Math.floor(local.getTime() / DAY_MS);
+  // 1970-01-01 was a Thursday; weeks start on Monday
+  return (day - ((day + 3) % 7)) * DAY_MS - SCORECARD_TZ_OFFSET_MS;
+}
+
+/**
+ * Scorecard of one supplier, with the suggested lead time
+ */
+async function buildScorecard(
+  ctx: QueryCtx,
+  supplier: Doc<"suppliers">,
+  startDate: number,
+  endDate: number,
+) {
+  const orders = await getScorecardOrders(
+    ctx,
+    supplier._id,
+    startDate,
+    endDate,
+  );
+  const returns = await getScorecardReturns(
+    ctx,
+    supplier._id,
+    startDate,
+    endDate,
+  );
+  const summary = summarizeScorecard(orders, returns);
+
+  return {
+    orders,
+    returns,
+    summary: {
+      ...summary,
+      defaultLeadTimeDays: supplier.defaultLeadTimeDays,
+      suggestedLeadTimeDays:
+        summary.medianActualLeadTimeDays !== null
+          ? Math.ceil(summary.medianActualLeadTimeDays)
+          : null,
+    },
+  };
+}
 
 /**
  * LIST - Get all suppliers with pagination and filters
@@ -114,16 +368,127 @@ export const getWithStats = query({
       .filter((q) => q.eq(q.field("isDeleted"), false))
       .collect();
 
+    // Lifetime performance
+    const { summary } = await buildScorecard(ctx, supplier, 0, Date.now());
+
     return {
       ...supplier,
       stats: {
         totalPurchaseOrders: purchaseOrders.length,
-        // Could add more stats: total amount, average lead time, etc.
+        ...summary,
       },
     };
   },
 });
 
+/**
+ * SCORECARDS - Performance of every supplier for orders placed in a range
+ */
+export const getScorecards = query({
+  args: {
+    organizationId: v.id("organizations"),
+    startDate: v.number(),
+    endDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const suppliers = await ctx.db
+      .query("suppliers")
+      .withIndex("organizationId", (q) =>
+        q.eq("organizationId", args.organizationId),
+      )
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .collect();
+
+    const scorecards = [];
+    for (const supplier of suppliers) {
+      const { summary } = await buildScorecard(
+        ctx,
+        supplier,
+        args.startDate,
+        args.endDate,
+      );
+      scorecards.push({
+        supplierId: supplier._id,
+        name: supplier.name,
+        isActive: supplier.isActive,
+        ...summary,
+      });
+    }
+
+    return scorecards.sort((a, b) => b.orderCount - a.orderCount);
+  },
+});
+
+/**
+ * SCORECARD - Performance of one supplier with weekly or monthly trends
+ * Ranges up to 120 days trend by week, longer ranges by month
+ */
+export const getScorecard = query({
+  args: {
+    id: v.id("suppliers"),
+    startDate: v.number(),
+    endDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const supplier = await ctx.db.get(args.id);
+
+    if (!supplier) {
+      throw new Error("Supplier not found");
+    }
+
+    if (supplier.isDeleted) {
+      throw new Error("Supplier has been deleted");
+    }
+
+    const { orders, returns, summary } = await buildScorecard(
+      ctx,
+      supplier,
+      args.startDate,
+      args.endDate,
+    );
+
+    // Group orders and returns into trend periods
+    const period: "WEEK" | "MONTH" =
+      args.endDate - args.startDate <= 120 * DAY_MS ? "WEEK" : "MONTH";
+    const periods = new Map<
+      number,
+      { orders: ScorecardOrder[]; returns: ScorecardReturn[] }
+    >();
+    const getBucket = (timestamp: number) => {
+      const start = getTrendPeriodStart(timestamp, period);
+      const bucket = periods.get(start) ?? { orders: [], returns: [] };
+      periods.set(start, bucket);
+      return bucket;
+    };
+    for (const order of orders) getBucket(order.orderedAt).orders.push(order);
+    for (const item of returns) getBucket(item.requestedAt).returns.push(item);
+
+    const trend = [...periods.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([periodStart, bucket]) => {
+        const kpis = summarizeScorecard(bucket.orders, bucket.returns);
+        return {
+          periodStart,
+          orderCount: kpis.orderCount,
+          avgPromisedLeadTimeDays: kpis.avgPromisedLeadTimeDays,
+          avgActualLeadTimeDays: kpis.avgActualLeadTimeDays,
+          onTimeRate: kpis.onTimeRate,
+          fillRate: kpis.fillRate,
+          returnRate: kpis.returnRate,
+          returnValue: kpis.returnValue,
+        };
+      });
+
+    return {
+      supplierId: supplier._id,
+      name: supplier.name,
+      period,
+      summary,
+      trend,
+    };
+  },
+});
+
 /**
  * CREATE - Create a new supplier
  * Permission required: suppliers:create
@@ -137,6 +502,7 @@ export const create = mutation({
     email: v.string(),
     phone: v.string(),
     defaultLeadTimeDays: v.number(),
+    requiresInspection: v.optional(v.boolean()),
     isActive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
@@ -151,6 +517,7 @@ export const create = mutation({
       email,
       phone,
       defaultLeadTimeDays,
+      requiresInspection,
       isActive = true,
     } = args;
 
@@ -200,6 +567,7 @@ export const create = mutation({
       email,
       phone,
       defaultLeadTimeDays,
+      requiresInspection,
       isActive,
       isDeleted: false,
     });
@@ -220,6 +588,7 @@ export const update = mutation({
     email: v.optional(v.string()),
     phone: v.optional(v.string()),
     defaultLeadTimeDays: v.optional(v.number()),
+    requiresInspection: v.optional(v.boolean()),
     isActive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
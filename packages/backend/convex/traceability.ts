@@ -0,0 +1,503 @@
+/**
+ * TRACEABILITY API - End-to-end lot tracing
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full trace and recall lists
+ * ✅ Admin - full trace and recall lists
+ * ✅ Staff - read only
+ *
+ * NOTES:
+ * - A trace starts from a supplier batch number, internal batch number,
+ *   serial number or SKU code and resolves the batches it refers to
+ * - Lot lineage follows the batches stock was split into:
+ *   transfers (TRANSFER_OUT → TRANSFER_IN of the same detail line and lot)
+ *   and location moves (MOVE out → MOVE in of the same adjustment line)
+ * - A serial trace only follows that serial's own transactions
+ * - Upstream: supplier, purchase order and receive session of every receipt
+ * - Downstream: zones, adjustments and the outbound orders stock was picked
+ *   for; those orders are the recall "affected shipments" list
+ * - Lineage is capped at MAX_TRACED_BATCHES batches; the result is flagged
+ *   as truncated when the cap is hit
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id, TableNames } from "./_generated/dataModel";
+import { type QueryCtx, query } from "./_generated/server";
+import { findSerial } from "./serialNumbers";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const MAX_TRACED_BATCHES = 500;
+
+const searchTypeValidator = v.union(
+  v.literal("SUPPLIER_BATCH"),
+  v.literal("INTERNAL_BATCH"),
+  v.literal("SERIAL"),
+  v.literal("SKU"),
+);
+
+/**
+ * Memoized ctx.db.get; a trace reads the same users, zones and lookups
+ * many times over
+ */
+function createDocLoader(ctx: QueryCtx) {
+  const cache = new Map<string, Promise<unknown>>();
+  return <T extends TableNames>(id: Id<T>): Promise<Doc<T> | null> => {
+    let doc = cache.get(id);
+    if (!doc) {
+      doc = ctx.db.get(id);
+      cache.set(id, doc);
+    }
+    return doc as Promise<Doc<T> | null>;
+  };
+}
+
+/**
+ * Resolve the batches a search value refers to, including emptied
+ * (soft-deleted) batches so that consumed lots can still be traced
+ */
+async function findRootBatches(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  searchType: "SUPPLIER_BATCH" | "INTERNAL_BATCH" | "SKU",
+  value: string,
+): Promise<Doc<"inventory_batches">[]> {
+  if (searchType === "SKU") {
+    const variants = await ctx.db
+      .query("product_variants")
+      .withIndex("skuCode", (q) => q.eq("skuCode", value))
+      .collect();
+
+    const batches: Doc<"inventory_batches">[] = [];
+    for (const variant of variants) {
+      const product = await ctx.db.get(variant.productId);
+      if (product?.organizationId !== organizationId) continue;
+      batches.push(
+        ...(await ctx.db
+          .query("inventory_batches")
+          .withIndex("skuId", (q) => q.eq("skuId", variant._id))
+          .collect()),
+      );
+    }
+    return batches;
+  }
+
+  const field =
+    searchType === "SUPPLIER_BATCH"
+      ? "supplierBatchNumber"
+      : "internalBatchNumber";
+  return await ctx.db
+    .query("inventory_batches")
+    .withIndex("organizationId", (q) => q.eq("organizationId", organizationId))
+    .filter((q) => q.eq(q.field(field), value))
+    .collect();
+}
+
+/**
+ * Walk the lot lineage of the root batches breadth-first and collect every
+ * batch and transaction along the way
+ */
+async function walkLotLineage(
+  ctx: QueryCtx,
+  load: ReturnType<typeof createDocLoader>,
+  roots: Doc<"inventory_batches">[],
+) {
+  const batches = new Map<Id<"inventory_batches">, Doc<"inventory_batches">>();
+  const transactions: Doc<"inventory_transactions">[] = [];
+  const queue = [...roots];
+  let truncated = false;
+
+  for (const root of roots) batches.set(root._id, root);
+
+  while (queue.length > 0) {
+    const batch = queue.shift() as Doc<"inventory_batches">;
+    const batchTransactions = await ctx.db
+      .query("inventory_transactions")
+      .withIndex("batchId", (q) => q.eq("batchId", batch._id))
+      .collect();
+    transactions.push(...batchTransactions);
+
+    const enqueue = (next: Doc<"inventory_batches"> | null) => {
+      if (!next || batches.has(next._id)) return;
+      if (batches.size >= MAX_TRACED_BATCHES) {
+        truncated = true;
+        return;
+      }
+      batches.set(next._id, next);
+      queue.push(next);
+    };
+
+    for (const transaction of batchTransactions) {
+      if (transaction.quantityChange >= 0) continue;
+      const type = await load(transaction.inventoryTransactionTypeId);
+
+      // Transfers: the destination batches carry the same lot attributes
+      if (
+        type?.lookupCode === "TRANSFER_OUT" &&
+        transaction.transferOrderDetailId
+      ) {
+        const received = await ctx.db
+          .query("inventory_transactions")
+          .withIndex("transferOrderDetailId", (q) =>
+            q.eq("transferOrderDetailId", transaction.transferOrderDetailId),
+          )
+          .filter((q) => q.gt(q.field("quantityChange"), 0))
+          .collect();
+        for (const receipt of received) {
+          if (!receipt.batchId) continue;
+          const destination = await ctx.db.get(receipt.batchId);
+          if (
+            destination &&
+            destination.skuId === batch.skuId &&
+            destination.supplierBatchNumber === batch.supplierBatchNumber &&
+            destination.expiresAt === batch.expiresAt
+          ) {
+            enqueue(destination);
+          }
+        }
+      }
+
+      // Location moves: the positive leg of the same adjustment line
+      if (
+        type?.lookupCode === "MOVE" &&
+        transaction.adjustmentRequestDetailId
+      ) {
+        const moved = await ctx.db
+          .query("inventory_transactions")
+          .withIndex("adjustmentRequestDetailId", (q) =>
+            q.eq(
+              "adjustmentRequestDetailId",
+              transaction.adjustmentRequestDetailId,
+            ),
+          )
+          .filter((q) => q.gt(q.field("quantityChange"), 0))
+          .collect();
+        for (const leg of moved) {
+          if (leg.batchId) enqueue(await ctx.db.get(leg.batchId));
+        }
+      }
+    }
+  }
+
+  return { batches: [...batches.values()], transactions, truncated };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Trace a lot, serial or SKU upstream to its suppliers and downstream to
+ * the customers it was shipped to
+ */
+export const traceLot = query({
+  args: {
+    organizationId: v.id("organizations"),
+    searchType: searchTypeValidator,
+    value: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const value = args.value.trim();
+    if (!value) return null;
+
+    const load = createDocLoader(ctx);
+
+    // Step 1: Resolve the batches and transactions in scope
+    let batches: Doc<"inventory_batches">[];
+    let transactions: Doc<"inventory_transactions">[];
+    let truncated = false;
+
+    if (args.searchType === "SERIAL") {
+      const serial = await findSerial(ctx, args.organizationId, value);
+      if (!serial) return null;
+      transactions = await ctx.db
+        .query("inventory_transactions")
+        .withIndex("serialNumberId", (q) => q.eq("serialNumberId", serial._id))
+        .collect();
+      const batchIds = new Set(
+        transactions.flatMap((t) => (t.batchId ? [t.batchId] : [])),
+      );
+      batches = (
+        await Promise.all([...batchIds].map((batchId) => load(batchId)))
+      ).filter((batch): batch is Doc<"inventory_batches"> => batch !== null);
+    } else {
+      const roots = await findRootBatches(
+        ctx,
+        args.organizationId,
+        args.searchType,
+        value,
+      );
+      if (roots.length === 0) return null;
+      ({ batches, transactions, truncated } = await walkLotLineage(
+        ctx,
+        load,
+        roots,
+      ));
+    }
+
+    const batchesById = new Map(batches.map((batch) => [batch._id, batch]));
+
+    // Step 2: Products in scope
+    const skus = new Map<
+      Id<"product_variants">,
+      { skuId: Id<"product_variants">; skuCode: string; productName: string }
+    >();
+    for (const batch of batches) {
+      if (skus.has(batch.skuId)) continue;
+      const variant = await load(batch.skuId);
+      const product = variant ? await load(variant.productId) : null;
+      skus.set(batch.skuId, {
+        skuId: batch.skuId,
+        skuCode: variant?.skuCode ?? "Unknown",
+        productName: product?.name ?? "Unknown",
+      });
+    }
+
+    // Step 3: Timeline of every movement, resolving its reference document
+    const upstream = new Map<
+      string,
+      {
+        purchaseOrderId: Id<"purchase_orders">;
+        purchaseOrderCode: string;
+        orderedAt: number;
+        supplierName: string;
+        receiveSessionCode: string | null;
+        receivedAt: number;
+        branchName: string | null;
+        quantity: number;
+        batchNumbers: string[];
+      }
+    >();
+    const adjustments = new Map<
+      Id<"adjustment_request_details">,
+      {
+        detailId: Id<"adjustment_request_details">;
+        requestCode: string;
+        requestedAt: number;
+        kind: "QUANTITY" | "LOCATION";
+        reason: string;
+        fromZoneName: string | null;
+        toZoneName: string | null;
+        quantity: number;
+      }
+    >();
+    const outboundOrders = new Map<
+      Id<"outbound_orders">,
+      {
+        outboundOrderId: Id<"outbound_orders">;
+        orderCode: string;
+        orderDate: number;
+        customerName: string | null;
+        shippingAddress: string | null;
+        trackingNumber: string | null;
+        statusName: string;
+        statusCode: string;
+        branchName: string | null;
+        skuCodes: string[];
+        batchNumbers: string[];
+        quantity: number;
+      }
+    >();
+
+    const timeline = [];
+    for (const transaction of transactions) {
+      const type = await load(transaction.inventoryTransactionTypeId);
+      const user = await load(transaction.createdByUserId);
+      const batch = transaction.batchId
+        ? (batchesById.get(transaction.batchId) ??
+          (await load(transaction.batchId)))
+        : null;
+      const zone = batch ? await load(batch.zoneId) : null;
+      const branch = batch ? await load(batch.branchId) : null;
+      const batchNumber = batch?.internalBatchNumber ?? null;
+      const skuCode = batch ? (skus.get(batch.skuId)?.skuCode ?? null) : null;
+
+      let reference: string | null = null;
+
+      if (transaction.purchaseOrderDetailId) {
+        const detail = await load(transaction.purchaseOrderDetailId);
+        const order = detail ? await load(detail.purchaseOrderId) : null;
+        reference = order?.code ?? null;
+
+        if (order && type?.lookupCode === "RECEIVE") {
+          const supplier = await load(order.supplierId);
+          const workSession = transaction.workSessionId
+            ? await load(transaction.workSessionId)
+            : null;
+          const receiveSession = workSession?.receiveSessionId
+            ? await load(workSession.receiveSessionId)
+            : null;
+
+          const key = `${order._id}:${receiveSession?._id ?? ""}`;
+          const entry = upstream.get(key) ?? {
+            purchaseOrderId: order._id,
+            purchaseOrderCode: order.code,
+            orderedAt: order.orderedAt,
+            supplierName: supplier?.name ?? "Unknown",
+            receiveSessionCode: receiveSession?.receiveSessionCode ?? null,
+            receivedAt: receiveSession?.receivedAt ?? transaction._creationTime,
+            branchName: branch?.name ?? null,
+            quantity: 0,
+            batchNumbers: [],
+          };
+          entry.quantity += transaction.quantityChange;
+          if (batchNumber && !entry.batchNumbers.includes(batchNumber)) {
+            entry.batchNumbers.push(batchNumber);
+          }
+          upstream.set(key, entry);
+        }
+      } else if (transaction.transferOrderDetailId) {
+        const detail = await load(transaction.transferOrderDetailId);
+        const transfer = detail ? await load(detail.transferOrderId) : null;
+        reference = transfer?.transferCode ?? null;
+      } else if (transaction.adjustmentRequestDetailId) {
+        const detail = await load(transaction.adjustmentRequestDetailId);
+        const request = detail ? await load(detail.adjustmentRequestId) : null;
+        reference = request?.requestCode ?? null;
+
+        if (detail && request) {
+          const entry = adjustments.get(detail._id);
+          if (entry) {
+            if (!detail.toZoneId) entry.quantity += transaction.quantityChange;
+          } else {
+            const reasonId = ctx.db.normalizeId(
+              "system_lookups",
+              detail.reasonTypeId,
+            );
+            const reason = reasonId ? await load(reasonId) : null;
+            const fromZoneId = detail.fromZoneId
+              ? ctx.db.normalizeId("storage_zones", detail.fromZoneId)
+              : null;
+            const toZoneId = detail.toZoneId
+              ? ctx.db.normalizeId("storage_zones", detail.toZoneId)
+              : null;
+            const fromZone = fromZoneId ? await load(fromZoneId) : null;
+            const toZone = toZoneId ? await load(toZoneId) : null;
+
+            adjustments.set(detail._id, {
+              detailId: detail._id,
+              requestCode: request.requestCode,
+              requestedAt: request.requestedAt,
+              kind: detail.toZoneId ? "LOCATION" : "QUANTITY",
+              reason: reason?.lookupValue ?? detail.customReasonNotes ?? "-",
+              fromZoneName: fromZone?.name ?? null,
+              toZoneName: toZone?.name ?? null,
+              quantity: detail.toZoneId
+                ? Math.abs(transaction.quantityChange)
+                : transaction.quantityChange,
+            });
+          }
+        }
+      } else if (transaction.outboundOrderDetailId) {
+        const detail = await load(transaction.outboundOrderDetailId);
+        const order = detail ? await load(detail.outboundOrderId) : null;
+        reference = order
+          ? `${order.orderCode}${order.customerName ? ` · ${order.customerName}` : ""}`
+          : null;
+
+        if (order) {
+          const status = await load(order.outboundStatusTypeId);
+          const orderBranch = await load(order.branchId);
+          const entry = outboundOrders.get(order._id) ?? {
+            outboundOrderId: order._id,
+            orderCode: order.orderCode,
+            orderDate: order.orderDate,
+            customerName: order.customerName ?? null,
+            shippingAddress: order.shippingAddress ?? null,
+            trackingNumber: order.trackingNumber ?? null,
+            statusName: status?.lookupValue ?? "Unknown",
+            statusCode: status?.lookupCode ?? "UNKNOWN",
+            branchName: orderBranch?.name ?? null,
+            skuCodes: [],
+            batchNumbers: [],
+            quantity: 0,
+          };
+          // Picks are negative; customer returns against the order net off
+          entry.quantity -= transaction.quantityChange;
+          if (skuCode && !entry.skuCodes.includes(skuCode)) {
+            entry.skuCodes.push(skuCode);
+          }
+          if (batchNumber && !entry.batchNumbers.includes(batchNumber)) {
+            entry.batchNumbers.push(batchNumber);
+          }
+          outboundOrders.set(order._id, entry);
+        }
+      }
+
+      timeline.push({
+        _id: transaction._id,
+        occurredAt: transaction._creationTime,
+        typeName: type?.lookupValue ?? "Unknown",
+        typeCode: type?.lookupCode ?? "UNKNOWN",
+        quantityChange: transaction.quantityChange,
+        skuCode,
+        batchNumber,
+        supplierBatchNumber: batch?.supplierBatchNumber ?? null,
+        zoneName: zone?.name ?? null,
+        branchName: branch?.name ?? null,
+        userName: user?.fullName ?? "Unknown",
+        reference,
+        notes: transaction.notes,
+      });
+    }
+
+    // Step 4: Zones the lot has been stored in, with what is still there
+    const zones = new Map<
+      Id<"storage_zones">,
+      {
+        zoneId: Id<"storage_zones">;
+        zoneName: string;
+        zonePath: string;
+        branchName: string | null;
+        onHand: number;
+        batchNumbers: string[];
+      }
+    >();
+    for (const batch of batches) {
+      const zone = await load(batch.zoneId);
+      const branch = await load(batch.branchId);
+      const entry = zones.get(batch.zoneId) ?? {
+        zoneId: batch.zoneId,
+        zoneName: zone?.name ?? "Unknown",
+        zonePath: zone?.path ?? "",
+        branchName: branch?.name ?? null,
+        onHand: 0,
+        batchNumbers: [],
+      };
+      if (!batch.isDeleted) entry.onHand += batch.quantity;
+      if (
+        batch.internalBatchNumber &&
+        !entry.batchNumbers.includes(batch.internalBatchNumber)
+      ) {
+        entry.batchNumbers.push(batch.internalBatchNumber);
+      }
+      zones.set(batch.zoneId, entry);
+    }
+
+    return {
+      searchType: args.searchType,
+      value,
+      truncated,
+      skus: [...skus.values()],
+      batchCount: batches.length,
+      onHand: batches
+        .filter((batch) => !batch.isDeleted)
+        .reduce((sum, batch) => sum + batch.quantity, 0),
+      upstream: [...upstream.values()].sort(
+        (a, b) => a.receivedAt - b.receivedAt,
+      ),
+      zones: [...zones.values()].sort((a, b) =>
+        a.zonePath.localeCompare(b.zonePath),
+      ),
+      adjustments: [...adjustments.values()].sort(
+        (a, b) => a.requestedAt - b.requestedAt,
+      ),
+      affectedShipments: [...outboundOrders.values()]
+        .filter((order) => order.quantity > 0)
+        .sort((a, b) => a.orderDate - b.orderDate),
+      timeline: timeline.sort((a, b) => a.occurredAt - b.occurredAt),
+    };
+  },
+});
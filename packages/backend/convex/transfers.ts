@@ -0,0 +1,924 @@
+/**
+ * TRANSFERS API - Inter-branch transfer orders
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full lifecycle
+ * ✅ Admin - full lifecycle
+ * ⚠️ Staff - receive only
+ *
+ * NOTES:
+ * - Lifecycle: Pending → In Transit → Completed (or Discrepancy when closed short)
+ * - Shipping decrements source batches chosen by the FEFO/FIFO rules in
+ *   allocation.ts; the shipped quantity stays in transit
+ *   (quantityShipped - quantityReceived) until it is received
+ * - Receiving creates new batches at the destination that keep the source
+ *   batch's supplier batch number, manufacturing and expiry dates
+ * - Every leg writes inventory_transactions keyed by transferOrderDetailId
+ * - Serial-tracked lines move serial by serial: In Transit when shipped,
+ *   Available at the destination when received, Missing when closed short
+ * - Closing short writes the units still in transit off with TRANSFER_LOSS
+ *   transactions against their source batches
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { allocateBatches } from "./allocation";
+import {
+  applyInventoryChange,
+  generateInternalBatchNumber,
+  recordInventoryTransaction,
+} from "./inventory";
+import { ensureSystemLookup, getLookupCode } from "./lookups";
+import { createNotification } from "./notifications";
+import {
+  getSerialsInStock,
+  isSerialTracked,
+  setSerialLocation,
+  takeSerialsFromBatch,
+} from "./serialNumbers";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+const TRANSFER_STATUSES = {
+  PENDING: { value: "Pending", description: "Transfer is waiting to ship" },
+  IN_TRANSIT: {
+    value: "In Transit",
+    description: "Stock has left the source branch",
+  },
+  COMPLETED: {
+    value: "Completed",
+    description: "All shipped stock was received",
+  },
+  DISCREPANCY: {
+    value: "Discrepancy",
+    description: "Transfer was closed with less stock received than shipped",
+  },
+  CANCELLED: { value: "Cancelled", description: "Transfer was cancelled" },
+} as const;
+
+type TransferStatusCode = keyof typeof TRANSFER_STATUSES;
+
+/**
+ * Get the lookup ID for a transfer status, creating it if missing
+ */
+async function ensureTransferStatus(
+  ctx: MutationCtx,
+  statusCode: TransferStatusCode,
+): Promise<Id<"system_lookups">> {
+  const status = TRANSFER_STATUSES[statusCode];
+  return await ensureSystemLookup(
+    ctx,
+    "TransferOrderStatus",
+    statusCode,
+    status.value,
+    status.description,
+  );
+}
+
+/**
+ * Load a transfer order and assert it is in one of the allowed statuses
+ */
+async function getTransferInStatus(
+  ctx: MutationCtx,
+  transferOrderId: Id<"transfer_orders">,
+  allowedStatuses: TransferStatusCode[],
+): Promise<Doc<"transfer_orders">> {
+  const transfer = await ctx.db.get(transferOrderId);
+  if (!transfer || transfer.isDeleted) {
+    throw new Error("Transfer order not found");
+  }
+
+  const statusCode = await getLookupCode(ctx, transfer.transferStatusTypeId);
+  if (!allowedStatuses.includes(statusCode as TransferStatusCode)) {
+    throw new Error(
+      `Transfer ${transfer.transferCode} is ${statusCode ?? "in an unknown status"}; expected ${allowedStatuses.join(" or ")}`,
+    );
+  }
+
+  return transfer;
+}
+
+/**
+ * Generate a unique transfer code
+ * Format: TR-YYYYMMDD-XXXX
+ */
+async function generateTransferCode(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+
+  const todayTransfers = await ctx.db
+    .query("transfer_orders")
+    .withIndex("organizationId", (q) => q.eq("organizationId", organizationId))
+    .filter((q) => q.gte(q.field("_creationTime"), startOfDay))
+    .collect();
+
+  const sequence = (todayTransfers.length + 1).toString().padStart(4, "0");
+  return `TR-${dateStr}-${sequence}`;
+}
+
+/**
+ * Get the details of a transfer order
+ */
+async function getTransferDetails(
+  ctx: MutationCtx,
+  transferOrderId: Id<"transfer_orders">,
+) {
+  return await ctx.db
+    .query("transfer_order_details")
+    .withIndex("transferOrderId", (q) =>
+      q.eq("transferOrderId", transferOrderId),
+    )
+    .collect();
+}
+
+/**
+ * Get the transfer-out transactions of a detail line, i.e. the source
+ * batches the line was shipped from, in shipping order
+ */
+async function getShippedSourceBatches(
+  ctx: MutationCtx,
+  transferOrderDetailId: Id<"transfer_order_details">,
+  transferOutTypeId: Id<"system_lookups">,
+) {
+  const transactions = await ctx.db
+    .query("inventory_transactions")
+    .withIndex("transferOrderDetailId", (q) =>
+      q.eq("transferOrderDetailId", transferOrderDetailId),
+    )
+    .filter((q) =>
+      q.eq(q.field("inventoryTransactionTypeId"), transferOutTypeId),
+    )
+    .collect();
+
+  const shipped: { batch: Doc<"inventory_batches">; quantity: number }[] = [];
+  for (const transaction of transactions) {
+    if (!transaction.batchId) continue;
+    const batch = await ctx.db.get(transaction.batchId);
+    if (!batch) continue;
+    shipped.push({ batch, quantity: -transaction.quantityChange });
+  }
+
+  return shipped;
+}
+
+/**
+ * Get the serials of a detail line that are still in transit, with the
+ * source batch each was shipped from
+ */
+async function getInTransitSerials(
+  ctx: MutationCtx,
+  transferOrderDetailId: Id<"transfer_order_details">,
+  transferOutTypeId: Id<"system_lookups">,
+) {
+  const transactions = await ctx.db
+    .query("inventory_transactions")
+    .withIndex("transferOrderDetailId", (q) =>
+      q.eq("transferOrderDetailId", transferOrderDetailId),
+    )
+    .filter((q) =>
+      q.eq(q.field("inventoryTransactionTypeId"), transferOutTypeId),
+    )
+    .collect();
+
+  const inTransit: {
+    serial: Doc<"serial_numbers">;
+    sourceBatch: Doc<"inventory_batches">;
+  }[] = [];
+  for (const transaction of transactions) {
+    if (!transaction.serialNumberId || !transaction.batchId) continue;
+    const serial = await ctx.db.get(transaction.serialNumberId);
+    const sourceBatch = await ctx.db.get(transaction.batchId);
+    if (!serial || !sourceBatch) continue;
+    if (
+      (await getLookupCode(ctx, serial.serialStatusTypeId)) !== "IN_TRANSIT"
+    ) {
+      continue;
+    }
+    inTransit.push({ serial, sourceBatch });
+  }
+
+  return inTransit;
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * List transfers of an organization, optionally limited to a branch
+ * (as source or destination)
+ */
+export const listTransfers = query({
+  args: {
+    organizationId: v.id("organizations"),
+    branchId: v.optional(v.id("branches")),
+  },
+  handler: async (ctx, args) => {
+    const transfers = await ctx.db
+      .query("transfer_orders")
+      .withIndex("organizationId", (q) =>
+        q.eq("organizationId", args.organizationId),
+      )
+      .filter((q) => q.eq(q.field("isDeleted"), false))
+      .order("desc")
+      .collect();
+
+    const filtered = args.branchId
+      ? transfers.filter(
+          (t) =>
+            t.sourceBranchId === args.branchId ||
+            t.destinationBranchId === args.branchId,
+        )
+      : transfers;
+
+    return await Promise.all(
+      filtered.map(async (transfer) => {
+        const status = await ctx.db.get(transfer.transferStatusTypeId);
+        const sourceBranch = await ctx.db.get(transfer.sourceBranchId);
+        const destinationBranch = await ctx.db.get(
+          transfer.destinationBranchId,
+        );
+        const details = await ctx.db
+          .query("transfer_order_details")
+          .withIndex("transferOrderId", (q) =>
+            q.eq("transferOrderId", transfer._id),
+          )
+          .collect();
+
+        const totalShipped = details.reduce((s, d) => s + d.quantityShipped, 0);
+        const totalReceived = details.reduce(
+          (s, d) => s + d.quantityReceived,
+          0,
+        );
+
+        return {
+          ...transfer,
+          sourceBranchName: sourceBranch?.name ?? "Unknown",
+          destinationBranchName: destinationBranch?.name ?? "Unknown",
+          statusName: status?.lookupValue ?? "Unknown",
+          statusCode: status?.lookupCode ?? "UNKNOWN",
+          totalLines: details.length,
+          totalRequested: details.reduce((s, d) => s + d.quantityRequested, 0),
+          totalShipped,
+          totalReceived,
+          totalInTransit:
+            status?.lookupCode === "IN_TRANSIT"
+              ? totalShipped - totalReceived
+              : 0,
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Get a transfer with its lines
+ */
+export const getTransferById = query({
+  args: {
+    transferOrderId: v.id("transfer_orders"),
+  },
+  handler: async (ctx, args) => {
+    const transfer = await ctx.db.get(args.transferOrderId);
+    if (!transfer || transfer.isDeleted) {
+      return null;
+    }
+
+    const status = await ctx.db.get(transfer.transferStatusTypeId);
+    const sourceBranch = await ctx.db.get(transfer.sourceBranchId);
+    const destinationBranch = await ctx.db.get(transfer.destinationBranchId);
+    const details = await ctx.db
+      .query("transfer_order_details")
+      .withIndex("transferOrderId", (q) =>
+        q.eq("transferOrderId", args.transferOrderId),
+      )
+      .collect();
+
+    const items = await Promise.all(
+      details.map(async (detail) => {
+        const variant = await ctx.db.get(detail.skuId);
+        const product = variant ? await ctx.db.get(variant.productId) : null;
+
+        return {
+          ...detail,
+          skuCode: variant?.skuCode ?? "Unknown",
+          productName: product?.name ?? "Unknown",
+          quantityInTransit:
+            status?.lookupCode === "IN_TRANSIT"
+              ? detail.quantityShipped - detail.quantityReceived
+              : 0,
+        };
+      }),
+    );
+
+    return {
+      ...transfer,
+      sourceBranchName: sourceBranch?.name ?? "Unknown",
+      destinationBranchName: destinationBranch?.name ?? "Unknown",
+      statusName: status?.lookupValue ?? "Unknown",
+      statusCode: status?.lookupCode ?? "UNKNOWN",
+      items,
+    };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Create a transfer order in Pending status
+ */
+export const createTransfer = mutation({
+  args: {
+    sourceBranchId: v.id("branches"),
+    destinationBranchId: v.id("branches"),
+    userId: v.id("users"),
+    expectedDeliveryAt: v.optional(v.number()),
+    items: v.array(
+      v.object({
+        skuId: v.id("product_variants"),
+        quantity: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    if (args.sourceBranchId === args.destinationBranchId) {
+      throw new Error("Source and destination branches must be different");
+    }
+    if (args.items.length === 0) {
+      throw new Error("Transfer must contain at least one item");
+    }
+
+    const sourceBranch = await ctx.db.get(args.sourceBranchId);
+    const destinationBranch = await ctx.db.get(args.destinationBranchId);
+    if (!sourceBranch || !destinationBranch) {
+      throw new Error("Branch not found");
+    }
+    if (sourceBranch.organizationId !== destinationBranch.organizationId) {
+      throw new Error("Branches belong to different organizations");
+    }
+
+    for (const item of args.items) {
+      if (item.quantity <= 0) {
+        throw new Error("Item quantity must be greater than 0");
+      }
+    }
+
+    const transferCode = await generateTransferCode(
+      ctx,
+      sourceBranch.organizationId,
+    );
+
+    const transferOrderId = await ctx.db.insert("transfer_orders", {
+      organizationId: sourceBranch.organizationId,
+      transferCode,
+      sourceBranchId: args.sourceBranchId,
+      destinationBranchId: args.destinationBranchId,
+      createdByUserId: args.userId,
+      expectedDeliveryAt: args.expectedDeliveryAt,
+      transferStatusTypeId: await ensureTransferStatus(ctx, "PENDING"),
+      isDeleted: false,
+    });
+
+    for (const item of args.items) {
+      await ctx.db.insert("transfer_order_details", {
+        transferOrderId,
+        skuId: item.skuId,
+        quantityRequested: item.quantity,
+        quantityShipped: 0,
+        quantityReceived: 0,
+      });
+    }
+
+    return {
+      success: true,
+      transferOrderId,
+      transferCode,
+    };
+  },
+});
+
+/**
+ * Ship a transfer from its source branch
+ * Decrements source batches (oldest first) and puts the quantity in transit
+ * Scanned serials must come from the batches allocated to their line
+ */
+export const shipTransfer = mutation({
+  args: {
+    transferOrderId: v.id("transfer_orders"),
+    userId: v.id("users"),
+    trackingNumber: v.optional(v.string()),
+    lines: v.optional(
+      v.array(
+        v.object({
+          detailId: v.id("transfer_order_details"),
+          quantityShipped: v.number(),
+          // Serial-tracked lines default to the first serials of each batch
+          serialNumbers: v.optional(v.array(v.string())),
+        }),
+      ),
+    ), // Defaults to shipping the requested quantity of every line
+  },
+  handler: async (ctx, args) => {
+    const transfer = await getTransferInStatus(ctx, args.transferOrderId, [
+      "PENDING",
+    ]);
+    const details = await getTransferDetails(ctx, transfer._id);
+
+    const shipByDetail = new Map<Id<"transfer_order_details">, number>(
+      args.lines
+        ? args.lines.map((l) => [l.detailId, l.quantityShipped])
+        : details.map((d) => [d._id, d.quantityRequested]),
+    );
+
+    // Allocate every line before writing anything so a shortage fails cleanly
+    const lineAllocations = [];
+    for (const [detailId, quantity] of shipByDetail) {
+      const detail = details.find((d) => d._id === detailId);
+      if (!detail) {
+        throw new Error("Line does not belong to this transfer");
+      }
+      if (quantity < 0 || quantity > detail.quantityRequested) {
+        throw new Error(
+          "Shipped quantity must be between 0 and the requested quantity",
+        );
+      }
+      if (quantity === 0) continue;
+
+      const { allocations, shortfall } = await allocateBatches(
+        ctx,
+        transfer.sourceBranchId,
+        detail.skuId,
+        quantity,
+      );
+      if (shortfall > 0) {
+        const variant = await ctx.db.get(detail.skuId);
+        throw new Error(
+          `Insufficient available stock for ${variant?.skuCode ?? "SKU"}: short by ${shortfall}`,
+        );
+      }
+
+      // Serial-tracked lines ship the scanned serials, otherwise the first
+      // in-stock serials of every allocated batch
+      let serials: Doc<"serial_numbers">[] = [];
+      if (await isSerialTracked(ctx, detail.skuId)) {
+        const serialNumbers = args.lines?.find(
+          (l) => l.detailId === detailId,
+        )?.serialNumbers;
+        if (serialNumbers) {
+          if (serialNumbers.length !== quantity) {
+            throw new Error(
+              `Scan ${quantity} serial number(s) for this serial-tracked line`,
+            );
+          }
+          serials = await getSerialsInStock(ctx, {
+            organizationId: transfer.organizationId,
+            skuId: detail.skuId,
+            serialNumbers,
+            branchId: transfer.sourceBranchId,
+          });
+
+          // Scanned serials must come from the allocated batches, no more
+          // per batch than allocated, so other reservations stay intact
+          const scannedByBatch = new Map<Id<"inventory_batches">, number>();
+          for (const serial of serials) {
+            const allocation = allocations.find(
+              (a) => a.batchId === serial.batchId,
+            );
+            if (!allocation) {
+              throw new Error(
+                `Serial ${serial.serialNumber} is not in a batch allocated to this transfer`,
+              );
+            }
+            const scanned = (scannedByBatch.get(allocation.batchId) ?? 0) + 1;
+            if (scanned > allocation.quantity) {
+              const batch = await ctx.db.get(allocation.batchId);
+              throw new Error(
+                `Only ${allocation.quantity} unit(s) of batch ${batch?.internalBatchNumber ?? allocation.batchId} are allocated to this line`,
+              );
+            }
+            scannedByBatch.set(allocation.batchId, scanned);
+          }
+        } else {
+          for (const allocation of allocations) {
+            serials.push(
+              ...(await takeSerialsFromBatch(
+                ctx,
+                allocation.batchId,
+                allocation.quantity,
+              )),
+            );
+          }
+        }
+      }
+
+      lineAllocations.push({ detail, quantity, allocations, serials });
+    }
+
+    if (lineAllocations.length === 0) {
+      throw new Error("Nothing to ship for this transfer");
+    }
+
+    const transferOutTypeId = await ensureSystemLookup(
+      ctx,
+      "InventoryTransactionType",
+      "TRANSFER_OUT",
+      "Transfer Out",
+      "Stock shipped to another branch",
+    );
+
+    for (const { detail, quantity, allocations, serials } of lineAllocations) {
+      for (const serial of serials) {
+        await applyInventoryChange(ctx, {
+          batchId: serial.batchId!,
+          quantityChange: -1,
+          inventoryTransactionTypeId: transferOutTypeId,
+          createdByUserId: args.userId,
+          notes: `Shipped on transfer ${transfer.transferCode}`,
+          serialNumberId: serial._id,
+          transferOrderDetailId: detail._id,
+        });
+        await setSerialLocation(ctx, serial._id, "IN_TRANSIT");
+      }
+
+      for (const allocation of serials.length ? [] : allocations) {
+        await applyInventoryChange(ctx, {
+          batchId: allocation.batchId,
+          quantityChange: -allocation.quantity,
+          inventoryTransactionTypeId: transferOutTypeId,
+          createdByUserId: args.userId,
+          notes: `Shipped on transfer ${transfer.transferCode}`,
+          transferOrderDetailId: detail._id,
+        });
+      }
+
+      await ctx.db.patch(detail._id, { quantityShipped: quantity });
+    }
+
+    await ctx.db.patch(transfer._id, {
+      trackingNumber: args.trackingNumber?.trim() || transfer.trackingNumber,
+      transferStatusTypeId: await ensureTransferStatus(ctx, "IN_TRANSIT"),
+    });
+
+    return {
+      success: true,
+      totalShipped: lineAllocations.reduce((s, l) => s + l.quantity, 0),
+    };
+  },
+});
+
+/**
+ * Receive a transfer at its destination branch
+ * Creates new batches in the receiving zone that keep the source batch
+ * attributes. When closeShort is set, any quantity still in transit is
+ * written off as a discrepancy with TRANSFER_LOSS transactions and the
+ * creator is notified.
+ */
+export const receiveTransfer = mutation({
+  args: {
+    transferOrderId: v.id("transfer_orders"),
+    userId: v.id("users"),
+    zoneId: v.id("storage_zones"),
+    lines: v.array(
+      v.object({
+        detailId: v.id("transfer_order_details"),
+        quantityReceived: v.number(),
+        // Serial-tracked lines default to the serials in shipping order
+        serialNumbers: v.optional(v.array(v.string())),
+      }),
+    ),
+    closeShort: v.optional(v.boolean()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const transfer = await getTransferInStatus(ctx, args.transferOrderId, [
+      "IN_TRANSIT",
+    ]);
+
+    const zone = await ctx.db.get(args.zoneId);
+    if (
+      !zone ||
+      zone.isDeleted ||
+      zone.branchId !== transfer.destinationBranchId
+    ) {
+      throw new Error("Zone does not belong to the destination branch");
+    }
+
+    const details = await getTransferDetails(ctx, transfer._id);
+    const transferOutTypeId = await ensureSystemLookup(
+      ctx,
+      "InventoryTransactionType",
+      "TRANSFER_OUT",
+      "Transfer Out",
+      "Stock shipped to another branch",
+    );
+    const transferInTypeId = await ensureSystemLookup(
+      ctx,
+      "InventoryTransactionType",
+      "TRANSFER_IN",
+      "Transfer In",
+      "Stock received from another branch",
+    );
+    const activeStatusId = await ensureSystemLookup(
+      ctx,
+      "BatchStatus",
+      "ACTIVE",
+      "Active",
+      "Batch is available for use",
+    );
+
+    const receivedAt = Date.now();
+
+    for (const line of args.lines) {
+      if (line.quantityReceived === 0) continue;
+
+      const detail = details.find((d) => d._id === line.detailId);
+      if (!detail) {
+        throw new Error("Line does not belong to this transfer");
+      }
+
+      const inTransit = detail.quantityShipped - detail.quantityReceived;
+      if (line.quantityReceived < 0 || line.quantityReceived > inTransit) {
+        throw new Error(
+          `Received quantity must be between 0 and the ${inTransit} in transit`,
+        );
+      }
+
+      if (await isSerialTracked(ctx, detail.skuId)) {
+        const inTransitSerials = await getInTransitSerials(
+          ctx,
+          detail._id,
+          transferOutTypeId,
+        );
+        const received = line.serialNumbers
+          ? line.serialNumbers.map((serialNumber) => {
+              const match = inTransitSerials.find(
+                (s) => s.serial.serialNumber === serialNumber.trim(),
+              );
+              if (!match) {
+                throw new Error(
+                  `Serial ${serialNumber} is not in transit on this transfer`,
+                );
+              }
+              return match;
+            })
+          : inTransitSerials.slice(0, line.quantityReceived);
+        if (received.length !== line.quantityReceived) {
+          throw new Error(
+            `Scan ${line.quantityReceived} serial number(s) for this serial-tracked line`,
+          );
+        }
+
+        // One destination batch per source batch, one receipt per serial
+        const destinationBatches = new Map<
+          Id<"inventory_batches">,
+          Id<"inventory_batches">
+        >();
+        for (const { serial, sourceBatch } of received) {
+          let batchId = destinationBatches.get(sourceBatch._id);
+          if (!batchId) {
+            batchId = await ctx.db.insert("inventory_batches", {
+              organizationId: transfer.organizationId,
+              skuId: detail.skuId,
+              zoneId: args.zoneId,
+              quantity: 0,
+              branchId: transfer.destinationBranchId,
+              supplierBatchNumber: sourceBatch.supplierBatchNumber,
+              internalBatchNumber: await generateInternalBatchNumber(
+                ctx,
+                transfer.destinationBranchId,
+              ),
+              receivedAt,
+              manufacturingDate: sourceBatch.manufacturingDate,
+              expiresAt: sourceBatch.expiresAt,
+              batchStatusTypeId: activeStatusId,
+              isDeleted: false,
+            });
+            destinationBatches.set(sourceBatch._id, batchId);
+          }
+
+          await applyInventoryChange(ctx, {
+            batchId,
+            quantityChange: 1,
+            inventoryTransactionTypeId: transferInTypeId,
+            createdByUserId: args.userId,
+            notes:
+              args.notes ?? `Received on transfer ${transfer.transferCode}`,
+            serialNumberId: serial._id,
+            transferOrderDetailId: detail._id,
+          });
+          await setSerialLocation(ctx, serial._id, "AVAILABLE", {
+            batchId,
+            zoneId: args.zoneId,
+          });
+        }
+
+        await ctx.db.patch(detail._id, {
+          quantityReceived: detail.quantityReceived + line.quantityReceived,
+        });
+        detail.quantityReceived += line.quantityReceived;
+        continue;
+      }
+
+      // Walk the shipped source batches, skipping what earlier receipts used
+      const shipped = await getShippedSourceBatches(
+        ctx,
+        detail._id,
+        transferOutTypeId,
+      );
+      let alreadyReceived = detail.quantityReceived;
+      let remaining = line.quantityReceived;
+
+      for (const { batch: sourceBatch, quantity } of shipped) {
+        if (remaining <= 0) break;
+
+        const consumed = Math.min(alreadyReceived, quantity);
+        alreadyReceived -= consumed;
+        const take = Math.min(quantity - consumed, remaining);
+        if (take <= 0) continue;
+
+        const internalBatchNumber = await generateInternalBatchNumber(
+          ctx,
+          transfer.destinationBranchId,
+        );
+        const batchId = await ctx.db.insert("inventory_batches", {
+          organizationId: transfer.organizationId,
+          skuId: detail.skuId,
+          zoneId: args.zoneId,
+          quantity: take,
+          branchId: transfer.destinationBranchId,
+          supplierBatchNumber: sourceBatch.supplierBatchNumber,
+          internalBatchNumber,
+          receivedAt,
+          manufacturingDate: sourceBatch.manufacturingDate,
+          expiresAt: sourceBatch.expiresAt,
+          batchStatusTypeId: activeStatusId,
+          isDeleted: false,
+        });
+
+        await recordInventoryTransaction(ctx, {
+          organizationId: transfer.organizationId,
+          batchId,
+          quantityBefore: 0,
+          quantityChange: take,
+          quantityAfter: take,
+          inventoryTransactionTypeId: transferInTypeId,
+          createdByUserId: args.userId,
+          notes: args.notes ?? `Received on transfer ${transfer.transferCode}`,
+          transferOrderDetailId: detail._id,
+        });
+
+        remaining -= take;
+      }
+
+      await ctx.db.patch(detail._id, {
+        quantityReceived: detail.quantityReceived + line.quantityReceived,
+      });
+      detail.quantityReceived += line.quantityReceived;
+    }
+
+    const discrepancies = details
+      .filter((d) => d.quantityReceived < d.quantityShipped)
+      .map((d) => ({
+        detailId: d._id,
+        skuId: d.skuId,
+        quantityShipped: d.quantityShipped,
+        quantityReceived: d.quantityReceived,
+        variance: d.quantityReceived - d.quantityShipped,
+      }));
+
+    let statusCode: TransferStatusCode = "IN_TRANSIT";
+    if (discrepancies.length === 0) {
+      statusCode = "COMPLETED";
+    } else if (args.closeShort) {
+      statusCode = "DISCREPANCY";
+
+      // Units that never arrived are written off against the source batch
+      // they shipped from; the quantities describe the in-transit leg, as
+      // the source batch was already decremented at shipping
+      const transferLossTypeId = await ensureSystemLookup(
+        ctx,
+        "InventoryTransactionType",
+        "TRANSFER_LOSS",
+        "Transfer Loss",
+        "Stock lost in transit between branches",
+      );
+      const lossNotes = `Not received on transfer ${transfer.transferCode}${args.notes ? ` - ${args.notes}` : ""}`;
+      for (const discrepancy of discrepancies) {
+        const inTransitSerials = await getInTransitSerials(
+          ctx,
+          discrepancy.detailId,
+          transferOutTypeId,
+        );
+        for (const { serial, sourceBatch } of inTransitSerials) {
+          await recordInventoryTransaction(ctx, {
+            organizationId: transfer.organizationId,
+            batchId: sourceBatch._id,
+            serialNumberId: serial._id,
+            quantityBefore: 1,
+            quantityChange: -1,
+            quantityAfter: 0,
+            inventoryTransactionTypeId: transferLossTypeId,
+            createdByUserId: args.userId,
+            notes: lossNotes,
+            transferOrderDetailId: discrepancy.detailId,
+          });
+          await setSerialLocation(ctx, serial._id, "MISSING");
+        }
+        if (inTransitSerials.length > 0) continue;
+
+        // Skip the shipped quantity that was received, as receiving does
+        let alreadyReceived = discrepancy.quantityReceived;
+        for (const { batch, quantity } of await getShippedSourceBatches(
+          ctx,
+          discrepancy.detailId,
+          transferOutTypeId,
+        )) {
+          const consumed = Math.min(alreadyReceived, quantity);
+          alreadyReceived -= consumed;
+          const lost = quantity - consumed;
+          if (lost <= 0) continue;
+
+          await recordInventoryTransaction(ctx, {
+            organizationId: transfer.organizationId,
+            batchId: batch._id,
+            quantityBefore: lost,
+            quantityChange: -lost,
+            quantityAfter: 0,
+            inventoryTransactionTypeId: transferLossTypeId,
+            createdByUserId: args.userId,
+            notes: lossNotes,
+            transferOrderDetailId: discrepancy.detailId,
+          });
+        }
+      }
+
+      const totalMissing = discrepancies.reduce((s, d) => s - d.variance, 0);
+      await createNotification(ctx, {
+        organizationId: transfer.organizationId,
+        notificationCategoryTypeId: await ensureSystemLookup(
+          ctx,
+          "NotificationCategory",
+          "ALERT",
+          "Alert",
+          "Alert notifications",
+        ),
+        notificationType: "Transfer Discrepancy",
+        recipientUserId: transfer.createdByUserId,
+        title: "Transfer closed with discrepancy",
+        message: `Transfer ${transfer.transferCode} was closed with ${totalMissing} unit(s) not received across ${discrepancies.length} line(s)${args.notes ? `: ${args.notes}` : ""}`,
+        priorityTypeId: await ensureSystemLookup(
+          ctx,
+          "Priority",
+          "HIGH",
+          "High",
+          "High priority",
+        ),
+        relatedEntityType: "transfer_orders",
+        relatedEntityId: transfer._id,
+      });
+    }
+
+    await ctx.db.patch(transfer._id, {
+      transferStatusTypeId: await ensureTransferStatus(ctx, statusCode),
+      actualDeliveryAt:
+        statusCode === "IN_TRANSIT" ? transfer.actualDeliveryAt : receivedAt,
+    });
+
+    return {
+      success: true,
+      statusCode,
+      discrepancies,
+    };
+  },
+});
+
+/**
+ * Cancel a transfer that has not shipped yet
+ */
+export const cancelTransfer = mutation({
+  args: {
+    transferOrderId: v.id("transfer_orders"),
+  },
+  handler: async (ctx, args) => {
+    const transfer = await getTransferInStatus(ctx, args.transferOrderId, [
+      "PENDING",
+    ]);
+
+    await ctx.db.patch(transfer._id, {
+      transferStatusTypeId: await ensureTransferStatus(ctx, "CANCELLED"),
+    });
+
+    return { success: true };
+  },
+});
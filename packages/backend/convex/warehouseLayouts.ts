@@ -0,0 +1,1500 @@
+/**
+ * WAREHOUSE LAYOUTS API - Versioned floor plans per branch
+ *
+ * WHO CAN USE:
+ * ✅ Warehouse Manager - full access
+ * ✅ Admin - full access
+ * ⚠️ Staff - read only
+ *
+ * NOTES:
+ * - A layout is the WarehouseLayout JSON of specs/layout-editor: entry
+ *   points, zones, racks, shelves, bins and obstacles
+ * - Each branch has numbered versions; at most one DRAFT (edited in place
+ *   by saveDraft) and one PUBLISHED, older published versions are ARCHIVED
+ * - Every save runs validateLayout and stores the issues with the draft;
+ *   a draft with issues can be saved but not published
+ * - Racks of the published layout holding stock (in the rack, its shelves
+ *   or bins) are locked: a new version may not move, rotate, resize or
+ *   remove them
+ * - Every rack's front must be reachable from an entry point: the floor is
+ *   rasterised on the grid, racks and obstacles are grown by half of
+ *   config.minAisleWidth (default 1) and flood filled from the entry points
+ * - Issues about racks carry the rack's elementId and rule so the editor
+ *   can highlight them
+ * - Publishing upserts the storage_zones hierarchy:
+ *   layout zone → area, rack → rack, shelf → level, bin → bin
+ *   - each zone keeps the layout element it came from in
+ *     zoneAttributes.layoutElementId, so later publishes update it in place
+ *   - an unbound zone already at the same path is taken over
+ *   - zones of elements removed from the layout are soft deleted, and
+ *     publishing is refused while any of them still holds stock
+ * - Rack and bin zones get dockDistance (metres to the nearest entry point)
+ *   and bins their capacity, which putaway ranking reads
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { ensureSystemLookup, getLookupCode, getSystemLookup } from "./lookups";
+import { toPathSegment } from "./storageZones";
+
+// ================================================================
+// HELPER FUNCTIONS
+// ================================================================
+
+export const LAYOUT_SCHEMA_VERSION = "1.0";
+
+const LAYOUT_STATUS = "LayoutStatus";
+
+const ZONE_TYPES = ["storage", "staging", "packing", "office", "other"];
+const RACK_TYPES = ["standard", "cantilever", "drive-in", "pallet"];
+const OBSTACLE_TYPES = ["column", "wall", "equipment", "other"];
+
+// Operational zone type of the storage zones created for each layout zone type
+const LAYOUT_ZONE_TYPES: Record<
+  string,
+  { code: string; value: string; description: string }
+> = {
+  storage: {
+    code: "STORAGE",
+    value: "Storage",
+    description: "Main storage zone",
+  },
+  staging: {
+    code: "RECEIVING",
+    value: "Receiving",
+    description: "Receiving zone for inbound goods",
+  },
+  packing: {
+    code: "SHIPPING",
+    value: "Shipping",
+    description: "Shipping zone for outbound orders",
+  },
+  office: { code: "OTHER", value: "Other", description: "Non-storage area" },
+  other: { code: "OTHER", value: "Other", description: "Non-storage area" },
+};
+
+export type LayoutVector = { x: number; y: number; z: number };
+export type LayoutDimension = { width: number; height: number; depth: number };
+
+export type LayoutBin = {
+  id: string;
+  capacity: number;
+  currentLoad: number;
+  position?: { indexX: number; indexZ: number };
+  dimensions?: LayoutDimension;
+};
+
+export type LayoutShelf = {
+  id: string;
+  levelIndex: number;
+  heightFromGround: number;
+  dimensions?: LayoutDimension;
+  bins: LayoutBin[];
+};
+
+export type LayoutRack = {
+  id: string;
+  type: "standard" | "cantilever" | "drive-in" | "pallet";
+  position: LayoutVector;
+  rotation: LayoutVector;
+  dimensions: LayoutDimension;
+  shelves: LayoutShelf[];
+  metadata?: { manufacturer?: string; model?: string; capacity?: number };
+};
+
+export type LayoutObstacle = {
+  id: string;
+  type: "column" | "wall" | "equipment" | "other";
+  position: LayoutVector;
+  rotation?: LayoutVector;
+  dimensions: LayoutDimension;
+  label?: string;
+};
+
+export type LayoutZone = {
+  id: string;
+  type: "storage" | "staging" | "packing" | "office" | "other";
+  name: string;
+  bounds: { x: number; z: number; width: number; length: number };
+  color: string;
+  racks: LayoutRack[];
+  obstacles: LayoutObstacle[];
+};
+
+export type LayoutEntryPoint = {
+  id: string;
+  position: LayoutVector;
+  label: string;
+  type?: "door" | "dock" | "gate";
+};
+
+export type WarehouseLayout = {
+  version: string;
+  meta: {
+    warehouseId: string;
+    lastUpdated: string;
+    authorId: string;
+    name?: string;
+    description?: string;
+  };
+  config: {
+    gridSize: number;
+    measurementUnit: "meters" | "feet";
+    snapToGrid?: boolean;
+    floorDimensions: { width: number; length: number };
+    /** Narrowest walkable aisle, in layout units (default 1) */
+    minAisleWidth?: number;
+  };
+  entryPoints: LayoutEntryPoint[];
+  zones: LayoutZone[];
+};
+
+export type LayoutIssue = {
+  path: string;
+  message: string;
+  /** Rack the issue is about, for highlighting in the editor */
+  elementId?: string;
+  rule?: "LOCKED" | "INACCESSIBLE";
+};
+
+/**
+ * Floor footprint of a box: centre, half extents and rotation about Y
+ */
+export type Footprint = {
+  x: number;
+  z: number;
+  halfWidth: number;
+  halfDepth: number;
+  angle: number;
+};
+
+const EPSILON = 1e-6;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const readVector = (value: unknown): LayoutVector | null =>
+  isObject(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z)
+    ? { x: value.x, y: value.y, z: value.z }
+    : null;
+
+const isPositiveDimension = (value: unknown): value is LayoutDimension =>
+  isObject(value) &&
+  isNumber(value.width) &&
+  isNumber(value.height) &&
+  isNumber(value.depth) &&
+  value.width > 0 &&
+  value.height > 0 &&
+  value.depth > 0;
+
+/**
+ * Footprint of a rack or obstacle on the floor
+ */
+export function getFootprint(entity: {
+  position: LayoutVector;
+  rotation?: LayoutVector;
+  dimensions: LayoutDimension;
+}): Footprint {
+  return {
+    x: entity.position.x,
+    z: entity.position.z,
+    halfWidth: entity.dimensions.width / 2,
+    halfDepth: entity.dimensions.depth / 2,
+    angle: entity.rotation?.y ?? 0,
+  };
+}
+
+/**
+ * Corners of a footprint in floor coordinates (x, z)
+ */
+export function getFootprintCorners(footprint: Footprint): [number, number][] {
+  const cos = Math.cos(footprint.angle);
+  const sin = Math.sin(footprint.angle);
+  return [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([sx, sz]) => {
+    const localX = sx * footprint.halfWidth;
+    const localZ = sz * footprint.halfDepth;
+    return [
+      footprint.x + localX * cos + localZ * sin,
+      footprint.z - localX * sin + localZ * cos,
+    ];
+  });
+}
+
+/**
+ * Whether two footprints overlap (separating axis test; touching edges
+ * do not count)
+ */
+export function footprintsOverlap(a: Footprint, b: Footprint): boolean {
+  const cornersA = getFootprintCorners(a);
+  const cornersB = getFootprintCorners(b);
+  const axes = [a.angle, b.angle].flatMap((angle) => [
+    [Math.cos(angle), -Math.sin(angle)],
+    [Math.sin(angle), Math.cos(angle)],
+  ]);
+
+  for (const [ax, az] of axes) {
+    const project = (corners: [number, number][]) =>
+      corners.map(([x, z]) => x * ax + z * az);
+    const projA = project(cornersA);
+    const projB = project(cornersB);
+    if (
+      Math.max(...projA) <= Math.min(...projB) + EPSILON ||
+      Math.max(...projB) <= Math.min(...projA) + EPSILON
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether a floor point lies inside a footprint grown by a margin
+ */
+function pointInFootprint(
+  x: number,
+  z: number,
+  footprint: Footprint,
+  margin = 0,
+): boolean {
+  const cos = Math.cos(footprint.angle);
+  const sin = Math.sin(footprint.angle);
+  const dx = x - footprint.x;
+  const dz = z - footprint.z;
+  const localX = dx * cos - dz * sin;
+  const localZ = dx * sin + dz * cos;
+  return (
+    Math.abs(localX) < footprint.halfWidth + margin - EPSILON &&
+    Math.abs(localZ) < footprint.halfDepth + margin - EPSILON
+  );
+}
+
+const DEFAULT_AISLE_WIDTH = 1;
+const INTERACTION_DEPTH = 1.5;
+const MAX_GRID_CELLS = 200;
+
+/**
+ * Area a picker stands in to work a rack: a strip along its front face
+ * (local +Z), as wide as the rack and at least one aisle deep
+ */
+function getInteractionZone(rack: LayoutRack, aisleWidth: number): Footprint {
+  const footprint = getFootprint(rack);
+  const depth = Math.max(INTERACTION_DEPTH, aisleWidth);
+  const offset = footprint.halfDepth + depth / 2;
+  return {
+    x: footprint.x + offset * Math.sin(footprint.angle),
+    z: footprint.z + offset * Math.cos(footprint.angle),
+    halfWidth: footprint.halfWidth,
+    halfDepth: depth / 2,
+    angle: footprint.angle,
+  };
+}
+
+/**
+ * Find the racks whose front cannot be reached from any entry point
+ *
+ * Process:
+ * 1. Rasterises the floor into a grid of gridSize cells (at most 200 × 200)
+ * 2. Blocks the cells covered by racks and obstacles, grown by half the
+ *    minimum aisle width so only aisles that wide stay walkable
+ * 3. Flood fills (BFS, 4-neighbour) from the cells of the entry points
+ * 4. Reports each rack none of whose interaction zone cells were reached
+ */
+export function findInaccessibleRacks(layout: WarehouseLayout): string[] {
+  const { gridSize, floorDimensions } = layout.config;
+  const aisleWidth = layout.config.minAisleWidth ?? DEFAULT_AISLE_WIDTH;
+
+  // Step 1: Grid
+  const cellSize = Math.max(
+    gridSize,
+    floorDimensions.width / MAX_GRID_CELLS,
+    floorDimensions.length / MAX_GRID_CELLS,
+  );
+  const cols = Math.ceil(floorDimensions.width / cellSize);
+  const rows = Math.ceil(floorDimensions.length / cellSize);
+  const toCell = (value: number, count: number) =>
+    Math.min(Math.max(Math.floor(value / cellSize), 0), count - 1);
+
+  // Cells whose centre lies in a footprint grown by a margin
+  const coveredCells = (footprint: Footprint, margin: number) => {
+    const corners = getFootprintCorners({
+      ...footprint,
+      halfWidth: footprint.halfWidth + margin,
+      halfDepth: footprint.halfDepth + margin,
+    });
+    const xs = corners.map(([x]) => x);
+    const zs = corners.map(([, z]) => z);
+    const cells: number[] = [];
+    for (
+      let row = toCell(Math.min(...zs), rows);
+      row <= toCell(Math.max(...zs), rows);
+      row++
+    ) {
+      for (
+        let col = toCell(Math.min(...xs), cols);
+        col <= toCell(Math.max(...xs), cols);
+        col++
+      ) {
+        if (
+          pointInFootprint(
+            (col + 0.5) * cellSize,
+            (row + 0.5) * cellSize,
+            footprint,
+            margin,
+          )
+        ) {
+          cells.push(row * cols + col);
+        }
+      }
+    }
+    return cells;
+  };
+
+  // Step 2: Blocked cells
+  const blocked = new Uint8Array(cols * rows);
+  const racks = layout.zones.flatMap((zone) => zone.racks);
+  const blockers = [
+    ...racks,
+    ...layout.zones.flatMap((zone) => zone.obstacles),
+  ].map((entity) => getFootprint(entity));
+  for (const footprint of blockers) {
+    for (const cell of coveredCells(footprint, aisleWidth / 2)) {
+      blocked[cell] = 1;
+    }
+  }
+
+  // Step 3: Flood fill from the entry points
+  const visited = new Uint8Array(cols * rows);
+  const queue: number[] = [];
+  for (const entryPoint of layout.entryPoints) {
+    const cell =
+      toCell(entryPoint.position.z, rows) * cols +
+      toCell(entryPoint.position.x, cols);
+    if (!blocked[cell] && !visited[cell]) {
+      visited[cell] = 1;
+      queue.push(cell);
+    }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    const row = Math.floor(cell / cols);
+    const col = cell % cols;
+    const neighbours = [
+      col > 0 ? cell - 1 : -1,
+      col < cols - 1 ? cell + 1 : -1,
+      row > 0 ? cell - cols : -1,
+      row < rows - 1 ? cell + cols : -1,
+    ];
+    for (const next of neighbours) {
+      if (next >= 0 && !blocked[next] && !visited[next]) {
+        visited[next] = 1;
+        queue.push(next);
+      }
+    }
+  }
+
+  // Step 4: Racks with no reachable interaction zone cell
+  return racks
+    .filter((rack) => {
+      const zone = getInteractionZone(rack, aisleWidth);
+      const cells = coveredCells(zone, 0);
+      if (cells.length === 0) {
+        // Zone smaller than a cell: use the cell under its centre
+        if (
+          zone.x < 0 ||
+          zone.z < 0 ||
+          zone.x > floorDimensions.width ||
+          zone.z > floorDimensions.length
+        ) {
+          return true;
+        }
+        cells.push(toCell(zone.z, rows) * cols + toCell(zone.x, cols));
+      }
+      return !cells.some((cell) => visited[cell]);
+    })
+    .map((rack) => rack.id);
+}
+
+/**
+ * Check a layout against the rules of the layout data model
+ *
+ * Process:
+ * 1. Checks the schema version, grid size and floor dimensions
+ * 2. Checks entry points: at least one, on the floor
+ * 3. Checks zones: names usable as path segments, bounds on the floor,
+ *    no overlapping zones
+ * 4. Checks racks and obstacles: inside their zone, no collisions; racks
+ *    need sequential shelves with bins, bins a load within capacity
+ * 5. Checks that element ids are unique across the layout
+ *
+ * Returns one issue per broken rule, with a JSON path to the element
+ */
+export function validateLayout(layout: unknown): LayoutIssue[] {
+  const issues: LayoutIssue[] = [];
+  const issue = (path: string, message: string) =>
+    issues.push({ path, message });
+
+  if (!isObject(layout)) {
+    return [{ path: "", message: "Layout must be a JSON object" }];
+  }
+
+  // Step 1: Version and config
+  if (layout.version !== LAYOUT_SCHEMA_VERSION) {
+    issue(
+      "version",
+      `Unsupported layout version, expected ${LAYOUT_SCHEMA_VERSION}`,
+    );
+  }
+  if (!isObject(layout.meta)) {
+    issue("meta", "Layout metadata is required");
+  }
+
+  const config = isObject(layout.config) ? layout.config : {};
+  if (!isObject(layout.config)) {
+    issue("config", "Layout config is required");
+  }
+  if (
+    !isNumber(config.gridSize) ||
+    config.gridSize < 0.1 ||
+    config.gridSize > 2
+  ) {
+    issue("config.gridSize", "Grid size must be between 0.1 and 2");
+  }
+  const floor = isObject(config.floorDimensions) ? config.floorDimensions : {};
+  const floorWidth = isNumber(floor.width) ? floor.width : 0;
+  const floorLength = isNumber(floor.length) ? floor.length : 0;
+  if (
+    floorWidth <= 0 ||
+    floorWidth > 500 ||
+    floorLength <= 0 ||
+    floorLength > 500
+  ) {
+    issue(
+      "config.floorDimensions",
+      "Floor width and length must be greater than 0 and at most 500",
+    );
+  }
+  if (
+    config.minAisleWidth !== undefined &&
+    (!isNumber(config.minAisleWidth) ||
+      config.minAisleWidth <= 0 ||
+      config.minAisleWidth > 10)
+  ) {
+    issue(
+      "config.minAisleWidth",
+      "Minimum aisle width must be greater than 0 and at most 10",
+    );
+  }
+  const onFloor = (x: number, z: number) =>
+    x >= -EPSILON &&
+    z >= -EPSILON &&
+    x <= floorWidth + EPSILON &&
+    z <= floorLength + EPSILON;
+
+  const seenIds = new Set<string>();
+  const checkId = (path: string, id: unknown) => {
+    if (typeof id !== "string" || !id.trim()) {
+      issue(`${path}.id`, "Id is required");
+    } else if (seenIds.has(id)) {
+      // Step 5: Unique ids
+      issue(`${path}.id`, `Duplicate id ${id}`);
+    } else {
+      seenIds.add(id);
+    }
+  };
+
+  // Step 2: Entry points
+  const entryPoints = Array.isArray(layout.entryPoints)
+    ? layout.entryPoints
+    : [];
+  if (entryPoints.length === 0) {
+    issue("entryPoints", "Layout must have at least one entry point");
+  }
+  entryPoints.forEach((entryPoint: unknown, i) => {
+    const path = `entryPoints[${i}]`;
+    if (!isObject(entryPoint)) {
+      issue(path, "Entry point must be an object");
+      return;
+    }
+    checkId(path, entryPoint.id);
+    const position = readVector(entryPoint.position);
+    if (!position) {
+      issue(`${path}.position`, "Position is required");
+    } else if (!onFloor(position.x, position.z)) {
+      issue(`${path}.position`, "Entry point is outside the warehouse floor");
+    }
+  });
+
+  // Step 3: Zones
+  const zones = Array.isArray(layout.zones) ? layout.zones : [];
+  if (zones.length === 0) {
+    issue("zones", "Layout must contain at least one zone");
+  }
+
+  const zoneBounds: {
+    path: string;
+    x: number;
+    z: number;
+    w: number;
+    l: number;
+  }[] = [];
+  const segments = new Map<string, string>();
+  const footprints: { path: string; footprint: Footprint }[] = [];
+
+  zones.forEach((zone: unknown, i) => {
+    const path = `zones[${i}]`;
+    if (!isObject(zone)) {
+      issue(path, "Zone must be an object");
+      return;
+    }
+    checkId(path, zone.id);
+
+    if (!ZONE_TYPES.includes(zone.type as string)) {
+      issue(
+        `${path}.type`,
+        `Zone type must be one of ${ZONE_TYPES.join(", ")}`,
+      );
+    }
+
+    const segment =
+      typeof zone.name === "string" ? toPathSegment(zone.name) : "";
+    if (!segment) {
+      issue(`${path}.name`, "Zone name must contain letters or digits");
+    } else if (segments.has(segment)) {
+      issue(
+        `${path}.name`,
+        `Zone name ${String(zone.name)} clashes with ${segments.get(segment)}`,
+      );
+    } else {
+      segments.set(segment, String(zone.name));
+    }
+
+    if (
+      typeof zone.color !== "string" ||
+      !/^#[0-9a-fA-F]{6}$/.test(zone.color)
+    ) {
+      issue(`${path}.color`, "Color must be a hex color (#RRGGBB)");
+    }
+
+    const bounds = isObject(zone.bounds) ? zone.bounds : null;
+    let inZone = (_x: number, _z: number) => true;
+    if (
+      !bounds ||
+      !isNumber(bounds.x) ||
+      !isNumber(bounds.z) ||
+      !isNumber(bounds.width) ||
+      !isNumber(bounds.length) ||
+      bounds.x < 0 ||
+      bounds.z < 0 ||
+      bounds.width <= 0 ||
+      bounds.length <= 0
+    ) {
+      issue(`${path}.bounds`, "Zone bounds must be non-negative with a size");
+    } else {
+      const { x, z, width, length } = bounds;
+      if (!onFloor(x, z) || !onFloor(x + width, z + length)) {
+        issue(`${path}.bounds`, "Zone exceeds warehouse floor boundaries");
+      }
+      for (const other of zoneBounds) {
+        if (
+          x < other.x + other.w - EPSILON &&
+          other.x < x + width - EPSILON &&
+          z < other.z + other.l - EPSILON &&
+          other.z < z + length - EPSILON
+        ) {
+          issue(`${path}.bounds`, `Zone overlaps with ${other.path}`);
+        }
+      }
+      zoneBounds.push({ path, x, z, w: width, l: length });
+      inZone = (px, pz) =>
+        px >= x - EPSILON &&
+        pz >= z - EPSILON &&
+        px <= x + width + EPSILON &&
+        pz <= z + length + EPSILON;
+    }
+
+    // Step 4: Racks and obstacles
+    const placeEntity = (
+      entityPath: string,
+      entity: Record<string, unknown>,
+      label: string,
+    ) => {
+      const position = readVector(entity.position);
+      const rotation =
+        entity.rotation === undefined ? null : readVector(entity.rotation);
+      if (!position) {
+        issue(`${entityPath}.position`, "Position is required");
+        return;
+      }
+      if (entity.rotation !== undefined && !rotation) {
+        issue(`${entityPath}.rotation`, "Rotation must be a vector");
+        return;
+      }
+      if (!isPositiveDimension(entity.dimensions)) {
+        issue(
+          `${entityPath}.dimensions`,
+          "Width, height and depth must be greater than 0",
+        );
+        return;
+      }
+
+      const footprint = getFootprint({
+        position,
+        rotation: rotation ?? undefined,
+        dimensions: entity.dimensions,
+      });
+      if (getFootprintCorners(footprint).some(([cx, cz]) => !inZone(cx, cz))) {
+        issue(entityPath, `${label} must be placed within zone boundaries`);
+      }
+      for (const other of footprints) {
+        if (footprintsOverlap(footprint, other.footprint)) {
+          issue(entityPath, `${label} collides with ${other.path}`);
+        }
+      }
+      footprints.push({ path: entityPath, footprint });
+    };
+
+    const racks = Array.isArray(zone.racks) ? zone.racks : [];
+    racks.forEach((rack: unknown, r) => {
+      const rackPath = `${path}.racks[${r}]`;
+      if (!isObject(rack)) {
+        issue(rackPath, "Rack must be an object");
+        return;
+      }
+      checkId(rackPath, rack.id);
+      if (!RACK_TYPES.includes(rack.type as string)) {
+        issue(
+          `${rackPath}.type`,
+          `Rack type must be one of ${RACK_TYPES.join(", ")}`,
+        );
+      }
+      placeEntity(rackPath, rack, "Rack");
+
+      const shelves = Array.isArray(rack.shelves) ? rack.shelves : [];
+      if (shelves.length === 0) {
+        issue(`${rackPath}.shelves`, "Rack must have at least one shelf");
+      }
+      const levels = shelves
+        .map((shelf: unknown, s) => ({ shelf, s }))
+        .filter(
+          (entry): entry is { shelf: Record<string, unknown>; s: number } =>
+            isObject(entry.shelf),
+        )
+        .sort(
+          (a, b) =>
+            (isNumber(a.shelf.levelIndex) ? a.shelf.levelIndex : 0) -
+            (isNumber(b.shelf.levelIndex) ? b.shelf.levelIndex : 0),
+        );
+      if (levels.length !== shelves.length) {
+        issue(`${rackPath}.shelves`, "Shelves must be objects");
+      }
+
+      let previousHeight = Number.NEGATIVE_INFINITY;
+      levels.forEach(({ shelf, s }, level) => {
+        const shelfPath = `${rackPath}.shelves[${s}]`;
+        checkId(shelfPath, shelf.id);
+        if (shelf.levelIndex !== level) {
+          issue(
+            `${shelfPath}.levelIndex`,
+            "Shelf levels must be sequential starting from 0",
+          );
+        }
+        if (!isNumber(shelf.heightFromGround) || shelf.heightFromGround < 0) {
+          issue(
+            `${shelfPath}.heightFromGround`,
+            "Shelf height must be a non-negative number",
+          );
+        } else {
+          if (shelf.heightFromGround <= previousHeight) {
+            issue(
+              `${shelfPath}.heightFromGround`,
+              "Shelf height must increase with its level",
+            );
+          }
+          previousHeight = shelf.heightFromGround;
+        }
+
+        const bins = Array.isArray(shelf.bins) ? shelf.bins : [];
+        if (bins.length === 0) {
+          issue(`${shelfPath}.bins`, "Shelf must have at least one bin");
+        }
+        bins.forEach((bin: unknown, b) => {
+          const binPath = `${shelfPath}.bins[${b}]`;
+          if (!isObject(bin)) {
+            issue(binPath, "Bin must be an object");
+            return;
+          }
+          checkId(binPath, bin.id);
+          if (
+            !isNumber(bin.capacity) ||
+            !isNumber(bin.currentLoad) ||
+            bin.capacity < 0 ||
+            bin.currentLoad < 0
+          ) {
+            issue(
+              binPath,
+              "Bin capacity and load must be non-negative numbers",
+            );
+          } else if (bin.currentLoad > bin.capacity) {
+            issue(binPath, "Bin load exceeds capacity");
+          }
+        });
+      });
+    });
+
+    const obstacles = Array.isArray(zone.obstacles) ? zone.obstacles : [];
+    obstacles.forEach((obstacle: unknown, o) => {
+      const obstaclePath = `${path}.obstacles[${o}]`;
+      if (!isObject(obstacle)) {
+        issue(obstaclePath, "Obstacle must be an object");
+        return;
+      }
+      checkId(obstaclePath, obstacle.id);
+      if (!OBSTACLE_TYPES.includes(obstacle.type as string)) {
+        issue(
+          `${obstaclePath}.type`,
+          `Obstacle type must be one of ${OBSTACLE_TYPES.join(", ")}`,
+        );
+      }
+      placeEntity(obstaclePath, obstacle, "Obstacle");
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * A storage zone a published layout element maps to
+ */
+type LayoutLocation = {
+  elementId: string;
+  elementType: "ZONE" | "RACK" | "SHELF" | "BIN";
+  name: string;
+  path: string;
+  layoutZoneType: string;
+  storageBlockType: string;
+  attributes: Record<string, unknown>;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Flatten a valid layout into storage zone locations, parents first
+ * Zones take their path segment from their name, racks, shelves and bins
+ * from their element id, so paths survive reordering
+ */
+function getLayoutLocations(layout: WarehouseLayout): LayoutLocation[] {
+  const locations: LayoutLocation[] = [];
+  const entryPoints = layout.entryPoints.map((entry) => entry.position);
+  const dockDistance = (position: LayoutVector) =>
+    round(
+      Math.min(
+        ...entryPoints.map((entry) =>
+          Math.hypot(entry.x - position.x, entry.z - position.z),
+        ),
+      ),
+    );
+
+  for (const zone of layout.zones) {
+    const zonePath = toPathSegment(zone.name);
+    locations.push({
+      elementId: zone.id,
+      elementType: "ZONE",
+      name: zone.name.trim(),
+      path: zonePath,
+      layoutZoneType: zone.type,
+      storageBlockType: "FLOOR",
+      attributes: { bounds: zone.bounds },
+    });
+
+    zone.racks.forEach((rack, r) => {
+      const rackPath = `${zonePath}.${toPathSegment(rack.id)}`;
+      const distance = dockDistance(rack.position);
+      locations.push({
+        elementId: rack.id,
+        elementType: "RACK",
+        name: `${zone.name.trim()} rack ${r + 1}`,
+        path: rackPath,
+        layoutZoneType: zone.type,
+        storageBlockType: "RACK",
+        attributes: {
+          rackType: rack.type,
+          position: rack.position,
+          rotation: rack.rotation,
+          dimensions: rack.dimensions,
+          dockDistance: distance,
+        },
+      });
+
+      for (const shelf of rack.shelves) {
+        const shelfPath = `${rackPath}.${toPathSegment(shelf.id)}`;
+        locations.push({
+          elementId: shelf.id,
+          elementType: "SHELF",
+          name: `${zone.name.trim()} rack ${r + 1} level ${shelf.levelIndex}`,
+          path: shelfPath,
+          layoutZoneType: zone.type,
+          storageBlockType: "SHELF",
+          attributes: {
+            levelIndex: shelf.levelIndex,
+            heightFromGround: shelf.heightFromGround,
+            dockDistance: distance,
+          },
+        });
+
+        shelf.bins.forEach((bin, b) => {
+          locations.push({
+            elementId: bin.id,
+            elementType: "BIN",
+            name: `${zone.name.trim()} rack ${r + 1} level ${shelf.levelIndex} bin ${b + 1}`,
+            path: `${shelfPath}.${toPathSegment(bin.id)}`,
+            layoutZoneType: zone.type,
+            storageBlockType: "BIN",
+            attributes: {
+              capacity: bin.capacity,
+              dockDistance: distance,
+            },
+          });
+        });
+      }
+    });
+  }
+
+  return locations;
+}
+
+/**
+ * Layout element a storage zone was created from, if any
+ */
+function getLayoutElementId(zone: Doc<"storage_zones">): string | undefined {
+  const attributes = zone.zoneAttributes as Record<string, unknown> | undefined;
+  return typeof attributes?.layoutElementId === "string"
+    ? attributes.layoutElementId
+    : undefined;
+}
+
+/**
+ * Live stock of a branch's zones, keyed by the layout element each zone
+ * is bound to
+ */
+async function getElementStock(ctx: QueryCtx, branchId: Id<"branches">) {
+  const zones = await ctx.db
+    .query("storage_zones")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+
+  const stock = new Map<string, { quantity: number; batchCount: number }>();
+  for (const zone of zones) {
+    const elementId = getLayoutElementId(zone);
+    if (!elementId) continue;
+
+    const batches = await ctx.db
+      .query("inventory_batches")
+      .withIndex("zoneId", (q) => q.eq("zoneId", zone._id))
+      .filter((q) =>
+        q.and(q.eq(q.field("isDeleted"), false), q.gt(q.field("quantity"), 0)),
+      )
+      .collect();
+    if (batches.length === 0) continue;
+
+    stock.set(elementId, {
+      quantity: batches.reduce((sum, batch) => sum + batch.quantity, 0),
+      batchCount: batches.length,
+    });
+  }
+
+  return stock;
+}
+
+/**
+ * Racks holding stock in themselves, their shelves or their bins, with
+ * the units they hold
+ */
+function getLockedRacks(
+  layout: WarehouseLayout,
+  stock: Map<string, { quantity: number }>,
+) {
+  const locked = new Map<string, { rack: LayoutRack; quantity: number }>();
+  for (const rack of layout.zones.flatMap((zone) => zone.racks)) {
+    const elementIds = [
+      rack.id,
+      ...rack.shelves.flatMap((shelf) => [
+        shelf.id,
+        ...shelf.bins.map((bin) => bin.id),
+      ]),
+    ];
+    const quantity = elementIds.reduce(
+      (sum, id) => sum + (stock.get(id)?.quantity ?? 0),
+      0,
+    );
+    if (quantity > 0) locked.set(rack.id, { rack, quantity });
+  }
+  return locked;
+}
+
+/**
+ * Whether a rack keeps its position, rotation and dimensions
+ */
+function samePlacement(a: LayoutRack, b: LayoutRack): boolean {
+  const same = (x: number, y: number) => Math.abs(x - y) < EPSILON;
+  return (
+    same(a.position.x, b.position.x) &&
+    same(a.position.y, b.position.y) &&
+    same(a.position.z, b.position.z) &&
+    same(a.rotation.x, b.rotation.x) &&
+    same(a.rotation.y, b.rotation.y) &&
+    same(a.rotation.z, b.rotation.z) &&
+    same(a.dimensions.width, b.dimensions.width) &&
+    same(a.dimensions.height, b.dimensions.height) &&
+    same(a.dimensions.depth, b.dimensions.depth)
+  );
+}
+
+/**
+ * Check a layout against the data model and against the branch
+ *
+ * Process:
+ * 1. Runs validateLayout; the remaining rules need a well-formed layout
+ * 2. Locks the racks of the published layout that hold stock: the layout
+ *    may not move, rotate, resize or remove them
+ * 3. Flags racks whose front cannot be reached from an entry point
+ */
+async function checkLayoutRules(
+  ctx: QueryCtx,
+  branchId: Id<"branches">,
+  layout: unknown,
+): Promise<LayoutIssue[]> {
+  // Step 1: Data model
+  const issues = validateLayout(layout);
+  if (issues.length > 0) return issues;
+
+  const draft = layout as WarehouseLayout;
+  const draftRacks = new Map(
+    draft.zones.flatMap((zone, z) =>
+      zone.racks.map((rack, r) => [
+        rack.id,
+        { rack, path: `zones[${z}].racks[${r}]` },
+      ]),
+    ),
+  );
+
+  // Step 2: Racks locked by stock
+  const published = await getLatestWithStatus(ctx, branchId, "PUBLISHED");
+  if (published) {
+    const locked = getLockedRacks(
+      published.layout as WarehouseLayout,
+      await getElementStock(ctx, branchId),
+    );
+    for (const [rackId, { rack, quantity }] of locked) {
+      const current = draftRacks.get(rackId);
+      if (!current) {
+        issues.push({
+          path: "zones",
+          message: `Rack ${rackId} holds ${quantity} unit(s) of stock and cannot be removed`,
+          elementId: rackId,
+          rule: "LOCKED",
+        });
+      } else if (!samePlacement(rack, current.rack)) {
+        issues.push({
+          path: current.path,
+          message: `Rack ${rackId} holds ${quantity} unit(s) of stock and cannot be moved, rotated or resized`,
+          elementId: rackId,
+          rule: "LOCKED",
+        });
+      }
+    }
+  }
+
+  // Step 3: Accessibility
+  for (const rackId of findInaccessibleRacks(draft)) {
+    issues.push({
+      path: draftRacks.get(rackId)?.path ?? "zones",
+      message: "Rack is not accessible - blocked pathway",
+      elementId: rackId,
+      rule: "INACCESSIBLE",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Upsert the storage zones of a branch from a published layout
+ *
+ * Process:
+ * 1. Matches each layout location to a zone bound to the same element,
+ *    or to an unbound zone at the same path
+ * 2. Refuses to drop bound zones that still hold stock
+ * 3. Inserts or updates the zones of every location
+ * 4. Soft deletes the bound zones whose elements left the layout
+ */
+async function syncStorageZones(
+  ctx: MutationCtx,
+  branchId: Id<"branches">,
+  layout: WarehouseLayout,
+) {
+  const zones = await ctx.db
+    .query("storage_zones")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) => q.eq(q.field("isDeleted"), false))
+    .collect();
+  const locations = getLayoutLocations(layout);
+
+  // Step 1: Match locations to existing zones
+  const byElement = new Map<string, Doc<"storage_zones">>();
+  for (const zone of zones) {
+    const elementId = getLayoutElementId(zone);
+    if (elementId) byElement.set(elementId, zone);
+  }
+  const matched = new Map<string, Doc<"storage_zones">>();
+  const claimed = new Set<Id<"storage_zones">>();
+  for (const location of locations) {
+    const zone =
+      byElement.get(location.elementId) ??
+      zones.find(
+        (z) =>
+          z.path === location.path &&
+          !getLayoutElementId(z) &&
+          !claimed.has(z._id),
+      );
+    if (zone) {
+      matched.set(location.elementId, zone);
+      claimed.add(zone._id);
+    }
+  }
+
+  // Step 2: Bound zones that are no longer in the layout
+  const elementIds = new Set(locations.map((l) => l.elementId));
+  const removedZones = zones.filter((zone) => {
+    const elementId = getLayoutElementId(zone);
+    return elementId !== undefined && !elementIds.has(elementId);
+  });
+  for (const zone of removedZones) {
+    const batch = await ctx.db
+      .query("inventory_batches")
+      .withIndex("zoneId", (q) => q.eq("zoneId", zone._id))
+      .filter((q) =>
+        q.and(q.eq(q.field("isDeleted"), false), q.gt(q.field("quantity"), 0)),
+      )
+      .first();
+    if (batch) {
+      throw new Error(
+        `Cannot remove ${zone.name} (${zone.path}) from the layout: it still holds stock`,
+      );
+    }
+  }
+
+  // Step 3: Upsert the layout's zones
+  const zoneTypeIds = new Map<string, Id<"system_lookups">>();
+  let created = 0;
+  let updated = 0;
+  for (const location of locations) {
+    const zoneType = LAYOUT_ZONE_TYPES[location.layoutZoneType];
+    let zoneTypeId = zoneTypeIds.get(zoneType.code);
+    if (!zoneTypeId) {
+      zoneTypeId = await ensureSystemLookup(
+        ctx,
+        "ZoneType",
+        zoneType.code,
+        zoneType.value,
+        zoneType.description,
+      );
+      zoneTypeIds.set(zoneType.code, zoneTypeId);
+    }
+
+    const existing = matched.get(location.elementId);
+    const zoneAttributes = {
+      ...(existing?.zoneAttributes ?? {}),
+      ...location.attributes,
+      layoutElementId: location.elementId,
+      layoutElementType: location.elementType,
+    };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        name: location.name,
+        path: location.path,
+        zoneTypeId,
+        storageBlockType: location.storageBlockType,
+        zoneAttributes,
+      });
+      updated++;
+    } else {
+      await ctx.db.insert("storage_zones", {
+        branchId,
+        name: location.name,
+        path: location.path,
+        zoneTypeId,
+        storageBlockType: location.storageBlockType,
+        zoneAttributes,
+        isDeleted: false,
+      });
+      created++;
+    }
+  }
+
+  // Step 4: Retire zones of removed elements
+  for (const zone of removedZones) {
+    await ctx.db.patch(zone._id, { isDeleted: true, deletedAt: Date.now() });
+  }
+
+  return { created, updated, removed: removedZones.length };
+}
+
+/**
+ * Get the latest layout version of a branch with a given status
+ */
+async function getLatestWithStatus(
+  ctx: QueryCtx,
+  branchId: Id<"branches">,
+  statusCode: string,
+): Promise<Doc<"warehouse_layouts"> | null> {
+  const status = await getSystemLookup(ctx, LAYOUT_STATUS, statusCode);
+  if (!status) return null;
+
+  return await ctx.db
+    .query("warehouse_layouts")
+    .withIndex("branchId_version", (q) => q.eq("branchId", branchId))
+    .order("desc")
+    .filter((q) => q.eq(q.field("layoutStatusTypeId"), status._id))
+    .first();
+}
+
+/**
+ * Count the elements of a stored layout for version lists
+ */
+function countElements(layout: unknown) {
+  const zones =
+    isObject(layout) && Array.isArray(layout.zones)
+      ? (layout.zones as Partial<LayoutZone>[])
+      : [];
+  const racks = zones.flatMap((zone) => zone.racks ?? []);
+  const bins = racks.flatMap((rack) =>
+    (rack.shelves ?? []).flatMap((shelf) => shelf.bins ?? []),
+  );
+  return { zones: zones.length, racks: racks.length, bins: bins.length };
+}
+
+/**
+ * Add status and user names to a layout version
+ */
+async function enrichLayout(ctx: QueryCtx, layout: Doc<"warehouse_layouts">) {
+  const updatedBy = await ctx.db.get(layout.updatedByUserId);
+  const publishedBy = layout.publishedByUserId
+    ? await ctx.db.get(layout.publishedByUserId)
+    : null;
+  const status = await ctx.db.get(layout.layoutStatusTypeId);
+
+  return {
+    ...layout,
+    statusCode: status?.lookupCode ?? "UNKNOWN",
+    statusName: status?.lookupValue ?? "Unknown",
+    updatedByName: updatedBy?.fullName ?? "Unknown",
+    publishedByName: publishedBy?.fullName ?? null,
+  };
+}
+
+// ================================================================
+// QUERIES
+// ================================================================
+
+/**
+ * Get the current draft and published layout of a branch
+ */
+export const getBranchLayouts = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const draft = await getLatestWithStatus(ctx, args.branchId, "DRAFT");
+    const published = await getLatestWithStatus(
+      ctx,
+      args.branchId,
+      "PUBLISHED",
+    );
+
+    return {
+      draft: draft ? await enrichLayout(ctx, draft) : null,
+      published: published ? await enrichLayout(ctx, published) : null,
+    };
+  },
+});
+
+/**
+ * List the layout versions of a branch, newest first, without the layout
+ * documents themselves
+ */
+export const listVersions = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("warehouse_layouts")
+      .withIndex("branchId_version", (q) => q.eq("branchId", args.branchId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      versions.map(async (version) => {
+        const { layout, ...rest } = await enrichLayout(ctx, version);
+        return {
+          ...rest,
+          name:
+            isObject(layout) && isObject(layout.meta)
+              ? ((layout.meta.name as string | undefined) ?? null)
+              : null,
+          counts: countElements(layout),
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Get one layout version with its document
+ */
+export const getVersion = query({
+  args: {
+    layoutId: v.id("warehouse_layouts"),
+  },
+  handler: async (ctx, args) => {
+    const layout = await ctx.db.get(args.layoutId);
+    if (!layout) {
+      throw new Error("Layout version not found");
+    }
+
+    return await enrichLayout(ctx, layout);
+  },
+});
+
+/**
+ * Re-check a layout version against the branch's current stock
+ * Issues about racks carry the rack's elementId for highlighting
+ */
+export const checkLayout = query({
+  args: {
+    layoutId: v.id("warehouse_layouts"),
+  },
+  handler: async (ctx, args) => {
+    const layout = await ctx.db.get(args.layoutId);
+    if (!layout) {
+      throw new Error("Layout version not found");
+    }
+
+    const issues = await checkLayoutRules(ctx, layout.branchId, layout.layout);
+
+    const rackIds = (rule: LayoutIssue["rule"]) =>
+      issues.flatMap((issue) =>
+        issue.rule === rule && issue.elementId ? [issue.elementId] : [],
+      );
+
+    return {
+      issues,
+      lockedRackIds: rackIds("LOCKED"),
+      inaccessibleRackIds: rackIds("INACCESSIBLE"),
+    };
+  },
+});
+
+/**
+ * Live on-hand stock per layout element of a branch (the editor's
+ * inventoryMap), and the racks of the published layout it locks
+ */
+export const getLayoutInventory = query({
+  args: {
+    branchId: v.id("branches"),
+  },
+  handler: async (ctx, args) => {
+    const stock = await getElementStock(ctx, args.branchId);
+    const published = await getLatestWithStatus(
+      ctx,
+      args.branchId,
+      "PUBLISHED",
+    );
+    const locked = published
+      ? getLockedRacks(published.layout as WarehouseLayout, stock)
+      : new Map();
+
+    return {
+      inventoryMap: Object.fromEntries(stock),
+      lockedRackIds: [...locked.keys()] as string[],
+    };
+  },
+});
+
+// ================================================================
+// MUTATIONS
+// ================================================================
+
+/**
+ * Save a layout as the branch's draft
+ * Updates the open draft in place, or starts a new version after the
+ * latest one. Validation issues are stored with the draft and returned.
+ */
+export const saveDraft = mutation({
+  args: {
+    branchId: v.id("branches"),
+    userId: v.id("users"),
+    layout: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const branch = await ctx.db.get(args.branchId);
+    if (!branch || branch.isDeleted) {
+      throw new Error("Branch not found");
+    }
+
+    const validationErrors = await checkLayoutRules(
+      ctx,
+      args.branchId,
+      args.layout,
+    );
+    const now = Date.now();
+
+    const draft = await getLatestWithStatus(ctx, args.branchId, "DRAFT");
+    if (draft) {
+      await ctx.db.patch(draft._id, {
+        layout: args.layout,
+        validationErrors,
+        updatedByUserId: args.userId,
+        updatedAt: now,
+      });
+      return {
+        layoutId: draft._id,
+        version: draft.version,
+        validationErrors,
+      };
+    }
+
+    const latest = await ctx.db
+      .query("warehouse_layouts")
+      .withIndex("branchId_version", (q) => q.eq("branchId", args.branchId))
+      .order("desc")
+      .first();
+    const version = (latest?.version ?? 0) + 1;
+
+    const layoutId = await ctx.db.insert("warehouse_layouts", {
+      organizationId: branch.organizationId,
+      branchId: args.branchId,
+      version,
+      layoutStatusTypeId: await ensureSystemLookup(
+        ctx,
+        LAYOUT_STATUS,
+        "DRAFT",
+        "Draft",
+        "Layout being edited",
+      ),
+      layout: args.layout,
+      validationErrors,
+      createdByUserId: args.userId,
+      updatedByUserId: args.userId,
+      updatedAt: now,
+    });
+
+    return { layoutId, version, validationErrors };
+  },
+});
+
+/**
+ * Publish a draft layout and bring the branch's storage zones in line
+ *
+ * Process:
+ * 1. Re-checks the draft against the data model, stock locks and
+ *    accessibility; any issue blocks publishing
+ * 2. Upserts the storage zone hierarchy from the layout
+ * 3. Archives the previously published version
+ * 4. Marks the draft as published
+ */
+export const publishLayout = mutation({
+  args: {
+    layoutId: v.id("warehouse_layouts"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const draft = await ctx.db.get(args.layoutId);
+    if (!draft) {
+      throw new Error("Layout version not found");
+    }
+    if ((await getLookupCode(ctx, draft.layoutStatusTypeId)) !== "DRAFT") {
+      throw new Error("Only a draft layout can be published");
+    }
+
+    // Step 1: Validate
+    const validationErrors = await checkLayoutRules(
+      ctx,
+      draft.branchId,
+      draft.layout,
+    );
+    if (validationErrors.length > 0) {
+      const blockedRacks = [
+        ...new Set(
+          validationErrors.flatMap((issue) =>
+            issue.elementId ? [issue.elementId] : [],
+          ),
+        ),
+      ];
+      throw new Error(
+        blockedRacks.length > 0
+          ? `Cannot publish: rack(s) ${blockedRacks.join(", ")} are locked by stock or not accessible`
+          : `Layout has ${validationErrors.length} validation issue(s): ${validationErrors[0].path} ${validationErrors[0].message}`,
+      );
+    }
+
+    // Step 2: Sync storage zones
+    const zoneChanges = await syncStorageZones(
+      ctx,
+      draft.branchId,
+      draft.layout as WarehouseLayout,
+    );
+
+    // Step 3: Archive the previous version
+    const previous = await getLatestWithStatus(
+      ctx,
+      draft.branchId,
+      "PUBLISHED",
+    );
+    if (previous) {
+      await ctx.db.patch(previous._id, {
+        layoutStatusTypeId: await ensureSystemLookup(
+          ctx,
+          LAYOUT_STATUS,
+          "ARCHIVED",
+          "Archived",
+          "Superseded by a newer published layout",
+        ),
+      });
+    }
+
+    // Step 4: Publish
+    const now = Date.now();
+    await ctx.db.patch(draft._id, {
+      layoutStatusTypeId: await ensureSystemLookup(
+        ctx,
+        LAYOUT_STATUS,
+        "PUBLISHED",
+        "Published",
+        "Layout in use by warehouse operations",
+      ),
+      validationErrors: [],
+      publishedByUserId: args.userId,
+      publishedAt: now,
+      updatedAt: now,
+    });
+
+    return { success: true, version: draft.version, ...zoneChanges };
+  },
+});
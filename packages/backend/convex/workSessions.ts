@@ -0,0 +1,27 @@
+import type { Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+
+/**
+ * Internal helper to generate a unique work session code.
+ * Format: <PREFIX>-YYYYMMDD-XXXX (e.g., PICK-20260104-0001)
+ */
+export async function generateWorkSessionCode(
+  ctx: MutationCtx,
+  branchId: Id<"branches">,
+  prefix: string,
+): Promise<string> {
+  const now = Date.now();
+  const date = new Date(now);
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  const startOfDay = new Date(date.setHours(0, 0, 0, 0)).getTime();
+
+  const todaySessions = await ctx.db
+    .query("work_sessions")
+    .withIndex("branchId", (q) => q.eq("branchId", branchId))
+    .filter((q) => q.gte(q.field("_creationTime"), startOfDay))
+    .collect();
+
+  const sequence = (todaySessions.length + 1).toString().padStart(4, "0");
+  return `${prefix}-${dateStr}-${sequence}`;
+}